@@ -13,6 +13,68 @@ const config = {
   port: Number(process.env.PORT ?? 4000),
   corsOrigins: (process.env.CORS_ORIGIN ?? 'http://localhost:5173').split(','),
   databaseUrl: process.env.DATABASE_URL ?? '',
+  // Straight-line depreciation period used for book value roll-ups
+  assetUsefulLifeYears: Number(process.env.ASSET_USEFUL_LIFE_YEARS ?? 4),
+  smtp: {
+    host: process.env.SMTP_HOST ?? '',
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER ?? '',
+    password: process.env.SMTP_PASSWORD ?? '',
+    from: process.env.SMTP_FROM ?? 'AssetOrbit <no-reply@localhost>',
+  },
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    // How often due report schedules are polled for
+    pollIntervalMs: Number(process.env.SCHEDULER_POLL_INTERVAL_MS ?? 60_000),
+    // Upper bound on rows delivered by a saved-view digest
+    maxRows: Number(process.env.SCHEDULER_MAX_ROWS ?? 5000),
+  },
+  importJobs: {
+    // Set IMPORT_WORKER_ENABLED=false on instances that should only queue imports
+    workerEnabled: process.env.IMPORT_WORKER_ENABLED !== 'false',
+    pollIntervalMs: Number(process.env.IMPORT_WORKER_POLL_INTERVAL_MS ?? 2000),
+    // A running job whose heartbeat is older than this is treated as crashed and resumed
+    staleAfterMs: Number(process.env.IMPORT_JOB_STALE_AFTER_MS ?? 5 * 60 * 1000),
+    // Signs progress-stream tokens; must match across instances behind a load balancer
+    progressTokenSecret: process.env.IMPORT_PROGRESS_TOKEN_SECRET ?? '',
+    progressTokenTtlSeconds: Number(process.env.IMPORT_PROGRESS_TOKEN_TTL_SECONDS ?? 15 * 60),
+  },
+  lifecycle: {
+    // How often lifecycle policies are re-evaluated into alerts
+    evaluationIntervalMs: Number(process.env.LIFECYCLE_EVALUATION_INTERVAL_MS ?? 60 * 60 * 1000),
+  },
+  leaverCheck: {
+    // How often asset assignees are checked against Azure AD for leavers and movers
+    intervalMs: Number(process.env.LEAVER_CHECK_INTERVAL_MS ?? 24 * 60 * 60 * 1000),
+  },
+  storage: {
+    // 'local' writes under localDir; 'azure' uses a blob container
+    driver: (process.env.STORAGE_DRIVER ?? 'local') as 'local' | 'azure',
+    localDir: process.env.STORAGE_LOCAL_DIR ?? 'uploads/attachments',
+    azureConnectionString: process.env.AZURE_STORAGE_CONNECTION_STRING ?? '',
+    azureContainer: process.env.AZURE_STORAGE_CONTAINER ?? 'attachments',
+  },
+  attachments: {
+    maxFileSizeMb: Number(process.env.ATTACHMENT_MAX_FILE_SIZE_MB ?? 20),
+    allowedTypes: (
+      process.env.ATTACHMENT_ALLOWED_TYPES ??
+      'image/jpeg,image/png,image/webp,image/gif,image/heic,application/pdf,text/plain,text/csv,' +
+        'application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document,' +
+        'application/vnd.ms-excel,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    ).split(','),
+  },
+  tickets: {
+    // Shared secret helpdesks send in X-Webhook-Secret; the webhook is disabled while empty
+    webhookSecret: process.env.TICKET_WEBHOOK_SECRET ?? '',
+  },
+  directory: {
+    // 'graph' uses Azure AD; 'csv' reads staff from csvPath so the app runs without a tenant
+    provider: (process.env.DIRECTORY_PROVIDER ?? 'graph') as 'graph' | 'csv',
+    csvPath: process.env.DIRECTORY_CSV_PATH ?? 'data/staff-directory.csv',
+    // How often the stored staff directory pulls changes (delta) from the provider
+    syncIntervalMs: Number(process.env.DIRECTORY_SYNC_INTERVAL_MS ?? 15 * 60 * 1000),
+  },
   azure: {
     clientId: process.env.AZURE_AD_CLIENT_ID ?? '',
     tenantId: process.env.AZURE_AD_TENANT_ID ?? '',
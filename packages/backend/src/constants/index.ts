@@ -25,6 +25,8 @@ export const ASSET_STATUSES = {
   ASSIGNED: 'ASSIGNED',
   SPARE: 'SPARE',
   MAINTENANCE: 'MAINTENANCE',
+  // Assignee has left; the asset is to be collected
+  RECOVER: 'RECOVER',
   RETIRED: 'RETIRED',
   DISPOSED: 'DISPOSED',
 } as const;
@@ -64,10 +66,16 @@ export const ACTIVITY_ACTIONS = {
   DELETE: 'DELETE',
   ASSIGN: 'ASSIGN',
   UNASSIGN: 'UNASSIGN',
+  CHECK_OUT: 'CHECK_OUT',
+  CHECK_IN: 'CHECK_IN',
+  ATTACH: 'ATTACH',
+  DETACH: 'DETACH',
+  MERGE: 'MERGE',
   STATUS_CHANGE: 'STATUS_CHANGE',
   BULK_UPDATE: 'BULK_UPDATE',
   EXPORT: 'EXPORT',
   IMPORT: 'IMPORT',
+  ROLLBACK: 'ROLLBACK',
 } as const;
 
 export type ActivityAction = typeof ACTIVITY_ACTIONS[keyof typeof ACTIVITY_ACTIONS];
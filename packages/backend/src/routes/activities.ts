@@ -3,12 +3,184 @@ import type { Request, Response } from 'express';
 import prisma from '../services/database.js';
 import { authenticateJwt } from '../middleware/auth.js';
 import logger from '../utils/logger.js';
+import { ACTIVITY_ACTIONS, ENTITY_TYPES } from '../constants/index.js';
+import type { Prisma } from '../generated/prisma';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticateJwt);
 
+// Build a human-readable summary from a stored changes payload
+function describeChanges(changes: string | null): string | null {
+  if (!changes) return null;
+  try {
+    const parsed = JSON.parse(changes);
+    
+    // If there's a description, use it
+    if (parsed.description) return parsed.description;
+    
+    // If there's an action, use it
+    if (parsed.action) return parsed.action;
+    
+    // If there's an operation, use it
+    if (parsed.operation) return `${parsed.operation} operation`;
+    
+    // Try to build a description from changes
+    const changeKeys = Object.keys(parsed).filter(key => 
+      key !== 'description' && key !== 'action' && key !== 'operation' && 
+      typeof parsed[key] === 'object' && parsed[key].from !== undefined
+    );
+    
+    if (changeKeys.length > 0) {
+      const descriptions = changeKeys.map(key => {
+        const change = parsed[key];
+        switch (key) {
+          case 'assignedToId':
+            if (change.to && !change.from) return 'Asset assigned';
+            if (!change.to && change.from) return 'Asset unassigned';
+            if (change.to !== change.from) return 'Asset reassigned';
+            break;
+          case 'status':
+            return `Status: ${change.from} → ${change.to}`;
+          case 'condition':
+            return `Condition: ${change.from} → ${change.to}`;
+          default:
+            return `${key} updated`;
+        }
+        return null;
+      }).filter(Boolean);
+      
+      if (descriptions.length > 0) {
+        return descriptions.join(', ');
+      }
+    }
+    
+    // Fallback to the raw changes
+    return changes;
+  } catch {
+    return changes;
+  }
+}
+
+// Parse stored changes JSON; plain-text entries (older import logs) are returned as-is
+function parseChanges(changes: string | null): unknown {
+  if (!changes) return null;
+  try {
+    return JSON.parse(changes);
+  } catch {
+    return changes;
+  }
+}
+
+// GET /api/activities - Organisation-wide audit log with pagination and filters
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const {
+      page = '1',
+      limit = '50',
+      userId,
+      action,
+      entityType,
+      entityId,
+      assetId,
+      from,
+      to,
+      search,
+    } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(200, Math.max(1, parseInt(limit as string) || 50));
+
+    const where: Prisma.ActivityLogWhereInput = {};
+    if (userId) where.userId = userId as string;
+    if (action) where.action = action as string;
+    if (entityType) where.entityType = entityType as string;
+    if (entityId) where.entityId = entityId as string;
+    if (assetId) where.assetId = assetId as string;
+    if (from || to) {
+      const fromDate = from ? new Date(from as string) : null;
+      const toDate = to ? new Date(to as string) : null;
+      if (fromDate && isNaN(fromDate.getTime())) {
+        return res.status(400).json({ error: `Invalid from date: ${from}` });
+      }
+      if (toDate && isNaN(toDate.getTime())) {
+        return res.status(400).json({ error: `Invalid to date: ${to}` });
+      }
+      where.createdAt = {
+        ...(fromDate && { gte: fromDate }),
+        ...(toDate && { lte: toDate }),
+      };
+    }
+    if (search) {
+      const searchStr = search as string;
+      where.OR = [
+        { changes: { contains: searchStr } },
+        { entityId: { contains: searchStr } },
+        { asset: { assetTag: { contains: searchStr } } },
+      ];
+    }
+
+    const [activities, total] = await Promise.all([
+      prisma.activityLog.findMany({
+        where,
+        include: {
+          user: { select: { id: true, displayName: true, email: true } },
+          asset: { select: { id: true, assetTag: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+      }),
+      prisma.activityLog.count({ where }),
+    ]);
+
+    res.json({
+      data: activities.map((activity) => ({
+        ...activity,
+        details: describeChanges(activity.changes),
+        parsedChanges: parseChanges(activity.changes),
+      })),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    logger.error('Error fetching audit log:', error);
+    res.status(500).json({ error: 'Failed to fetch audit log' });
+  }
+});
+
+// GET /api/activities/filters - Values for the audit log filter dropdowns
+router.get('/filters', async (_req: Request, res: Response) => {
+  try {
+    const [actions, entityTypes, userGroups] = await Promise.all([
+      prisma.activityLog.findMany({ distinct: ['action'], select: { action: true } }),
+      prisma.activityLog.findMany({ distinct: ['entityType'], select: { entityType: true } }),
+      prisma.activityLog.groupBy({ by: ['userId'] }),
+    ]);
+    const users = await prisma.user.findMany({
+      where: { id: { in: userGroups.map((g) => g.userId) } },
+      select: { id: true, displayName: true, email: true },
+      orderBy: { displayName: 'asc' },
+    });
+
+    // Known constants first so filters are useful before every action has occurred
+    const uniq = (values: string[]) => Array.from(new Set(values.map((v) => v.toUpperCase()))).sort();
+    res.json({
+      actions: uniq([...Object.values(ACTIVITY_ACTIONS), ...actions.map((a) => a.action)]),
+      entityTypes: uniq([...Object.values(ENTITY_TYPES), ...entityTypes.map((e) => e.entityType)]),
+      users,
+    });
+  } catch (error) {
+    logger.error('Error fetching audit log filters:', error);
+    res.status(500).json({ error: 'Failed to fetch audit log filters' });
+  }
+});
+
 // GET /api/activities/:entityType/:entityId - Get activities for a specific entity
 router.get('/:entityType/:entityId', async (req: Request, res: Response) => {
   try {
@@ -36,55 +208,7 @@ router.get('/:entityType/:entityId', async (req: Request, res: Response) => {
     // Parse changes JSON and create meaningful details
     const activitiesWithParsedChanges = activities.map((activity) => ({
       ...activity,
-      details: activity.changes ? (() => {
-        try {
-          const parsed = JSON.parse(activity.changes);
-          
-          // If there's a description, use it
-          if (parsed.description) return parsed.description;
-          
-          // If there's an action, use it
-          if (parsed.action) return parsed.action;
-          
-          // If there's an operation, use it
-          if (parsed.operation) return `${parsed.operation} operation`;
-          
-          // Try to build a description from changes
-          const changeKeys = Object.keys(parsed).filter(key => 
-            key !== 'description' && key !== 'action' && key !== 'operation' && 
-            typeof parsed[key] === 'object' && parsed[key].from !== undefined
-          );
-          
-          if (changeKeys.length > 0) {
-            const descriptions = changeKeys.map(key => {
-              const change = parsed[key];
-              switch (key) {
-                case 'assignedToId':
-                  if (change.to && !change.from) return 'Asset assigned';
-                  if (!change.to && change.from) return 'Asset unassigned';
-                  if (change.to !== change.from) return 'Asset reassigned';
-                  break;
-                case 'status':
-                  return `Status: ${change.from} → ${change.to}`;
-                case 'condition':
-                  return `Condition: ${change.from} → ${change.to}`;
-                default:
-                  return `${key} updated`;
-              }
-              return null;
-            }).filter(Boolean);
-            
-            if (descriptions.length > 0) {
-              return descriptions.join(', ');
-            }
-          }
-          
-          // Fallback to the raw changes
-          return activity.changes;
-        } catch {
-          return activity.changes;
-        }
-      })() : null,
+      details: describeChanges(activity.changes),
     }));
 
     res.json(activitiesWithParsedChanges);
@@ -12,7 +12,11 @@ import {
   USER_ROLES
 } from '../constants/index.js';
 import { Prisma } from '../generated/prisma';
-import { graphService } from '../services/graphService';
+import { lookupStaff } from '../services/staffDirectoryService';
+import { syncCustodyWithAssignment } from '../services/custodyService';
+import { buildAssetOrderBy, buildAssetWhere, findAssigneePage } from '../services/assetFilterService';
+import { validateAssetCustomFields } from '../services/customFieldService';
+import { getAttachmentKeys, removeStoredFiles } from '../services/attachmentService';
 
 const router = Router();
 
@@ -53,55 +57,12 @@ function getUserId(user: any): string {
   return userId;
 }
 
-// Helper function to enrich assets with staff information from Azure AD
+// Attach assignee details from the stored staff directory (one query per page)
 async function enrichAssetsWithStaffInfo(assets: any[]): Promise<any[]> {
-  const enrichedAssets = await Promise.all(
-    assets.map(async (asset) => {
-      if (asset.assignedToAadId) {
-        try {
-          // Check if assignedToAadId is a GUID or a username
-          const isGuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(asset.assignedToAadId);
-          
-          if (isGuid) {
-            // It's a GUID - call getStaffMember directly
-            const staffMember = await graphService.getStaffMember(asset.assignedToAadId);
-            return {
-              ...asset,
-              assignedToStaff: staffMember,
-            };
-          } else {
-            // It's a username - resolve it first using findUsersBySamAccount
-            const userMap = await graphService.findUsersBySamAccount([asset.assignedToAadId]);
-            const resolvedUser = userMap[asset.assignedToAadId];
-            
-            if (resolvedUser && resolvedUser.id) {
-              // Now get the full staff member info using the resolved GUID
-              const staffMember = await graphService.getStaffMember(resolvedUser.id);
-              return {
-                ...asset,
-                assignedToStaff: staffMember,
-              };
-            } else {
-              // Could not resolve username to GUID
-              logger.warn(`Could not resolve username "${asset.assignedToAadId}" to Azure AD GUID`);
-              return {
-                ...asset,
-                assignedToStaff: null,
-              };
-            }
-          }
-        } catch (error) {
-          logger.warn(`Failed to get staff info for ${asset.assignedToAadId}:`, error);
-          return {
-            ...asset,
-            assignedToStaff: null,
-          };
-        }
-      }
-      return asset;
-    })
+  const staffByValue = await lookupStaff(assets.map((asset) => asset.assignedToAadId).filter(Boolean));
+  return assets.map((asset) =>
+    asset.assignedToAadId ? { ...asset, assignedToStaff: staffByValue.get(asset.assignedToAadId) ?? null } : asset
   );
-  return enrichedAssets;
 }
 
 // Add canonical asset field metadata (for import mapping)
@@ -141,425 +102,33 @@ router.get('/', async (req: Request, res: Response) => {
     const {
       page = '1',
       limit = '50',
-      search,
-      status,
-      condition,
-      assetType,
-      departmentId,
-      locationId,
-      assignedToId,
-      assignedToAadId,
-      assignedTo, // Generic parameter that can be either ID or AAD ID
-      workloadCategoryId, // Filter by workload category
-      dateFrom,
-      dateTo,
-      // Specification filters
-      processor,
-      ram,
-      ramMin,
-      ramMax,
-      storage,
-      storageMin,
-      storageMax,
-      operatingSystem,
-      // Hardware filters
-      make,
-      model,
-      serialNumber,
-      // Financial filters
-      purchasePriceMin,
-      purchasePriceMax,
-      purchaseDateFrom,
-      purchaseDateTo,
-      // Warranty filters
-      warrantyStartFrom,
-      warrantyStartTo,
-      warrantyEndFrom,
-      warrantyEndTo,
-      warrantyStatus,
-      // Vendor and source filters
-      vendorId,
-      source,
-      // Asset identification
-      assetTag,
       sortBy = 'createdAt',
       sortOrder = 'desc',
-      missingSource,
     } = req.query;
 
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
     const skip = (pageNum - 1) * limitNum;
 
-    // Build where clause
-    const where: Prisma.AssetWhereInput = {} as any;
-
-    // Search functionality
-    if (search) {
-      const searchStr = search as string;
-      where.OR = [
-        { assetTag: { contains: searchStr } },
-        { make: { contains: searchStr } },
-        { model: { contains: searchStr } },
-        { serialNumber: { contains: searchStr } },
-        { notes: { contains: searchStr } },
-        // Search within custom field values
-        {
-          customFieldValues: {
-            some: {
-              value: {
-                contains: searchStr,
-              },
-            },
-          },
-        },
-      ];
-    }
-
-    // Helper function to handle array or single value filters
-    const handleArrayFilter = (value: any): string | { in: string[] } | undefined => {
-      if (!value) return undefined;
-      if (typeof value === 'string') {
-        // Check if it's a comma-separated list
-        if (value.includes(',')) {
-          return { in: value.split(',').map(v => v.trim()) };
-        }
-        return value;
-      }
-      if (Array.isArray(value)) {
-        return value.length === 1 ? value[0] : { in: value };
-      }
-      return value;
-    };
-
-    // Filters
-    if (status) {
-      const statusFilter = handleArrayFilter(status);
-      if (statusFilter) {
-        where.status = statusFilter;
-      }
-    }
-    if (condition) {
-      const conditionFilter = handleArrayFilter(condition);
-      if (conditionFilter) {
-        where.condition = conditionFilter;
-      }
-    }
-    if (assetType) {
-      const assetTypeFilter = handleArrayFilter(assetType);
-      if (assetTypeFilter) {
-        where.assetType = assetTypeFilter;
-      }
-    }
-    if (departmentId) {
-      const departmentFilter = handleArrayFilter(departmentId);
-      if (departmentFilter) {
-        where.departmentId = departmentFilter;
-      }
-    }
-    if (locationId) {
-      const locationFilter = handleArrayFilter(locationId);
-      if (locationFilter) {
-        where.locationId = locationFilter;
-      }
-    }
-    
-    // Hardware filters
-    if (make) {
-      const makeFilter = handleArrayFilter(make);
-      if (makeFilter) {
-        where.make = makeFilter;
-      }
-    }
-    if (model) {
-      where.model = { contains: model as string };
-    }
-    if (serialNumber) {
-      where.serialNumber = { contains: serialNumber as string };
-    }
-    if (assetTag) {
-      where.assetTag = { contains: assetTag as string };
-    }
-    
-    // Source filter
-    if (source) {
-      const sourceFilter = handleArrayFilter(source);
-      if (sourceFilter) {
-        where.source = sourceFilter;
-      }
-    }
-    
-    // Vendor filter
-    if (vendorId) {
-      const vendorFilter = handleArrayFilter(vendorId);
-      if (vendorFilter) {
-        where.vendorId = vendorFilter;
-      }
-    }
-
-    // Missing by source filter (assets missing from a specific external source)
-    if (missingSource) {
-      (where as any).externalSourceLinks = {
-        some: {
-          sourceSystem: String(missingSource).toUpperCase(),
-          isPresent: false,
-        }
-      };
-    }
-    
-    // Financial filters
-    if (purchasePriceMin || purchasePriceMax) {
-      where.purchasePrice = {};
-      if (purchasePriceMin) {
-        where.purchasePrice.gte = parseFloat(purchasePriceMin as string);
-      }
-      if (purchasePriceMax) {
-        where.purchasePrice.lte = parseFloat(purchasePriceMax as string);
-      }
-    }
-    
-    // Purchase date range
-    if (purchaseDateFrom || purchaseDateTo) {
-      where.purchaseDate = {};
-      if (purchaseDateFrom) {
-        where.purchaseDate.gte = new Date(purchaseDateFrom as string);
-      }
-      if (purchaseDateTo) {
-        where.purchaseDate.lte = new Date(purchaseDateTo as string);
-      }
-    }
-    
-    // Warranty filters
-    if (warrantyStartFrom || warrantyStartTo) {
-      where.warrantyStartDate = {};
-      if (warrantyStartFrom) {
-        where.warrantyStartDate.gte = new Date(warrantyStartFrom as string);
-      }
-      if (warrantyStartTo) {
-        where.warrantyStartDate.lte = new Date(warrantyStartTo as string);
-      }
-    }
-    
-    if (warrantyEndFrom || warrantyEndTo) {
-      where.warrantyEndDate = {};
-      if (warrantyEndFrom) {
-        where.warrantyEndDate.gte = new Date(warrantyEndFrom as string);
-      }
-      if (warrantyEndTo) {
-        where.warrantyEndDate.lte = new Date(warrantyEndTo as string);
-      }
-    }
-    
-    // Warranty status filter
-    if (warrantyStatus) {
-      const now = new Date();
-      const thirtyDaysFromNow = new Date(now.getTime() + (30 * 24 * 60 * 60 * 1000));
-      
-      if (warrantyStatus === 'active') {
-        where.warrantyEndDate = { gte: now };
-      } else if (warrantyStatus === 'expired') {
-        where.warrantyEndDate = { lt: now };
-      } else if (warrantyStatus === 'expiring_soon') {
-        where.AND = [
-          { warrantyEndDate: { gte: now } },
-          { warrantyEndDate: { lte: thirtyDaysFromNow } }
-        ];
-      }
-    }
-    
-    // Specification filters using JSON operations
-    const specFilters: any[] = [];
-    
-    if (processor) {
-      specFilters.push({
-        OR: [
-          { processor: { contains: processor as string } },
-          { 
-            specifications: {
-              path: ['processor'],
-              string_contains: processor as string
-            }
-          }
-        ]
-      });
-    }
-    
-    if (ram) {
-      specFilters.push({
-        OR: [
-          { ram: { contains: ram as string } },
-          { 
-            specifications: {
-              path: ['ram'],
-              string_contains: ram as string
-            }
-          }
-        ]
-      });
-    }
-    
-    if (ramMin || ramMax) {
-      // Extract numeric value from RAM strings for comparison
-      if (ramMin) {
-        const ramMinStr = ramMin as string;
-        specFilters.push({
-          OR: [
-            { ram: { contains: `${ramMinStr}GB` } },
-            { ram: { contains: `${parseInt(ramMinStr) * 1024}MB` } }
-          ]
-        });
-      }
-      if (ramMax) {
-        const ramMaxStr = ramMax as string;
-        specFilters.push({
-          OR: [
-            { ram: { contains: `${ramMaxStr}GB` } },
-            { ram: { contains: `${parseInt(ramMaxStr) * 1024}MB` } }
-          ]
-        });
-      }
-    }
-    
-    if (storage) {
-      specFilters.push({
-        OR: [
-          { storage: { contains: storage as string } },
-          { 
-            specifications: {
-              path: ['storage'],
-              string_contains: storage as string
-            }
-          }
-        ]
-      });
-    }
-    
-    if (storageMin || storageMax) {
-      // Similar logic for storage filtering
-      if (storageMin) {
-        const storageMinStr = storageMin as string;
-        specFilters.push({
-          OR: [
-            { storage: { contains: `${storageMinStr}GB` } },
-            { storage: { contains: `${parseInt(storageMinStr) / 1024}TB` } }
-          ]
-        });
-      }
-      if (storageMax) {
-        const storageMaxStr = storageMax as string;
-        specFilters.push({
-          OR: [
-            { storage: { contains: `${storageMaxStr}GB` } },
-            { storage: { contains: `${parseInt(storageMaxStr) / 1024}TB` } }
-          ]
-        });
-      }
-    }
-    
-    if (operatingSystem) {
-      const osFilter = handleArrayFilter(operatingSystem);
-      if (osFilter) {
-        specFilters.push({
-          OR: [
-            { operatingSystem: osFilter },
-            { 
-              specifications: {
-                path: ['operatingSystem'],
-                string_contains: typeof osFilter === 'string' ? osFilter : (osFilter as any).in[0]
-              }
-            }
-          ]
-        });
-      }
-    }
-    
-    // Add specification filters to the main where clause
-    if (specFilters.length > 0) {
-      if (!where.AND) {
-        where.AND = [];
-      }
-      (where.AND as any[]).push(...specFilters);
-    }
-    
-    // Handle assignment filters - support both legacy and new parameters
-    if (assignedToId) {
-      where.assignedToId = assignedToId as string;
-    }
-    if (assignedToAadId) {
-      where.assignedToAadId = assignedToAadId as string;
-    }
-    // Generic assignedTo parameter - try to detect if it's a UUID (AAD ID) or internal ID
-    if (assignedTo) {
-      const assignedToStr = assignedTo as string;
-      // Check if it looks like a UUID (Azure AD ID format)
-      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-      if (uuidRegex.test(assignedToStr)) {
-        where.assignedToAadId = assignedToStr;
-      } else {
-        // It's not a UUID, so it could be a non-AD user identifier or a legacy internal ID.
-        // For backward compatibility, we check both fields.
-        where.OR = [
-          { assignedToAadId: assignedToStr },
-          { assignedToId: assignedToStr }
-        ];
-      }
-    }
-
-    // Date range filters
-    if (dateFrom || dateTo) {
-      where.createdAt = {};
-      if (dateFrom) {
-        where.createdAt.gte = new Date(dateFrom as string);
-      }
-      if (dateTo) {
-        where.createdAt.lte = new Date(dateTo as string);
-      }
-    }
-
-    // Workload category filter
-    if (workloadCategoryId) {
-      where.workloadCategories = {
-        some: {
-          categoryId: workloadCategoryId as string,
-        },
-      };
-    }
-
-    // Custom field exact match filters: cf_<fieldId>=value
-    const cfFilters: Prisma.AssetWhereInput[] = [];
-    Object.entries(req.query).forEach(([key, val]) => {
-      if (key.startsWith('cf_') && val) {
-        const fieldId = key.slice(3);
-        cfFilters.push({
-          customFieldValues: {
-            some: {
-              fieldId,
-              value: String(val),
-            },
-          },
-        });
-      }
-    });
-    if (cfFilters.length) {
-      if (!where.AND) {
-        // @ts-ignore
-        where.AND = [];
-      }
-      // @ts-ignore push into where.AND array
-      (where.AND as any[]).push(...cfFilters);
-    }
+    const where = buildAssetWhere(req.query);
 
     // Build orderBy
-    const orderBy: any = {};
-    orderBy[sortBy as string] = sortOrder;
+    const orderBy = buildAssetOrderBy(sortBy as string, sortOrder as string);
+
+    // Assignee names, departments and offices live in the staff directory, so those queries
+    // work out the page in SQL first and only the page is loaded below
+    const assigneePage = await findAssigneePage(req.query, {
+      sortBy: sortBy as string,
+      sortOrder: sortOrder as string,
+      skip,
+      take: limitNum,
+    });
 
     // Execute queries
     const [assets, totalCount] = await Promise.all([
       prisma.asset.findMany({
-        where,
-        skip,
-        take: limitNum,
-        orderBy,
+        where: assigneePage ? { id: { in: assigneePage.ids } } : where,
+        ...(assigneePage ? {} : { skip, take: limitNum, orderBy }),
         include: {
           assignedTo: {
             select: {
@@ -598,8 +167,12 @@ router.get('/', async (req: Request, res: Response) => {
           externalSourceLinks: true,
         },
       }),
-      prisma.asset.count({ where }),
+      assigneePage ? assigneePage.total : prisma.asset.count({ where }),
     ]);
+    if (assigneePage) {
+      const position = new Map(assigneePage.ids.map((id, index) => [id, index]));
+      assets.sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+    }
 
     // Parse specifications JSON
     const assetsWithParsedSpecs = assets.map((asset) => {
@@ -619,7 +192,7 @@ router.get('/', async (req: Request, res: Response) => {
       };
     });
 
-    // Enrich with staff information from Azure AD
+    // Enrich with staff information from the stored directory
     const enrichedAssets = await enrichAssetsWithStaffInfo(assetsWithParsedSpecs);
 
     res.json({
@@ -777,33 +350,7 @@ router.get('/:id', async (req: Request, res: Response) => {
 
     // Enrich with staff information if assigned to Azure AD user
     if (asset.assignedToAadId) {
-      try {
-        // Check if assignedToAadId is a GUID or a username
-        const isGuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(asset.assignedToAadId);
-        
-        if (isGuid) {
-          // It's a GUID - call getStaffMember directly
-          const staffMember = await graphService.getStaffMember(asset.assignedToAadId);
-          assetWithParsedData.assignedToStaff = staffMember;
-        } else {
-          // It's a username - resolve it first using findUsersBySamAccount
-          const userMap = await graphService.findUsersBySamAccount([asset.assignedToAadId]);
-          const resolvedUser = userMap[asset.assignedToAadId];
-          
-          if (resolvedUser && resolvedUser.id) {
-            // Now get the full staff member info using the resolved GUID
-            const staffMember = await graphService.getStaffMember(resolvedUser.id);
-            assetWithParsedData.assignedToStaff = staffMember;
-          } else {
-            // Could not resolve username to GUID
-            logger.warn(`Could not resolve username "${asset.assignedToAadId}" to Azure AD GUID`);
-            assetWithParsedData.assignedToStaff = null;
-          }
-        }
-      } catch (error) {
-        logger.warn(`Failed to get staff info for ${asset.assignedToAadId}:`, error);
-        assetWithParsedData.assignedToStaff = null;
-      }
+      assetWithParsedData = (await enrichAssetsWithStaffInfo([assetWithParsedData]))[0];
     }
 
     res.json(assetWithParsedData);
@@ -898,37 +445,13 @@ router.post('/', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req:
       }
     }
 
-    // Validate custom field IDs and filter out empty values - IMPROVED FILTERING
-    logger.info({ customFieldsRaw: customFields }, 'Raw customFields');
-    
-    const nonEmptyCustomFields = Object.fromEntries(
-      Object.entries(customFields || {}).filter(([_, value]) => {
-        // More strict filtering - exclude empty strings, null, undefined, and whitespace-only strings
-        return value !== '' && value != null && value !== undefined && 
-               (typeof value !== 'string' || value.trim() !== '');
-      })
-    );
-    
-    logger.info({ customFieldsFiltered: nonEmptyCustomFields }, 'Filtered customFields');
-    
-    const nonEmptyCustomFieldIds = Object.keys(nonEmptyCustomFields);
-    
-    if (nonEmptyCustomFieldIds.length) {
-      const existingDefs = await prisma.customField.findMany({
-        where: { id: { in: nonEmptyCustomFieldIds }, isActive: true },
-        select: { id: true },
-      });
-      const existingIds = new Set(existingDefs.map((d) => d.id));
-      const missingIds = nonEmptyCustomFieldIds.filter((id) => !existingIds.has(id));
-      if (missingIds.length) {
-        return res.status(400).json({ error: `Invalid custom field IDs: ${missingIds.join(', ')}` });
-      }
+    // Check custom field values against their definitions; new assets also get defaults
+    const customFieldCheck = await validateAssetCustomFields({ assetType, values: customFields });
+    if (customFieldCheck.errors.length) {
+      return res.status(400).json({ error: customFieldCheck.errors[0], details: customFieldCheck.errors });
     }
 
-    const customFieldData = Object.entries(nonEmptyCustomFields).map(([fieldId, value]: [string, any]) => ({
-      fieldId,
-      value: typeof value === 'object' ? JSON.stringify(value) : String(value),
-    }));
+    const customFieldData = Object.entries(customFieldCheck.values).map(([fieldId, value]) => ({ fieldId, value }));
     
     logger.info({ customFieldData }, 'Custom field data to create');
 
@@ -987,6 +510,8 @@ router.post('/', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req:
         },
       },
     });
+    // An asset created with a holder starts its custody history with them
+    await syncCustodyWithAssignment({ ...asset, assignedToId: null, assignedToAadId: null }, asset, userId);
 
     // Log activity
     await logActivity(
@@ -1096,30 +621,23 @@ router.put('/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req
       }
     }
 
-    // Extract customFields from updates if present and filter out empty values
+    // Extract customFields from updates if present and check them against their definitions
     const customFieldsUpdates = updates.customFields || {};
-    const nonEmptyCustomFieldsUpdates = Object.fromEntries(
-      Object.entries(customFieldsUpdates).filter(([_, value]) => value !== '' && value != null)
-    );
     delete updates.customFields;
+    const customFieldCheck = await validateAssetCustomFields({
+      assetType: updates.assetType || existingAsset.assetType,
+      values: customFieldsUpdates,
+      assetId: id,
+    });
+    if (customFieldCheck.errors.length) {
+      return res.status(400).json({ error: customFieldCheck.errors[0], details: customFieldCheck.errors });
+    }
+    const nonEmptyCustomFieldsUpdates = customFieldCheck.values;
 
     // Extract categoryIds from updates if present
     const categoryIds = updates.categoryIds;
     delete updates.categoryIds;
 
-    const updateCustomFieldIds = Object.keys(nonEmptyCustomFieldsUpdates);
-    if (updateCustomFieldIds.length) {
-      const defs = await prisma.customField.findMany({
-        where: { id: { in: updateCustomFieldIds }, isActive: true },
-        select: { id: true },
-      });
-      const existingSet = new Set(defs.map((d) => d.id));
-      const missing = updateCustomFieldIds.filter((id) => !existingSet.has(id));
-      if (missing.length) {
-        return res.status(400).json({ error: `Invalid custom field IDs: ${missing.join(', ')}` });
-      }
-    }
-
     // Prepare update data
     const updateData: any = {
       ...updates,
@@ -1172,8 +690,7 @@ router.put('/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req
     });
 
     // Prepare upserts for custom field values
-    const upsertPromises = Object.entries(nonEmptyCustomFieldsUpdates).map(([fieldId, value]: [string, any]) => {
-      const stringValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const upsertPromises = Object.entries(nonEmptyCustomFieldsUpdates).map(([fieldId, stringValue]) => {
       return prisma.customFieldValue.upsert({
         where: {
           assetId_fieldId: {
@@ -1254,6 +771,9 @@ router.put('/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req
       changes.description = `${customFieldChangeCount} custom field(s) updated`;
     }
 
+    // Keep custody history in step with assignment edits
+    await syncCustodyWithAssignment(existingAsset, updatedAsset, userId);
+
     // Log activity
     await logActivity(
       userId,
@@ -1338,25 +858,18 @@ router.patch('/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (r
       }
     }
 
-    // Extract customFields from updates if present and filter out empty values
+    // Extract customFields from updates if present and check them against their definitions
     const customFieldsUpdates = updates.customFields || {};
-    const nonEmptyCustomFieldsUpdates = Object.fromEntries(
-      Object.entries(customFieldsUpdates).filter(([_, value]) => value !== '' && value != null)
-    );
     delete updates.customFields;
-
-    const updateCustomFieldIds = Object.keys(nonEmptyCustomFieldsUpdates);
-    if (updateCustomFieldIds.length) {
-      const defs = await prisma.customField.findMany({
-        where: { id: { in: updateCustomFieldIds }, isActive: true },
-        select: { id: true },
-      });
-      const existingSet = new Set(defs.map((d) => d.id));
-      const missing = updateCustomFieldIds.filter((id) => !existingSet.has(id));
-      if (missing.length) {
-        return res.status(400).json({ error: `Invalid custom field IDs: ${missing.join(', ')}` });
-      }
+    const customFieldCheck = await validateAssetCustomFields({
+      assetType: updates.assetType || existingAsset.assetType,
+      values: customFieldsUpdates,
+      assetId: id,
+    });
+    if (customFieldCheck.errors.length) {
+      return res.status(400).json({ error: customFieldCheck.errors[0], details: customFieldCheck.errors });
     }
+    const nonEmptyCustomFieldsUpdates = customFieldCheck.values;
 
     // Prepare update data
     const updateData: any = {
@@ -1410,8 +923,7 @@ router.patch('/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (r
     });
 
     // Prepare upserts for custom field values
-    const upsertPromises = Object.entries(nonEmptyCustomFieldsUpdates).map(([fieldId, value]: [string, any]) => {
-      const stringValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const upsertPromises = Object.entries(nonEmptyCustomFieldsUpdates).map(([fieldId, stringValue]) => {
       return prisma.customFieldValue.upsert({
         where: {
           assetId_fieldId: {
@@ -1465,6 +977,9 @@ router.patch('/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (r
       changes.description = `${customFieldChangeCount} custom field(s) updated`;
     }
 
+    // Keep custody history in step with assignment edits
+    await syncCustodyWithAssignment(existingAsset, updatedAsset, userId);
+
     // Log activity
     await logActivity(
       userId,
@@ -1518,6 +1033,8 @@ router.delete('/:id', requireRole([USER_ROLES.ADMIN]), async (req: Request, res:
       { assetTag: asset.assetTag, deletedAt: new Date() }
     );
 
+    const attachmentKeys = await getAttachmentKeys({ id });
+
     // Delete asset (cascades to related records). After deletion, the FK on ActivityLog will
     // automatically set `assetId` to NULL (because of onDelete: SetNull), so the previously
     // inserted log record remains valid.
@@ -1525,6 +1042,8 @@ router.delete('/:id', requireRole([USER_ROLES.ADMIN]), async (req: Request, res:
       where: { id },
     });
 
+    await removeStoredFiles(attachmentKeys);
+
     res.status(204).send();
   } catch (error) {
     logger.error('Error deleting asset:', error);
@@ -1565,12 +1084,31 @@ router.post('/bulk', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (r
           updatedById: userId,
         };
 
+        // Snapshot holders first so custody history follows bulk reassignments
+        const assignmentSelect = { id: true, assignedToId: true, assignedToAadId: true, condition: true };
+        const reassigning = 'assignedToId' in updates || 'assignedToAadId' in updates;
+        const assignmentsBefore = reassigning
+          ? await prisma.asset.findMany({ where: { id: { in: assetIds } }, select: assignmentSelect })
+          : [];
+
         // Execute bulk update
         const updateResult = await prisma.asset.updateMany({
           where: { id: { in: assetIds } },
           data: bulkUpdateData,
         });
 
+        if (reassigning) {
+          const assignmentsAfter = await prisma.asset.findMany({
+            where: { id: { in: assetIds } },
+            select: assignmentSelect,
+          });
+          const beforeById = new Map(assignmentsBefore.map((a) => [a.id, a]));
+          for (const after of assignmentsAfter) {
+            const before = beforeById.get(after.id);
+            if (before) await syncCustodyWithAssignment(before, after, userId);
+          }
+        }
+
         // Log activity for each asset
         await Promise.all(
           assetIds.map((assetId) =>
@@ -1597,9 +1135,11 @@ router.post('/bulk', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (r
           return res.status(403).json({ error: 'Only admins can bulk delete assets' });
         }
 
+        const bulkAttachmentKeys = await getAttachmentKeys({ id: { in: assetIds } });
         const deleteResult = await prisma.asset.deleteMany({
           where: { id: { in: assetIds } },
         });
+        await removeStoredFiles(bulkAttachmentKeys);
 
         // Log activity
         await logActivity(
@@ -1843,8 +1383,10 @@ router.post('/bulk-delete-all', requireRole([USER_ROLES.ADMIN]), async (req: Req
       });
     }
 
-    // Delete all assets
+    // Delete all assets, then the stored files of their attachments
+    const attachmentKeys = await getAttachmentKeys({});
     const deleteResult = await prisma.asset.deleteMany({});
+    await removeStoredFiles(attachmentKeys);
 
     // Log activity
     await logActivity(
@@ -1898,10 +1440,12 @@ router.post('/bulk-delete-by-type', requireRole([USER_ROLES.ADMIN]), async (req:
       });
     }
 
-    // Delete assets by type
+    // Delete assets by type, then the stored files of their attachments
+    const attachmentKeys = await getAttachmentKeys({ assetType });
     const deleteResult = await prisma.asset.deleteMany({
       where: { assetType }
     });
+    await removeStoredFiles(attachmentKeys);
 
     // Log activity
     await logActivity(
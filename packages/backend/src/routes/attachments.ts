@@ -0,0 +1,220 @@
+import { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import prisma from '../services/database.js';
+import { authenticateJwt, requireRole } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import config from '../config/index.js';
+import { ACTIVITY_ACTIONS, ENTITY_TYPES, USER_ROLES } from '../constants/index.js';
+import { getStorageAdapter } from '../services/storageService.js';
+import {
+  isAllowedAttachmentType,
+  maxAttachmentBytes,
+  removeStoredFiles,
+  saveAttachment,
+} from '../services/attachmentService.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateJwt);
+
+const MAX_FILES_PER_UPLOAD = 10;
+
+// Multer for in-memory file handling; files are handed to the storage adapter afterwards
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: maxAttachmentBytes(), files: MAX_FILES_PER_UPLOAD },
+  fileFilter: (_req, file, cb) => {
+    if (!isAllowedAttachmentType(file.mimetype)) {
+      return cb(new Error(`File type not allowed: ${file.mimetype || 'unknown'}`));
+    }
+    cb(null, true);
+  },
+});
+
+// Run multer and turn its errors into 400/413 responses
+function handleUpload(req: Request, res: Response, next: NextFunction) {
+  upload.array('files', MAX_FILES_PER_UPLOAD)(req, res, (err: any) => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Files must be ${config.attachments.maxFileSizeMb}MB or smaller` });
+      }
+      if (err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE') {
+        return res.status(400).json({ error: `Upload at most ${MAX_FILES_PER_UPLOAD} files in the "files" field` });
+      }
+    }
+    return res.status(400).json({ error: err.message || 'Invalid upload' });
+  });
+}
+
+// Helper function to log activity
+async function logActivity(userId: string, action: string, assetId: string, changes: any) {
+  try {
+    await prisma.activityLog.create({
+      data: {
+        userId,
+        action,
+        entityType: ENTITY_TYPES.ASSET,
+        entityId: assetId,
+        assetId,
+        changes: JSON.stringify(changes),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to log activity:', error);
+  }
+}
+
+// Helper function to extract user ID from request
+function getUserId(req: Request): string {
+  const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
+  if (!userId) {
+    throw new Error('User ID not found');
+  }
+  return userId;
+}
+
+// Add uploader names and drop storage keys before sending attachments to the client
+async function serializeAttachments(attachments: any[]) {
+  const uploaderIds = [...new Set(attachments.map((a) => a.uploadedBy))];
+  const uploaders = await prisma.user.findMany({
+    where: { id: { in: uploaderIds } },
+    select: { id: true, displayName: true },
+  });
+  const names = new Map(uploaders.map((u) => [u.id, u.displayName]));
+
+  return attachments.map(({ storageUrl, thumbnailUrl, ...rest }) => ({
+    ...rest,
+    hasThumbnail: !!thumbnailUrl,
+    uploadedByName: names.get(rest.uploadedBy) ?? null,
+  }));
+}
+
+const contentDisposition = (type: 'inline' | 'attachment', fileName: string) =>
+  `${type}; filename="${fileName.replace(/"/g, '')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+
+// GET /api/attachments/asset/:assetId - Attachments for an asset (newest first)
+router.get('/asset/:assetId', async (req: Request, res: Response) => {
+  try {
+    const attachments = await prisma.attachment.findMany({
+      where: { assetId: req.params.assetId },
+      orderBy: { uploadedAt: 'desc' },
+    });
+    res.json(await serializeAttachments(attachments));
+  } catch (error) {
+    logger.error('Error fetching attachments:', error);
+    res.status(500).json({ error: 'Failed to fetch attachments' });
+  }
+});
+
+// POST /api/attachments/asset/:assetId - Upload one or more files (multipart field "files")
+router.post(
+  '/asset/:assetId',
+  requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]),
+  handleUpload,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = getUserId(req);
+      const files = (req.files as Express.Multer.File[]) || [];
+      if (files.length === 0) {
+        return res.status(400).json({ error: 'No files uploaded' });
+      }
+
+      const asset = await prisma.asset.findUnique({
+        where: { id: req.params.assetId },
+        select: { id: true },
+      });
+      if (!asset) {
+        return res.status(404).json({ error: 'Asset not found' });
+      }
+
+      const description = typeof req.body.description === 'string' ? req.body.description : undefined;
+      const created = [];
+      for (const file of files) {
+        created.push(await saveAttachment(asset.id, file, userId, description));
+      }
+
+      await logActivity(userId, ACTIVITY_ACTIONS.ATTACH, asset.id, {
+        files: created.map((a) => ({ fileName: a.fileName, fileType: a.fileType, fileSize: a.fileSize })),
+      });
+
+      res.status(201).json(await serializeAttachments(created));
+    } catch (error) {
+      logger.error('Error uploading attachments:', error);
+      res.status(500).json({ error: 'Failed to upload attachments' });
+    }
+  }
+);
+
+// GET /api/attachments/:id/download - File contents (?inline=true to view in the browser)
+router.get('/:id/download', async (req: Request, res: Response) => {
+  try {
+    const attachment = await prisma.attachment.findUnique({ where: { id: req.params.id } });
+    if (!attachment) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    const data = await getStorageAdapter().get(attachment.storageUrl);
+    res.setHeader('Content-Type', attachment.fileType);
+    res.setHeader(
+      'Content-Disposition',
+      contentDisposition(req.query.inline === 'true' ? 'inline' : 'attachment', attachment.fileName)
+    );
+    res.send(data);
+  } catch (error) {
+    logger.error('Error downloading attachment:', error);
+    res.status(500).json({ error: 'Failed to download attachment' });
+  }
+});
+
+// GET /api/attachments/:id/thumbnail - Thumbnail for image attachments
+router.get('/:id/thumbnail', async (req: Request, res: Response) => {
+  try {
+    const attachment = await prisma.attachment.findUnique({ where: { id: req.params.id } });
+    if (!attachment || !attachment.thumbnailUrl) {
+      return res.status(404).json({ error: 'Thumbnail not found' });
+    }
+
+    const data = await getStorageAdapter().get(attachment.thumbnailUrl);
+    res.setHeader('Content-Type', 'image/webp');
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    res.send(data);
+  } catch (error) {
+    logger.error('Error fetching attachment thumbnail:', error);
+    res.status(500).json({ error: 'Failed to fetch attachment thumbnail' });
+  }
+});
+
+// DELETE /api/attachments/:id - Delete an attachment (admins, or the editor who uploaded it)
+router.delete('/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const role = (req as any).user?.role;
+
+    const attachment = await prisma.attachment.findUnique({ where: { id: req.params.id } });
+    if (!attachment) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+    if (role !== USER_ROLES.ADMIN && attachment.uploadedBy !== userId) {
+      return res.status(403).json({ error: 'Only admins can delete attachments uploaded by someone else' });
+    }
+
+    await prisma.attachment.delete({ where: { id: attachment.id } });
+    await removeStoredFiles([attachment.storageUrl, attachment.thumbnailUrl]);
+
+    await logActivity(userId, ACTIVITY_ACTIONS.DETACH, attachment.assetId, {
+      fileName: attachment.fileName,
+      fileType: attachment.fileType,
+      fileSize: attachment.fileSize,
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting attachment:', error);
+    res.status(500).json({ error: 'Failed to delete attachment' });
+  }
+});
+
+export default router;
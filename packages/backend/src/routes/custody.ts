@@ -0,0 +1,252 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../services/database.js';
+import { authenticateJwt, requireRole } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import {
+  ACTIVITY_ACTIONS,
+  ASSET_STATUSES,
+  ENTITY_TYPES,
+  USER_ROLES,
+  isValidAssetCondition,
+} from '../constants/index.js';
+import { resolveHolderName } from '../services/custodyService.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateJwt);
+
+const custodyInclude = {
+  holderUser: { select: { id: true, displayName: true, email: true } },
+  checkedOutBy: { select: { id: true, displayName: true, email: true } },
+  checkedInBy: { select: { id: true, displayName: true, email: true } },
+};
+
+// Statuses an asset cannot be checked out from
+const NON_ISSUABLE_STATUSES: string[] = [ASSET_STATUSES.RETIRED, ASSET_STATUSES.DISPOSED];
+
+// Helper function to log activity
+async function logActivity(userId: string, action: string, assetId: string, changes: any) {
+  try {
+    await prisma.activityLog.create({
+      data: {
+        userId,
+        action,
+        entityType: ENTITY_TYPES.ASSET,
+        entityId: assetId,
+        assetId,
+        changes: JSON.stringify(changes),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to log activity:', error);
+  }
+}
+
+// Helper function to extract user ID from request
+function getUserId(req: Request): string {
+  const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
+  if (!userId) {
+    throw new Error('User ID not found');
+  }
+  return userId;
+}
+
+// GET /api/custody/asset/:assetId - Custody timeline for an asset (newest first)
+router.get('/asset/:assetId', async (req: Request, res: Response) => {
+  try {
+    const records = await prisma.assetCustody.findMany({
+      where: { assetId: req.params.assetId },
+      include: custodyInclude,
+      orderBy: { checkedOutAt: 'desc' },
+    });
+    res.json(records);
+  } catch (error) {
+    logger.error('Error fetching asset custody history:', error);
+    res.status(500).json({ error: 'Failed to fetch custody history' });
+  }
+});
+
+// GET /api/custody/staff/:aadId - Everything a staff member has held
+router.get('/staff/:aadId', async (req: Request, res: Response) => {
+  try {
+    const records = await prisma.assetCustody.findMany({
+      where: { holderAadId: req.params.aadId },
+      include: {
+        ...custodyInclude,
+        asset: {
+          select: { id: true, assetTag: true, assetType: true, make: true, model: true, serialNumber: true, status: true },
+        },
+      },
+      orderBy: { checkedOutAt: 'desc' },
+    });
+    res.json(records);
+  } catch (error) {
+    logger.error('Error fetching staff custody history:', error);
+    res.status(500).json({ error: 'Failed to fetch custody history' });
+  }
+});
+
+// POST /api/custody/asset/:assetId/check-out - Hand an asset to a holder (requires WRITE role)
+router.post('/asset/:assetId/check-out', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const { assetId } = req.params;
+    const { assignedToAadId, assignedToId, condition, notes } = req.body;
+
+    if (!assignedToAadId === !assignedToId) {
+      return res.status(400).json({ error: 'Provide exactly one of assignedToAadId or assignedToId' });
+    }
+    if (condition && !isValidAssetCondition(condition)) {
+      return res.status(400).json({ error: 'Invalid asset condition' });
+    }
+
+    const asset = await prisma.asset.findUnique({ where: { id: assetId } });
+    if (!asset) {
+      return res.status(404).json({ error: 'Asset not found' });
+    }
+    if (NON_ISSUABLE_STATUSES.includes(asset.status)) {
+      return res.status(409).json({ error: `Cannot check out an asset with status ${asset.status}` });
+    }
+
+    const openRecord = await prisma.assetCustody.findFirst({ where: { assetId, checkedInAt: null } });
+    if (openRecord || asset.assignedToId || asset.assignedToAadId) {
+      return res.status(409).json({ error: 'Asset is already checked out; check it in first' });
+    }
+
+    if (assignedToId) {
+      const holderUser = await prisma.user.findUnique({ where: { id: assignedToId }, select: { id: true } });
+      if (!holderUser) {
+        return res.status(400).json({ error: 'Assigned user not found' });
+      }
+    }
+
+    const holder = { holderUserId: assignedToId || null, holderAadId: assignedToAadId || null };
+    const holderName = await resolveHolderName(holder);
+    const conditionOut = condition || asset.condition;
+
+    const [updatedAsset, record] = await prisma.$transaction([
+      prisma.asset.update({
+        where: { id: assetId },
+        data: {
+          assignedToId: holder.holderUserId,
+          assignedToAadId: holder.holderAadId,
+          status: ASSET_STATUSES.ASSIGNED,
+          condition: conditionOut,
+          updatedById: userId,
+        },
+      }),
+      prisma.assetCustody.create({
+        data: {
+          assetId,
+          ...holder,
+          holderName,
+          conditionOut,
+          checkedOutById: userId,
+          checkOutNotes: notes || null,
+        },
+        include: custodyInclude,
+      }),
+    ]);
+
+    await logActivity(userId, ACTIVITY_ACTIONS.CHECK_OUT, assetId, {
+      description: `Checked out to ${holderName || assignedToAadId || assignedToId}`,
+      custodyId: record.id,
+      status: { from: asset.status, to: updatedAsset.status },
+      ...(asset.condition !== conditionOut && { condition: { from: asset.condition, to: conditionOut } }),
+      ...(notes && { notes }),
+    });
+
+    res.status(201).json(record);
+  } catch (error) {
+    logger.error('Error checking out asset:', error);
+    res.status(500).json({ error: 'Failed to check out asset' });
+  }
+});
+
+// POST /api/custody/asset/:assetId/check-in - Return an asset to stock (requires WRITE role)
+router.post('/asset/:assetId/check-in', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const { assetId } = req.params;
+    const { condition, notes } = req.body;
+
+    if (condition && !isValidAssetCondition(condition)) {
+      return res.status(400).json({ error: 'Invalid asset condition' });
+    }
+
+    const asset = await prisma.asset.findUnique({ where: { id: assetId } });
+    if (!asset) {
+      return res.status(404).json({ error: 'Asset not found' });
+    }
+
+    const openRecord = await prisma.assetCustody.findFirst({ where: { assetId, checkedInAt: null } });
+    if (!openRecord && !asset.assignedToId && !asset.assignedToAadId) {
+      return res.status(409).json({ error: 'Asset is not checked out' });
+    }
+
+    const now = new Date();
+    const conditionIn = condition || asset.condition;
+    const checkInData = {
+      checkedInAt: now,
+      checkedInById: userId,
+      conditionIn,
+      checkInNotes: notes || null,
+    };
+
+    // Assignments made before custody tracking have no open record; capture them on return
+    let custodyOperation;
+    if (openRecord) {
+      custodyOperation = prisma.assetCustody.update({
+        where: { id: openRecord.id },
+        data: checkInData,
+        include: custodyInclude,
+      });
+    } else {
+      const holder = { holderUserId: asset.assignedToId, holderAadId: asset.assignedToAadId };
+      custodyOperation = prisma.assetCustody.create({
+        data: {
+          assetId,
+          ...holder,
+          holderName: await resolveHolderName(holder),
+          checkedOutAt: asset.updatedAt,
+          conditionOut: asset.condition,
+          checkedOutById: userId,
+          checkOutNotes: 'Recorded at check-in; assignment predates custody tracking',
+          ...checkInData,
+        },
+        include: custodyInclude,
+      });
+    }
+
+    const [updatedAsset, record] = await prisma.$transaction([
+      prisma.asset.update({
+        where: { id: assetId },
+        data: {
+          assignedToId: null,
+          assignedToAadId: null,
+          status: ASSET_STATUSES.AVAILABLE,
+          condition: conditionIn,
+          updatedById: userId,
+        },
+      }),
+      custodyOperation,
+    ]);
+
+    await logActivity(userId, ACTIVITY_ACTIONS.CHECK_IN, assetId, {
+      description: `Checked in from ${record.holderName || record.holderAadId || record.holderUserId}`,
+      custodyId: record.id,
+      status: { from: asset.status, to: updatedAsset.status },
+      ...(asset.condition !== conditionIn && { condition: { from: asset.condition, to: conditionIn } }),
+      ...(notes && { notes }),
+    });
+
+    res.json(record);
+  } catch (error) {
+    logger.error('Error checking in asset:', error);
+    res.status(500).json({ error: 'Failed to check in asset' });
+  }
+});
+
+export default router;
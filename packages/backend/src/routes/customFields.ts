@@ -3,7 +3,8 @@ import type { Request, Response } from 'express';
 import prisma from '../services/database.js';
 import { authenticateJwt, requireRole } from '../middleware/auth.js';
 import logger from '../utils/logger.js';
-import { CUSTOM_FIELD_TYPES, isValidCustomFieldType, USER_ROLES, ACTIVITY_ACTIONS, ENTITY_TYPES } from '../constants/index.js';
+import { USER_ROLES, ACTIVITY_ACTIONS, ENTITY_TYPES } from '../constants/index.js';
+import { buildCustomFieldData, findDuplicateCustomFieldValues, serializeCustomField } from '../services/customFieldService.js';
 
 const router = Router();
 
@@ -52,16 +53,10 @@ router.get('/', async (req: Request, res: Response) => {
 
     const fields = await prisma.customField.findMany({
       where,
-      orderBy: { createdAt: 'asc' },
+      orderBy: [{ displayOrder: 'asc' }, { createdAt: 'asc' }],
     });
 
-    // Parse options JSON strings back to arrays
-    const fieldsWithParsedOptions = fields.map(field => ({
-      ...field,
-      options: field.options ? JSON.parse(field.options) : null,
-    }));
-
-    res.json(fieldsWithParsedOptions);
+    res.json(fields.map(serializeCustomField));
   } catch (error) {
     logger.error('Error fetching custom fields:', error);
     res.status(500).json({ error: 'Failed to fetch custom fields' });
@@ -72,40 +67,22 @@ router.get('/', async (req: Request, res: Response) => {
 router.post('/', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
-    const { name, fieldType, isRequired = false, options = null } = req.body;
-
-    if (!name || !fieldType) {
-      return res.status(400).json({ error: 'name and fieldType are required' });
-    }
-
-    if (!isValidCustomFieldType(fieldType)) {
-      return res.status(400).json({ error: 'Invalid custom field type' });
+    const { data, error } = buildCustomFieldData(req.body);
+    if (error !== undefined) {
+      return res.status(400).json({ error });
     }
 
     // Check duplicate
-    const existing = await prisma.customField.findUnique({ where: { name } });
+    const existing = await prisma.customField.findUnique({ where: { name: data.name } });
     if (existing) {
       return res.status(400).json({ error: 'Custom field with this name already exists' });
     }
 
-    const field = await prisma.customField.create({
-      data: {
-        name,
-        fieldType,
-        isRequired,
-        options: options ? JSON.stringify(options) : null,
-      },
-    });
+    const field = await prisma.customField.create({ data });
 
     await logActivity(userId, ACTIVITY_ACTIONS.CREATE, field.id, { action: 'CustomField created' });
     
-    // Return with parsed options
-    const fieldWithParsedOptions = {
-      ...field,
-      options: field.options ? JSON.parse(field.options) : null,
-    };
-    
-    res.status(201).json(fieldWithParsedOptions);
+    res.status(201).json(serializeCustomField(field));
   } catch (error) {
     logger.error('Error creating custom field:', error);
     res.status(500).json({ error: 'Failed to create custom field' });
@@ -117,14 +94,26 @@ router.put('/:id', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Re
   try {
     const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
     const { id } = req.params;
-    const updates = req.body;
+    const existing = await prisma.customField.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Custom field not found' });
+    }
 
-    if (updates.fieldType && !isValidCustomFieldType(updates.fieldType)) {
-      return res.status(400).json({ error: 'Invalid custom field type' });
+    const { data: updates, error } = buildCustomFieldData(req.body, existing);
+    if (error !== undefined) {
+      return res.status(400).json({ error });
     }
 
-    if (updates.options) {
-      updates.options = JSON.stringify(updates.options);
+    // Values already stored twice would never satisfy the rule, so they block turning it on
+    const isUnique = updates.isUnique ?? existing.isUnique;
+    const isActive = updates.isActive ?? existing.isActive;
+    if (isUnique && isActive && !(existing.isUnique && existing.isActive)) {
+      const duplicates = await findDuplicateCustomFieldValues(id);
+      if (duplicates.length > 0) {
+        return res.status(400).json({
+          error: `${existing.name} cannot be unique while assets share values: ${duplicates.join(', ')}`,
+        });
+      }
     }
 
     const field = await prisma.customField.update({
@@ -134,13 +123,7 @@ router.put('/:id', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Re
 
     await logActivity(userId, ACTIVITY_ACTIONS.UPDATE, id, updates);
     
-    // Return with parsed options
-    const fieldWithParsedOptions = {
-      ...field,
-      options: field.options ? JSON.parse(field.options) : null,
-    };
-    
-    res.json(fieldWithParsedOptions);
+    res.json(serializeCustomField(field));
   } catch (error) {
     logger.error('Error updating custom field:', error);
     res.status(500).json({ error: 'Failed to update custom field' });
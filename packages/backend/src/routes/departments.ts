@@ -3,13 +3,31 @@ import type { Request, Response } from 'express';
 import prisma from '../services/database.js';
 import { authenticateJwt, requireRole } from '../middleware/auth.js';
 import logger from '../utils/logger.js';
-import { USER_ROLES } from '../constants/index.js';
+import { USER_ROLES, ACTIVITY_ACTIONS, ENTITY_TYPES } from '../constants/index.js';
+import { calculateBookValue } from '../utils/bookValue.js';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticateJwt);
 
+// Helper function to log activity
+async function logActivity(userId: string, action: string, entityId: string, changes: any) {
+  try {
+    await prisma.activityLog.create({
+      data: {
+        userId,
+        action,
+        entityType: ENTITY_TYPES.DEPARTMENT,
+        entityId,
+        changes: JSON.stringify(changes).slice(0, 3900),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to log activity:', error);
+  }
+}
+
 // GET /api/departments - Get all departments
 router.get('/', async (req: Request, res: Response) => {
   try {
@@ -49,6 +67,121 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/departments/summary - Asset roll-ups per department (counts by type/status, cost, book value)
+router.get('/summary', async (_req: Request, res: Response) => {
+  try {
+    const [departments, breakdown, pricedAssets] = await Promise.all([
+      prisma.department.findMany({ select: { id: true, name: true, isActive: true }, orderBy: { name: 'asc' } }),
+      prisma.asset.groupBy({
+        by: ['departmentId', 'assetType', 'status'],
+        where: { departmentId: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.asset.findMany({
+        where: { departmentId: { not: null }, purchasePrice: { not: null } },
+        select: { departmentId: true, purchasePrice: true, purchaseDate: true, status: true },
+      }),
+    ]);
+
+    const summaries = new Map(
+      departments.map((d) => [
+        d.id,
+        {
+          departmentId: d.id,
+          name: d.name,
+          isActive: d.isActive,
+          assetCount: 0,
+          byAssetType: {} as Record<string, number>,
+          byStatus: {} as Record<string, number>,
+          totalCost: 0,
+          bookValue: 0,
+        },
+      ])
+    );
+
+    for (const row of breakdown) {
+      const summary = summaries.get(row.departmentId as string);
+      if (!summary) continue;
+      summary.assetCount += row._count._all;
+      summary.byAssetType[row.assetType] = (summary.byAssetType[row.assetType] || 0) + row._count._all;
+      summary.byStatus[row.status] = (summary.byStatus[row.status] || 0) + row._count._all;
+    }
+
+    const now = new Date();
+    for (const asset of pricedAssets) {
+      const summary = summaries.get(asset.departmentId as string);
+      if (!summary) continue;
+      const price = Number(asset.purchasePrice);
+      summary.totalCost += price;
+      summary.bookValue += calculateBookValue(price, asset.purchaseDate, asset.status, now);
+    }
+
+    res.json(
+      Array.from(summaries.values()).map((s) => ({
+        ...s,
+        totalCost: Math.round(s.totalCost * 100) / 100,
+        bookValue: Math.round(s.bookValue * 100) / 100,
+      }))
+    );
+  } catch (error) {
+    logger.error('Error fetching department summary:', error);
+    res.status(500).json({ error: 'Failed to fetch department summary' });
+  }
+});
+
+// POST /api/departments/merge - Move all assets from source departments into the target (requires ADMIN)
+router.post('/merge', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
+    const { targetId, sourceIds } = req.body as { targetId?: string; sourceIds?: string[] };
+
+    if (!targetId || !Array.isArray(sourceIds) || sourceIds.length === 0) {
+      return res.status(400).json({ error: 'targetId and a non-empty sourceIds array are required' });
+    }
+    if (sourceIds.includes(targetId)) {
+      return res.status(400).json({ error: 'Target department cannot also be a source' });
+    }
+
+    const [target, sources] = await Promise.all([
+      prisma.department.findUnique({ where: { id: targetId } }),
+      prisma.department.findMany({ where: { id: { in: sourceIds } }, select: { id: true, name: true } }),
+    ]);
+
+    if (!target) {
+      return res.status(404).json({ error: 'Target department not found' });
+    }
+    if (sources.length !== sourceIds.length) {
+      return res.status(404).json({ error: 'One or more source departments not found' });
+    }
+
+    // Sources are deactivated rather than deleted so historic activity still resolves
+    const [reassigned] = await prisma.$transaction([
+      prisma.asset.updateMany({
+        where: { departmentId: { in: sourceIds } },
+        data: { departmentId: targetId },
+      }),
+      prisma.department.updateMany({
+        where: { id: { in: sourceIds } },
+        data: { isActive: false },
+      }),
+      ...(target.isActive ? [] : [prisma.department.update({ where: { id: targetId }, data: { isActive: true } })]),
+    ]);
+
+    if (userId) {
+      await logActivity(userId, ACTIVITY_ACTIONS.MERGE, targetId, {
+        description: `Merged ${sources.map((s) => s.name).join(', ')} into ${target.name}`,
+        mergedDepartments: sources,
+        assetsReassigned: reassigned.count,
+      });
+    }
+
+    res.json({ targetId, mergedDepartmentIds: sourceIds, assetsReassigned: reassigned.count });
+  } catch (error) {
+    logger.error('Error merging departments:', error);
+    res.status(500).json({ error: 'Failed to merge departments' });
+  }
+});
+
 // POST /api/departments - Create new department (requires ADMIN)
 router.post('/', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
   try {
@@ -92,6 +225,16 @@ router.put('/:id', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Re
     if (description !== undefined) updates.description = description;
     if (isActive !== undefined) updates.isActive = isActive;
 
+    if (name !== undefined) {
+      if (!name) {
+        return res.status(400).json({ error: 'Department name is required' });
+      }
+      const existing = await prisma.department.findUnique({ where: { name } });
+      if (existing && existing.id !== id) {
+        return res.status(400).json({ error: 'Department already exists' });
+      }
+    }
+
     const department = await prisma.department.update({
       where: { id },
       data: updates,
@@ -0,0 +1,196 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../services/database.js';
+import { authenticateJwt, requireRole } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { USER_ROLES } from '../constants/index.js';
+import { loadImportSourceDefinitions, toImportSourceDefinition } from '../services/importSourceService.js';
+import {
+  IMPORT_PROCESSORS,
+  IMPORT_TRANSFORMATION_REGISTRY,
+  validateImportSourceDefinition,
+  type ImportSourceDefinition,
+} from '@ats/shared-transformations';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateJwt);
+
+// Source system labels already written by built-in importers and manual entry
+const RESERVED_SOURCE_SYSTEMS = [
+  'MANUAL', 'NINJAONE', 'NINJAONE_SERVERS', 'INTUNE', 'EXCEL', 'BULK_UPLOAD', 'API', 'INVOICE', 'TELUS', 'ROGERS',
+  'BELL', 'VERIZON', 'EXCETEL',
+];
+
+const toResponse = (row: Parameters<typeof toImportSourceDefinition>[0]) => ({
+  id: row.id,
+  isActive: row.isActive,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+  ...toImportSourceDefinition(row),
+});
+
+/**
+ * Validate a create/update payload against the merged (existing + incoming) definition.
+ * Returns the normalised definition or the problems found.
+ */
+function buildDefinition(body: any, existing: ImportSourceDefinition | null): { definition?: ImportSourceDefinition; errors?: string[] } {
+  const merged = { ...(existing || {}), ...body };
+  const definition: ImportSourceDefinition = {
+    key: typeof merged.key === 'string' ? merged.key.trim().toLowerCase() : merged.key,
+    name: typeof merged.name === 'string' ? merged.name.trim() : merged.name,
+    description: merged.description || undefined,
+    category: merged.category,
+    sourceSystem: typeof merged.sourceSystem === 'string' ? merged.sourceSystem.trim().toUpperCase() : merged.sourceSystem,
+    headerKeywords: Array.isArray(merged.headerKeywords)
+      ? merged.headerKeywords.map((k: unknown) => String(k).trim()).filter(Boolean)
+      : merged.headerKeywords,
+    presenceTracking: Boolean(merged.presenceTracking),
+    fields: merged.fields,
+    defaults: merged.defaults || undefined,
+  };
+
+  const errors = validateImportSourceDefinition(definition);
+  if (definition.key && definition.key in IMPORT_TRANSFORMATION_REGISTRY) {
+    errors.push(`Key "${definition.key}" is used by a built-in source`);
+  }
+  if (definition.sourceSystem && RESERVED_SOURCE_SYSTEMS.includes(definition.sourceSystem)) {
+    errors.push(`Source system "${definition.sourceSystem}" is used by a built-in source`);
+  }
+  return errors.length > 0 ? { errors } : { definition };
+}
+
+const toRowData = (definition: ImportSourceDefinition) => ({
+  key: definition.key,
+  name: definition.name,
+  category: definition.category,
+  sourceSystem: definition.sourceSystem,
+  presenceTracking: definition.presenceTracking,
+  definition: JSON.stringify(definition),
+});
+
+// Reject a key or source system already taken by another definition
+async function findConflict(definition: ImportSourceDefinition, excludeId?: string): Promise<string | null> {
+  const clash = await prisma.importSourceDefinition.findFirst({
+    where: {
+      OR: [{ key: definition.key }, { sourceSystem: definition.sourceSystem }],
+      ...(excludeId && { NOT: { id: excludeId } }),
+    },
+  });
+  if (!clash) return null;
+  return clash.key === definition.key
+    ? `An import source with key "${definition.key}" already exists`
+    : `An import source with source system "${definition.sourceSystem}" already exists`;
+}
+
+// Re-register after a change; a failure only delays the change until the next load
+async function reloadDefinitions() {
+  try {
+    await loadImportSourceDefinitions();
+  } catch (error) {
+    logger.error('Failed to reload import source definitions:', error);
+  }
+}
+
+// GET /api/import-sources - List admin-defined import sources (?includeInactive=true for all)
+router.get('/', requireRole([USER_ROLES.READ, USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const includeInactive = req.query.includeInactive === 'true';
+    const rows = await prisma.importSourceDefinition.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { name: 'asc' },
+    });
+    res.json(rows.map(toResponse));
+  } catch (error) {
+    logger.error('Error fetching import source definitions:', error);
+    res.status(500).json({ error: 'Failed to fetch import source definitions' });
+  }
+});
+
+// GET /api/import-sources/processors - Named processors a field mapping can use
+router.get('/processors', requireRole([USER_ROLES.READ, USER_ROLES.WRITE, USER_ROLES.ADMIN]), (_req: Request, res: Response) => {
+  res.json(
+    Object.entries(IMPORT_PROCESSORS).map(([name, processor]) => ({
+      name,
+      label: processor.label,
+      description: processor.description,
+    }))
+  );
+});
+
+// POST /api/import-sources - Create an import source definition
+router.post('/', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const { definition, errors } = buildDefinition(req.body, null);
+    if (!definition) {
+      return res.status(400).json({ error: errors![0], details: errors });
+    }
+
+    const conflict = await findConflict(definition);
+    if (conflict) {
+      return res.status(409).json({ error: conflict });
+    }
+
+    const row = await prisma.importSourceDefinition.create({
+      data: { ...toRowData(definition), isActive: req.body.isActive === undefined ? true : Boolean(req.body.isActive) },
+    });
+    await reloadDefinitions();
+    res.status(201).json(toResponse(row));
+  } catch (error) {
+    logger.error('Error creating import source definition:', error);
+    res.status(500).json({ error: 'Failed to create import source definition' });
+  }
+});
+
+// PUT /api/import-sources/:id - Update an import source definition
+router.put('/:id', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.importSourceDefinition.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Import source definition not found' });
+    }
+
+    const { definition, errors } = buildDefinition(req.body, toImportSourceDefinition(existing));
+    if (!definition) {
+      return res.status(400).json({ error: errors![0], details: errors });
+    }
+
+    const conflict = await findConflict(definition, existing.id);
+    if (conflict) {
+      return res.status(409).json({ error: conflict });
+    }
+
+    const row = await prisma.importSourceDefinition.update({
+      where: { id: existing.id },
+      data: {
+        ...toRowData(definition),
+        ...(req.body.isActive !== undefined && { isActive: Boolean(req.body.isActive) }),
+      },
+    });
+    await reloadDefinitions();
+    res.json(toResponse(row));
+  } catch (error) {
+    logger.error('Error updating import source definition:', error);
+    res.status(500).json({ error: 'Failed to update import source definition' });
+  }
+});
+
+// DELETE /api/import-sources/:id - Delete an import source definition (imported assets keep their source label)
+router.delete('/:id', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.importSourceDefinition.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Import source definition not found' });
+    }
+
+    await prisma.importSourceDefinition.delete({ where: { id: existing.id } });
+    await reloadDefinitions();
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting import source definition:', error);
+    res.status(500).json({ error: 'Failed to delete import source definition' });
+  }
+});
+
+export default router;
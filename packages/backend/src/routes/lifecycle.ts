@@ -0,0 +1,264 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../services/database.js';
+import { authenticateJwt, requireRole } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { ASSET_TYPES, USER_ROLES } from '../constants/index.js';
+import {
+  ALERT_SEVERITIES,
+  LIFECYCLE_POLICY_KINDS,
+  evaluateLifecyclePolicies,
+  isValidAlertSeverity,
+  isValidPolicyKind,
+  resolvePolicyAlerts,
+} from '../services/lifecycleAlertService.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateJwt);
+
+// Helper function to extract user ID from request
+function getUserId(req: Request): string {
+  const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
+  if (!userId) {
+    throw new Error('User ID not found');
+  }
+  return userId;
+}
+
+const parseOptionalInt = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : NaN;
+};
+
+/**
+ * Validate a create/update payload against the merged (existing + incoming) policy.
+ * Returns the fields to write or an error message.
+ */
+function buildPolicyData(body: any, existing: Record<string, any> | null): { data?: Record<string, any>; error?: string } {
+  const merged = { ...(existing || {}), ...body };
+  const data: Record<string, any> = {};
+
+  const name = typeof merged.name === 'string' ? merged.name.trim() : '';
+  if (!name) return { error: 'Name is required' };
+  data.name = name;
+
+  if (!merged.kind || !isValidPolicyKind(merged.kind)) {
+    return { error: `kind must be one of: ${Object.values(LIFECYCLE_POLICY_KINDS).join(', ')}` };
+  }
+  data.kind = merged.kind;
+
+  const assetType = merged.assetType || null;
+  if (assetType && !Object.values(ASSET_TYPES).includes(assetType)) {
+    return { error: 'Invalid asset type' };
+  }
+  data.assetType = assetType;
+
+  if (merged.kind === LIFECYCLE_POLICY_KINDS.REFRESH_AGE) {
+    const months = parseOptionalInt(merged.refreshAgeMonths);
+    if (months === null || isNaN(months) || months < 1) {
+      return { error: 'refreshAgeMonths must be a positive whole number' };
+    }
+    data.refreshAgeMonths = months;
+    data.leadTimeDays = null;
+  } else {
+    const days = parseOptionalInt(merged.leadTimeDays) ?? 0;
+    if (isNaN(days) || days < 0) {
+      return { error: 'leadTimeDays must be zero or a positive whole number' };
+    }
+    data.leadTimeDays = days;
+    data.refreshAgeMonths = null;
+  }
+
+  const severity = merged.severity || ALERT_SEVERITIES.WARNING;
+  if (!isValidAlertSeverity(severity)) {
+    return { error: `severity must be one of: ${Object.values(ALERT_SEVERITIES).join(', ')}` };
+  }
+  data.severity = severity;
+
+  data.isActive = merged.isActive === undefined ? true : Boolean(merged.isActive);
+
+  return { data };
+}
+
+// GET /api/lifecycle/policies - List lifecycle policies with their open alert counts
+router.get('/policies', async (_req: Request, res: Response) => {
+  try {
+    const policies = await prisma.lifecyclePolicy.findMany({ orderBy: { name: 'asc' } });
+    const counts = await prisma.lifecycleAlert.groupBy({
+      by: ['policyId'],
+      where: { resolvedAt: null },
+      _count: { _all: true },
+    });
+    const countByPolicy = new Map(counts.map((c) => [c.policyId, c._count._all]));
+
+    res.json(policies.map((policy) => ({ ...policy, openAlerts: countByPolicy.get(policy.id) ?? 0 })));
+  } catch (error) {
+    logger.error('Error fetching lifecycle policies:', error);
+    res.status(500).json({ error: 'Failed to fetch lifecycle policies' });
+  }
+});
+
+// POST /api/lifecycle/policies - Create a lifecycle policy
+router.post('/policies', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const { data, error } = buildPolicyData(req.body, null);
+    if (error || !data) {
+      return res.status(400).json({ error });
+    }
+
+    const policy = await prisma.lifecyclePolicy.create({ data: data as any });
+    res.status(201).json({ ...policy, openAlerts: 0 });
+  } catch (error) {
+    logger.error('Error creating lifecycle policy:', error);
+    res.status(500).json({ error: 'Failed to create lifecycle policy' });
+  }
+});
+
+// PUT /api/lifecycle/policies/:id - Update a lifecycle policy
+router.put('/policies/:id', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.lifecyclePolicy.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Lifecycle policy not found' });
+    }
+
+    const { data, error } = buildPolicyData(req.body, existing);
+    if (error || !data) {
+      return res.status(400).json({ error });
+    }
+
+    const policy = await prisma.lifecyclePolicy.update({ where: { id: existing.id }, data });
+
+    // Pausing a policy clears its alerts; the next evaluation re-raises them if it is resumed
+    if (!policy.isActive) {
+      await resolvePolicyAlerts(policy.id);
+    }
+
+    const openAlerts = await prisma.lifecycleAlert.count({ where: { policyId: policy.id, resolvedAt: null } });
+    res.json({ ...policy, openAlerts });
+  } catch (error) {
+    logger.error('Error updating lifecycle policy:', error);
+    res.status(500).json({ error: 'Failed to update lifecycle policy' });
+  }
+});
+
+// DELETE /api/lifecycle/policies/:id - Delete a lifecycle policy and its alerts
+router.delete('/policies/:id', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.lifecyclePolicy.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Lifecycle policy not found' });
+    }
+
+    await prisma.lifecyclePolicy.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting lifecycle policy:', error);
+    res.status(500).json({ error: 'Failed to delete lifecycle policy' });
+  }
+});
+
+// POST /api/lifecycle/evaluate - Re-evaluate all active policies now
+router.post('/evaluate', requireRole([USER_ROLES.ADMIN]), async (_req: Request, res: Response) => {
+  try {
+    const summary = await evaluateLifecyclePolicies();
+    res.json(summary);
+  } catch (error) {
+    logger.error('Error evaluating lifecycle policies:', error);
+    res.status(500).json({ error: 'Failed to evaluate lifecycle policies' });
+  }
+});
+
+// GET /api/lifecycle/alerts - Open alerts (?status=unacknowledged for the current user's unread alerts)
+router.get('/alerts', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const limit = Math.min(parseInt((req.query.limit as string) || '50'), 200);
+    const unacknowledgedOnly = req.query.status === 'unacknowledged';
+
+    const alerts = await prisma.lifecycleAlert.findMany({
+      where: {
+        resolvedAt: null,
+        ...(unacknowledgedOnly && { acknowledgements: { none: { userId } } }),
+      },
+      include: {
+        policy: { select: { id: true, name: true } },
+        asset: { select: { id: true, assetTag: true, assetType: true, make: true, model: true } },
+        acknowledgements: { where: { userId }, select: { acknowledgedAt: true } },
+      },
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'desc' }],
+      take: limit,
+    });
+
+    res.json(
+      alerts.map(({ acknowledgements, ...alert }) => ({
+        ...alert,
+        acknowledgedAt: acknowledgements[0]?.acknowledgedAt ?? null,
+      }))
+    );
+  } catch (error) {
+    logger.error('Error fetching lifecycle alerts:', error);
+    res.status(500).json({ error: 'Failed to fetch lifecycle alerts' });
+  }
+});
+
+// GET /api/lifecycle/alerts/count - Number of open alerts the current user has not acknowledged
+router.get('/alerts/count', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const unacknowledged = await prisma.lifecycleAlert.count({
+      where: { resolvedAt: null, acknowledgements: { none: { userId } } },
+    });
+    res.json({ unacknowledged });
+  } catch (error) {
+    logger.error('Error counting lifecycle alerts:', error);
+    res.status(500).json({ error: 'Failed to count lifecycle alerts' });
+  }
+});
+
+// POST /api/lifecycle/alerts/acknowledge-all - Acknowledge every open alert for the current user
+router.post('/alerts/acknowledge-all', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const pending = await prisma.lifecycleAlert.findMany({
+      where: { resolvedAt: null, acknowledgements: { none: { userId } } },
+      select: { id: true },
+    });
+
+    if (pending.length > 0) {
+      await prisma.alertAcknowledgement.createMany({
+        data: pending.map((alert) => ({ alertId: alert.id, userId })),
+      });
+    }
+    res.json({ acknowledged: pending.length });
+  } catch (error) {
+    logger.error('Error acknowledging lifecycle alerts:', error);
+    res.status(500).json({ error: 'Failed to acknowledge lifecycle alerts' });
+  }
+});
+
+// POST /api/lifecycle/alerts/:id/acknowledge - Acknowledge one alert for the current user
+router.post('/alerts/:id/acknowledge', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const alert = await prisma.lifecycleAlert.findUnique({ where: { id: req.params.id } });
+    if (!alert) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+
+    const acknowledgement = await prisma.alertAcknowledgement.upsert({
+      where: { alertId_userId: { alertId: alert.id, userId } },
+      create: { alertId: alert.id, userId },
+      update: {},
+    });
+    res.json(acknowledgement);
+  } catch (error) {
+    logger.error('Error acknowledging lifecycle alert:', error);
+    res.status(500).json({ error: 'Failed to acknowledge lifecycle alert' });
+  }
+});
+
+export default router;
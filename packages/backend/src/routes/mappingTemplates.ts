@@ -0,0 +1,244 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../services/database.js';
+import { authenticateJwt, requireRole } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { USER_ROLES } from '../constants/index.js';
+import {
+  IMPORT_PROCESSORS,
+  compareHeaderLayouts,
+  fingerprintHeaders,
+  type MappingTemplateColumn,
+  type MappingTemplateDefault,
+} from '@ats/shared-transformations';
+
+const router = Router();
+
+// All routes require authentication; templates are only useful to users who can import
+router.use(authenticateJwt);
+router.use(requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]));
+
+const TARGET_TYPES = ['direct', 'specifications', 'custom'];
+const CATEGORIES = ['endpoints', 'servers', 'phones'];
+// Templates whose layout shares less than this with the incoming file are not suggested
+const MIN_SUGGESTION_OVERLAP = 0.5;
+
+// Helper function to extract user ID from request
+function getUserId(req: Request): string {
+  const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
+  if (!userId) {
+    throw new Error('User ID not found');
+  }
+  return userId;
+}
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+
+// Parse stored JSON columns
+function serializeTemplate(template: any) {
+  return {
+    ...template,
+    headers: parseJson<string[]>(template.headers, []),
+    columns: parseJson<MappingTemplateColumn[]>(template.columns, []),
+    defaults: parseJson<MappingTemplateDefault[]>(template.defaults, []),
+  };
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Validate and normalise the writable fields of a template; returns an error message on failure
+function buildTemplateData(body: any, partial: boolean): { data?: Record<string, any>; error?: string } {
+  const data: Record<string, any> = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) return { error: 'Name is required' };
+    if (name.length > 100) return { error: 'Name must be 100 characters or fewer' };
+    data.name = name;
+  }
+
+  if (body.sourceKey !== undefined) {
+    if (typeof body.sourceKey !== 'string' || !body.sourceKey.trim()) return { error: 'Invalid source' };
+    data.sourceKey = body.sourceKey.trim();
+  }
+
+  if (body.category !== undefined || !partial) {
+    if (!CATEGORIES.includes(body.category)) return { error: `category must be one of: ${CATEGORIES.join(', ')}` };
+    data.category = body.category;
+  }
+
+  if (body.headers !== undefined || !partial) {
+    if (!isStringList(body.headers) || body.headers.length === 0) return { error: 'Headers must be a non-empty list' };
+    data.headers = JSON.stringify(body.headers);
+    data.headerFingerprint = fingerprintHeaders(body.headers);
+  }
+
+  if (body.columns !== undefined || !partial) {
+    if (!Array.isArray(body.columns)) return { error: 'Columns must be a list' };
+    const columns: MappingTemplateColumn[] = [];
+    for (const column of body.columns) {
+      if (typeof column?.header !== 'string' || typeof column?.targetField !== 'string' || !column.targetField) {
+        return { error: 'Each column needs a header and target field' };
+      }
+      if (!TARGET_TYPES.includes(column.targetType)) return { error: `Invalid target type for ${column.header}` };
+      if (column.processor && !IMPORT_PROCESSORS[column.processor]) {
+        return { error: `Unknown processor "${column.processor}"` };
+      }
+      columns.push({
+        header: column.header,
+        targetField: column.targetField,
+        targetType: column.targetType,
+        ...(column.processor && { processor: column.processor }),
+        ...(column.defaultValue != null && column.defaultValue !== '' && { defaultValue: String(column.defaultValue) }),
+      });
+    }
+    data.columns = JSON.stringify(columns);
+  }
+
+  if (body.defaults !== undefined) {
+    if (!Array.isArray(body.defaults)) return { error: 'Defaults must be a list' };
+    const defaults: MappingTemplateDefault[] = [];
+    for (const item of body.defaults) {
+      if (typeof item?.targetField !== 'string' || !item.targetField || !TARGET_TYPES.includes(item.targetType)) {
+        return { error: 'Each default needs a target field and type' };
+      }
+      defaults.push({ targetField: item.targetField, targetType: item.targetType, value: String(item.value ?? '') });
+    }
+    data.defaults = JSON.stringify(defaults);
+  }
+
+  return { data };
+}
+
+// GET /api/mapping-templates - The caller's templates (?sourceKey= to narrow to one source)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const sourceKey = req.query.sourceKey as string | undefined;
+
+    const templates = await prisma.columnMappingTemplate.findMany({
+      where: { ownerId: userId, ...(sourceKey && { sourceKey }) },
+      orderBy: [{ updatedAt: 'desc' }],
+    });
+
+    res.json(templates.map(serializeTemplate));
+  } catch (error) {
+    logger.error('Error fetching mapping templates:', error);
+    res.status(500).json({ error: 'Failed to fetch mapping templates' });
+  }
+});
+
+// POST /api/mapping-templates/suggest - Rank the caller's templates against an uploaded header row
+router.post('/suggest', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const { headers, sourceKey } = req.body;
+    if (!isStringList(headers) || headers.length === 0) {
+      return res.status(400).json({ error: 'Headers must be a non-empty list' });
+    }
+
+    const templates = await prisma.columnMappingTemplate.findMany({
+      where: { ownerId: userId, ...(sourceKey && { sourceKey }) },
+    });
+
+    const suggestions = templates
+      .map((template) => {
+        const parsed = serializeTemplate(template);
+        return { template: parsed, layout: compareHeaderLayouts(parsed.headers, headers) };
+      })
+      .filter(({ layout }) => layout.matches || layout.overlap >= MIN_SUGGESTION_OVERLAP)
+      .sort((a, b) => b.layout.overlap - a.layout.overlap || +b.template.updatedAt - +a.template.updatedAt);
+
+    res.json({ fingerprint: fingerprintHeaders(headers), suggestions });
+  } catch (error) {
+    logger.error('Error suggesting mapping templates:', error);
+    res.status(500).json({ error: 'Failed to suggest mapping templates' });
+  }
+});
+
+// POST /api/mapping-templates - Save a template for the caller
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const { data, error } = buildTemplateData(req.body, false);
+    if (error || !data) {
+      return res.status(400).json({ error });
+    }
+
+    const duplicate = await prisma.columnMappingTemplate.findUnique({
+      where: { ownerId_name: { ownerId: userId, name: data.name } },
+    });
+    if (duplicate) {
+      return res.status(409).json({ error: `You already have a template named "${data.name}"` });
+    }
+
+    const template = await prisma.columnMappingTemplate.create({
+      data: { ...(data as any), ownerId: userId },
+    });
+    res.status(201).json(serializeTemplate(template));
+  } catch (error) {
+    logger.error('Error creating mapping template:', error);
+    res.status(500).json({ error: 'Failed to create mapping template' });
+  }
+});
+
+// PUT /api/mapping-templates/:id - Save a new version of a template (owner only)
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const existing = await prisma.columnMappingTemplate.findUnique({ where: { id: req.params.id } });
+    if (!existing || existing.ownerId !== userId) {
+      return res.status(404).json({ error: 'Mapping template not found' });
+    }
+
+    const { data, error } = buildTemplateData(req.body, true);
+    if (error || !data) {
+      return res.status(400).json({ error });
+    }
+
+    if (data.name && data.name !== existing.name) {
+      const duplicate = await prisma.columnMappingTemplate.findUnique({
+        where: { ownerId_name: { ownerId: userId, name: data.name } },
+      });
+      if (duplicate) {
+        return res.status(409).json({ error: `You already have a template named "${data.name}"` });
+      }
+    }
+
+    const template = await prisma.columnMappingTemplate.update({
+      where: { id: existing.id },
+      data: { ...data, version: { increment: 1 } },
+    });
+    res.json(serializeTemplate(template));
+  } catch (error) {
+    logger.error('Error updating mapping template:', error);
+    res.status(500).json({ error: 'Failed to update mapping template' });
+  }
+});
+
+// DELETE /api/mapping-templates/:id - Delete a template (owner only)
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const existing = await prisma.columnMappingTemplate.findUnique({ where: { id: req.params.id } });
+    if (!existing || existing.ownerId !== userId) {
+      return res.status(404).json({ error: 'Mapping template not found' });
+    }
+
+    await prisma.columnMappingTemplate.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting mapping template:', error);
+    res.status(500).json({ error: 'Failed to delete mapping template' });
+  }
+});
+
+export default router;
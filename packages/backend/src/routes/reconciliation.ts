@@ -0,0 +1,103 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../services/database.js';
+import { authenticateJwt, requireRole } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { USER_ROLES } from '../constants/index.js';
+import {
+  RECONCILIATION_KINDS,
+  buildReconciliationReport,
+  fixReconciliationItem,
+  isValidReconciliationKind,
+} from '../services/reconciliationService.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateJwt);
+
+// Helper function to extract user ID from request
+function getUserId(req: Request): string {
+  const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
+  if (!userId) {
+    throw new Error('User ID not found');
+  }
+  return userId;
+}
+
+// GET /api/reconciliation - Cross-source discrepancies (add includeIgnored=true to list ignored ones)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const report = await buildReconciliationReport({ includeIgnored: req.query.includeIgnored === 'true' });
+    res.json(report);
+  } catch (error) {
+    logger.error('Error building reconciliation report:', error);
+    res.status(500).json({ error: 'Failed to build reconciliation report' });
+  }
+});
+
+// POST /api/reconciliation/fix - Apply the fix for one discrepancy to its asset
+router.post('/fix', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const { assetId, kind, field, sourceSystem } = req.body || {};
+    if (!assetId || !kind || !isValidReconciliationKind(kind)) {
+      return res.status(400).json({ error: `assetId and kind (${Object.values(RECONCILIATION_KINDS).join(', ')}) are required` });
+    }
+
+    const result = await fixReconciliationItem({ assetId, kind, field, sourceSystem }, getUserId(req));
+    if (result.error) {
+      return res.status(result.status ?? 400).json({ error: result.error });
+    }
+    res.json(result.asset);
+  } catch (error) {
+    logger.error('Error fixing reconciliation item:', error);
+    res.status(500).json({ error: 'Failed to fix reconciliation item' });
+  }
+});
+
+// POST /api/reconciliation/ignore - Hide a discrepancy until the sources disagree differently
+router.post('/ignore', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const { assetId, kind, fingerprint, note } = req.body || {};
+    if (!assetId || !kind || !isValidReconciliationKind(kind) || typeof fingerprint !== 'string' || !fingerprint) {
+      return res.status(400).json({ error: 'assetId, kind and fingerprint are required' });
+    }
+
+    const asset = await prisma.asset.findUnique({ where: { id: assetId }, select: { id: true } });
+    if (!asset) {
+      return res.status(404).json({ error: 'Asset not found' });
+    }
+
+    const data = {
+      fingerprint: fingerprint.slice(0, 1000),
+      note: typeof note === 'string' && note.trim() ? note.trim().slice(0, 500) : null,
+      ignoredById: getUserId(req),
+    };
+    const ignore = await prisma.reconciliationIgnore.upsert({
+      where: { assetId_kind: { assetId, kind } },
+      create: { assetId, kind, ...data },
+      update: { ...data, createdAt: new Date() },
+    });
+    res.status(201).json(ignore);
+  } catch (error) {
+    logger.error('Error ignoring reconciliation item:', error);
+    res.status(500).json({ error: 'Failed to ignore reconciliation item' });
+  }
+});
+
+// DELETE /api/reconciliation/ignore/:id - Show an ignored discrepancy again
+router.delete('/ignore/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.reconciliationIgnore.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Ignored item not found' });
+    }
+    await prisma.reconciliationIgnore.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error removing reconciliation ignore:', error);
+    res.status(500).json({ error: 'Failed to remove reconciliation ignore' });
+  }
+});
+
+export default router;
@@ -0,0 +1,253 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../services/database.js';
+import { authenticateJwt, requireRole } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { USER_ROLES } from '../constants/index.js';
+import { isValidReportKey } from '../services/reportService.js';
+import {
+  SCHEDULE_DELIVERY_TYPES,
+  SCHEDULE_SOURCE_TYPES,
+  computeNextRun,
+  executeSchedule,
+  isValidCronExpression,
+} from '../services/scheduleService.js';
+
+const router = Router();
+
+// All routes require authentication and ADMIN role
+router.use(authenticateJwt);
+router.use(requireRole([USER_ROLES.ADMIN]));
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const scheduleInclude = {
+  savedView: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, displayName: true } },
+  runs: { orderBy: { startedAt: 'desc' as const }, take: 1 },
+};
+
+// Helper function to extract user ID from request
+function getUserId(req: Request): string {
+  const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
+  if (!userId) {
+    throw new Error('User ID not found');
+  }
+  return userId;
+}
+
+function serializeSchedule(schedule: any) {
+  const { runs, reportParams, ...rest } = schedule;
+  let params: Record<string, string> = {};
+  try {
+    params = reportParams ? JSON.parse(reportParams) : {};
+  } catch {
+    params = {};
+  }
+  return { ...rest, reportParams: params, lastRun: runs?.[0] ?? null };
+}
+
+/**
+ * Validate a create/update payload against the merged (existing + incoming) schedule.
+ * Returns the fields to write or an error message.
+ */
+async function buildScheduleData(
+  body: any,
+  existing: Record<string, any> | null,
+  userId: string
+): Promise<{ data?: Record<string, any>; error?: string }> {
+  const merged = { ...(existing || {}), ...body };
+  const data: Record<string, any> = {};
+
+  const name = typeof merged.name === 'string' ? merged.name.trim() : '';
+  if (!name) return { error: 'Name is required' };
+  data.name = name;
+
+  const timezone = merged.timezone || null;
+  if (!merged.cronExpression || !isValidCronExpression(merged.cronExpression, timezone)) {
+    return { error: 'A valid cron expression is required (e.g. "0 8 * * 1")' };
+  }
+  data.cronExpression = merged.cronExpression.trim();
+  data.timezone = timezone;
+
+  if (!Object.values(SCHEDULE_SOURCE_TYPES).includes(merged.sourceType)) {
+    return { error: 'sourceType must be REPORT or SAVED_VIEW' };
+  }
+  data.sourceType = merged.sourceType;
+
+  if (merged.sourceType === SCHEDULE_SOURCE_TYPES.REPORT) {
+    if (!merged.reportKey || !isValidReportKey(merged.reportKey)) {
+      return { error: 'A valid report key is required' };
+    }
+    const params = merged.reportParams ?? {};
+    data.reportKey = merged.reportKey;
+    data.reportParams = typeof params === 'string' ? params : JSON.stringify(params);
+    data.savedViewId = null;
+  } else {
+    if (!merged.savedViewId) return { error: 'A saved view is required' };
+    const view = await prisma.savedView.findUnique({ where: { id: merged.savedViewId } });
+    if (!view || (view.ownerId !== userId && !view.isShared)) {
+      return { error: 'Saved view not found' };
+    }
+    data.savedViewId = view.id;
+    data.reportKey = null;
+    data.reportParams = null;
+  }
+
+  if (!Object.values(SCHEDULE_DELIVERY_TYPES).includes(merged.deliveryType)) {
+    return { error: 'deliveryType must be EMAIL or WEBHOOK' };
+  }
+  data.deliveryType = merged.deliveryType;
+
+  if (merged.deliveryType === SCHEDULE_DELIVERY_TYPES.EMAIL) {
+    const recipients = (Array.isArray(merged.recipients) ? merged.recipients : String(merged.recipients || '').split(','))
+      .map((r: string) => r.trim())
+      .filter(Boolean);
+    if (recipients.length === 0) return { error: 'At least one recipient is required' };
+    const invalid = recipients.find((r: string) => !EMAIL_REGEX.test(r));
+    if (invalid) return { error: `Invalid email address: ${invalid}` };
+    data.recipients = recipients.join(',');
+    data.webhookUrl = null;
+  } else {
+    try {
+      const url = new URL(merged.webhookUrl);
+      if (!['http:', 'https:'].includes(url.protocol)) throw new Error('protocol');
+    } catch {
+      return { error: 'A valid http(s) webhook URL is required' };
+    }
+    data.webhookUrl = merged.webhookUrl;
+    data.recipients = null;
+  }
+
+  data.isActive = merged.isActive === undefined ? true : Boolean(merged.isActive);
+  data.nextRunAt = data.isActive ? computeNextRun(data.cronExpression, data.timezone) : null;
+
+  return { data };
+}
+
+// GET /api/report-schedules - List schedules with their latest run
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const schedules = await prisma.reportSchedule.findMany({
+      include: scheduleInclude,
+      orderBy: { name: 'asc' },
+    });
+    res.json(schedules.map(serializeSchedule));
+  } catch (error) {
+    logger.error('Error fetching report schedules:', error);
+    res.status(500).json({ error: 'Failed to fetch report schedules' });
+  }
+});
+
+// GET /api/report-schedules/runs - Recent runs across all schedules (?status=FAILED for failures)
+router.get('/runs', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt((req.query.limit as string) || '50'), 200);
+    const runs = await prisma.reportScheduleRun.findMany({
+      where: req.query.status ? { status: String(req.query.status).toUpperCase() } : {},
+      include: { schedule: { select: { id: true, name: true } } },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+    res.json(runs);
+  } catch (error) {
+    logger.error('Error fetching report schedule runs:', error);
+    res.status(500).json({ error: 'Failed to fetch report schedule runs' });
+  }
+});
+
+// GET /api/report-schedules/:id/runs - Run history for a schedule
+router.get('/:id/runs', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt((req.query.limit as string) || '25'), 200);
+    const runs = await prisma.reportScheduleRun.findMany({
+      where: { scheduleId: req.params.id },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+    res.json(runs);
+  } catch (error) {
+    logger.error('Error fetching report schedule runs:', error);
+    res.status(500).json({ error: 'Failed to fetch report schedule runs' });
+  }
+});
+
+// POST /api/report-schedules - Create a schedule
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const { data, error } = await buildScheduleData(req.body, null, userId);
+    if (error || !data) {
+      return res.status(400).json({ error });
+    }
+
+    const schedule = await prisma.reportSchedule.create({
+      data: { ...(data as any), createdById: userId },
+      include: scheduleInclude,
+    });
+    res.status(201).json(serializeSchedule(schedule));
+  } catch (error) {
+    logger.error('Error creating report schedule:', error);
+    res.status(500).json({ error: 'Failed to create report schedule' });
+  }
+});
+
+// PUT /api/report-schedules/:id - Update a schedule
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const existing = await prisma.reportSchedule.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Report schedule not found' });
+    }
+
+    const { data, error } = await buildScheduleData(req.body, existing, userId);
+    if (error || !data) {
+      return res.status(400).json({ error });
+    }
+
+    const schedule = await prisma.reportSchedule.update({
+      where: { id: existing.id },
+      data,
+      include: scheduleInclude,
+    });
+    res.json(serializeSchedule(schedule));
+  } catch (error) {
+    logger.error('Error updating report schedule:', error);
+    res.status(500).json({ error: 'Failed to update report schedule' });
+  }
+});
+
+// DELETE /api/report-schedules/:id - Delete a schedule and its run history
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.reportSchedule.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Report schedule not found' });
+    }
+
+    await prisma.reportSchedule.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting report schedule:', error);
+    res.status(500).json({ error: 'Failed to delete report schedule' });
+  }
+});
+
+// POST /api/report-schedules/:id/run - Run a schedule now (does not move its next run)
+router.post('/:id/run', async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.reportSchedule.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Report schedule not found' });
+    }
+
+    const run = await executeSchedule(existing.id, 'MANUAL');
+    res.json(run);
+  } catch (error) {
+    logger.error('Error running report schedule:', error);
+    res.status(500).json({ error: 'Failed to run report schedule' });
+  }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { authenticateJwt } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import {
+  REPORTS,
+  isValidReportKey,
+  runReport,
+  reportToCsv,
+  reportToXlsx,
+  type ReportParams,
+} from '../services/reportService.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateJwt);
+
+// GET /api/reports - List available reports
+router.get('/', (_req: Request, res: Response) => {
+  res.json(
+    Object.entries(REPORTS).map(([key, def]) => ({ key, title: def.title, description: def.description }))
+  );
+});
+
+// GET /api/reports/:key - Run a report; ?format=csv|excel downloads it instead of returning JSON
+router.get('/:key', async (req: Request, res: Response) => {
+  try {
+    const { key } = req.params;
+    if (!isValidReportKey(key)) {
+      return res.status(404).json({ error: `Unknown report: ${key}` });
+    }
+
+    const { format, ...rest } = req.query;
+    const params: ReportParams = {};
+    Object.entries(rest).forEach(([name, value]) => {
+      if (typeof value === 'string' && value) params[name] = value;
+    });
+    for (const name of ['from', 'to']) {
+      const value = params[name];
+      if (value && isNaN(new Date(value).getTime())) {
+        return res.status(400).json({ error: `Invalid ${name} date: ${value}` });
+      }
+    }
+
+    const table = await runReport(key, params);
+    const filename = `${key}_report_${new Date().toISOString().split('T')[0]}`;
+
+    if (format === 'excel' || format === 'xlsx') {
+      const buffer = await reportToXlsx(table);
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename=${filename}.xlsx`);
+      return res.send(buffer);
+    }
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename=${filename}.csv`);
+      return res.send(await reportToCsv(table));
+    }
+
+    res.json(table);
+  } catch (error) {
+    logger.error('Error running report:', error);
+    res.status(500).json({ error: 'Failed to run report' });
+  }
+});
+
+export default router;
@@ -0,0 +1,242 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import prisma from '../services/database.js';
+import { authenticateJwt } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { USER_ROLES } from '../constants/index.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateJwt);
+
+const VIEW_ENTITIES = ['assets'];
+const VIEW_DENSITIES = ['compact', 'comfortable'];
+
+// Helper function to extract user ID from request
+function getUserId(req: Request): string {
+  const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
+  if (!userId) {
+    throw new Error('User ID not found');
+  }
+  return userId;
+}
+
+function parseJson(value: string | null): Record<string, any> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+// Parse stored JSON columns and flag whether the caller owns the view
+function serializeView(view: any, userId: string) {
+  return {
+    ...view,
+    filters: parseJson(view.filters),
+    columns: view.columns ? parseJson(view.columns) : null,
+    isOwner: view.ownerId === userId,
+  };
+}
+
+// Validate and normalise the writable fields of a view; returns an error message on failure
+function buildViewData(body: any, partial: boolean): { data?: Record<string, any>; error?: string } {
+  const data: Record<string, any> = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) return { error: 'Name is required' };
+    if (name.length > 100) return { error: 'Name must be 100 characters or fewer' };
+    data.name = name;
+  }
+
+  if (body.entity !== undefined) {
+    if (!VIEW_ENTITIES.includes(body.entity)) return { error: 'Invalid entity' };
+    data.entity = body.entity;
+  }
+
+  if (body.filters !== undefined || !partial) {
+    const filters = body.filters ?? {};
+    if (typeof filters !== 'object' || Array.isArray(filters)) return { error: 'Filters must be an object' };
+    const serialized = JSON.stringify(filters);
+    if (serialized.length > 4000) return { error: 'Filters are too large to save' };
+    data.filters = serialized;
+  }
+
+  if (body.columns !== undefined) {
+    if (body.columns !== null && (typeof body.columns !== 'object' || Array.isArray(body.columns))) {
+      return { error: 'Columns must be an object' };
+    }
+    data.columns = body.columns ? JSON.stringify(body.columns) : null;
+  }
+
+  if (body.sortBy !== undefined) data.sortBy = body.sortBy || null;
+
+  if (body.sortOrder !== undefined) {
+    if (body.sortOrder && !['asc', 'desc'].includes(body.sortOrder)) return { error: 'Invalid sort order' };
+    data.sortOrder = body.sortOrder || null;
+  }
+
+  if (body.density !== undefined) {
+    if (body.density && !VIEW_DENSITIES.includes(body.density)) return { error: 'Invalid density' };
+    data.density = body.density || null;
+  }
+
+  for (const flag of ['isShared', 'isPinned', 'isDefault']) {
+    if (body[flag] !== undefined) data[flag] = Boolean(body[flag]);
+  }
+
+  return { data };
+}
+
+// GET /api/saved-views - Views owned by the caller plus views shared with the team
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const entity = (req.query.entity as string) || 'assets';
+
+    const views = await prisma.savedView.findMany({
+      where: {
+        entity,
+        OR: [{ ownerId: userId }, { isShared: true }],
+      },
+      include: {
+        owner: { select: { id: true, displayName: true } },
+      },
+      orderBy: [{ isPinned: 'desc' }, { name: 'asc' }],
+    });
+
+    res.json(views.map((view) => serializeView(view, userId)));
+  } catch (error) {
+    logger.error('Error fetching saved views:', error);
+    res.status(500).json({ error: 'Failed to fetch saved views' });
+  }
+});
+
+// GET /api/saved-views/:id - Get a single view (used by deep links)
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const view = await prisma.savedView.findUnique({
+      where: { id: req.params.id },
+      include: {
+        owner: { select: { id: true, displayName: true } },
+      },
+    });
+
+    if (!view || (view.ownerId !== userId && !view.isShared)) {
+      return res.status(404).json({ error: 'Saved view not found' });
+    }
+
+    res.json(serializeView(view, userId));
+  } catch (error) {
+    logger.error('Error fetching saved view:', error);
+    res.status(500).json({ error: 'Failed to fetch saved view' });
+  }
+});
+
+// POST /api/saved-views - Create a view for the caller
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const { data, error } = buildViewData(req.body, false);
+    if (error || !data) {
+      return res.status(400).json({ error });
+    }
+
+    const entity = data.entity || 'assets';
+
+    // Only one default per user and entity
+    if (data.isDefault) {
+      await prisma.savedView.updateMany({
+        where: { ownerId: userId, entity, isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+
+    const view = await prisma.savedView.create({
+      data: { ...(data as any), entity, ownerId: userId },
+      include: {
+        owner: { select: { id: true, displayName: true } },
+      },
+    });
+
+    res.status(201).json(serializeView(view, userId));
+  } catch (error) {
+    logger.error('Error creating saved view:', error);
+    res.status(500).json({ error: 'Failed to create saved view' });
+  }
+});
+
+// PUT /api/saved-views/:id - Update a view (owner only)
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const existing = await prisma.savedView.findUnique({ where: { id: req.params.id } });
+
+    if (!existing || (existing.ownerId !== userId && !existing.isShared)) {
+      return res.status(404).json({ error: 'Saved view not found' });
+    }
+    if (existing.ownerId !== userId) {
+      return res.status(403).json({ error: 'Only the owner can change a saved view' });
+    }
+
+    const { data, error } = buildViewData(req.body, true);
+    if (error || !data) {
+      return res.status(400).json({ error });
+    }
+    // Views cannot move between lists once created
+    delete data.entity;
+
+    const update = prisma.savedView.update({
+      where: { id: existing.id },
+      data,
+      include: {
+        owner: { select: { id: true, displayName: true } },
+      },
+    });
+
+    const view = data.isDefault
+      ? (
+          await prisma.$transaction([
+            prisma.savedView.updateMany({
+              where: { ownerId: userId, entity: existing.entity, isDefault: true, id: { not: existing.id } },
+              data: { isDefault: false },
+            }),
+            update,
+          ])
+        )[1]
+      : await update;
+
+    res.json(serializeView(view, userId));
+  } catch (error) {
+    logger.error('Error updating saved view:', error);
+    res.status(500).json({ error: 'Failed to update saved view' });
+  }
+});
+
+// DELETE /api/saved-views/:id - Delete a view (owner, or ADMIN for shared views)
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = getUserId(req);
+    const isAdmin = (req as any).user?.role === USER_ROLES.ADMIN;
+    const existing = await prisma.savedView.findUnique({ where: { id: req.params.id } });
+
+    if (!existing || (existing.ownerId !== userId && !existing.isShared)) {
+      return res.status(404).json({ error: 'Saved view not found' });
+    }
+    if (existing.ownerId !== userId && !isAdmin) {
+      return res.status(403).json({ error: 'Only the owner can delete a saved view' });
+    }
+
+    await prisma.savedView.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting saved view:', error);
+    res.status(500).json({ error: 'Failed to delete saved view' });
+  }
+});
+
+export default router;
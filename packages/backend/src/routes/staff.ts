@@ -1,14 +1,36 @@
 import { Router } from 'express';
 import type { Request, Response } from 'express';
-import { authenticateJwt } from '../middleware/auth.js';
-import { graphService } from '../services/graphService.js';
+import { authenticateJwt, requireRole } from '../middleware/auth.js';
+import { getDirectoryProvider } from '../services/directoryService.js';
 import logger from '../utils/logger.js';
+import { USER_ROLES } from '../constants/index.js';
+import {
+  checkAssignees,
+  getLeaverReport,
+  markAssigneeReviewed,
+  recoverAssets,
+} from '../services/leaverService.js';
+import {
+  getDirectoryFacets,
+  getStaffDirectoryStatus,
+  getStaffMember,
+  syncStaffDirectory,
+} from '../services/staffDirectoryService.js';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticateJwt);
 
+// Helper function to extract user ID from request
+function getUserId(req: Request): string {
+  const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
+  if (!userId) {
+    throw new Error('User ID not found');
+  }
+  return userId;
+}
+
 // GET /api/staff/search?q=query - Search staff members by name or email
 router.get('/search', async (req: Request, res: Response) => {
   try {
@@ -27,7 +49,7 @@ router.get('/search', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Limit must be between 1 and 50' });
     }
 
-    const staffMembers = await graphService.searchStaff(query, limitNum);
+    const staffMembers = await getDirectoryProvider().searchStaff(query, limitNum);
     
     res.json({
       data: staffMembers,
@@ -40,6 +62,90 @@ router.get('/search', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/staff/directory/status - When the stored staff directory last synced
+router.get('/directory/status', async (req: Request, res: Response) => {
+  try {
+    res.json(await getStaffDirectoryStatus());
+  } catch (error) {
+    logger.error('Error getting staff directory status:', error);
+    res.status(500).json({ error: 'Failed to get staff directory status' });
+  }
+});
+
+// GET /api/staff/directory/facets - Departments and offices of current staff, for assignee filters
+router.get('/directory/facets', async (req: Request, res: Response) => {
+  try {
+    res.json(await getDirectoryFacets());
+  } catch (error) {
+    logger.error('Error getting staff directory facets:', error);
+    res.status(500).json({ error: 'Failed to get staff directory facets' });
+  }
+});
+
+// POST /api/staff/directory/sync - Pull directory changes now (body { full: true } re-reads everyone)
+router.post('/directory/sync', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    res.json(await syncStaffDirectory({ full: req.body?.full === true }));
+  } catch (error) {
+    logger.error('Error syncing staff directory:', error);
+    res.status(500).json({ error: 'Failed to sync staff directory' });
+  }
+});
+
+// GET /api/staff/leavers - Disabled, deleted and moved assignees still holding equipment
+router.get('/leavers', async (req: Request, res: Response) => {
+  try {
+    res.json(await getLeaverReport());
+  } catch (error) {
+    logger.error('Error building leaver report:', error);
+    res.status(500).json({ error: 'Failed to build leaver report' });
+  }
+});
+
+// POST /api/staff/leavers/check - Check assignees against Azure AD now instead of waiting for the daily job
+router.post('/leavers/check', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    res.json(await checkAssignees());
+  } catch (error) {
+    logger.error('Error checking assignees against Azure AD:', error);
+    res.status(500).json({ error: 'Failed to check assignees against Azure AD' });
+  }
+});
+
+// POST /api/staff/leavers/recover - Unassign assets (by assignee or asset) and mark them To Recover
+router.post('/leavers/recover', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const { aadIds, assetIds } = req.body || {};
+    const isIdList = (value: unknown) => Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === 'string');
+    if (!isIdList(aadIds) && !isIdList(assetIds)) {
+      return res.status(400).json({ error: 'aadIds or assetIds must be a non-empty array' });
+    }
+
+    const result = await recoverAssets(
+      { aadIds: isIdList(aadIds) ? aadIds : undefined, assetIds: isIdList(assetIds) ? assetIds : undefined },
+      getUserId(req)
+    );
+    res.json(result);
+  } catch (error) {
+    logger.error('Error recovering leaver assets:', error);
+    res.status(500).json({ error: 'Failed to recover assets' });
+  }
+});
+
+// POST /api/staff/leavers/:aadId/reviewed - Accept a department/office move as the new baseline
+router.post('/leavers/:aadId/reviewed', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const updated = await markAssigneeReviewed(req.params.aadId);
+    if (!updated) {
+      return res.status(404).json({ error: 'No unreviewed move found for this assignee' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error marking assignee move as reviewed:', error);
+    res.status(500).json({ error: 'Failed to mark move as reviewed' });
+  }
+});
+
 // GET /api/staff/:aadId - Get specific staff member by Azure AD ID
 router.get('/:aadId', async (req: Request, res: Response) => {
   try {
@@ -49,7 +155,7 @@ router.get('/:aadId', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Azure AD ID is required' });
     }
 
-    const staffMember = await graphService.getStaffMember(aadId);
+    const staffMember = await getStaffMember(aadId);
     
     if (!staffMember) {
       return res.status(404).json({ error: 'Staff member not found' });
@@ -77,7 +183,7 @@ router.get('/group/:groupId', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Limit must be between 1 and 500' });
     }
 
-    const staffMembers = await graphService.getStaffFromGroup(groupId, limitNum);
+    const staffMembers = await getDirectoryProvider().getStaffFromGroup(groupId, limitNum);
     
     res.json({
       data: staffMembers,
@@ -93,7 +199,7 @@ router.get('/group/:groupId', async (req: Request, res: Response) => {
 // POST /api/staff/clear-cache - Clear the staff cache (admin only)
 router.post('/clear-cache', async (req: Request, res: Response) => {
   try {
-    graphService.clearCache();
+    getDirectoryProvider().clearCache();
     res.json({ message: 'Staff cache cleared successfully' });
   } catch (error) {
     logger.error('Error clearing staff cache:', error);
@@ -110,7 +216,7 @@ router.get('/:aadId/photo', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Azure AD ID is required' });
     }
 
-    const photoBuffer = await graphService.getProfilePhoto(aadId);
+    const photoBuffer = await getDirectoryProvider().getProfilePhoto(aadId);
     
     if (!photoBuffer) {
       // Don't log this as an error - it's normal for users to not have photos
@@ -145,7 +251,7 @@ router.get('/:aadId/photo/metadata', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Azure AD ID is required' });
     }
 
-    const metadata = await graphService.getProfilePhotoMetadata(aadId);
+    const metadata = await getDirectoryProvider().getProfilePhotoMetadata(aadId);
     
     if (!metadata) {
       return res.status(404).json({ error: 'Profile photo metadata not found' });
@@ -161,7 +267,7 @@ router.get('/:aadId/photo/metadata', async (req: Request, res: Response) => {
 // POST /api/staff/clear-photo-cache - Clear the photo cache (admin only)
 router.post('/clear-photo-cache', async (req: Request, res: Response) => {
   try {
-    graphService.clearPhotoCache();
+    getDirectoryProvider().clearPhotoCache();
     res.json({ message: 'Photo cache cleared successfully' });
   } catch (error) {
     logger.error('Error clearing photo cache:', error);
@@ -178,7 +284,7 @@ router.get('/:aadId/photo/test', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Azure AD ID is required' });
     }
 
-    const result = await graphService.testPhotoPermissions(aadId);
+    const result = await getDirectoryProvider().testPhotoPermissions(aadId);
     
     res.json({
       aadId,
@@ -195,7 +301,7 @@ router.get('/:aadId/photo/test', async (req: Request, res: Response) => {
 // GET /api/staff/debug/permissions - Check what Graph API permissions we have
 router.get('/debug/permissions', async (req: Request, res: Response) => {
   try {
-    const result = await graphService.checkPermissions();
+    const result = await getDirectoryProvider().checkPermissions();
     
     res.json({
       scopes: result.scopes,
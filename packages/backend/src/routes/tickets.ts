@@ -0,0 +1,183 @@
+import { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import crypto from 'crypto';
+import prisma from '../services/database.js';
+import { authenticateJwt, requireRole } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import config from '../config/index.js';
+import { USER_ROLES } from '../constants/index.js';
+import { Prisma } from '../generated/prisma';
+import { DEFAULT_TICKET_SYSTEM, findAssetForTicket, pickTicketFields } from '../services/ticketService.js';
+
+const router = Router();
+
+const assetSelect = { id: true, assetTag: true } as const;
+
+// Check the shared secret a helpdesk sends with webhook calls
+function verifyWebhookSecret(req: Request, res: Response, next: NextFunction) {
+  const expected = config.tickets.webhookSecret;
+  if (!expected) {
+    return res.status(503).json({ error: 'Ticket webhook is not configured' });
+  }
+
+  const provided = String(req.headers['x-webhook-secret'] || '');
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    logger.warn('Rejected ticket webhook call with an invalid secret');
+    return res.status(401).json({ error: 'Invalid webhook secret' });
+  }
+  next();
+}
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// POST /api/tickets/webhook - Create or update a ticket by number (helpdesk callback, shared-secret auth)
+router.post('/webhook', verifyWebhookSecret, async (req: Request, res: Response) => {
+  try {
+    const body = req.body || {};
+    const ticketNumber = body.ticketNumber != null ? String(body.ticketNumber).trim() : '';
+    if (!ticketNumber) {
+      return res.status(400).json({ error: 'ticketNumber is required' });
+    }
+    const ticketSystem = (body.ticketSystem && String(body.ticketSystem).trim()) || DEFAULT_TICKET_SYSTEM;
+
+    const hasAssetRef = !!(body.assetId || body.assetTag || body.serialNumber);
+    const asset = hasAssetRef
+      ? await findAssetForTicket({ assetId: body.assetId, assetTag: body.assetTag, serialNumber: body.serialNumber })
+      : null;
+    if (hasAssetRef && !asset) {
+      return res.status(404).json({ error: 'No asset matches the supplied assetId, assetTag or serialNumber' });
+    }
+
+    const fields = pickTicketFields(body);
+    const existing = await prisma.assetTicket.findUnique({
+      where: { ticketNumber_ticketSystem: { ticketNumber, ticketSystem } },
+    });
+
+    if (existing) {
+      const ticket = await prisma.assetTicket.update({
+        where: { id: existing.id },
+        data: { ...fields, ...(asset && { assetId: asset.id }) },
+        include: { asset: { select: assetSelect } },
+      });
+      return res.json({ action: 'updated', ticket });
+    }
+
+    if (!asset) {
+      return res.status(400).json({ error: 'New tickets need an assetId, assetTag or serialNumber' });
+    }
+
+    const ticket = await prisma.assetTicket.create({
+      data: { ...fields, ticketNumber, ticketSystem, assetId: asset.id },
+      include: { asset: { select: assetSelect } },
+    });
+    res.status(201).json({ action: 'created', ticket });
+  } catch (error) {
+    logger.error('Error processing ticket webhook:', error);
+    res.status(500).json({ error: 'Failed to process ticket webhook' });
+  }
+});
+
+// Everything below requires a signed-in user
+router.use(authenticateJwt);
+
+// GET /api/tickets/asset/:assetId - Tickets linked to an asset (newest first)
+router.get('/asset/:assetId', async (req: Request, res: Response) => {
+  try {
+    const tickets = await prisma.assetTicket.findMany({
+      where: { assetId: req.params.assetId },
+      orderBy: { createdAt: 'desc' },
+    });
+    res.json(tickets);
+  } catch (error) {
+    logger.error('Error fetching asset tickets:', error);
+    res.status(500).json({ error: 'Failed to fetch asset tickets' });
+  }
+});
+
+// POST /api/tickets/asset/:assetId - Link a ticket to an asset
+router.post('/asset/:assetId', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const ticketNumber = req.body.ticketNumber != null ? String(req.body.ticketNumber).trim() : '';
+    if (!ticketNumber) {
+      return res.status(400).json({ error: 'Ticket number is required' });
+    }
+    const ticketSystem = (req.body.ticketSystem && String(req.body.ticketSystem).trim()) || DEFAULT_TICKET_SYSTEM;
+
+    const asset = await prisma.asset.findUnique({ where: { id: req.params.assetId }, select: assetSelect });
+    if (!asset) {
+      return res.status(404).json({ error: 'Asset not found' });
+    }
+
+    const ticket = await prisma.assetTicket.create({
+      data: { ...pickTicketFields(req.body), ticketNumber, ticketSystem, assetId: asset.id },
+    });
+    res.status(201).json(ticket);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      const linked = await prisma.assetTicket.findFirst({
+        where: {
+          ticketNumber: String(req.body.ticketNumber).trim(),
+          ticketSystem: (req.body.ticketSystem && String(req.body.ticketSystem).trim()) || DEFAULT_TICKET_SYSTEM,
+        },
+        include: { asset: { select: assetSelect } },
+      });
+      return res.status(409).json({
+        error: `Ticket is already linked to asset ${linked?.asset.assetTag ?? 'another asset'}`,
+      });
+    }
+    logger.error('Error linking ticket:', error);
+    res.status(500).json({ error: 'Failed to link ticket' });
+  }
+});
+
+// PUT /api/tickets/:id - Update a linked ticket's details
+router.put('/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.assetTicket.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    const data: Record<string, any> = pickTicketFields(req.body);
+    if (req.body.ticketNumber !== undefined) {
+      const ticketNumber = String(req.body.ticketNumber).trim();
+      if (!ticketNumber) {
+        return res.status(400).json({ error: 'Ticket number cannot be empty' });
+      }
+      data.ticketNumber = ticketNumber;
+    }
+    if (req.body.ticketSystem !== undefined) {
+      data.ticketSystem = String(req.body.ticketSystem).trim() || DEFAULT_TICKET_SYSTEM;
+    }
+
+    const ticket = await prisma.assetTicket.update({ where: { id: existing.id }, data });
+    res.json(ticket);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ error: 'Another ticket with this number already exists' });
+    }
+    logger.error('Error updating ticket:', error);
+    res.status(500).json({ error: 'Failed to update ticket' });
+  }
+});
+
+// DELETE /api/tickets/:id - Unlink a ticket from its asset
+router.delete('/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.assetTicket.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    await prisma.assetTicket.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting ticket:', error);
+    res.status(500).json({ error: 'Failed to delete ticket' });
+  }
+});
+
+export default router;
@@ -230,21 +230,10 @@ router.get('/staff-with-assets', requireRole([USER_ROLES.ADMIN]), async (req: Re
     
     if (search || department || (userType && userType !== 'all')) {
       try {
-        // Import graphService instance to get staff details
-        const { graphService } = await import('../services/graphService.js');
-        
-        // Get staff details for all staff members to apply filters
-        const staffDetailsPromises = staffAadIds.map(async (aadId) => {
-          try {
-            const staff = await graphService.getStaffMember(aadId);
-            return { aadId, staff };
-          } catch (error) {
-            logger.warn(`Failed to get details for staff ${aadId}:`, error);
-            return { aadId, staff: null };
-          }
-        });
-        
-        const staffDetailsResults = await Promise.all(staffDetailsPromises);
+        // Staff details come from the stored directory in one batch
+        const { lookupStaff } = await import('../services/staffDirectoryService.js');
+        const staffByAadId = await lookupStaff(staffAadIds);
+        const staffDetailsResults = staffAadIds.map((aadId) => ({ aadId, staff: staffByAadId.get(aadId) ?? null }));
         
         // Apply filters
         filteredStaffAadIds = staffDetailsResults
@@ -259,12 +248,12 @@ router.get('/staff-with-assets', requireRole([USER_ROLES.ADMIN]), async (req: Re
             const searchLower = search ? (search as string).toLowerCase() : null;
 
             if (!staff) {
-              // No details from Graph. Only match against the ID string itself.
+              // No directory details. Only match against the ID string itself.
               // If only a department filter is active, we can't match, so drop it.
               return searchLower ? aadId.toLowerCase().includes(searchLower) : !department;
             }
 
-            // We have staff details from Graph.
+            // We have staff details from the directory.
             let matchesSearch = true;
             if (searchLower) {
               matchesSearch =
@@ -284,7 +273,7 @@ router.get('/staff-with-assets', requireRole([USER_ROLES.ADMIN]), async (req: Re
           })
           .map(({ aadId }) => aadId);
       } catch (error) {
-        logger.error('Error filtering staff with Graph API:', error);
+        logger.error('Error filtering staff by directory details:', error);
         // If filtering fails, return original list
         filteredStaffAadIds = staffAadIds;
       }
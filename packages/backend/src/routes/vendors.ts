@@ -3,13 +3,36 @@ import type { Request, Response } from 'express';
 import prisma from '../services/database.js';
 import { authenticateJwt, requireRole } from '../middleware/auth.js';
 import logger from '../utils/logger.js';
-import { USER_ROLES } from '../constants/index.js';
+import { USER_ROLES, ACTIVITY_ACTIONS, ENTITY_TYPES } from '../constants/index.js';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticateJwt);
 
+// Fields a client may set on a vendor
+const VENDOR_FIELDS = ['name', 'contactName', 'email', 'phone', 'website', 'address', 'notes', 'isActive'] as const;
+
+// Warranties ending within this many days count as "expiring soon"
+const WARRANTY_EXPIRING_DAYS = 90;
+
+// Helper function to log activity
+async function logActivity(userId: string, action: string, entityId: string, changes: any) {
+  try {
+    await prisma.activityLog.create({
+      data: {
+        userId,
+        action,
+        entityType: ENTITY_TYPES.VENDOR,
+        entityId,
+        changes: JSON.stringify(changes).slice(0, 3900),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to log activity:', error);
+  }
+}
+
 // GET /api/vendors - Get all vendors
 router.get('/', async (req: Request, res: Response) => {
   try {
@@ -95,11 +118,135 @@ router.post('/', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req:
   }
 });
 
+// GET /api/vendors/stats - Asset count, spend and warranty breakdown per vendor
+router.get('/stats', async (_req: Request, res: Response) => {
+  try {
+    const now = new Date();
+    const soon = new Date(now.getTime() + WARRANTY_EXPIRING_DAYS * 24 * 60 * 60 * 1000);
+    const withVendor = { vendorId: { not: null } };
+
+    const [totals, expired, expiringSoon, active] = await Promise.all([
+      prisma.asset.groupBy({
+        by: ['vendorId'],
+        where: withVendor,
+        _count: { _all: true },
+        _sum: { purchasePrice: true },
+      }),
+      prisma.asset.groupBy({
+        by: ['vendorId'],
+        where: { ...withVendor, warrantyEndDate: { lt: now } },
+        _count: { _all: true },
+      }),
+      prisma.asset.groupBy({
+        by: ['vendorId'],
+        where: { ...withVendor, warrantyEndDate: { gte: now, lte: soon } },
+        _count: { _all: true },
+      }),
+      prisma.asset.groupBy({
+        by: ['vendorId'],
+        where: { ...withVendor, warrantyEndDate: { gt: soon } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const countFor = (rows: { vendorId: string | null; _count: { _all: number } }[], vendorId: string | null) =>
+      rows.find((r) => r.vendorId === vendorId)?._count._all ?? 0;
+
+    const stats = totals.map((row) => {
+      const expiredCount = countFor(expired, row.vendorId);
+      const expiringCount = countFor(expiringSoon, row.vendorId);
+      const activeCount = countFor(active, row.vendorId);
+      return {
+        vendorId: row.vendorId,
+        assetCount: row._count._all,
+        totalSpend: Number(row._sum.purchasePrice ?? 0),
+        warranty: {
+          expired: expiredCount,
+          expiringSoon: expiringCount,
+          active: activeCount,
+          unknown: row._count._all - expiredCount - expiringCount - activeCount,
+        },
+      };
+    });
+
+    res.json({ expiringWithinDays: WARRANTY_EXPIRING_DAYS, vendors: stats });
+  } catch (error) {
+    logger.error('Error fetching vendor stats:', error);
+    res.status(500).json({ error: 'Failed to fetch vendor stats' });
+  }
+});
+
+// POST /api/vendors/merge - Move all assets from duplicate vendors into one (requires ADMIN)
+router.post('/merge', requireRole([USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.userId || (req as any).user?.dbUser?.id;
+    const { targetId, sourceIds } = req.body as { targetId?: string; sourceIds?: string[] };
+
+    if (!targetId || !Array.isArray(sourceIds) || sourceIds.length === 0) {
+      return res.status(400).json({ error: 'targetId and a non-empty sourceIds array are required' });
+    }
+    if (sourceIds.includes(targetId)) {
+      return res.status(400).json({ error: 'Target vendor cannot also be a source' });
+    }
+
+    const [target, sources] = await Promise.all([
+      prisma.vendor.findUnique({ where: { id: targetId } }),
+      prisma.vendor.findMany({ where: { id: { in: sourceIds } }, select: { id: true, name: true } }),
+    ]);
+
+    if (!target) {
+      return res.status(404).json({ error: 'Target vendor not found' });
+    }
+    if (sources.length !== sourceIds.length) {
+      return res.status(404).json({ error: 'One or more source vendors not found' });
+    }
+
+    // Duplicates are deactivated rather than deleted so old references stay resolvable
+    const [reassigned] = await prisma.$transaction([
+      prisma.asset.updateMany({
+        where: { vendorId: { in: sourceIds } },
+        data: { vendorId: targetId },
+      }),
+      prisma.vendor.updateMany({
+        where: { id: { in: sourceIds } },
+        data: { isActive: false },
+      }),
+      ...(target.isActive ? [] : [prisma.vendor.update({ where: { id: targetId }, data: { isActive: true } })]),
+    ]);
+
+    if (userId) {
+      await logActivity(userId, ACTIVITY_ACTIONS.MERGE, targetId, {
+        description: `Merged ${sources.map((s) => s.name).join(', ')} into ${target.name}`,
+        mergedVendors: sources,
+        assetsReassigned: reassigned.count,
+      });
+    }
+
+    res.json({ targetId, mergedVendorIds: sourceIds, assetsReassigned: reassigned.count });
+  } catch (error) {
+    logger.error('Error merging vendors:', error);
+    res.status(500).json({ error: 'Failed to merge vendors' });
+  }
+});
+
 // PUT /api/vendors/:id - Update vendor (requires WRITE)
 router.put('/:id', requireRole([USER_ROLES.WRITE, USER_ROLES.ADMIN]), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const updates = req.body;
+    const updates: Record<string, any> = {};
+    for (const field of VENDOR_FIELDS) {
+      if (req.body[field] !== undefined) updates[field] = req.body[field];
+    }
+
+    if (updates.name !== undefined) {
+      if (!updates.name) {
+        return res.status(400).json({ error: 'Vendor name is required' });
+      }
+      const existing = await prisma.vendor.findUnique({ where: { name: updates.name } });
+      if (existing && existing.id !== id) {
+        return res.status(400).json({ error: 'Vendor already exists' });
+      }
+    }
 
     const vendor = await prisma.vendor.update({
       where: { id },
@@ -2,10 +2,10 @@ import prisma from '../services/database';
 import logger from '../utils/logger';
 
 // One-time backfill: create ExternalSourceLink entries for existing assets
-// Supported sources: NINJAONE, NINJAONE_SERVERS, TELUS, ROGERS
+// Supported sources: NINJAONE, NINJAONE_SERVERS, TELUS, ROGERS, BELL, VERIZON, EXCETEL, INTUNE
 
 async function main() {
-  const supportedSources = new Set(['NINJAONE', 'NINJAONE_SERVERS', 'TELUS', 'ROGERS']);
+  const supportedSources = new Set(['NINJAONE', 'NINJAONE_SERVERS', 'TELUS', 'ROGERS', 'BELL', 'VERIZON', 'EXCETEL', 'INTUNE']);
   const now = new Date();
 
   const assets = await prisma.asset.findMany({
@@ -58,7 +58,7 @@ async function cleanupOrphanedLinks() {
     const assetsWithSerials = await prisma.asset.findMany({
       where: {
         serialNumber: { not: null },
-        source: { in: ['ROGERS', 'TELUS', 'NINJAONE', 'NINJAONE_SERVERS'] }
+        source: { in: ['ROGERS', 'TELUS', 'BELL', 'VERIZON', 'EXCETEL', 'NINJAONE', 'NINJAONE_SERVERS', 'INTUNE'] }
       },
       select: {
         id: true,
@@ -1,7 +1,7 @@
 #!/usr/bin/env ts-node
 
 import { PrismaClient } from '../generated/prisma/index.js';
-import { graphService } from '../services/graphService.js';
+import { getDirectoryProvider } from '../services/directoryService.js';
 import logger from '../utils/logger.js';
 
 const prisma = new PrismaClient();
@@ -11,7 +11,7 @@ async function syncLocationsFromAzureAD() {
     logger.info('Starting location sync from Azure AD...');
     
     // Fetch distinct locations from Azure AD
-    const azureLocations = await graphService.getDistinctLocations();
+    const azureLocations = await getDirectoryProvider().getDistinctLocations();
     logger.info(`Found ${azureLocations.length} distinct locations in Azure AD`);
     
     let created = 0;
@@ -6,6 +6,12 @@ import config from './config/index';
 import type { Request, Response } from 'express';
 import logger from './utils/logger';
 import { connectDatabase } from './services/database';
+import { startScheduler } from './services/scheduleService';
+import { startLifecycleEvaluator } from './services/lifecycleAlertService';
+import { startLeaverCheck } from './services/leaverService';
+import { startStaffDirectorySync } from './services/staffDirectoryService';
+import { startImportWorker } from './services/importJobService';
+import { loadImportSourceDefinitions } from './services/importSourceService';
 
 import healthRouter from './routes/health';
 import assetsRouter from './routes/assets';
@@ -19,6 +25,16 @@ import staffRouter from './routes/staff';
 import workloadCategoriesRouter from './routes/workloadCategories';
 import importRouter from './routes/import';
 import invoiceRouter from './routes/invoice';
+import custodyRouter from './routes/custody';
+import reportsRouter from './routes/reports';
+import savedViewsRouter from './routes/savedViews';
+import reportSchedulesRouter from './routes/reportSchedules';
+import lifecycleRouter from './routes/lifecycle';
+import attachmentsRouter from './routes/attachments';
+import ticketsRouter from './routes/tickets';
+import importSourcesRouter from './routes/importSources';
+import mappingTemplatesRouter from './routes/mappingTemplates';
+import reconciliationRouter from './routes/reconciliation';
 import { initAuth, authenticateJwt } from './middleware/auth';
 import { errorHandler } from './middleware/errorHandler';
 
@@ -64,6 +80,16 @@ app.use('/api/staff', staffRouter);
 app.use('/api/workload-categories', workloadCategoriesRouter);
 app.use('/api/import', importRouter);
 app.use('/api/invoice', invoiceRouter);
+app.use('/api/custody', custodyRouter);
+app.use('/api/reports', reportsRouter);
+app.use('/api/saved-views', savedViewsRouter);
+app.use('/api/report-schedules', reportSchedulesRouter);
+app.use('/api/lifecycle', lifecycleRouter);
+app.use('/api/attachments', attachmentsRouter);
+app.use('/api/tickets', ticketsRouter);
+app.use('/api/import-sources', importSourcesRouter);
+app.use('/api/mapping-templates', mappingTemplatesRouter);
+app.use('/api/reconciliation', reconciliationRouter);
 
 // Protected route example
 app.get('/api/protected', authenticateJwt, (req: Request, res: Response) => {
@@ -88,12 +114,33 @@ async function startServer() {
     
     // Connect to database first
     await connectDatabase();
+
+    // Register admin-defined import sources with the shared transformation registry
+    try {
+      const loaded = await loadImportSourceDefinitions();
+      logger.info(`Loaded ${loaded} import source definition(s)`);
+    } catch (error) {
+      logger.error('Failed to load import source definitions', error);
+    }
     
     // Start Express server
     const server = app.listen(port, '0.0.0.0', () => {
       logger.info(`Backend running on http://0.0.0.0:${port}`);
     });
 
+    // Start polling for due report schedules, lifecycle alerts, directory changes and the leaver check
+    if (config.scheduler.enabled) {
+      startScheduler();
+      startLifecycleEvaluator();
+      startStaffDirectorySync();
+      startLeaverCheck();
+    }
+
+    // Process queued import jobs, resuming any left running by a crashed instance
+    if (config.importJobs.workerEnabled) {
+      startImportWorker();
+    }
+
     // Handle server errors
     server.on('error', (error: any) => {
       if (error.code === 'EADDRINUSE') {
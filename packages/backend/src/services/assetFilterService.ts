@@ -0,0 +1,503 @@
+import prisma from './database';
+import { Prisma } from '../generated/prisma';
+import { openTicketWhere } from './ticketService';
+
+const listParam = (value: any): string[] => {
+  if (!value) return [];
+  const values = Array.isArray(value) ? value : String(value).split(',');
+  return values.map((v) => String(v).trim()).filter(Boolean);
+};
+
+// Columns an asset list can be ordered by; assignedToName is handled by findAssigneePage
+const SORT_COLUMNS = new Set<string>(Object.values(Prisma.AssetScalarFieldEnum));
+
+// LIKE pattern matching `value` anywhere, with SQL Server wildcards taken literally
+const containsPattern = (value: string) => `%${value.replace(/[[%_]/g, '[$&]')}%`;
+
+// Order for an asset list sort key that is an Asset column
+export function buildAssetOrderBy(sortBy: string, sortOrder: string): Prisma.AssetOrderByWithRelationInput {
+  return { [sortBy]: sortOrder === 'asc' ? 'asc' : 'desc' };
+}
+
+/**
+ * Page of asset ids for queries that need the stored staff directory: `sortBy=assignedToName`,
+ * `assigneeDepartment`/`assigneeOffice` (comma-separated), `assigneeManager` (a manager's
+ * directory id) or `search`, which also matches assignee names. assignedToAadId is a plain
+ * column (imports keep unresolved usernames in it), so the directory is joined in raw SQL.
+ * The other filters are applied by Prisma first and handed over as one JSON parameter, which
+ * keeps the statement under SQL Server's 2100 parameter cap. Returns null when the query
+ * does not touch the directory; callers then page with buildAssetWhere/buildAssetOrderBy.
+ */
+export async function findAssigneePage(
+  query: Record<string, any>,
+  options: { sortBy: string; sortOrder: string; skip: number; take: number }
+): Promise<{ ids: string[]; total: number } | null> {
+  const departments = listParam(query.assigneeDepartment);
+  const offices = listParam(query.assigneeOffice);
+  const manager = query.assigneeManager ? String(query.assigneeManager) : null;
+  const search = query.search ? String(query.search) : null;
+  if (options.sortBy !== 'assignedToName' && !departments.length && !offices.length && !manager && !search) {
+    return null;
+  }
+
+  const { search: _search, ...filters } = query;
+  const candidates = await prisma.asset.findMany({ where: buildAssetWhere(filters), select: { id: true } });
+  if (candidates.length === 0) return { ids: [], total: 0 };
+
+  const conditions = [Prisma.sql`a.id IN (SELECT value FROM OPENJSON(${JSON.stringify(candidates.map((a) => a.id))}))`];
+  if (search) {
+    // Assets matching on their own columns, or whose assignee's name matches
+    const matches = await prisma.asset.findMany({ where: buildAssetWhere(query), select: { id: true } });
+    conditions.push(
+      Prisma.sql`(a.id IN (SELECT value FROM OPENJSON(${JSON.stringify(matches.map((a) => a.id))})) OR s.displayName LIKE ${containsPattern(search)})`
+    );
+  }
+  if (departments.length) {
+    conditions.push(Prisma.sql`s.department IN (SELECT value FROM OPENJSON(${JSON.stringify(departments)}))`);
+  }
+  if (offices.length) {
+    conditions.push(Prisma.sql`s.officeLocation IN (SELECT value FROM OPENJSON(${JSON.stringify(offices)}))`);
+  }
+  if (manager) {
+    conditions.push(Prisma.sql`s.managerAadId = ${manager}`);
+  }
+
+  // Ascending, assets without a directory assignee come first, then by the local user's name
+  const direction = Prisma.raw(options.sortOrder === 'asc' ? 'ASC' : 'DESC');
+  const orderBy =
+    options.sortBy === 'assignedToName'
+      ? Prisma.sql`s.displayName ${direction}, u.displayName ${direction}, a.assetTag ASC`
+      : Prisma.sql`${Prisma.raw(`a.[${SORT_COLUMNS.has(options.sortBy) ? options.sortBy : 'createdAt'}]`)} ${direction}, a.id ASC`;
+
+  const from = Prisma.sql`
+    FROM [Asset] a
+    LEFT JOIN [StaffDirectoryEntry] s ON s.aadId = a.assignedToAadId
+    LEFT JOIN [User] u ON u.id = a.assignedToId
+    WHERE ${Prisma.join(conditions, ' AND ')}`;
+  const [rows, counted] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: string }>>`SELECT a.id ${from} ORDER BY ${orderBy} OFFSET ${options.skip} ROWS FETCH NEXT ${options.take} ROWS ONLY`,
+    prisma.$queryRaw<Array<{ total: number }>>`SELECT COUNT(*) AS total ${from}`,
+  ]);
+  return { ids: rows.map((r) => r.id), total: Number(counted[0]?.total ?? 0) };
+}
+
+/**
+ * Translate asset list query parameters (the same ones `GET /api/assets` accepts)
+ * into a Prisma where clause. Shared by the asset list and scheduled saved-view runs.
+ * Filters and search terms that need the staff directory are applied by findAssigneePage.
+ */
+export function buildAssetWhere(query: Record<string, any>): Prisma.AssetWhereInput {
+  const {
+    search,
+    status,
+    condition,
+    assetType,
+    departmentId,
+    locationId,
+    assignedToId,
+    assignedToAadId,
+    assignedTo, // Generic parameter that can be either ID or AAD ID
+    workloadCategoryId, // Filter by workload category
+    dateFrom,
+    dateTo,
+    // Specification filters
+    processor,
+    ram,
+    ramMin,
+    ramMax,
+    storage,
+    storageMin,
+    storageMax,
+    operatingSystem,
+    // Hardware filters
+    make,
+    model,
+    serialNumber,
+    // Financial filters
+    purchasePriceMin,
+    purchasePriceMax,
+    purchaseDateFrom,
+    purchaseDateTo,
+    // Warranty filters
+    warrantyStartFrom,
+    warrantyStartTo,
+    warrantyEndFrom,
+    warrantyEndTo,
+    warrantyStatus,
+    // Vendor and source filters
+    vendorId,
+    source,
+    // Asset identification
+    assetTag,
+    missingSource,
+    // Helpdesk linkage
+    hasOpenTickets,
+  } = query;
+
+  // Build where clause
+  const where: Prisma.AssetWhereInput = {} as any;
+
+  // Search functionality
+  if (search) {
+    const searchStr = search as string;
+    where.OR = [
+      { assetTag: { contains: searchStr } },
+      { make: { contains: searchStr } },
+      { model: { contains: searchStr } },
+      { serialNumber: { contains: searchStr } },
+      { notes: { contains: searchStr } },
+      // Search within custom field values
+      {
+        customFieldValues: {
+          some: {
+            value: {
+              contains: searchStr,
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  // Helper function to handle array or single value filters
+  const handleArrayFilter = (value: any): string | { in: string[] } | undefined => {
+    if (!value) return undefined;
+    if (typeof value === 'string') {
+      // Check if it's a comma-separated list
+      if (value.includes(',')) {
+        return { in: value.split(',').map(v => v.trim()) };
+      }
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.length === 1 ? value[0] : { in: value };
+    }
+    return value;
+  };
+
+  // Filters
+  if (status) {
+    const statusFilter = handleArrayFilter(status);
+    if (statusFilter) {
+      where.status = statusFilter;
+    }
+  }
+  if (condition) {
+    const conditionFilter = handleArrayFilter(condition);
+    if (conditionFilter) {
+      where.condition = conditionFilter;
+    }
+  }
+  if (assetType) {
+    const assetTypeFilter = handleArrayFilter(assetType);
+    if (assetTypeFilter) {
+      where.assetType = assetTypeFilter;
+    }
+  }
+  if (departmentId) {
+    const departmentFilter = handleArrayFilter(departmentId);
+    if (departmentFilter) {
+      where.departmentId = departmentFilter;
+    }
+  }
+  if (locationId) {
+    const locationFilter = handleArrayFilter(locationId);
+    if (locationFilter) {
+      where.locationId = locationFilter;
+    }
+  }
+  
+  // Hardware filters
+  if (make) {
+    const makeFilter = handleArrayFilter(make);
+    if (makeFilter) {
+      where.make = makeFilter;
+    }
+  }
+  if (model) {
+    where.model = { contains: model as string };
+  }
+  if (serialNumber) {
+    where.serialNumber = { contains: serialNumber as string };
+  }
+  if (assetTag) {
+    where.assetTag = { contains: assetTag as string };
+  }
+  
+  // Source filter
+  if (source) {
+    const sourceFilter = handleArrayFilter(source);
+    if (sourceFilter) {
+      where.source = sourceFilter;
+    }
+  }
+  
+  // Vendor filter
+  if (vendorId) {
+    const vendorFilter = handleArrayFilter(vendorId);
+    if (vendorFilter) {
+      where.vendorId = vendorFilter;
+    }
+  }
+
+  // Missing by source filter (assets missing from a specific external source)
+  if (missingSource) {
+    (where as any).externalSourceLinks = {
+      some: {
+        sourceSystem: String(missingSource).toUpperCase(),
+        isPresent: false,
+      }
+    };
+  }
+  
+  // Assets with (or without) a linked helpdesk ticket that is still open
+  if (hasOpenTickets === 'true' || hasOpenTickets === true) {
+    where.tickets = { some: openTicketWhere };
+  } else if (hasOpenTickets === 'false' || hasOpenTickets === false) {
+    where.tickets = { none: openTicketWhere };
+  }
+  
+  // Financial filters
+  if (purchasePriceMin || purchasePriceMax) {
+    where.purchasePrice = {};
+    if (purchasePriceMin) {
+      where.purchasePrice.gte = parseFloat(purchasePriceMin as string);
+    }
+    if (purchasePriceMax) {
+      where.purchasePrice.lte = parseFloat(purchasePriceMax as string);
+    }
+  }
+  
+  // Purchase date range
+  if (purchaseDateFrom || purchaseDateTo) {
+    where.purchaseDate = {};
+    if (purchaseDateFrom) {
+      where.purchaseDate.gte = new Date(purchaseDateFrom as string);
+    }
+    if (purchaseDateTo) {
+      where.purchaseDate.lte = new Date(purchaseDateTo as string);
+    }
+  }
+  
+  // Warranty filters
+  if (warrantyStartFrom || warrantyStartTo) {
+    where.warrantyStartDate = {};
+    if (warrantyStartFrom) {
+      where.warrantyStartDate.gte = new Date(warrantyStartFrom as string);
+    }
+    if (warrantyStartTo) {
+      where.warrantyStartDate.lte = new Date(warrantyStartTo as string);
+    }
+  }
+  
+  if (warrantyEndFrom || warrantyEndTo) {
+    where.warrantyEndDate = {};
+    if (warrantyEndFrom) {
+      where.warrantyEndDate.gte = new Date(warrantyEndFrom as string);
+    }
+    if (warrantyEndTo) {
+      where.warrantyEndDate.lte = new Date(warrantyEndTo as string);
+    }
+  }
+  
+  // Warranty status filter
+  if (warrantyStatus) {
+    const now = new Date();
+    const thirtyDaysFromNow = new Date(now.getTime() + (30 * 24 * 60 * 60 * 1000));
+    
+    if (warrantyStatus === 'active') {
+      where.warrantyEndDate = { gte: now };
+    } else if (warrantyStatus === 'expired') {
+      where.warrantyEndDate = { lt: now };
+    } else if (warrantyStatus === 'expiring_soon') {
+      where.AND = [
+        { warrantyEndDate: { gte: now } },
+        { warrantyEndDate: { lte: thirtyDaysFromNow } }
+      ];
+    }
+  }
+  
+  // Specification filters using JSON operations
+  const specFilters: any[] = [];
+  
+  if (processor) {
+    specFilters.push({
+      OR: [
+        { processor: { contains: processor as string } },
+        { 
+          specifications: {
+            path: ['processor'],
+            string_contains: processor as string
+          }
+        }
+      ]
+    });
+  }
+  
+  if (ram) {
+    specFilters.push({
+      OR: [
+        { ram: { contains: ram as string } },
+        { 
+          specifications: {
+            path: ['ram'],
+            string_contains: ram as string
+          }
+        }
+      ]
+    });
+  }
+  
+  if (ramMin || ramMax) {
+    // Extract numeric value from RAM strings for comparison
+    if (ramMin) {
+      const ramMinStr = ramMin as string;
+      specFilters.push({
+        OR: [
+          { ram: { contains: `${ramMinStr}GB` } },
+          { ram: { contains: `${parseInt(ramMinStr) * 1024}MB` } }
+        ]
+      });
+    }
+    if (ramMax) {
+      const ramMaxStr = ramMax as string;
+      specFilters.push({
+        OR: [
+          { ram: { contains: `${ramMaxStr}GB` } },
+          { ram: { contains: `${parseInt(ramMaxStr) * 1024}MB` } }
+        ]
+      });
+    }
+  }
+  
+  if (storage) {
+    specFilters.push({
+      OR: [
+        { storage: { contains: storage as string } },
+        { 
+          specifications: {
+            path: ['storage'],
+            string_contains: storage as string
+          }
+        }
+      ]
+    });
+  }
+  
+  if (storageMin || storageMax) {
+    // Similar logic for storage filtering
+    if (storageMin) {
+      const storageMinStr = storageMin as string;
+      specFilters.push({
+        OR: [
+          { storage: { contains: `${storageMinStr}GB` } },
+          { storage: { contains: `${parseInt(storageMinStr) / 1024}TB` } }
+        ]
+      });
+    }
+    if (storageMax) {
+      const storageMaxStr = storageMax as string;
+      specFilters.push({
+        OR: [
+          { storage: { contains: `${storageMaxStr}GB` } },
+          { storage: { contains: `${parseInt(storageMaxStr) / 1024}TB` } }
+        ]
+      });
+    }
+  }
+  
+  if (operatingSystem) {
+    const osFilter = handleArrayFilter(operatingSystem);
+    if (osFilter) {
+      specFilters.push({
+        OR: [
+          { operatingSystem: osFilter },
+          { 
+            specifications: {
+              path: ['operatingSystem'],
+              string_contains: typeof osFilter === 'string' ? osFilter : (osFilter as any).in[0]
+            }
+          }
+        ]
+      });
+    }
+  }
+  
+  // Add specification filters to the main where clause
+  if (specFilters.length > 0) {
+    if (!where.AND) {
+      where.AND = [];
+    }
+    (where.AND as any[]).push(...specFilters);
+  }
+  
+  // Handle assignment filters - support both legacy and new parameters
+  if (assignedToId) {
+    where.assignedToId = assignedToId as string;
+  }
+  if (assignedToAadId) {
+    where.assignedToAadId = assignedToAadId as string;
+  }
+  // Generic assignedTo parameter - try to detect if it's a UUID (AAD ID) or internal ID
+  if (assignedTo) {
+    const assignedToStr = assignedTo as string;
+    // Check if it looks like a UUID (Azure AD ID format)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (uuidRegex.test(assignedToStr)) {
+      where.assignedToAadId = assignedToStr;
+    } else {
+      // It's not a UUID, so it could be a non-AD user identifier or a legacy internal ID.
+      // For backward compatibility, we check both fields.
+      where.OR = [
+        { assignedToAadId: assignedToStr },
+        { assignedToId: assignedToStr }
+      ];
+    }
+  }
+
+  // Date range filters
+  if (dateFrom || dateTo) {
+    where.createdAt = {};
+    if (dateFrom) {
+      where.createdAt.gte = new Date(dateFrom as string);
+    }
+    if (dateTo) {
+      where.createdAt.lte = new Date(dateTo as string);
+    }
+  }
+
+  // Workload category filter
+  if (workloadCategoryId) {
+    where.workloadCategories = {
+      some: {
+        categoryId: workloadCategoryId as string,
+      },
+    };
+  }
+
+  // Custom field exact match filters: cf_<fieldId>=value
+  const cfFilters: Prisma.AssetWhereInput[] = [];
+  Object.entries(query).forEach(([key, val]) => {
+    if (key.startsWith('cf_') && val) {
+      const fieldId = key.slice(3);
+      cfFilters.push({
+        customFieldValues: {
+          some: {
+            fieldId,
+            value: String(val),
+          },
+        },
+      });
+    }
+  });
+  if (cfFilters.length) {
+    if (!where.AND) {
+      // @ts-ignore
+      where.AND = [];
+    }
+    // @ts-ignore push into where.AND array
+    (where.AND as any[]).push(...cfFilters);
+  }
+
+  return where;
+}
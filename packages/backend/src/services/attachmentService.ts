@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import prisma from './database';
+import type { Prisma } from '../generated/prisma';
+import logger from '../utils/logger';
+import config from '../config/index';
+import { getStorageAdapter } from './storageService';
+
+const THUMBNAIL_SIZE = 320;
+
+// Image types sharp can decode for thumbnails
+const THUMBNAIL_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export const maxAttachmentBytes = () => config.attachments.maxFileSizeMb * 1024 * 1024;
+
+export const isAllowedAttachmentType = (mimeType: string): boolean =>
+  config.attachments.allowedTypes.includes(mimeType.toLowerCase());
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Keep names readable but safe to use as a storage key segment
+function sanitizeFileName(name: string): string {
+  const base = path.basename(name || 'file').replace(/[^\w.\- ]+/g, '_').trim();
+  return base.slice(-150) || 'file';
+}
+
+async function createThumbnail(file: UploadedFile): Promise<Buffer | null> {
+  if (!THUMBNAIL_TYPES.includes(file.mimetype)) return null;
+  try {
+    return await sharp(file.buffer)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+  } catch (error) {
+    logger.warn(`Could not create thumbnail for ${file.originalname}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store an uploaded file (and a thumbnail for images) and record it against the asset.
+ */
+export async function saveAttachment(assetId: string, file: UploadedFile, userId: string, description?: string) {
+  const storage = getStorageAdapter();
+  const fileName = sanitizeFileName(file.originalname);
+  const prefix = `assets/${assetId}/${crypto.randomUUID()}`;
+  const storageKey = `${prefix}/${fileName}`;
+
+  await storage.put(storageKey, file.buffer, file.mimetype);
+
+  const thumbnail = await createThumbnail(file);
+  const thumbnailKey = thumbnail ? `${prefix}/thumbnail.webp` : null;
+  if (thumbnail && thumbnailKey) {
+    await storage.put(thumbnailKey, thumbnail, 'image/webp');
+  }
+
+  try {
+    return await prisma.attachment.create({
+      data: {
+        assetId,
+        fileName,
+        fileType: file.mimetype,
+        fileSize: file.size,
+        storageUrl: storageKey,
+        thumbnailUrl: thumbnailKey,
+        description: description?.trim().slice(0, 500) || null,
+        uploadedBy: userId,
+      },
+    });
+  } catch (error) {
+    // Don't leave orphaned files behind when the record can't be written
+    await removeStoredFiles([storageKey, thumbnailKey]);
+    throw error;
+  }
+}
+
+export async function removeStoredFiles(keys: (string | null | undefined)[]): Promise<void> {
+  const storage = getStorageAdapter();
+  for (const key of keys) {
+    if (!key) continue;
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      logger.warn(`Failed to delete stored file ${key}:`, error);
+    }
+  }
+}
+
+// Storage keys for every attachment of the matching assets; collect these before deleting assets
+// (attachment records cascade with the asset) and pass them to removeStoredFiles afterwards
+export async function getAttachmentKeys(assets: Prisma.AssetWhereInput): Promise<string[]> {
+  const attachments = await prisma.attachment.findMany({
+    where: { asset: assets },
+    select: { storageUrl: true, thumbnailUrl: true },
+  });
+  return attachments.flatMap((a) => (a.thumbnailUrl ? [a.storageUrl, a.thumbnailUrl] : [a.storageUrl]));
+}
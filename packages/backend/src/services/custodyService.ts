@@ -0,0 +1,98 @@
+import prisma from './database';
+import { getStaffMember } from './staffDirectoryService';
+import logger from '../utils/logger';
+import { Prisma } from '../generated/prisma';
+
+export interface CustodyHolder {
+  holderUserId?: string | null;
+  holderAadId?: string | null;
+}
+
+interface AssignmentSnapshot {
+  id: string;
+  assignedToId: string | null;
+  assignedToAadId: string | null;
+  condition: string;
+}
+
+// Resolve a display name snapshot so history stays readable after staff leave
+export async function resolveHolderName(holder: CustodyHolder): Promise<string | null> {
+  if (holder.holderUserId) {
+    const user = await prisma.user.findUnique({
+      where: { id: holder.holderUserId },
+      select: { displayName: true },
+    });
+    return user?.displayName ?? null;
+  }
+
+  if (holder.holderAadId) {
+    try {
+      const staff = await getStaffMember(holder.holderAadId);
+      return staff?.displayName ?? null;
+    } catch (error) {
+      logger.warn(`Could not resolve staff name for custody holder ${holder.holderAadId}:`, error);
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Keeps custody history in step with assignment edits made through PUT/PATCH, bulk
+ * updates and imports instead of the check-out/check-in endpoints: the open record is
+ * closed and, if the asset still has a holder, a new one is opened for them. Pass `db`
+ * to write inside a caller's transaction (imports, including dry runs).
+ */
+export async function syncCustodyWithAssignment(
+  before: AssignmentSnapshot,
+  after: AssignmentSnapshot,
+  userId: string,
+  db: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<void> {
+  const holderChanged =
+    (before.assignedToId ?? null) !== (after.assignedToId ?? null) ||
+    (before.assignedToAadId ?? null) !== (after.assignedToAadId ?? null);
+  if (!holderChanged) return;
+
+  try {
+    const now = new Date();
+    const holder = { holderUserId: after.assignedToId, holderAadId: after.assignedToAadId };
+    const hasHolder = Boolean(after.assignedToId || after.assignedToAadId);
+    const holderName = hasHolder ? await resolveHolderName(holder) : null;
+
+    const writes = async (client: Prisma.TransactionClient) => {
+      await client.assetCustody.updateMany({
+        where: { assetId: after.id, checkedInAt: null },
+        data: {
+          checkedInAt: now,
+          checkedInById: userId,
+          conditionIn: after.condition,
+          checkInNotes: 'Closed by assignment edit',
+        },
+      });
+
+      if (hasHolder) {
+        await client.assetCustody.create({
+          data: {
+            assetId: after.id,
+            ...holder,
+            holderName,
+            checkedOutAt: now,
+            conditionOut: after.condition,
+            checkedOutById: userId,
+            checkOutNotes: 'Opened by assignment edit',
+          },
+        });
+      }
+    };
+
+    if (db === prisma) {
+      await prisma.$transaction(writes);
+    } else {
+      await writes(db);
+    }
+  } catch (error) {
+    logger.error('Failed to sync custody history:', error);
+  }
+}
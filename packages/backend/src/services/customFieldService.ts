@@ -0,0 +1,309 @@
+import prisma from './database';
+import { CUSTOM_FIELD_TYPES, isValidAssetType, isValidCustomFieldType } from '../constants/index';
+import type { CustomField, Prisma } from '../generated/prisma';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const parseJsonArray = (value: string | null): string[] | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+};
+
+// API shape of a definition: options and assetTypes as arrays
+export function serializeCustomField(field: CustomField) {
+  return {
+    ...field,
+    options: parseJsonArray(field.options),
+    assetTypes: parseJsonArray(field.assetTypes),
+  };
+}
+
+export function appliesToAssetType(field: Pick<CustomField, 'assetTypes'>, assetType: string): boolean {
+  const types = parseJsonArray(field.assetTypes);
+  return !types || types.length === 0 || types.includes(assetType);
+}
+
+export function isEmptyCustomFieldValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'number' && Number.isNaN(value)) ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Check one submitted value against its definition and return the string it is stored as.
+ * Select and boolean values are matched loosely (case, yes/no) since imports send free text.
+ */
+export function normalizeCustomFieldValue(
+  field: CustomField,
+  raw: unknown
+): { value: string; error?: undefined } | { value?: undefined; error: string } {
+  const text = typeof raw === 'string' ? raw.trim() : String(raw);
+  const options = parseJsonArray(field.options) ?? [];
+  const matchOption = (v: string) =>
+    options.length === 0 ? v : options.find((o) => o.toLowerCase() === v.trim().toLowerCase());
+
+  switch (field.fieldType) {
+    case CUSTOM_FIELD_TYPES.NUMBER: {
+      const number = typeof raw === 'number' ? raw : Number(text);
+      if (!Number.isFinite(number)) return { error: `${field.name} must be a number` };
+      if (field.minValue != null && number < field.minValue) return { error: `${field.name} must be at least ${field.minValue}` };
+      if (field.maxValue != null && number > field.maxValue) return { error: `${field.name} must be at most ${field.maxValue}` };
+      return { value: String(number) };
+    }
+    case CUSTOM_FIELD_TYPES.DATE:
+      if (Number.isNaN(Date.parse(text))) return { error: `${field.name} must be a date` };
+      return { value: text };
+    case CUSTOM_FIELD_TYPES.BOOLEAN: {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: 'true' };
+      if (FALSE_VALUES.includes(lower)) return { value: 'false' };
+      return { error: `${field.name} must be yes or no` };
+    }
+    case CUSTOM_FIELD_TYPES.SINGLE_SELECT: {
+      const option = matchOption(text);
+      if (!option) return { error: `${field.name} must be one of: ${options.join(', ')}` };
+      return { value: option };
+    }
+    case CUSTOM_FIELD_TYPES.MULTI_SELECT: {
+      let values: string[];
+      if (Array.isArray(raw)) {
+        values = raw.map(String);
+      } else {
+        values = parseJsonArray(text) ?? text.split(',');
+      }
+      const selected: string[] = [];
+      for (const v of values.map((s) => s.trim()).filter(Boolean)) {
+        const option = matchOption(v);
+        if (!option) return { error: `${field.name}: "${v}" is not one of: ${options.join(', ')}` };
+        selected.push(option);
+      }
+      return { value: JSON.stringify(Array.from(new Set(selected))) };
+    }
+    default: {
+      if (field.minLength != null && text.length < field.minLength) {
+        return { error: `${field.name} must be at least ${field.minLength} characters` };
+      }
+      if (field.maxLength != null && text.length > field.maxLength) {
+        return { error: `${field.name} must be at most ${field.maxLength} characters` };
+      }
+      if (field.pattern && !new RegExp(`^(?:${field.pattern})$`).test(text)) {
+        return { error: `${field.name} is not in the expected format` };
+      }
+      return { value: text };
+    }
+  }
+}
+
+const RULES_BY_TYPE = {
+  pattern: [CUSTOM_FIELD_TYPES.STRING],
+  minLength: [CUSTOM_FIELD_TYPES.STRING],
+  maxLength: [CUSTOM_FIELD_TYPES.STRING],
+  minValue: [CUSTOM_FIELD_TYPES.NUMBER],
+  maxValue: [CUSTOM_FIELD_TYPES.NUMBER],
+} satisfies Record<string, string[]>;
+
+type CustomFieldRules = Pick<CustomField, keyof typeof RULES_BY_TYPE>;
+
+const toNumberOrNull = (value: unknown) => (isEmptyCustomFieldValue(value) ? null : Number(value));
+
+/**
+ * Turn a create/update body into CustomField data, checking the rules make sense for the
+ * field type and that the default value passes them. `existing` is the definition being
+ * updated, so partial updates are checked against the full result.
+ */
+export function buildCustomFieldData(
+  input: Record<string, any>,
+  existing?: CustomField
+): { data: Prisma.CustomFieldUncheckedCreateInput; error?: undefined } | { data?: undefined; error: string } {
+  const data: Record<string, any> = {};
+  const has = (key: string) => input[key] !== undefined;
+
+  if (has('name')) data.name = String(input.name).trim();
+  if (has('fieldType')) {
+    if (!isValidCustomFieldType(input.fieldType)) return { error: 'Invalid custom field type' };
+    data.fieldType = input.fieldType;
+  }
+  if (has('isRequired')) data.isRequired = Boolean(input.isRequired);
+  if (has('isActive')) data.isActive = Boolean(input.isActive);
+  if (has('isUnique')) data.isUnique = Boolean(input.isUnique);
+  if (has('options')) data.options = Array.isArray(input.options) && input.options.length ? JSON.stringify(input.options) : null;
+  if (has('pattern')) data.pattern = isEmptyCustomFieldValue(input.pattern) ? null : String(input.pattern);
+  for (const key of ['minValue', 'maxValue', 'minLength', 'maxLength']) {
+    if (!has(key)) continue;
+    const number = toNumberOrNull(input[key]);
+    if (number !== null && !Number.isFinite(number)) return { error: `${key} must be a number` };
+    if (number !== null && (key === 'minLength' || key === 'maxLength') && (!Number.isInteger(number) || number < 0)) {
+      return { error: `${key} must be a whole number of characters` };
+    }
+    data[key] = number;
+  }
+  if (has('assetTypes')) {
+    const types: string[] = Array.isArray(input.assetTypes) ? input.assetTypes : [];
+    const invalid = types.filter((t) => !isValidAssetType(t));
+    if (invalid.length) return { error: `Invalid asset types: ${invalid.join(', ')}` };
+    data.assetTypes = types.length ? JSON.stringify(types) : null;
+  }
+  if (has('displayOrder')) {
+    const order = toNumberOrNull(input.displayOrder) ?? 0;
+    if (!Number.isInteger(order)) return { error: 'displayOrder must be a whole number' };
+    data.displayOrder = order;
+  }
+  if (has('groupName')) data.groupName = isEmptyCustomFieldValue(input.groupName) ? null : String(input.groupName).trim();
+
+  const merged = { ...existing, ...data } as CustomField;
+  if (!merged.name || !merged.fieldType) return { error: 'name and fieldType are required' };
+
+  for (const rule of Object.keys(RULES_BY_TYPE) as (keyof CustomFieldRules)[]) {
+    const types: string[] = RULES_BY_TYPE[rule];
+    if (merged[rule] != null && !types.includes(merged.fieldType)) {
+      return { error: `${rule} does not apply to ${merged.fieldType} fields` };
+    }
+  }
+  if (merged.isUnique && (merged.fieldType === CUSTOM_FIELD_TYPES.BOOLEAN || merged.fieldType === CUSTOM_FIELD_TYPES.MULTI_SELECT)) {
+    return { error: `${merged.fieldType} fields cannot be unique` };
+  }
+  if (merged.minValue != null && merged.maxValue != null && merged.minValue > merged.maxValue) {
+    return { error: 'minValue cannot be greater than maxValue' };
+  }
+  if (merged.minLength != null && merged.maxLength != null && merged.minLength > merged.maxLength) {
+    return { error: 'minLength cannot be greater than maxLength' };
+  }
+  if (merged.pattern) {
+    try {
+      new RegExp(merged.pattern);
+    } catch {
+      return { error: 'pattern is not a valid regular expression' };
+    }
+  }
+
+  if (has('defaultValue')) {
+    data.defaultValue = null;
+    if (!isEmptyCustomFieldValue(input.defaultValue)) {
+      const normalized = normalizeCustomFieldValue(merged, input.defaultValue);
+      if (normalized.error !== undefined) return { error: `Default value: ${normalized.error}` };
+      data.defaultValue = normalized.value;
+    }
+  } else if (existing?.defaultValue) {
+    // The rules may have changed under an existing default; it must still pass them
+    const normalized = normalizeCustomFieldValue(merged, existing.defaultValue);
+    if (normalized.error !== undefined) return { error: `Default value: ${normalized.error}` };
+  }
+
+  return { data: data as Prisma.CustomFieldUncheckedCreateInput };
+}
+
+export interface CustomFieldCheck {
+  values: Record<string, string>;
+  errors: string[];
+}
+
+// Unique values already taken by earlier rows of an import batch, by field id
+export type ClaimedCustomFieldValues = Map<string, Set<string>>;
+
+/**
+ * Validate submitted custom field values for an asset against the active definitions and
+ * return them in stored form. New assets get default values for fields left empty and must
+ * fill required fields that apply to their type, imported ones included. Imports (`fromImport`)
+ * map a column for every row whatever its type, so values for fields that do not apply are
+ * dropped instead of rejected. Import rows run concurrently, so they share
+ * `claimed`: a unique value is claimed before the database is checked, and a later row
+ * of the batch with the same value fails even though the first has not been saved yet.
+ */
+export async function validateAssetCustomFields(options: {
+  assetType: string;
+  values: Record<string, unknown> | null | undefined;
+  assetId?: string;
+  fromImport?: boolean;
+  claimed?: ClaimedCustomFieldValues;
+  db?: Db;
+}): Promise<CustomFieldCheck> {
+  const db = options.db ?? prisma;
+  const submitted = Object.entries(options.values ?? {}).filter(([, value]) => !isEmptyCustomFieldValue(value));
+  const result: CustomFieldCheck = { values: {}, errors: [] };
+  const isNew = !options.assetId;
+  if (submitted.length === 0 && !isNew) return result;
+
+  const fields = await db.customField.findMany({ where: { isActive: true } });
+  const byId = new Map(fields.map((f) => [f.id, f]));
+
+  const unknown = submitted.map(([id]) => id).filter((id) => !byId.has(id));
+  if (unknown.length) {
+    result.errors.push(`Invalid custom field IDs: ${unknown.join(', ')}`);
+    return result;
+  }
+
+  for (const [fieldId, raw] of submitted) {
+    const field = byId.get(fieldId) as CustomField;
+    if (!appliesToAssetType(field, options.assetType)) {
+      if (!options.fromImport) result.errors.push(`${field.name} does not apply to ${options.assetType} assets`);
+      continue;
+    }
+    const normalized = normalizeCustomFieldValue(field, raw);
+    if (normalized.error !== undefined) {
+      result.errors.push(normalized.error);
+    } else {
+      result.values[fieldId] = normalized.value;
+    }
+  }
+
+  if (isNew) {
+    for (const field of fields) {
+      if (result.values[field.id] !== undefined || !appliesToAssetType(field, options.assetType)) continue;
+      if (field.defaultValue) {
+        result.values[field.id] = field.defaultValue;
+      } else if (field.isRequired && !submitted.some(([id]) => id === field.id)) {
+        result.errors.push(`${field.name} is required`);
+      }
+    }
+  }
+
+  for (const [fieldId, value] of Object.entries(result.values)) {
+    const field = byId.get(fieldId) as CustomField;
+    if (!field.isUnique) continue;
+    if (options.claimed) {
+      const taken = options.claimed.get(fieldId) ?? new Set<string>();
+      options.claimed.set(fieldId, taken);
+      // SQL Server compares case-insensitively, so claims do too
+      const key = value.toLowerCase();
+      if (taken.has(key)) {
+        result.errors.push(`${field.name} "${value}" is already used by another row of this import`);
+        continue;
+      }
+      taken.add(key);
+    }
+    const clash = await db.customFieldValue.findFirst({
+      where: { fieldId, value, ...(options.assetId ? { assetId: { not: options.assetId } } : {}) },
+      select: { asset: { select: { assetTag: true } } },
+    });
+    if (clash) result.errors.push(`${field.name} "${value}" is already used by asset ${clash.asset.assetTag}`);
+  }
+
+  return result;
+}
+
+/**
+ * Values stored more than once for a field, which must be cleaned up before the field can
+ * be made unique. Returns at most `limit` of them.
+ */
+export async function findDuplicateCustomFieldValues(fieldId: string, limit = 10, db: Db = prisma): Promise<string[]> {
+  const groups = await db.customFieldValue.groupBy({
+    by: ['value'],
+    where: { fieldId, value: { not: null } },
+    having: { value: { _count: { gt: 1 } } },
+    orderBy: { value: 'asc' },
+    take: limit,
+  });
+  return groups.map((g) => g.value as string);
+}
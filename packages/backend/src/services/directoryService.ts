@@ -0,0 +1,433 @@
+import fs from 'fs/promises';
+import path from 'path';
+import config from '../config/index';
+import logger from '../utils/logger';
+import { graphService, normalizeProvince } from './graphService';
+
+export interface StaffMember {
+  id: string;
+  displayName: string;
+  mail?: string;
+  jobTitle?: string;
+  department?: string;
+  officeLocation?: string;
+  mobilePhone?: string;
+  businessPhones: string[];
+  employeeId?: string;
+}
+
+// Account state used by the leaver check
+export interface DirectoryState {
+  id: string;
+  displayName: string;
+  mail?: string;
+  department?: string;
+  officeLocation?: string;
+  accountEnabled: boolean;
+}
+
+export interface LocationData {
+  city: string;
+  province: string;
+  country: string;
+}
+
+export interface ResolvedUser {
+  id: string;
+  displayName: string;
+  officeLocation?: string;
+}
+
+// A user reported by a directory sync; fields a delta round did not report are undefined
+export interface DirectoryEntry {
+  id: string;
+  displayName?: string;
+  userPrincipalName?: string | null;
+  samAccountName?: string | null;
+  mail?: string | null;
+  jobTitle?: string | null;
+  department?: string | null;
+  officeLocation?: string | null;
+  mobilePhone?: string | null;
+  businessPhones?: string[];
+  employeeId?: string | null;
+  managerAadId?: string | null;
+  accountEnabled?: boolean;
+}
+
+export interface DirectoryChanges {
+  // A full sync lists every user; anyone not listed has left the directory
+  full: boolean;
+  entries: DirectoryEntry[];
+  removedIds: string[];
+  // Pass back on the next call to get only what changed since; null when unsupported
+  deltaToken: string | null;
+}
+
+/**
+ * Where staff lookups come from. Microsoft Graph in production; the CSV directory lets the
+ * app (staff pages, import user resolution, location sync) run without an Azure tenant.
+ * Swap it with `setDirectoryProvider` or the DIRECTORY_PROVIDER setting.
+ */
+export interface DirectoryProvider {
+  searchStaff(query: string, limit?: number): Promise<StaffMember[]>;
+  getStaffMember(aadId: string): Promise<StaffMember | null>;
+  getStaffFromGroup(groupId: string, limit?: number): Promise<StaffMember[]>;
+  // Ids the directory does not know map to null; ids it could not check are left out
+  getDirectoryStates(aadIds: string[]): Promise<Map<string, DirectoryState | null>>;
+  // Results are keyed by both the raw and the trimmed input; unresolved inputs map to null
+  findUsersBySamAccount(usernames: string[]): Promise<Record<string, ResolvedUser | null>>;
+  findUsersByDisplayName(displayNames: string[]): Promise<Record<string, ResolvedUser | null>>;
+  getDistinctLocations(): Promise<LocationData[]>;
+  getDirectoryChanges(deltaToken: string | null): Promise<DirectoryChanges>;
+  getProfilePhoto(aadId: string): Promise<Buffer | null>;
+  getProfilePhotoMetadata(aadId: string): Promise<{ width: number; height: number; contentType: string } | null>;
+  testPhotoPermissions(aadId: string): Promise<{ hasPermission: boolean; error?: string }>;
+  checkPermissions(): Promise<{ scopes: string[]; error?: string }>;
+  clearCache(): void;
+  clearPhotoCache(): void;
+}
+
+interface DirectoryRow extends StaffMember {
+  userPrincipalName?: string;
+  samAccountName?: string;
+  managerAadId?: string;
+  accountEnabled: boolean;
+  city?: string;
+  state?: string;
+  country?: string;
+  groups: string[];
+}
+
+// Accepted CSV headers (compared lower-case without punctuation) for each row field
+const CSV_COLUMNS: Record<string, keyof DirectoryRow> = {
+  id: 'id',
+  aadid: 'id',
+  objectid: 'id',
+  displayname: 'displayName',
+  name: 'displayName',
+  mail: 'mail',
+  email: 'mail',
+  userprincipalname: 'userPrincipalName',
+  upn: 'userPrincipalName',
+  samaccountname: 'samAccountName',
+  onpremisessamaccountname: 'samAccountName',
+  username: 'samAccountName',
+  jobtitle: 'jobTitle',
+  department: 'department',
+  officelocation: 'officeLocation',
+  office: 'officeLocation',
+  mobilephone: 'mobilePhone',
+  businessphones: 'businessPhones',
+  employeeid: 'employeeId',
+  manager: 'managerAadId',
+  managerid: 'managerAadId',
+  manageraadid: 'managerAadId',
+  accountenabled: 'accountEnabled',
+  city: 'city',
+  state: 'state',
+  province: 'state',
+  country: 'country',
+  groups: 'groups',
+};
+
+// RFC 4180 style: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+const corporateDomains = () =>
+  (process.env.CORP_EMAIL_DOMAINS || 'bgcengineering.ca').split(',').map((d) => d.trim().toLowerCase());
+
+const isCorporate = (row: DirectoryRow) =>
+  corporateDomains().some(
+    (domain) => row.userPrincipalName?.toLowerCase().endsWith(`@${domain}`) || row.mail?.toLowerCase().endsWith(`@${domain}`)
+  );
+
+const toStaffMember = (row: DirectoryRow): StaffMember => ({
+  id: row.id,
+  displayName: row.displayName,
+  mail: row.mail,
+  jobTitle: row.jobTitle,
+  department: row.department,
+  officeLocation: row.officeLocation,
+  mobilePhone: row.mobilePhone,
+  businessPhones: row.businessPhones,
+  employeeId: row.employeeId,
+});
+
+const toResolvedUser = (row: DirectoryRow): ResolvedUser => ({
+  id: row.id,
+  displayName: row.displayName,
+  officeLocation: row.officeLocation,
+});
+
+/**
+ * Staff directory read from a CSV export (one row per person, with at least id and
+ * displayName columns). Lookups follow the same precedence as the Graph implementation.
+ * Photos are not available offline.
+ */
+export class CsvDirectoryProvider implements DirectoryProvider {
+  private readonly filePath: string;
+  private rows: Promise<DirectoryRow[]> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(process.cwd(), filePath);
+  }
+
+  private load(): Promise<DirectoryRow[]> {
+    if (!this.rows) {
+      this.rows = fs.readFile(this.filePath, 'utf8').then((text) => {
+        const [header = [], ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+        const columns = header.map((h) => CSV_COLUMNS[h.toLowerCase().replace(/[^a-z0-9]/g, '')]);
+        const rows: DirectoryRow[] = [];
+
+        for (const record of records) {
+          const values: Partial<Record<keyof DirectoryRow, string>> = {};
+          columns.forEach((column, index) => {
+            const value = record[index]?.trim();
+            if (column && value) values[column] = value;
+          });
+          if (!values.id || !values.displayName) continue;
+
+          rows.push({
+            id: values.id,
+            displayName: values.displayName,
+            mail: values.mail,
+            userPrincipalName: values.userPrincipalName,
+            samAccountName: values.samAccountName,
+            jobTitle: values.jobTitle,
+            department: values.department,
+            officeLocation: values.officeLocation,
+            mobilePhone: values.mobilePhone,
+            businessPhones: values.businessPhones ? values.businessPhones.split(';').map((p) => p.trim()).filter(Boolean) : [],
+            employeeId: values.employeeId,
+            managerAadId: values.managerAadId,
+            accountEnabled: !/^(false|no|0|disabled)$/i.test(values.accountEnabled ?? ''),
+            city: values.city,
+            state: values.state,
+            country: values.country,
+            groups: values.groups ? values.groups.split(';').map((g) => g.trim().toLowerCase()).filter(Boolean) : [],
+          });
+        }
+
+        logger.info(`Loaded ${rows.length} staff from directory file ${this.filePath}`);
+        return rows;
+      });
+      // A missing or unreadable file is retried on the next lookup
+      this.rows.catch(() => {
+        this.rows = null;
+      });
+    }
+    return this.rows;
+  }
+
+  private async resolveEach(
+    inputs: string[],
+    match: (rows: DirectoryRow[], value: string) => DirectoryRow | undefined
+  ): Promise<Record<string, ResolvedUser | null>> {
+    const result: Record<string, ResolvedUser | null> = {};
+    if (!inputs.length) return result;
+
+    const rows = await this.load();
+    for (const raw of inputs) {
+      const value = (raw || '').trim();
+      if (!value) continue;
+      const row = match(rows, value.toLowerCase());
+      result[raw] = row ? toResolvedUser(row) : null;
+      if (raw !== value) result[value] = result[raw];
+    }
+    return result;
+  }
+
+  async searchStaff(query: string, limit: number = 10): Promise<StaffMember[]> {
+    const q = query.toLowerCase();
+    const rows = await this.load();
+    return rows
+      .filter((row) => row.displayName.toLowerCase().startsWith(q) || row.mail?.toLowerCase().startsWith(q))
+      .slice(0, limit)
+      .map(toStaffMember);
+  }
+
+  async getStaffMember(aadId: string): Promise<StaffMember | null> {
+    const rows = await this.load();
+    const row = rows.find((r) => r.id.toLowerCase() === aadId.toLowerCase());
+    return row ? toStaffMember(row) : null;
+  }
+
+  async getStaffFromGroup(groupId: string, limit: number = 100): Promise<StaffMember[]> {
+    const rows = await this.load();
+    return rows
+      .filter((row) => row.groups.includes(groupId.toLowerCase()))
+      .slice(0, limit)
+      .map(toStaffMember);
+  }
+
+  async getDirectoryStates(aadIds: string[]): Promise<Map<string, DirectoryState | null>> {
+    const rows = await this.load();
+    const byId = new Map(rows.map((row) => [row.id.toLowerCase(), row]));
+    const result = new Map<string, DirectoryState | null>();
+    for (const aadId of aadIds) {
+      const row = byId.get(aadId.toLowerCase());
+      result.set(
+        aadId,
+        row
+          ? {
+              id: row.id,
+              displayName: row.displayName,
+              mail: row.mail,
+              department: row.department,
+              officeLocation: row.officeLocation,
+              accountEnabled: row.accountEnabled,
+            }
+          : null
+      );
+    }
+    return result;
+  }
+
+  // Corporate UPN/mail, then exact SAM account name, then UPN prefix (corporate accounts first)
+  async findUsersBySamAccount(usernames: string[]): Promise<Record<string, ResolvedUser | null>> {
+    return this.resolveEach(usernames, (rows, uname) => {
+      const emails = uname.includes('@') ? [uname] : corporateDomains().map((domain) => `${uname}@${domain}`);
+      const byEmail = rows.find(
+        (row) => emails.includes(row.userPrincipalName?.toLowerCase() ?? '') || emails.includes(row.mail?.toLowerCase() ?? '')
+      );
+      if (byEmail) return byEmail;
+
+      const bySam = rows.find((row) => row.samAccountName?.toLowerCase() === uname);
+      if (bySam) return bySam;
+
+      const prefixed = rows.filter((row) => row.userPrincipalName?.toLowerCase().startsWith(uname));
+      return prefixed.find(isCorporate) ?? prefixed[0];
+    });
+  }
+
+  // Exact display name (corporate accounts first), then display name prefix
+  async findUsersByDisplayName(displayNames: string[]): Promise<Record<string, ResolvedUser | null>> {
+    return this.resolveEach(displayNames, (rows, name) => {
+      const exact = rows.filter((row) => row.displayName.toLowerCase() === name);
+      if (exact.length) return exact.find(isCorporate) ?? exact[0];
+
+      const prefixed = rows.filter((row) => row.displayName.toLowerCase().startsWith(name));
+      return prefixed.find(isCorporate) ?? prefixed[0];
+    });
+  }
+
+  async getDistinctLocations(): Promise<LocationData[]> {
+    const rows = await this.load();
+    const locations = new Map<string, LocationData>();
+    for (const row of rows) {
+      if (!row.city || !row.state) continue;
+      const country = row.country || 'Canada';
+      const province = normalizeProvince(row.state, country);
+      locations.set(`${row.city}|${province}|${country}`, { city: row.city, province, country });
+    }
+    return Array.from(locations.values()).sort(
+      (a, b) => a.country.localeCompare(b.country) || a.province.localeCompare(b.province) || a.city.localeCompare(b.city)
+    );
+  }
+
+  // A file has no change tracking, so every sync re-reads it in full
+  async getDirectoryChanges(): Promise<DirectoryChanges> {
+    this.rows = null;
+    const rows = await this.load();
+    return {
+      full: true,
+      entries: rows.map((row) => ({
+        id: row.id,
+        displayName: row.displayName,
+        userPrincipalName: row.userPrincipalName ?? null,
+        samAccountName: row.samAccountName ?? null,
+        mail: row.mail ?? null,
+        jobTitle: row.jobTitle ?? null,
+        department: row.department ?? null,
+        officeLocation: row.officeLocation ?? null,
+        mobilePhone: row.mobilePhone ?? null,
+        businessPhones: row.businessPhones,
+        employeeId: row.employeeId ?? null,
+        managerAadId: row.managerAadId ?? null,
+        accountEnabled: row.accountEnabled,
+      })),
+      removedIds: [],
+      deltaToken: null,
+    };
+  }
+
+  async getProfilePhoto(): Promise<Buffer | null> {
+    return null;
+  }
+
+  async getProfilePhotoMetadata(): Promise<{ width: number; height: number; contentType: string } | null> {
+    return null;
+  }
+
+  async testPhotoPermissions(): Promise<{ hasPermission: boolean; error?: string }> {
+    return { hasPermission: false, error: 'Profile photos are not available from the CSV directory' };
+  }
+
+  async checkPermissions(): Promise<{ scopes: string[]; error?: string }> {
+    try {
+      const rows = await this.load();
+      return { scopes: [`CSV directory (${rows.length} staff)`] };
+    } catch (error: any) {
+      return { scopes: [], error: `Cannot read directory file ${this.filePath}: ${error?.message}` };
+    }
+  }
+
+  // Re-read the file on the next lookup
+  clearCache(): void {
+    this.rows = null;
+    logger.info('CSV directory cache cleared');
+  }
+
+  clearPhotoCache(): void {}
+}
+
+let provider: DirectoryProvider | null = null;
+
+export function setDirectoryProvider(custom: DirectoryProvider | null): void {
+  provider = custom;
+}
+
+export function getDirectoryProvider(): DirectoryProvider {
+  if (provider) return provider;
+
+  provider = config.directory.provider === 'csv' ? new CsvDirectoryProvider(config.directory.csvPath) : graphService;
+  return provider;
+}
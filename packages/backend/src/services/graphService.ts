@@ -2,24 +2,15 @@ import { Client, ResponseType } from '@microsoft/microsoft-graph-client';
 import { ClientSecretCredential } from '@azure/identity';
 import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
 import logger from '../utils/logger.js';
-
-interface StaffMember {
-  id: string;
-  displayName: string;
-  mail?: string;
-  jobTitle?: string;
-  department?: string;
-  officeLocation?: string;
-  mobilePhone?: string;
-  businessPhones: string[];
-  employeeId?: string;
-}
-
-interface LocationData {
-  city: string;
-  province: string;
-  country: string;
-}
+import type {
+  DirectoryChanges,
+  DirectoryEntry,
+  DirectoryProvider,
+  DirectoryState,
+  LocationData,
+  ResolvedUser,
+  StaffMember,
+} from './directoryService.js';
 
 // Province normalization mapping for Canadian provinces
 const PROVINCE_NORMALIZATION: Record<string, string> = {
@@ -89,7 +80,7 @@ const PROVINCE_NORMALIZATION: Record<string, string> = {
   'Yukon': 'YT',
 };
 
-function normalizeProvince(province: string, country: string): string {
+export function normalizeProvince(province: string, country: string): string {
   // Only normalize Canadian provinces
   if (country !== 'Canada') {
     return province;
@@ -98,7 +89,8 @@ function normalizeProvince(province: string, country: string): string {
   return PROVINCE_NORMALIZATION[province] || province;
 }
 
-class GraphService {
+// Microsoft Graph directory; selected unless DIRECTORY_PROVIDER=csv
+class GraphService implements DirectoryProvider {
   private client: Client | null = null;
   private cache = new Map<string, { data: StaffMember; expiry: number }>();
   private photoCache = new Map<string, { data: Buffer | null; expiry: number }>();
@@ -242,8 +234,118 @@ class GraphService {
     }
   }
 
-  async findUsersBySamAccount(usernames: string[]): Promise<Record<string, { id: string; displayName: string; officeLocation?: string } | null>> {
-    const result: Record<string, { id: string; displayName: string; officeLocation?: string } | null> = {};
+  /**
+   * Account state for each id, fetched with Graph JSON batching (20 users per request).
+   * Ids the directory no longer knows map to null; lookups that fail for any other reason
+   * are left out so callers keep what they knew before.
+   */
+  async getDirectoryStates(aadIds: string[]): Promise<Map<string, DirectoryState | null>> {
+    const result = new Map<string, DirectoryState | null>();
+    if (!aadIds.length) return result;
+
+    const client = await this.getClient();
+    const batchSize = 20;
+
+    for (let i = 0; i < aadIds.length; i += batchSize) {
+      const batch = aadIds.slice(i, i + batchSize);
+      const response = await client.api('/$batch').post({
+        requests: batch.map((aadId, index) => ({
+          id: String(index),
+          method: 'GET',
+          url: `/users/${aadId}?$select=id,displayName,mail,department,officeLocation,accountEnabled`,
+        })),
+      });
+
+      for (const item of response.responses || []) {
+        const aadId = batch[Number(item.id)];
+        if (item.status === 200) {
+          const user = item.body;
+          result.set(aadId, {
+            id: user.id,
+            displayName: user.displayName || '',
+            mail: user.mail ?? undefined,
+            department: user.department ?? undefined,
+            officeLocation: user.officeLocation ?? undefined,
+            accountEnabled: user.accountEnabled !== false,
+          });
+        } else if (item.status === 404) {
+          result.set(aadId, null);
+        } else {
+          logger.warn(`Directory lookup for ${aadId} failed with status ${item.status}`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Users changed since deltaToken (the deltaLink returned by the previous call), or every
+   * user when there is no token or it has expired. Delta rounds may report only the
+   * properties that changed, so anything missing from a user is left undefined.
+   */
+  async getDirectoryChanges(deltaToken: string | null): Promise<DirectoryChanges> {
+    const client = await this.getClient();
+    const initialUrl =
+      '/users/delta?$select=id,displayName,userPrincipalName,onPremisesSamAccountName,mail,jobTitle,department,' +
+      'officeLocation,mobilePhone,businessPhones,employeeId,accountEnabled,manager';
+    let full = !deltaToken;
+    let url: string | undefined = deltaToken || initialUrl;
+    const entries: DirectoryEntry[] = [];
+    const removedIds: string[] = [];
+
+    while (url) {
+      let response: any;
+      try {
+        response = await client.api(url).get();
+      } catch (error: any) {
+        // An expired or invalid delta token means starting over with a full sync
+        if (!full && (error?.statusCode === 410 || error?.code === 'SyncStateNotFound' || error?.code === 'resyncRequired')) {
+          logger.warn('Directory delta token expired; running a full directory sync');
+          full = true;
+          url = initialUrl;
+          entries.length = 0;
+          removedIds.length = 0;
+          continue;
+        }
+        throw error;
+      }
+
+      for (const user of response.value || []) {
+        if (user['@removed']) {
+          removedIds.push(user.id);
+          continue;
+        }
+        const entry: DirectoryEntry = { id: user.id };
+        if ('displayName' in user) entry.displayName = user.displayName || '';
+        if ('userPrincipalName' in user) entry.userPrincipalName = user.userPrincipalName;
+        if ('onPremisesSamAccountName' in user) entry.samAccountName = user.onPremisesSamAccountName;
+        if ('mail' in user) entry.mail = user.mail;
+        if ('jobTitle' in user) entry.jobTitle = user.jobTitle;
+        if ('department' in user) entry.department = user.department;
+        if ('officeLocation' in user) entry.officeLocation = user.officeLocation;
+        if ('mobilePhone' in user) entry.mobilePhone = user.mobilePhone;
+        if ('businessPhones' in user) entry.businessPhones = user.businessPhones || [];
+        if ('employeeId' in user) entry.employeeId = user.employeeId;
+        if ('accountEnabled' in user) entry.accountEnabled = user.accountEnabled !== false;
+        if ('manager@delta' in user) {
+          const manager = (user['manager@delta'] || [])[0];
+          entry.managerAadId = manager && !manager['@removed'] ? manager.id : null;
+        }
+        entries.push(entry);
+      }
+
+      if (response['@odata.deltaLink']) {
+        return { full, entries, removedIds, deltaToken: response['@odata.deltaLink'] };
+      }
+      url = response['@odata.nextLink'];
+    }
+
+    return { full, entries, removedIds, deltaToken: null };
+  }
+
+  async findUsersBySamAccount(usernames: string[]): Promise<Record<string, ResolvedUser | null>> {
+    const result: Record<string, ResolvedUser | null> = {};
     if (!usernames.length) return result;
 
     const client = await this.getClient();
@@ -273,10 +375,13 @@ class GraphService {
           // DEBUG: Log the username being resolved
           logger.info(`Resolving username: "${uname}"`);
 
-          // Corporate domain exact match (highest priority)
+          // Corporate domain exact match (highest priority). Full UPNs (e.g. from Intune)
+          // are looked up as-is.
           const corporateDomains = (process.env.CORP_EMAIL_DOMAINS || 'bgcengineering.ca').split(',');
-          for (const domain of corporateDomains) {
-            const corporateEmail = `${uname}@${domain.trim()}`;
+          const corporateEmails = uname.includes('@')
+            ? [uname]
+            : corporateDomains.map((domain) => `${uname}@${domain.trim()}`);
+          for (const corporateEmail of corporateEmails) {
             try {
               const corporateUsers = await client.api('/users')
                 .filter(`userPrincipalName eq '${corporateEmail}' or mail eq '${corporateEmail}'`)
@@ -403,8 +508,8 @@ class GraphService {
     return result;
   }
 
-  async findUsersByDisplayName(displayNames: string[]): Promise<Record<string, { id: string; displayName: string; officeLocation?: string } | null>> {
-    const result: Record<string, { id: string; displayName: string; officeLocation?: string } | null> = {};
+  async findUsersByDisplayName(displayNames: string[]): Promise<Record<string, ResolvedUser | null>> {
+    const result: Record<string, ResolvedUser | null> = {};
     if (!displayNames.length) return result;
 
     const client = await this.getClient();
@@ -944,4 +1049,4 @@ class GraphService {
 }
 
 export const graphService = new GraphService();
-export type { StaffMember, LocationData }; 
\ No newline at end of file
+export type { StaffMember, DirectoryState, LocationData }; 
\ No newline at end of file
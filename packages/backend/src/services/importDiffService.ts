@@ -0,0 +1,128 @@
+import prisma from './database';
+import logger from '../utils/logger';
+
+export interface FieldChange {
+  field: string; // `make`, `specifications.ram` or `customFields.<fieldId>`
+  from: string | null;
+  to: string | null;
+}
+
+export const SPEC_FIELD_PREFIX = 'specifications.';
+export const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+// Bookkeeping columns that change on every write and say nothing about the device
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'createdById', 'updatedById', 'specifications']);
+
+// Normalise values so that null/'' and Date/ISO string compare as equal
+function normalize(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function parseSpecs(value: unknown): Record<string, unknown> {
+  if (!value) return {};
+  if (typeof value === 'object') return value as Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(String(value));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Compare an asset row before and after an import write. Only the given direct fields
+ * are checked (the ones the import actually set); specifications are compared key by key.
+ */
+export function diffAssetFields(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  fields: string[]
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = normalize(before[field]);
+    const to = normalize(after[field]);
+    if (from !== to) changes.push({ field, from, to });
+  }
+
+  const beforeSpecs = parseSpecs(before.specifications);
+  const afterSpecs = parseSpecs(after.specifications);
+  const specKeys = new Set([...Object.keys(beforeSpecs), ...Object.keys(afterSpecs)]);
+  for (const key of specKeys) {
+    const from = normalize(beforeSpecs[key]);
+    const to = normalize(afterSpecs[key]);
+    if (from !== to) changes.push({ field: `${SPEC_FIELD_PREFIX}${key}`, from, to });
+  }
+  return changes;
+}
+
+// Compare custom field values keyed by field id
+export function diffCustomFields(
+  before: Array<{ fieldId: string; value: string | null }>,
+  after: Record<string, unknown>
+): FieldChange[] {
+  const beforeById = new Map(before.map((v) => [v.fieldId, normalize(v.value)]));
+  const afterById = new Map(Object.entries(after).map(([id, value]) => [id, normalize(value)]));
+  const changes: FieldChange[] = [];
+  for (const fieldId of new Set([...beforeById.keys(), ...afterById.keys()])) {
+    const from = beforeById.get(fieldId) ?? null;
+    const to = afterById.get(fieldId) ?? null;
+    if (from !== to) changes.push({ field: `${CUSTOM_FIELD_PREFIX}${fieldId}`, from, to });
+  }
+  return changes;
+}
+
+// Store the diff for one asset; runs without an id and no-op writes are not recorded
+export async function recordRunChange(
+  runId: string | null,
+  asset: { id: string; assetTag: string },
+  operation: string,
+  changes: FieldChange[]
+): Promise<void> {
+  if (!runId || changes.length === 0) return;
+  try {
+    await prisma.importRunChange.create({
+      data: {
+        runId,
+        assetId: asset.id,
+        assetTag: asset.assetTag,
+        operation,
+        changes: JSON.stringify(changes),
+      },
+    });
+  } catch (error) {
+    logger.warn(`Failed to record import diff for asset ${asset.assetTag} in run ${runId}:`, error);
+  }
+}
+
+/**
+ * Human labels for diff field keys: custom field ids become their current names and
+ * specification keys are shown as "Specs: key".
+ */
+export async function resolveFieldLabels(fields: string[]): Promise<Record<string, string>> {
+  const customIds = fields
+    .filter((f) => f.startsWith(CUSTOM_FIELD_PREFIX))
+    .map((f) => f.slice(CUSTOM_FIELD_PREFIX.length));
+  const customFields = customIds.length
+    ? await prisma.customField.findMany({ where: { id: { in: customIds } }, select: { id: true, name: true } })
+    : [];
+  const customNames = new Map(customFields.map((f) => [f.id, f.name]));
+
+  const labels: Record<string, string> = {};
+  for (const field of fields) {
+    if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      const id = field.slice(CUSTOM_FIELD_PREFIX.length);
+      labels[field] = `Custom: ${customNames.get(id) ?? id}`;
+    } else if (field.startsWith(SPEC_FIELD_PREFIX)) {
+      labels[field] = `Specs: ${field.slice(SPEC_FIELD_PREFIX.length)}`;
+    } else {
+      labels[field] = field;
+    }
+  }
+  return labels;
+}
@@ -0,0 +1,592 @@
+import os from 'os';
+import crypto from 'crypto';
+import prisma from './database';
+import logger from '../utils/logger';
+import config from '../config/index';
+import type { ImportJob, Prisma } from '../generated/prisma';
+import {
+  BATCH_SIZE,
+  cleanOrphanedLinks,
+  processAssetBatch,
+  retireMissingAssets,
+} from './importProcessor';
+import { isPresenceTrackedSource, loadImportSourceDefinitions } from './importSourceService';
+
+export const IMPORT_JOB_STATUSES = {
+  QUEUED: 'QUEUED',
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type ImportJobStatus = typeof IMPORT_JOB_STATUSES[keyof typeof IMPORT_JOB_STATUSES];
+
+// Row outcomes streamed to the progress channel
+export const IMPORT_JOB_EVENT_TYPES = {
+  CREATED: 'created',
+  UPDATED: 'updated',
+  SKIPPED: 'skipped',
+  ERROR: 'error',
+  RETIRED: 'retired',
+} as const;
+
+export type ImportJobEventType = typeof IMPORT_JOB_EVENT_TYPES[keyof typeof IMPORT_JOB_EVENT_TYPES];
+
+interface PendingJobEvent {
+  type: ImportJobEventType;
+  rowIndex?: number;
+  assetTag?: string;
+  message?: string;
+}
+
+const EVENT_MESSAGE_MAX_LENGTH = 1000;
+
+const TERMINAL_STATUSES: string[] = [
+  IMPORT_JOB_STATUSES.COMPLETED,
+  IMPORT_JOB_STATUSES.FAILED,
+  IMPORT_JOB_STATUSES.CANCELLED,
+];
+
+export const isTerminalJobStatus = (status: string) => TERMINAL_STATUSES.includes(status);
+
+// Identifies this process in ImportJob.lockedBy
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+export interface ImportJobPayload {
+  assets: Record<string, string>[];
+  columnMappings: Array<{
+    ninjaColumn: string;
+    targetField: string;
+    isRequired: boolean;
+    processor?: string;
+    defaultValue?: string;
+  }>;
+  conflictResolution: 'skip' | 'overwrite';
+  resolvedUserMap: Record<string, { id: string; displayName: string; officeLocation?: string } | null>;
+  resolvedLocationMap: Record<string, string | null>;
+  isFullSnapshot: boolean;
+  retireSkipAssetIds: string[];
+  reactivationAllowSerials: string[];
+  documentId?: string;
+  mappingOnly?: boolean;
+}
+
+type AssetRef = { id: string; assetTag: string };
+
+// Running totals committed with every batch (the counters live in their own columns)
+interface ImportJobState {
+  currentItem?: string;
+  errors: Array<{ index: number; error: string; data?: any }>;
+  skippedItems: Array<{ index: number; reason: string; data?: any }>;
+  created: AssetRef[];
+  updated: AssetRef[];
+  reactivated: AssetRef[];
+  retired: AssetRef[];
+  statistics: {
+    categorizedAssets: Array<{ assetTag: string; categoryName: string; ruleName: string }>;
+    uniqueUsers: string[];
+    uniqueLocations: string[];
+    assetTypeBreakdown: Record<string, number>;
+    statusBreakdown: Record<string, number>;
+  };
+}
+
+const emptyState = (): ImportJobState => ({
+  errors: [],
+  skippedItems: [],
+  created: [],
+  updated: [],
+  reactivated: [],
+  retired: [],
+  statistics: {
+    categorizedAssets: [],
+    uniqueUsers: [],
+    uniqueLocations: [],
+    assetTypeBreakdown: {},
+    statusBreakdown: {},
+  },
+});
+
+const parseState = (job: Pick<ImportJob, 'progress'>): ImportJobState =>
+  job.progress ? { ...emptyState(), ...JSON.parse(job.progress) } : emptyState();
+
+export async function enqueueImportJob(options: {
+  id: string;
+  sourceSystem: string;
+  payload: ImportJobPayload;
+  initiatedById: string;
+}): Promise<ImportJob> {
+  return prisma.importJob.create({
+    data: {
+      id: options.id,
+      sourceSystem: options.sourceSystem,
+      payload: JSON.stringify(options.payload),
+      total: options.payload.assets.length,
+      initiatedById: options.initiatedById,
+    },
+  });
+}
+
+/**
+ * Cancel a job. Queued jobs stop straight away; running jobs finish their current batch
+ * and skip the retirement sweep, since a partial snapshot must not retire anything.
+ */
+export async function requestImportJobCancel(jobId: string): Promise<ImportJob | null> {
+  const job = await prisma.importJob.findUnique({ where: { id: jobId } });
+  if (!job || isTerminalJobStatus(job.status)) return job;
+
+  if (job.status === IMPORT_JOB_STATUSES.QUEUED) {
+    const cancelled = await prisma.importJob.updateMany({
+      where: { id: jobId, status: IMPORT_JOB_STATUSES.QUEUED },
+      data: { status: IMPORT_JOB_STATUSES.CANCELLED, cancelRequested: true, finishedAt: new Date() },
+    });
+    if (cancelled.count > 0) return prisma.importJob.findUnique({ where: { id: jobId } });
+  }
+
+  return prisma.importJob.update({ where: { id: jobId }, data: { cancelRequested: true } });
+}
+
+// Counters and statistics for the SSE `progress` event; per-row outcomes go out as `row` events
+export function toProgressSnapshot(job: ImportJob) {
+  const state = parseState(job);
+  return {
+    jobId: job.id,
+    status: job.status,
+    total: job.total,
+    processed: job.processed,
+    successful: job.successful,
+    failed: job.failed,
+    skipped: job.skipped,
+    cancelRequested: job.cancelRequested,
+    currentItem: state.currentItem,
+    categorizedAssets: state.statistics.categorizedAssets,
+    uniqueUsers: state.statistics.uniqueUsers,
+    uniqueLocations: state.statistics.uniqueLocations,
+    assetTypeBreakdown: state.statistics.assetTypeBreakdown,
+    statusBreakdown: state.statistics.statusBreakdown,
+    error: job.error,
+  };
+}
+
+export function toJobSummary(job: ImportJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    sourceSystem: job.sourceSystem,
+    total: job.total,
+    processed: job.processed,
+    successful: job.successful,
+    failed: job.failed,
+    skipped: job.skipped,
+    cancelRequested: job.cancelRequested,
+    syncRunId: job.syncRunId,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    result: job.result ? JSON.parse(job.result) : null,
+  };
+}
+
+// ImportSyncRun.stats for a job's counters and outcome lists
+const runStats = (
+  total: number,
+  counts: Pick<ImportJob, 'successful' | 'failed' | 'skipped'>,
+  state: ImportJobState
+) => ({
+  total,
+  successful: counts.successful,
+  failed: counts.failed,
+  skipped: counts.skipped,
+  created: state.created.length,
+  updated: state.updated.length,
+  reactivated: state.reactivated.length,
+  retired: state.retired.length,
+});
+
+const increment = (counts: Record<string, number>, key?: string) => {
+  if (key) counts[key] = (counts[key] || 0) + 1;
+};
+
+// Number the events after the job's last sequence; written with the batch commit so a
+// resumed job never repeats or skips a sequence number
+function eventWrites(db: Prisma.TransactionClient, jobId: string, firstSeq: number, events: PendingJobEvent[]) {
+  return db.importJobEvent.createMany({
+    data: events.map((event, idx) => ({
+      jobId,
+      seq: firstSeq + idx,
+      type: event.type,
+      rowIndex: event.rowIndex ?? null,
+      assetTag: event.assetTag ?? null,
+      message: event.message ? event.message.slice(0, EVENT_MESSAGE_MAX_LENGTH) : null,
+    })),
+  });
+}
+
+// Thrown when another worker took the job over after this one's heartbeat went stale
+class ImportJobLostError extends Error {}
+
+/**
+ * Write job state (and any events) only while this worker still holds the job. A worker whose
+ * job was handed to another one stops at its next commit instead of writing alongside it.
+ */
+async function commitJob(
+  jobId: string,
+  data: Prisma.ImportJobUpdateManyMutationInput,
+  events: { firstSeq: number; items: PendingJobEvent[] } | null = null
+): Promise<void> {
+  const owned = await prisma.$transaction(async (tx) => {
+    const updated = await tx.importJob.updateMany({ where: { id: jobId, lockedBy: WORKER_ID }, data });
+    if (updated.count === 0) return false;
+    if (events?.items.length) await eventWrites(tx, jobId, events.firstSeq, events.items);
+    return true;
+  });
+  if (!owned) throw new ImportJobLostError(`Import job ${jobId} was taken over by another worker`);
+}
+
+async function executeImportJob(job: ImportJob): Promise<void> {
+  const payload = JSON.parse(job.payload) as ImportJobPayload;
+  const state = parseState(job);
+  const source = job.sourceSystem;
+  // Pick up source definitions edited on any instance since this one last loaded them
+  await loadImportSourceDefinitions();
+  const presenceTrackingEnabled = isPresenceTrackedSource(source);
+  const context = { userId: job.initiatedById, documentId: payload.documentId, mappingOnly: payload.mappingOnly };
+  const counts = { processed: job.processed, successful: job.successful, failed: job.failed, skipped: job.skipped };
+  // Presence is judged against the job's first start, so a resumed job keeps links it already touched
+  const syncStartTime = job.startedAt ?? new Date();
+  let syncRunId = job.syncRunId;
+
+  if (!syncRunId) {
+    // Create an import run row for auditing; its id keys the rollback journal
+    try {
+      const run = await prisma.importSyncRun.create({
+        data: {
+          sourceSystem: source,
+          isFullSnapshot: Boolean(payload.isFullSnapshot),
+          initiatedById: job.initiatedById,
+        },
+      });
+      syncRunId = run.id;
+    } catch (e) {
+      logger.warn('Failed to create ImportSyncRun record', e);
+    }
+    if (syncRunId) await commitJob(job.id, { syncRunId });
+
+    // Clean up any orphaned ExternalSourceLinks before starting import
+    if (presenceTrackingEnabled) {
+      await cleanOrphanedLinks(source, syncRunId);
+    }
+  }
+
+  const batchCount = Math.ceil(payload.assets.length / BATCH_SIZE);
+  let cancelled = false;
+  let lastEventSeq = job.lastEventSeq;
+
+  for (let batchIndex = job.nextBatch; batchIndex < batchCount; batchIndex++) {
+    const latest = await prisma.importJob.findUnique({
+      where: { id: job.id },
+      select: { cancelRequested: true, lockedBy: true },
+    });
+    if (latest && latest.lockedBy !== WORKER_ID) {
+      throw new ImportJobLostError(`Import job ${job.id} was taken over by another worker`);
+    }
+    if (latest?.cancelRequested) {
+      cancelled = true;
+      break;
+    }
+
+    const startIndex = batchIndex * BATCH_SIZE;
+    const endIndex = Math.min(startIndex + BATCH_SIZE, payload.assets.length);
+    const currentBatch = payload.assets.slice(startIndex, endIndex).map((asset, idx) => ({
+      asset,
+      index: startIndex + idx,
+    }));
+
+    logger.info(`Import job ${job.id}: processing batch ${batchIndex + 1} of ${batchCount} (${currentBatch.length} assets)`);
+    state.currentItem = `Processing batch ${batchIndex + 1}/${batchCount}`;
+    const events: PendingJobEvent[] = [];
+
+    try {
+      const batchResults = await processAssetBatch(
+        currentBatch,
+        payload.columnMappings,
+        payload.conflictResolution,
+        source,
+        job.id,
+        context,
+        payload.resolvedUserMap,
+        payload.resolvedLocationMap,
+        payload.reactivationAllowSerials,
+        syncRunId
+      );
+
+      for (const result of batchResults) {
+        counts.processed++;
+        if (result.success) {
+          counts.successful++;
+          if (result.result) {
+            if (result.operation === 'create') state.created.push(result.result);
+            else if (result.operation === 'update') state.updated.push(result.result);
+            if (result.reactivated) state.reactivated.push(result.result);
+          }
+          events.push({
+            type: result.operation === 'create' ? IMPORT_JOB_EVENT_TYPES.CREATED : IMPORT_JOB_EVENT_TYPES.UPDATED,
+            rowIndex: result.index,
+            assetTag: result.result?.assetTag,
+            message: result.reactivated ? 'Reactivated' : undefined,
+          });
+
+          const stats = result.statistics;
+          if (stats) {
+            increment(state.statistics.assetTypeBreakdown, stats.assetType);
+            increment(state.statistics.statusBreakdown, stats.status);
+            if (stats.assignedUser && !state.statistics.uniqueUsers.includes(stats.assignedUser)) {
+              state.statistics.uniqueUsers.push(stats.assignedUser);
+            }
+            if (stats.location && !state.statistics.uniqueLocations.includes(stats.location)) {
+              state.statistics.uniqueLocations.push(stats.location);
+            }
+            if (stats.categorized) state.statistics.categorizedAssets.push(stats.categorized);
+          }
+        } else if (result.skipped) {
+          counts.skipped++;
+          state.skippedItems.push({
+            index: result.index,
+            reason: result.error || 'Unknown reason',
+            data: payload.assets[result.index],
+          });
+          events.push({
+            type: IMPORT_JOB_EVENT_TYPES.SKIPPED,
+            rowIndex: result.index,
+            assetTag: result.result?.assetTag,
+            message: result.error || 'Unknown reason',
+          });
+        } else {
+          counts.failed++;
+          if (result.error) {
+            state.errors.push({ index: result.index, error: result.error, data: payload.assets[result.index] });
+          }
+          events.push({
+            type: IMPORT_JOB_EVENT_TYPES.ERROR,
+            rowIndex: result.index,
+            assetTag: result.result?.assetTag,
+            message: result.error || 'Unknown error',
+          });
+        }
+      }
+    } catch (error) {
+      // Handle batch-level errors: mark every row in the batch as failed
+      logger.error(`Import job ${job.id}: batch ${batchIndex + 1} failed:`, error);
+      const message = error instanceof Error ? error.message : 'Batch processing failed';
+      for (const { index, asset } of currentBatch) {
+        counts.processed++;
+        counts.failed++;
+        state.errors.push({ index, error: message, data: asset });
+        events.push({ type: IMPORT_JOB_EVENT_TYPES.ERROR, rowIndex: index, message });
+      }
+    }
+
+    // Commit the batch and its events together so a crash resumes from the next one
+    await commitJob(
+      job.id,
+      {
+        ...counts,
+        nextBatch: batchIndex + 1,
+        lastEventSeq: lastEventSeq + events.length,
+        progress: JSON.stringify(state),
+        heartbeatAt: new Date(),
+      },
+      { firstSeq: lastEventSeq + 1, items: events }
+    );
+    lastEventSeq += events.length;
+  }
+
+  // End-of-run presence sweep: retire assets missing from this full snapshot
+  if (!cancelled && presenceTrackingEnabled && payload.isFullSnapshot) {
+    state.currentItem = 'Retiring assets missing from the snapshot';
+    await commitJob(job.id, { progress: JSON.stringify(state) });
+    const retired = await retireMissingAssets({
+      source,
+      syncStartTime,
+      syncRunId,
+      retireSkipAssetIds: payload.retireSkipAssetIds,
+      userId: job.initiatedById,
+    });
+    const alreadyRetired = new Set(state.retired.map((a) => a.id));
+    const newlyRetired = retired.filter((a) => !alreadyRetired.has(a.id));
+    state.retired.push(...newlyRetired);
+
+    const events = newlyRetired.map((a) => ({
+      type: IMPORT_JOB_EVENT_TYPES.RETIRED,
+      assetTag: a.assetTag,
+      message: 'Missing from the full snapshot',
+    }));
+    await commitJob(job.id, { lastEventSeq: lastEventSeq + events.length }, { firstSeq: lastEventSeq + 1, items: events });
+    lastEventSeq += events.length;
+  }
+
+  // Finalize ImportSyncRun
+  if (syncRunId) {
+    try {
+      await prisma.importSyncRun.update({
+        where: { id: syncRunId },
+        data: {
+          finishedAt: new Date(),
+          stats: JSON.stringify({ ...runStats(job.total, counts, state), ...(cancelled && { cancelled: true }) }),
+        },
+      });
+    } catch (e) {
+      logger.warn('Failed to finalize ImportSyncRun', e);
+    }
+  }
+
+  state.currentItem = cancelled ? 'Import Cancelled' : 'Import Complete';
+  const result = {
+    total: job.total,
+    ...counts,
+    errors: state.errors,
+    skippedItems: state.skippedItems,
+    created: state.created,
+    updated: state.updated,
+    reactivated: state.reactivated,
+    retired: state.retired,
+    sessionId: job.id,
+    statistics: state.statistics,
+    syncRunId,
+    cancelled,
+  };
+
+  await commitJob(job.id, {
+    ...counts,
+    status: cancelled ? IMPORT_JOB_STATUSES.CANCELLED : IMPORT_JOB_STATUSES.COMPLETED,
+    progress: JSON.stringify(state),
+    result: JSON.stringify(result),
+    finishedAt: new Date(),
+    lockedBy: null,
+  });
+
+  logger.info(
+    `Import job ${job.id} ${cancelled ? 'cancelled' : 'completed'}: ${counts.successful} successful, ${counts.failed} failed, ` +
+      `${counts.skipped} skipped, ${state.retired.length} retired, ${state.reactivated.length} reactivated`
+  );
+}
+
+const claimableWhere = () => ({
+  OR: [
+    { status: IMPORT_JOB_STATUSES.QUEUED },
+    {
+      status: IMPORT_JOB_STATUSES.RUNNING,
+      heartbeatAt: { lt: new Date(Date.now() - config.importJobs.staleAfterMs) },
+    },
+  ],
+});
+
+// Take the oldest queued (or stalled) job; the conditional update makes the claim safe across instances
+async function claimNextJob(): Promise<ImportJob | null> {
+  const candidate = await prisma.importJob.findFirst({
+    where: claimableWhere(),
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, status: true, nextBatch: true },
+  });
+  if (!candidate) return null;
+
+  const now = new Date();
+  const claimed = await prisma.importJob.updateMany({
+    where: { id: candidate.id, ...claimableWhere() },
+    data: { status: IMPORT_JOB_STATUSES.RUNNING, lockedBy: WORKER_ID, heartbeatAt: now },
+  });
+  if (claimed.count === 0) return null;
+
+  if (candidate.status === IMPORT_JOB_STATUSES.RUNNING) {
+    logger.warn(`Resuming stalled import job ${candidate.id} from batch ${candidate.nextBatch + 1}`);
+  }
+
+  const job = await prisma.importJob.findUnique({ where: { id: candidate.id } });
+  if (job && !job.startedAt) {
+    return prisma.importJob.update({ where: { id: job.id }, data: { startedAt: now } });
+  }
+  return job;
+}
+
+// Close the run of a failed job with what its committed batches did, so it can be rolled back
+async function finishFailedRun(jobId: string, error: string): Promise<void> {
+  try {
+    const job = await prisma.importJob.findUnique({ where: { id: jobId } });
+    if (!job?.syncRunId) return;
+    await prisma.importSyncRun.updateMany({
+      where: { id: job.syncRunId, finishedAt: null },
+      data: { finishedAt: new Date(), stats: JSON.stringify({ ...runStats(job.total, job, parseState(job)), error }) },
+    });
+  } catch (e) {
+    logger.warn(`Failed to finalize ImportSyncRun of failed import job ${jobId}`, e);
+  }
+}
+
+async function runJob(job: ImportJob): Promise<void> {
+  // Keep the heartbeat fresh while a slow batch runs so other instances don't steal the job
+  const heartbeat = setInterval(() => {
+    prisma.importJob
+      .updateMany({ where: { id: job.id, lockedBy: WORKER_ID }, data: { heartbeatAt: new Date() } })
+      .catch((error) => logger.warn(`Failed to refresh heartbeat for import job ${job.id}:`, error));
+  }, Math.max(1000, Math.floor(config.importJobs.staleAfterMs / 3)));
+
+  try {
+    await executeImportJob(job);
+  } catch (error) {
+    if (error instanceof ImportJobLostError) {
+      // The worker that took over carries on from the last committed batch
+      logger.warn(error.message);
+      return;
+    }
+    logger.error(`Import job ${job.id} failed:`, error);
+    const message = (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+    const failed = await prisma.importJob.updateMany({
+      where: { id: job.id, lockedBy: WORKER_ID },
+      data: {
+        status: IMPORT_JOB_STATUSES.FAILED,
+        error: message,
+        finishedAt: new Date(),
+        lockedBy: null,
+      },
+    });
+    if (failed.count > 0) await finishFailedRun(job.id, message);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export function startImportWorker(): void {
+  if (timer) return;
+
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      let job = await claimNextJob();
+      while (job) {
+        await runJob(job);
+        job = await claimNextJob();
+      }
+    } catch (error) {
+      logger.error('Import worker tick failed:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  timer = setInterval(tick, config.importJobs.pollIntervalMs);
+  logger.info(`Import worker ${WORKER_ID} started (polling every ${config.importJobs.pollIntervalMs}ms)`);
+  void tick();
+}
+
+export function stopImportWorker(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,322 @@
+import prisma from './database';
+import logger from '../utils/logger';
+import { Prisma } from '../generated/prisma';
+import { ACTIVITY_ACTIONS, ENTITY_TYPES } from '../constants/index';
+import { getAttachmentKeys, removeStoredFiles } from './attachmentService';
+
+export const JOURNAL_ENTITY_TYPES = {
+  ASSET: 'ASSET',
+  LINK: 'LINK',
+} as const;
+
+export const JOURNAL_ACTIONS = {
+  CREATE: 'CREATE',
+  UPDATE: 'UPDATE',
+  REACTIVATE: 'REACTIVATE',
+  RETIRE: 'RETIRE',
+  LINK_CREATE: 'LINK_CREATE',
+  LINK_UPDATE: 'LINK_UPDATE',
+  LINK_MISSING: 'LINK_MISSING',
+  LINK_DELETE: 'LINK_DELETE',
+} as const;
+
+export type JournalAction = typeof JOURNAL_ACTIONS[keyof typeof JOURNAL_ACTIONS];
+
+// SQL Server caps a statement at 2100 parameters
+const IN_CHUNK_SIZE = 1000;
+
+// Rollbacks touch every journalled row in one transaction, so allow well beyond Prisma's 5s default
+const ROLLBACK_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface AssetSnapshot {
+  asset: Record<string, any>;
+  customFieldValues: Array<{ fieldId: string; value: string | null }>;
+  workloadCategoryIds: string[];
+}
+
+// An asset someone changed after the run finished; rolling it back would lose their work
+export interface DriftedAsset {
+  assetId: string;
+  assetTag: string;
+  reason: string;
+}
+
+export interface RollbackSummary {
+  assetsRestored: number;
+  assetsDeleted: number;
+  linksReverted: number;
+  skipped: number;
+  drifted: DriftedAsset[];
+}
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+async function writeEntry(
+  runId: string,
+  entityType: string,
+  entityId: string,
+  action: JournalAction,
+  beforeState: unknown
+): Promise<void> {
+  try {
+    await prisma.importRunJournal.create({
+      data: {
+        runId,
+        entityType,
+        entityId,
+        action,
+        beforeState: beforeState == null ? null : JSON.stringify(beforeState),
+      },
+    });
+  } catch (error) {
+    // An earlier change in the same run already holds the pre-run state
+    if (isUniqueViolation(error)) return;
+    logger.warn(`Failed to journal ${action} of ${entityType} ${entityId} for import run ${runId}:`, error);
+  }
+}
+
+/**
+ * Record an asset's state before an import run changes it. Pass `created: true` after the
+ * run inserts a new asset; rolling back deletes it. Does nothing when the run has no id.
+ */
+export async function journalAsset(
+  runId: string | null,
+  assetId: string,
+  action: JournalAction,
+  options: { created?: boolean } = {}
+): Promise<void> {
+  if (!runId) return;
+  if (options.created) {
+    return writeEntry(runId, JOURNAL_ENTITY_TYPES.ASSET, assetId, action, null);
+  }
+
+  const asset = await prisma.asset.findUnique({
+    where: { id: assetId },
+    include: {
+      customFieldValues: { select: { fieldId: true, value: true } },
+      workloadCategories: { select: { categoryId: true } },
+    },
+  });
+  if (!asset) return;
+
+  const { customFieldValues, workloadCategories, ...row } = asset;
+  const snapshot: AssetSnapshot = {
+    asset: row,
+    customFieldValues,
+    workloadCategoryIds: workloadCategories.map((c) => c.categoryId),
+  };
+  await writeEntry(runId, JOURNAL_ENTITY_TYPES.ASSET, assetId, action, snapshot);
+}
+
+// Record a presence link's state before an import run changes it; pass null for links the run creates
+export async function journalLink(
+  runId: string | null,
+  linkId: string,
+  action: JournalAction,
+  before: Record<string, any> | null
+): Promise<void> {
+  if (!runId) return;
+  const state = before
+    ? {
+        id: before.id,
+        assetId: before.assetId,
+        sourceSystem: before.sourceSystem,
+        externalId: before.externalId,
+        firstSeenAt: before.firstSeenAt,
+        lastSeenAt: before.lastSeenAt,
+        isPresent: before.isPresent,
+        metadata: before.metadata ?? null,
+      }
+    : null;
+  await writeEntry(runId, JOURNAL_ENTITY_TYPES.LINK, linkId, action, state);
+}
+
+// Turn a JSON-round-tripped asset row back into update data
+function assetRestoreData(row: Record<string, any>, userId: string) {
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = row;
+  for (const key of ['purchaseDate', 'warrantyStartDate', 'warrantyEndDate']) {
+    if (fields[key]) fields[key] = new Date(fields[key]);
+  }
+  return { ...fields, updatedById: userId };
+}
+
+/**
+ * Why an asset journalled by a run can no longer be rolled back safely, or null if it can.
+ * Any edit after the run finished (reassignment, check-out, a later import) bumps
+ * `updatedAt`; assets the run created also stay once they carry custody history,
+ * attachments or tickets, which deleting them would destroy.
+ */
+export function assetDriftReason(
+  asset: { updatedAt: Date; _count: { custodyRecords: number; attachments: number; tickets: number } },
+  runFinishedAt: Date,
+  created: boolean
+): string | null {
+  if (asset.updatedAt.getTime() > runFinishedAt.getTime()) {
+    return `Edited ${asset.updatedAt.toISOString()}, after the import finished`;
+  }
+  if (created) {
+    const { custodyRecords, attachments, tickets } = asset._count;
+    const held = [
+      custodyRecords && `${custodyRecords} custody record(s)`,
+      attachments && `${attachments} attachment(s)`,
+      tickets && `${tickets} ticket(s)`,
+    ].filter(Boolean);
+    if (held.length) return `Has ${held.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Undo an import run from its journal, newest change first: assets the run created are
+ * deleted, changed assets get their columns, custom field values and workload categories
+ * back, and presence links return to their earlier state. Rows deleted since the run are
+ * skipped. Assets that drifted after `finishedAt` (see assetDriftReason) are left alone,
+ * with their presence links, and reported unless `force` is set. Runs in one transaction
+ * so a failure leaves the run untouched.
+ */
+export async function rollbackImportRun(
+  runId: string,
+  userId: string,
+  options: { finishedAt: Date; force?: boolean }
+): Promise<RollbackSummary> {
+  const entries = await prisma.importRunJournal.findMany({
+    where: { runId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const summary: RollbackSummary = { assetsRestored: 0, assetsDeleted: 0, linksReverted: 0, skipped: 0, drifted: [] };
+  const assetEntries = entries.filter((e) => e.entityType === JOURNAL_ENTITY_TYPES.ASSET);
+  const createdIds = new Set(assetEntries.filter((e) => !e.beforeState).map((e) => e.entityId));
+
+  const driftedIds = new Set<string>();
+  if (!options.force) {
+    const assetIds = Array.from(new Set(assetEntries.map((e) => e.entityId)));
+    for (let i = 0; i < assetIds.length; i += IN_CHUNK_SIZE) {
+      const assets = await prisma.asset.findMany({
+        where: { id: { in: assetIds.slice(i, i + IN_CHUNK_SIZE) } },
+        select: {
+          id: true,
+          assetTag: true,
+          updatedAt: true,
+          _count: { select: { custodyRecords: true, attachments: true, tickets: true } },
+        },
+      });
+      for (const asset of assets) {
+        const reason = assetDriftReason(asset, options.finishedAt, createdIds.has(asset.id));
+        if (!reason) continue;
+        driftedIds.add(asset.id);
+        summary.drifted.push({ assetId: asset.id, assetTag: asset.assetTag, reason });
+      }
+    }
+  }
+
+  const deletedIds = Array.from(createdIds).filter((id) => !driftedIds.has(id));
+  const attachmentKeys = deletedIds.length > 0 ? await getAttachmentKeys({ id: { in: deletedIds } }) : [];
+  const rolledBackAt = new Date();
+
+  await prisma.$transaction(
+    async (tx) => {
+      for (const entry of entries) {
+        const before = entry.beforeState ? JSON.parse(entry.beforeState) : null;
+
+        if (entry.entityType === JOURNAL_ENTITY_TYPES.LINK) {
+          const current = await tx.externalSourceLink.findUnique({ where: { id: entry.entityId } });
+          if (driftedIds.has(current?.assetId ?? before?.assetId)) continue;
+          if (!before) {
+            if (current) await tx.externalSourceLink.delete({ where: { id: current.id } });
+          } else if (current) {
+            await tx.externalSourceLink.update({
+              where: { id: current.id },
+              data: {
+                assetId: before.assetId,
+                lastSeenAt: new Date(before.lastSeenAt),
+                isPresent: before.isPresent,
+                metadata: before.metadata ?? null,
+              },
+            });
+          } else {
+            const asset = await tx.asset.findUnique({ where: { id: before.assetId }, select: { id: true } });
+            if (!asset) {
+              summary.skipped++;
+              continue;
+            }
+            await tx.externalSourceLink.create({
+              data: {
+                ...before,
+                firstSeenAt: new Date(before.firstSeenAt),
+                lastSeenAt: new Date(before.lastSeenAt),
+              },
+            });
+          }
+          summary.linksReverted++;
+          continue;
+        }
+
+        if (driftedIds.has(entry.entityId)) continue;
+        const asset = await tx.asset.findUnique({ where: { id: entry.entityId }, select: { id: true, assetTag: true, status: true } });
+        if (!asset) {
+          summary.skipped++;
+          continue;
+        }
+
+        if (!before) {
+          // Log first so the entry survives; the FK falls back to NULL once the asset is gone
+          await tx.activityLog.create({
+            data: {
+              entityType: ENTITY_TYPES.ASSET,
+              entityId: asset.id,
+              assetId: asset.id,
+              action: ACTIVITY_ACTIONS.ROLLBACK,
+              changes: JSON.stringify({ description: 'Asset deleted by import run rollback', assetTag: asset.assetTag, syncRunId: runId }),
+              userId,
+            },
+          });
+          await tx.asset.delete({ where: { id: asset.id } });
+          summary.assetsDeleted++;
+          continue;
+        }
+
+        const snapshot = before as AssetSnapshot;
+        await tx.asset.update({ where: { id: asset.id }, data: assetRestoreData(snapshot.asset, userId) });
+        await tx.customFieldValue.deleteMany({ where: { assetId: asset.id } });
+        if (snapshot.customFieldValues.length > 0) {
+          await tx.customFieldValue.createMany({
+            data: snapshot.customFieldValues.map((v) => ({ assetId: asset.id, fieldId: v.fieldId, value: v.value })),
+          });
+        }
+        await tx.assetWorkloadCategory.deleteMany({ where: { assetId: asset.id } });
+        if (snapshot.workloadCategoryIds.length > 0) {
+          await tx.assetWorkloadCategory.createMany({
+            data: snapshot.workloadCategoryIds.map((categoryId) => ({ assetId: asset.id, categoryId })),
+          });
+        }
+        await tx.activityLog.create({
+          data: {
+            entityType: ENTITY_TYPES.ASSET,
+            entityId: asset.id,
+            assetId: asset.id,
+            action: ACTIVITY_ACTIONS.ROLLBACK,
+            changes: JSON.stringify({
+              description: `Import change (${entry.action}) rolled back`,
+              status: { from: asset.status, to: snapshot.asset.status },
+              syncRunId: runId,
+            }),
+            userId,
+          },
+        });
+        summary.assetsRestored++;
+      }
+
+      await tx.importSyncRun.update({
+        where: { id: runId },
+        data: { rolledBackAt, rolledBackById: userId },
+      });
+    },
+    { timeout: ROLLBACK_TIMEOUT_MS }
+  );
+
+  await removeStoredFiles(attachmentKeys);
+  logger.info(`Rolled back import run ${runId}`, { ...summary, drifted: summary.drifted.length });
+  return summary;
+}
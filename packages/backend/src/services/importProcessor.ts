@@ -0,0 +1,1350 @@
+import prisma from './database';
+import type { Prisma } from '../generated/prisma';
+import logger from '../utils/logger';
+import { matchLocations } from '../utils/locationMatcher';
+import { ASSET_TYPES } from '../constants/index';
+import { JOURNAL_ACTIONS, journalAsset, journalLink } from './importJournalService';
+import { diffAssetFields, diffCustomFields, recordRunChange, type FieldChange } from './importDiffService';
+import { definedSourceKey, definedSourceSystem, isPresenceTrackedSource, supplementarySourceFields } from './importSourceService';
+import { validateAssetCustomFields, type ClaimedCustomFieldValues } from './customFieldService';
+import { syncCustodyWithAssignment } from './custodyService';
+
+// Import shared transformation modules
+import { 
+  transformImportRow, 
+  getImportTransformer,
+  parseDeviceName,
+  simplifyRam,
+  aggregateVolumes,
+  roundToCommonStorageSize,
+  IMPORT_PROCESSORS,
+  DIRECT_ASSET_FIELDS,
+  toISO as sharedToISO,
+  type ImportSourceKey,
+  type TransformationResult
+} from '@ats/shared-transformations';
+
+// Configuration for batch processing
+export const BATCH_SIZE = 100;
+
+// Use shared toISO function (renamed to avoid conflicts)
+const toISO = sharedToISO;
+
+// Utility: get nested value from object using dot notation
+function getNestedValue(obj: any, path: string): any {
+  return path.split('.').reduce((o, k) => o?.[k], obj);
+}
+
+// Utility: match a value against a workload category rule
+function matchRule(value: any, rule: any): boolean {
+  if (value === null || value === undefined) return false;
+  
+  const stringValue = String(value).toLowerCase();
+  const ruleValue = String(rule.value).toLowerCase();
+  
+  switch (rule.operator) {
+    case '=':
+      return stringValue === ruleValue;
+    case '!=':
+      return stringValue !== ruleValue;
+    case '>=':
+      return Number(value) >= Number(rule.value);
+    case '<=':
+      return Number(value) <= Number(rule.value);
+    case '>':
+      return Number(value) > Number(rule.value);
+    case '<':
+      return Number(value) < Number(rule.value);
+    case 'includes':
+      return stringValue.includes(ruleValue);
+    case 'regex':
+      try {
+        return new RegExp(rule.value, 'i').test(String(value));
+      } catch (e) {
+        logger.warn(`Invalid regex in workload rule: ${rule.value}`, e);
+        return false;
+      }
+    default:
+      logger.warn(`Unknown operator in workload rule: ${rule.operator}`);
+      return false;
+  }
+}
+
+// Utility: detect workload category for asset based on rules
+async function detectWorkloadCategory(assetData: any, rules: any[]): Promise<string | null> {
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+    
+    const fieldValue = getNestedValue(assetData, rule.sourceField);
+    
+    if (matchRule(fieldValue, rule)) {
+      logger.info(`Workload category detected: ${rule.category.name} (rule: ${rule.description || rule.sourceField + ' ' + rule.operator + ' ' + rule.value})`);
+      return rule.categoryId;
+    }
+  }
+  
+  return null;
+}
+
+// Utility: round storage size to common denominations
+// All transformation functions are now imported from @ats/shared-transformations
+
+// Who an import batch runs on behalf of, and the invoice document to link new assets to
+export interface ImportBatchContext {
+  userId: string;
+  documentId?: string;
+  // Custom spreadsheet imports: the UI column mappings are the whole transform
+  mappingOnly?: boolean;
+  // Client the batch writes through; a dry run passes its transaction
+  db?: Prisma.TransactionClient;
+}
+
+type ImportDb = Prisma.TransactionClient | typeof prisma;
+
+// What the source reported for the device, kept on the link for cross-source reconciliation
+function presenceMetadata(assetData: any): string {
+  const observed: Record<string, string> = {};
+  for (const field of ['make', 'model', 'assignedToAadId']) {
+    const value = assetData[field];
+    if (value && value !== 'Unknown') observed[field] = String(value).slice(0, 500);
+  }
+  return JSON.stringify(observed);
+}
+
+// Point the source's presence link for this serial at the asset, creating it on first sight
+async function upsertPresenceLink(
+  db: ImportDb,
+  source: string,
+  assetData: any,
+  assetId: string,
+  syncRunId: string | null
+): Promise<void> {
+  const externalId = String(assetData.serialNumber);
+  const metadata = presenceMetadata(assetData);
+  const existingLink = await (db as any).externalSourceLink.findFirst({
+    where: { sourceSystem: source, externalId }
+  });
+
+  if (existingLink) {
+    await journalLink(syncRunId, existingLink.id, JOURNAL_ACTIONS.LINK_UPDATE, existingLink);
+    await (db as any).externalSourceLink.update({
+      where: { id: existingLink.id },
+      data: { assetId, lastSeenAt: new Date(), isPresent: true, metadata }
+    });
+    if (existingLink.assetId !== assetId) {
+      logger.info(`Moved ${source} link for serial ${externalId} to asset ${assetId}`);
+    }
+  } else {
+    const createdLink = await (db as any).externalSourceLink.create({
+      data: { assetId, sourceSystem: source, externalId, metadata }
+    });
+    await journalLink(syncRunId, createdLink.id, JOURNAL_ACTIONS.LINK_CREATE, null);
+  }
+}
+
+// Direct fields a supplementary source may fill when the owning source left them blank
+const SUPPLEMENT_FILL_FIELDS = ['make', 'model', 'assignedToAadId', 'locationId'];
+
+function isBlankImportValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || value === 'Unknown';
+}
+
+/**
+ * Apply a supplementary source row (e.g. Intune) to an asset another source owns: the
+ * owner's values win, the row fills gaps and always refreshes its own specification keys.
+ * Source, asset tag, serial and type are never changed.
+ */
+async function supplementExistingAsset(
+  db: ImportDb,
+  existingAsset: any,
+  assetData: any,
+  source: string,
+  ownedSpecFields: string[],
+  context: ImportBatchContext,
+  syncRunId: string | null
+) {
+  let existingSpecs: Record<string, any> = {};
+  try {
+    existingSpecs = existingAsset.specifications ? JSON.parse(existingAsset.specifications) : {};
+  } catch {
+    existingSpecs = {};
+  }
+
+  const specifications = { ...existingSpecs };
+  for (const [key, value] of Object.entries(assetData.specifications || {})) {
+    if (isBlankImportValue(value)) continue;
+    if (ownedSpecFields.includes(key) || isBlankImportValue(specifications[key])) {
+      specifications[key] = value;
+    }
+  }
+
+  const data: Record<string, any> = {};
+  for (const field of SUPPLEMENT_FILL_FIELDS) {
+    if (isBlankImportValue(existingAsset[field]) && !isBlankImportValue(assetData[field])) {
+      data[field] = assetData[field];
+    }
+  }
+  if (data.assignedToAadId && existingAsset.status === 'AVAILABLE') {
+    data.status = 'ASSIGNED';
+  }
+
+  await journalAsset(syncRunId, existingAsset.id, JOURNAL_ACTIONS.UPDATE);
+  const updatedAsset = await db.asset.update({
+    where: { id: existingAsset.id },
+    data: {
+      ...data,
+      specifications: JSON.stringify(specifications),
+      updatedById: context.userId
+    }
+  });
+  await syncCustodyWithAssignment(existingAsset, updatedAsset, context.userId, db);
+
+  if (isPresenceTrackedSource(source) && assetData.serialNumber) {
+    await upsertPresenceLink(db, source, assetData, updatedAsset.id, syncRunId);
+  }
+
+  const fieldChanges = diffAssetFields(existingAsset, updatedAsset, Object.keys(data));
+  await recordRunChange(syncRunId, updatedAsset, 'UPDATE', fieldChanges);
+
+  if (fieldChanges.length > 0) {
+    await db.activityLog.create({
+      data: {
+        entityType: 'asset',
+        entityId: updatedAsset.id,
+        action: 'UPDATE',
+        changes: `Asset supplemented via ${source} import (owned by ${existingAsset.source})`,
+        userId: context.userId
+      }
+    });
+  }
+
+  return { updatedAsset, fieldChanges };
+}
+
+// Process a batch of assets in parallel
+export async function processAssetBatch(
+  assetBatch: Array<{ asset: Record<string, string>; index: number }>,
+  columnMappings: Array<{
+    ninjaColumn: string;
+    targetField: string;
+    isRequired: boolean;
+    // Name from IMPORT_PROCESSORS (mapping templates)
+    processor?: string;
+    // Used when the cell is empty; mappings with an empty ninjaColumn are constants
+    defaultValue?: string;
+  }>,
+  conflictResolution: 'skip' | 'overwrite',
+  source: string,
+  trackingId: string,
+  context: ImportBatchContext,
+  resolvedUserMap: Record<string, { id: string; displayName: string; officeLocation?: string } | null> = {},
+  resolvedLocationMap: Record<string, string | null> = {},
+  reactivationAllowSerials: string[] = [],
+  syncRunId: string | null = null
+): Promise<Array<{
+  success: boolean;
+  index: number;
+  result?: { id: string; assetTag: string };
+  error?: string;
+  skipped?: boolean;
+  operation?: 'create' | 'update';
+  reactivated?: boolean;
+  changes?: FieldChange[];
+  statistics?: {
+    assetType: string;
+    status: string;
+    assignedUser?: string;
+    location?: string;
+    categorized?: { assetTag: string; categoryName: string; ruleName: string } | null;
+  };
+}>> {
+  
+  const db = context.db ?? prisma;
+
+  // Load workload category rules once for the entire batch
+  const workloadCategoryRules = await db.workloadCategoryRule.findMany({
+    where: { isActive: true },
+    include: { category: true },
+    orderBy: { priority: 'asc' }
+  });
+  
+  // Unique custom field values taken by rows of this batch; earlier batches are already saved
+  const claimedCustomFieldValues: ClaimedCustomFieldValues = new Map();
+
+  // Process all assets in the batch concurrently
+  const batchPromises = assetBatch.map(async ({ asset: csvRow, index }) => {
+    try {
+      // Transform CSV row to asset data using column mappings
+      const assetData: any = {
+        customFields: {}
+      };
+
+      // Specific fields that must be stored as ISO DateTime strings
+      const dateFields = ['purchaseDate', 'warrantyStartDate', 'warrantyEndDate'];
+
+      // Normalize asset type (e.g. convert "WINDOWS_DESKTOP" -> "DESKTOP")
+      const roleToAssetTypeMap: Record<string, string> = {
+        'WINDOWS_DESKTOP': ASSET_TYPES.DESKTOP,
+        'WINDOWS_LAPTOP': ASSET_TYPES.LAPTOP,
+        'MAC_DESKTOP': ASSET_TYPES.DESKTOP,
+        'MAC_LAPTOP': ASSET_TYPES.LAPTOP,
+        'LINUX_DESKTOP': ASSET_TYPES.DESKTOP,
+        'LINUX_LAPTOP': ASSET_TYPES.LAPTOP,
+        'WINDOWS_SERVER': 'SERVER',
+        'LINUX_SERVER': 'SERVER',
+        'HYPER-V_SERVER': 'SERVER',
+        'VMWARE_SERVER': 'SERVER',
+        'SERVER': 'SERVER',
+        'TABLET': ASSET_TYPES.TABLET,
+        'MOBILE': ASSET_TYPES.OTHER,
+        'NETWORK_DEVICE': ASSET_TYPES.OTHER,
+        'PRINTER': ASSET_TYPES.OTHER
+      };
+
+      // Use shared transformation modules based on source type
+      let transformationResult: TransformationResult;
+      
+      try {
+        // Determine source type for shared transformation modules
+        let sourceType: ImportSourceKey | null;
+        const definedKey = definedSourceKey(source);
+        if (context.mappingOnly) {
+          sourceType = null;
+        } else if (definedKey) {
+          // Admin-defined source registered from ImportSourceDefinition
+          sourceType = definedKey;
+        } else if (source === 'TELUS') {
+          sourceType = 'telus';
+        } else if (source === 'ROGERS') {
+          sourceType = 'rogers';
+        } else if (source === 'BELL') {
+          sourceType = 'bell';
+        } else if (source === 'VERIZON') {
+          sourceType = 'verizon';
+        } else if (source === 'EXCETEL') {
+          sourceType = 'excetel';
+        } else if (source === 'INTUNE') {
+          sourceType = 'intune';
+        } else if (source === 'NINJAONE') {
+          // Check if this is a server import based on asset type in the data
+          const role = csvRow['Role'];
+          const isServerRole = role && ['WINDOWS_SERVER', 'LINUX_SERVER', 'HYPER-V_SERVER', 'VMWARE_SERVER', 'SERVER'].includes(role.toUpperCase());
+          sourceType = isServerRole ? 'ninjaone-servers' : 'ninjaone';
+        } else if (source === 'NINJAONE_SERVERS') {
+          sourceType = 'ninjaone-servers';
+        } else if (source === 'EXCEL' || source === 'BGC_TEMPLATE') {
+          sourceType = 'bgc-template';
+        } else if (source === 'INVOICE') {
+          // Skip transformation for invoice data - it's already properly structured
+          sourceType = null; 
+        } else {
+          // Fallback: try to determine from column mappings
+          const hasTelusColumns = columnMappings.some(m => m.ninjaColumn === 'Phone Number' || m.ninjaColumn === 'Subscriber Name');
+          const hasRogersColumns = columnMappings.some(m => m.ninjaColumn === 'Subscriber Number' || m.ninjaColumn === 'Device Description');
+          const hasNinjaColumns = columnMappings.some(m => m.ninjaColumn === 'Role' || m.ninjaColumn === 'Volumes');
+          
+          if (hasTelusColumns) {
+            sourceType = 'telus';
+          } else if (hasRogersColumns) {
+            sourceType = 'rogers';
+          } else if (hasNinjaColumns) {
+            // Check if it's a server based on Role column
+            const role = csvRow['Role'];
+            const isServerRole = role && ['WINDOWS_SERVER', 'LINUX_SERVER', 'HYPER-V_SERVER', 'VMWARE_SERVER', 'SERVER'].includes(role.toUpperCase());
+            sourceType = isServerRole ? 'ninjaone-servers' : 'ninjaone';
+          } else {
+            sourceType = 'bgc-template';
+          }
+        }
+
+        if (sourceType) {
+          console.log(`🔧 Using shared transformation for source type: ${sourceType}`);
+          
+          // Transform the row using shared modules
+          transformationResult = transformImportRow(sourceType, csvRow);
+        } else {
+          console.log(`🔧 Skipping transformation for ${context.mappingOnly ? 'custom spreadsheet' : 'invoice'} import - using direct mappings only`);
+          
+          // For invoice and custom spreadsheet imports, use direct mappings without transformation
+          transformationResult = {
+            directFields: {},
+            specifications: {},
+            customFields: {},
+            processingNotes: [],
+            validationErrors: []
+          };
+        }
+        
+        console.log(`✅ Transformation result:`, {
+          directFields: Object.keys(transformationResult.directFields),
+          specifications: Object.keys(transformationResult.specifications),
+          processingNotes: transformationResult.processingNotes.length,
+          validationErrors: transformationResult.validationErrors.length
+        });
+
+        // Apply transformation results to assetData
+        Object.assign(assetData, transformationResult.directFields);
+        assetData.specifications = { ...assetData.specifications, ...transformationResult.specifications };
+
+        // Handle custom fields if any
+        if (transformationResult.customFields && Object.keys(transformationResult.customFields).length > 0) {
+          assetData.customFields = { ...assetData.customFields, ...transformationResult.customFields };
+        }
+
+        // Handle server location resolution
+        if (assetData.locationName && !assetData.locationId) {
+          console.log(`🏢 Resolving server location: ${assetData.locationName}`);
+          // Use the location matcher to find matching location
+          const locationMatches = await matchLocations([assetData.locationName]);
+          const matchedLocationId = locationMatches[assetData.locationName];
+          if (matchedLocationId) {
+            assetData.locationId = matchedLocationId;
+            console.log(`✅ Matched server location "${assetData.locationName}" to location ID: ${matchedLocationId}`);
+          } else {
+            console.log(`⚠️ Could not match server location "${assetData.locationName}" to existing locations`);
+          }
+        }
+        
+        // Always remove locationName as it's not a direct field in the Asset model
+        if ('locationName' in assetData) {
+          delete assetData.locationName;
+        }
+
+        // 🐛 DEBUG: Log what's in assetData before save
+        console.log(`🔍 AssetData before save:`, {
+          directFields: Object.keys(assetData).filter(k => !['specifications', 'customFields'].includes(k)),
+          specifications: assetData.specifications ? Object.keys(assetData.specifications) : [],
+          hasRamInDirect: 'ram' in assetData,
+          hasOperatingSystemInDirect: 'operatingSystem' in assetData
+        });
+
+        // -------------------------------------------------------------------
+        // SECOND-PASS: Apply any UI-provided column mappings that the shared
+        // transformer did NOT cover (e.g. custom column names like "System Model").
+        // We only set a value if that field isn’t already populated.
+        // -------------------------------------------------------------------
+        for (const mapping of columnMappings) {
+          const csvValue = (mapping.ninjaColumn && csvRow[mapping.ninjaColumn]) || mapping.defaultValue;
+          if (!csvValue) continue; // nothing to map
+
+          // Skip if already populated either in direct field or specifications
+          const existingDirectVal = (assetData as any)[mapping.targetField];
+          const placeholderValues = ['unknown', ''];
+          const alreadySetDirect = existingDirectVal !== undefined && !placeholderValues.includes(String(existingDirectVal).toLowerCase());
+          const alreadySetSpec   = assetData.specifications && (mapping.targetField in assetData.specifications);
+          if (alreadySetDirect || alreadySetSpec) continue;
+
+          let transformed: any = csvValue;
+          const namedProcessor = mapping.processor ? IMPORT_PROCESSORS[mapping.processor] : undefined;
+          if (namedProcessor) {
+            transformed = namedProcessor.apply(csvValue);
+            if (transformed === null || transformed === undefined || transformed === '') continue;
+          } else if (mapping.targetField === 'ram') {
+            // Apply simple processors for known fields
+            transformed = simplifyRam(csvValue);
+          } else if (mapping.targetField === 'storage') {
+            transformed = aggregateVolumes(csvValue);
+          }
+
+          if (mapping.targetField.startsWith('cf_')) {
+            const cfId = mapping.targetField.substring(3);
+            assetData.customFields[cfId] = transformed;
+          } else if (DIRECT_ASSET_FIELDS.includes(mapping.targetField)) {
+            assetData[mapping.targetField] = transformed;
+          } else {
+            if (!assetData.specifications) assetData.specifications = {};
+            assetData.specifications[mapping.targetField] = transformed;
+          }
+        }
+
+        // Log any processing notes or validation errors
+        if (transformationResult.processingNotes.length > 0) {
+          console.log(`📝 Processing notes:`, transformationResult.processingNotes);
+        }
+        if (transformationResult.validationErrors.length > 0) {
+          console.log(`⚠️ Validation errors:`, transformationResult.validationErrors);
+        }
+
+      } catch (transformError) {
+        console.error(`❌ Shared transformation failed:`, transformError);
+        
+        // For critical failures, rethrow the error instead of falling back
+        // This ensures we don't accidentally put fields in wrong places
+        const errorMessage = transformError instanceof Error ? transformError.message : String(transformError);
+        throw new Error(`Transformation failed: ${errorMessage}`);
+      }
+
+      // If this is a phone import and serialNumber is empty, fallback to specifications.imei
+      if ((!assetData.serialNumber || !assetData.serialNumber.trim()) &&
+          assetData.assetType === ASSET_TYPES.PHONE &&
+          assetData.specifications?.imei) {
+        assetData.serialNumber = String(assetData.specifications.imei).trim();
+      }
+
+      // Require serial number after fallback attempt
+      if (!assetData.serialNumber || !String(assetData.serialNumber).trim()) {
+        return { success: false, index, skipped: true, error: 'Missing serial number' };
+      }
+
+      // Generate asset tag if not provided or ensure uniqueness
+      if (!assetData.assetTag) {
+        const prefix = assetData.assetType === 'LAPTOP' ? 'LT' : 
+                      assetData.assetType === 'DESKTOP' ? 'DT' : 
+                      assetData.assetType === 'PHONE' ? 'PH' : 'AS';
+        const timestamp = Date.now().toString().slice(-6);
+        const randomSuffix = Math.random().toString(36).substr(2, 3).toUpperCase();
+        assetData.assetTag = `${prefix}-${timestamp}-${randomSuffix}-${(index + 1).toString().padStart(3, '0')}`;
+      } else {
+        // If asset tag is provided but might conflict, add a suffix
+        const existingTagAsset = await db.asset.findFirst({
+          where: { assetTag: assetData.assetTag }
+        });
+        if (existingTagAsset && conflictResolution !== 'overwrite') {
+          const timestamp = Date.now().toString().slice(-6);
+          const randomSuffix = Math.random().toString(36).substr(2, 3).toUpperCase();
+          assetData.assetTag = `${assetData.assetTag}-${timestamp}-${randomSuffix}`;
+        }
+      }
+
+      // Ensure BGC prefix on asset tags that are purely numeric or missing prefix (except for phones)
+      if (assetData.assetType !== ASSET_TYPES.PHONE) {
+        if (assetData.assetTag && /^[0-9]+$/.test(assetData.assetTag.trim())) {
+          assetData.assetTag = `BGC${assetData.assetTag.trim().toUpperCase()}`;
+        } else if (assetData.assetTag && !assetData.assetTag.toUpperCase().startsWith('BGC') && /^[A-Z0-9]+$/.test(assetData.assetTag.trim())) {
+          // Covers cases like "4315" or "bgc4315" (lowercase)
+          assetData.assetTag = `BGC${assetData.assetTag.trim().replace(/^bgc/i, '').toUpperCase()}`;
+        }
+      }
+
+      // Set default values and ensure required fields are present
+      assetData.condition = assetData.condition || 'GOOD';
+      assetData.assetType = assetData.assetType || 'LAPTOP';
+      assetData.make = assetData.make || 'Unknown';
+      assetData.model = assetData.model || 'Unknown';
+      assetData.source = source;
+
+      // Phone-specific processing
+      console.log(`🔍 Asset type check: ${assetData.assetType} (PHONE = ${ASSET_TYPES.PHONE})`);
+      if (assetData.assetType === ASSET_TYPES.PHONE) {
+        console.log(`📱 Phone processing triggered for asset type: ${assetData.assetType}`);
+        // Extract make and storage from device name if model is available
+        if (assetData.model && assetData.model !== 'Unknown') {
+          console.log(`📱 Processing device name: "${assetData.model}"`);
+          const parsedDevice = parseDeviceName(assetData.model);
+          console.log(`📱 Parsed device result:`, parsedDevice);
+          
+          // Only override make if it wasn't explicitly set or is 'Unknown'
+          if (!assetData.make || assetData.make === 'Unknown') {
+            assetData.make = parsedDevice.make;
+          }
+          
+          // Update model to the cleaned version
+          assetData.model = parsedDevice.model;
+          
+          // Add storage to specifications if extracted
+          if (parsedDevice.storage) {
+            if (!assetData.specifications) {
+              assetData.specifications = {};
+            }
+            console.log(`📱 Phone processing: Adding storage "${parsedDevice.storage}" to specifications`);
+            assetData.specifications.storage = parsedDevice.storage;
+          } else {
+            console.log(`📱 No storage extracted from device name`);
+          }
+
+          // Save full raw device descriptor into specifications.operatingSystem so it appears in the "Phone" field of the form
+          if (!assetData.specifications) assetData.specifications = {};
+          if (!assetData.specifications.operatingSystem) {
+            assetData.specifications.operatingSystem = String(csvRow['Device Name'] || assetData.model);
+          }
+        } else {
+          console.log(`📱 No device name to process (model: "${assetData.model}")`);
+        }
+        
+        // Build phone-specific asset tag (always override generic tag)
+        {
+          let phoneAssetTag = 'PH-';
+          
+          // Try to get owner name from resolved user data
+          if (assetData.assignedToAadId) {
+            const normalizedUser = String(assetData.assignedToAadId).trim();
+            const resolvedUser = resolvedUserMap[normalizedUser];
+            
+            if (resolvedUser && resolvedUser.displayName) {
+              // Extract first and last name from display name
+              const nameParts = resolvedUser.displayName.trim().split(' ');
+              if (nameParts.length >= 2) {
+                const firstName = nameParts[0];
+                const lastName = nameParts[nameParts.length - 1]; // Take last word as last name
+                phoneAssetTag += `${firstName} ${lastName}`;
+              } else {
+                // If only one name part, use it as is
+                phoneAssetTag += resolvedUser.displayName.trim();
+              }
+            } else {
+              // Fallback: try to extract name from the original assignedToAadId if it looks like a display name
+              if (normalizedUser.includes(' ')) {
+                const nameParts = normalizedUser.split(' ');
+                if (nameParts.length >= 2) {
+                  const firstName = nameParts[0];
+                  const lastName = nameParts[nameParts.length - 1];
+                  phoneAssetTag += `${firstName} ${lastName}`;
+                } else {
+                  phoneAssetTag += normalizedUser;
+                }
+              } else {
+                phoneAssetTag += normalizedUser;
+              }
+            }
+          }
+          
+          // Always add a unique suffix to prevent conflicts when users have multiple phones
+          const timestamp = Date.now().toString().slice(-6);
+          const randomSuffix = Math.random().toString(36).substr(2, 3).toUpperCase();
+          const indexSuffix = (index + 1).toString().padStart(3, '0');
+          
+          if (phoneAssetTag === 'PH-') {
+            // No user assigned, use generic format
+            phoneAssetTag += `${timestamp}-${randomSuffix}-${indexSuffix}`;
+          } else {
+            // User assigned, add suffix to ensure uniqueness
+            phoneAssetTag += `-${timestamp}-${randomSuffix}-${indexSuffix}`;
+          }
+          
+          assetData.assetTag = phoneAssetTag;
+        }
+
+        // Ensure carrier information (device management exports only know the carrier when reported)
+        if (!assetData.specifications) assetData.specifications = {};
+        if (!supplementarySourceFields(source)) {
+          assetData.specifications.carrier = assetData.specifications.carrier || 'Telus';
+        }
+
+        // If serialNumber missing but IMEI present in specifications, copy it
+        if (!assetData.serialNumber && assetData.specifications.imei) {
+          assetData.serialNumber = String(assetData.specifications.imei);
+        }
+      }
+
+      // --- USER ASSIGNMENT NORMALIZATION & RESOLUTION ---------------------
+      if (assetData.assignedToAadId) {
+        // 1) Trim surrounding whitespace
+        let normalizedUser = String(assetData.assignedToAadId).trim();
+
+        // 2) Drop DOMAIN\ prefix if present
+        if (normalizedUser.includes('\\')) {
+          normalizedUser = normalizedUser.split('\\').pop() as string;
+        }
+
+        // 3) Update assetData with the normalized value (still may be display name)
+        assetData.assignedToAadId = normalizedUser;
+
+        // 4) Check if it's a GUID – skip lookup if so
+        const isGuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(normalizedUser);
+
+        if (!isGuid) {
+          // 5) Attempt to resolve via provided user map (trimmed key)
+          const resolvedUser = resolvedUserMap[normalizedUser];
+
+          if (resolvedUser && resolvedUser.id) {
+            assetData.assignedToAadId = resolvedUser.id;
+            // Resolve office location → locationId if missing
+            if (resolvedUser.officeLocation && !assetData.locationId) {
+              const resolvedLocationId = resolvedLocationMap[resolvedUser.officeLocation];
+              if (resolvedLocationId) {
+                assetData.locationId = resolvedLocationId;
+                logger.debug(`Resolved location from user office: ${resolvedUser.officeLocation} → ${resolvedLocationId}`);
+              }
+            }
+          } else {
+            logger.warn(`Failed to resolve user "${normalizedUser}" – keeping original assignment for manual review`);
+          }
+        }
+      }
+      // --------------------------------------------------------------------
+
+      // Determine status AFTER normalization / resolution
+      if (assetData.assignedToId || assetData.assignedToAadId) {
+        assetData.status = 'ASSIGNED';
+      } else {
+        assetData.status = assetData.status || 'AVAILABLE';
+      }
+
+      // Detect workload category based on rules (only if not explicitly set)
+      let detectedCategoryInfo = null;
+      if (!assetData.workloadCategoryId && workloadCategoryRules.length > 0) {
+        const detectedCategoryId = await detectWorkloadCategory(assetData, workloadCategoryRules);
+        if (detectedCategoryId) {
+          assetData.workloadCategoryId = detectedCategoryId;
+          // Find the rule that matched for statistics
+          const matchedRule = workloadCategoryRules.find(rule => {
+            if (!rule.isActive) return false;
+            const fieldValue = getNestedValue(assetData, rule.sourceField);
+            return matchRule(fieldValue, rule);
+          });
+          if (matchedRule) {
+            detectedCategoryInfo = {
+              categoryName: matchedRule.category.name,
+              ruleName: matchedRule.description || `${matchedRule.sourceField} ${matchedRule.operator} ${matchedRule.value}`
+            };
+          }
+        }
+      }
+
+      // Handle conflict resolution for serial numbers AND asset tags
+      let existingAsset = null;
+      let conflictType = null;
+      
+      // Check for conflicts by serial number first
+      if (assetData.serialNumber) {
+        existingAsset = await db.asset.findFirst({
+          where: { serialNumber: assetData.serialNumber }
+        });
+        if (existingAsset) {
+          conflictType = 'serial number';
+          console.log(`🔍 Found existing asset by serial: ${assetData.serialNumber} -> Asset ID: ${existingAsset.id}, Tag: ${existingAsset.assetTag}, Incoming Tag: ${assetData.assetTag}`);
+        }
+      }
+      
+      // If no serial number conflict, check for asset tag conflict (should be rare now due to safety check above)
+      if (!existingAsset && assetData.assetTag) {
+        existingAsset = await db.asset.findFirst({
+          where: { assetTag: assetData.assetTag }
+        });
+        if (existingAsset) {
+          conflictType = 'asset tag';
+        }
+      }
+
+      // Supplementary sources never take over an asset another source owns, whatever the conflict mode
+      const supplementFields = supplementarySourceFields(source);
+      if (existingAsset && supplementFields && existingAsset.source && existingAsset.source !== source) {
+        const { updatedAsset, fieldChanges } = await supplementExistingAsset(
+          db, existingAsset, assetData, source, supplementFields, context, syncRunId
+        );
+        return {
+          success: true,
+          index,
+          result: { id: updatedAsset.id, assetTag: updatedAsset.assetTag },
+          operation: 'update' as const,
+          changes: fieldChanges,
+          statistics: {
+            assetType: updatedAsset.assetType,
+            status: updatedAsset.status,
+            assignedUser: updatedAsset.assignedToAadId ?? undefined,
+            location: updatedAsset.locationId ?? undefined,
+            categorized: null
+          }
+        };
+      }
+
+      // Custom field rules hold for imports too: a bad value fails the row, fields that do not
+      // apply to the asset type are dropped, and new assets pick up default values and must
+      // fill required fields
+      if (!existingAsset || conflictResolution !== 'skip') {
+        const customFieldCheck = await validateAssetCustomFields({
+          db,
+          assetType: assetData.assetType || existingAsset?.assetType,
+          values: assetData.customFields,
+          assetId: existingAsset?.id,
+          fromImport: true,
+          claimed: claimedCustomFieldValues,
+        });
+        if (customFieldCheck.errors.length) {
+          return { success: false, index, error: customFieldCheck.errors.join('; ') };
+        }
+        assetData.customFields = customFieldCheck.values;
+      }
+
+      if (existingAsset) {
+        if (conflictResolution === 'skip') {
+          return { success: false, index, skipped: true, error: `Duplicate ${conflictType}: ${existingAsset.serialNumber || existingAsset.assetTag}` };
+        } else if (conflictResolution === 'overwrite') {
+          // For serial number conflicts, prioritize the serial number match
+          if (conflictType === 'serial number') {
+            // Check if there's a different asset with the same asset tag
+            const conflictingAssetByTag = await db.asset.findFirst({
+              where: { 
+                assetTag: assetData.assetTag,
+                id: { not: existingAsset.id } // Exclude the current asset
+              }
+            });
+            
+            if (conflictingAssetByTag) {
+              // Strategy: Update the existing asset (found by serial) and reassign the conflicting asset
+              console.log(`⚠️ Asset tag conflict detected. Serial match: ${existingAsset.id}, Tag match: ${conflictingAssetByTag.id}`);
+              
+              // Generate a new unique tag for the conflicting asset
+              const timestamp = Date.now().toString().slice(-6);
+              const randomSuffix = Math.random().toString(36).substr(2, 3).toUpperCase();
+              const newTagForConflicting = `${assetData.assetTag}-OLD-${timestamp}-${randomSuffix}`;
+              
+              // Update the conflicting asset with a new tag
+              await journalAsset(syncRunId, conflictingAssetByTag.id, JOURNAL_ACTIONS.UPDATE);
+              await db.asset.update({
+                where: { id: conflictingAssetByTag.id },
+                data: { assetTag: newTagForConflicting }
+              });
+              await recordRunChange(syncRunId, { id: conflictingAssetByTag.id, assetTag: newTagForConflicting }, 'UPDATE', [
+                { field: 'assetTag', from: conflictingAssetByTag.assetTag, to: newTagForConflicting }
+              ]);
+              
+              console.log(`✅ Resolved conflict: Moved asset ${conflictingAssetByTag.id} from tag "${assetData.assetTag}" to "${newTagForConflicting}"`);
+            }
+          } else if (conflictType === 'asset tag') {
+            // For asset tag conflicts, we're updating an asset that was found by tag
+            // No additional checks needed since we found it by the exact tag we want to use
+          }
+
+          // Separate custom fields and workload category from asset data
+          const { customFields, workloadCategoryId, ...assetDataWithoutCustomFields } = assetData;
+
+          // Remove null locationId to prevent foreign key constraint violations
+          if (assetDataWithoutCustomFields.locationId === null || assetDataWithoutCustomFields.locationId === undefined) {
+            delete assetDataWithoutCustomFields.locationId;
+          }
+
+          // -------------------------------------------------------------------
+          // 🔒 SANITIZE: Strip out any properties that are NOT actual columns in
+          // the Prisma Asset model (e.g., `ram`, `operatingSystem`). These should
+          // live inside the JSON `specifications` column instead. Keeping them as
+          // top-level keys causes Prisma validation errors.
+          // -------------------------------------------------------------------
+          delete (assetDataWithoutCustomFields as any).ram;
+          delete (assetDataWithoutCustomFields as any).operatingSystem;
+
+          // Update existing asset
+          const wasRetired = existingAsset.status === 'RETIRED';
+          await journalAsset(syncRunId, existingAsset.id, wasRetired ? JOURNAL_ACTIONS.REACTIVATE : JOURNAL_ACTIONS.UPDATE);
+          const updatedAsset = await db.asset.update({
+            where: { id: existingAsset.id },
+            data: {
+              ...assetDataWithoutCustomFields,
+              specifications: assetData.specifications ? JSON.stringify(assetData.specifications) : undefined,
+              updatedById: context.userId
+            }
+          });
+          // Reassignments from the source close and open custody records like manual edits
+          await syncCustodyWithAssignment(existingAsset, updatedAsset, context.userId, db);
+
+          // If asset was retired and now status changed, log reactivation
+          if (wasRetired && updatedAsset.status !== 'RETIRED') {
+            try {
+              await db.activityLog.create({
+                data: {
+                  entityType: 'asset',
+                  entityId: updatedAsset.id,
+                  action: 'REACTIVATE',
+                  changes: 'Asset re-activated due to presence in import snapshot',
+                  userId: context.userId
+                }
+              });
+            } catch (logErr) {
+              logger.warn('Failed to write reactivation activity log', logErr);
+            }
+          }
+
+          // Honor reactivation override: if was retired and serial not allowed, keep RETIRED
+          let finalStatus = updatedAsset.status;
+          if (wasRetired && updatedAsset.status !== 'RETIRED' && reactivationAllowSerials.length > 0) {
+            if (!reactivationAllowSerials.includes(String(assetData.serialNumber))) {
+              logger.info(`KEEPING asset RETIRED: ${updatedAsset.assetTag} (serial ${assetData.serialNumber}) - not in reactivation allow list`);
+              await db.asset.update({ where: { id: updatedAsset.id }, data: { status: 'RETIRED' } });
+              finalStatus = 'RETIRED';
+            } else {
+              logger.info(`ALLOWING reactivation: ${updatedAsset.assetTag} (serial ${assetData.serialNumber}) - in allow list`);
+            }
+          }
+
+          // Upsert ExternalSourceLink (presence tracking) for supported sources only
+          if (isPresenceTrackedSource(source) && assetData.serialNumber) {
+            await upsertPresenceLink(db, source, assetData, updatedAsset.id, syncRunId);
+
+            // Also ensure the asset's serialNumber matches what we're tracking
+            if (updatedAsset.serialNumber !== assetData.serialNumber) {
+              logger.warn(`Asset serial mismatch during update: DB has ${updatedAsset.serialNumber}, import has ${assetData.serialNumber}`);
+            }
+          }
+
+          // Field-level diff for the run's "what changed" view
+          const fieldChanges: FieldChange[] = diffAssetFields(
+            existingAsset,
+            { ...updatedAsset, status: finalStatus },
+            Object.keys(assetDataWithoutCustomFields)
+          );
+
+          // Update custom field values if any
+          if (customFields && Object.keys(customFields).length > 0) {
+            const previousValues = await db.customFieldValue.findMany({
+              where: { assetId: updatedAsset.id },
+              select: { fieldId: true, value: true }
+            });
+            fieldChanges.push(...diffCustomFields(previousValues, customFields));
+
+            await db.customFieldValue.deleteMany({
+              where: { assetId: updatedAsset.id }
+            });
+
+            for (const [fieldId, value] of Object.entries(customFields)) {
+              if (value) {
+                await db.customFieldValue.create({
+                  data: {
+                    assetId: updatedAsset.id,
+                    fieldId: fieldId,
+                    value: String(value)
+                  }
+                });
+              }
+            }
+          }
+
+          // Update workload category assignment if detected
+          if (workloadCategoryId) {
+            // Remove existing workload category assignments
+            await db.assetWorkloadCategory.deleteMany({
+              where: { assetId: updatedAsset.id }
+            });
+            
+            // Add new workload category assignment
+            await db.assetWorkloadCategory.create({
+              data: {
+                assetId: updatedAsset.id,
+                categoryId: workloadCategoryId
+              }
+            });
+          }
+
+          await recordRunChange(
+            syncRunId,
+            updatedAsset,
+            wasRetired && finalStatus !== 'RETIRED' ? 'REACTIVATE' : 'UPDATE',
+            fieldChanges
+          );
+
+          // Log activity
+          await db.activityLog.create({
+            data: {
+              entityType: 'asset',
+              entityId: updatedAsset.id,
+              action: 'UPDATE',
+              changes: `Asset updated via bulk import (overwrite conflict)`,
+              userId: context.userId
+            }
+          });
+
+          return { 
+            success: true, 
+            index, 
+            result: { id: updatedAsset.id, assetTag: updatedAsset.assetTag },
+            operation: 'update' as const,
+            reactivated: wasRetired && updatedAsset.status !== 'RETIRED',
+            changes: fieldChanges,
+            statistics: {
+              assetType: assetData.assetType,
+              status: assetData.status,
+              assignedUser: assetData.assignedToAadId,
+              location: assetData.locationId,
+              categorized: detectedCategoryInfo ? {
+                assetTag: updatedAsset.assetTag,
+                categoryName: detectedCategoryInfo.categoryName,
+                ruleName: detectedCategoryInfo.ruleName
+              } : null
+            }
+          };
+        }
+      }
+
+      // Separate custom fields and workload category from asset data
+      const { customFields, workloadCategoryId, ...assetDataWithoutCustomFields } = assetData;
+
+      // Remove null locationId to prevent foreign key constraint violations
+      if (assetDataWithoutCustomFields.locationId === null || assetDataWithoutCustomFields.locationId === undefined) {
+        delete assetDataWithoutCustomFields.locationId;
+      }
+
+      // -------------------------------------------------------------------
+      // 🔒 SANITIZE: Ensure unsupported top-level fields are moved into the
+      // `specifications` JSON blob (rather than simply discarded).
+      // -------------------------------------------------------------------
+      if ((assetDataWithoutCustomFields as any).operatingSystem) {
+        if (!assetData.specifications) assetData.specifications = {};
+        assetData.specifications.operatingSystem = (assetDataWithoutCustomFields as any).operatingSystem;
+      }
+      delete (assetDataWithoutCustomFields as any).ram;
+      delete (assetDataWithoutCustomFields as any).operatingSystem;
+
+      // Final safety check for new assets: ensure asset tag is absolutely unique
+      // This only applies to new asset creation, not updates
+      let tagAttempts = 0;
+      let finalAssetTag = assetData.assetTag;
+      while (tagAttempts < 5) {
+        const existingTagAsset = await db.asset.findFirst({
+          where: { assetTag: finalAssetTag }
+        });
+        if (!existingTagAsset) {
+          break; // Tag is unique, we can use it
+        }
+        
+        // Tag is taken, generate a new one
+        tagAttempts++;
+        const timestamp = Date.now().toString().slice(-6);
+        const randomSuffix = Math.random().toString(36).substr(2, 4).toUpperCase();
+        finalAssetTag = `${assetData.assetTag}-${timestamp}-${randomSuffix}`;
+        logger.warn(`Asset tag conflict for NEW asset ${assetData.assetTag}, trying ${finalAssetTag} (attempt ${tagAttempts})`);
+      }
+      
+      if (tagAttempts >= 5) {
+        return { success: false, index, error: `Could not generate unique asset tag after 5 attempts for ${assetData.assetTag}` };
+      }
+      
+      // Update the asset data with the final unique tag
+      assetData.assetTag = finalAssetTag;
+      assetDataWithoutCustomFields.assetTag = finalAssetTag;
+
+      // Create new asset
+      const newAsset = await db.asset.create({
+        data: {
+          ...assetDataWithoutCustomFields,
+          specifications: assetData.specifications ? JSON.stringify(assetData.specifications) : undefined,
+          createdById: context.userId,
+          updatedById: context.userId
+        }
+      });
+      await journalAsset(syncRunId, newAsset.id, JOURNAL_ACTIONS.CREATE, { created: true });
+      // A row that names a holder starts the asset's custody history with them
+      await syncCustodyWithAssignment(
+        { ...newAsset, assignedToId: null, assignedToAadId: null },
+        newAsset,
+        context.userId,
+        db
+      );
+
+      // Upsert ExternalSourceLink (presence tracking) for supported sources only.
+      // A link can outlive a deleted asset, in which case it is moved to the new one.
+      if (isPresenceTrackedSource(source) && assetData.serialNumber) {
+        await upsertPresenceLink(db, source, assetData, newAsset.id, syncRunId);
+      }
+
+      // Link a single shared document (invoice) to each created asset, if provided
+      if (context.documentId) {
+        try {
+          await db.assetDocument.create({
+            data: {
+              assetId: newAsset.id,
+              documentId: context.documentId,
+            },
+          });
+        } catch (e) {
+          logger.warn('Failed to link document to asset', e);
+        }
+      }
+
+      // Create custom field values if any
+      if (customFields && Object.keys(customFields).length > 0) {
+        for (const [fieldId, value] of Object.entries(customFields)) {
+          if (value) {
+            await db.customFieldValue.create({
+              data: {
+                assetId: newAsset.id,
+                fieldId: fieldId,
+                value: String(value)
+              }
+            });
+          }
+        }
+      }
+
+      // Assign workload category if detected
+      if (workloadCategoryId) {
+        await db.assetWorkloadCategory.create({
+          data: {
+            assetId: newAsset.id,
+            categoryId: workloadCategoryId
+          }
+        });
+      }
+
+      // Log activity
+      await db.activityLog.create({
+        data: {
+          entityType: 'asset',
+          entityId: newAsset.id,
+          action: 'CREATE',
+          changes: `Asset created via bulk import`,
+          userId: context.userId
+        }
+      });
+
+      return { 
+        success: true, 
+        index, 
+        result: { id: newAsset.id, assetTag: newAsset.assetTag },
+        operation: 'create' as const,
+        // Include statistics for tracking
+        statistics: {
+          assetType: assetData.assetType,
+          status: assetData.status,
+          assignedUser: assetData.assignedToAadId,
+          location: assetData.locationId,
+          categorized: detectedCategoryInfo ? {
+            assetTag: newAsset.assetTag,
+            categoryName: detectedCategoryInfo.categoryName,
+            ruleName: detectedCategoryInfo.ruleName
+          } : null
+        }
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { 
+        success: false, 
+        index, 
+        error: errorMessage 
+      };
+    }
+  });
+
+  // Wait for all promises to settle and return results
+  const batchResults = await Promise.allSettled(batchPromises);
+  
+  return batchResults.map((result, idx) => {
+    if (result.status === 'fulfilled') {
+      return result.value;
+    } else {
+      return {
+        success: false,
+        index: assetBatch[idx].index,
+        error: result.reason?.message || 'Unknown error'
+      };
+    }
+  });
+}
+
+// Utility: normalize source identifier from frontend to canonical source label stored in DB
+export function normalizeImportSource(src: string | undefined): string {
+  if (!src) return 'BULK_UPLOAD';
+  const lower = src.toLowerCase();
+  if (lower === 'ninjaone') return 'NINJAONE';
+  if (lower === 'intune') return 'INTUNE';
+  if (lower === 'bgc-template' || lower === 'custom-excel') return 'EXCEL';
+  if (lower === 'invoice') return 'INVOICE';
+  if (lower === 'telus') return 'TELUS';
+  if (lower === 'rogers') return 'ROGERS';
+  if (lower === 'bell') return 'BELL';
+  if (lower === 'verizon') return 'VERIZON';
+  if (lower === 'excetel') return 'EXCETEL';
+  const defined = definedSourceSystem(lower);
+  if (defined) return defined;
+  // Already in canonical form or unknown – default to upper-case for safety
+  return src.toUpperCase();
+}
+
+// Delete presence links whose externalId no longer matches their asset's serial number
+export async function cleanOrphanedLinks(source: string, syncRunId: string | null): Promise<number> {
+  logger.info(`Cleaning orphaned ExternalSourceLinks for source ${source}`);
+  const orphanedLinks = await (prisma as any).externalSourceLink.findMany({
+    where: { sourceSystem: source },
+    include: { asset: { select: { id: true, serialNumber: true } } }
+  });
+
+  let cleanedCount = 0;
+  for (const link of orphanedLinks) {
+    // If the link's externalId doesn't match the asset's serialNumber, it's orphaned
+    if (link.asset && link.externalId !== link.asset.serialNumber) {
+      try {
+        await journalLink(syncRunId, link.id, JOURNAL_ACTIONS.LINK_DELETE, link);
+        await (prisma as any).externalSourceLink.delete({ where: { id: link.id } });
+        cleanedCount++;
+        logger.info(`Deleted orphaned link: externalId=${link.externalId}, asset.serialNumber=${link.asset.serialNumber}`);
+      } catch (e) {
+        logger.warn(`Failed to delete orphaned link ${link.id}:`, e);
+      }
+    }
+  }
+  if (cleanedCount > 0) {
+    logger.info(`Cleaned ${cleanedCount} orphaned ExternalSourceLinks`);
+  }
+  return cleanedCount;
+}
+
+/**
+ * End-of-run presence sweep for a full snapshot: links not seen since syncStartTime are
+ * marked missing, and their assets are retired unless another source still reports them
+ * or the user unticked them in the preview. Safe to re-run; retired assets are skipped.
+ */
+export async function retireMissingAssets(options: {
+  source: string;
+  syncStartTime: Date;
+  syncRunId: string | null;
+  retireSkipAssetIds: string[];
+  userId: string;
+}): Promise<Array<{ id: string; assetTag: string }>> {
+  const { source, syncStartTime, syncRunId, retireSkipAssetIds, userId } = options;
+  const retiredAssets: Array<{ id: string; assetTag: string }> = [];
+  logger.info('Running end-of-run presence sweep for source', { source });
+
+  // Use lastSeenAt relative to the run's syncStartTime to determine presence.
+  // Any link not touched (upserted) during this run has lastSeenAt < syncStartTime.
+  const allLinks = await (prisma as any).externalSourceLink.findMany({
+    where: { sourceSystem: source },
+    include: {
+      asset: { select: { id: true, assetTag: true, serialNumber: true, status: true } }
+    }
+  });
+
+  logger.info(`Found ${allLinks.length} total links for ${source}`);
+
+  const linksNotSeenThisRun = allLinks.filter((link: any) => new Date(link.lastSeenAt) < syncStartTime);
+
+  // Links to mark missing: were previously present and were not seen in this run
+  const linksToMarkMissing = linksNotSeenThisRun.filter((link: any) => link.isPresent);
+
+  // Links whose assets should be retired: not seen this run and asset not already retired
+  const linksToRetire = linksNotSeenThisRun.filter((link: any) => link.asset && link.asset.status !== 'RETIRED');
+
+  logger.info(`Links to mark as missing: ${linksToMarkMissing.length}`);
+  logger.info(`Assets to retire: ${linksToRetire.length}`);
+
+  linksToRetire.forEach((link: any) => {
+    logger.info(`  Will retire: externalId=${link.externalId} -> assetTag=${link.asset?.assetTag} assetSerial=${link.asset?.serialNumber} (status: ${link.asset?.status})`);
+  });
+
+  // First, mark all missing links as not present
+  // This happens regardless of whether retirement will be skipped - ensures they show up in future imports
+  for (const link of linksToMarkMissing) {
+    try {
+      await journalLink(syncRunId, link.id, JOURNAL_ACTIONS.LINK_MISSING, link);
+      await (prisma as any).externalSourceLink.update({
+        where: { id: link.id },
+        data: { isPresent: false }
+      });
+      logger.info(`Marked as missing: ${link.externalId} -> ${link.asset?.assetTag}`);
+    } catch (err) {
+      logger.error(`Failed to mark link as missing: ${link.id}`, err);
+    }
+  }
+
+  // Then, retire assets that should be retired
+  for (const link of linksToRetire) {
+    try {
+      logger.info(`Processing retirement for: ${link.externalId} -> ${link.asset?.assetTag}`);
+
+      // Check if this asset ID is in the skip list (user unchecked it in the UI)
+      if (retireSkipAssetIds.includes(link.assetId)) {
+        logger.info(`SKIPPING retirement for ${link.asset?.assetTag} (${link.assetId}) - user override`);
+        continue;
+      }
+
+      // Check if this asset has any other present links from different sources
+      const otherPresent = await (prisma as any).externalSourceLink.findFirst({
+        where: {
+          assetId: link.assetId,
+          isPresent: true,
+          sourceSystem: { not: source } // Only check other sources
+        }
+      });
+
+      logger.info(`Other present links for ${link.asset?.assetTag}: ${otherPresent ? 'YES' : 'NO'}`);
+
+      if (!otherPresent) {
+        await journalAsset(syncRunId, link.assetId, JOURNAL_ACTIONS.RETIRE);
+        const retired = await prisma.asset.update({
+          where: { id: link.assetId },
+          data: { status: 'RETIRED', updatedById: userId }
+        });
+
+        logger.info(`Successfully retired asset: ${retired.assetTag} (${retired.id})`);
+        retiredAssets.push({ id: retired.id, assetTag: retired.assetTag });
+        await recordRunChange(syncRunId, retired, 'RETIRE', [
+          { field: 'status', from: link.asset?.status ?? null, to: 'RETIRED' }
+        ]);
+
+        // Audit log
+        await prisma.activityLog.create({
+          data: {
+            entityType: 'asset',
+            entityId: retired.id,
+            assetId: retired.id,
+            action: 'RETIRE',
+            changes: JSON.stringify({
+              description: `Asset retired due to missing from full snapshot for source ${source}`,
+              status: { from: link.asset?.status, to: 'RETIRED' },
+              syncRunId,
+            }),
+            userId
+          }
+        });
+      } else {
+        logger.info(`Asset NOT retired (has other present links): ${link.asset?.assetTag}`);
+      }
+    } catch (sweepErr) {
+      logger.error('Failed to process retirement for link', { linkId: link.id, assetTag: link.asset?.assetTag, error: sweepErr });
+    }
+  }
+
+  return retiredAssets;
+}
+
+export type ImportRowResult = Awaited<ReturnType<typeof processAssetBatch>>[number];
+
+// Dry runs hold their writes open until every batch is done, so allow well beyond Prisma's 5s default
+const DRY_RUN_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Dry runs answer inside the HTTP request and keep write locks on the Asset, CustomFieldValue,
+// ExternalSourceLink and activity rows they touch until the rollback, blocking other writers
+// (including queued imports) for that long. Capping the rows keeps both within a few seconds;
+// larger files should be checked with a sample or imported as a job.
+export const DRY_RUN_MAX_ROWS = 500;
+
+// Thrown to roll back the dry-run transaction once the results are collected
+class DryRunRollback extends Error {}
+
+/**
+ * Run the whole import pipeline (user/location resolution, workload categories, conflict
+ * handling, custom fields) inside a transaction that is always rolled back, and return what
+ * each row would do. No sync run is created, so nothing is journalled or retired. Callers
+ * must keep `assets` within DRY_RUN_MAX_ROWS.
+ */
+export async function dryRunAssetImport(options: {
+  assets: Record<string, string>[];
+  columnMappings: Parameters<typeof processAssetBatch>[1];
+  conflictResolution: 'skip' | 'overwrite';
+  source: string;
+  trackingId: string;
+  context: ImportBatchContext;
+  resolvedUserMap?: Record<string, { id: string; displayName: string; officeLocation?: string } | null>;
+  resolvedLocationMap?: Record<string, string | null>;
+  reactivationAllowSerials?: string[];
+}): Promise<ImportRowResult[]> {
+  const results: ImportRowResult[] = [];
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        // Batches run one after another so later rows see earlier rows' writes, as in a real import
+        for (let startIndex = 0; startIndex < options.assets.length; startIndex += BATCH_SIZE) {
+          const batch = options.assets
+            .slice(startIndex, startIndex + BATCH_SIZE)
+            .map((asset, idx) => ({ asset, index: startIndex + idx }));
+          const batchResults = await processAssetBatch(
+            batch,
+            options.columnMappings,
+            options.conflictResolution,
+            options.source,
+            options.trackingId,
+            { ...options.context, db: tx },
+            options.resolvedUserMap,
+            options.resolvedLocationMap,
+            options.reactivationAllowSerials,
+            null
+          );
+          results.push(...batchResults);
+        }
+        throw new DryRunRollback();
+      },
+      { timeout: DRY_RUN_TIMEOUT_MS }
+    );
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) throw error;
+  }
+  return results;
+}
@@ -0,0 +1,91 @@
+import prisma from './database';
+import logger from '../utils/logger';
+import type { ImportSourceDefinition as ImportSourceDefinitionRow } from '../generated/prisma';
+import {
+  findImportSourceDefinitionBySystem,
+  getImportSourceDefinition,
+  registerImportSourceDefinition,
+  setImportSourceDefinitions,
+  INTUNE_SPECIFICATION_FIELDS,
+  type ImportSourceDefinition,
+} from '@ats/shared-transformations';
+
+// Built-in sources whose full snapshots drive presence tracking and retirement
+const BUILT_IN_PRESENCE_SOURCES = ['NINJAONE', 'NINJAONE_SERVERS', 'TELUS', 'ROGERS', 'BELL', 'VERIZON', 'EXCETEL', 'INTUNE'];
+
+// Built-in phone carrier bills
+const BUILT_IN_CARRIER_SOURCES = ['TELUS', 'ROGERS', 'BELL', 'VERIZON', 'EXCETEL'];
+
+/**
+ * Sources that track presence on assets another source owns. When one of their rows matches
+ * an asset from a different source, the import only fills gaps and refreshes the listed
+ * specification keys instead of overwriting the owner's data.
+ */
+const SUPPLEMENTARY_SOURCES: Record<string, string[]> = {
+  INTUNE: INTUNE_SPECIFICATION_FIELDS,
+};
+
+// Merge the indexed columns back into the stored JSON so the columns stay authoritative
+export function toImportSourceDefinition(row: ImportSourceDefinitionRow): ImportSourceDefinition {
+  const stored = JSON.parse(row.definition || '{}');
+  return {
+    headerKeywords: [],
+    fields: [],
+    ...stored,
+    key: row.key,
+    name: row.name,
+    category: row.category as ImportSourceDefinition['category'],
+    sourceSystem: row.sourceSystem,
+    presenceTracking: row.presenceTracking,
+  };
+}
+
+/**
+ * Register every active definition with the shared transformation registry, replacing what
+ * was loaded before. Called at startup, after admin edits and before each import job, so
+ * edits made on another instance are picked up.
+ */
+export async function loadImportSourceDefinitions(): Promise<number> {
+  const rows = await prisma.importSourceDefinition.findMany({ where: { isActive: true } });
+  setImportSourceDefinitions([]);
+  let loaded = 0;
+  for (const row of rows) {
+    try {
+      registerImportSourceDefinition(toImportSourceDefinition(row));
+      loaded++;
+    } catch (error) {
+      logger.warn(`Skipping import source definition ${row.key}:`, error);
+    }
+  }
+  return loaded;
+}
+
+export function isPresenceTrackedSource(sourceSystem: string): boolean {
+  return (
+    BUILT_IN_PRESENCE_SOURCES.includes(sourceSystem) ||
+    Boolean(findImportSourceDefinitionBySystem(sourceSystem)?.presenceTracking)
+  );
+}
+
+// Carrier bill sources: the built-in carriers plus admin-defined phone sources
+export function isCarrierSource(sourceSystem: string): boolean {
+  return (
+    BUILT_IN_CARRIER_SOURCES.includes(sourceSystem) ||
+    findImportSourceDefinitionBySystem(sourceSystem)?.category === 'phones'
+  );
+}
+
+// Specification keys a supplementary source always refreshes, or undefined for owning sources
+export function supplementarySourceFields(sourceSystem: string): string[] | undefined {
+  return SUPPLEMENTARY_SOURCES[sourceSystem];
+}
+
+// Canonical source system label for a wizard source id that belongs to a definition
+export function definedSourceSystem(sourceKey: string): string | undefined {
+  return getImportSourceDefinition(sourceKey)?.sourceSystem;
+}
+
+// Registry key of the definition that owns a source system label
+export function definedSourceKey(sourceSystem: string): string | undefined {
+  return findImportSourceDefinitionBySystem(sourceSystem)?.key;
+}
@@ -0,0 +1,284 @@
+import prisma from './database';
+import logger from '../utils/logger';
+import config from '../config/index';
+import { ASSET_STATUSES } from '../constants/index';
+import { getDirectoryProvider } from './directoryService';
+import { syncCustodyWithAssignment } from './custodyService';
+
+export const ASSIGNEE_STATUSES = {
+  ACTIVE: 'ACTIVE',
+  DISABLED: 'DISABLED',
+  DELETED: 'DELETED',
+  MOVED: 'MOVED',
+} as const;
+
+export type AssigneeStatus = typeof ASSIGNEE_STATUSES[keyof typeof ASSIGNEE_STATUSES];
+
+// Assignees shown in the leavers report
+const FLAGGED_STATUSES: string[] = [ASSIGNEE_STATUSES.DISABLED, ASSIGNEE_STATUSES.DELETED, ASSIGNEE_STATUSES.MOVED];
+
+// Assets that have left the fleet are not anyone's equipment any more
+const INACTIVE_ASSET_STATUSES: string[] = [ASSET_STATUSES.RETIRED, ASSET_STATUSES.DISPOSED];
+
+// Imports keep unresolved usernames in assignedToAadId for manual review; only ids can be checked
+const AAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// SQL Server caps a statement at 2100 parameters
+const IN_CHUNK_SIZE = 1000;
+
+export interface LeaverCheckSummary {
+  checked: number;
+  leavers: number;
+  movers: number;
+  returned: number;
+}
+
+export interface LeaverReportEntry {
+  aadId: string;
+  displayName: string | null;
+  mail: string | null;
+  status: AssigneeStatus;
+  department: string | null;
+  officeLocation: string | null;
+  previousDepartment: string | null;
+  previousOfficeLocation: string | null;
+  statusChangedAt: Date;
+  assets: Array<{ id: string; assetTag: string; assetType: string; make: string; model: string; serialNumber: string | null; status: string }>;
+}
+
+const sameValue = (a?: string | null, b?: string | null) =>
+  (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+
+/**
+ * Check every distinct assignee of an active asset against the directory. Deleted and disabled
+ * accounts are leavers; a department or office change marks the assignee MOVED until an
+ * admin reviews it. Assignees the directory could not be asked about keep their last state.
+ */
+export async function checkAssignees(now: Date = new Date()): Promise<LeaverCheckSummary> {
+  const rows = await prisma.asset.findMany({
+    where: { assignedToAadId: { not: null }, status: { notIn: INACTIVE_ASSET_STATUSES } },
+    select: { assignedToAadId: true },
+    distinct: ['assignedToAadId'],
+  });
+  const aadIds = rows.map((r) => r.assignedToAadId as string).filter((id) => AAD_ID_PATTERN.test(id));
+
+  const states = await getDirectoryProvider().getDirectoryStates(aadIds);
+  const existing = await prisma.assigneeDirectoryStatus.findMany();
+  const existingById = new Map(existing.map((row) => [row.aadId, row]));
+  const summary: LeaverCheckSummary = { checked: 0, leavers: 0, movers: 0, returned: 0 };
+
+  for (const aadId of aadIds) {
+    if (!states.has(aadId)) continue;
+    const state = states.get(aadId);
+    const previous = existingById.get(aadId);
+    summary.checked++;
+
+    let status: AssigneeStatus;
+    let previousDepartment = previous?.previousDepartment ?? null;
+    let previousOfficeLocation = previous?.previousOfficeLocation ?? null;
+
+    if (!state) {
+      status = ASSIGNEE_STATUSES.DELETED;
+    } else if (!state.accountEnabled) {
+      status = ASSIGNEE_STATUSES.DISABLED;
+    } else if (previous?.status === ASSIGNEE_STATUSES.MOVED) {
+      status = ASSIGNEE_STATUSES.MOVED;
+    } else if (
+      previous &&
+      (!sameValue(previous.department, state.department) || !sameValue(previous.officeLocation, state.officeLocation))
+    ) {
+      status = ASSIGNEE_STATUSES.MOVED;
+      previousDepartment = previous.department;
+      previousOfficeLocation = previous.officeLocation;
+    } else {
+      status = ASSIGNEE_STATUSES.ACTIVE;
+    }
+
+    const changed = previous?.status !== status;
+    if (changed && (status === ASSIGNEE_STATUSES.DELETED || status === ASSIGNEE_STATUSES.DISABLED)) summary.leavers++;
+    if (changed && status === ASSIGNEE_STATUSES.MOVED) summary.movers++;
+    if (changed && status === ASSIGNEE_STATUSES.ACTIVE && previous && previous.status !== ASSIGNEE_STATUSES.MOVED) {
+      summary.returned++;
+    }
+
+    const data = {
+      // A deleted account keeps the details it was last seen with
+      displayName: state?.displayName ?? previous?.displayName ?? null,
+      mail: state ? state.mail ?? null : previous?.mail ?? null,
+      department: state ? state.department ?? null : previous?.department ?? null,
+      officeLocation: state ? state.officeLocation ?? null : previous?.officeLocation ?? null,
+      status,
+      previousDepartment: status === ASSIGNEE_STATUSES.MOVED ? previousDepartment : null,
+      previousOfficeLocation: status === ASSIGNEE_STATUSES.MOVED ? previousOfficeLocation : null,
+      checkedAt: now,
+      ...(changed ? { statusChangedAt: now, reviewedAt: null } : {}),
+    };
+
+    await prisma.assigneeDirectoryStatus.upsert({
+      where: { aadId },
+      create: { aadId, ...data },
+      update: data,
+    });
+  }
+
+  // Forget assignees who no longer hold anything
+  const current = new Set(aadIds);
+  const stale = existing.map((row) => row.aadId).filter((id) => !current.has(id));
+  for (let i = 0; i < stale.length; i += IN_CHUNK_SIZE) {
+    await prisma.assigneeDirectoryStatus.deleteMany({ where: { aadId: { in: stale.slice(i, i + IN_CHUNK_SIZE) } } });
+  }
+
+  return summary;
+}
+
+// Flagged assignees that still hold active assets, most recent change first
+export async function getLeaverReport(): Promise<{ lastCheckedAt: Date | null; entries: LeaverReportEntry[] }> {
+  const latest = await prisma.assigneeDirectoryStatus.findFirst({
+    orderBy: { checkedAt: 'desc' },
+    select: { checkedAt: true },
+  });
+  const flagged = await prisma.assigneeDirectoryStatus.findMany({
+    where: { status: { in: FLAGGED_STATUSES } },
+    orderBy: { statusChangedAt: 'desc' },
+  });
+
+  const assets = [];
+  for (let i = 0; i < flagged.length; i += IN_CHUNK_SIZE) {
+    assets.push(
+      ...(await prisma.asset.findMany({
+        where: {
+          assignedToAadId: { in: flagged.slice(i, i + IN_CHUNK_SIZE).map((f) => f.aadId) },
+          status: { notIn: INACTIVE_ASSET_STATUSES },
+        },
+        select: { id: true, assetTag: true, assetType: true, make: true, model: true, serialNumber: true, status: true, assignedToAadId: true },
+        orderBy: { assetTag: 'asc' },
+      }))
+    );
+  }
+
+  const entries: LeaverReportEntry[] = [];
+  for (const row of flagged) {
+    const held = assets.filter((a) => a.assignedToAadId === row.aadId).map(({ assignedToAadId: _aad, ...asset }) => asset);
+    if (held.length === 0) continue;
+    entries.push({
+      aadId: row.aadId,
+      displayName: row.displayName,
+      mail: row.mail,
+      status: row.status as AssigneeStatus,
+      department: row.department,
+      officeLocation: row.officeLocation,
+      previousDepartment: row.previousDepartment,
+      previousOfficeLocation: row.previousOfficeLocation,
+      statusChangedAt: row.statusChangedAt,
+      assets: held,
+    });
+  }
+
+  return { lastCheckedAt: latest?.checkedAt ?? null, entries };
+}
+
+/**
+ * Unassign assets and mark them RECOVER so they can be collected. Either every active asset
+ * held by the given assignees or the listed assets are recovered.
+ */
+export async function recoverAssets(
+  target: { aadIds?: string[]; assetIds?: string[] },
+  userId: string
+): Promise<{ recovered: number; assetTags: string[] }> {
+  const assets = await prisma.asset.findMany({
+    where: {
+      ...(target.assetIds?.length
+        ? { id: { in: target.assetIds.slice(0, IN_CHUNK_SIZE) }, assignedToAadId: { not: null } }
+        : { assignedToAadId: { in: (target.aadIds ?? []).slice(0, IN_CHUNK_SIZE) } }),
+      status: { notIn: INACTIVE_ASSET_STATUSES },
+    },
+    select: { id: true, assetTag: true, assignedToId: true, assignedToAadId: true, condition: true },
+  });
+
+  const holders = await prisma.assigneeDirectoryStatus.findMany({
+    where: { aadId: { in: Array.from(new Set(assets.map((a) => a.assignedToAadId as string))) } },
+    select: { aadId: true, displayName: true, status: true },
+  });
+  const holderById = new Map(holders.map((h) => [h.aadId, h]));
+
+  const assetTags: string[] = [];
+  for (const asset of assets) {
+    const updated = await prisma.asset.update({
+      where: { id: asset.id },
+      data: { assignedToAadId: null, assignedToId: null, status: ASSET_STATUSES.RECOVER, updatedById: userId },
+      select: { id: true, assignedToId: true, assignedToAadId: true, condition: true },
+    });
+    await syncCustodyWithAssignment(asset, updated, userId);
+
+    const holder = holderById.get(asset.assignedToAadId as string);
+    await prisma.activityLog.create({
+      data: {
+        entityType: 'asset',
+        entityId: asset.id,
+        action: 'UPDATE',
+        changes: `Unassigned from ${holder?.displayName || asset.assignedToAadId}${holder ? ` (${holder.status.toLowerCase()} in Azure AD)` : ''} and marked for recovery`,
+        userId,
+      },
+    });
+    assetTags.push(asset.assetTag);
+  }
+
+  return { recovered: assetTags.length, assetTags };
+}
+
+// A reviewed mover is ACTIVE again with the new department/office as the baseline
+export async function markAssigneeReviewed(aadId: string): Promise<boolean> {
+  const result = await prisma.assigneeDirectoryStatus.updateMany({
+    where: { aadId, status: ASSIGNEE_STATUSES.MOVED },
+    data: {
+      status: ASSIGNEE_STATUSES.ACTIVE,
+      previousDepartment: null,
+      previousOfficeLocation: null,
+      statusChangedAt: new Date(),
+      reviewedAt: new Date(),
+    },
+  });
+  return result.count > 0;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+// The check runs when the last one is older than the interval, so restarts do not repeat it
+const POLL_INTERVAL_MS = 60 * 60 * 1000;
+
+export function startLeaverCheck(): void {
+  if (timer) return;
+
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const latest = await prisma.assigneeDirectoryStatus.findFirst({
+        orderBy: { checkedAt: 'desc' },
+        select: { checkedAt: true },
+      });
+      if (latest && Date.now() - latest.checkedAt.getTime() < config.leaverCheck.intervalMs) return;
+
+      const summary = await checkAssignees();
+      logger.info(
+        `Leaver check: ${summary.checked} assignees checked, ${summary.leavers} new leavers, ${summary.movers} movers, ${summary.returned} returned`
+      );
+    } catch (error) {
+      logger.error('Leaver check failed:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  timer = setInterval(tick, Math.min(POLL_INTERVAL_MS, config.leaverCheck.intervalMs));
+  logger.info(`Leaver check started (every ${config.leaverCheck.intervalMs}ms)`);
+  void tick();
+}
+
+export function stopLeaverCheck(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,243 @@
+import prisma from './database';
+import logger from '../utils/logger';
+import config from '../config/index';
+import { ASSET_STATUSES } from '../constants/index';
+import { Prisma } from '../generated/prisma';
+
+export const LIFECYCLE_POLICY_KINDS = {
+  REFRESH_AGE: 'REFRESH_AGE',
+  WARRANTY_EXPIRY: 'WARRANTY_EXPIRY',
+  CONTRACT_END: 'CONTRACT_END',
+} as const;
+
+export const ALERT_SEVERITIES = {
+  INFO: 'INFO',
+  WARNING: 'WARNING',
+  CRITICAL: 'CRITICAL',
+} as const;
+
+export type LifecyclePolicyKind = typeof LIFECYCLE_POLICY_KINDS[keyof typeof LIFECYCLE_POLICY_KINDS];
+
+export const isValidPolicyKind = (kind: string): kind is LifecyclePolicyKind =>
+  Object.values(LIFECYCLE_POLICY_KINDS).includes(kind as LifecyclePolicyKind);
+
+export const isValidAlertSeverity = (severity: string): boolean =>
+  Object.values(ALERT_SEVERITIES).includes(severity as any);
+
+// Assets that have left the fleet never raise alerts
+const INACTIVE_STATUSES: string[] = [ASSET_STATUSES.RETIRED, ASSET_STATUSES.DISPOSED];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface PolicyLike {
+  id: string;
+  kind: string;
+  assetType: string | null;
+  refreshAgeMonths: number | null;
+  leadTimeDays: number | null;
+  severity: string;
+}
+
+interface AlertMatch {
+  message: string;
+  dueDate: Date | null;
+}
+
+export interface EvaluationSummary {
+  policies: number;
+  created: number;
+  reopened: number;
+  resolved: number;
+}
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+function describeEnd(label: string, assetTag: string, end: Date, now: Date): string {
+  const days = Math.ceil((end.getTime() - now.getTime()) / MS_PER_DAY);
+  if (days < 0) return `${assetTag}: ${label} ended ${formatDate(end)} (${-days} days ago)`;
+  if (days === 0) return `${assetTag}: ${label} ends today`;
+  return `${assetTag}: ${label} ends ${formatDate(end)} (in ${days} days)`;
+}
+
+function baseWhere(policy: PolicyLike): Prisma.AssetWhereInput {
+  const where: Prisma.AssetWhereInput = { status: { notIn: INACTIVE_STATUSES } };
+  if (policy.assetType) where.assetType = policy.assetType;
+  return where;
+}
+
+// Work out which assets currently violate a policy
+async function findMatches(policy: PolicyLike, now: Date): Promise<Map<string, AlertMatch>> {
+  const matches = new Map<string, AlertMatch>();
+
+  if (policy.kind === LIFECYCLE_POLICY_KINDS.REFRESH_AGE) {
+    const months = policy.refreshAgeMonths ?? 0;
+    const assets = await prisma.asset.findMany({
+      where: { ...baseWhere(policy), purchaseDate: { lte: addMonths(now, -months) } },
+      select: { id: true, assetTag: true, purchaseDate: true },
+    });
+    for (const asset of assets) {
+      const dueDate = addMonths(asset.purchaseDate!, months);
+      matches.set(asset.id, {
+        message: `${asset.assetTag}: due for refresh (purchased ${formatDate(asset.purchaseDate!)}, ${months}-month cycle)`,
+        dueDate,
+      });
+    }
+    return matches;
+  }
+
+  const horizon = new Date(now.getTime() + (policy.leadTimeDays ?? 0) * MS_PER_DAY);
+
+  if (policy.kind === LIFECYCLE_POLICY_KINDS.WARRANTY_EXPIRY) {
+    const assets = await prisma.asset.findMany({
+      where: { ...baseWhere(policy), warrantyEndDate: { lte: horizon } },
+      select: { id: true, assetTag: true, warrantyEndDate: true },
+    });
+    for (const asset of assets) {
+      matches.set(asset.id, {
+        message: describeEnd('warranty', asset.assetTag, asset.warrantyEndDate!, now),
+        dueDate: asset.warrantyEndDate,
+      });
+    }
+    return matches;
+  }
+
+  if (policy.kind === LIFECYCLE_POLICY_KINDS.CONTRACT_END) {
+    // Contract end dates live in the specifications JSON (phones imported from carrier bills)
+    const assets = await prisma.asset.findMany({
+      where: { ...baseWhere(policy), specifications: { contains: 'contractEndDate' } },
+      select: { id: true, assetTag: true, specifications: true },
+    });
+    for (const asset of assets) {
+      let end: Date | null = null;
+      try {
+        const specs = JSON.parse(asset.specifications || '{}');
+        end = specs.contractEndDate ? new Date(specs.contractEndDate) : null;
+      } catch {
+        end = null;
+      }
+      if (!end || isNaN(end.getTime()) || end > horizon) continue;
+      matches.set(asset.id, { message: describeEnd('contract', asset.assetTag, end, now), dueDate: end });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Bring the stored alerts for one policy in line with the assets that currently match it:
+ * new matches raise alerts, cleared conditions resolve them, and a condition that returns
+ * reopens its alert (dropping old acknowledgements so users see it again).
+ */
+async function syncPolicyAlerts(policy: PolicyLike, now: Date, summary: EvaluationSummary) {
+  const matches = await findMatches(policy, now);
+  const existing = await prisma.lifecycleAlert.findMany({
+    where: { policyId: policy.id },
+    select: { id: true, assetId: true, resolvedAt: true, message: true },
+  });
+  const existingByAsset = new Map(existing.map((a) => [a.assetId, a]));
+
+  for (const [assetId, match] of matches) {
+    const alert = existingByAsset.get(assetId);
+    if (!alert) {
+      await prisma.lifecycleAlert.create({
+        data: {
+          policyId: policy.id,
+          assetId,
+          kind: policy.kind,
+          severity: policy.severity,
+          message: match.message,
+          dueDate: match.dueDate,
+        },
+      });
+      summary.created++;
+    } else if (alert.resolvedAt) {
+      await prisma.$transaction([
+        prisma.alertAcknowledgement.deleteMany({ where: { alertId: alert.id } }),
+        prisma.lifecycleAlert.update({
+          where: { id: alert.id },
+          data: { resolvedAt: null, severity: policy.severity, message: match.message, dueDate: match.dueDate },
+        }),
+      ]);
+      summary.reopened++;
+    } else if (alert.message !== match.message) {
+      await prisma.lifecycleAlert.update({
+        where: { id: alert.id },
+        data: { severity: policy.severity, message: match.message, dueDate: match.dueDate },
+      });
+    }
+  }
+
+  const cleared = existing.filter((a) => !a.resolvedAt && !matches.has(a.assetId)).map((a) => a.id);
+  if (cleared.length > 0) {
+    const result = await prisma.lifecycleAlert.updateMany({
+      where: { id: { in: cleared } },
+      data: { resolvedAt: now },
+    });
+    summary.resolved += result.count;
+  }
+}
+
+// Resolve every open alert of a policy (used when a policy is paused)
+export async function resolvePolicyAlerts(policyId: string): Promise<number> {
+  const result = await prisma.lifecycleAlert.updateMany({
+    where: { policyId, resolvedAt: null },
+    data: { resolvedAt: new Date() },
+  });
+  return result.count;
+}
+
+export async function evaluateLifecyclePolicies(now: Date = new Date()): Promise<EvaluationSummary> {
+  const policies = await prisma.lifecyclePolicy.findMany({ where: { isActive: true } });
+  const summary: EvaluationSummary = { policies: policies.length, created: 0, reopened: 0, resolved: 0 };
+
+  for (const policy of policies) {
+    try {
+      await syncPolicyAlerts(policy, now, summary);
+    } catch (error) {
+      logger.error(`Failed to evaluate lifecycle policy "${policy.name}":`, error);
+    }
+  }
+
+  return summary;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export function startLifecycleEvaluator(): void {
+  if (timer) return;
+
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const summary = await evaluateLifecyclePolicies();
+      if (summary.created || summary.reopened || summary.resolved) {
+        logger.info(
+          `Lifecycle alerts: ${summary.created} created, ${summary.reopened} reopened, ${summary.resolved} resolved`
+        );
+      }
+    } catch (error) {
+      logger.error('Lifecycle evaluation failed:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  timer = setInterval(tick, config.lifecycle.evaluationIntervalMs);
+  logger.info(`Lifecycle alert evaluator started (every ${config.lifecycle.evaluationIntervalMs}ms)`);
+  void tick();
+}
+
+export function stopLifecycleEvaluator(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
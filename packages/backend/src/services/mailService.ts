@@ -0,0 +1,59 @@
+import nodemailer from 'nodemailer';
+import config from '../config/index';
+
+export interface MailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Anything that can deliver a mail message. The SMTP transport is used by default;
+ * tests or alternative providers can swap it out with `setMailTransport`.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+class SmtpMailTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: config.smtp.host,
+    port: config.smtp.port,
+    secure: config.smtp.secure,
+    auth: config.smtp.user ? { user: config.smtp.user, pass: config.smtp.password } : undefined,
+  });
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: config.smtp.from,
+      to: message.to.join(', '),
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments,
+    });
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function setMailTransport(custom: MailTransport | null): void {
+  transport = custom;
+}
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+  if (!config.smtp.host) {
+    throw new Error('SMTP is not configured (set SMTP_HOST)');
+  }
+  transport = new SmtpMailTransport();
+  return transport;
+}
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import config from '../config/index';
+import logger from '../utils/logger';
+
+export interface ProgressTokenClaims {
+  jobId: string;
+  userId: string;
+  exp: number; // seconds since epoch
+}
+
+// EventSource cannot send an Authorization header, so the progress stream takes a short-lived
+// HMAC token in the query string instead. Without a configured secret tokens only verify on
+// the instance that issued them.
+let fallbackSecret: string | null = null;
+
+function signingSecret(): string {
+  if (config.importJobs.progressTokenSecret) return config.importJobs.progressTokenSecret;
+  if (!fallbackSecret) {
+    fallbackSecret = crypto.randomBytes(32).toString('hex');
+    logger.warn('IMPORT_PROGRESS_TOKEN_SECRET is not set; using a per-process secret for import progress tokens');
+  }
+  return fallbackSecret;
+}
+
+const sign = (body: string) => crypto.createHmac('sha256', signingSecret()).update(body).digest('base64url');
+
+// Issue a token that lets `userId` read the progress stream of one job
+export function signProgressToken(jobId: string, userId: string): { token: string; expiresAt: Date } {
+  const exp = Math.floor(Date.now() / 1000) + config.importJobs.progressTokenTtlSeconds;
+  const claims: ProgressTokenClaims = { jobId, userId, exp };
+  const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return { token: `${body}.${sign(body)}`, expiresAt: new Date(exp * 1000) };
+}
+
+// Returns the claims of a valid, unexpired token for `jobId`, otherwise null
+export function verifyProgressToken(token: string, jobId: string): ProgressTokenClaims | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const a = Buffer.from(signature);
+  const b = Buffer.from(sign(body));
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as ProgressTokenClaims;
+    if (claims.jobId !== jobId || typeof claims.userId !== 'string') return null;
+    if (!Number.isFinite(claims.exp) || claims.exp * 1000 < Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,252 @@
+import prisma from './database';
+import { ASSET_STATUSES, ASSET_TYPES } from '../constants/index';
+import { isCarrierSource } from './importSourceService';
+import { syncCustodyWithAssignment } from './custodyService';
+
+export const RECONCILIATION_KINDS = {
+  MISSING_FROM_INTUNE: 'MISSING_FROM_INTUNE',
+  MISSING_FROM_NINJAONE: 'MISSING_FROM_NINJAONE',
+  RETIRED_ON_CARRIER_BILL: 'RETIRED_ON_CARRIER_BILL',
+  FIELD_CONFLICT: 'FIELD_CONFLICT',
+} as const;
+
+export type ReconciliationKind = typeof RECONCILIATION_KINDS[keyof typeof RECONCILIATION_KINDS];
+
+export const isValidReconciliationKind = (kind: string): kind is ReconciliationKind =>
+  Object.values(RECONCILIATION_KINDS).includes(kind as ReconciliationKind);
+
+// Fields compared between sources that report the same serial (see presenceMetadata in importProcessor)
+export const RECONCILED_FIELDS = ['make', 'model', 'assignedToAadId'] as const;
+
+export type ReconciledField = typeof RECONCILED_FIELDS[number];
+
+// Mobile devices are managed in Intune only, so they are never expected in NinjaOne
+const MOBILE_TYPES: string[] = [ASSET_TYPES.PHONE, ASSET_TYPES.TABLET];
+const INACTIVE_STATUSES: string[] = [ASSET_STATUSES.RETIRED, ASSET_STATUSES.DISPOSED];
+
+export interface SourceObservation {
+  sourceSystem: string;
+  isPresent: boolean;
+  lastSeenAt: Date;
+  observed: Partial<Record<ReconciledField, string>>;
+}
+
+export interface FieldConflict {
+  field: ReconciledField;
+  values: Array<{ sourceSystem: string; value: string }>;
+}
+
+export interface ReconciliationItem {
+  kind: ReconciliationKind;
+  fingerprint: string;
+  asset: {
+    id: string;
+    assetTag: string;
+    serialNumber: string | null;
+    assetType: string;
+    status: string;
+    source: string;
+    make: string;
+    model: string;
+    assignedToAadId: string | null;
+  };
+  sources: SourceObservation[];
+  conflicts?: FieldConflict[];
+  ignoreId?: string;
+}
+
+export interface ReconciliationReport {
+  generatedAt: Date;
+  counts: Record<ReconciliationKind, number>;
+  ignoredCount: number;
+  items: ReconciliationItem[];
+}
+
+function parseObserved(metadata: string | null): SourceObservation['observed'] {
+  if (!metadata) return {};
+  try {
+    const parsed = JSON.parse(metadata);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+const normalizeValue = (value: string) => value.trim().toLowerCase();
+
+// Fields on which two or more present sources report different non-empty values
+function findConflicts(sources: SourceObservation[]): FieldConflict[] {
+  const present = sources.filter((s) => s.isPresent);
+  const conflicts: FieldConflict[] = [];
+  for (const field of RECONCILED_FIELDS) {
+    const values = present
+      .filter((s) => s.observed[field])
+      .map((s) => ({ sourceSystem: s.sourceSystem, value: s.observed[field] as string }));
+    if (new Set(values.map((v) => normalizeValue(v.value))).size > 1) {
+      conflicts.push({ field, values });
+    }
+  }
+  return conflicts;
+}
+
+// Conflicts are fingerprinted by their values so an ignore only hides this exact disagreement
+function conflictFingerprint(conflicts: FieldConflict[]): string {
+  return conflicts
+    .map((c) => `${c.field}:${c.values.map((v) => `${v.sourceSystem}=${normalizeValue(v.value)}`).sort().join(',')}`)
+    .join(';')
+    .slice(0, 1000);
+}
+
+/**
+ * Compare the sources that report each asset. Assets are flagged when they are present in
+ * NinjaOne but not Intune (or the reverse), still billed by a carrier while RETIRED, or when
+ * two sources report the same serial with a different make, model or assignee.
+ * The NinjaOne/Intune gap checks only run once both sources have been imported.
+ */
+export async function buildReconciliationReport(options: { includeIgnored?: boolean } = {}): Promise<ReconciliationReport> {
+  const links = await prisma.externalSourceLink.findMany({
+    select: {
+      assetId: true,
+      sourceSystem: true,
+      isPresent: true,
+      lastSeenAt: true,
+      metadata: true,
+      asset: {
+        select: {
+          id: true,
+          assetTag: true,
+          serialNumber: true,
+          assetType: true,
+          status: true,
+          source: true,
+          make: true,
+          model: true,
+          assignedToAadId: true,
+        },
+      },
+    },
+  });
+
+  const ignores = await prisma.reconciliationIgnore.findMany({
+    select: { id: true, assetId: true, kind: true, fingerprint: true },
+  });
+  const ignoreByKey = new Map(ignores.map((i) => [`${i.assetId}:${i.kind}`, i]));
+
+  const byAsset = new Map<string, { asset: ReconciliationItem['asset']; sources: SourceObservation[] }>();
+  const seenSources = new Set<string>();
+  for (const link of links) {
+    seenSources.add(link.sourceSystem);
+    const entry = byAsset.get(link.assetId) ?? { asset: link.asset, sources: [] };
+    entry.sources.push({
+      sourceSystem: link.sourceSystem,
+      isPresent: link.isPresent,
+      lastSeenAt: link.lastSeenAt,
+      observed: parseObserved(link.metadata),
+    });
+    byAsset.set(link.assetId, entry);
+  }
+  const compareEndpoints = seenSources.has('NINJAONE') && seenSources.has('INTUNE');
+
+  const items: ReconciliationItem[] = [];
+  let ignoredCount = 0;
+  const add = (item: ReconciliationItem) => {
+    const ignore = ignoreByKey.get(`${item.asset.id}:${item.kind}`);
+    if (ignore && ignore.fingerprint === item.fingerprint) {
+      ignoredCount++;
+      if (!options.includeIgnored) return;
+      item.ignoreId = ignore.id;
+    }
+    items.push(item);
+  };
+
+  for (const { asset, sources } of byAsset.values()) {
+    const presentIn = (source: string) => sources.some((s) => s.sourceSystem === source && s.isPresent);
+    const active = !INACTIVE_STATUSES.includes(asset.status);
+
+    if (compareEndpoints && active) {
+      if (presentIn('NINJAONE') && !presentIn('INTUNE')) {
+        add({ kind: RECONCILIATION_KINDS.MISSING_FROM_INTUNE, fingerprint: RECONCILIATION_KINDS.MISSING_FROM_INTUNE, asset, sources });
+      }
+      if (presentIn('INTUNE') && !presentIn('NINJAONE') && !MOBILE_TYPES.includes(asset.assetType)) {
+        add({ kind: RECONCILIATION_KINDS.MISSING_FROM_NINJAONE, fingerprint: RECONCILIATION_KINDS.MISSING_FROM_NINJAONE, asset, sources });
+      }
+    }
+
+    if (asset.status === ASSET_STATUSES.RETIRED && sources.some((s) => s.isPresent && isCarrierSource(s.sourceSystem))) {
+      add({ kind: RECONCILIATION_KINDS.RETIRED_ON_CARRIER_BILL, fingerprint: RECONCILIATION_KINDS.RETIRED_ON_CARRIER_BILL, asset, sources });
+    }
+
+    const conflicts = findConflicts(sources);
+    if (conflicts.length > 0) {
+      add({ kind: RECONCILIATION_KINDS.FIELD_CONFLICT, fingerprint: conflictFingerprint(conflicts), asset, sources, conflicts });
+    }
+  }
+
+  const counts = Object.fromEntries(
+    Object.values(RECONCILIATION_KINDS).map((kind) => [kind, items.filter((i) => i.kind === kind && !i.ignoreId).length])
+  ) as Record<ReconciliationKind, number>;
+
+  items.sort((a, b) => a.kind.localeCompare(b.kind) || a.asset.assetTag.localeCompare(b.asset.assetTag));
+  return { generatedAt: new Date(), counts, ignoredCount, items };
+}
+
+/**
+ * Fix a discrepancy on the asset. RETIRED_ON_CARRIER_BILL reactivates it; FIELD_CONFLICT takes
+ * the value the chosen source reported. The NinjaOne/Intune gaps are fixed in those systems
+ * (enrol or remove the device) and can only be ignored here.
+ */
+export async function fixReconciliationItem(
+  input: { assetId: string; kind: ReconciliationKind; field?: string; sourceSystem?: string },
+  userId: string
+): Promise<{ error?: string; status?: number; asset?: { id: string; assetTag: string } }> {
+  const asset = await prisma.asset.findUnique({
+    where: { id: input.assetId },
+    include: { externalSourceLinks: true },
+  });
+  if (!asset) return { status: 404, error: 'Asset not found' };
+
+  let data: Record<string, any>;
+  let description: string;
+
+  if (input.kind === RECONCILIATION_KINDS.RETIRED_ON_CARRIER_BILL) {
+    if (asset.status !== ASSET_STATUSES.RETIRED) return { status: 409, error: 'Asset is no longer retired' };
+    data = { status: asset.assignedToAadId || asset.assignedToId ? ASSET_STATUSES.ASSIGNED : ASSET_STATUSES.AVAILABLE };
+    description = `Reactivated from reconciliation: still billed by ${asset.externalSourceLinks
+      .filter((l) => l.isPresent && isCarrierSource(l.sourceSystem))
+      .map((l) => l.sourceSystem)
+      .join(', ')}`;
+  } else if (input.kind === RECONCILIATION_KINDS.FIELD_CONFLICT) {
+    if (!input.field || !(RECONCILED_FIELDS as readonly string[]).includes(input.field)) {
+      return { status: 400, error: `field must be one of: ${RECONCILED_FIELDS.join(', ')}` };
+    }
+    const link = asset.externalSourceLinks.find((l) => l.sourceSystem === input.sourceSystem && l.isPresent);
+    const value = link ? parseObserved(link.metadata)[input.field as ReconciledField] : undefined;
+    if (!value) return { status: 400, error: `${input.sourceSystem || 'Source'} did not report ${input.field} for this asset` };
+
+    data = { [input.field]: value };
+    if (input.field === 'assignedToAadId' && asset.status === ASSET_STATUSES.AVAILABLE) {
+      data.status = ASSET_STATUSES.ASSIGNED;
+    }
+    description = `Reconciled ${input.field} from ${input.sourceSystem}: "${(asset as any)[input.field] ?? ''}" → "${value}"`;
+  } else {
+    return { status: 400, error: 'This discrepancy is fixed in the source system; it can only be ignored' };
+  }
+
+  const updated = await prisma.asset.update({
+    where: { id: asset.id },
+    data: { ...data, updatedById: userId },
+  });
+  await syncCustodyWithAssignment(asset, updated, userId);
+
+  await prisma.activityLog.create({
+    data: {
+      entityType: 'asset',
+      entityId: asset.id,
+      action: 'UPDATE',
+      changes: description,
+      userId,
+    },
+  });
+
+  return { asset: { id: updated.id, assetTag: updated.assetTag } };
+}
@@ -0,0 +1,326 @@
+import prisma from './database';
+import { Prisma } from '../generated/prisma';
+import { isValidAssetStatus, isValidAssetType } from '../constants/index';
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+}
+
+export interface ReportTable {
+  key: string;
+  title: string;
+  columns: ReportColumn[];
+  rows: Record<string, string | number>[];
+}
+
+export type ReportParams = Record<string, string | undefined>;
+
+interface ReportDefinition {
+  title: string;
+  description: string;
+  build: (params: ReportParams) => Promise<Omit<ReportTable, 'key' | 'title'>>;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Filters shared by every report
+function buildAssetWhere(params: ReportParams): Prisma.AssetWhereInput {
+  const where: Prisma.AssetWhereInput = {};
+  if (params.assetType && isValidAssetType(params.assetType)) where.assetType = params.assetType;
+  if (params.status && isValidAssetStatus(params.status)) where.status = params.status;
+  if (params.departmentId) where.departmentId = params.departmentId;
+  if (params.locationId) where.locationId = params.locationId;
+  if (params.vendorId) where.vendorId = params.vendorId;
+  return where;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Age in whole years since purchase, bucketed
+async function buildAgingReport(params: ReportParams) {
+  const assets = await prisma.asset.findMany({
+    where: buildAssetWhere(params),
+    select: { purchaseDate: true, purchasePrice: true },
+  });
+
+  const buckets = ['< 1 year', '1-2 years', '2-3 years', '3-4 years', '4-5 years', '5+ years', 'Unknown'];
+  const totals = new Map(buckets.map((b) => [b, { count: 0, totalCost: 0 }]));
+  const now = Date.now();
+
+  for (const asset of assets) {
+    let bucket = 'Unknown';
+    if (asset.purchaseDate) {
+      const years = Math.floor((now - asset.purchaseDate.getTime()) / (365.25 * MS_PER_DAY));
+      bucket = buckets[Math.min(Math.max(years, 0), 5)];
+    }
+    const entry = totals.get(bucket)!;
+    entry.count += 1;
+    entry.totalCost += Number(asset.purchasePrice ?? 0);
+  }
+
+  return {
+    columns: [
+      { key: 'bucket', label: 'Age' },
+      { key: 'count', label: 'Assets' },
+      { key: 'totalCost', label: 'Purchase Cost' },
+    ],
+    rows: buckets.map((bucket) => ({
+      bucket,
+      count: totals.get(bucket)!.count,
+      totalCost: roundMoney(totals.get(bucket)!.totalCost),
+    })),
+  };
+}
+
+// Days until warranty end, bucketed
+async function buildWarrantyReport(params: ReportParams) {
+  const assets = await prisma.asset.findMany({
+    where: buildAssetWhere(params),
+    select: { warrantyEndDate: true },
+  });
+
+  const buckets: { label: string; maxDays: number }[] = [
+    { label: 'Expired', maxDays: -1 },
+    { label: '0-30 days', maxDays: 30 },
+    { label: '31-90 days', maxDays: 90 },
+    { label: '91-180 days', maxDays: 180 },
+    { label: '181-365 days', maxDays: 365 },
+    { label: '> 1 year', maxDays: Infinity },
+  ];
+  const counts = new Map<string, number>([...buckets.map((b) => [b.label, 0] as [string, number]), ['Unknown', 0]]);
+  const now = Date.now();
+
+  for (const asset of assets) {
+    if (!asset.warrantyEndDate) {
+      counts.set('Unknown', counts.get('Unknown')! + 1);
+      continue;
+    }
+    const days = Math.floor((asset.warrantyEndDate.getTime() - now) / MS_PER_DAY);
+    const bucket = buckets.find((b) => days <= b.maxDays)!;
+    counts.set(bucket.label, counts.get(bucket.label)! + 1);
+  }
+
+  return {
+    columns: [
+      { key: 'bucket', label: 'Warranty Ends' },
+      { key: 'count', label: 'Assets' },
+    ],
+    rows: Array.from(counts.entries()).map(([bucket, count]) => ({ bucket, count })),
+  };
+}
+
+// Fleet composition by make, make+model or RAM from specifications
+async function buildCompositionReport(params: ReportParams) {
+  const groupBy = params.groupBy || 'make';
+  const where = buildAssetWhere(params);
+
+  if (groupBy === 'ram') {
+    const assets = await prisma.asset.findMany({ where, select: { specifications: true } });
+    const counts = new Map<string, number>();
+    for (const asset of assets) {
+      let ram = 'Unknown';
+      if (asset.specifications) {
+        try {
+          ram = JSON.parse(asset.specifications).ram || 'Unknown';
+        } catch {
+          // Unparseable specifications fall into Unknown
+        }
+      }
+      counts.set(String(ram), (counts.get(String(ram)) || 0) + 1);
+    }
+    return {
+      columns: [
+        { key: 'ram', label: 'RAM' },
+        { key: 'count', label: 'Assets' },
+      ],
+      rows: Array.from(counts.entries())
+        .map(([ram, count]) => ({ ram, count }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+
+  if (groupBy === 'model') {
+    const groups = await prisma.asset.groupBy({ by: ['make', 'model'], where, _count: { _all: true } });
+    return {
+      columns: [
+        { key: 'make', label: 'Make' },
+        { key: 'model', label: 'Model' },
+        { key: 'count', label: 'Assets' },
+      ],
+      rows: groups
+        .map((g) => ({ make: g.make, model: g.model, count: g._count._all }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+
+  const groups = await prisma.asset.groupBy({ by: ['make'], where, _count: { _all: true } });
+  return {
+    columns: [
+      { key: 'make', label: 'Make' },
+      { key: 'count', label: 'Assets' },
+    ],
+    rows: groups.map((g) => ({ make: g.make, count: g._count._all })).sort((a, b) => b.count - a.count),
+  };
+}
+
+async function buildLocationReport(params: ReportParams) {
+  const [groups, locations] = await Promise.all([
+    prisma.asset.groupBy({ by: ['locationId'], where: buildAssetWhere(params), _count: { _all: true } }),
+    prisma.location.findMany({ select: { id: true, city: true, province: true, country: true } }),
+  ]);
+  const names = new Map(locations.map((l) => [l.id, `${l.city}, ${l.province}`]));
+
+  return {
+    columns: [
+      { key: 'location', label: 'Location' },
+      { key: 'count', label: 'Assets' },
+    ],
+    rows: groups
+      .map((g) => ({ location: (g.locationId && names.get(g.locationId)) || 'Unassigned', count: g._count._all }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+async function buildDepartmentReport(params: ReportParams) {
+  const [groups, departments] = await Promise.all([
+    prisma.asset.groupBy({ by: ['departmentId'], where: buildAssetWhere(params), _count: { _all: true } }),
+    prisma.department.findMany({ select: { id: true, name: true } }),
+  ]);
+  const names = new Map(departments.map((d) => [d.id, d.name]));
+
+  return {
+    columns: [
+      { key: 'department', label: 'Department' },
+      { key: 'count', label: 'Assets' },
+    ],
+    rows: groups
+      .map((g) => ({ department: (g.departmentId && names.get(g.departmentId)) || 'Unassigned', count: g._count._all }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+// Purchase spend by vendor or by purchase month, optionally limited to a date range
+async function buildSpendReport(params: ReportParams) {
+  const where: Prisma.AssetWhereInput = { ...buildAssetWhere(params), purchasePrice: { not: null } };
+  if (params.from || params.to) {
+    where.purchaseDate = {
+      ...(params.from && { gte: new Date(params.from) }),
+      ...(params.to && { lte: new Date(params.to) }),
+    };
+  }
+
+  if (params.groupBy === 'month') {
+    const assets = await prisma.asset.findMany({ where, select: { purchaseDate: true, purchasePrice: true } });
+    const totals = new Map<string, { count: number; spend: number }>();
+    for (const asset of assets) {
+      const month = asset.purchaseDate ? asset.purchaseDate.toISOString().slice(0, 7) : 'Unknown';
+      const entry = totals.get(month) || { count: 0, spend: 0 };
+      entry.count += 1;
+      entry.spend += Number(asset.purchasePrice);
+      totals.set(month, entry);
+    }
+    return {
+      columns: [
+        { key: 'month', label: 'Month' },
+        { key: 'count', label: 'Assets' },
+        { key: 'spend', label: 'Spend' },
+      ],
+      rows: Array.from(totals.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, t]) => ({ month, count: t.count, spend: roundMoney(t.spend) })),
+    };
+  }
+
+  const [groups, vendors] = await Promise.all([
+    prisma.asset.groupBy({ by: ['vendorId'], where, _count: { _all: true }, _sum: { purchasePrice: true } }),
+    prisma.vendor.findMany({ select: { id: true, name: true } }),
+  ]);
+  const names = new Map(vendors.map((v) => [v.id, v.name]));
+
+  return {
+    columns: [
+      { key: 'vendor', label: 'Vendor' },
+      { key: 'count', label: 'Assets' },
+      { key: 'spend', label: 'Spend' },
+    ],
+    rows: groups
+      .map((g) => ({
+        vendor: (g.vendorId && names.get(g.vendorId)) || 'No vendor',
+        count: g._count._all,
+        spend: roundMoney(Number(g._sum.purchasePrice ?? 0)),
+      }))
+      .sort((a, b) => b.spend - a.spend),
+  };
+}
+
+export const REPORTS: Record<string, ReportDefinition> = {
+  aging: {
+    title: 'Asset Aging',
+    description: 'Assets bucketed by years since purchase',
+    build: buildAgingReport,
+  },
+  warranty: {
+    title: 'Warranty Expiry',
+    description: 'Assets bucketed by time until warranty end',
+    build: buildWarrantyReport,
+  },
+  composition: {
+    title: 'Fleet Composition',
+    description: 'Asset counts by make, model (groupBy=model) or RAM (groupBy=ram)',
+    build: buildCompositionReport,
+  },
+  locations: {
+    title: 'Assets by Location',
+    description: 'Asset counts per location',
+    build: buildLocationReport,
+  },
+  departments: {
+    title: 'Assets by Department',
+    description: 'Asset counts per department',
+    build: buildDepartmentReport,
+  },
+  spend: {
+    title: 'Spend',
+    description: 'Purchase spend by vendor or by month (groupBy=month)',
+    build: buildSpendReport,
+  },
+};
+
+export function isValidReportKey(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(REPORTS, key);
+}
+
+export async function runReport(key: string, params: ReportParams = {}): Promise<ReportTable> {
+  const definition = REPORTS[key];
+  const result = await definition.build(params);
+  return { key, title: definition.title, ...result };
+}
+
+// Render a report table as CSV text
+export async function reportToCsv(table: ReportTable): Promise<string> {
+  const csvWriter = await import('csv-writer');
+  const csvStringifier = csvWriter.createObjectCsvStringifier({
+    header: table.columns.map((c) => ({ id: c.key, title: c.label })),
+  });
+  return csvStringifier.getHeaderString() + csvStringifier.stringifyRecords(table.rows);
+}
+
+// Render a report table as an XLSX workbook buffer
+export async function reportToXlsx(table: ReportTable): Promise<Buffer> {
+  const ExcelJS = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(table.title.slice(0, 31));
+
+  worksheet.columns = table.columns.map((c) => ({ header: c.label, key: c.key, width: Math.max(12, c.label.length + 4) }));
+  table.rows.forEach((row) => worksheet.addRow(row));
+
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.getRow(1).fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: 'FFE0E0E0' },
+  };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,291 @@
+import { parseExpression } from 'cron-parser';
+import prisma from './database';
+import logger from '../utils/logger';
+import config from '../config/index';
+import { buildAssetOrderBy, buildAssetWhere, findAssigneePage } from './assetFilterService';
+import { getMailTransport } from './mailService';
+import { reportToCsv, runReport, type ReportParams, type ReportTable } from './reportService';
+
+export const SCHEDULE_SOURCE_TYPES = {
+  REPORT: 'REPORT',
+  SAVED_VIEW: 'SAVED_VIEW',
+} as const;
+
+export const SCHEDULE_DELIVERY_TYPES = {
+  EMAIL: 'EMAIL',
+  WEBHOOK: 'WEBHOOK',
+} as const;
+
+export const SCHEDULE_RUN_STATUSES = {
+  RUNNING: 'RUNNING',
+  SUCCESS: 'SUCCESS',
+  FAILED: 'FAILED',
+} as const;
+
+export type ScheduleTrigger = 'SCHEDULED' | 'MANUAL';
+
+// Columns delivered for saved-view digests
+const VIEW_COLUMNS = [
+  { key: 'assetTag', label: 'Asset Tag' },
+  { key: 'assetType', label: 'Type' },
+  { key: 'make', label: 'Make' },
+  { key: 'model', label: 'Model' },
+  { key: 'serialNumber', label: 'Serial Number' },
+  { key: 'status', label: 'Status' },
+  { key: 'assignedTo', label: 'Assigned To' },
+  { key: 'department', label: 'Department' },
+  { key: 'location', label: 'Location' },
+  { key: 'warrantyEndDate', label: 'Warranty End' },
+];
+
+const WEBHOOK_TIMEOUT_MS = 15_000;
+
+// SQL Server caps a statement at 2100 parameters
+const IN_CHUNK_SIZE = 1000;
+
+export function isValidCronExpression(expression: string, timezone?: string | null): boolean {
+  try {
+    parseExpression(expression, { tz: timezone || undefined });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function computeNextRun(expression: string, timezone?: string | null, from: Date = new Date()): Date {
+  return parseExpression(expression, { currentDate: from, tz: timezone || undefined }).next().toDate();
+}
+
+function parseParams(value: string | null): Record<string, string> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+// Run a saved asset view through the same filter logic as the asset list
+async function runSavedView(savedViewId: string): Promise<ReportTable> {
+  const view = await prisma.savedView.findUnique({ where: { id: savedViewId } });
+  if (!view) {
+    throw new Error('Saved view no longer exists');
+  }
+
+  const filters = parseParams(view.filters);
+  const sortBy = view.sortBy || 'createdAt';
+  const sortOrder = view.sortOrder || 'desc';
+  const include = {
+    assignedTo: { select: { displayName: true } },
+    department: { select: { name: true } },
+    location: { select: { city: true, province: true } },
+  };
+
+  const assigneePage = await findAssigneePage(filters, { sortBy, sortOrder, skip: 0, take: config.scheduler.maxRows });
+  let assets;
+  if (assigneePage) {
+    assets = [];
+    for (let i = 0; i < assigneePage.ids.length; i += IN_CHUNK_SIZE) {
+      assets.push(
+        ...(await prisma.asset.findMany({ where: { id: { in: assigneePage.ids.slice(i, i + IN_CHUNK_SIZE) } }, include }))
+      );
+    }
+    const position = new Map(assigneePage.ids.map((id, index) => [id, index]));
+    assets.sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+  } else {
+    assets = await prisma.asset.findMany({
+      where: buildAssetWhere(filters),
+      orderBy: buildAssetOrderBy(sortBy, sortOrder),
+      take: config.scheduler.maxRows,
+      include,
+    });
+  }
+
+  return {
+    key: 'saved-view',
+    title: view.name,
+    columns: VIEW_COLUMNS,
+    rows: assets.map((asset) => ({
+      assetTag: asset.assetTag,
+      assetType: asset.assetType,
+      make: asset.make,
+      model: asset.model,
+      serialNumber: asset.serialNumber ?? '',
+      status: asset.status,
+      assignedTo: asset.assignedTo?.displayName || asset.assignedToAadId || '',
+      department: asset.department?.name ?? '',
+      location: asset.location ? `${asset.location.city}, ${asset.location.province}` : '',
+      warrantyEndDate: asset.warrantyEndDate ? asset.warrantyEndDate.toISOString().split('T')[0] : '',
+    })),
+  };
+}
+
+async function buildScheduleTable(schedule: {
+  sourceType: string;
+  reportKey: string | null;
+  reportParams: string | null;
+  savedViewId: string | null;
+}): Promise<ReportTable> {
+  if (schedule.sourceType === SCHEDULE_SOURCE_TYPES.SAVED_VIEW) {
+    if (!schedule.savedViewId) throw new Error('Saved view no longer exists');
+    return runSavedView(schedule.savedViewId);
+  }
+  if (!schedule.reportKey) throw new Error('Report key is missing');
+  return runReport(schedule.reportKey, parseParams(schedule.reportParams) as ReportParams);
+}
+
+async function deliverByEmail(schedule: { name: string; recipients: string | null }, table: ReportTable, runAt: Date) {
+  const recipients = (schedule.recipients || '')
+    .split(',')
+    .map((r) => r.trim())
+    .filter(Boolean);
+  if (recipients.length === 0) {
+    throw new Error('No email recipients configured');
+  }
+
+  const date = runAt.toISOString().split('T')[0];
+  const slug = table.title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+  await getMailTransport().send({
+    to: recipients,
+    subject: `${schedule.name} - ${date}`,
+    text: `${table.title}: ${table.rows.length} row(s). The full result is attached as CSV.`,
+    attachments: [
+      {
+        filename: `${slug || 'report'}_${date}.csv`,
+        content: await reportToCsv(table),
+        contentType: 'text/csv',
+      },
+    ],
+  });
+}
+
+async function deliverByWebhook(
+  schedule: { id: string; name: string; webhookUrl: string | null },
+  table: ReportTable,
+  runAt: Date
+) {
+  if (!schedule.webhookUrl) {
+    throw new Error('No webhook URL configured');
+  }
+
+  const response = await fetch(schedule.webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      schedule: { id: schedule.id, name: schedule.name },
+      runAt: runAt.toISOString(),
+      report: table,
+    }),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Execute a schedule once: build the table, deliver it and record the run.
+ * Failures are captured on the run record rather than thrown.
+ */
+export async function executeSchedule(scheduleId: string, trigger: ScheduleTrigger) {
+  const schedule = await prisma.reportSchedule.findUnique({ where: { id: scheduleId } });
+  if (!schedule) {
+    throw new Error('Schedule not found');
+  }
+
+  const run = await prisma.reportScheduleRun.create({
+    data: { scheduleId, trigger, status: SCHEDULE_RUN_STATUSES.RUNNING },
+  });
+  const runAt = new Date();
+
+  let status: string = SCHEDULE_RUN_STATUSES.SUCCESS;
+  let rowCount: number | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    const table = await buildScheduleTable(schedule);
+    rowCount = table.rows.length;
+
+    if (schedule.deliveryType === SCHEDULE_DELIVERY_TYPES.WEBHOOK) {
+      await deliverByWebhook(schedule, table, runAt);
+    } else {
+      await deliverByEmail(schedule, table, runAt);
+    }
+  } catch (error) {
+    status = SCHEDULE_RUN_STATUSES.FAILED;
+    errorMessage = (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+    logger.error(`Report schedule "${schedule.name}" failed: ${errorMessage}`);
+  }
+
+  const [finishedRun] = await prisma.$transaction([
+    prisma.reportScheduleRun.update({
+      where: { id: run.id },
+      data: { status, rowCount, error: errorMessage, finishedAt: new Date() },
+    }),
+    prisma.reportSchedule.update({
+      where: { id: scheduleId },
+      data: { lastRunAt: runAt, lastStatus: status },
+    }),
+  ]);
+
+  return finishedRun;
+}
+
+// Run every active schedule whose next run time has passed
+export async function runDueSchedules(now: Date = new Date()): Promise<void> {
+  const due = await prisma.reportSchedule.findMany({
+    where: { isActive: true, nextRunAt: { lte: now } },
+    select: { id: true, name: true, cronExpression: true, timezone: true, nextRunAt: true },
+  });
+
+  for (const schedule of due) {
+    let nextRunAt: Date | null;
+    try {
+      nextRunAt = computeNextRun(schedule.cronExpression, schedule.timezone, now);
+    } catch (error) {
+      logger.error(`Report schedule "${schedule.name}" has an invalid cron expression; deactivating`);
+      nextRunAt = null;
+    }
+
+    // Claim the run by advancing nextRunAt; another instance that got there first wins
+    const claimed = await prisma.reportSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: nextRunAt ? { nextRunAt } : { nextRunAt: null, isActive: false },
+    });
+    if (claimed.count === 0 || !nextRunAt) continue;
+
+    await executeSchedule(schedule.id, 'SCHEDULED');
+  }
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export function startScheduler(): void {
+  if (timer) return;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap when deliveries are slow
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runDueSchedules();
+    } catch (error) {
+      logger.error('Report scheduler tick failed:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  timer = setInterval(tick, config.scheduler.pollIntervalMs);
+  logger.info(`Report scheduler started (polling every ${config.scheduler.pollIntervalMs}ms)`);
+}
+
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,280 @@
+import prisma from './database';
+import logger from '../utils/logger';
+import config from '../config/index';
+import { getDirectoryProvider, type DirectoryEntry, type StaffMember } from './directoryService';
+import type { StaffDirectoryEntry } from '../generated/prisma';
+
+// Imports keep unresolved usernames in assignedToAadId; anything else is a directory id
+const AAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// SQL Server caps a statement at 2100 parameters
+const IN_CHUNK_SIZE = 1000;
+
+const ENTRY_FIELDS = [
+  'displayName',
+  'userPrincipalName',
+  'samAccountName',
+  'mail',
+  'jobTitle',
+  'department',
+  'officeLocation',
+  'mobilePhone',
+  'employeeId',
+  'managerAadId',
+  'accountEnabled',
+] as const;
+
+export interface DirectorySyncSummary {
+  full: boolean;
+  upserted: number;
+  removed: number;
+}
+
+// Only the fields the provider reported, so a delta round never blanks the rest
+function entryData(entry: DirectoryEntry): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const field of ENTRY_FIELDS) {
+    if (entry[field] !== undefined) data[field] = entry[field];
+  }
+  if (entry.businessPhones !== undefined) data.businessPhones = JSON.stringify(entry.businessPhones);
+  return data;
+}
+
+/**
+ * Bring StaffDirectoryEntry up to date from the directory provider. Graph hands back a delta
+ * token, so after the first full sync only changed users are fetched; the CSV directory is
+ * re-read in full each time. Users gone from the directory are kept with deletedAt set.
+ */
+export async function syncStaffDirectory(options: { full?: boolean } = {}): Promise<DirectorySyncSummary> {
+  const provider = config.directory.provider;
+  const state = await prisma.staffDirectorySyncState.findUnique({ where: { provider } });
+  const startedAt = new Date();
+
+  try {
+    const changes = await getDirectoryProvider().getDirectoryChanges(options.full ? null : state?.deltaToken ?? null);
+
+    for (const entry of changes.entries) {
+      const data = entryData(entry);
+      await prisma.staffDirectoryEntry.upsert({
+        where: { aadId: entry.id },
+        create: { aadId: entry.id, ...data, displayName: entry.displayName ?? '', syncedAt: startedAt },
+        update: { ...data, deletedAt: null, syncedAt: startedAt },
+      });
+    }
+
+    let removed = 0;
+    for (let i = 0; i < changes.removedIds.length; i += IN_CHUNK_SIZE) {
+      const result = await prisma.staffDirectoryEntry.updateMany({
+        where: { aadId: { in: changes.removedIds.slice(i, i + IN_CHUNK_SIZE) }, deletedAt: null },
+        data: { deletedAt: startedAt },
+      });
+      removed += result.count;
+    }
+    if (changes.full) {
+      const result = await prisma.staffDirectoryEntry.updateMany({
+        where: { syncedAt: { lt: startedAt }, deletedAt: null },
+        data: { deletedAt: startedAt },
+      });
+      removed += result.count;
+    }
+
+    const syncState = {
+      deltaToken: changes.deltaToken,
+      lastSyncedAt: startedAt,
+      lastFullSyncAt: changes.full ? startedAt : state?.lastFullSyncAt ?? null,
+      lastError: null,
+    };
+    await prisma.staffDirectorySyncState.upsert({
+      where: { provider },
+      create: { provider, ...syncState },
+      update: syncState,
+    });
+
+    return { full: changes.full, upserted: changes.entries.length, removed };
+  } catch (error) {
+    const lastError = (error instanceof Error ? error.message : String(error)).slice(0, 1000);
+    await prisma.staffDirectorySyncState.upsert({
+      where: { provider },
+      create: { provider, lastError },
+      update: { lastError },
+    });
+    throw error;
+  }
+}
+
+export async function getStaffDirectoryStatus() {
+  const provider = config.directory.provider;
+  const [state, entries, removed] = await Promise.all([
+    prisma.staffDirectorySyncState.findUnique({ where: { provider } }),
+    prisma.staffDirectoryEntry.count({ where: { deletedAt: null } }),
+    prisma.staffDirectoryEntry.count({ where: { deletedAt: { not: null } } }),
+  ]);
+  return {
+    provider,
+    lastSyncedAt: state?.lastSyncedAt ?? null,
+    lastFullSyncAt: state?.lastFullSyncAt ?? null,
+    lastError: state?.lastError ?? null,
+    entries,
+    removed,
+  };
+}
+
+export function toStaffMember(entry: StaffDirectoryEntry): StaffMember {
+  let businessPhones: string[] = [];
+  try {
+    businessPhones = entry.businessPhones ? JSON.parse(entry.businessPhones) : [];
+  } catch {
+    businessPhones = [];
+  }
+  return {
+    id: entry.aadId,
+    displayName: entry.displayName,
+    mail: entry.mail ?? undefined,
+    jobTitle: entry.jobTitle ?? undefined,
+    department: entry.department ?? undefined,
+    officeLocation: entry.officeLocation ?? undefined,
+    mobilePhone: entry.mobilePhone ?? undefined,
+    businessPhones,
+    employeeId: entry.employeeId ?? undefined,
+  };
+}
+
+// Before the first sync there is nothing stored, so lookups go to the provider directly
+async function lookupStaffLive(values: string[]): Promise<Map<string, StaffMember | null>> {
+  const result = new Map<string, StaffMember | null>();
+  await Promise.all(
+    values.map(async (value) => {
+      try {
+        if (AAD_ID_PATTERN.test(value)) {
+          result.set(value, await getDirectoryProvider().getStaffMember(value));
+          return;
+        }
+        const resolved = (await getDirectoryProvider().findUsersBySamAccount([value]))[value];
+        result.set(value, resolved?.id ? await getDirectoryProvider().getStaffMember(resolved.id) : null);
+      } catch (error) {
+        logger.warn(`Failed to get staff info for ${value}:`, error);
+        result.set(value, null);
+      }
+    })
+  );
+  return result;
+}
+
+/**
+ * Staff details for assignedToAadId values from the stored directory: ids match directly,
+ * unresolved usernames match a SAM account name, UPN/mail, or UPN prefix. Users removed
+ * from the directory are still returned so past assignees keep a name.
+ */
+export async function lookupStaff(values: string[]): Promise<Map<string, StaffMember | null>> {
+  const distinct = Array.from(new Set(values.filter(Boolean)));
+  const result = new Map<string, StaffMember | null>();
+  if (distinct.length === 0) return result;
+
+  const synced = await prisma.staffDirectorySyncState.findUnique({
+    where: { provider: config.directory.provider },
+    select: { lastSyncedAt: true },
+  });
+  if (!synced?.lastSyncedAt) return lookupStaffLive(distinct);
+
+  const ids = distinct.filter((v) => AAD_ID_PATTERN.test(v));
+  for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+    const entries = await prisma.staffDirectoryEntry.findMany({ where: { aadId: { in: ids.slice(i, i + IN_CHUNK_SIZE) } } });
+    const byId = new Map(entries.map((e) => [e.aadId.toLowerCase(), e]));
+    for (const id of ids.slice(i, i + IN_CHUNK_SIZE)) {
+      const entry = byId.get(id.toLowerCase());
+      result.set(id, entry ? toStaffMember(entry) : null);
+    }
+  }
+
+  // Usernames are rare and bounded by the page size, so one OR query per chunk is fine
+  const usernames = distinct.filter((v) => !AAD_ID_PATTERN.test(v));
+  const USERNAME_CHUNK_SIZE = 200;
+  for (let i = 0; i < usernames.length; i += USERNAME_CHUNK_SIZE) {
+    const chunk = usernames.slice(i, i + USERNAME_CHUNK_SIZE);
+    const entries = await prisma.staffDirectoryEntry.findMany({
+      where: {
+        OR: [
+          { samAccountName: { in: chunk } },
+          { userPrincipalName: { in: chunk } },
+          { mail: { in: chunk } },
+          ...chunk.filter((u) => !u.includes('@')).map((u) => ({ userPrincipalName: { startsWith: `${u}@` } })),
+        ],
+      },
+      orderBy: { deletedAt: 'asc' },
+    });
+
+    for (const username of chunk) {
+      const lower = username.toLowerCase();
+      const live = entries.filter((e) => !e.deletedAt);
+      const match = (list: StaffDirectoryEntry[]) =>
+        list.find((e) => e.samAccountName?.toLowerCase() === lower) ??
+        list.find((e) => e.userPrincipalName?.toLowerCase() === lower || e.mail?.toLowerCase() === lower) ??
+        list.find((e) => e.userPrincipalName?.toLowerCase().startsWith(`${lower}@`));
+      const entry = match(live) ?? match(entries);
+      result.set(username, entry ? toStaffMember(entry) : null);
+    }
+  }
+
+  return result;
+}
+
+export async function getStaffMember(aadId: string): Promise<StaffMember | null> {
+  return (await lookupStaff([aadId])).get(aadId) ?? null;
+}
+
+// Distinct departments and offices of current staff, for filter pickers
+export async function getDirectoryFacets(): Promise<{ departments: string[]; offices: string[] }> {
+  const [departments, offices] = await Promise.all([
+    prisma.staffDirectoryEntry.findMany({
+      where: { deletedAt: null, department: { not: null } },
+      select: { department: true },
+      distinct: ['department'],
+      orderBy: { department: 'asc' },
+    }),
+    prisma.staffDirectoryEntry.findMany({
+      where: { deletedAt: null, officeLocation: { not: null } },
+      select: { officeLocation: true },
+      distinct: ['officeLocation'],
+      orderBy: { officeLocation: 'asc' },
+    }),
+  ]);
+  return {
+    departments: departments.map((d) => d.department as string).filter(Boolean),
+    offices: offices.map((o) => o.officeLocation as string).filter(Boolean),
+  };
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export function startStaffDirectorySync(): void {
+  if (timer) return;
+
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const summary = await syncStaffDirectory();
+      if (summary.full || summary.upserted || summary.removed) {
+        logger.info(
+          `Staff directory ${summary.full ? 'full' : 'delta'} sync: ${summary.upserted} updated, ${summary.removed} removed`
+        );
+      }
+    } catch (error) {
+      logger.error('Staff directory sync failed:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  timer = setInterval(tick, config.directory.syncIntervalMs);
+  logger.info(`Staff directory sync started (every ${config.directory.syncIntervalMs}ms)`);
+  void tick();
+}
+
+export function stopStaffDirectorySync(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
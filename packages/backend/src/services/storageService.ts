@@ -0,0 +1,96 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BlobServiceClient, type ContainerClient } from '@azure/storage-blob';
+import config from '../config/index';
+
+/**
+ * Where binary files (asset attachments, thumbnails) live. Records store the key only,
+ * so the backing store can be swapped with `setStorageAdapter` or the STORAGE_DRIVER setting.
+ */
+export interface StorageAdapter {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskStorageAdapter implements StorageAdapter {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(process.cwd(), root);
+  }
+
+  // Keys are generated server-side, but never let one escape the storage root
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.root, key);
+    if (!fullPath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const fullPath = this.resolve(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export class AzureBlobStorageAdapter implements StorageAdapter {
+  private readonly container: ContainerClient;
+  private ensured: Promise<unknown> | null = null;
+
+  constructor(connectionString: string, containerName: string) {
+    this.container = BlobServiceClient.fromConnectionString(connectionString).getContainerClient(containerName);
+  }
+
+  private ensureContainer() {
+    if (!this.ensured) {
+      this.ensured = this.container.createIfNotExists();
+    }
+    return this.ensured;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.ensureContainer();
+    await this.container.getBlockBlobClient(key).uploadData(data, {
+      blobHTTPHeaders: { blobContentType: contentType },
+    });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return this.container.getBlockBlobClient(key).downloadToBuffer();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.container.getBlockBlobClient(key).deleteIfExists();
+  }
+}
+
+let adapter: StorageAdapter | null = null;
+
+export function setStorageAdapter(custom: StorageAdapter | null): void {
+  adapter = custom;
+}
+
+export function getStorageAdapter(): StorageAdapter {
+  if (adapter) return adapter;
+
+  if (config.storage.driver === 'azure') {
+    if (!config.storage.azureConnectionString) {
+      throw new Error('Blob storage is not configured (set AZURE_STORAGE_CONNECTION_STRING)');
+    }
+    adapter = new AzureBlobStorageAdapter(config.storage.azureConnectionString, config.storage.azureContainer);
+  } else {
+    adapter = new LocalDiskStorageAdapter(config.storage.localDir);
+  }
+  return adapter;
+}
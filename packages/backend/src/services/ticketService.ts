@@ -0,0 +1,44 @@
+import prisma from './database';
+import { Prisma } from '../generated/prisma';
+
+export const DEFAULT_TICKET_SYSTEM = 'Freshservice';
+
+// Helpdesk statuses that count as done; anything else (including no status) is open
+export const CLOSED_TICKET_STATUSES = ['Resolved', 'Closed', 'Cancelled'];
+
+export const openTicketWhere: Prisma.AssetTicketWhereInput = {
+  OR: [{ status: null }, { status: { notIn: CLOSED_TICKET_STATUSES } }],
+};
+
+const TICKET_FIELDS = ['title', 'description', 'status', 'priority'] as const;
+
+/**
+ * Pick the editable ticket fields out of a request body, trimming strings and turning
+ * blanks into null. Fields that are absent are left out so updates stay partial.
+ */
+export function pickTicketFields(body: Record<string, any>): Record<string, string | null> {
+  const data: Record<string, string | null> = {};
+  for (const field of TICKET_FIELDS) {
+    if (body[field] === undefined) continue;
+    const value = body[field] === null ? '' : String(body[field]).trim();
+    data[field] = value || null;
+  }
+  if (data.title) data.title = data.title.slice(0, 255);
+  if (data.status) data.status = data.status.slice(0, 50);
+  if (data.priority) data.priority = data.priority.slice(0, 50);
+  return data;
+}
+
+// Resolve an asset from whichever identifier a helpdesk sends
+export async function findAssetForTicket(ref: { assetId?: string; assetTag?: string; serialNumber?: string }) {
+  if (ref.assetId) {
+    return prisma.asset.findUnique({ where: { id: ref.assetId }, select: { id: true, assetTag: true } });
+  }
+  if (ref.assetTag) {
+    return prisma.asset.findUnique({ where: { assetTag: ref.assetTag }, select: { id: true, assetTag: true } });
+  }
+  if (ref.serialNumber) {
+    return prisma.asset.findFirst({ where: { serialNumber: ref.serialNumber }, select: { id: true, assetTag: true } });
+  }
+  return null;
+}
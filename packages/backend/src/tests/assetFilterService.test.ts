@@ -0,0 +1,100 @@
+/**
+ * Asset list queries: sorting and filtering by assignee through the stored staff directory.
+ * The raw SQL is rebuilt from the mocked $queryRaw calls and checked as text.
+ */
+
+jest.mock('../services/database', () => jest.requireActual('./helpers/mocks').databaseModule);
+jest.mock('../services/ticketService', () => ({ openTicketWhere: { status: { in: ['OPEN'] } } }));
+
+import { Prisma } from '../generated/prisma';
+import { buildAssetOrderBy, buildAssetWhere, findAssigneePage } from '../services/assetFilterService';
+import { prismaMock, resetPrismaMock } from './helpers/mocks';
+
+const page = { sortBy: 'assignedToName', sortOrder: 'asc', skip: 50, take: 25 };
+
+// The page query and the count query, as SQL text with their parameters
+const rawQueries = (): Prisma.Sql[] =>
+  prismaMock.$queryRaw.mock.calls.map(([strings, ...values]: [TemplateStringsArray, ...unknown[]]) =>
+    Prisma.sql(strings, ...values)
+  );
+
+beforeEach(() => {
+  resetPrismaMock();
+  prismaMock.asset.findMany.mockResolvedValue([{ id: 'a1' }, { id: 'a2' }]);
+  prismaMock.$queryRaw.mockImplementation(async (strings: TemplateStringsArray) =>
+    strings.join('').includes('COUNT(*)') ? [{ total: 2 }] : [{ id: 'a2' }, { id: 'a1' }]
+  );
+});
+
+describe('findAssigneePage', () => {
+  it('leaves queries that do not need the directory to Prisma', async () => {
+    await expect(findAssigneePage({ status: 'ASSIGNED' }, { ...page, sortBy: 'assetTag' })).resolves.toBeNull();
+    expect(prismaMock.asset.findMany).not.toHaveBeenCalled();
+  });
+
+  it('sorts by assignee name in SQL over the assets the other filters allow', async () => {
+    const result = await findAssigneePage({ status: 'ASSIGNED' }, page);
+
+    expect(result).toEqual({ ids: ['a2', 'a1'], total: 2 });
+    expect(prismaMock.asset.findMany).toHaveBeenCalledWith({ where: { status: 'ASSIGNED' }, select: { id: true } });
+    const [pageQuery] = rawQueries();
+    expect(pageQuery.sql).toContain('LEFT JOIN [StaffDirectoryEntry] s ON s.aadId = a.assignedToAadId');
+    expect(pageQuery.sql).toContain('ORDER BY s.displayName ASC, u.displayName ASC, a.assetTag ASC');
+    expect(pageQuery.values).toEqual(['["a1","a2"]', 50, 25]);
+  });
+
+  it('narrows by assignee department, office and manager with one parameter per list', async () => {
+    await findAssigneePage(
+      { assigneeDepartment: 'Finance, Legal', assigneeOffice: ['Toronto'], assigneeManager: 'manager-1' },
+      { ...page, sortBy: 'purchaseDate', sortOrder: 'desc' }
+    );
+
+    const [pageQuery] = rawQueries();
+    expect(pageQuery.sql).toContain('s.department IN (SELECT value FROM OPENJSON(?))');
+    expect(pageQuery.sql).toContain('s.officeLocation IN (SELECT value FROM OPENJSON(?))');
+    expect(pageQuery.sql).toContain('s.managerAadId = ?');
+    expect(pageQuery.sql).toContain('ORDER BY a.[purchaseDate] DESC, a.id ASC');
+    expect(pageQuery.values).toEqual(['["a1","a2"]', '["Finance","Legal"]', '["Toronto"]', 'manager-1', 50, 25]);
+  });
+
+  it('matches search terms on asset columns or the assignee name', async () => {
+    prismaMock.asset.findMany
+      .mockResolvedValueOnce([{ id: 'a1' }, { id: 'a2' }])
+      .mockResolvedValueOnce([{ id: 'a2' }]);
+
+    await findAssigneePage({ search: '50%_off' }, { ...page, sortBy: 'createdAt' });
+
+    expect(prismaMock.asset.findMany.mock.calls[0][0].where).toEqual({});
+    expect(prismaMock.asset.findMany.mock.calls[1][0].where.OR).toContainEqual({ assetTag: { contains: '50%_off' } });
+    const [pageQuery] = rawQueries();
+    expect(pageQuery.sql).toContain('OR s.displayName LIKE ?');
+    expect(pageQuery.values.slice(0, 3)).toEqual(['["a1","a2"]', '["a2"]', '%50[%][_]off%']);
+  });
+
+  it('skips the directory query when no asset passes the other filters', async () => {
+    prismaMock.asset.findMany.mockResolvedValue([]);
+
+    await expect(findAssigneePage({}, page)).resolves.toEqual({ ids: [], total: 0 });
+    expect(prismaMock.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('only orders by real asset columns', async () => {
+    await findAssigneePage({ assigneeOffice: 'Ottawa' }, { ...page, sortBy: 'name]; DROP TABLE Asset;--' });
+    expect(rawQueries()[0].sql).toContain('ORDER BY a.[createdAt] ASC');
+  });
+});
+
+describe('buildAssetOrderBy', () => {
+  it('sorts by the column, descending unless asked otherwise', () => {
+    expect(buildAssetOrderBy('purchaseDate', 'asc')).toEqual({ purchaseDate: 'asc' });
+    expect(buildAssetOrderBy('assetTag', 'sideways')).toEqual({ assetTag: 'desc' });
+  });
+});
+
+describe('buildAssetWhere', () => {
+  it('leaves directory filters to findAssigneePage', () => {
+    expect(buildAssetWhere({ status: 'ASSIGNED', assigneeOffice: 'Ottawa', assigneeManager: 'manager-1' })).toEqual({
+      status: 'ASSIGNED',
+    });
+  });
+});
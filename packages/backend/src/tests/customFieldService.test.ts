@@ -0,0 +1,264 @@
+/**
+ * Custom field rules: value normalization, definition checks and per-asset validation.
+ * Prisma is replaced by a small in-memory `db` passed through the service options.
+ */
+
+jest.mock('../services/database', () => ({ __esModule: true, default: {} }));
+
+import type { CustomField } from '../generated/prisma';
+import {
+  buildCustomFieldData,
+  findDuplicateCustomFieldValues,
+  normalizeCustomFieldValue,
+  validateAssetCustomFields,
+  type ClaimedCustomFieldValues,
+} from '../services/customFieldService';
+
+const field = (overrides: Partial<CustomField> = {}): CustomField => ({
+  id: 'f1',
+  name: 'Cost Centre',
+  fieldType: 'STRING',
+  isRequired: false,
+  isActive: true,
+  options: null,
+  pattern: null,
+  minValue: null,
+  maxValue: null,
+  minLength: null,
+  maxLength: null,
+  isUnique: false,
+  assetTypes: null,
+  defaultValue: null,
+  displayOrder: 0,
+  groupName: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+// Just enough of the Prisma client for validateAssetCustomFields
+const fakeDb = (fields: CustomField[], stored: Array<{ fieldId: string; value: string; assetId: string; assetTag: string }> = []) =>
+  ({
+    customField: {
+      findMany: jest.fn(async () => fields),
+    },
+    customFieldValue: {
+      findFirst: jest.fn(async ({ where }: any) => {
+        const match = stored.find(
+          (v) =>
+            v.fieldId === where.fieldId &&
+            v.value.toLowerCase() === String(where.value).toLowerCase() &&
+            (!where.assetId || v.assetId !== where.assetId.not)
+        );
+        return match ? { asset: { assetTag: match.assetTag } } : null;
+      }),
+    },
+  }) as any;
+
+describe('normalizeCustomFieldValue', () => {
+  it('anchors patterns to the whole value', () => {
+    const costCentre = field({ pattern: '[A-Z]{2}\\d{3}' });
+    expect(normalizeCustomFieldValue(costCentre, ' AB123 ')).toEqual({ value: 'AB123' });
+    expect(normalizeCustomFieldValue(costCentre, 'xAB123').error).toBe('Cost Centre is not in the expected format');
+    expect(normalizeCustomFieldValue(costCentre, 'AB1234').error).toBe('Cost Centre is not in the expected format');
+  });
+
+  it('anchors alternations as a whole', () => {
+    const region = field({ name: 'Region', pattern: 'east|west' });
+    expect(normalizeCustomFieldValue(region, 'west').value).toBe('west');
+    expect(normalizeCustomFieldValue(region, 'eastern').error).toBeDefined();
+  });
+
+  it('checks string length', () => {
+    const code = field({ name: 'Code', minLength: 2, maxLength: 4 });
+    expect(normalizeCustomFieldValue(code, 'a').error).toBe('Code must be at least 2 characters');
+    expect(normalizeCustomFieldValue(code, 'abcde').error).toBe('Code must be at most 4 characters');
+    expect(normalizeCustomFieldValue(code, 'abc').value).toBe('abc');
+  });
+
+  it('checks numbers and their range', () => {
+    const seats = field({ name: 'Seats', fieldType: 'NUMBER', minValue: 1, maxValue: 10 });
+    expect(normalizeCustomFieldValue(seats, '4')).toEqual({ value: '4' });
+    expect(normalizeCustomFieldValue(seats, 7.5)).toEqual({ value: '7.5' });
+    expect(normalizeCustomFieldValue(seats, 'four').error).toBe('Seats must be a number');
+    expect(normalizeCustomFieldValue(seats, '0').error).toBe('Seats must be at least 1');
+    expect(normalizeCustomFieldValue(seats, '11').error).toBe('Seats must be at most 10');
+  });
+
+  it('reads yes/no style booleans', () => {
+    const encrypted = field({ name: 'Encrypted', fieldType: 'BOOLEAN' });
+    expect(normalizeCustomFieldValue(encrypted, 'Yes').value).toBe('true');
+    expect(normalizeCustomFieldValue(encrypted, '0').value).toBe('false');
+    expect(normalizeCustomFieldValue(encrypted, 'maybe').error).toBe('Encrypted must be yes or no');
+  });
+
+  it('rejects dates that do not parse', () => {
+    const audited = field({ name: 'Audited', fieldType: 'DATE' });
+    expect(normalizeCustomFieldValue(audited, '2026-03-01').value).toBe('2026-03-01');
+    expect(normalizeCustomFieldValue(audited, 'soon').error).toBe('Audited must be a date');
+  });
+
+  it('matches select options case-insensitively and stores the option spelling', () => {
+    const tier = field({ name: 'Tier', fieldType: 'SINGLE_SELECT', options: JSON.stringify(['Gold', 'Silver']) });
+    expect(normalizeCustomFieldValue(tier, 'gold')).toEqual({ value: 'Gold' });
+    expect(normalizeCustomFieldValue(tier, 'Bronze').error).toBe('Tier must be one of: Gold, Silver');
+  });
+
+  it('stores multi-select values as a de-duplicated JSON list', () => {
+    const apps = field({ name: 'Apps', fieldType: 'MULTI_SELECT', options: JSON.stringify(['Office', 'Teams', 'Zoom']) });
+    expect(normalizeCustomFieldValue(apps, 'office, Teams, OFFICE').value).toBe('["Office","Teams"]');
+    expect(normalizeCustomFieldValue(apps, ['Zoom']).value).toBe('["Zoom"]');
+    expect(normalizeCustomFieldValue(apps, '["teams"]').value).toBe('["Teams"]');
+    expect(normalizeCustomFieldValue(apps, 'Office, Slack').error).toBe('Apps: "Slack" is not one of: Office, Teams, Zoom');
+  });
+});
+
+describe('buildCustomFieldData', () => {
+  it('stores list settings as JSON and blanks as null', () => {
+    const { data, error } = buildCustomFieldData({
+      name: ' Tier ',
+      fieldType: 'SINGLE_SELECT',
+      options: ['Gold', 'Silver'],
+      assetTypes: ['LAPTOP', 'DESKTOP'],
+      groupName: '',
+      displayOrder: '3',
+    });
+    expect(error).toBeUndefined();
+    expect(data).toMatchObject({
+      name: 'Tier',
+      options: '["Gold","Silver"]',
+      assetTypes: '["LAPTOP","DESKTOP"]',
+      groupName: null,
+      displayOrder: 3,
+    });
+  });
+
+  it('rejects unknown types and asset types', () => {
+    expect(buildCustomFieldData({ name: 'X', fieldType: 'COLOUR' }).error).toBe('Invalid custom field type');
+    expect(buildCustomFieldData({ name: 'X', fieldType: 'STRING', assetTypes: ['TOASTER'] }).error).toBe(
+      'Invalid asset types: TOASTER'
+    );
+  });
+
+  it('only allows rules that fit the field type', () => {
+    expect(buildCustomFieldData({ name: 'Seats', fieldType: 'NUMBER', pattern: '\\d+' }).error).toBe(
+      'pattern does not apply to NUMBER fields'
+    );
+    expect(buildCustomFieldData({ name: 'Code', fieldType: 'STRING', minValue: 1 }).error).toBe(
+      'minValue does not apply to STRING fields'
+    );
+    expect(buildCustomFieldData({ name: 'Encrypted', fieldType: 'BOOLEAN', isUnique: true }).error).toBe(
+      'BOOLEAN fields cannot be unique'
+    );
+  });
+
+  it('checks ranges and patterns are usable', () => {
+    expect(buildCustomFieldData({ name: 'Seats', fieldType: 'NUMBER', minValue: 5, maxValue: 1 }).error).toBe(
+      'minValue cannot be greater than maxValue'
+    );
+    expect(buildCustomFieldData({ name: 'Code', fieldType: 'STRING', minLength: 1.5 }).error).toBe(
+      'minLength must be a whole number of characters'
+    );
+    expect(buildCustomFieldData({ name: 'Code', fieldType: 'STRING', pattern: '([A-Z' }).error).toBe(
+      'pattern is not a valid regular expression'
+    );
+  });
+
+  it('normalizes the default value with the field rules', () => {
+    const tier = { name: 'Tier', fieldType: 'SINGLE_SELECT', options: ['Gold', 'Silver'] };
+    expect(buildCustomFieldData({ ...tier, defaultValue: 'silver' }).data?.defaultValue).toBe('Silver');
+    expect(buildCustomFieldData({ ...tier, defaultValue: 'Bronze' }).error).toBe(
+      'Default value: Tier must be one of: Gold, Silver'
+    );
+  });
+
+  it('checks partial updates against the stored definition', () => {
+    const existing = field({ name: 'Code', pattern: '[A-Z]+', defaultValue: 'ABC' });
+    expect(buildCustomFieldData({ maxLength: 5 }, existing)).toEqual({ data: { maxLength: 5 } });
+    expect(buildCustomFieldData({ maxLength: 2 }, existing).error).toBe('Default value: Code must be at most 2 characters');
+    expect(buildCustomFieldData({ fieldType: 'NUMBER' }, existing).error).toBe('pattern does not apply to NUMBER fields');
+  });
+});
+
+describe('validateAssetCustomFields', () => {
+  const costCentre = field({ id: 'cc', name: 'Cost Centre', isRequired: true });
+  const carrier = field({ id: 'carrier', name: 'Carrier', assetTypes: JSON.stringify(['PHONE']), defaultValue: 'Telus' });
+  const imei = field({ id: 'imei', name: 'IMEI', isUnique: true, assetTypes: JSON.stringify(['PHONE']) });
+
+  it('rejects ids of unknown or inactive fields', async () => {
+    const db = fakeDb([costCentre]);
+    const check = await validateAssetCustomFields({ db, assetType: 'LAPTOP', values: { cc: 'A1', gone: 'x' } });
+    expect(check.errors).toEqual(['Invalid custom field IDs: gone']);
+  });
+
+  it('fills defaults and enforces required fields on new assets', async () => {
+    const db = fakeDb([costCentre, carrier]);
+    const phone = await validateAssetCustomFields({ db, assetType: 'PHONE', values: {} });
+    expect(phone.values).toEqual({ carrier: 'Telus' });
+    expect(phone.errors).toEqual(['Cost Centre is required']);
+
+    const laptop = await validateAssetCustomFields({ db, assetType: 'LAPTOP', values: { cc: 'A1' } });
+    expect(laptop).toEqual({ values: { cc: 'A1' }, errors: [] });
+  });
+
+  it('leaves defaults and required fields alone on existing assets', async () => {
+    const db = fakeDb([costCentre, carrier]);
+    const check = await validateAssetCustomFields({ db, assetType: 'PHONE', assetId: 'a1', values: { cc: ' ' } });
+    expect(check).toEqual({ values: {}, errors: [] });
+    expect(db.customField.findMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects fields for other asset types but drops them on import', async () => {
+    const db = fakeDb([costCentre, carrier]);
+    const form = await validateAssetCustomFields({ db, assetType: 'LAPTOP', values: { cc: 'A1', carrier: 'Bell' } });
+    expect(form.errors).toEqual(['Carrier does not apply to LAPTOP assets']);
+
+    const imported = await validateAssetCustomFields({
+      db,
+      assetType: 'LAPTOP',
+      values: { cc: 'A1', carrier: 'Bell' },
+      fromImport: true,
+    });
+    expect(imported).toEqual({ values: { cc: 'A1' }, errors: [] });
+  });
+
+  it('fails imported rows that leave a required field empty on a new asset', async () => {
+    const db = fakeDb([costCentre, carrier]);
+    const created = await validateAssetCustomFields({ db, assetType: 'PHONE', values: { cc: '' }, fromImport: true });
+    expect(created.errors).toEqual(['Cost Centre is required']);
+
+    const updated = await validateAssetCustomFields({ db, assetType: 'PHONE', assetId: 'a1', values: {}, fromImport: true });
+    expect(updated.errors).toEqual([]);
+  });
+
+  it('reports unique values held by another asset', async () => {
+    const db = fakeDb([imei], [{ fieldId: 'imei', value: '3567', assetId: 'a2', assetTag: 'PH-002' }]);
+    const clash = await validateAssetCustomFields({ db, assetType: 'PHONE', values: { imei: '3567' } });
+    expect(clash.errors).toEqual(['IMEI "3567" is already used by asset PH-002']);
+
+    const own = await validateAssetCustomFields({ db, assetType: 'PHONE', assetId: 'a2', values: { imei: '3567' } });
+    expect(own.errors).toEqual([]);
+  });
+
+  it('fails the second row of a batch claiming the same unique value', async () => {
+    const db = fakeDb([imei]);
+    const claimed: ClaimedCustomFieldValues = new Map();
+    const [first, second] = await Promise.all([
+      validateAssetCustomFields({ db, assetType: 'PHONE', values: { imei: 'ab12' }, fromImport: true, claimed }),
+      validateAssetCustomFields({ db, assetType: 'PHONE', values: { imei: 'AB12' }, fromImport: true, claimed }),
+    ]);
+    expect(first.errors).toEqual([]);
+    expect(second.errors).toEqual(['IMEI "AB12" is already used by another row of this import']);
+  });
+});
+
+describe('findDuplicateCustomFieldValues', () => {
+  it('lists values held by more than one asset', async () => {
+    const db = { customFieldValue: { groupBy: jest.fn(async () => [{ value: '3567' }, { value: '8841' }]) } } as any;
+
+    await expect(findDuplicateCustomFieldValues('imei', 5, db)).resolves.toEqual(['3567', '8841']);
+    expect(db.customFieldValue.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { fieldId: 'imei', value: { not: null } }, having: { value: { _count: { gt: 1 } } }, take: 5 })
+    );
+  });
+});
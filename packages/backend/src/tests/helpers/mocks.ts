@@ -0,0 +1,67 @@
+/**
+ * Shared fakes for service tests. Wire them in with
+ *   jest.mock('../services/database', () => jest.requireActual('./helpers/mocks').databaseModule);
+ *   jest.mock('../utils/logger', () => jest.requireActual('./helpers/mocks').loggerModule);
+ * and import `prismaMock` / `loggerMock` from here to stub and inspect the same objects.
+ */
+
+import { Prisma, type PrismaClient } from '../../generated/prisma';
+import type logger from '../../utils/logger';
+
+const DELEGATE_METHODS = [
+  'findUnique',
+  'findFirst',
+  'findMany',
+  'create',
+  'createMany',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+  'count',
+  'aggregate',
+  'groupBy',
+] as const satisfies readonly (keyof Prisma.AssetDelegate)[];
+
+const CLIENT_METHODS = ['$transaction', '$queryRaw', '$executeRaw'] as const satisfies readonly (keyof PrismaClient)[];
+
+type ModelKey = Extract<keyof PrismaClient, Uncapitalize<Prisma.ModelName>>;
+
+export type DelegateMock = Record<(typeof DELEGATE_METHODS)[number], jest.Mock>;
+
+// Every model of the client with a jest.fn per query method; return values are left to each test
+export type PrismaMock = Record<ModelKey, DelegateMock> & Record<(typeof CLIENT_METHODS)[number], jest.Mock>;
+
+const modelKeys = Object.values(Prisma.ModelName).map(
+  (name) => (name.charAt(0).toLowerCase() + name.slice(1)) as ModelKey
+);
+
+export const prismaMock = Object.fromEntries([
+  ...modelKeys.map((model) => [model, Object.fromEntries(DELEGATE_METHODS.map((method) => [method, jest.fn()]))]),
+  ...CLIENT_METHODS.map((method) => [method, jest.fn()]),
+]) as PrismaMock;
+
+export const loggerMock: jest.Mocked<Pick<typeof logger, 'info' | 'warn' | 'error' | 'debug'>> = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+export const databaseModule = { __esModule: true, default: prismaMock };
+export const loggerModule = { __esModule: true, default: loggerMock };
+
+/**
+ * Drop every stub and recorded call. Transactions run against the mock itself: callbacks
+ * get it as their client and arrays of queries are awaited together.
+ */
+export function resetPrismaMock(): void {
+  for (const model of modelKeys) {
+    for (const method of DELEGATE_METHODS) prismaMock[model][method].mockReset();
+  }
+  for (const method of CLIENT_METHODS) prismaMock[method].mockReset();
+  prismaMock.$transaction.mockImplementation(async (queries: unknown) =>
+    typeof queries === 'function' ? queries(prismaMock) : Promise.all(queries as Promise<unknown>[])
+  );
+}
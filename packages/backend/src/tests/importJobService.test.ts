@@ -0,0 +1,226 @@
+/**
+ * Import job queue: cancellation, resuming a stalled job from its next batch and giving up a
+ * job another worker has taken over. The row pipeline is stubbed to create one asset per row,
+ * so only the worker's own bookkeeping is under test.
+ */
+
+jest.mock('../services/database', () => jest.requireActual('./helpers/mocks').databaseModule);
+jest.mock('../utils/logger', () => jest.requireActual('./helpers/mocks').loggerModule);
+jest.mock('../services/importProcessor', () => ({
+  BATCH_SIZE: 2,
+  cleanOrphanedLinks: jest.fn(),
+  processAssetBatch: jest.fn(async (batch: Array<{ index: number }>) =>
+    batch.map(({ index }) => ({
+      success: true,
+      index,
+      operation: 'create',
+      result: { id: `asset-${index}`, assetTag: `TAG-${index}` },
+      statistics: { assetType: 'LAPTOP', status: 'AVAILABLE' },
+    }))
+  ),
+  retireMissingAssets: jest.fn(async () => []),
+}));
+jest.mock('../services/importSourceService', () => ({
+  isPresenceTrackedSource: () => false,
+  loadImportSourceDefinitions: jest.fn(),
+}));
+
+import type { ImportJob } from '../generated/prisma';
+import { processAssetBatch } from '../services/importProcessor';
+import {
+  IMPORT_JOB_STATUSES,
+  requestImportJobCancel,
+  startImportWorker,
+  stopImportWorker,
+  toProgressSnapshot,
+} from '../services/importJobService';
+import { loggerMock, prismaMock, resetPrismaMock } from './helpers/mocks';
+
+const job = (overrides: Partial<ImportJob> = {}): ImportJob => ({
+  id: 'job-1',
+  status: IMPORT_JOB_STATUSES.QUEUED,
+  sourceSystem: 'NINJAONE',
+  payload: JSON.stringify({
+    assets: [{ serial: 'a' }, { serial: 'b' }, { serial: 'c' }],
+    columnMappings: [],
+    conflictResolution: 'overwrite',
+    resolvedUserMap: {},
+    resolvedLocationMap: {},
+    isFullSnapshot: false,
+    retireSkipAssetIds: [],
+    reactivationAllowSerials: [],
+  }),
+  total: 3,
+  processed: 0,
+  successful: 0,
+  failed: 0,
+  skipped: 0,
+  nextBatch: 0,
+  lastEventSeq: 0,
+  progress: null,
+  result: null,
+  error: null,
+  cancelRequested: false,
+  syncRunId: 'run-1',
+  lockedBy: null,
+  heartbeatAt: null,
+  initiatedById: 'user-1',
+  createdAt: new Date('2026-10-01T09:00:00Z'),
+  startedAt: null,
+  finishedAt: null,
+  updatedAt: new Date('2026-10-01T09:00:00Z'),
+  ...overrides,
+});
+
+async function waitFor(check: () => boolean) {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  expect(check()).toBe(true);
+}
+
+// The worker id the job was claimed with, so reloads show this worker still holding it
+const claimedBy = () => prismaMock.importJob.updateMany.mock.calls[0]?.[0].data.lockedBy ?? null;
+
+// Job writes that carry the given status
+const statusWrites = (status: string) =>
+  prismaMock.importJob.updateMany.mock.calls.filter(([args]) => args.data.status === status);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetPrismaMock();
+  prismaMock.importJob.updateMany.mockResolvedValue({ count: 1 });
+});
+
+describe('requestImportJobCancel', () => {
+  it('cancels queued jobs straight away', async () => {
+    const cancelled = job({ status: IMPORT_JOB_STATUSES.CANCELLED, cancelRequested: true });
+    prismaMock.importJob.findUnique.mockResolvedValueOnce(job()).mockResolvedValueOnce(cancelled);
+
+    await expect(requestImportJobCancel('job-1')).resolves.toBe(cancelled);
+    expect(prismaMock.importJob.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'job-1', status: IMPORT_JOB_STATUSES.QUEUED } })
+    );
+    expect(prismaMock.importJob.update).not.toHaveBeenCalled();
+  });
+
+  it('flags running jobs to stop after their current batch', async () => {
+    prismaMock.importJob.findUnique.mockResolvedValue(job({ status: IMPORT_JOB_STATUSES.RUNNING }));
+    prismaMock.importJob.update.mockResolvedValue(job({ status: IMPORT_JOB_STATUSES.RUNNING, cancelRequested: true }));
+
+    await requestImportJobCancel('job-1');
+    expect(prismaMock.importJob.update).toHaveBeenCalledWith({ where: { id: 'job-1' }, data: { cancelRequested: true } });
+  });
+
+  it('leaves finished jobs alone', async () => {
+    const done = job({ status: IMPORT_JOB_STATUSES.COMPLETED });
+    prismaMock.importJob.findUnique.mockResolvedValue(done);
+
+    await expect(requestImportJobCancel('job-1')).resolves.toBe(done);
+    expect(prismaMock.importJob.updateMany).not.toHaveBeenCalled();
+    expect(prismaMock.importJob.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('toProgressSnapshot', () => {
+  it('fills statistics missing from older progress state', () => {
+    const snapshot = toProgressSnapshot(job({ progress: JSON.stringify({ currentItem: 'Processing batch 1/2' }) }));
+    expect(snapshot).toMatchObject({ jobId: 'job-1', currentItem: 'Processing batch 1/2', uniqueUsers: [], assetTypeBreakdown: {} });
+  });
+});
+
+describe('import worker', () => {
+  afterEach(() => stopImportWorker());
+
+  it('resumes a stalled job from its next batch and keeps earlier counts', async () => {
+    const stalled = job({
+      status: IMPORT_JOB_STATUSES.RUNNING,
+      nextBatch: 1,
+      processed: 2,
+      successful: 2,
+      lastEventSeq: 2,
+      startedAt: new Date('2026-10-01T09:01:00Z'),
+      progress: JSON.stringify({ created: [{ id: 'asset-0', assetTag: 'TAG-0' }, { id: 'asset-1', assetTag: 'TAG-1' }] }),
+    });
+    prismaMock.importJob.findFirst.mockResolvedValueOnce(stalled).mockResolvedValue(null);
+    prismaMock.importJob.findUnique.mockImplementation(async () => ({ ...stalled, lockedBy: claimedBy() }));
+
+    startImportWorker();
+    await waitFor(() => statusWrites(IMPORT_JOB_STATUSES.COMPLETED).length > 0);
+
+    expect(processAssetBatch).toHaveBeenCalledTimes(1);
+    expect((processAssetBatch as jest.Mock).mock.calls[0][0]).toEqual([{ asset: { serial: 'c' }, index: 2 }]);
+    expect(prismaMock.importJobEvent.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ jobId: 'job-1', seq: 3, type: 'created', rowIndex: 2 })],
+    });
+
+    const [{ where, data: final }] = statusWrites(IMPORT_JOB_STATUSES.COMPLETED)[0];
+    expect(where).toEqual({ id: 'job-1', lockedBy: claimedBy() });
+    expect(final).toMatchObject({ processed: 3, successful: 3, failed: 0 });
+    expect(JSON.parse(final.result).created.map((a: any) => a.assetTag)).toEqual(['TAG-0', 'TAG-1', 'TAG-2']);
+  });
+
+  it('closes the run of a failed job so its committed batches can be rolled back', async () => {
+    const running = job({ status: IMPORT_JOB_STATUSES.RUNNING, startedAt: new Date('2026-10-01T09:01:00Z') });
+    const failedJob = job({
+      status: IMPORT_JOB_STATUSES.FAILED,
+      processed: 2,
+      successful: 2,
+      progress: JSON.stringify({ created: [{ id: 'asset-0', assetTag: 'TAG-0' }, { id: 'asset-1', assetTag: 'TAG-1' }] }),
+    });
+    prismaMock.importJob.findFirst.mockResolvedValueOnce(running).mockResolvedValue(null);
+    prismaMock.importJob.findUnique
+      .mockImplementationOnce(async () => running)
+      .mockImplementationOnce(async () => ({ ...running, lockedBy: claimedBy() }))
+      .mockResolvedValue(failedJob);
+    prismaMock.importSyncRun.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.$transaction.mockRejectedValue(new Error('Deadlock victim'));
+
+    startImportWorker();
+    await waitFor(() => prismaMock.importSyncRun.updateMany.mock.calls.length > 0);
+
+    expect(statusWrites(IMPORT_JOB_STATUSES.FAILED)[0][0]).toEqual({
+      where: { id: 'job-1', lockedBy: claimedBy() },
+      data: expect.objectContaining({ error: 'Deadlock victim' }),
+    });
+    const { where, data } = prismaMock.importSyncRun.updateMany.mock.calls[0][0];
+    expect(where).toEqual({ id: 'run-1', finishedAt: null });
+    expect(data.finishedAt).toEqual(expect.any(Date));
+    expect(JSON.parse(data.stats)).toMatchObject({ total: 3, successful: 2, created: 2, error: 'Deadlock victim' });
+  });
+
+  it('stops without failing the job once another worker has taken it over', async () => {
+    const stalled = job({ status: IMPORT_JOB_STATUSES.RUNNING, startedAt: new Date('2026-10-01T09:01:00Z') });
+    prismaMock.importJob.findFirst.mockResolvedValueOnce(stalled).mockResolvedValue(null);
+    prismaMock.importJob.findUnique
+      .mockResolvedValueOnce(stalled)
+      .mockResolvedValue({ ...stalled, lockedBy: 'other-host:42:abcdef' });
+
+    startImportWorker();
+    await waitFor(() => loggerMock.warn.mock.calls.some(([message]) => /taken over/.test(String(message))));
+
+    expect(processAssetBatch).not.toHaveBeenCalled();
+    expect(statusWrites(IMPORT_JOB_STATUSES.FAILED)).toEqual([]);
+  });
+
+  it('rolls back a batch commit when the job is no longer held', async () => {
+    const stalled = job({ status: IMPORT_JOB_STATUSES.RUNNING, startedAt: new Date('2026-10-01T09:01:00Z') });
+    const tx = {
+      importJob: { updateMany: jest.fn(async () => ({ count: 0 })) },
+      importJobEvent: { createMany: jest.fn() },
+    };
+    prismaMock.importJob.findFirst.mockResolvedValueOnce(stalled).mockResolvedValue(null);
+    prismaMock.importJob.findUnique.mockImplementation(async () => ({ ...stalled, lockedBy: claimedBy() }));
+    prismaMock.$transaction.mockImplementation(async (fn) => fn(tx));
+
+    startImportWorker();
+    await waitFor(() => loggerMock.warn.mock.calls.some(([message]) => /taken over/.test(String(message))));
+
+    expect(processAssetBatch).toHaveBeenCalledTimes(1);
+    expect(tx.importJob.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'job-1', lockedBy: claimedBy() } })
+    );
+    expect(tx.importJobEvent.createMany).not.toHaveBeenCalled();
+    expect(statusWrites(IMPORT_JOB_STATUSES.FAILED)).toEqual([]);
+  });
+});
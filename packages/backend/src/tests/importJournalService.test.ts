@@ -0,0 +1,98 @@
+/**
+ * Import run rollback: drift detection and which journalled rows a rollback leaves alone.
+ * The journal and current asset rows are canned; stored files are never touched.
+ */
+
+jest.mock('../services/database', () => jest.requireActual('./helpers/mocks').databaseModule);
+jest.mock('../utils/logger', () => jest.requireActual('./helpers/mocks').loggerModule);
+jest.mock('../services/attachmentService', () => ({
+  getAttachmentKeys: jest.fn(async () => []),
+  removeStoredFiles: jest.fn(async () => undefined),
+}));
+
+import { getAttachmentKeys } from '../services/attachmentService';
+import { JOURNAL_ACTIONS, assetDriftReason, rollbackImportRun } from '../services/importJournalService';
+import { prismaMock, resetPrismaMock } from './helpers/mocks';
+
+const finishedAt = new Date('2026-10-01T12:00:00Z');
+const before = new Date('2026-10-01T11:59:00Z');
+const after = new Date('2026-10-02T09:30:00Z');
+const noDependents = { custodyRecords: 0, attachments: 0, tickets: 0 };
+
+describe('assetDriftReason', () => {
+  it('accepts assets untouched since the run', () => {
+    expect(assetDriftReason({ updatedAt: before, _count: noDependents }, finishedAt, false)).toBeNull();
+    expect(assetDriftReason({ updatedAt: finishedAt, _count: noDependents }, finishedAt, true)).toBeNull();
+  });
+
+  it('flags assets edited after the run finished', () => {
+    expect(assetDriftReason({ updatedAt: after, _count: noDependents }, finishedAt, false)).toBe(
+      'Edited 2026-10-02T09:30:00.000Z, after the import finished'
+    );
+  });
+
+  it('flags created assets that gained history, but not changed ones', () => {
+    const held = { custodyRecords: 1, attachments: 2, tickets: 0 };
+    expect(assetDriftReason({ updatedAt: before, _count: held }, finishedAt, true)).toBe(
+      'Has 1 custody record(s), 2 attachment(s)'
+    );
+    expect(assetDriftReason({ updatedAt: before, _count: held }, finishedAt, false)).toBeNull();
+  });
+});
+
+describe('rollbackImportRun', () => {
+  const snapshot = (status: string) => JSON.stringify({ asset: { id: 'x', status }, customFieldValues: [], workloadCategoryIds: [] });
+
+  const current: Record<string, { id: string; assetTag: string; status: string; updatedAt: Date; _count: typeof noDependents }> = {
+    edited: { id: 'edited', assetTag: 'LT-001', status: 'ASSIGNED', updatedAt: after, _count: noDependents },
+    clean: { id: 'clean', assetTag: 'LT-002', status: 'RETIRED', updatedAt: before, _count: noDependents },
+    created: { id: 'created', assetTag: 'LT-003', status: 'AVAILABLE', updatedAt: before, _count: noDependents },
+    checkedOut: {
+      id: 'checkedOut',
+      assetTag: 'LT-004',
+      status: 'ASSIGNED',
+      updatedAt: before,
+      _count: { custodyRecords: 1, attachments: 0, tickets: 0 },
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetPrismaMock();
+    prismaMock.importRunJournal.findMany.mockResolvedValue([
+      { entityType: 'ASSET', entityId: 'edited', action: JOURNAL_ACTIONS.UPDATE, beforeState: snapshot('AVAILABLE') },
+      { entityType: 'ASSET', entityId: 'clean', action: JOURNAL_ACTIONS.RETIRE, beforeState: snapshot('ASSIGNED') },
+      { entityType: 'ASSET', entityId: 'created', action: JOURNAL_ACTIONS.CREATE, beforeState: null },
+      { entityType: 'ASSET', entityId: 'checkedOut', action: JOURNAL_ACTIONS.CREATE, beforeState: null },
+      { entityType: 'LINK', entityId: 'link-edited', action: JOURNAL_ACTIONS.LINK_CREATE, beforeState: null },
+      { entityType: 'LINK', entityId: 'link-created', action: JOURNAL_ACTIONS.LINK_CREATE, beforeState: null },
+    ]);
+    prismaMock.asset.findMany.mockImplementation(async ({ where }) =>
+      where.id.in.map((id: string) => current[id]).filter(Boolean)
+    );
+    prismaMock.asset.findUnique.mockImplementation(async ({ where }) => current[where.id] ?? null);
+    prismaMock.externalSourceLink.findUnique.mockImplementation(async ({ where }) => ({
+      id: where.id,
+      assetId: where.id.replace('link-', ''),
+    }));
+  });
+
+  it('keeps drifted assets and their links, and reports them', async () => {
+    const summary = await rollbackImportRun('run-1', 'user-1', { finishedAt });
+
+    expect(summary).toMatchObject({ assetsRestored: 1, assetsDeleted: 1, linksReverted: 1, skipped: 0 });
+    expect(summary.drifted.map((d) => d.assetTag).sort()).toEqual(['LT-001', 'LT-004']);
+    expect(prismaMock.asset.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'clean' } }));
+    expect(prismaMock.asset.delete).toHaveBeenCalledWith({ where: { id: 'created' } });
+    expect(prismaMock.externalSourceLink.delete).toHaveBeenCalledWith({ where: { id: 'link-created' } });
+    expect(getAttachmentKeys).toHaveBeenCalledWith({ id: { in: ['created'] } });
+    expect(prismaMock.importSyncRun.update).toHaveBeenCalled();
+  });
+
+  it('restores everything when forced', async () => {
+    const summary = await rollbackImportRun('run-1', 'user-1', { finishedAt, force: true });
+
+    expect(summary).toMatchObject({ assetsRestored: 2, assetsDeleted: 2, linksReverted: 2, drifted: [] });
+    expect(prismaMock.asset.findMany).not.toHaveBeenCalled();
+  });
+});
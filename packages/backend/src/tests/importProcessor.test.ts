@@ -0,0 +1,135 @@
+/**
+ * Import dry runs: every write goes through the rolled-back transaction and per-row results
+ * still come back, including custody changes from reassignments. The transaction client is an
+ * in-memory fake of the tables a row touches.
+ */
+
+jest.mock('../services/database', () => jest.requireActual('./helpers/mocks').databaseModule);
+jest.mock('../utils/logger', () => jest.requireActual('./helpers/mocks').loggerModule);
+jest.mock('../services/custodyService', () => ({ syncCustodyWithAssignment: jest.fn() }));
+
+import { syncCustodyWithAssignment } from '../services/custodyService';
+import { DRY_RUN_MAX_ROWS, dryRunAssetImport } from '../services/importProcessor';
+import { prismaMock, resetPrismaMock } from './helpers/mocks';
+
+type StoredAsset = Record<string, any> & { id: string; assetTag: string; serialNumber: string | null };
+
+// Just enough of a Prisma transaction client for custom spreadsheet rows
+const fakeTx = (stored: StoredAsset[] = []) => {
+  const assets = [...stored];
+  const matches = (asset: StoredAsset, where: any) =>
+    (where.serialNumber === undefined || asset.serialNumber === where.serialNumber) &&
+    (where.assetTag === undefined || asset.assetTag === where.assetTag) &&
+    (!where.id?.not || asset.id !== where.id.not);
+  return {
+    assets,
+    workloadCategoryRule: { findMany: jest.fn(async () => []) },
+    customField: { findMany: jest.fn(async () => []) },
+    customFieldValue: { create: jest.fn(), findMany: jest.fn(async () => []), deleteMany: jest.fn() },
+    activityLog: { create: jest.fn() },
+    asset: {
+      findFirst: jest.fn(async ({ where }: any) => assets.find((a) => matches(a, where)) ?? null),
+      create: jest.fn(async ({ data }: any) => {
+        const asset = { id: `asset-${assets.length + 1}`, ...data };
+        assets.push(asset);
+        return asset;
+      }),
+      update: jest.fn(async ({ where, data }: any) => {
+        const at = assets.findIndex((a) => a.id === where.id);
+        assets[at] = { ...assets[at], ...data };
+        return assets[at];
+      }),
+    },
+  };
+};
+
+const columnMappings = [
+  { ninjaColumn: 'Serial', targetField: 'serialNumber', isRequired: true },
+  { ninjaColumn: 'Tag', targetField: 'assetTag', isRequired: false },
+  { ninjaColumn: 'User', targetField: 'assignedToAadId', isRequired: false },
+];
+
+const dryRun = (assets: Record<string, string>[], conflictResolution: 'skip' | 'overwrite' = 'skip') =>
+  dryRunAssetImport({
+    assets,
+    columnMappings,
+    conflictResolution,
+    source: 'EXCEL',
+    trackingId: 'dry-run-1',
+    context: { userId: 'user-1', mappingOnly: true },
+  });
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetPrismaMock();
+});
+
+describe('dryRunAssetImport', () => {
+  it('reports what each row would do and writes only through the transaction', async () => {
+    const tx = fakeTx([{ id: 'existing', assetTag: 'LT-900', serialNumber: 'SN-900', status: 'AVAILABLE' }]);
+    prismaMock.$transaction.mockImplementation(async (fn) => fn(tx));
+
+    const results = await dryRun([
+      { Serial: 'SN-1', Tag: 'LT-001' },
+      { Serial: 'SN-900', Tag: 'LT-900' },
+      { Serial: '', Tag: 'LT-002' },
+    ]);
+
+    expect(results.map(({ index, success, operation, skipped }) => ({ index, success, operation, skipped }))).toEqual([
+      { index: 0, success: true, operation: 'create', skipped: undefined },
+      { index: 1, success: false, operation: undefined, skipped: true },
+      { index: 2, success: false, operation: undefined, skipped: true },
+    ]);
+    expect(results[0].result).toEqual({ id: 'asset-2', assetTag: 'LT-001' });
+    expect(results[1].error).toBe('Duplicate serial number: SN-900');
+    expect(results[2].error).toBe('Missing serial number');
+    expect(tx.asset.create).toHaveBeenCalledTimes(1);
+    expect(tx.activityLog.create).toHaveBeenCalledTimes(1);
+    expect(prismaMock.$transaction).toHaveBeenCalledWith(expect.any(Function), { timeout: 5 * 60 * 1000 });
+  });
+
+  it('moves custody inside the transaction when an overwrite reassigns an asset', async () => {
+    const existing = { id: 'existing', assetTag: 'LT-900', serialNumber: 'SN-900', status: 'ASSIGNED', assignedToAadId: 'aad-old' };
+    const tx = fakeTx([{ ...existing }]);
+    prismaMock.$transaction.mockImplementation(async (fn) => fn(tx));
+
+    const [result] = await dryRun([{ Serial: 'SN-900', Tag: 'LT-900', User: 'aad-new' }], 'overwrite');
+
+    expect(result).toMatchObject({ success: true, operation: 'update' });
+    expect(syncCustodyWithAssignment).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'existing', assignedToAadId: 'aad-old' }),
+      expect.objectContaining({ id: 'existing', assignedToAadId: 'aad-new' }),
+      'user-1',
+      tx
+    );
+  });
+
+  it('opens custody for a new asset whose row names a holder', async () => {
+    const tx = fakeTx();
+    prismaMock.$transaction.mockImplementation(async (fn) => fn(tx));
+
+    const [result] = await dryRun([{ Serial: 'SN-1', Tag: 'LT-001', User: 'aad-new' }]);
+
+    expect(result).toMatchObject({ success: true, operation: 'create' });
+    expect(syncCustodyWithAssignment).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'asset-1', assignedToAadId: null }),
+      expect.objectContaining({ id: 'asset-1', assignedToAadId: 'aad-new' }),
+      'user-1',
+      tx
+    );
+  });
+
+  it('passes on errors other than its own rollback', async () => {
+    prismaMock.$transaction.mockRejectedValue(new Error('Transaction already closed'));
+
+    await expect(dryRun([{ Serial: 'SN-1' }])).rejects.toThrow('Transaction already closed');
+  });
+
+  it('keeps the row limit small enough to answer within the request', () => {
+    expect(DRY_RUN_MAX_ROWS).toBe(500);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Leaver checks: classifying assignees from directory state and recovering their assets.
+ * Directory answers are fed per test; custody syncing is only checked for its arguments.
+ */
+
+const mockGetDirectoryStates = jest.fn();
+jest.mock('../services/database', () => jest.requireActual('./helpers/mocks').databaseModule);
+jest.mock('../utils/logger', () => jest.requireActual('./helpers/mocks').loggerModule);
+jest.mock('../services/directoryService', () => ({
+  getDirectoryProvider: () => ({ getDirectoryStates: mockGetDirectoryStates }),
+}));
+jest.mock('../services/custodyService', () => ({ syncCustodyWithAssignment: jest.fn() }));
+
+import { syncCustodyWithAssignment } from '../services/custodyService';
+import { ASSIGNEE_STATUSES, checkAssignees, recoverAssets } from '../services/leaverService';
+import { prismaMock, resetPrismaMock } from './helpers/mocks';
+
+const now = new Date('2026-10-01T09:00:00Z');
+const aad = (n: number) => `0000000${n}-0000-0000-0000-000000000000`;
+
+const stored = (n: number, overrides: Record<string, any> = {}) => ({
+  aadId: aad(n),
+  displayName: `Person ${n}`,
+  mail: `person${n}@example.com`,
+  department: 'Finance',
+  officeLocation: 'Toronto',
+  status: ASSIGNEE_STATUSES.ACTIVE,
+  previousDepartment: null,
+  previousOfficeLocation: null,
+  ...overrides,
+});
+
+const directory = (n: number, overrides: Record<string, any> = {}) => ({
+  id: aad(n),
+  displayName: `Person ${n}`,
+  mail: `person${n}@example.com`,
+  department: 'Finance',
+  officeLocation: 'Toronto',
+  accountEnabled: true,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetPrismaMock();
+});
+
+describe('checkAssignees', () => {
+  const savedStatus = (n: number) =>
+    prismaMock.assigneeDirectoryStatus.upsert.mock.calls.find(([args]: any[]) => args.where.aadId === aad(n))?.[0].update;
+
+  beforeEach(() => {
+    prismaMock.asset.findMany.mockResolvedValue(
+      [aad(1), aad(2), aad(3), aad(4), aad(5), 'jsmith'].map((assignedToAadId) => ({ assignedToAadId }))
+    );
+    prismaMock.assigneeDirectoryStatus.findMany.mockResolvedValue([
+      stored(1),
+      stored(2),
+      stored(3),
+      stored(4, { status: ASSIGNEE_STATUSES.DISABLED }),
+      stored(9),
+    ]);
+    mockGetDirectoryStates.mockResolvedValue(
+      new Map<string, any>([
+        [aad(1), null],
+        [aad(2), directory(2, { accountEnabled: false })],
+        [aad(3), directory(3, { department: 'Legal' })],
+        [aad(4), directory(4)],
+      ])
+    );
+  });
+
+  it('classifies leavers, movers and returning accounts', async () => {
+    const summary = await checkAssignees(now);
+
+    expect(mockGetDirectoryStates).toHaveBeenCalledWith([aad(1), aad(2), aad(3), aad(4), aad(5)]);
+    expect(summary).toEqual({ checked: 4, leavers: 2, movers: 1, returned: 1 });
+    expect(savedStatus(1)).toMatchObject({ status: ASSIGNEE_STATUSES.DELETED, displayName: 'Person 1', statusChangedAt: now });
+    expect(savedStatus(2)).toMatchObject({ status: ASSIGNEE_STATUSES.DISABLED });
+    expect(savedStatus(3)).toMatchObject({
+      status: ASSIGNEE_STATUSES.MOVED,
+      department: 'Legal',
+      previousDepartment: 'Finance',
+      previousOfficeLocation: 'Toronto',
+    });
+    expect(savedStatus(4)).toMatchObject({ status: ASSIGNEE_STATUSES.ACTIVE, statusChangedAt: now, reviewedAt: null });
+  });
+
+  it('keeps assignees the directory could not answer for and forgets those holding nothing', async () => {
+    await checkAssignees(now);
+
+    expect(savedStatus(5)).toBeUndefined();
+    expect(prismaMock.assigneeDirectoryStatus.deleteMany).toHaveBeenCalledWith({ where: { aadId: { in: [aad(9)] } } });
+  });
+
+  it('keeps movers flagged until they are reviewed', async () => {
+    prismaMock.assigneeDirectoryStatus.findMany.mockResolvedValue([
+      stored(3, { status: ASSIGNEE_STATUSES.MOVED, department: 'Legal', previousDepartment: 'Finance' }),
+    ]);
+    mockGetDirectoryStates.mockResolvedValue(new Map([[aad(3), directory(3, { department: 'Legal' })]]));
+
+    const summary = await checkAssignees(now);
+    expect(summary.movers).toBe(0);
+    expect(savedStatus(3)).toMatchObject({ status: ASSIGNEE_STATUSES.MOVED, previousDepartment: 'Finance' });
+    expect(savedStatus(3)).not.toHaveProperty('statusChangedAt');
+  });
+});
+
+describe('recoverAssets', () => {
+  const held = { id: 'a1', assetTag: 'LT-001', assignedToId: null, assignedToAadId: aad(1), condition: 'GOOD' };
+
+  beforeEach(() => {
+    prismaMock.asset.findMany.mockResolvedValue([held]);
+    prismaMock.asset.update.mockImplementation(async ({ where }) => ({
+      id: where.id,
+      assignedToId: null,
+      assignedToAadId: null,
+      condition: 'GOOD',
+    }));
+    prismaMock.assigneeDirectoryStatus.findMany.mockResolvedValue([
+      { aadId: aad(1), displayName: 'Person 1', status: ASSIGNEE_STATUSES.DISABLED },
+    ]);
+  });
+
+  it('unassigns the assets, closes their custody and logs who held them', async () => {
+    const result = await recoverAssets({ aadIds: [aad(1)] }, 'user-1');
+
+    expect(result).toEqual({ recovered: 1, assetTags: ['LT-001'] });
+    expect(prismaMock.asset.update.mock.calls[0][0].data).toEqual({
+      assignedToAadId: null,
+      assignedToId: null,
+      status: 'RECOVER',
+      updatedById: 'user-1',
+    });
+    expect(syncCustodyWithAssignment).toHaveBeenCalledWith(
+      held,
+      expect.objectContaining({ id: 'a1', assignedToAadId: null }),
+      'user-1'
+    );
+    expect(prismaMock.activityLog.create.mock.calls[0][0].data.changes).toBe(
+      'Unassigned from Person 1 (disabled in Azure AD) and marked for recovery'
+    );
+  });
+
+  it('only picks listed assets that are still assigned', async () => {
+    await recoverAssets({ assetIds: ['a1', 'a2'] }, 'user-1');
+
+    expect(prismaMock.asset.findMany.mock.calls[0][0].where).toMatchObject({
+      id: { in: ['a1', 'a2'] },
+      assignedToAadId: { not: null },
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Source reconciliation: which assets are flagged, how ignores hide them, and which fixes apply.
+ * Each case stubs the source links and ignores it needs; custody syncing is a bare mock.
+ */
+
+jest.mock('../services/database', () => jest.requireActual('./helpers/mocks').databaseModule);
+jest.mock('../utils/logger', () => jest.requireActual('./helpers/mocks').loggerModule);
+jest.mock('../services/custodyService', () => ({ syncCustodyWithAssignment: jest.fn() }));
+
+import { syncCustodyWithAssignment } from '../services/custodyService';
+import { RECONCILIATION_KINDS, buildReconciliationReport, fixReconciliationItem } from '../services/reconciliationService';
+import { prismaMock, resetPrismaMock } from './helpers/mocks';
+
+const seenAt = new Date('2026-10-01T09:00:00Z');
+
+const asset = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  assetTag: id.toUpperCase(),
+  serialNumber: `SN-${id}`,
+  assetType: 'LAPTOP',
+  status: 'ASSIGNED',
+  source: 'NINJAONE',
+  make: 'Dell',
+  model: 'Latitude 7440',
+  assignedToAadId: null,
+  ...overrides,
+});
+
+const link = (a: ReturnType<typeof asset>, sourceSystem: string, observed: Record<string, string> = {}, isPresent = true) => ({
+  assetId: a.id,
+  sourceSystem,
+  isPresent,
+  lastSeenAt: seenAt,
+  metadata: JSON.stringify(observed),
+  asset: a,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetPrismaMock();
+  prismaMock.reconciliationIgnore.findMany.mockResolvedValue([]);
+});
+
+describe('buildReconciliationReport', () => {
+  it('flags endpoint gaps, retired assets still billed and field conflicts', async () => {
+    const laptop = asset('lt-1');
+    const phone = asset('ph-1', { assetType: 'PHONE' });
+    const retired = asset('ph-2', { assetType: 'PHONE', status: 'RETIRED' });
+    const both = asset('lt-2');
+    prismaMock.externalSourceLink.findMany.mockResolvedValue([
+      link(laptop, 'NINJAONE'),
+      link(phone, 'INTUNE'),
+      link(retired, 'TELUS'),
+      link(both, 'NINJAONE', { make: 'Dell', model: 'Latitude 7440' }),
+      link(both, 'INTUNE', { make: ' dell ', model: 'Latitude 5440' }),
+    ]);
+
+    const report = await buildReconciliationReport();
+
+    expect(report.items.map((i) => [i.kind, i.asset.id])).toEqual([
+      [RECONCILIATION_KINDS.FIELD_CONFLICT, 'lt-2'],
+      [RECONCILIATION_KINDS.MISSING_FROM_INTUNE, 'lt-1'],
+      [RECONCILIATION_KINDS.RETIRED_ON_CARRIER_BILL, 'ph-2'],
+    ]);
+    expect(report.items[0].conflicts).toEqual([
+      {
+        field: 'model',
+        values: [
+          { sourceSystem: 'NINJAONE', value: 'Latitude 7440' },
+          { sourceSystem: 'INTUNE', value: 'Latitude 5440' },
+        ],
+      },
+    ]);
+    expect(report.counts).toMatchObject({ MISSING_FROM_INTUNE: 1, MISSING_FROM_NINJAONE: 0, FIELD_CONFLICT: 1 });
+  });
+
+  it('skips the endpoint gap checks until both sources have been imported', async () => {
+    prismaMock.externalSourceLink.findMany.mockResolvedValue([link(asset('lt-1'), 'NINJAONE')]);
+
+    const report = await buildReconciliationReport();
+    expect(report.items).toEqual([]);
+  });
+
+  it('hides ignored items only while the disagreement is unchanged', async () => {
+    const both = asset('lt-2');
+    const links = (intuneModel: string) => [
+      link(both, 'NINJAONE', { model: 'Latitude 7440' }),
+      link(both, 'INTUNE', { model: intuneModel }),
+    ];
+    prismaMock.externalSourceLink.findMany.mockResolvedValue(links('Latitude 5440'));
+    const [conflict] = (await buildReconciliationReport()).items;
+
+    prismaMock.reconciliationIgnore.findMany.mockResolvedValue([
+      { id: 'ignore-1', assetId: 'lt-2', kind: RECONCILIATION_KINDS.FIELD_CONFLICT, fingerprint: conflict.fingerprint },
+    ]);
+    const hidden = await buildReconciliationReport();
+    expect(hidden).toMatchObject({ ignoredCount: 1, items: [] });
+
+    const shown = await buildReconciliationReport({ includeIgnored: true });
+    expect(shown.items[0].ignoreId).toBe('ignore-1');
+    expect(shown.counts.FIELD_CONFLICT).toBe(0);
+
+    prismaMock.externalSourceLink.findMany.mockResolvedValue(links('Latitude 3540'));
+    const changed = await buildReconciliationReport();
+    expect(changed).toMatchObject({ ignoredCount: 0, counts: { FIELD_CONFLICT: 1 } });
+  });
+});
+
+describe('fixReconciliationItem', () => {
+  const stored = (overrides: Record<string, any> = {}) => ({
+    ...asset('lt-1', { status: 'AVAILABLE' }),
+    assignedToId: null,
+    externalSourceLinks: [
+      { sourceSystem: 'INTUNE', isPresent: true, metadata: JSON.stringify({ assignedToAadId: 'aad-1' }) },
+      { sourceSystem: 'TELUS', isPresent: true, metadata: null },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    prismaMock.asset.findUnique.mockResolvedValue(stored());
+    prismaMock.asset.update.mockImplementation(async ({ where, data }) => ({
+      id: where.id,
+      assetTag: 'LT-1',
+      assignedToId: null,
+      ...data,
+    }));
+  });
+
+  it('takes the value the chosen source reported', async () => {
+    const result = await fixReconciliationItem(
+      { assetId: 'lt-1', kind: RECONCILIATION_KINDS.FIELD_CONFLICT, field: 'assignedToAadId', sourceSystem: 'INTUNE' },
+      'user-1'
+    );
+
+    expect(result).toEqual({ asset: { id: 'lt-1', assetTag: 'LT-1' } });
+    expect(prismaMock.asset.update).toHaveBeenCalledWith({
+      where: { id: 'lt-1' },
+      data: { assignedToAadId: 'aad-1', status: 'ASSIGNED', updatedById: 'user-1' },
+    });
+    expect(syncCustodyWithAssignment).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'lt-1', assignedToAadId: null }),
+      expect.objectContaining({ id: 'lt-1', assignedToAadId: 'aad-1' }),
+      'user-1'
+    );
+    expect(prismaMock.activityLog.create.mock.calls[0][0].data.changes).toBe(
+      'Reconciled assignedToAadId from INTUNE: "" → "aad-1"'
+    );
+  });
+
+  it('rejects fields the source did not report', async () => {
+    const result = await fixReconciliationItem(
+      { assetId: 'lt-1', kind: RECONCILIATION_KINDS.FIELD_CONFLICT, field: 'model', sourceSystem: 'INTUNE' },
+      'user-1'
+    );
+    expect(result).toEqual({ status: 400, error: 'INTUNE did not report model for this asset' });
+    expect(prismaMock.asset.update).not.toHaveBeenCalled();
+  });
+
+  it('reactivates retired assets still on a carrier bill', async () => {
+    prismaMock.asset.findUnique.mockResolvedValue(stored({ status: 'RETIRED', assignedToAadId: 'aad-1' }));
+
+    await fixReconciliationItem({ assetId: 'lt-1', kind: RECONCILIATION_KINDS.RETIRED_ON_CARRIER_BILL }, 'user-1');
+    expect(prismaMock.asset.update.mock.calls[0][0].data.status).toBe('ASSIGNED');
+    expect(prismaMock.activityLog.create.mock.calls[0][0].data.changes).toBe(
+      'Reactivated from reconciliation: still billed by TELUS'
+    );
+  });
+
+  it('leaves endpoint gaps to the source systems', async () => {
+    const result = await fixReconciliationItem({ assetId: 'lt-1', kind: RECONCILIATION_KINDS.MISSING_FROM_INTUNE }, 'user-1');
+    expect(result.status).toBe(400);
+    expect(prismaMock.asset.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Stored staff directory: delta and full syncs from the provider, and assignee lookups.
+ * The provider hands back canned Graph pages; sync state and entries live in the shared Prisma fake.
+ */
+
+const mockProvider = {
+  getDirectoryChanges: jest.fn(),
+  getStaffMember: jest.fn(),
+  findUsersBySamAccount: jest.fn(),
+};
+jest.mock('../services/database', () => jest.requireActual('./helpers/mocks').databaseModule);
+jest.mock('../utils/logger', () => jest.requireActual('./helpers/mocks').loggerModule);
+jest.mock('../services/directoryService', () => ({ getDirectoryProvider: () => mockProvider }));
+
+import type { StaffDirectoryEntry } from '../generated/prisma';
+import config from '../config/index';
+import { lookupStaff, syncStaffDirectory } from '../services/staffDirectoryService';
+import { prismaMock, resetPrismaMock } from './helpers/mocks';
+
+const provider = config.directory.provider;
+const aad = (n: number) => `0000000${n}-0000-0000-0000-000000000000`;
+
+const entry = (n: number, overrides: Partial<StaffDirectoryEntry> = {}): StaffDirectoryEntry => ({
+  aadId: aad(n),
+  displayName: `Person ${n}`,
+  userPrincipalName: `person${n}@example.com`,
+  samAccountName: `person${n}`,
+  mail: `person${n}@example.com`,
+  jobTitle: null,
+  department: 'Finance',
+  officeLocation: 'Toronto',
+  mobilePhone: null,
+  businessPhones: null,
+  employeeId: null,
+  managerAadId: null,
+  accountEnabled: true,
+  deletedAt: null,
+  syncedAt: new Date('2026-10-01T09:00:00Z'),
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetPrismaMock();
+  prismaMock.staffDirectorySyncState.findUnique.mockResolvedValue({
+    provider,
+    deltaToken: 'token-1',
+    lastSyncedAt: new Date(),
+    lastFullSyncAt: null,
+  });
+  prismaMock.staffDirectoryEntry.updateMany.mockResolvedValue({ count: 1 });
+  prismaMock.staffDirectoryEntry.findMany.mockResolvedValue([]);
+});
+
+describe('syncStaffDirectory', () => {
+  it('applies a delta round without blanking fields the provider left out', async () => {
+    mockProvider.getDirectoryChanges.mockResolvedValue({
+      full: false,
+      deltaToken: 'token-2',
+      entries: [{ id: aad(1), department: 'Legal', businessPhones: ['555-0100'] }],
+      removedIds: [aad(2)],
+    });
+
+    const summary = await syncStaffDirectory();
+
+    expect(mockProvider.getDirectoryChanges).toHaveBeenCalledWith('token-1');
+    expect(summary).toEqual({ full: false, upserted: 1, removed: 1 });
+    const upsert = prismaMock.staffDirectoryEntry.upsert.mock.calls[0][0];
+    expect(upsert.update).toEqual({
+      department: 'Legal',
+      businessPhones: '["555-0100"]',
+      deletedAt: null,
+      syncedAt: expect.any(Date),
+    });
+    expect(prismaMock.staffDirectoryEntry.updateMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.staffDirectoryEntry.updateMany.mock.calls[0][0].where).toEqual({
+      aadId: { in: [aad(2)] },
+      deletedAt: null,
+    });
+    expect(prismaMock.staffDirectorySyncState.upsert.mock.calls[0][0].update).toMatchObject({
+      deltaToken: 'token-2',
+      lastFullSyncAt: null,
+      lastError: null,
+    });
+  });
+
+  it('marks everyone missing from a full sync as removed', async () => {
+    mockProvider.getDirectoryChanges.mockResolvedValue({ full: true, deltaToken: null, entries: [], removedIds: [] });
+
+    const summary = await syncStaffDirectory({ full: true });
+
+    expect(mockProvider.getDirectoryChanges).toHaveBeenCalledWith(null);
+    expect(summary).toEqual({ full: true, upserted: 0, removed: 1 });
+    const { where } = prismaMock.staffDirectoryEntry.updateMany.mock.calls[0][0];
+    expect(where).toEqual({ syncedAt: { lt: expect.any(Date) }, deletedAt: null });
+    expect(prismaMock.staffDirectorySyncState.upsert.mock.calls[0][0].update.lastFullSyncAt).toEqual(expect.any(Date));
+  });
+
+  it('records the error and keeps the previous token when the provider fails', async () => {
+    mockProvider.getDirectoryChanges.mockRejectedValue(new Error('Graph throttled the request'));
+
+    await expect(syncStaffDirectory()).rejects.toThrow('Graph throttled the request');
+    expect(prismaMock.staffDirectorySyncState.upsert).toHaveBeenCalledWith({
+      where: { provider },
+      create: { provider, lastError: 'Graph throttled the request' },
+      update: { lastError: 'Graph throttled the request' },
+    });
+  });
+});
+
+describe('lookupStaff', () => {
+  it('asks the provider directly before the first sync', async () => {
+    prismaMock.staffDirectorySyncState.findUnique.mockResolvedValue(null);
+    mockProvider.findUsersBySamAccount.mockResolvedValue({ jsmith: null });
+    mockProvider.getStaffMember.mockResolvedValue({ id: aad(1), displayName: 'Person 1' });
+
+    const staff = await lookupStaff([aad(1), 'jsmith']);
+
+    expect(staff.get(aad(1))).toEqual({ id: aad(1), displayName: 'Person 1' });
+    expect(staff.get('jsmith')).toBeNull();
+    expect(prismaMock.staffDirectoryEntry.findMany).not.toHaveBeenCalled();
+  });
+
+  it('matches ids case-insensitively and keeps removed users', async () => {
+    prismaMock.staffDirectoryEntry.findMany.mockResolvedValue([entry(1, { deletedAt: new Date('2026-09-01T00:00:00Z') })]);
+
+    const staff = await lookupStaff([aad(1).toUpperCase(), aad(2)]);
+
+    expect(staff.get(aad(1).toUpperCase())).toMatchObject({ id: aad(1), displayName: 'Person 1', businessPhones: [] });
+    expect(staff.get(aad(2))).toBeNull();
+  });
+
+  it('resolves usernames, preferring current staff over removed accounts', async () => {
+    prismaMock.staffDirectoryEntry.findMany.mockResolvedValue([
+      entry(1, { samAccountName: 'jsmith', deletedAt: new Date('2026-09-01T00:00:00Z') }),
+      entry(2, { samAccountName: null, userPrincipalName: 'jsmith@example.com' }),
+      entry(3, { samAccountName: null, userPrincipalName: 'alee@example.com', mail: 'a.lee@example.com' }),
+    ]);
+
+    const staff = await lookupStaff(['jsmith', 'A.Lee@example.com', 'nobody']);
+
+    expect(staff.get('jsmith')?.id).toBe(aad(2));
+    expect(staff.get('A.Lee@example.com')?.id).toBe(aad(3));
+    expect(staff.get('nobody')).toBeNull();
+    expect(prismaMock.staffDirectoryEntry.findMany.mock.calls[0][0].where.OR).toContainEqual({
+      userPrincipalName: { startsWith: 'jsmith@' },
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import config from '../config/index';
+import { ASSET_STATUSES } from '../constants/index';
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Straight-line book value of an asset at `asOf`.
+ * Assets without a purchase date are carried at cost; disposed assets are worth nothing.
+ */
+export function calculateBookValue(
+  purchasePrice: number,
+  purchaseDate: Date | null,
+  status: string,
+  asOf: Date = new Date()
+): number {
+  if (status === ASSET_STATUSES.DISPOSED || purchasePrice <= 0) return 0;
+  if (!purchaseDate) return purchasePrice;
+
+  const ageYears = Math.max(0, (asOf.getTime() - purchaseDate.getTime()) / MS_PER_YEAR);
+  const remaining = 1 - ageYears / config.assetUsefulLifeYears;
+  return Math.max(0, Math.round(purchasePrice * remaining * 100) / 100);
+}
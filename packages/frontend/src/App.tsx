@@ -17,10 +17,19 @@ import Technicians from './pages/Technicians';
 import Staff from './pages/Staff';
 import WorkloadCategories from './pages/WorkloadCategories';
 import WorkloadRules from './pages/WorkloadRules';
+import LifecyclePolicies from './pages/LifecyclePolicies';
+import ImportSources from './pages/ImportSources';
 import Locations from './pages/Locations';
+import Vendors from './pages/Vendors';
+import Departments from './pages/Departments';
+import Reports from './pages/Reports';
+import CustomReport from './pages/CustomReport';
+import ActivityLog from './pages/ActivityLog';
 import AdminSettings from './pages/AdminSettings';
 import ImportRuns from './pages/ImportRuns';
+import ImportRunChanges from './pages/ImportRunChanges';
 import MissingBySource from './pages/MissingBySource';
+import Reconciliation from './pages/Reconciliation';
 import { PhotoBatchProvider } from './contexts/PhotoBatchContext';
 
 // Create a query client for React Query
@@ -213,13 +222,6 @@ const ThemeWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) =>
 };
 
 // Placeholder components for routes that don't exist yet
-const ReportsPage = () => (
-  <div className="p-6">
-    <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Reports</h1>
-    <p className="text-slate-600 dark:text-slate-400 mt-2">Reports and analytics coming soon...</p>
-  </div>
-);
-
 const SettingsPage = () => (
   <div className="p-6">
     <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Settings</h1>
@@ -234,21 +236,6 @@ const UsersPage = () => (
   </div>
 );
 
-const DepartmentsPage = () => (
-  <div className="p-6">
-    <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Departments</h1>
-    <p className="text-slate-600 dark:text-slate-400 mt-2">Department management coming soon...</p>
-  </div>
-);
-
-
-
-const VendorsPage = () => (
-  <div className="p-6">
-    <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Vendors</h1>
-    <p className="text-slate-600 dark:text-slate-400 mt-2">Vendor management coming soon...</p>
-  </div>
-);
 
 const App: React.FC = () => {
   return (
@@ -282,23 +269,27 @@ const App: React.FC = () => {
                   <Route path="management/technicians" element={<Technicians />} />
                   <Route path="management/staff" element={<Staff />} />
                   <Route path="users" element={<UsersPage />} />
-                  <Route path="departments" element={<DepartmentsPage />} />
+                  <Route path="departments" element={<Departments />} />
                   <Route path="workload-categories" element={<WorkloadCategories />} />
                   <Route path="locations" element={<Locations />} />
-                  <Route path="vendors" element={<VendorsPage />} />
+                  <Route path="vendors" element={<Vendors />} />
                   
                   {/* Reports */}
-                  <Route path="reports" element={<ReportsPage />} />
-                  <Route path="reports/analytics" element={<ReportsPage />} />
-                  <Route path="reports/activity" element={<ReportsPage />} />
+                  <Route path="reports" element={<Reports />} />
+                  <Route path="reports/analytics" element={<Reports />} />
+                  <Route path="reports/activity" element={<ActivityLog />} />
                   <Route path="reports/import-runs" element={<ImportRuns />} />
+                  <Route path="reports/import-runs/:runId" element={<ImportRunChanges />} />
                   <Route path="reports/missing" element={<MissingBySource />} />
-                  <Route path="reports/custom" element={<ReportsPage />} />
+                  <Route path="reports/reconciliation" element={<Reconciliation />} />
+                  <Route path="reports/custom" element={<CustomReport />} />
                   
                   {/* Settings */}
                   <Route path="settings" element={<SettingsPage />} />
                   <Route path="settings/custom-fields" element={<CustomFields />} />
                   <Route path="settings/workload-rules" element={<WorkloadRules />} />
+                  <Route path="settings/lifecycle" element={<LifecyclePolicies />} />
+                  <Route path="settings/import-sources" element={<ImportSources />} />
                   <Route path="settings/admin" element={<AdminSettings />} />
                   
                   {/* Catch all - redirect to dashboard */}
@@ -1,14 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { X, Calendar, User, MapPin, Package, Clock, Edit, ChevronDown, ChevronUp, Monitor, Cpu, HardDrive, MemoryStick, Zap, Shield, DollarSign, Building, Tag, Mail, Phone, UserCheck, Laptop, Smartphone, Tablet, Activity, Settings, FileText, ExternalLink, Plus } from 'lucide-react';
+import { X, Calendar, User, MapPin, Package, Clock, Edit, ChevronDown, ChevronUp, Monitor, Cpu, HardDrive, MemoryStick, Zap, Shield, DollarSign, Building, Tag, Mail, Phone, UserCheck, Laptop, Smartphone, Tablet, Activity, Settings, FileText, ExternalLink, Plus, History, Paperclip, LifeBuoy } from 'lucide-react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Tab } from '@headlessui/react';
 import clsx from 'clsx';
 import { assetsApi, activitiesApi, staffApi, type Asset as ApiAsset } from '../services/api';
 import { useCustomFields } from '../hooks/useCustomFields';
+import { appliesToAssetType, groupCustomFields } from '../utils/customFields';
 import type { Activity as ActivityType } from '@ats/shared';
 import { AssetSource } from '@shared/types/Asset';
 import EditAsset from '../pages/EditAsset';
 import SourceBadge from './SourceBadge';
+import CustodyPanel from './CustodyPanel';
+import AttachmentsPanel from './AttachmentsPanel';
+import TicketsPanel from './TicketsPanel';
 import { useStore } from '../store';
 import { acquireTokenSafely } from '../auth/msal';
 
@@ -147,6 +151,13 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
 
   const { data: customFields } = useCustomFields();
 
+  // Fields for this asset's type, plus any other field that still holds a value
+  const assetCustomFieldGroups = groupCustomFields(
+    (customFields || []).filter(
+      (field) => appliesToAssetType(field, asset?.assetType) || !!asset?.customFields?.[field.id]
+    )
+  );
+
   const truncateMiddle = (text: string, max = 60) => {
     if (!text) return '';
     if (text.length <= max) return text;
@@ -203,6 +214,8 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
         return 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-700';
       case 'MAINTENANCE':
         return 'bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-700';
+      case 'RECOVER':
+        return 'bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 border-purple-200 dark:border-purple-700';
       case 'RETIRED':
         return 'bg-slate-50 dark:bg-slate-700/20 text-slate-700 dark:text-slate-400 border-slate-200 dark:border-slate-600';
       default:
@@ -282,7 +295,15 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
     
     const field = customFields?.find(f => f.id === fieldId);
     if (field?.fieldType === 'BOOLEAN') {
-      return value ? 'Yes' : 'No';
+      return value === 'true' ? 'Yes' : 'No';
+    }
+    if (field?.fieldType === 'MULTI_SELECT' && typeof value === 'string') {
+      try {
+        const selected = JSON.parse(value);
+        if (Array.isArray(selected)) return selected.length ? selected.join(', ') : '—';
+      } catch {
+        // Older values were stored as plain text
+      }
     }
     if (field?.fieldType === 'DATE' && value) {
       return formatDate(value);
@@ -303,6 +324,9 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
     { name: 'Overview', icon: Package },
     { name: 'Specifications', icon: Cpu },
     { name: 'Activity', icon: Activity },
+    { name: 'Custody', icon: History },
+    { name: 'Files', icon: Paperclip },
+    { name: 'Tickets', icon: LifeBuoy },
     { name: 'Custom Fields', icon: Settings },
   ];
 
@@ -959,24 +983,50 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
                         )}
                       </Tab.Panel>
 
+                      {/* Custody Tab */}
+                      <Tab.Panel className="p-5">
+                        <CustodyPanel asset={asset} />
+                      </Tab.Panel>
+
+                      {/* Files Tab */}
+                      <Tab.Panel className="p-5">
+                        <AttachmentsPanel assetId={asset.id} />
+                      </Tab.Panel>
+
+                      {/* Tickets Tab */}
+                      <Tab.Panel className="p-5">
+                        <TicketsPanel assetId={asset.id} />
+                      </Tab.Panel>
+
                       {/* Custom Fields Tab */}
                       <Tab.Panel className="p-5">
-                        {customFields && customFields.length > 0 ? (
-                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                            {customFields.map((field) => (
-                              <div key={field.id} className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
-                                <div className="flex items-center gap-2 mb-2">
-                                  <Settings className="w-4 h-4 text-purple-600 dark:text-purple-400" />
-                                                                     <h4 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
-                                     {field.name}
-                                   </h4>
+                        {assetCustomFieldGroups.length > 0 ? (
+                          <div className="space-y-6">
+                            {assetCustomFieldGroups.map((group) => (
+                              <div key={group.name ?? '__ungrouped'}>
+                                {group.name && (
+                                  <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 mb-3">
+                                    {group.name}
+                                  </h3>
+                                )}
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                  {group.fields.map((field) => (
+                                    <div key={field.id} className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+                                      <div className="flex items-center gap-2 mb-2">
+                                        <Settings className="w-4 h-4 text-purple-600 dark:text-purple-400" />
+                                        <h4 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+                                          {field.name}
+                                        </h4>
+                                      </div>
+                                      <p className="text-sm text-slate-900 dark:text-slate-100">
+                                        {getCustomFieldValue(field.id)}
+                                      </p>
+                                      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                        {field.fieldType}
+                                      </p>
+                                    </div>
+                                  ))}
                                 </div>
-                                <p className="text-sm text-slate-900 dark:text-slate-100">
-                                  {getCustomFieldValue(field.id)}
-                                </p>
-                                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
-                                  {field.fieldType}
-                                </p>
                               </div>
                             ))}
                           </div>
@@ -4,8 +4,9 @@ import * as Dialog from '@radix-ui/react-dialog';
 import * as Tabs from '@radix-ui/react-tabs';
 import * as Select from '@radix-ui/react-select';
 import * as Separator from '@radix-ui/react-separator';
-import { Filter, X, ChevronDown, Search, Calendar, Cpu, HardDrive, Monitor, DollarSign, Building, MapPin, User, Wrench, Tag, FileText } from 'lucide-react';
-import { departmentsApi, locationsApi, customFieldsApi, categoriesApi } from '../services/api';
+import { Filter, X, ChevronDown, Search, Calendar, Cpu, HardDrive, Monitor, DollarSign, Building, MapPin, User, Users, Wrench, Tag, FileText, LifeBuoy } from 'lucide-react';
+import { departmentsApi, locationsApi, customFieldsApi, categoriesApi, staffApi } from '../services/api';
+import StaffSearch from './StaffSearch';
 
 interface EnhancedAssetFilters {
   // Basic filters
@@ -50,6 +51,14 @@ interface EnhancedAssetFilters {
   source?: string | string[];
   missingSource?: string;
   
+  // Helpdesk filters
+  hasOpenTickets?: string; // 'true' | 'false'
+  
+  // Assignee filters, matched against the staff directory
+  assigneeDepartment?: string | string[];
+  assigneeOffice?: string | string[];
+  assigneeManager?: string; // manager's Azure AD id
+  
   // Date filters
   dateFrom?: string;
   dateTo?: string;
@@ -81,6 +90,7 @@ const ASSET_STATUSES = [
   { value: 'ASSIGNED', label: 'Assigned' },
   { value: 'SPARE', label: 'Spare' },
   { value: 'MAINTENANCE', label: 'Maintenance' },
+  { value: 'RECOVER', label: 'To Recover' },
   { value: 'RETIRED', label: 'Retired' },
   { value: 'DISPOSED', label: 'Disposed' },
 ];
@@ -106,8 +116,12 @@ const ASSET_SOURCES = [
 const PRESENCE_SOURCES = [
   { value: 'NINJAONE', label: 'NinjaOne' },
   { value: 'NINJAONE_SERVERS', label: 'NinjaOne Servers' },
+  { value: 'INTUNE', label: 'Microsoft Intune' },
   { value: 'TELUS', label: 'Telus' },
   { value: 'ROGERS', label: 'Rogers' },
+  { value: 'BELL', label: 'Bell' },
+  { value: 'VERIZON', label: 'Verizon' },
+  { value: 'EXCETEL', label: 'Excetel' },
 ];
 
 const WARRANTY_STATUSES = [
@@ -168,6 +182,12 @@ const AssetFilterPanelV2: React.FC<AssetFilterPanelV2Props> = ({
     queryFn: () => customFieldsApi.getAll(),
   });
 
+  const { data: directoryFacets } = useQuery({
+    queryKey: ['staff-directory-facets'],
+    queryFn: () => staffApi.getDirectoryFacets(),
+    staleTime: 5 * 60 * 1000,
+  });
+
   // Update local filters when props change
   useEffect(() => {
     setLocalFilters(filters);
@@ -639,6 +659,45 @@ const AssetFilterPanelV2: React.FC<AssetFilterPanelV2Props> = ({
                       )}
                     </div>
 
+                    {/* Assignee Department (from the staff directory) */}
+                    <div className="space-y-3">
+                      <label className="text-sm font-semibold text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                        <Users className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+                        Assignee Department
+                      </label>
+                      {directoryFacets && renderMultiSelect(
+                        'assigneeDepartment',
+                        directoryFacets.departments.map(d => ({ value: d, label: d })),
+                        'Select departments'
+                      )}
+                    </div>
+
+                    {/* Assignee Office (from the staff directory) */}
+                    <div className="space-y-3">
+                      <label className="text-sm font-semibold text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                        <Building className="w-4 h-4 text-pink-600 dark:text-pink-400" />
+                        Assignee Office
+                      </label>
+                      {directoryFacets && renderMultiSelect(
+                        'assigneeOffice',
+                        directoryFacets.offices.map(o => ({ value: o, label: o })),
+                        'Select offices'
+                      )}
+                    </div>
+
+                    {/* Assignee's Manager */}
+                    <div className="space-y-3">
+                      <label className="text-sm font-semibold text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                        <User className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                        Assignee Reports To
+                      </label>
+                      <StaffSearch
+                        value={localFilters.assigneeManager as string | undefined}
+                        onChange={(staff) => updateLocalFilter('assigneeManager', staff?.id)}
+                        placeholder="Search for a manager..."
+                      />
+                    </div>
+
                     {/* Workload Category */}
                     <div className="space-y-3">
                       <label className="text-sm font-semibold text-slate-700 dark:text-slate-300 flex items-center gap-2">
@@ -651,6 +710,40 @@ const AssetFilterPanelV2: React.FC<AssetFilterPanelV2Props> = ({
                         'Select categories'
                       )}
                     </div>
+
+                    {/* Open Helpdesk Tickets */}
+                    <div className="space-y-3">
+                      <label className="text-sm font-semibold text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                        <LifeBuoy className="w-4 h-4 text-red-600 dark:text-red-400" />
+                        Open Tickets
+                      </label>
+                      <Select.Root
+                        value={(localFilters.hasOpenTickets as string) || '__any'}
+                        onValueChange={(v) => updateLocalFilter('hasOpenTickets', v === '__any' ? undefined : v)}
+                      >
+                        <Select.Trigger className="w-full flex items-center justify-between px-4 py-3 border border-slate-300 dark:border-slate-600 rounded-xl bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 shadow-sm">
+                          <Select.Value placeholder="Any" />
+                          <Select.Icon>
+                            <ChevronDown className="w-4 h-4" />
+                          </Select.Icon>
+                        </Select.Trigger>
+                        <Select.Portal>
+                          <Select.Content className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg z-50">
+                            <Select.Viewport className="p-2">
+                              <Select.Item value="__any" className="px-4 py-3 hover:bg-slate-100 dark:hover:bg-slate-700 cursor-pointer rounded-lg transition-colors">
+                                <Select.ItemText>Any</Select.ItemText>
+                              </Select.Item>
+                              <Select.Item value="true" className="px-4 py-3 hover:bg-slate-100 dark:hover:bg-slate-700 cursor-pointer rounded-lg transition-colors">
+                                <Select.ItemText>Has open tickets</Select.ItemText>
+                              </Select.Item>
+                              <Select.Item value="false" className="px-4 py-3 hover:bg-slate-100 dark:hover:bg-slate-700 cursor-pointer rounded-lg transition-colors">
+                                <Select.ItemText>No open tickets</Select.ItemText>
+                              </Select.Item>
+                            </Select.Viewport>
+                          </Select.Content>
+                        </Select.Portal>
+                      </Select.Root>
+                    </div>
                   </div>
                 </Tabs.Content>
 
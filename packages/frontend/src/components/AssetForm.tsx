@@ -6,6 +6,7 @@ import { useCustomFields } from '../hooks/useCustomFields';
 import { useQuery } from '@tanstack/react-query';
 import StaffSearch from './StaffSearch';
 import type { CustomField } from '@ats/shared';
+import { appliesToAssetType, describeCustomFieldRules, groupCustomFields } from '../utils/customFields';
 
 interface AssetFormData {
   assetTag: string;
@@ -181,6 +182,7 @@ const ASSET_STATUSES = [
   { value: 'ASSIGNED', label: 'Assigned', color: 'blue' },
   { value: 'SPARE', label: 'Spare', color: 'amber' },
   { value: 'MAINTENANCE', label: 'Maintenance', color: 'orange' },
+  { value: 'RECOVER', label: 'To Recover', color: 'purple' },
   { value: 'RETIRED', label: 'Retired', color: 'slate' },
   { value: 'DISPOSED', label: 'Disposed', color: 'red' },
 ];
@@ -508,6 +510,7 @@ const AssetForm: React.FC<AssetFormProps> = ({
     reset,
     control,
     setValue,
+    getValues,
     formState: { errors, isDirty },
   } = useForm<AssetFormData>({
     defaultValues: {
@@ -598,6 +601,31 @@ const AssetForm: React.FC<AssetFormProps> = ({
 
   // Clear specification fields when asset type changes (but only for new assets)
   const isNewAsset = Object.keys(initialData).length === 0;
+
+  // Custom fields for the selected asset type, under their group headings
+  const applicableCustomFields = (customFields || []).filter(field => appliesToAssetType(field, watchedAssetType));
+  const customFieldGroups = groupCustomFields(applicableCustomFields);
+
+  // Prefill custom field defaults on new assets without overwriting anything already entered
+  useEffect(() => {
+    if (!isNewAsset || !customFields) return;
+    customFields.forEach(field => {
+      const fieldName = `custom_${field.id}`;
+      const current = getValues(fieldName);
+      if (!field.defaultValue || (current !== undefined && current !== '' && current !== null)) return;
+      let value: any = field.defaultValue;
+      if (field.fieldType === 'BOOLEAN') value = field.defaultValue === 'true';
+      if (field.fieldType === 'NUMBER') value = Number(field.defaultValue);
+      if (field.fieldType === 'MULTI_SELECT') {
+        try {
+          value = JSON.parse(field.defaultValue);
+        } catch {
+          value = [];
+        }
+      }
+      setValue(fieldName, value, { shouldDirty: false });
+    });
+  }, [customFields, isNewAsset, getValues, setValue]);
   const [previousAssetType, setPreviousAssetType] = useState<string | null>(null);
   
   useEffect(() => {
@@ -784,6 +812,13 @@ const AssetForm: React.FC<AssetFormProps> = ({
       });
     }
 
+    // Custom fields that do not apply to the chosen asset type are not sent
+    customFields?.forEach(field => {
+      if (!appliesToAssetType(field, data.assetType)) {
+        fieldsToRemove.push(`custom_${field.id}`);
+      }
+    });
+
     // Remove individual spec fields and add specifications object
     const restData = { ...data };
     fieldsToRemove.forEach(field => {
@@ -886,6 +921,7 @@ const AssetForm: React.FC<AssetFormProps> = ({
   const renderCustomField = (field: CustomField) => {
     const fieldName = `custom_${field.id}`;
     const isRequired = field.isRequired;
+    const rulesHint = describeCustomFieldRules(field);
 
     switch (field.fieldType) {
       case 'STRING':
@@ -896,12 +932,23 @@ const AssetForm: React.FC<AssetFormProps> = ({
             </label>
             <input
               {...register(fieldName, { 
-                required: isRequired ? `${field.name} is required` : false 
+                required: isRequired ? `${field.name} is required` : false,
+                minLength: field.minLength != null
+                  ? { value: field.minLength, message: `${field.name} must be at least ${field.minLength} characters` }
+                  : undefined,
+                maxLength: field.maxLength != null
+                  ? { value: field.maxLength, message: `${field.name} must be at most ${field.maxLength} characters` }
+                  : undefined,
+                pattern: field.pattern
+                  ? { value: new RegExp(`^(?:${field.pattern})$`), message: `${field.name} is not in the expected format` }
+                  : undefined,
               })}
               className="w-full px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all duration-200 font-mono"
             />
-            {errors[fieldName] && (
+            {errors[fieldName] ? (
               <p className="text-red-500 text-xs mt-1">{String(errors[fieldName]?.message)}</p>
+            ) : rulesHint && (
+              <p className="text-slate-500 dark:text-slate-400 text-xs mt-1">{rulesHint}</p>
             )}
           </div>
         );
@@ -917,11 +964,19 @@ const AssetForm: React.FC<AssetFormProps> = ({
               {...register(fieldName, { 
                 required: isRequired ? `${field.name} is required` : false,
                 valueAsNumber: true,
+                min: field.minValue != null
+                  ? { value: field.minValue, message: `${field.name} must be at least ${field.minValue}` }
+                  : undefined,
+                max: field.maxValue != null
+                  ? { value: field.maxValue, message: `${field.name} must be at most ${field.maxValue}` }
+                  : undefined,
               })}
               className="w-full px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all duration-200 font-mono"
             />
-            {errors[fieldName] && (
+            {errors[fieldName] ? (
               <p className="text-red-500 text-xs mt-1">{String(errors[fieldName]?.message)}</p>
+            ) : rulesHint && (
+              <p className="text-slate-500 dark:text-slate-400 text-xs mt-1">{rulesHint}</p>
             )}
           </div>
         );
@@ -1519,7 +1574,7 @@ const AssetForm: React.FC<AssetFormProps> = ({
         </CollapsibleSection>
 
         {/* Custom Fields */}
-        {customFields && customFields.length > 0 && (
+        {applicableCustomFields.length > 0 && (
           <CollapsibleSection
             title="Additional Attributes"
             icon={<Settings className="w-5 h-5" />}
@@ -1531,8 +1586,19 @@ const AssetForm: React.FC<AssetFormProps> = ({
                 <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-brand-600"></div>
               </div>
             ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {customFields.map(renderCustomField)}
+              <div className="space-y-5">
+                {customFieldGroups.map(group => (
+                  <div key={group.name ?? '__ungrouped'}>
+                    {group.name && (
+                      <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 mb-3">
+                        {group.name}
+                      </h4>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {group.fields.map(renderCustomField)}
+                    </div>
+                  </div>
+                ))}
               </div>
             )}
           </CollapsibleSection>
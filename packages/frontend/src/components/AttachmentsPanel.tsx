@@ -0,0 +1,269 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Download, File, FileImage, FileText, Paperclip, Trash2, Upload } from 'lucide-react';
+import clsx from 'clsx';
+import { attachmentsApi, type AssetAttachment } from '../services/api';
+import { downloadBlob } from '../utils/download';
+import { useStore } from '../store';
+
+// Mirrors the backend's default allow-list; the server has the final say
+const ACCEPT = 'image/*,.pdf,.txt,.csv,.doc,.docx,.xls,.xlsx';
+
+interface AttachmentsPanelProps {
+  assetId: string;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const FileIcon: React.FC<{ type: string; className?: string }> = ({ type, className }) => {
+  if (type.startsWith('image/')) return <FileImage className={className} />;
+  if (type === 'application/pdf' || type.startsWith('text/')) return <FileText className={className} />;
+  return <File className={className} />;
+};
+
+// Thumbnails need the auth header, so load them as blobs rather than plain <img src>
+const AttachmentThumbnail: React.FC<{ attachment: AssetAttachment }> = ({ attachment }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment.hasThumbnail) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    attachmentsApi
+      .getThumbnail(attachment.id)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => setUrl(null));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.id, attachment.hasThumbnail]);
+
+  return (
+    <div className="w-16 h-16 flex-shrink-0 rounded-md bg-slate-100 dark:bg-slate-700 flex items-center justify-center overflow-hidden">
+      {url ? (
+        <img src={url} alt={attachment.fileName} className="w-full h-full object-cover" />
+      ) : (
+        <FileIcon type={attachment.fileType} className="w-6 h-6 text-slate-400" />
+      )}
+    </div>
+  );
+};
+
+const AttachmentsPanel: React.FC<AttachmentsPanelProps> = ({ assetId }) => {
+  const queryClient = useQueryClient();
+  const { currentUser } = useStore();
+  const canWrite = currentUser?.role === 'WRITE' || currentUser?.role === 'ADMIN';
+  const isAdmin = currentUser?.role === 'ADMIN';
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [description, setDescription] = useState('');
+  const [dragActive, setDragActive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: attachments = [], isLoading } = useQuery({
+    queryKey: ['attachments', assetId],
+    queryFn: () => attachmentsApi.getByAsset(assetId),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['attachments', assetId] });
+    queryClient.invalidateQueries({ queryKey: ['activities', 'ASSET', assetId] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: () => attachmentsApi.upload(assetId, files, description || undefined),
+    onSuccess: () => {
+      setFiles([]);
+      setDescription('');
+      setError(null);
+      invalidate();
+    },
+    onError: (err: any) => setError(err.response?.data?.error || 'Upload failed'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => attachmentsApi.delete(id),
+    onSuccess: invalidate,
+    onError: (err: any) => setError(err.response?.data?.error || 'Failed to delete attachment'),
+  });
+
+  const handleDownload = async (attachment: AssetAttachment) => {
+    try {
+      downloadBlob(await attachmentsApi.download(attachment.id), attachment.fileName);
+    } catch {
+      setError(`Failed to download ${attachment.fileName}`);
+    }
+  };
+
+  const handleDelete = (attachment: AssetAttachment) => {
+    if (window.confirm(`Delete "${attachment.fileName}"? This cannot be undone.`)) {
+      deleteMutation.mutate(attachment.id);
+    }
+  };
+
+  const addFiles = (list: FileList | null) => {
+    if (!list) return;
+    setFiles((prev) => [...prev, ...Array.from(list)]);
+    setError(null);
+  };
+
+  const canDelete = (attachment: AssetAttachment) =>
+    isAdmin || (canWrite && attachment.uploadedBy === currentUser?.id);
+
+  return (
+    <div className="space-y-5">
+      {canWrite && (
+        <div className="bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Upload className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+            <h4 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Upload files</h4>
+          </div>
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragActive(true);
+            }}
+            onDragLeave={() => setDragActive(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragActive(false);
+              addFiles(e.dataTransfer.files);
+            }}
+            onClick={() => fileInputRef.current?.click()}
+            className={clsx(
+              'flex flex-col items-center justify-center gap-1 px-4 py-6 border-2 border-dashed rounded-lg cursor-pointer transition-colors text-sm',
+              dragActive
+                ? 'border-brand-500 bg-brand-50 dark:bg-brand-900/20'
+                : 'border-slate-300 dark:border-slate-600 hover:border-brand-400'
+            )}
+          >
+            <Paperclip className="w-5 h-5 text-slate-400" />
+            <span className="text-slate-600 dark:text-slate-300">Drop files here or click to browse</span>
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              Photos, PDFs, hand-over forms and certificates
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                addFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {files.length > 0 && (
+            <>
+              <ul className="space-y-1">
+                {files.map((file, index) => (
+                  <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm text-slate-700 dark:text-slate-300">
+                    <span className="truncate">
+                      {file.name} <span className="text-xs text-slate-500">({formatFileSize(file.size)})</span>
+                    </span>
+                    <button
+                      onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                      className="text-xs text-slate-500 hover:text-red-600"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Description (optional), e.g. damage to screen hinge"
+                maxLength={500}
+                className="w-full px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+              />
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => uploadMutation.mutate()}
+              disabled={files.length === 0 || uploadMutation.isPending}
+              className="px-3 py-1.5 bg-brand-600 hover:bg-brand-700 text-white rounded-md transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              {uploadMutation.isPending ? 'Uploading...' : `Upload${files.length > 1 ? ` ${files.length} files` : ''}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!canWrite && error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-brand-600"></div>
+        </div>
+      ) : attachments.length > 0 ? (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="flex items-start gap-3 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-3"
+            >
+              <AttachmentThumbnail attachment={attachment} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate" title={attachment.fileName}>
+                  {attachment.fileName}
+                </p>
+                {attachment.description && (
+                  <p className="text-xs text-slate-600 dark:text-slate-400 line-clamp-2">{attachment.description}</p>
+                )}
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  {formatFileSize(attachment.fileSize)} · {formatDate(attachment.uploadedAt)}
+                  {attachment.uploadedByName && ` · ${attachment.uploadedByName}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => handleDownload(attachment)}
+                  title="Download"
+                  className="p-1.5 rounded-md text-slate-500 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                {canDelete(attachment) && (
+                  <button
+                    onClick={() => handleDelete(attachment)}
+                    disabled={deleteMutation.isPending}
+                    title="Delete"
+                    className="p-1.5 rounded-md text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-center py-12">
+          <Paperclip className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-500 dark:text-slate-400">No files attached</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentsPanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+
+interface ChangeDiffViewerProps {
+  changes: unknown;
+}
+
+type FieldChange = { from: unknown; to: unknown };
+
+const isFieldChange = (value: unknown): value is FieldChange =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && ('from' in value || 'to' in value);
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Renders the `{ field: { from, to } }` objects written by logActivity as a field-level diff
+const ChangeDiffViewer: React.FC<ChangeDiffViewerProps> = ({ changes }) => {
+  if (changes === null || changes === undefined) {
+    return <p className="text-sm text-slate-500 dark:text-slate-400">No change details recorded.</p>;
+  }
+
+  if (typeof changes !== 'object' || Array.isArray(changes)) {
+    return <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{formatValue(changes)}</p>;
+  }
+
+  const entries = Object.entries(changes as Record<string, unknown>);
+  const diffs = entries.filter(([, value]) => isFieldChange(value)) as [string, FieldChange][];
+  const other = entries.filter(([key, value]) => !isFieldChange(value) && key !== 'description');
+  const description = (changes as Record<string, unknown>).description;
+
+  return (
+    <div className="space-y-3">
+      {typeof description === 'string' && (
+        <p className="text-sm text-slate-700 dark:text-slate-300">{description}</p>
+      )}
+
+      {diffs.length > 0 && (
+        <table className="min-w-full text-sm border border-slate-200 dark:border-slate-700 rounded-md overflow-hidden">
+          <thead className="bg-slate-50 dark:bg-slate-800">
+            <tr>
+              <th className="px-3 py-1.5 text-left text-xs font-medium text-slate-500 uppercase">Field</th>
+              <th className="px-3 py-1.5 text-left text-xs font-medium text-slate-500 uppercase">Before</th>
+              <th className="px-3 py-1.5 text-left text-xs font-medium text-slate-500 uppercase">After</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {diffs.map(([field, change]) => (
+              <tr key={field}>
+                <td className="px-3 py-1.5 font-mono text-xs text-slate-700 dark:text-slate-300">{field}</td>
+                <td className="px-3 py-1.5 text-red-700 dark:text-red-300 bg-red-50/60 dark:bg-red-900/10 break-all">
+                  {formatValue(change.from)}
+                </td>
+                <td className="px-3 py-1.5 text-emerald-700 dark:text-emerald-300 bg-emerald-50/60 dark:bg-emerald-900/10 break-all">
+                  {formatValue(change.to)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {other.length > 0 && (
+        <dl className="grid grid-cols-1 sm:grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs">
+          {other.map(([key, value]) => (
+            <React.Fragment key={key}>
+              <dt className="font-mono text-slate-500 dark:text-slate-400">{key}</dt>
+              <dd className="text-slate-700 dark:text-slate-300 break-all">{formatValue(value)}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
+
+export default ChangeDiffViewer;
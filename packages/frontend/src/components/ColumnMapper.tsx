@@ -9,12 +9,21 @@ import {
   Info,
   Database,
   FileText,
-  Settings
+  Settings,
+  Plus,
+  Trash2
 } from 'lucide-react';
+import {
+  IMPORT_PROCESSORS,
+  findTemplateColumn,
+  type MappingTemplateColumn,
+  type MappingTemplateDefault
+} from '@ats/shared-transformations';
 import { ColumnMapping, getMappingForColumn } from '../utils/ninjaMapping';
 import { getImportSource } from '../utils/importSources';
 import type { UploadCategory, UploadSource } from '../utils/importSources';
-import type { AssetFieldMeta } from '../services/api';
+import type { AssetFieldMeta, MappingTemplate } from '../services/api';
+import MappingTemplatePanel from './import-wizard/MappingTemplatePanel';
 // CustomField will be properly imported once @ats/shared package is available
 interface CustomField {
   id: string;
@@ -44,6 +53,15 @@ interface MappingState extends ColumnMapping {
   originalMapping?: ColumnMapping;
 }
 
+const namedProcessor = (name?: string) =>
+  name && IMPORT_PROCESSORS[name] ? (value: string) => IMPORT_PROCESSORS[name].apply(value) : undefined;
+
+// Spec keys and custom fields are told apart by name; everything else is a direct field
+const targetTypeFor = (targetField: string, specKeys: string[]): MappingTemplateColumn['targetType'] => {
+  if (targetField.startsWith('cf_')) return 'custom';
+  return specKeys.includes(targetField) ? 'specifications' : 'direct';
+};
+
 const ColumnMapper: React.FC<ColumnMapperProps> = ({ 
   csvHeaders, 
   sampleData, 
@@ -59,6 +77,9 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({
   const [showIgnored, setShowIgnored] = useState(false);
   const [showSampleData, setShowSampleData] = useState(true);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  // Constant values for fields no column provides (mapping templates only)
+  const [defaults, setDefaults] = useState<MappingTemplateDefault[]>([]);
+  const templatesEnabled = Boolean(getImportSource(selectedCategory, selectedSource)?.mappingTemplates);
   
   // Refs to track previous values and prevent infinite loops
   const lastValidationRef = useRef<string>('');
@@ -131,7 +152,10 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({
       } as MappingState;
     });
 
-      if (isMounted) setMappings(initialMappings);
+      if (isMounted) {
+        setMappings(initialMappings);
+        setDefaults([]);
+      }
     };
 
     init();
@@ -144,7 +168,16 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({
   // Validate mappings and notify parent
   useEffect(() => {
     const errors: string[] = [];
-    const activeMappings = mappings.filter(m => m.targetType !== 'ignore');
+    const defaultMappings: ColumnMapping[] = defaults
+      .filter(d => d.targetField && d.value.trim())
+      .map(d => ({
+        ninjaColumn: '',
+        targetField: d.targetField,
+        targetType: d.targetType,
+        defaultValue: d.value.trim(),
+        description: 'Default value',
+      }));
+    const activeMappings = [...mappings.filter(m => m.targetType !== 'ignore'), ...defaultMappings];
     
     // Check for required fields returned by backend
     let requiredFields = assetFields.filter(f => f.required).map(f => f.key);
@@ -199,7 +232,7 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({
       lastMappingsRef.current = mappingsString;
       onMappingChange(activeMappings);
     }
-  }, [mappings, assetFields, requiredOverrides]);
+  }, [mappings, defaults, assetFields, requiredOverrides]);
 
   const updateMapping = (index: number, updates: Partial<MappingState>) => {
     setMappings(prev => prev.map((mapping, i) => 
@@ -220,6 +253,75 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({
     }));
   };
 
+  // Replace the mapping with a saved template; headers the template does not know are ignored
+  const applyTemplate = (template: MappingTemplate) => {
+    setMappings(csvHeaders.map(header => {
+      const column = findTemplateColumn(template.columns, header);
+      if (!column) {
+        return {
+          ninjaColumn: header,
+          targetField: '',
+          targetType: 'ignore',
+          description: `Not in template "${template.name}" (will be ignored)`,
+          isCustom: true
+        } as MappingState;
+      }
+      return {
+        ninjaColumn: header,
+        targetField: column.targetField,
+        targetType: column.targetType,
+        processorName: column.processor,
+        processor: namedProcessor(column.processor),
+        defaultValue: column.defaultValue,
+        description: `From template "${template.name}"`,
+        isCustom: true
+      };
+    }));
+    setDefaults(template.defaults);
+  };
+
+  const templateColumns: MappingTemplateColumn[] = mappings
+    .filter(m => m.targetType !== 'ignore' && m.targetField)
+    .map(m => ({
+      header: m.ninjaColumn,
+      targetField: m.targetField,
+      targetType: m.targetType as MappingTemplateColumn['targetType'],
+      ...(m.processorName && { processor: m.processorName }),
+      ...(m.defaultValue && { defaultValue: m.defaultValue }),
+    }));
+
+  const updateDefault = (index: number, updates: Partial<MappingTemplateDefault>) => {
+    setDefaults(prev => prev.map((d, i) => (i === index ? { ...d, ...updates } : d)));
+  };
+
+  const renderTargetOptions = () => (
+    <>
+      {assetFields.length > 0 && (
+        <optgroup label="Direct Fields">
+          {assetFields.map(f => (
+            <option key={f.key} value={f.key}>
+              {f.label}{f.required ? ' *' : ''}
+            </option>
+          ))}
+        </optgroup>
+      )}
+      {customFields.length > 0 && (
+        <optgroup label="Custom Fields">
+          {customFields.map(cf => (
+            <option key={`cf_${cf.id}`} value={`cf_${cf.id}`}>
+              {cf.name}
+            </option>
+          ))}
+        </optgroup>
+      )}
+      <optgroup label="Specifications">
+        {specKeys.map(spec => (
+          <option key={spec} value={spec}>{spec.replace(/([A-Z])/g,' $1').replace(/^./,c=>c.toUpperCase())}</option>
+        ))}
+      </optgroup>
+    </>
+  );
+
   const getTargetTypeIcon = (type: string) => {
     switch (type) {
       case 'direct': return <Database className="w-4 h-4 text-blue-500" />;
@@ -275,6 +377,17 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({
         </div>
       </div>
 
+      {templatesEnabled && (
+        <MappingTemplatePanel
+          headers={csvHeaders}
+          sourceKey={selectedSource}
+          category={selectedCategory}
+          columns={templateColumns}
+          defaults={defaults.filter(d => d.targetField && d.value.trim())}
+          onApply={applyTemplate}
+        />
+      )}
+
       {/* Validation Errors */}
       {validationErrors.length > 0 && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -334,10 +447,8 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({
                         value={mapping.targetField}
                         onChange={(e) => {
                           const val = e.target.value;
-                          if (val.startsWith('cf_')) {
-                            updateMapping(actualIndex, { targetField: val, targetType: 'custom' });
-                          } else if (val) {
-                            updateMapping(actualIndex, { targetField: val, targetType: 'direct' });
+                          if (val) {
+                            updateMapping(actualIndex, { targetField: val, targetType: targetTypeFor(val, specKeys) });
                           } else {
                             updateMapping(actualIndex, { targetField: '', targetType: 'ignore' });
                           }
@@ -345,30 +456,32 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({
                         className="w-full text-sm border-gray-300 rounded-md focus:ring-brand-500 focus:border-brand-500 py-2"
                       >
                         <option value="">-- Ignore --</option>
-                        {assetFields.length > 0 && (
-                          <optgroup label="Direct Fields">
-                            {assetFields.map(f => (
-                              <option key={f.key} value={f.key}>
-                                {f.label}{f.required ? ' *' : ''}
-                              </option>
-                            ))}
-                          </optgroup>
-                        )}
-                        {customFields.length > 0 && (
-                          <optgroup label="Custom Fields">
-                            {customFields.map(cf => (
-                              <option key={`cf_${cf.id}`} value={`cf_${cf.id}`}>
-                                {cf.name}
-                              </option>
-                            ))}
-                          </optgroup>
-                        )}
-                        <optgroup label="Specifications">
-                          {specKeys.map(spec => (
-                            <option key={spec} value={spec}>{spec.replace(/([A-Z])/g,' $1').replace(/^./,c=>c.toUpperCase())}</option>
-                          ))}
-                        </optgroup>
+                        {renderTargetOptions()}
                       </select>
+                      {templatesEnabled && mapping.targetType !== 'ignore' && (
+                        <div className="mt-2 grid grid-cols-2 gap-2">
+                          <select
+                            value={mapping.processorName || ''}
+                            onChange={(e) => {
+                              const name = e.target.value || undefined;
+                              updateMapping(actualIndex, { processorName: name, processor: namedProcessor(name) });
+                            }}
+                            className="text-xs border-gray-300 rounded-md focus:ring-brand-500 focus:border-brand-500 py-1"
+                            title="Processor applied to the cell value"
+                          >
+                            <option value="">No processor</option>
+                            {Object.entries(IMPORT_PROCESSORS).map(([name, processor]) => (
+                              <option key={name} value={name} title={processor.description}>{processor.label}</option>
+                            ))}
+                          </select>
+                          <input
+                            value={mapping.defaultValue || ''}
+                            onChange={(e) => updateMapping(actualIndex, { defaultValue: e.target.value || undefined })}
+                            placeholder="Default if empty"
+                            className="text-xs border-gray-300 rounded-md focus:ring-brand-500 focus:border-brand-500 py-1"
+                          />
+                        </div>
+                      )}
                   </div>
 
                   {/* Type */}
@@ -419,6 +532,55 @@ const ColumnMapper: React.FC<ColumnMapperProps> = ({
         </div>
       </div>
 
+      {/* Default values (mapping templates) */}
+      {templatesEnabled && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Default Values</h4>
+              <p className="text-xs text-gray-600">Applied to every row for fields no column provides</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setDefaults(prev => [...prev, { targetField: '', targetType: 'direct', value: '' }])}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <Plus className="w-4 h-4" />
+              Add default
+            </button>
+          </div>
+          {defaults.map((item, index) => (
+            <div key={index} className="grid grid-cols-12 gap-3 items-center">
+              <select
+                value={item.targetField}
+                onChange={(e) => updateDefault(index, {
+                  targetField: e.target.value,
+                  targetType: targetTypeFor(e.target.value, specKeys),
+                })}
+                className="col-span-5 text-sm border-gray-300 rounded-md focus:ring-brand-500 focus:border-brand-500 py-2"
+              >
+                <option value="">-- Choose field --</option>
+                {renderTargetOptions()}
+              </select>
+              <input
+                value={item.value}
+                onChange={(e) => updateDefault(index, { value: e.target.value })}
+                placeholder="Value"
+                className="col-span-6 text-sm border-gray-300 rounded-md focus:ring-brand-500 focus:border-brand-500 py-2"
+              />
+              <button
+                type="button"
+                onClick={() => setDefaults(prev => prev.filter((_, i) => i !== index))}
+                className="col-span-1 p-1 text-gray-400 hover:text-red-600"
+                title="Remove default"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Summary */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <div className="flex items-start gap-3">
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowDownLeft, ArrowUpRight, History, UserCheck } from 'lucide-react';
+import clsx from 'clsx';
+import { custodyApi, type Asset, type AssetCustodyRecord, type StaffMember } from '../services/api';
+import StaffSearch from './StaffSearch';
+import { useStore } from '../store';
+
+const CONDITIONS = ['NEW', 'GOOD', 'FAIR', 'POOR'];
+
+interface CustodyPanelProps {
+  asset: Asset;
+}
+
+const formatDateTime = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : '—';
+
+export const custodyHolderName = (record: AssetCustodyRecord) =>
+  record.holderName || record.holderUser?.displayName || record.holderAadId || 'Unknown holder';
+
+// Vertical timeline of custody records, shared by the asset view and the Staff page
+export const CustodyTimeline: React.FC<{ records: AssetCustodyRecord[]; showAsset?: boolean }> = ({ records, showAsset = false }) => (
+  <ol className="relative border-l border-slate-200 dark:border-slate-700 ml-2 space-y-4">
+    {records.map((record) => {
+      const isOpen = !record.checkedInAt;
+      return (
+        <li key={record.id} className="ml-4">
+          <span
+            className={clsx(
+              'absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-white dark:border-slate-900',
+              isOpen ? 'bg-blue-500' : 'bg-slate-400'
+            )}
+          />
+          <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <p className="text-sm font-medium text-slate-900 dark:text-slate-100">
+                {showAsset && record.asset
+                  ? `${record.asset.assetTag} · ${record.asset.make} ${record.asset.model}`
+                  : custodyHolderName(record)}
+              </p>
+              {isOpen && (
+                <span className="px-2 py-0.5 text-xs rounded-md bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-700">
+                  Checked out
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs text-slate-600 dark:text-slate-400">
+              <div className="flex items-start gap-1.5">
+                <ArrowUpRight className="w-3.5 h-3.5 mt-0.5 text-blue-500 flex-shrink-0" />
+                <div>
+                  <div>{formatDateTime(record.checkedOutAt)} · {record.conditionOut}</div>
+                  <div>By {record.checkedOutBy?.displayName}</div>
+                  {record.checkOutNotes && <div className="italic">{record.checkOutNotes}</div>}
+                </div>
+              </div>
+              {!isOpen && (
+                <div className="flex items-start gap-1.5">
+                  <ArrowDownLeft className="w-3.5 h-3.5 mt-0.5 text-emerald-500 flex-shrink-0" />
+                  <div>
+                    <div>{formatDateTime(record.checkedInAt)} · {record.conditionIn}</div>
+                    <div>By {record.checkedInBy?.displayName}</div>
+                    {record.checkInNotes && <div className="italic">{record.checkInNotes}</div>}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </li>
+      );
+    })}
+  </ol>
+);
+
+const CustodyPanel: React.FC<CustodyPanelProps> = ({ asset }) => {
+  const queryClient = useQueryClient();
+  const { currentUser } = useStore();
+  const canWrite = currentUser?.role === 'WRITE' || currentUser?.role === 'ADMIN';
+
+  const [holder, setHolder] = useState<StaffMember | null>(null);
+  const [condition, setCondition] = useState(asset.condition);
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: records = [], isLoading } = useQuery({
+    queryKey: ['custody', asset.id],
+    queryFn: () => custodyApi.getByAsset(asset.id),
+  });
+
+  const isCheckedOut = !!(asset.assignedTo || asset.assignedToAadId) || records.some((r) => !r.checkedInAt);
+
+  const onSuccess = () => {
+    setHolder(null);
+    setNotes('');
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['custody', asset.id] });
+    queryClient.invalidateQueries({ queryKey: ['asset', asset.id] });
+    queryClient.invalidateQueries({ queryKey: ['activities', 'ASSET', asset.id] });
+    queryClient.invalidateQueries({ queryKey: ['assets'] });
+  };
+  const onError = (err: any) => setError(err.response?.data?.error || 'Custody update failed');
+
+  const checkOutMutation = useMutation({
+    mutationFn: () => custodyApi.checkOut(asset.id, { assignedToAadId: holder?.id, condition, notes: notes || undefined }),
+    onSuccess,
+    onError,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: () => custodyApi.checkIn(asset.id, { condition, notes: notes || undefined }),
+    onSuccess,
+    onError,
+  });
+
+  const isSaving = checkOutMutation.isLoading || checkInMutation.isLoading;
+
+  return (
+    <div className="space-y-5">
+      {canWrite && (
+        <div className="bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <UserCheck className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+            <h4 className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+              {isCheckedOut ? 'Check in' : 'Check out'}
+            </h4>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {!isCheckedOut && (
+              <StaffSearch value={holder?.id} onChange={setHolder} placeholder="Hand over to..." />
+            )}
+            <select
+              value={condition}
+              onChange={(e) => setCondition(e.target.value)}
+              className="px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+            >
+              {CONDITIONS.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+            <input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes (optional)"
+              className="px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <div className="flex justify-end">
+            <button
+              onClick={() => (isCheckedOut ? checkInMutation.mutate() : checkOutMutation.mutate())}
+              disabled={isSaving || (!isCheckedOut && !holder)}
+              className="px-3 py-1.5 bg-brand-600 hover:bg-brand-700 text-white rounded-md transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : isCheckedOut ? 'Check in' : 'Check out'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-brand-600"></div>
+        </div>
+      ) : records.length > 0 ? (
+        <CustodyTimeline records={records} />
+      ) : (
+        <div className="text-center py-12">
+          <History className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-500 dark:text-slate-400">No custody history recorded</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustodyPanel;
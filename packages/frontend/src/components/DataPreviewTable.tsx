@@ -11,7 +11,15 @@ import {
   X
 } from 'lucide-react';
 import { ColumnMapping, validateRequiredFields } from '../utils/ninjaMapping';
-import { transformImportRow, type ImportSourceType, type TransformationResult } from '@ats/shared-transformations';
+import {
+  IMPORT_PROCESSORS,
+  aggregateVolumes,
+  isImportSourceSupported,
+  simplifyRam,
+  transformImportRow,
+  type ImportSourceKey,
+  type TransformationResult
+} from '@ats/shared-transformations';
 
 interface DataPreviewTableProps {
   csvData: {
@@ -43,6 +51,42 @@ interface ProcessedRow {
   locationDisplayName?: string;
 }
 
+// Mirrors the backend second pass: UI mappings fill fields the shared transformer left empty,
+// using the mapping's named processor and default value (mapping templates)
+const applySecondPass = (
+  mappings: ColumnMapping[],
+  row: Record<string, string>,
+  directFields: Record<string, any>,
+  specifications: Record<string, any>
+) => {
+  for (const m of mappings) {
+    if (m.targetType === 'ignore' || m.targetType === 'custom' || m.targetField.startsWith('cf_')) continue;
+    const csvValue = (m.ninjaColumn && row[m.ninjaColumn]) || m.defaultValue;
+    if (!csvValue) continue;
+
+    const existing = directFields[m.targetField];
+    const alreadySet = existing !== undefined && !['unknown', ''].includes(String(existing).toLowerCase());
+    if (alreadySet || m.targetField in specifications) continue;
+
+    let value: any = csvValue;
+    const processor = m.processorName ? IMPORT_PROCESSORS[m.processorName] : undefined;
+    if (processor) {
+      value = processor.apply(csvValue);
+      if (value === null || value === undefined || value === '') continue;
+    } else if (m.targetField === 'ram') {
+      value = simplifyRam(csvValue);
+    } else if (m.targetField === 'storage') {
+      value = aggregateVolumes(csvValue);
+    }
+
+    if (m.targetType === 'specifications') {
+      specifications[m.targetField] = value;
+    } else {
+      directFields[m.targetField] = value;
+    }
+  }
+};
+
 const DataPreviewTable: React.FC<DataPreviewTableProps> = ({ 
   csvData, 
   mappings, 
@@ -84,18 +128,18 @@ const DataPreviewTable: React.FC<DataPreviewTableProps> = ({
         specifications = {};
         initialProcessingNotes = ['Error processing row'];
       }
+    } else if (selectedSource === 'custom-excel') {
+      // Custom spreadsheets are imported through their column mapping alone (see backend mappingOnly)
+      applySecondPass(mappings, row, directFields, specifications);
           } else {
         try {
           // Use shared transformation modules for other sources
-          let importSourceType: ImportSourceType;
+          let importSourceType: ImportSourceKey;
           
-          // First check if we have an explicit selectedSource
-          if (selectedSource === 'telus') {
-            importSourceType = 'telus';
-          } else if (selectedSource === 'rogers') {
-            importSourceType = 'rogers';
-          } else if (selectedSource === 'bgc-template') {
-            importSourceType = 'bgc-template';
+          // First check if we have an explicit selectedSource (built-in or admin-defined).
+          // 'ninjaone' here is the server export, which keeps the detection below.
+          if (selectedSource && selectedSource !== 'ninjaone' && isImportSourceSupported(selectedSource)) {
+            importSourceType = selectedSource;
           } else {
             // Fallback to detection logic for unknown sources
             if (sourceType === 'bgc' || mappings.some(m => m.ninjaColumn === 'Asset Tag' || m.ninjaColumn === 'Brand')) {
@@ -110,8 +154,9 @@ const DataPreviewTable: React.FC<DataPreviewTableProps> = ({
           }
           
           const transformationResult: TransformationResult = transformImportRow(importSourceType, row);
-          directFields = transformationResult.directFields;
-          specifications = transformationResult.specifications;
+          directFields = { ...transformationResult.directFields };
+          specifications = { ...transformationResult.specifications };
+          applySecondPass(mappings, row, directFields, specifications);
           initialProcessingNotes = transformationResult.processingNotes;
           validationErrors = transformationResult.validationErrors;
         } catch (error) {
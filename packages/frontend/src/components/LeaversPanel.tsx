@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChevronDown, ChevronRight, PackageX, RefreshCw, UserMinus } from 'lucide-react';
+import clsx from 'clsx';
+import { staffApi, type LeaverReportEntry } from '../services/api';
+
+const STATUS_STYLES: Record<LeaverReportEntry['status'], { label: string; className: string }> = {
+  DISABLED: { label: 'Disabled', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  DELETED: { label: 'Deleted', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  MOVED: { label: 'Moved', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+};
+
+const describeMove = (entry: LeaverReportEntry) => {
+  const parts: string[] = [];
+  if ((entry.previousDepartment ?? '') !== (entry.department ?? '')) {
+    parts.push(`${entry.previousDepartment || '—'} → ${entry.department || '—'}`);
+  }
+  if ((entry.previousOfficeLocation ?? '') !== (entry.officeLocation ?? '')) {
+    parts.push(`${entry.previousOfficeLocation || '—'} → ${entry.officeLocation || '—'}`);
+  }
+  return parts.join(', ');
+};
+
+/**
+ * Assignees who were disabled, deleted or moved in Azure AD while still holding equipment.
+ * Selected assets (or everything a person holds) can be unassigned and marked To Recover.
+ */
+const LeaversPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const { data, isLoading } = useQuery({ queryKey: ['staff-leavers'], queryFn: staffApi.getLeavers });
+  const entries = data?.entries ?? [];
+
+  const onError = (err: any) => setMessage({ type: 'error', text: err?.response?.data?.error || err?.message || 'Request failed' });
+
+  const checkMutation = useMutation({
+    mutationFn: staffApi.checkLeavers,
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: ['staff-leavers'] });
+      setMessage({
+        type: 'success',
+        text: `Checked ${summary.checked} assignees: ${summary.leavers} new leavers, ${summary.movers} movers, ${summary.returned} returned`,
+      });
+    },
+    onError,
+  });
+
+  const recoverMutation = useMutation({
+    mutationFn: staffApi.recoverLeaverAssets,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['staff-leavers'] });
+      queryClient.invalidateQueries({ queryKey: ['assets'] });
+      setSelected(new Set());
+      setMessage({ type: 'success', text: `${result.recovered} asset(s) unassigned and marked To Recover` });
+    },
+    onError,
+  });
+
+  const reviewedMutation = useMutation({
+    mutationFn: staffApi.markMoveReviewed,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['staff-leavers'] }),
+    onError,
+  });
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  const recoverAll = (entry: LeaverReportEntry) => {
+    if (!window.confirm(`Unassign ${entry.assets.length} asset(s) from ${entry.displayName || entry.aadId} and mark them To Recover?`)) return;
+    recoverMutation.mutate({ aadIds: [entry.aadId] });
+  };
+
+  const recoverSelected = () => {
+    if (!window.confirm(`Unassign ${selected.size} selected asset(s) and mark them To Recover?`)) return;
+    recoverMutation.mutate({ assetIds: Array.from(selected) });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <UserMinus className="w-5 h-5 text-red-500" />
+          <div>
+            <h2 className="font-semibold text-slate-900 dark:text-slate-100">Leavers holding equipment</h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {data?.lastCheckedAt
+                ? `Last checked against Azure AD ${new Date(data.lastCheckedAt).toLocaleString()}`
+                : 'Not checked against Azure AD yet'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {selected.size > 0 && (
+            <button
+              onClick={recoverSelected}
+              disabled={recoverMutation.isPending}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+            >
+              <PackageX className="w-4 h-4" />
+              Unassign & mark To Recover ({selected.size})
+            </button>
+          )}
+          <button
+            onClick={() => checkMutation.mutate()}
+            disabled={checkMutation.isPending}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm border border-slate-200 dark:border-slate-600 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+          >
+            <RefreshCw className={clsx('w-4 h-4', checkMutation.isPending && 'animate-spin')} />
+            Run check now
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={clsx(
+            'px-3 py-2 rounded-lg text-sm',
+            message.type === 'success'
+              ? 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-300'
+              : 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300'
+          )}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No disabled, deleted or moved assignees are holding equipment.</p>
+      ) : (
+        <div className="divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg">
+          {entries.map((entry) => {
+            const isOpen = expanded.has(entry.aadId);
+            const style = STATUS_STYLES[entry.status];
+            return (
+              <div key={entry.aadId}>
+                <div className="flex items-center justify-between gap-3 px-3 py-2">
+                  <button
+                    onClick={() => setExpanded(toggle(expanded, entry.aadId))}
+                    className="flex items-center gap-2 text-left min-w-0"
+                  >
+                    {isOpen ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+                    <span className="font-medium text-slate-900 dark:text-slate-100 truncate">{entry.displayName || entry.aadId}</span>
+                    <span className={clsx('px-2 py-0.5 rounded-full text-xs font-medium', style.className)}>{style.label}</span>
+                    <span className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                      {entry.status === 'MOVED' ? describeMove(entry) : entry.mail || entry.department || ''}
+                    </span>
+                  </button>
+                  <div className="flex items-center gap-3 shrink-0 text-sm">
+                    <span className="text-slate-500 dark:text-slate-400">
+                      {entry.assets.length} asset{entry.assets.length === 1 ? '' : 's'} · since {new Date(entry.statusChangedAt).toLocaleDateString()}
+                    </span>
+                    {entry.status === 'MOVED' && (
+                      <button
+                        onClick={() => reviewedMutation.mutate(entry.aadId)}
+                        disabled={reviewedMutation.isPending}
+                        className="text-brand-600 hover:underline disabled:opacity-50"
+                      >
+                        Mark reviewed
+                      </button>
+                    )}
+                    <button
+                      onClick={() => recoverAll(entry)}
+                      disabled={recoverMutation.isPending}
+                      className="text-purple-600 hover:underline disabled:opacity-50"
+                    >
+                      Recover all
+                    </button>
+                  </div>
+                </div>
+                {isOpen && (
+                  <table className="w-full text-sm mb-2">
+                    <tbody>
+                      {entry.assets.map((asset) => (
+                        <tr key={asset.id} className="text-slate-700 dark:text-slate-300">
+                          <td className="pl-9 pr-2 py-1 w-8">
+                            <input
+                              type="checkbox"
+                              checked={selected.has(asset.id)}
+                              onChange={() => setSelected(toggle(selected, asset.id))}
+                            />
+                          </td>
+                          <td className="px-2 py-1">
+                            <a className="text-brand-600 hover:underline" href={`/assets?search=${encodeURIComponent(asset.assetTag)}`}>
+                              {asset.assetTag}
+                            </a>
+                          </td>
+                          <td className="px-2 py-1">{asset.assetType}</td>
+                          <td className="px-2 py-1">{asset.make} {asset.model}</td>
+                          <td className="px-2 py-1">{asset.serialNumber || '—'}</td>
+                          <td className="px-2 py-1">{asset.status}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaversPanel;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+
+interface MergeRecord {
+  id: string;
+  name: string;
+  assetCount: number;
+}
+
+// Pick a record to keep and the duplicates to fold into it (vendors, departments)
+const MergeRecordsModal: React.FC<{
+  title: string;
+  description: string;
+  records: MergeRecord[];
+  onClose: () => void;
+  onMerge: (targetId: string, sourceIds: string[]) => void;
+  isLoading: boolean;
+}> = ({ title, description, records, onClose, onMerge, isLoading }) => {
+  const [targetId, setTargetId] = useState('');
+  const [sourceIds, setSourceIds] = useState<string[]>([]);
+
+  const toggleSource = (id: string) => {
+    setSourceIds((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  };
+
+  const candidates = records.filter((r) => r.id !== targetId);
+  const target = records.find((r) => r.id === targetId);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4">
+        <h3 className="text-lg font-medium mb-1">{title}</h3>
+        <p className="text-sm text-gray-600 mb-4">{description}</p>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Keep (target)</label>
+            <select
+              value={targetId}
+              onChange={(e) => {
+                setTargetId(e.target.value);
+                setSourceIds((prev) => prev.filter((id) => id !== e.target.value));
+              }}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">Select...</option>
+              {records.map((r) => (
+                <option key={r.id} value={r.id}>{r.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Merge into target</label>
+            <div className="max-h-56 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+              {candidates.map((r) => (
+                <label key={r.id} className="flex items-center justify-between px-3 py-2 text-sm hover:bg-gray-50">
+                  <span className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={sourceIds.includes(r.id)}
+                      onChange={() => toggleSource(r.id)}
+                      className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                    <span className="ml-2 text-gray-900">{r.name}</span>
+                  </span>
+                  <span className="text-gray-500">{r.assetCount} assets</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          {target && sourceIds.length > 0 && (
+            <p className="text-sm text-gray-700">
+              {sourceIds.length} record(s) will be merged into <span className="font-medium">{target.name}</span>.
+            </p>
+          )}
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onMerge(targetId, sourceIds)}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              disabled={isLoading || !targetId || sourceIds.length === 0}
+            >
+              {isLoading ? 'Merging...' : 'Merge'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeRecordsModal;
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { reportsApi } from '../services/api';
+import { downloadBlob } from '../utils/download';
+
+interface ReportExportButtonsProps {
+  reportKey: string;
+  params?: Record<string, string | undefined>;
+}
+
+// CSV / XLSX download buttons for any server-side report
+const ReportExportButtons: React.FC<ReportExportButtonsProps> = ({ reportKey, params }) => {
+  const [exporting, setExporting] = useState<'csv' | 'excel' | null>(null);
+
+  const handleExport = async (format: 'csv' | 'excel') => {
+    setExporting(format);
+    try {
+      const blob = await reportsApi.export(reportKey, format, params);
+      const date = new Date().toISOString().split('T')[0];
+      downloadBlob(blob, `${reportKey}_report_${date}.${format === 'excel' ? 'xlsx' : 'csv'}`);
+    } catch (error) {
+      console.error('Report export failed:', error);
+      alert('Failed to export report');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      {(['csv', 'excel'] as const).map((format) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null}
+          className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-slate-600 dark:text-slate-300 border border-slate-300 dark:border-slate-600 rounded-md hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+        >
+          <Download className="w-3 h-3" />
+          {exporting === format ? '...' : format === 'csv' ? 'CSV' : 'XLSX'}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ReportExportButtons;
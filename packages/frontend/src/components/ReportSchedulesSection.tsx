@@ -0,0 +1,460 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, CalendarClock, ChevronDown, ChevronRight, Edit2, Play, Plus, Trash2, X } from 'lucide-react';
+import {
+  reportSchedulesApi,
+  reportsApi,
+  savedViewsApi,
+  type ReportSchedule,
+  type ReportScheduleInput,
+} from '../services/api';
+
+const CRON_PRESETS = [
+  { label: 'Every Monday 08:00', value: '0 8 * * 1' },
+  { label: 'Every weekday 07:00', value: '0 7 * * 1-5' },
+  { label: 'Daily 06:00', value: '0 6 * * *' },
+  { label: '1st of the month 08:00', value: '0 8 1 * *' },
+];
+
+const inputClass =
+  'w-full px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500';
+
+const statusBadge = (status?: string | null) => {
+  if (!status) return <span className="text-xs text-slate-400">Never run</span>;
+  const styles: Record<string, string> = {
+    SUCCESS: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+    FAILED: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+    RUNNING: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  };
+  return <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${styles[status] || ''}`}>{status}</span>;
+};
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+interface ScheduleFormProps {
+  schedule: ReportSchedule | null;
+  onClose: () => void;
+}
+
+const ScheduleForm: React.FC<ScheduleFormProps> = ({ schedule, onClose }) => {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ReportScheduleInput>(
+    schedule
+      ? {
+          name: schedule.name,
+          cronExpression: schedule.cronExpression,
+          timezone: schedule.timezone,
+          sourceType: schedule.sourceType,
+          reportKey: schedule.reportKey,
+          reportParams: schedule.reportParams,
+          savedViewId: schedule.savedViewId,
+          deliveryType: schedule.deliveryType,
+          recipients: schedule.recipients,
+          webhookUrl: schedule.webhookUrl,
+          isActive: schedule.isActive,
+        }
+      : {
+          name: '',
+          cronExpression: CRON_PRESETS[0].value,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          sourceType: 'REPORT',
+          reportKey: 'warranty',
+          reportParams: {},
+          deliveryType: 'EMAIL',
+          recipients: '',
+          isActive: true,
+        }
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: reports = [] } = useQuery({ queryKey: ['reports'], queryFn: reportsApi.list });
+  const { data: views = [] } = useQuery({
+    queryKey: ['saved-views', 'assets'],
+    queryFn: () => savedViewsApi.getAll('assets'),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: ReportScheduleInput) =>
+      schedule ? reportSchedulesApi.update(schedule.id, data) : reportSchedulesApi.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-schedules'] });
+      onClose();
+    },
+    onError: (err: any) => setError(err.response?.data?.error || 'Failed to save schedule'),
+  });
+
+  const set = (patch: ReportScheduleInput) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    saveMutation.mutate(form);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 p-6 max-w-lg w-full mx-4 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+            {schedule ? 'Edit schedule' : 'New schedule'}
+          </h3>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 text-sm bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg">{error}</div>
+        )}
+
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+          Name
+          <input required value={form.name || ''} onChange={(e) => set({ name: e.target.value })} className={`${inputClass} mt-1`} />
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+            Source
+            <select
+              value={form.sourceType}
+              onChange={(e) => set({ sourceType: e.target.value as ReportSchedule['sourceType'] })}
+              className={`${inputClass} mt-1`}
+            >
+              <option value="REPORT">Report</option>
+              <option value="SAVED_VIEW">Saved asset view</option>
+            </select>
+          </label>
+          {form.sourceType === 'REPORT' ? (
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              Report
+              <select value={form.reportKey || ''} onChange={(e) => set({ reportKey: e.target.value })} className={`${inputClass} mt-1`}>
+                {reports.map((r) => (
+                  <option key={r.key} value={r.key}>{r.title}</option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+              View
+              <select
+                required
+                value={form.savedViewId || ''}
+                onChange={(e) => set({ savedViewId: e.target.value })}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="">Select a view...</option>
+                {views.map((v) => (
+                  <option key={v.id} value={v.id}>{v.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+            Cron expression
+            <input
+              required
+              value={form.cronExpression || ''}
+              onChange={(e) => set({ cronExpression: e.target.value })}
+              className={`${inputClass} mt-1 font-mono`}
+              list="cron-presets"
+            />
+            <datalist id="cron-presets">
+              {CRON_PRESETS.map((p) => (
+                <option key={p.value} value={p.value}>{p.label}</option>
+              ))}
+            </datalist>
+          </label>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+            Time zone
+            <input
+              value={form.timezone || ''}
+              onChange={(e) => set({ timezone: e.target.value || null })}
+              placeholder="Server time zone"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+            Deliver via
+            <select
+              value={form.deliveryType}
+              onChange={(e) => set({ deliveryType: e.target.value as ReportSchedule['deliveryType'] })}
+              className={`${inputClass} mt-1`}
+            >
+              <option value="EMAIL">Email (CSV)</option>
+              <option value="WEBHOOK">Webhook (JSON)</option>
+            </select>
+          </label>
+          <label className="col-span-2 block text-sm font-medium text-slate-700 dark:text-slate-300">
+            {form.deliveryType === 'EMAIL' ? 'Recipients (comma-separated)' : 'Webhook URL'}
+            {form.deliveryType === 'EMAIL' ? (
+              <input
+                required
+                value={form.recipients || ''}
+                onChange={(e) => set({ recipients: e.target.value })}
+                placeholder="it-team@example.com"
+                className={`${inputClass} mt-1`}
+              />
+            ) : (
+              <input
+                required
+                type="url"
+                value={form.webhookUrl || ''}
+                onChange={(e) => set({ webhookUrl: e.target.value })}
+                placeholder="https://hooks.example.com/..."
+                className={`${inputClass} mt-1`}
+              />
+            )}
+          </label>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+          <input type="checkbox" checked={!!form.isActive} onChange={(e) => set({ isActive: e.target.checked })} />
+          Active
+        </label>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+const ScheduleRunHistory: React.FC<{ scheduleId: string }> = ({ scheduleId }) => {
+  const { data: runs = [], isLoading } = useQuery({
+    queryKey: ['report-schedules', scheduleId, 'runs'],
+    queryFn: () => reportSchedulesApi.getRuns(scheduleId),
+  });
+
+  if (isLoading) return <div className="text-sm text-slate-500 py-2">Loading runs...</div>;
+  if (runs.length === 0) return <div className="text-sm text-slate-500 py-2">No runs yet</div>;
+
+  return (
+    <table className="min-w-full text-xs">
+      <thead className="text-left text-slate-500 uppercase">
+        <tr>
+          <th className="py-1 pr-4">Started</th>
+          <th className="py-1 pr-4">Trigger</th>
+          <th className="py-1 pr-4">Status</th>
+          <th className="py-1 pr-4">Rows</th>
+          <th className="py-1">Error</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+        {runs.map((run) => (
+          <tr key={run.id}>
+            <td className="py-1 pr-4 whitespace-nowrap">{formatDate(run.startedAt)}</td>
+            <td className="py-1 pr-4">{run.trigger}</td>
+            <td className="py-1 pr-4">{statusBadge(run.status)}</td>
+            <td className="py-1 pr-4">{run.rowCount ?? '—'}</td>
+            <td className="py-1 text-red-600 dark:text-red-400">{run.error || ''}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// Admin management of scheduled report / saved-view digests
+const ReportSchedulesSection: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ReportSchedule | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: schedules = [], isLoading } = useQuery({
+    queryKey: ['report-schedules'],
+    queryFn: reportSchedulesApi.getAll,
+  });
+
+  const { data: failures = [] } = useQuery({
+    queryKey: ['report-schedules', 'failures'],
+    queryFn: () => reportSchedulesApi.getRecentRuns({ status: 'FAILED', limit: 5 }),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['report-schedules'] });
+
+  const runMutation = useMutation({
+    mutationFn: (id: string) => reportSchedulesApi.runNow(id),
+    onSuccess: (run) => {
+      invalidate();
+      if (run.status === 'FAILED') alert(`Run failed: ${run.error}`);
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (schedule: ReportSchedule) => reportSchedulesApi.update(schedule.id, { isActive: !schedule.isActive }),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => reportSchedulesApi.delete(id),
+    onSuccess: invalidate,
+  });
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6 mb-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+            <CalendarClock className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Scheduled Reports</h2>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              Deliver reports or saved asset views by email (CSV) or webhook (JSON) on a cron schedule.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => {
+            setEditing(null);
+            setFormOpen(true);
+          }}
+          className="px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 flex items-center gap-2 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          New schedule
+        </button>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <div className="flex items-center gap-2 text-sm font-medium text-red-800 dark:text-red-200 mb-2">
+            <AlertTriangle className="w-4 h-4" />
+            Recent failures
+          </div>
+          <ul className="space-y-1 text-sm text-red-700 dark:text-red-300">
+            {failures.map((run) => (
+              <li key={run.id}>
+                <span className="font-medium">{run.schedule?.name}</span> · {formatDate(run.startedAt)} · {run.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-sm text-slate-500">Loading schedules...</div>
+      ) : schedules.length === 0 ? (
+        <div className="text-sm text-slate-500">No schedules yet.</div>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead className="text-left text-xs text-slate-500 uppercase bg-slate-50 dark:bg-slate-900/50">
+            <tr>
+              <th className="w-8" />
+              <th className="px-3 py-2">Name</th>
+              <th className="px-3 py-2">Source</th>
+              <th className="px-3 py-2">Schedule</th>
+              <th className="px-3 py-2">Delivery</th>
+              <th className="px-3 py-2">Next run</th>
+              <th className="px-3 py-2">Last run</th>
+              <th className="px-3 py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {schedules.map((schedule) => {
+              const expanded = expandedId === schedule.id;
+              return (
+                <React.Fragment key={schedule.id}>
+                  <tr className={schedule.isActive ? '' : 'opacity-60'}>
+                    <td className="pl-2">
+                      <button onClick={() => setExpandedId(expanded ? null : schedule.id)} className="text-slate-400">
+                        {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </button>
+                    </td>
+                    <td className="px-3 py-2 font-medium text-slate-900 dark:text-slate-100">{schedule.name}</td>
+                    <td className="px-3 py-2 text-slate-600 dark:text-slate-400">
+                      {schedule.sourceType === 'SAVED_VIEW'
+                        ? `View: ${schedule.savedView?.name || '(deleted)'}`
+                        : `Report: ${schedule.reportKey}`}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs">{schedule.cronExpression}</td>
+                    <td className="px-3 py-2 text-slate-600 dark:text-slate-400 max-w-[12rem] truncate">
+                      {schedule.deliveryType === 'EMAIL' ? schedule.recipients : schedule.webhookUrl}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">{schedule.isActive ? formatDate(schedule.nextRunAt) : 'Paused'}</td>
+                    <td className="px-3 py-2">{statusBadge(schedule.lastRun?.status)}</td>
+                    <td className="px-3 py-2">
+                      <div className="flex justify-end gap-1">
+                        <button
+                          title="Run now"
+                          onClick={() => runMutation.mutate(schedule.id)}
+                          disabled={runMutation.isPending}
+                          className="p-1.5 text-slate-500 hover:text-green-600 disabled:opacity-50"
+                        >
+                          <Play className="w-4 h-4" />
+                        </button>
+                        <button
+                          title="Edit"
+                          onClick={() => {
+                            setEditing(schedule);
+                            setFormOpen(true);
+                          }}
+                          className="p-1.5 text-slate-500 hover:text-blue-600"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => toggleMutation.mutate(schedule)}
+                          className="px-2 text-xs text-slate-500 hover:text-slate-700"
+                        >
+                          {schedule.isActive ? 'Pause' : 'Resume'}
+                        </button>
+                        <button
+                          title="Delete"
+                          onClick={() => {
+                            if (window.confirm(`Delete schedule "${schedule.name}" and its run history?`)) {
+                              deleteMutation.mutate(schedule.id);
+                            }
+                          }}
+                          className="p-1.5 text-slate-500 hover:text-red-600"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {expanded && (
+                    <tr>
+                      <td />
+                      <td colSpan={7} className="px-3 py-2 bg-slate-50 dark:bg-slate-900/30">
+                        <ScheduleRunHistory scheduleId={schedule.id} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {formOpen && <ScheduleForm schedule={editing} onClose={() => setFormOpen(false)} />}
+    </div>
+  );
+};
+
+export default ReportSchedulesSection;
@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Bookmark, Check, ChevronDown, Link2, Pin, Save, Star, Trash2, Users, X } from 'lucide-react';
+import clsx from 'clsx';
+import { savedViewsApi, type SavedView, type SavedViewInput } from '../services/api';
+
+interface SavedViewsMenuProps {
+  entity?: string;
+  activeViewId: string | null;
+  // Snapshot of the list's current filters, sort, columns and density
+  currentState: SavedViewInput;
+  onApply: (view: SavedView) => void;
+  onNotify?: (message: string, type: 'success' | 'error') => void;
+}
+
+// Order-insensitive comparison of two filter maps
+const sameFilters = (a: Record<string, string> = {}, b: Record<string, string> = {}) => {
+  const keysA = Object.keys(a).filter((k) => a[k] !== '');
+  const keysB = Object.keys(b).filter((k) => b[k] !== '');
+  return keysA.length === keysB.length && keysA.every((k) => String(a[k]) === String(b[k]));
+};
+
+const itemClass =
+  'flex items-center gap-2 px-3 py-2 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md cursor-pointer outline-none';
+
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({
+  entity = 'assets',
+  activeViewId,
+  currentState,
+  onApply,
+  onNotify,
+}) => {
+  const queryClient = useQueryClient();
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [isPinned, setIsPinned] = useState(false);
+  const [isDefault, setIsDefault] = useState(false);
+
+  const { data: views = [] } = useQuery({
+    queryKey: ['saved-views', entity],
+    queryFn: () => savedViewsApi.getAll(entity),
+  });
+
+  const activeView = views.find((v) => v.id === activeViewId);
+  const isModified =
+    !!activeView &&
+    (!sameFilters(activeView.filters, currentState.filters) ||
+      (activeView.sortBy || null) !== (currentState.sortBy || null) ||
+      (activeView.sortOrder || null) !== (currentState.sortOrder || null) ||
+      (activeView.density || null) !== (currentState.density || null) ||
+      JSON.stringify(activeView.columns || {}) !== JSON.stringify(currentState.columns || {}));
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+
+  const createMutation = useMutation({
+    mutationFn: (data: SavedViewInput) => savedViewsApi.create(data),
+    onSuccess: (view) => {
+      invalidate();
+      setSaveOpen(false);
+      onApply(view);
+      onNotify?.(`Saved view "${view.name}"`, 'success');
+    },
+    onError: (error: any) => onNotify?.(error.response?.data?.error || 'Failed to save view', 'error'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SavedViewInput }) => savedViewsApi.update(id, data),
+    onSuccess: () => invalidate(),
+    onError: (error: any) => onNotify?.(error.response?.data?.error || 'Failed to update view', 'error'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => savedViewsApi.delete(id),
+    onSuccess: () => invalidate(),
+    onError: (error: any) => onNotify?.(error.response?.data?.error || 'Failed to delete view', 'error'),
+  });
+
+  const openSaveDialog = () => {
+    setName('');
+    setIsShared(false);
+    setIsPinned(false);
+    setIsDefault(false);
+    setSaveOpen(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({ ...currentState, entity, name, isShared, isPinned, isDefault });
+  };
+
+  const copyLink = async (view: SavedView) => {
+    const url = `${window.location.origin}/${entity}?view=${view.id}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      onNotify?.('View link copied to clipboard', 'success');
+    } catch {
+      onNotify?.('Could not copy link', 'error');
+    }
+  };
+
+  const myViews = views.filter((v) => v.isOwner);
+  const sharedViews = views.filter((v) => !v.isOwner);
+
+  const renderView = (view: SavedView) => (
+    <DropdownMenu.Sub key={view.id}>
+      <DropdownMenu.SubTrigger className={clsx(itemClass, view.id === activeViewId && 'bg-brand-50 dark:bg-brand-900/20')}>
+        <span className="w-4">{view.id === activeViewId && <Check className="w-4 h-4 text-brand-600" />}</span>
+        <span className="flex-1 truncate">{view.name}</span>
+        {view.isDefault && <Star className="w-3 h-3 text-amber-500" />}
+        {view.isPinned && <Pin className="w-3 h-3 text-slate-400" />}
+        {view.isShared && <Users className="w-3 h-3 text-slate-400" />}
+      </DropdownMenu.SubTrigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.SubContent
+          className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg p-1 min-w-[180px] z-50"
+          sideOffset={4}
+        >
+          <DropdownMenu.Item className={itemClass} onSelect={() => onApply(view)}>
+            <Bookmark className="w-4 h-4" />
+            Open
+          </DropdownMenu.Item>
+          <DropdownMenu.Item className={itemClass} onSelect={() => copyLink(view)}>
+            <Link2 className="w-4 h-4" />
+            Copy link
+          </DropdownMenu.Item>
+          {view.isOwner && (
+            <>
+              <DropdownMenu.Separator className="my-1 h-px bg-slate-200 dark:bg-slate-700" />
+              <DropdownMenu.CheckboxItem
+                className={itemClass}
+                checked={view.isPinned}
+                onCheckedChange={(checked) => updateMutation.mutate({ id: view.id, data: { isPinned: checked } })}
+              >
+                <Pin className="w-4 h-4" />
+                Pin to sidebar
+                <DropdownMenu.ItemIndicator className="ml-auto"><Check className="w-4 h-4" /></DropdownMenu.ItemIndicator>
+              </DropdownMenu.CheckboxItem>
+              <DropdownMenu.CheckboxItem
+                className={itemClass}
+                checked={view.isShared}
+                onCheckedChange={(checked) => updateMutation.mutate({ id: view.id, data: { isShared: checked } })}
+              >
+                <Users className="w-4 h-4" />
+                Share with team
+                <DropdownMenu.ItemIndicator className="ml-auto"><Check className="w-4 h-4" /></DropdownMenu.ItemIndicator>
+              </DropdownMenu.CheckboxItem>
+              <DropdownMenu.CheckboxItem
+                className={itemClass}
+                checked={view.isDefault}
+                onCheckedChange={(checked) => updateMutation.mutate({ id: view.id, data: { isDefault: checked } })}
+              >
+                <Star className="w-4 h-4" />
+                Default view
+                <DropdownMenu.ItemIndicator className="ml-auto"><Check className="w-4 h-4" /></DropdownMenu.ItemIndicator>
+              </DropdownMenu.CheckboxItem>
+              <DropdownMenu.Separator className="my-1 h-px bg-slate-200 dark:bg-slate-700" />
+              <DropdownMenu.Item
+                className={clsx(itemClass, 'text-red-600 dark:text-red-400')}
+                onSelect={() => {
+                  if (window.confirm(`Delete saved view "${view.name}"?`)) deleteMutation.mutate(view.id);
+                }}
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </DropdownMenu.Item>
+            </>
+          )}
+        </DropdownMenu.SubContent>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Sub>
+  );
+
+  return (
+    <>
+      <DropdownMenu.Root>
+        <DropdownMenu.Trigger asChild>
+          <button className="flex items-center gap-2 px-3 py-2 text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors">
+            <Bookmark className="w-4 h-4" />
+            <span className="max-w-[10rem] truncate">{activeView ? activeView.name : 'Views'}</span>
+            {isModified && <span className="w-1.5 h-1.5 rounded-full bg-amber-500" title="Modified" />}
+            <ChevronDown className="w-4 h-4" />
+          </button>
+        </DropdownMenu.Trigger>
+        <DropdownMenu.Portal>
+          <DropdownMenu.Content
+            className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg p-1 min-w-[240px] z-50"
+            sideOffset={5}
+            align="end"
+          >
+            {myViews.length > 0 && (
+              <>
+                <DropdownMenu.Label className="px-3 py-1 text-xs font-medium text-slate-500 uppercase">My views</DropdownMenu.Label>
+                {myViews.map(renderView)}
+              </>
+            )}
+            {sharedViews.length > 0 && (
+              <>
+                <DropdownMenu.Label className="px-3 py-1 text-xs font-medium text-slate-500 uppercase">Shared with team</DropdownMenu.Label>
+                {sharedViews.map(renderView)}
+              </>
+            )}
+            {views.length === 0 && (
+              <div className="px-3 py-2 text-sm text-slate-500 dark:text-slate-400">No saved views yet</div>
+            )}
+            <DropdownMenu.Separator className="my-1 h-px bg-slate-200 dark:bg-slate-700" />
+            {activeView?.isOwner && isModified && (
+              <DropdownMenu.Item
+                className={itemClass}
+                onSelect={() =>
+                  updateMutation.mutate(
+                    { id: activeView.id, data: currentState },
+                    { onSuccess: () => onNotify?.(`Updated view "${activeView.name}"`, 'success') }
+                  )
+                }
+              >
+                <Save className="w-4 h-4" />
+                Update "{activeView.name}"
+              </DropdownMenu.Item>
+            )}
+            <DropdownMenu.Item className={itemClass} onSelect={openSaveDialog}>
+              <Save className="w-4 h-4" />
+              Save current view as...
+            </DropdownMenu.Item>
+          </DropdownMenu.Content>
+        </DropdownMenu.Portal>
+      </DropdownMenu.Root>
+
+      <Dialog.Root open={saveOpen} onOpenChange={setSaveOpen}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+          <Dialog.Content className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md z-50">
+            <div className="flex items-center justify-between mb-4">
+              <Dialog.Title className="text-lg font-semibold text-slate-900 dark:text-slate-100">Save view</Dialog.Title>
+              <Dialog.Close className="text-slate-400 hover:text-slate-600">
+                <X className="w-5 h-5" />
+              </Dialog.Close>
+            </div>
+            <form onSubmit={handleSave} className="space-y-4">
+              <input
+                autoFocus
+                required
+                maxLength={100}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Laptops out of warranty"
+                className="w-full px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500"
+              />
+              <div className="space-y-2 text-sm text-slate-700 dark:text-slate-300">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={isPinned} onChange={(e) => setIsPinned(e.target.checked)} />
+                  Pin to sidebar
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={isShared} onChange={(e) => setIsShared(e.target.checked)} />
+                  Share with team
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={isDefault} onChange={(e) => setIsDefault(e.target.checked)} />
+                  Open by default
+                </label>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Dialog.Close className="px-4 py-2 text-sm text-slate-700 dark:text-slate-300 border border-slate-300 dark:border-slate-600 rounded-lg">
+                  Cancel
+                </Dialog.Close>
+                <button
+                  type="submit"
+                  disabled={!name.trim() || createMutation.isPending}
+                  className="px-4 py-2 text-sm bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+                >
+                  {createMutation.isPending ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </>
+  );
+};
+
+export default SavedViewsMenu;
@@ -48,6 +48,21 @@ const SOURCE_CONFIG = {
     color: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
     logo: '/logos/rogers.png',
   },
+  BELL: {
+    label: 'Bell',
+    color: 'bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-300',
+    logo: '/logos/bell.png',
+  },
+  VERIZON: {
+    label: 'Verizon',
+    color: 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-300',
+    logo: '/logos/verizon.png',
+  },
+  EXCETEL: {
+    label: 'Excetel',
+    color: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300',
+    logo: '/logos/excetel.png',
+  },
   INVOICE: {
     label: 'Invoice/PO Import',
     color: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300',
@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, Edit2, LifeBuoy, Link2, Trash2, X } from 'lucide-react';
+import clsx from 'clsx';
+import { ticketsApi, type AssetTicket, type AssetTicketInput } from '../services/api';
+import { useStore } from '../store';
+
+const STATUSES = ['Open', 'Pending', 'Resolved', 'Closed'];
+const PRIORITIES = ['Low', 'Medium', 'High', 'Urgent'];
+
+// Matches the backend's closed statuses; anything else counts as open
+const CLOSED_STATUSES = ['resolved', 'closed', 'cancelled'];
+const isOpenTicket = (ticket: AssetTicket) => !ticket.status || !CLOSED_STATUSES.includes(ticket.status.toLowerCase());
+
+const EMPTY_FORM: AssetTicketInput = { ticketNumber: '', title: '', status: 'Open', priority: 'Medium' };
+
+interface TicketsPanelProps {
+  assetId: string;
+}
+
+const inputClass =
+  'px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100';
+
+const TicketsPanel: React.FC<TicketsPanelProps> = ({ assetId }) => {
+  const queryClient = useQueryClient();
+  const { currentUser } = useStore();
+  const canWrite = currentUser?.role === 'WRITE' || currentUser?.role === 'ADMIN';
+  const [form, setForm] = useState<AssetTicketInput>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<AssetTicketInput>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: tickets = [], isLoading } = useQuery({
+    queryKey: ['tickets', assetId],
+    queryFn: () => ticketsApi.getByAsset(assetId),
+  });
+
+  const invalidate = () => {
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['tickets', assetId] });
+    queryClient.invalidateQueries({ queryKey: ['asset', assetId] });
+  };
+  const onError = (err: any) => setError(err.response?.data?.error || 'Ticket update failed');
+
+  const createMutation = useMutation({
+    mutationFn: () => ticketsApi.create(assetId, form),
+    onSuccess: () => {
+      setForm(EMPTY_FORM);
+      invalidate();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: AssetTicketInput }) => ticketsApi.update(id, data),
+    onSuccess: () => {
+      setEditingId(null);
+      invalidate();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => ticketsApi.delete(id),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const startEdit = (ticket: AssetTicket) => {
+    setEditingId(ticket.id);
+    setEditForm({ title: ticket.title ?? '', status: ticket.status ?? '', priority: ticket.priority ?? '' });
+  };
+
+  const handleUnlink = (ticket: AssetTicket) => {
+    if (window.confirm(`Unlink ticket ${ticket.ticketNumber} from this asset?`)) {
+      deleteMutation.mutate(ticket.id);
+    }
+  };
+
+  const openCount = tickets.filter(isOpenTicket).length;
+
+  return (
+    <div className="space-y-5">
+      {canWrite && (
+        <div className="bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Link2 className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+            <h4 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Link a ticket</h4>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              value={form.ticketNumber ?? ''}
+              onChange={(e) => setForm({ ...form, ticketNumber: e.target.value })}
+              placeholder="Ticket number, e.g. INC-1234"
+              className={inputClass}
+            />
+            <input
+              value={form.title ?? ''}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="Title (optional)"
+              className={clsx(inputClass, 'md:col-span-3')}
+            />
+            <select
+              value={form.status ?? ''}
+              onChange={(e) => setForm({ ...form, status: e.target.value })}
+              className={inputClass}
+            >
+              {STATUSES.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+            <select
+              value={form.priority ?? ''}
+              onChange={(e) => setForm({ ...form, priority: e.target.value })}
+              className={inputClass}
+            >
+              {PRIORITIES.map((p) => (
+                <option key={p} value={p}>{p}</option>
+              ))}
+            </select>
+            <input
+              value={form.ticketSystem ?? ''}
+              onChange={(e) => setForm({ ...form, ticketSystem: e.target.value })}
+              placeholder="System (default Freshservice)"
+              className={clsx(inputClass, 'md:col-span-2')}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <div className="flex justify-end">
+            <button
+              onClick={() => createMutation.mutate()}
+              disabled={!form.ticketNumber?.trim() || createMutation.isPending}
+              className="px-3 py-1.5 bg-brand-600 hover:bg-brand-700 text-white rounded-md transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              {createMutation.isPending ? 'Linking...' : 'Link ticket'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!canWrite && error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-brand-600"></div>
+        </div>
+      ) : tickets.length > 0 ? (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {tickets.length} linked · {openCount} open
+          </p>
+          {tickets.map((ticket) => {
+            const open = isOpenTicket(ticket);
+            const isEditing = editingId === ticket.id;
+            return (
+              <div
+                key={ticket.id}
+                className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-3"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-semibold text-slate-900 dark:text-slate-100">{ticket.ticketNumber}</span>
+                      <span className="text-xs text-slate-500 dark:text-slate-400">{ticket.ticketSystem}</span>
+                      {!isEditing && ticket.status && (
+                        <span
+                          className={clsx(
+                            'px-2 py-0.5 text-xs rounded-md border',
+                            open
+                              ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-700'
+                              : 'bg-slate-50 dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-600'
+                          )}
+                        >
+                          {ticket.status}
+                        </span>
+                      )}
+                      {!isEditing && ticket.priority && (
+                        <span className="text-xs text-slate-500 dark:text-slate-400">Priority: {ticket.priority}</span>
+                      )}
+                    </div>
+                    {isEditing ? (
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mt-2">
+                        <input
+                          value={editForm.title ?? ''}
+                          onChange={(e) => setEditForm({ ...editForm, title: e.target.value })}
+                          placeholder="Title"
+                          className={clsx(inputClass, 'md:col-span-2')}
+                        />
+                        <input
+                          list="ticket-statuses"
+                          value={editForm.status ?? ''}
+                          onChange={(e) => setEditForm({ ...editForm, status: e.target.value })}
+                          placeholder="Status"
+                          className={inputClass}
+                        />
+                        <input
+                          list="ticket-priorities"
+                          value={editForm.priority ?? ''}
+                          onChange={(e) => setEditForm({ ...editForm, priority: e.target.value })}
+                          placeholder="Priority"
+                          className={inputClass}
+                        />
+                      </div>
+                    ) : (
+                      ticket.title && <p className="text-sm text-slate-700 dark:text-slate-300 mt-1">{ticket.title}</p>
+                    )}
+                    {ticket.description && !isEditing && (
+                      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 line-clamp-3 whitespace-pre-line">
+                        {ticket.description}
+                      </p>
+                    )}
+                    <p className="text-xs text-slate-400 dark:text-slate-500 mt-1">
+                      Linked {new Date(ticket.createdAt).toLocaleDateString()} · Updated {new Date(ticket.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {canWrite && (
+                    <div className="flex items-center gap-1">
+                      {isEditing ? (
+                        <>
+                          <button
+                            onClick={() => updateMutation.mutate({ id: ticket.id, data: editForm })}
+                            disabled={updateMutation.isPending}
+                            title="Save"
+                            className="p-1.5 rounded-md text-slate-500 hover:text-green-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50"
+                          >
+                            <Check className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setEditingId(null)}
+                            title="Cancel"
+                            className="p-1.5 rounded-md text-slate-500 hover:text-slate-700 hover:bg-slate-100 dark:hover:bg-slate-700"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => startEdit(ticket)}
+                            title="Edit"
+                            className="p-1.5 rounded-md text-slate-500 hover:text-brand-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleUnlink(ticket)}
+                            disabled={deleteMutation.isPending}
+                            title="Unlink"
+                            className="p-1.5 rounded-md text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          <datalist id="ticket-statuses">
+            {STATUSES.map((s) => <option key={s} value={s} />)}
+          </datalist>
+          <datalist id="ticket-priorities">
+            {PRIORITIES.map((p) => <option key={p} value={p} />)}
+          </datalist>
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <LifeBuoy className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-500 dark:text-slate-400">No tickets linked to this asset</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TicketsPanel;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ArrowRight, ChevronDown, ChevronUp } from 'lucide-react';
+import * as Collapsible from '@radix-ui/react-collapsible';
+import type { ImportDryRunResult } from '../../hooks/useImportAssets';
+
+interface Props {
+  result: ImportDryRunResult;
+  // Rows sent with the dry run, used to label skipped and failed rows
+  rows: Record<string, string>[];
+}
+
+// Rows listed per section before the rest are summarised
+const MAX_ROWS = 100;
+
+const rowLabel = (rows: Record<string, string>[], index: number) => {
+  const row = rows[index];
+  const name = row ? Object.values(row).find((v) => v && String(v).trim()) : undefined;
+  return name ? `Row ${index + 1} · ${name}` : `Row ${index + 1}`;
+};
+
+interface SectionProps {
+  title: string;
+  count: number;
+  tone: string;
+  defaultOpen?: boolean;
+  children: React.ReactNode;
+}
+
+const Section: React.FC<SectionProps> = ({ title, count, tone, defaultOpen = false, children }) => {
+  const [open, setOpen] = useState(defaultOpen);
+  return (
+    <Collapsible.Root open={open} onOpenChange={setOpen} className="border border-slate-200 dark:border-slate-700 rounded-lg">
+      <Collapsible.Trigger
+        disabled={count === 0}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm disabled:cursor-default"
+      >
+        <span className={`font-semibold ${tone}`}>{title}</span>
+        <span className="flex items-center gap-2 text-slate-500 dark:text-slate-400">
+          {count}
+          {count > 0 && (open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
+        </span>
+      </Collapsible.Trigger>
+      <Collapsible.Content className="px-4 pb-3 max-h-64 overflow-y-auto text-sm space-y-1">
+        {children}
+        {count > MAX_ROWS && (
+          <div className="text-xs text-slate-500 dark:text-slate-400">+{count - MAX_ROWS} more</div>
+        )}
+      </Collapsible.Content>
+    </Collapsible.Root>
+  );
+};
+
+const DryRunSummary: React.FC<Props> = ({ result, rows }) => {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+        <div className="rounded-lg bg-emerald-50 dark:bg-emerald-900/20 p-3">
+          <div className="text-xl font-bold text-emerald-600 dark:text-emerald-400">{result.created.length}</div>
+          <div className="text-xs text-emerald-700 dark:text-emerald-300">Would create</div>
+        </div>
+        <div className="rounded-lg bg-blue-50 dark:bg-blue-900/20 p-3">
+          <div className="text-xl font-bold text-blue-600 dark:text-blue-400">{result.updated.length}</div>
+          <div className="text-xs text-blue-700 dark:text-blue-300">Would update</div>
+        </div>
+        <div className="rounded-lg bg-amber-50 dark:bg-amber-900/20 p-3">
+          <div className="text-xl font-bold text-amber-600 dark:text-amber-400">{result.skipped}</div>
+          <div className="text-xs text-amber-700 dark:text-amber-300">Would skip</div>
+        </div>
+        <div className="rounded-lg bg-red-50 dark:bg-red-900/20 p-3">
+          <div className="text-xl font-bold text-red-600 dark:text-red-400">{result.failed}</div>
+          <div className="text-xs text-red-700 dark:text-red-300">Would fail</div>
+        </div>
+      </div>
+
+      <Section title="Errors" count={result.errors.length} tone="text-red-700 dark:text-red-300" defaultOpen>
+        {result.errors.slice(0, MAX_ROWS).map((item) => (
+          <div key={item.index} className="flex gap-2">
+            <span className="text-slate-700 dark:text-slate-300 flex-shrink-0">{rowLabel(rows, item.index)}</span>
+            <span className="text-red-600 dark:text-red-400 break-all">{item.error}</span>
+          </div>
+        ))}
+      </Section>
+
+      <Section title="Skipped" count={result.skippedItems.length} tone="text-amber-700 dark:text-amber-300">
+        {result.skippedItems.slice(0, MAX_ROWS).map((item) => (
+          <div key={item.index} className="flex gap-2">
+            <span className="text-slate-700 dark:text-slate-300 flex-shrink-0">{rowLabel(rows, item.index)}</span>
+            <span className="text-amber-600 dark:text-amber-400 break-all">{item.reason}</span>
+          </div>
+        ))}
+      </Section>
+
+      <Section title="Updates" count={result.updated.length} tone="text-blue-700 dark:text-blue-300">
+        {result.updated.slice(0, MAX_ROWS).map((item) => (
+          <div key={item.index} className="py-1 border-b border-slate-100 dark:border-slate-700/50 last:border-0">
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-slate-800 dark:text-slate-200">{item.assetTag}</span>
+              {item.reactivated && (
+                <span className="px-1.5 py-0.5 rounded text-xs bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-300">
+                  Reactivated
+                </span>
+              )}
+              {item.changes.length === 0 && <span className="text-xs text-slate-500 dark:text-slate-400">No field changes</span>}
+            </div>
+            {item.changes.map((change) => (
+              <div key={change.field} className="ml-4 flex items-center gap-2 flex-wrap text-xs">
+                <span className="text-slate-600 dark:text-slate-400">{change.label}:</span>
+                <span className="text-red-700 dark:text-red-300 line-through break-all">{change.from ?? '—'}</span>
+                <ArrowRight className="w-3 h-3 text-slate-400 flex-shrink-0" />
+                <span className="text-green-700 dark:text-green-300 break-all">{change.to ?? '—'}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </Section>
+
+      <Section title="New assets" count={result.created.length} tone="text-emerald-700 dark:text-emerald-300">
+        {result.created.slice(0, MAX_ROWS).map((item) => (
+          <div key={item.index} className="flex gap-2">
+            <span className="text-slate-500 dark:text-slate-400">Row {item.index + 1}</span>
+            <span className="font-mono text-slate-800 dark:text-slate-200">{item.assetTag}</span>
+          </div>
+        ))}
+      </Section>
+    </div>
+  );
+};
+
+export default DryRunSummary;
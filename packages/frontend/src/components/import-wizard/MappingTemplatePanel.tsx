@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, BookmarkPlus, Check, Save } from 'lucide-react';
+import {
+  compareHeaderLayouts,
+  fingerprintHeaders,
+  type HeaderLayoutComparison,
+  type MappingTemplateColumn,
+  type MappingTemplateDefault,
+} from '@ats/shared-transformations';
+import type { MappingTemplate } from '../../services/api';
+import {
+  useMappingTemplateSuggestions,
+  useMappingTemplates,
+  useSaveMappingTemplate,
+} from '../../hooks/useMappingTemplates';
+
+interface Props {
+  headers: string[];
+  sourceKey: string;
+  category: string;
+  // Current mapping, in template form, for saving
+  columns: MappingTemplateColumn[];
+  defaults: MappingTemplateDefault[];
+  onApply: (template: MappingTemplate) => void;
+}
+
+const MappingTemplatePanel: React.FC<Props> = ({ headers, sourceKey, category, columns, defaults, onApply }) => {
+  const [selectedId, setSelectedId] = useState('');
+  const [applied, setApplied] = useState<{ template: MappingTemplate; layout: HeaderLayoutComparison } | null>(null);
+  const [name, setName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const autoAppliedFor = useRef<string | null>(null);
+
+  const fingerprint = fingerprintHeaders(headers);
+  const { data: suggestionData } = useMappingTemplateSuggestions(headers, sourceKey);
+  const { data: templates = [] } = useMappingTemplates(sourceKey);
+  const saveMutation = useSaveMappingTemplate();
+  const suggestions = suggestionData?.suggestions ?? [];
+
+  const apply = (template: MappingTemplate) => {
+    const layout = compareHeaderLayouts(template.headers, headers);
+    setApplied({ template, layout });
+    setSelectedId(template.id);
+    setName(template.name);
+    setNotice(null);
+    setError(null);
+    onApply(template);
+  };
+
+  // Apply an exact layout match automatically, once per uploaded header set
+  useEffect(() => {
+    if (autoAppliedFor.current === fingerprint) return;
+    const exact = suggestions.find((s) => s.layout.matches);
+    if (exact) {
+      autoAppliedFor.current = fingerprint;
+      apply(exact.template);
+    }
+  }, [fingerprint, suggestions]);
+
+  const save = async (asNew: boolean) => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError('Enter a template name');
+      return;
+    }
+    try {
+      const saved = await saveMutation.mutateAsync({
+        id: asNew ? undefined : applied?.template.id,
+        data: { name: trimmed, sourceKey, category, headers, columns, defaults },
+      });
+      setApplied({ template: saved, layout: compareHeaderLayouts(saved.headers, headers) });
+      setSelectedId(saved.id);
+      setError(null);
+      setNotice(asNew ? `Saved template "${saved.name}"` : `Saved "${saved.name}" as version ${saved.version}`);
+    } catch (err: any) {
+      setNotice(null);
+      setError(err?.response?.data?.error || 'Failed to save mapping template');
+    }
+  };
+
+  const suggestedIds = new Set(suggestions.map((s) => s.template.id));
+  const canUpdate = Boolean(applied) && name.trim() !== '';
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Mapping template</span>
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="text-sm border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 rounded-md py-1.5 min-w-[14rem]"
+        >
+          <option value="">{templates.length ? '-- Choose a template --' : 'No saved templates'}</option>
+          {suggestions.map(({ template, layout }) => (
+            <option key={template.id} value={template.id}>
+              {template.name} (v{template.version}) · {layout.matches ? 'exact match' : `${Math.round(layout.overlap * 100)}% match`}
+            </option>
+          ))}
+          {templates
+            .filter((t) => !suggestedIds.has(t.id))
+            .map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name} (v{template.version})
+              </option>
+            ))}
+        </select>
+        <button
+          type="button"
+          disabled={!selectedId}
+          onClick={() => {
+            const template = templates.find((t) => t.id === selectedId)
+              ?? suggestions.find((s) => s.template.id === selectedId)?.template;
+            if (template) apply(template);
+          }}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+        >
+          <Check className="w-4 h-4" />
+          Apply
+        </button>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Template name"
+            className="text-sm border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 rounded-md py-1.5"
+          />
+          {canUpdate && (
+            <button
+              type="button"
+              disabled={saveMutation.isLoading}
+              onClick={() => save(false)}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+              title={`Save as version ${(applied?.template.version ?? 0) + 1} of "${applied?.template.name}"`}
+            >
+              <Save className="w-4 h-4" />
+              Update
+            </button>
+          )}
+          <button
+            type="button"
+            disabled={saveMutation.isLoading}
+            onClick={() => save(true)}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-brand-600 text-white rounded-md hover:bg-brand-700 disabled:opacity-50"
+          >
+            <BookmarkPlus className="w-4 h-4" />
+            Save as new
+          </button>
+        </div>
+      </div>
+
+      {applied && !applied.layout.matches && (
+        <div className="flex items-start gap-2 rounded-md bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-3 text-sm text-amber-800 dark:text-amber-300">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-medium">
+              "{applied.template.name}" v{applied.template.version} was saved for a different header layout. Review the mapping before importing.
+            </p>
+            {applied.layout.missing.length > 0 && (
+              <p className="mt-1">Missing from this file (left unmapped): {applied.layout.missing.join(', ')}</p>
+            )}
+            {applied.layout.added.length > 0 && (
+              <p className="mt-1">New in this file (ignored): {applied.layout.added.join(', ')}</p>
+            )}
+          </div>
+        </div>
+      )}
+      {applied?.layout.matches && !notice && (
+        <p className="text-xs text-green-700 dark:text-green-400">
+          Applied "{applied.template.name}" v{applied.template.version} – header layout matches.
+        </p>
+      )}
+      {notice && <p className="text-xs text-green-700 dark:text-green-400">{notice}</p>}
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default MappingTemplatePanel;
@@ -13,8 +13,10 @@ import {
 } from 'lucide-react';
 import * as Collapsible from '@radix-ui/react-collapsible';
 import DataPreviewTable from '../../../components/DataPreviewTable';
+import DryRunSummary from '../DryRunSummary';
+import { isImportSourceSupported, transformImportRow } from '@ats/shared-transformations';
 import { api } from '../../../services/api';
-import { generateSessionId } from '../../../hooks/useImportAssets';
+import { generateSessionId, useImportDryRun } from '../../../hooks/useImportAssets';
 import type { ColumnMapping } from '../../../utils/ninjaMapping';
 
 interface Props {
@@ -90,6 +92,22 @@ const StepConfirm: React.FC<Props> = ({
     willReactivate: Array<{ assetId: string; assetTag: string; serialNumber: string }>;
   } | null>(null);
   const [missingSerialCount, setMissingSerialCount] = useState<number>(0);
+  const dryRunMutation = useImportDryRun();
+  const { reset: resetDryRun } = dryRunMutation;
+
+  // A dry-run result only describes the inputs it ran with; the parent rebuilds the row
+  // array on every render, so compare a content key rather than object identity
+  const dryRunInputKey = [
+    previewRows.length,
+    conflictResolution,
+    columnMappings.map((m) => `${m.ninjaColumn}>${m.targetField}:${m.processorName ?? ''}:${m.defaultValue ?? ''}`).join(','),
+    Object.keys(userMap).length,
+    Object.keys(locationMap).length,
+    Array.from(overrideReactivateAllowSerials).join(','),
+  ].join('|');
+  useEffect(() => {
+    resetDryRun();
+  }, [resetDryRun, dryRunInputKey]);
 
   useEffect(() => {
     const loadPreview = async () => {
@@ -100,15 +118,12 @@ const StepConfirm: React.FC<Props> = ({
       // For sources with automatic transformations (Rogers, Telus, etc.), use the transformation logic to extract serial numbers
       let serialNumbers: string[] = [];
       
-      if (['rogers', 'telus', 'ninjaone', 'ninjaone-servers', 'bgc-template'].includes(selectedSource)) {
+      if (isImportSourceSupported(selectedSource)) {
         try {
-          // Import the transformation registry
-          const { transformImportRow } = await import('@shared/importSources/transformationRegistry');
-          
           // Extract serial numbers using the same transformation logic as DataPreviewTable
           const transformedSerials = previewRows.map(row => {
             try {
-              const result = transformImportRow(selectedSource as any, row);
+              const result = transformImportRow(selectedSource, row);
               return result.directFields.serialNumber;
             } catch (e) {
               return null;
@@ -166,14 +181,12 @@ const StepConfirm: React.FC<Props> = ({
   // Compute missing-serial warnings for UI
   useEffect(() => {
     const computeMissingCount = async () => {
-      if (['rogers', 'telus', 'ninjaone', 'ninjaone-servers', 'bgc-template'].includes(selectedSource || '')) {
+      if (selectedSource && isImportSourceSupported(selectedSource)) {
         try {
-          const { transformImportRow } = await import('@shared/importSources/transformationRegistry');
-          
           let missingCount = 0;
           for (const row of previewRows) {
             try {
-              const result = transformImportRow(selectedSource as any, row);
+              const result = transformImportRow(selectedSource, row);
               const serial = result.directFields.serialNumber;
               if (!serial || !String(serial).trim()) {
                 missingCount++;
@@ -209,17 +222,14 @@ const StepConfirm: React.FC<Props> = ({
   }, [columnMappings, previewRows, selectedSource]);
   // DataPreviewTable handles all filtering internally now
 
-  const handleImportClick = async () => {
-    setImportError(null);
-    
-    // Generate session ID for progress tracking
-    const sessionId = generateSessionId();
-    
+  const buildImportData = (sessionId: string) => {
     // Prepare column mappings for backend (rename 'required' -> 'isRequired')
     const backendMappings = columnMappings.map((m: any) => {
-      const { required, ...rest } = m as any;
+      const { required, processor, processorName, ...rest } = m as any;
       return {
         ...rest,
+        // Processor functions cannot be sent; template processors go by name
+        ...(processorName && { processor: processorName }),
         isRequired: required ?? false,
       } as any;
     });
@@ -250,9 +260,22 @@ const StepConfirm: React.FC<Props> = ({
       retireSkipAssetIds: Array.from(overrideRetireSkipIds),
       reactivationAllowSerials: Array.from(overrideReactivateAllowSerials)
     };
+    return importData;
+  };
+
+  const handleDryRunClick = () => {
+    setImportError(null);
+    dryRunMutation.mutate(buildImportData(generateSessionId()));
+  };
+
+  const handleImportClick = async () => {
+    setImportError(null);
+
+    // Generate session ID for progress tracking
+    const sessionId = generateSessionId();
 
     // Pass data to parent to start import process
-    onConfirmImport(importData);
+    onConfirmImport(buildImportData(sessionId));
   };
 
   return (
@@ -267,19 +290,59 @@ const StepConfirm: React.FC<Props> = ({
           >
             ← Go Back
           </button>
-          <button
-            onClick={handleImportClick}
-            disabled={isImporting || isResolving}
-            className="px-6 py-3 bg-brand-600 text-white rounded-lg hover:bg-brand-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-          >
-            {(isImporting || isResolving) && (
-              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-            )}
-            {isResolving ? 'Processing...' : isImporting ? 'Importing...' : `Import ${countToImport} Asset${countToImport!==1?'s':''}`}
-          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleDryRunClick}
+              disabled={isImporting || isResolving || dryRunMutation.isLoading}
+              className="px-4 py-3 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {dryRunMutation.isLoading && (
+                <div className="w-4 h-4 border-2 border-slate-500 border-t-transparent rounded-full animate-spin" />
+              )}
+              {dryRunMutation.isLoading ? 'Running dry run...' : 'Dry Run'}
+            </button>
+            <button
+              onClick={handleImportClick}
+              disabled={isImporting || isResolving}
+              className="px-6 py-3 bg-brand-600 text-white rounded-lg hover:bg-brand-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {(isImporting || isResolving) && (
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              )}
+              {isResolving ? 'Processing...' : isImporting ? 'Importing...' : `Import ${countToImport} Asset${countToImport!==1?'s':''}`}
+            </button>
+          </div>
         </div>
       </div>
 
+      {/* Dry Run Results */}
+      {(dryRunMutation.data || dryRunMutation.isError) && (
+        <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-semibold text-slate-900 dark:text-slate-100">Dry run: what this import would do</h4>
+            <button
+              onClick={() => dryRunMutation.reset()}
+              className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {dryRunMutation.isError ? (
+            <div className="text-sm text-red-600 dark:text-red-400">
+              {(dryRunMutation.error as any)?.response?.data?.error || 'Dry run failed'}
+            </div>
+          ) : dryRunMutation.data && (
+            <>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                Every row was run through the import and rolled back; nothing was saved. Retirements are shown in the review below.
+              </p>
+              <DryRunSummary result={dryRunMutation.data} rows={previewRows} />
+            </>
+          )}
+        </div>
+      )}
+
       {/* Resolve Progress Bar */}
       {(isResolving || resolveProgress) && (
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
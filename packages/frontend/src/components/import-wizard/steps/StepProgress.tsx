@@ -1,7 +1,7 @@
 import React from 'react';
 import { Loader2, AlertCircle, Check, ChevronDown, AlertTriangle, Zap, User, Monitor, MapPin, Upload } from 'lucide-react';
 import * as Collapsible from '@radix-ui/react-collapsible';
-import type { ImportProgress } from '../../../hooks/useImportAssets';
+import type { ImportProgress, ImportRowEvent, ImportRowEventType } from '../../../hooks/useImportAssets';
 
 // Match the full structure of the import result from the backend
 interface ImportResult {
@@ -15,6 +15,7 @@ interface ImportResult {
   updated?: Array<{ id: string; assetTag: string }>;
   retired?: Array<{ id: string; assetTag: string }>;
   reactivated?: Array<{ id: string; assetTag: string }>;
+  cancelled?: boolean;
   statistics?: {
     categorizedAssets: Array<{ assetTag: string; categoryName: string; ruleName: string }>;
     uniqueUsers: string[];
@@ -27,6 +28,8 @@ interface ImportResult {
 interface Props {
   isLoading: boolean;
   progress: ImportProgress | null;
+  // Per-row outcomes streamed while the import runs
+  events?: ImportRowEvent[];
   elapsedTime: number;
   totalToImport: number;
   formatElapsed: (ms: number) => string;
@@ -36,11 +39,26 @@ interface Props {
   // Optional invoice document link (Admin only)
   invoiceDocumentId?: string | null;
   isAdmin?: boolean;
+  // Cancel the running import job (stops after the current batch)
+  onCancel?: () => void;
+  isCancelling?: boolean;
 }
 
+const rowEventStyles: Record<ImportRowEventType, { label: string; className: string }> = {
+  created: { label: 'Created', className: 'text-emerald-700 dark:text-emerald-300' },
+  updated: { label: 'Updated', className: 'text-blue-700 dark:text-blue-300' },
+  skipped: { label: 'Skipped', className: 'text-amber-700 dark:text-amber-300' },
+  error: { label: 'Error', className: 'text-red-700 dark:text-red-300' },
+  retired: { label: 'Retired', className: 'text-slate-600 dark:text-slate-300' },
+};
+
+// Rows shown in the live log; newest first
+const LIVE_LOG_ROWS = 200;
+
 const StepProgress: React.FC<Props> = ({
   isLoading,
   progress,
+  events = [],
   elapsedTime,
   totalToImport,
   formatElapsed,
@@ -49,6 +67,8 @@ const StepProgress: React.FC<Props> = ({
   onImportMore,
   invoiceDocumentId,
   isAdmin,
+  onCancel,
+  isCancelling,
 }) => {
   // --- Loading State ---
   if (isLoading) {
@@ -95,7 +115,18 @@ const StepProgress: React.FC<Props> = ({
           </div>
           <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 flex items-center gap-2 text-sm">
             <AlertCircle className="w-4 h-4 text-blue-600 dark:text-blue-400" />
-            Please don't close this page while the import is in progress.
+            <span className="flex-1">
+              The import runs on the server. You can leave this page and check the outcome under Import Runs.
+            </span>
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                disabled={isCancelling}
+                className="px-3 py-1 text-xs font-medium border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+              >
+                {isCancelling ? 'Cancelling after current batch…' : 'Cancel import'}
+              </button>
+            )}
           </div>
         </div>
 
@@ -249,6 +280,28 @@ const StepProgress: React.FC<Props> = ({
             )}
           </div>
         )}
+
+        {/* Live Log */}
+        {events.length > 0 && (
+          <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-6">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-3">Live Log</h3>
+            <div className="bg-slate-50 dark:bg-slate-900/40 rounded-lg border border-slate-200 dark:border-slate-700 max-h-64 overflow-y-auto font-mono text-xs">
+              {events.slice(-LIVE_LOG_ROWS).reverse().map((event) => {
+                const style = rowEventStyles[event.type] ?? rowEventStyles.updated;
+                return (
+                  <div key={event.seq} className="flex items-baseline gap-3 px-3 py-1 border-b border-slate-100 dark:border-slate-800 last:border-0">
+                    <span className={`w-16 flex-shrink-0 font-semibold ${style.className}`}>{style.label}</span>
+                    <span className="w-16 flex-shrink-0 text-slate-500 dark:text-slate-400">
+                      {event.rowIndex != null ? `Row ${event.rowIndex + 1}` : '—'}
+                    </span>
+                    <span className="flex-shrink-0 text-slate-800 dark:text-slate-200">{event.assetTag || ''}</span>
+                    {event.message && <span className="text-slate-600 dark:text-slate-400 break-all">{event.message}</span>}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </div>
     );
   }
@@ -264,7 +317,7 @@ const StepProgress: React.FC<Props> = ({
         <div className="absolute inset-0 bg-grid-slate-100 dark:bg-grid-slate-800 [mask-image:linear-gradient(0deg,white,rgba(255,255,255,0.6))] dark:[mask-image:linear-gradient(0deg,rgba(255,255,255,0.1),rgba(255,255,255,0.05))]" />
         <div className="relative px-6 py-6 text-center">
           <div className={`inline-flex items-center justify-center w-12 h-12 rounded-xl mb-4 shadow-md ${
-            importResults.failed > 0 
+            importResults.failed > 0 || importResults.cancelled
               ? 'bg-gradient-to-br from-amber-400 to-orange-500 text-white'
               : 'bg-gradient-to-br from-emerald-400 to-green-500 text-white'
           }`}>
@@ -272,11 +325,13 @@ const StepProgress: React.FC<Props> = ({
           </div>
           
           <h1 className="text-2xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 dark:from-white dark:to-slate-300 bg-clip-text text-transparent mb-2">
-            Import {importResults.failed > 0 ? 'Completed with Issues' : 'Successfully Completed'}
+            Import {importResults.cancelled ? 'Cancelled' : importResults.failed > 0 ? 'Completed with Issues' : 'Successfully Completed'}
           </h1>
           
           <p className="text-sm text-slate-600 dark:text-slate-400 max-w-xl mx-auto">
-            {importResults.failed > 0 
+            {importResults.cancelled
+              ? `Stopped after ${importResults.successful + importResults.failed + importResults.skipped} of ${importResults.total} rows. Assets missing from the file were not retired.`
+              : importResults.failed > 0 
               ? `${importResults.successful} assets imported successfully with ${importResults.failed} issues to review`
               : `All ${importResults.successful} assets have been successfully imported into your system`
             }
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import { Bell, Check, CheckCheck, Settings } from 'lucide-react';
+import clsx from 'clsx';
+import { lifecycleApi, type AlertSeverity, type LifecycleAlert } from '../../services/api';
+import { useStore } from '../../store';
+
+const POLL_INTERVAL_MS = 60_000;
+
+const SEVERITY_DOT: Record<AlertSeverity, string> = {
+  INFO: 'bg-blue-500',
+  WARNING: 'bg-amber-500',
+  CRITICAL: 'bg-red-500',
+};
+
+const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { currentUser } = useStore();
+  const [open, setOpen] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: count } = useQuery({
+    queryKey: ['lifecycle-alerts', 'count'],
+    queryFn: lifecycleApi.getAlertCount,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const { data: alerts, isLoading } = useQuery({
+    queryKey: ['lifecycle-alerts', showAll ? 'all' : 'unacknowledged'],
+    queryFn: () => lifecycleApi.getAlerts({ status: showAll ? 'all' : 'unacknowledged' }),
+    enabled: open,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['lifecycle-alerts'] });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: (id: string) => lifecycleApi.acknowledge(id),
+    onSuccess: invalidate,
+  });
+
+  const acknowledgeAllMutation = useMutation({
+    mutationFn: lifecycleApi.acknowledgeAll,
+    onSuccess: invalidate,
+  });
+
+  const unread = count?.unacknowledged ?? 0;
+
+  const openAlert = (alert: LifecycleAlert) => {
+    if (!alert.acknowledgedAt) {
+      acknowledgeMutation.mutate(alert.id);
+    }
+    if (alert.asset) {
+      navigate(`/assets?search=${encodeURIComponent(alert.asset.assetTag)}`);
+    }
+  };
+
+  return (
+    <DropdownMenu.Root open={open} onOpenChange={setOpen}>
+      <DropdownMenu.Trigger asChild>
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          title="Notifications"
+          className="relative p-2 rounded-xl bg-white/50 dark:bg-slate-800/50 hover:bg-white/80 dark:hover:bg-slate-700/80 transition-all duration-200 shadow-glass-sm"
+        >
+          <Bell className="w-5 h-5 text-slate-700 dark:text-slate-300" />
+          {unread > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.125rem] h-[1.125rem] px-1 flex items-center justify-center text-[10px] font-semibold text-white bg-brand-500 rounded-full">
+              {unread > 99 ? '99+' : unread}
+            </span>
+          )}
+        </motion.button>
+      </DropdownMenu.Trigger>
+
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          side="bottom"
+          align="end"
+          sideOffset={8}
+          className="w-96 p-1 bg-white/90 dark:bg-slate-900/90 backdrop-blur-xl border border-white/20 dark:border-slate-700/50 rounded-2xl shadow-glass animate-slide-up z-50"
+        >
+          <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200/50 dark:border-slate-700/50">
+            <div className="font-medium text-slate-900 dark:text-slate-100">Lifecycle alerts</div>
+            <div className="flex items-center gap-2 text-xs">
+              <button
+                onClick={() => setShowAll(!showAll)}
+                className="text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+              >
+                {showAll ? 'Show unread' : 'Show all'}
+              </button>
+              {unread > 0 && (
+                <button
+                  onClick={() => acknowledgeAllMutation.mutate()}
+                  disabled={acknowledgeAllMutation.isPending}
+                  className="flex items-center gap-1 text-brand-600 hover:text-brand-700 dark:text-brand-400 disabled:opacity-50"
+                >
+                  <CheckCheck className="w-3.5 h-3.5" />
+                  Acknowledge all
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto py-1">
+            {isLoading ? (
+              <div className="px-3 py-6 text-sm text-center text-slate-500">Loading...</div>
+            ) : !alerts || alerts.length === 0 ? (
+              <div className="px-3 py-6 text-sm text-center text-slate-500 dark:text-slate-400">
+                {showAll ? 'No open alerts' : "You're all caught up"}
+              </div>
+            ) : (
+              alerts.map((alert) => (
+                <DropdownMenu.Item
+                  key={alert.id}
+                  onSelect={() => openAlert(alert)}
+                  className={clsx(
+                    'group flex items-start gap-3 px-3 py-2 m-1 rounded-lg cursor-pointer outline-none',
+                    'hover:bg-slate-100/60 dark:hover:bg-slate-800/60 focus:bg-slate-100/60 dark:focus:bg-slate-800/60',
+                    alert.acknowledgedAt && 'opacity-60'
+                  )}
+                >
+                  <span className={clsx('mt-1.5 w-2 h-2 rounded-full flex-shrink-0', SEVERITY_DOT[alert.severity])} />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-slate-800 dark:text-slate-200">{alert.message}</div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                      {alert.policy?.name}
+                      {alert.asset && ` · ${alert.asset.make} ${alert.asset.model}`}
+                    </div>
+                  </div>
+                  {!alert.acknowledgedAt && (
+                    <button
+                      title="Acknowledge"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        e.preventDefault();
+                        acknowledgeMutation.mutate(alert.id);
+                      }}
+                      className="p-1 rounded text-slate-400 hover:text-success-600 hover:bg-success-50 dark:hover:bg-success-900/20 opacity-0 group-hover:opacity-100"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                  )}
+                </DropdownMenu.Item>
+              ))
+            )}
+          </div>
+
+          {currentUser?.role === 'ADMIN' && (
+            <>
+              <DropdownMenu.Separator className="h-px bg-slate-200 dark:bg-slate-700 my-1" />
+              <DropdownMenu.Item
+                onSelect={() => navigate('/settings/lifecycle')}
+                className="flex items-center gap-2 px-3 py-2 m-1 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100/50 dark:hover:bg-slate-800/50 rounded-lg cursor-pointer outline-none"
+              >
+                <Settings className="w-4 h-4" />
+                Manage lifecycle policies
+              </DropdownMenu.Item>
+            </>
+          )}
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+};
+
+export default NotificationBell;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
 import * as Tooltip from '@radix-ui/react-tooltip';
 import * as Collapsible from '@radix-ui/react-collapsible';
@@ -25,9 +26,15 @@ import {
   Laptop,
   Smartphone,
   Monitor as Desktop,
-  Shield
+  Shield,
+  Briefcase,
+  Bookmark,
+  BellRing,
+  FileSpreadsheet,
+  GitCompare
 } from 'lucide-react';
 import { useStore } from '../../store';
+import { savedViewsApi } from '../../services/api';
 import clsx from 'clsx';
 
 interface SidebarProps {
@@ -75,6 +82,7 @@ const navigation: NavigationItem[] = [
       { name: 'Users', href: '/management/technicians', icon: UserCog, requiresAdmin: true },
       { name: 'Staff', href: '/management/staff', icon: UserCheck, requiresAdmin: true },
       { name: 'Workload Categories', href: '/workload-categories', icon: Building, requiresAdmin: true },
+      { name: 'Departments', href: '/departments', icon: Briefcase, requiresAdmin: true },
       { name: 'Locations', href: '/locations', icon: MapPin, requiresAdmin: true },
       { name: 'Vendors', href: '/vendors', icon: Package, requiresAdmin: true },
     ]
@@ -88,6 +96,7 @@ const navigation: NavigationItem[] = [
       { name: 'Activity Log', href: '/reports/activity', icon: Activity },
       { name: 'Import Runs', href: '/reports/import-runs', icon: Upload },
       { name: 'Missing by Source', href: '/reports/missing', icon: FileText },
+      { name: 'Reconciliation', href: '/reports/reconciliation', icon: GitCompare },
       { name: 'Custom Reports', href: '/reports/custom', icon: FileText },
     ]
   },
@@ -99,6 +108,8 @@ const navigation: NavigationItem[] = [
     children: [
       { name: 'Custom Fields', href: '/settings/custom-fields', icon: Sliders, requiresAdmin: true },
       { name: 'Workload Rules', href: '/settings/workload-rules', icon: Workflow, requiresAdmin: true },
+      { name: 'Lifecycle Policies', href: '/settings/lifecycle', icon: BellRing, requiresAdmin: true },
+      { name: 'Import Sources', href: '/settings/import-sources', icon: FileSpreadsheet, requiresAdmin: true },
       { name: 'Admin', href: '/settings/admin', icon: Shield, requiresAdmin: true },
     ]
   },
@@ -109,8 +120,19 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
   const location = useLocation();
   const [expandedItems, setExpandedItems] = React.useState<string[]>([]);
 
+  const { data: savedViews } = useQuery({
+    queryKey: ['saved-views', 'assets'],
+    queryFn: () => savedViewsApi.getAll('assets'),
+    enabled: !!currentUser,
+  });
+
   const isActive = (path: string) => {
     const [pathname, search] = path.split('?');
+
+    // Saved view links stay active while the view's filters are in the URL
+    if (search?.startsWith('view=')) {
+      return location.pathname === pathname && new URLSearchParams(location.search).get('view') === search.slice(5);
+    }
     
     // Exact match for paths with query strings
     if (search) {
@@ -141,7 +163,20 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
     );
   };
 
-  const filteredNavigation = navigation.filter(hasPermission);
+  // Pinned saved views are listed under Assets, after the built-in type shortcuts
+  const pinnedViews: NavigationItem[] = (savedViews || [])
+    .filter((view) => view.isPinned && view.isOwner)
+    .map((view) => ({ name: view.name, href: `/assets?view=${view.id}`, icon: Bookmark }));
+
+  const filteredNavigation = navigation
+    .map((item) => {
+      if (item.name !== 'Assets' || pinnedViews.length === 0 || !item.children) return item;
+      const insertAt = item.children.findIndex((child) => child.href === '/assets/new');
+      const children = [...item.children];
+      children.splice(insertAt === -1 ? children.length : insertAt, 0, ...pinnedViews);
+      return { ...item, children };
+    })
+    .filter(hasPermission);
 
   const sidebarVariants = {
     expanded: { width: '12rem' }, // narrower when expanded
@@ -228,7 +263,7 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
                     >
                       {item.children?.filter(hasPermission).map((child) => (
                         <Link
-                          key={child.name}
+                          key={child.href}
                           to={child.href}
                           className={clsx(
                             "flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs transition-all duration-200",
@@ -6,7 +6,6 @@ import * as Tooltip from '@radix-ui/react-tooltip';
 import * as Switch from '@radix-ui/react-switch';
 import { 
   Search, 
-  Bell, 
   User, 
   Settings,
   LogOut,
@@ -23,6 +22,7 @@ import {
 } from 'lucide-react';
 import { useStore } from '../../store';
 import ProfilePicture from '../ProfilePicture';
+import NotificationBell from './NotificationBell';
 import clsx from 'clsx';
 
 interface TopNavigationProps {
@@ -171,23 +171,7 @@ const TopNavigation: React.FC<TopNavigationProps> = ({
           </div>
 
           {/* Notifications */}
-          <Tooltip.Provider>
-            <Tooltip.Root>
-              <Tooltip.Trigger asChild>
-                <motion.button
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
-                  className="relative p-2 rounded-xl bg-white/50 dark:bg-slate-800/50 hover:bg-white/80 dark:hover:bg-slate-700/80 transition-all duration-200 shadow-glass-sm"
-                >
-                  <Bell className="w-5 h-5 text-slate-700 dark:text-slate-300" />
-                  <span className="absolute -top-1 -right-1 w-3 h-3 bg-brand-500 rounded-full" />
-                </motion.button>
-              </Tooltip.Trigger>
-              <Tooltip.Content side="bottom" className="px-3 py-1 text-sm bg-slate-900 text-white rounded-lg shadow-lg">
-                Notifications
-              </Tooltip.Content>
-            </Tooltip.Root>
-          </Tooltip.Provider>
+          <NotificationBell />
 
           {/* Theme Toggle */}
           <Tooltip.Provider>
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
+import { detectHeaderRowIndex, getImportHeaderKeywords } from '@ats/shared-transformations';
 
 interface ParsedCSV {
   headers: string[];
@@ -24,21 +25,9 @@ export function useFileParser() {
           const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
           if (jsonData.length === 0) throw new Error('Empty file');
 
-          // Detect header row. Telus/Rogers exports often include a preamble; we look for a row that contains known headers.
-          let headerRowIndex = 0;
-          const headerKeywords = [
-            'Subscriber Name', 'Phone Number', 'Device Name', // Telus
-            'Account Number', 'Subscriber Number', 'Usernames', 'Device Description' // Rogers
-          ];
-          for (let i = 0; i < jsonData.length; i++) {
-            const row = jsonData[i];
-            if (!Array.isArray(row)) continue;
-            const hasKeyword = headerKeywords.some(kw => row.includes(kw));
-            if (hasKeyword) {
-              headerRowIndex = i;
-              break;
-            }
-          }
+          // Detect header row. Telus/Rogers and admin-defined exports often include a preamble;
+          // we look for a row that contains a known header from any registered source.
+          const headerRowIndex = detectHeaderRowIndex(jsonData as unknown[][], getImportHeaderKeywords());
 
           const headers = (jsonData[headerRowIndex] as string[]).map(h => String(h).trim());
 
@@ -32,8 +32,23 @@ interface ImportResponse {
     statusBreakdown: Record<string, number>;
   };
   syncRunId?: string;
+  cancelled?: boolean;
 }
 
+export type ImportJobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+interface ImportJob {
+  id: string;
+  status: ImportJobStatus;
+  error?: string | null;
+  result?: ImportResponse | null;
+}
+
+const TERMINAL_JOB_STATUSES: ImportJobStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+// How often the import job is polled for its final result
+const JOB_POLL_INTERVAL_MS = 2000;
+
 export interface ImportProgress {
   total: number;
   processed: number;
@@ -41,163 +56,204 @@ export interface ImportProgress {
   failed: number;
   skipped?: number;
   currentItem?: string;
-  errors: Array<{ index: number; error: string; data?: any }>;
   // Enhanced statistics
   categorizedAssets?: Array<{ assetTag: string; categoryName: string; ruleName: string }>;
   uniqueUsers?: string[];
   uniqueLocations?: string[];
   assetTypeBreakdown?: Record<string, number>;
   statusBreakdown?: Record<string, number>;
+  // Server-side job state
+  jobId?: string;
+  status?: ImportJobStatus;
+  cancelRequested?: boolean;
+  error?: string | null;
 }
 
+export type ImportRowEventType = 'created' | 'updated' | 'skipped' | 'error' | 'retired';
+
+// One row outcome from the progress stream; seq doubles as the SSE event id
+export interface ImportRowEvent {
+  seq: number;
+  type: ImportRowEventType;
+  rowIndex?: number | null;
+  assetTag?: string | null;
+  message?: string | null;
+}
+
+// Only the most recent row events are kept for the live log
+const MAX_ROW_EVENTS = 500;
+const RECONNECT_DELAY_MS = 3000;
+
 // Generate a unique session ID for progress tracking
 export function generateSessionId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
 
-// Helper to build SSE URL using same base URL the axios client uses
-function buildSseUrl(sessionId: string) {
+// Helper to build SSE URL using same base URL the axios client uses. EventSource cannot send
+// headers, so the progress token and resume position travel in the query string.
+function buildSseUrl(sessionId: string, token: string, lastEventId: number) {
   const base = (import.meta.env.VITE_API_BASE_URL || import.meta.env.VITE_API_URL || 'http://localhost:4000/api').replace(/\/$/, '');
-  return `${base}/import/progress/${sessionId}`;
+  const params = new URLSearchParams({ token });
+  if (lastEventId > 0) params.set('lastEventId', String(lastEventId));
+  return `${base}/import/progress/${sessionId}?${params.toString()}`;
 }
 
-// Hook for tracking import progress via Server-Sent Events
+// Hook for tracking import progress via Server-Sent Events. Each (re)connect asks for a fresh
+// short-lived progress token and resumes after the last row event received.
 export function useImportProgress(sessionId: string | null, onProgress?: (progress: ImportProgress) => void) {
   const [progress, setProgress] = React.useState<ImportProgress | null>(null);
+  const [events, setEvents] = React.useState<ImportRowEvent[]>([]);
   const [isConnected, setIsConnected] = React.useState(false);
-  const eventSourceRef = React.useRef<EventSource | null>(null);
-  const isCompleteRef = React.useRef(false);
+  const onProgressRef = React.useRef(onProgress);
+  onProgressRef.current = onProgress;
 
   React.useEffect(() => {
-    if (!sessionId) {
-      // Clean up if no session ID
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close();
-        eventSourceRef.current = null;
+    setProgress(null);
+    setEvents([]);
+    setIsConnected(false);
+    if (!sessionId) return;
+
+    let es: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let lastSeq = 0;
+    let stopped = false;
+
+    const scheduleReconnect = () => {
+      if (!stopped) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+
+    const connect = async () => {
+      let token: string;
+      try {
+        const { data } = await api.post<{ token: string }>(`/import/jobs/${sessionId}/progress-token`);
+        token = data.token;
+      } catch (error: any) {
+        // 404 just means the job has not been queued yet; 401/403 will not get better
+        const status = error?.response?.status;
+        if (status === 401 || status === 403) {
+          console.error('Not allowed to follow this import:', error);
+          return;
+        }
+        scheduleReconnect();
+        return;
       }
-      setIsConnected(false);
-      setProgress(null);
-      isCompleteRef.current = false;
-      return;
-    }
-
-    // Don't reconnect if import is already complete
-    if (isCompleteRef.current) {
-      console.log('Import already complete, not reconnecting');
-      return;
-    }
-
-    console.log('Setting up EventSource for session:', sessionId);
-
-    const es = new EventSource(buildSseUrl(sessionId));
-    eventSourceRef.current = es;
-
-    es.onopen = () => {
-      console.log('Connecting to SSE');
-        setIsConnected(true);
-      };
+      if (stopped) return;
 
-      es.onmessage = (event) => {
+      es = new EventSource(buildSseUrl(sessionId, token, lastSeq));
+
+      es.onopen = () => setIsConnected(true);
+
+      es.addEventListener('row', (event) => {
         try {
-          const progressData: ImportProgress = JSON.parse(event.data);
-        console.log('📈 Progress update:', {
-          processed: progressData.processed,
-          total: progressData.total,
-          percentage: progressData.total > 0 ? Math.round((progressData.processed / progressData.total) * 100) : 0,
-          successful: progressData.successful,
-          failed: progressData.failed,
-          skipped: progressData.skipped
-        });
-        
-          setProgress(progressData);
-          onProgress?.(progressData);
-        
-        // Auto-close when import is complete (but only if we actually have work to do)
-        if (progressData.total > 0 && progressData.processed >= progressData.total) {
-          console.log('🏁 Import complete, closing EventSource');
-          isCompleteRef.current = true;
-          es.close();
-          eventSourceRef.current = null;
-          setIsConnected(false);
+          const row: ImportRowEvent = JSON.parse((event as MessageEvent).data);
+          lastSeq = row.seq;
+          setEvents((prev) => [...prev, row].slice(-MAX_ROW_EVENTS));
+        } catch (error) {
+          console.error('Error parsing import row event:', error);
         }
-      } catch (error) {
-        console.error('Error parsing progress data:', error);
+      });
+
+      es.addEventListener('progress', (event) => {
+        try {
+          const progressData: ImportProgress = JSON.parse((event as MessageEvent).data);
+          setProgress(progressData);
+          onProgressRef.current?.(progressData);
+        } catch (error) {
+          console.error('Error parsing progress data:', error);
         }
-      };
+      });
 
-    es.onerror = (error) => {
-      console.error('EventSource error:', error);
+      es.addEventListener('done', () => {
+        stopped = true;
+        es?.close();
+        es = null;
         setIsConnected(false);
-      
-      // Don't attempt to reconnect if import is complete
-      if (isCompleteRef.current) {
-        console.log('Import complete, not attempting to reconnect');
-        return;
-      }
+      });
 
-      // Only attempt to reconnect if we haven't completed yet
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close();
-        eventSourceRef.current = null;
-      }
+      // Reconnect ourselves rather than let the browser retry with a possibly expired token
+      es.onerror = () => {
+        setIsConnected(false);
+        es?.close();
+        es = null;
+        scheduleReconnect();
+      };
     };
 
-    // Cleanup function
+    void connect();
+
     return () => {
-      console.log('Cleaning up EventSource');
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close();
-        eventSourceRef.current = null;
-      }
-      setIsConnected(false);
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      es?.close();
+      es = null;
     };
-  }, [sessionId, onProgress]);
+  }, [sessionId]);
 
-  return { progress, isConnected };
+  return { progress, events, isConnected };
 }
 
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 export const useImportAssets = () => {
   return useMutation<ImportResponse, unknown, ImportPayload>({
     mutationFn: async (payload) => {
-      console.log('🚀 useImportAssets mutationFn called with payload:', payload);
-      
-      // Set a timeout for large imports (5 minutes)
-      const timeoutMs = 5 * 60 * 1000; // 5 minutes
-      const controller = new AbortController();
-      
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-      }, timeoutMs);
+      // The server queues a durable job and answers straight away; the import itself
+      // runs in the background worker, so wait on the job rather than the request
+      const { data: queued } = await api.post<{ jobId: string; status: ImportJobStatus }>('/import/assets', payload);
 
-      try {
-        console.log('📡 Making API call to /import/assets...');
-        const response = await api.post('/import/assets', payload, {
-          signal: controller.signal,
-          timeout: timeoutMs,
-        });
-        
-        clearTimeout(timeoutId);
-        console.log('✅ API call successful, response:', response.data);
-        return response.data;
-      } catch (error) {
-        clearTimeout(timeoutId);
-        console.error('❌ API call failed:', error);
-        
-        if (controller.signal.aborted) {
-          throw new Error('Import timeout - the operation took too long to complete. Please try importing fewer assets at once.');
+      for (;;) {
+        const { data: job } = await api.get<ImportJob>(`/import/jobs/${queued.jobId}`);
+        if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+          if (job.status === 'FAILED' || !job.result) {
+            throw new Error(job.error || 'Import failed');
+          }
+          return job.result;
         }
-        
-        throw error;
+        await sleep(JOB_POLL_INTERVAL_MS);
       }
     },
-    // Increase retry delay for large imports
+    // Re-submitting reuses the same session id, which the server treats as the same job
     retry: (failureCount, error) => {
-      // Don't retry on timeout or client errors
-      if (error instanceof Error && error.message.includes('timeout')) {
-        return false;
-      }
-      return failureCount < 2;
+      const status = (error as any)?.response?.status;
+      return typeof status === 'number' && status >= 500 && failureCount < 2;
     },
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
   });
-}; 
\ No newline at end of file
+};
+
+export interface ImportDryRunResult {
+  dryRun: true;
+  total: number;
+  successful: number;
+  failed: number;
+  skipped: number;
+  created: Array<{ index: number; assetTag: string }>;
+  updated: Array<{
+    index: number;
+    assetId: string;
+    assetTag: string;
+    reactivated: boolean;
+    changes: Array<{ field: string; label: string; from: string | null; to: string | null }>;
+  }>;
+  skippedItems: Array<{ index: number; reason: string }>;
+  errors: Array<{ index: number; error: string }>;
+}
+
+// Runs the full import server-side in a rolled-back transaction and returns what each row would do
+export const useImportDryRun = () => {
+  return useMutation<ImportDryRunResult, unknown, ImportPayload>({
+    mutationFn: async (payload) => {
+      const response = await api.post<ImportDryRunResult>('/import/assets', { ...payload, dryRun: true });
+      return response.data;
+    },
+  });
+};
+
+export const useCancelImport = () => {
+  return useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await api.post(`/import/jobs/${jobId}/cancel`);
+      return response.data;
+    },
+  });
+};
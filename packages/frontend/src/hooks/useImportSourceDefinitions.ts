@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { importSourcesApi } from '../services/api';
+import { applyImportSourceDefinitions } from '../utils/importSources';
+
+// Active admin-defined import sources, registered with the wizard and the shared registry
+export const useImportSourceDefinitions = () => {
+  return useQuery({
+    queryKey: ['importSources'],
+    queryFn: async () => {
+      const definitions = await importSourcesApi.getAll();
+      applyImportSourceDefinitions(definitions);
+      return definitions;
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
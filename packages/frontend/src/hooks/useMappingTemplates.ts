@@ -0,0 +1,30 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fingerprintHeaders } from '@ats/shared-transformations';
+import { mappingTemplatesApi, type MappingTemplateInput } from '../services/api';
+
+// Templates of the current user whose header layout resembles the uploaded file, best first
+export const useMappingTemplateSuggestions = (headers: string[], sourceKey: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['mappingTemplates', 'suggest', sourceKey, fingerprintHeaders(headers)],
+    queryFn: () => mappingTemplatesApi.suggest(headers, sourceKey),
+    enabled: enabled && headers.length > 0,
+  });
+};
+
+export const useMappingTemplates = (sourceKey: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['mappingTemplates', 'list', sourceKey],
+    queryFn: () => mappingTemplatesApi.getAll(sourceKey),
+    enabled,
+  });
+};
+
+// Create a template, or save a new version of an existing one when an id is given
+export const useSaveMappingTemplate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id?: string; data: MappingTemplateInput }) =>
+      id ? mappingTemplatesApi.update(id, data) : mappingTemplatesApi.create(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['mappingTemplates'] }),
+  });
+};
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Activity, ChevronDown, ChevronRight, Search } from 'lucide-react';
+import { activitiesApi } from '../services/api';
+import { useDebounce } from '../hooks/useDebounce';
+import ChangeDiffViewer from '../components/ChangeDiffViewer';
+
+const PAGE_SIZE = 50;
+
+const inputClass =
+  'px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100';
+
+const ActivityLog: React.FC = () => {
+  const [page, setPage] = useState(1);
+  const [userId, setUserId] = useState('');
+  const [action, setAction] = useState('');
+  const [entityType, setEntityType] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const debouncedSearch = useDebounce(search, 300);
+
+  useEffect(() => {
+    setPage(1);
+  }, [userId, action, entityType, from, to, debouncedSearch]);
+
+  const { data: filters } = useQuery({
+    queryKey: ['activity-filters'],
+    queryFn: activitiesApi.getFilters,
+  });
+
+  const params = {
+    page,
+    limit: PAGE_SIZE,
+    userId: userId || undefined,
+    action: action || undefined,
+    entityType: entityType || undefined,
+    // Inclusive date range: extend "to" to the end of the selected day
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    search: debouncedSearch || undefined,
+  };
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['activities', 'global', params],
+    queryFn: () => activitiesApi.getAll(params),
+    keepPreviousData: true,
+  });
+
+  const entries = data?.data || [];
+  const pagination = data?.pagination;
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+          <Activity className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Activity Log</h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Who changed what, across every asset and record</p>
+        </div>
+      </div>
+
+      <div className="card p-4 flex flex-wrap items-end gap-3">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search changes, asset tag, run id..."
+            className={`${inputClass} pl-9 w-full`}
+          />
+        </div>
+        <select value={userId} onChange={(e) => setUserId(e.target.value)} className={inputClass}>
+          <option value="">All users</option>
+          {filters?.users.map((u) => (
+            <option key={u.id} value={u.id}>{u.displayName}</option>
+          ))}
+        </select>
+        <select value={action} onChange={(e) => setAction(e.target.value)} className={inputClass}>
+          <option value="">All actions</option>
+          {filters?.actions.map((a) => (
+            <option key={a} value={a}>{a}</option>
+          ))}
+        </select>
+        <select value={entityType} onChange={(e) => setEntityType(e.target.value)} className={inputClass}>
+          <option value="">All entities</option>
+          {filters?.entityTypes.map((t) => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} title="From" />
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} title="To" />
+      </div>
+
+      {!!error && <div className="text-red-600">Failed to load activity log</div>}
+
+      <div className="card overflow-hidden">
+        <table className="min-w-full text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-800 text-left">
+            <tr>
+              <th className="w-8" />
+              <th className="px-3 py-2">When</th>
+              <th className="px-3 py-2">User</th>
+              <th className="px-3 py-2">Action</th>
+              <th className="px-3 py-2">Entity</th>
+              <th className="px-3 py-2">Summary</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {isLoading ? (
+              <tr>
+                <td colSpan={6} className="px-3 py-8 text-center text-slate-500">Loading...</td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-3 py-8 text-center text-slate-500">No activity matches these filters</td>
+              </tr>
+            ) : (
+              entries.map((entry) => {
+                const expanded = expandedId === entry.id;
+                return (
+                  <React.Fragment key={entry.id}>
+                    <tr
+                      className="hover:bg-slate-50 dark:hover:bg-slate-800/50 cursor-pointer"
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                    >
+                      <td className="pl-3 text-slate-400">
+                        {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td className="px-3 py-2">{entry.user?.displayName || entry.userId}</td>
+                      <td className="px-3 py-2 font-medium">{entry.action}</td>
+                      <td className="px-3 py-2">
+                        <div>{entry.entityType}</div>
+                        <div className="text-xs text-slate-500">{entry.asset?.assetTag || entry.entityId}</div>
+                      </td>
+                      <td className="px-3 py-2 text-slate-600 dark:text-slate-400 max-w-md truncate">{entry.details || '—'}</td>
+                    </tr>
+                    {expanded && (
+                      <tr className="bg-slate-50/60 dark:bg-slate-800/30">
+                        <td />
+                        <td colSpan={5} className="px-3 py-3">
+                          <ChangeDiffViewer changes={entry.parsedChanges} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-slate-600 dark:text-slate-400">
+          <span>
+            Page {pagination.page} of {pagination.totalPages} · {pagination.total} entries
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1}
+              className="px-3 py-1 border border-slate-300 dark:border-slate-600 rounded-md disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page >= pagination.totalPages}
+              className="px-3 py-1 border border-slate-300 dark:border-slate-600 rounded-md disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityLog;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { AlertTriangle, Trash2, Server, Laptop, Smartphone, Monitor as Desktop, Package, Shield } from 'lucide-react';
 import { api } from '../services/api';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import ReportSchedulesSection from '../components/ReportSchedulesSection';
 
 interface AssetStats {
   total: number;
@@ -152,10 +153,13 @@ const AdminSettings: React.FC = () => {
           </h1>
         </div>
         <p className="text-slate-600 dark:text-slate-400">
-          Dangerous operations that require administrator privileges. Use with caution.
+          Scheduled report delivery and dangerous operations that require administrator privileges. Use with caution.
         </p>
       </div>
 
+      {/* Scheduled Reports Section */}
+      <ReportSchedulesSection />
+
       {/* Bulk Delete Section */}
       <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
         <div className="flex items-center gap-3 mb-6">
@@ -7,11 +7,12 @@ import {
   Edit, Edit2, CheckCircle, XCircle, Clock, Settings,
   Laptop, Smartphone, Tablet, Monitor as Desktop, Server,
   List, LayoutGrid, Copy, Archive, Share2, Keyboard,
-  HelpCircle, ChevronUp, ChevronDown, ChevronsUpDown
+  HelpCircle, ChevronUp, ChevronDown, ChevronsUpDown, Columns3, Check
 } from 'lucide-react';
-import { assetsApi, usersApi, customFieldsApi } from '../services/api';
+import { assetsApi, usersApi, customFieldsApi, savedViewsApi, type SavedView } from '../services/api';
 import AssetDetailView from '../components/AssetDetailView';
 import AssetFilterPanelV2 from '../components/AssetFilterPanelV2';
+import SavedViewsMenu from '../components/SavedViewsMenu';
 import { useDebounce } from '../hooks/useDebounce';
 import ProfilePicture from '../components/ProfilePicture';
 import SourceBadge from '../components/SourceBadge';
@@ -38,6 +39,7 @@ const STATUS_CONFIG = {
   SPARE: { label: 'Spare', short: 'SPR', color: 'orange', dot: '🟠' },
   RETIRED: { label: 'Retired', short: 'RET', color: 'red', dot: '🔴' },
   MAINTENANCE: { label: 'Maintenance', short: 'MNT', color: 'yellow', dot: '🟡' },
+  RECOVER: { label: 'To Recover', short: 'RCV', color: 'purple', dot: '🟣' },
 } as const;
 
 interface AssetFilters {
@@ -50,6 +52,11 @@ interface AssetFilters {
   locationId?: string | string[];
   workloadCategoryId?: string | string[];
   
+  // Assignee filters, matched against the staff directory
+  assigneeDepartment?: string | string[];
+  assigneeOffice?: string | string[];
+  assigneeManager?: string;
+  
   // Specification filters
   processor?: string;
   ram?: string;
@@ -82,6 +89,9 @@ interface AssetFilters {
   vendorId?: string | string[];
   source?: string | string[];
   
+  // Helpdesk filters
+  hasOpenTickets?: string;
+  
   // Date filters
   dateFrom?: string;
   dateTo?: string;
@@ -147,6 +157,20 @@ const formatPhoneNumber = (phoneNumber?: string) => {
   return phoneNumber;
 };
 
+// URL params that describe paging/sorting or the active view rather than a filter
+const NON_FILTER_PARAMS = ['page', 'limit', 'sortBy', 'sortOrder', 'view'];
+
+// Columns that can be hidden from the column chooser (the primary columns always show)
+const HIDEABLE_COLUMNS: { key: string; label: string; phone: boolean; standard: boolean }[] = [
+  { key: 'assetType', label: 'Type', phone: true, standard: true },
+  { key: 'specs', label: 'Specifications', phone: false, standard: true },
+  { key: 'storage', label: 'Capacity', phone: true, standard: false },
+  { key: 'phoneNumber', label: 'Phone #', phone: true, standard: false },
+  { key: 'status', label: 'Status', phone: true, standard: true },
+  { key: 'assignedToAadId', label: 'Assigned To', phone: false, standard: true },
+  { key: 'locationId', label: 'Location', phone: true, standard: true },
+];
+
 // Check if we're viewing phones specifically
 const isPhoneView = (currentFilter?: string) => {
   return currentFilter === 'PHONE';
@@ -178,6 +202,12 @@ const AssetList: React.FC = () => {
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
   const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const { tableColumnVisibility, setTableColumnVisibility } = useStore();
+  const columnVisibility = tableColumnVisibility.assets || {};
+  const isColumnVisible = (key: string) => columnVisibility[key] !== false;
+  // Tracks which saved view (and whether the default view) has already been applied
+  const appliedViewRef = React.useRef<string | null>(null);
+  const defaultViewCheckedRef = React.useRef(false);
   
   // Debounce search input
   const debouncedSearch = useDebounce(search, 300);
@@ -212,7 +242,7 @@ const AssetList: React.FC = () => {
     // Extract filter parameters
     const urlFilters: AssetFilters = {};
     searchParams.forEach((value, key) => {
-      if (key !== 'search' && key !== 'page' && key !== 'limit' && key !== 'sortBy' && key !== 'sortOrder') {
+      if (key !== 'search' && !NON_FILTER_PARAMS.includes(key)) {
         urlFilters[key] = value;
       }
     });
@@ -264,6 +294,8 @@ const AssetList: React.FC = () => {
 
   // Update URL only for debounced search to avoid loops
   useEffect(() => {
+    // Wait for the debounce to settle so URL-driven changes (views, links) aren't overwritten
+    if (debouncedSearch !== search) return;
     const newParams = new URLSearchParams(searchParams);
     const currentSearch = newParams.get('search') || '';
 
@@ -277,7 +309,7 @@ const AssetList: React.FC = () => {
       newParams.delete('page');
       setSearchParams(newParams, { replace: true });
     }
-  }, [debouncedSearch, searchParams, setSearchParams]);
+  }, [debouncedSearch, search, searchParams, setSearchParams]);
 
   // Build query parameters
   const queryParams = {
@@ -461,6 +493,78 @@ const AssetList: React.FC = () => {
     setSearchParams(newParams, { replace: true });
   };
 
+  // Saved views: snapshot of what the list currently shows
+  const currentViewState = useMemo(() => {
+    const viewFilters: Record<string, string> = {};
+    searchParams.forEach((value, key) => {
+      if (!NON_FILTER_PARAMS.includes(key) && value !== '') {
+        viewFilters[key] = value;
+      }
+    });
+    return { filters: viewFilters, sortBy, sortOrder, columns: columnVisibility, density: viewDensity };
+  }, [searchParams, sortBy, sortOrder, columnVisibility, viewDensity]);
+
+  const applyView = (view: SavedView) => {
+    const newParams = new URLSearchParams();
+    Object.entries(view.filters || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        newParams.set(key, String(value));
+      }
+    });
+    if (view.sortBy) newParams.set('sortBy', view.sortBy);
+    if (view.sortOrder) newParams.set('sortOrder', view.sortOrder);
+    newParams.set('limit', String(limit));
+    newParams.set('view', view.id);
+
+    appliedViewRef.current = view.id;
+    setTableColumnVisibility('assets', view.columns || {});
+    setViewDensity(view.density || 'compact');
+    setSearchParams(newParams, { replace: true });
+  };
+
+  const { data: savedViews } = useQuery({
+    queryKey: ['saved-views', 'assets'],
+    queryFn: () => savedViewsApi.getAll('assets'),
+  });
+
+  // Deep links: ?view=<id> restores the view's columns and density, and its filters too
+  // when the link carries nothing else
+  const viewParam = searchParams.get('view');
+  useEffect(() => {
+    if (!viewParam) return;
+    const linkHasFilters = Array.from(searchParams.keys()).some((key) => key !== 'view');
+    if (appliedViewRef.current === viewParam && linkHasFilters) return;
+    appliedViewRef.current = viewParam;
+
+    savedViewsApi
+      .getById(viewParam)
+      .then((view) => {
+        if (linkHasFilters) {
+          setTableColumnVisibility('assets', view.columns || {});
+          setViewDensity(view.density || 'compact');
+        } else {
+          applyView(view);
+        }
+      })
+      .catch(() => setToast({ message: 'Saved view not found or no longer shared', type: 'error' }));
+  }, [viewParam, searchParams]);
+
+  // Open the user's default view when the list is first visited without any params
+  useEffect(() => {
+    if (defaultViewCheckedRef.current || !savedViews) return;
+    defaultViewCheckedRef.current = true;
+    if (Array.from(searchParams.keys()).length > 0) return;
+
+    const defaultView = savedViews.find((view) => view.isOwner && view.isDefault);
+    if (defaultView) {
+      applyView(defaultView);
+    }
+  }, [savedViews]);
+
+  const toggleColumn = (key: string, visible: boolean) => {
+    setTableColumnVisibility('assets', { ...columnVisibility, [key]: visible });
+  };
+
   // Sorting functions
   const handleSort = (columnKey: string) => {
     const newParams = new URLSearchParams(searchParams);
@@ -706,15 +810,17 @@ const AssetList: React.FC = () => {
     label, 
     className = '',
     sortable = true,
-    resizable = true 
+    resizable = true,
+    sortKey = columnKey
   }: { 
     columnKey: string; 
     label: string; 
     className?: string;
     sortable?: boolean;
     resizable?: boolean;
+    sortKey?: string; // sortBy value when it differs from the column, e.g. assignee name
   }) => {
-    const isCurrentSort = sortBy === columnKey;
+    const isCurrentSort = sortBy === sortKey;
     const width = columnWidths[columnKey];
     
     const thStyle = width ? { width: `${width}px`, minWidth: `${width}px` } : {};
@@ -745,12 +851,12 @@ const AssetList: React.FC = () => {
       >
         <div className="flex items-center justify-between">
           <button
-            onClick={() => handleSort(columnKey)}
+            onClick={() => handleSort(sortKey)}
             className="flex items-center gap-1 hover:text-slate-700 dark:hover:text-slate-200 transition-colors group"
           >
             <span>{label}</span>
             <span className={`transition-opacity ${isCurrentSort ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
-              {getSortIcon(columnKey)}
+              {getSortIcon(sortKey)}
             </span>
           </button>
           {resizable && (
@@ -941,6 +1047,13 @@ const AssetList: React.FC = () => {
         
         {/* View Controls */}
         <div className="flex items-center gap-2">
+          <SavedViewsMenu
+            activeViewId={viewParam}
+            currentState={currentViewState}
+            onApply={applyView}
+            onNotify={(message, type) => setToast({ message, type })}
+          />
+
           {/* View Density Toggle */}
           <div className="flex items-center gap-1 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg p-1">
             <Tooltip.Provider>
@@ -984,6 +1097,43 @@ const AssetList: React.FC = () => {
             </Tooltip.Provider>
           </div>
 
+          {/* Column Chooser */}
+          <DropdownMenu.Root>
+            <DropdownMenu.Trigger asChild>
+              <button
+                className="p-2 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                title="Columns"
+              >
+                <Columns3 className="w-4 h-4" />
+              </button>
+            </DropdownMenu.Trigger>
+            <DropdownMenu.Portal>
+              <DropdownMenu.Content
+                className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg p-1 min-w-[180px] z-50"
+                sideOffset={5}
+                align="end"
+              >
+                <DropdownMenu.Label className="px-3 py-1 text-xs font-medium text-slate-500 uppercase">Columns</DropdownMenu.Label>
+                {HIDEABLE_COLUMNS.filter((column) => (isPhoneView(String(filters.assetType)) ? column.phone : column.standard)).map((column) => (
+                  <DropdownMenu.CheckboxItem
+                    key={column.key}
+                    checked={isColumnVisible(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked)}
+                    onSelect={(e) => e.preventDefault()}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md cursor-pointer outline-none"
+                  >
+                    <span className="w-4">
+                      <DropdownMenu.ItemIndicator>
+                        <Check className="w-4 h-4 text-brand-600" />
+                      </DropdownMenu.ItemIndicator>
+                    </span>
+                    {column.label}
+                  </DropdownMenu.CheckboxItem>
+                ))}
+              </DropdownMenu.Content>
+            </DropdownMenu.Portal>
+          </DropdownMenu.Root>
+
           {/* Keyboard Shortcuts Help */}
           <Tooltip.Provider>
             <Tooltip.Root>
@@ -1099,6 +1249,10 @@ const AssetList: React.FC = () => {
                 warrantyEndTo: `Warranty End ≤ ${value}`,
                 dateFrom: `Created ≥ ${value}`,
                 dateTo: `Created ≤ ${value}`,
+                hasOpenTickets: value === 'true' ? 'Has open tickets' : 'No open tickets',
+                assigneeDepartment: `Assignee Dept: ${String(value).split(',').join(', ')}`,
+                assigneeOffice: `Assignee Office: ${String(value).split(',').join(', ')}`,
+                assigneeManager: 'Reports to selected manager',
               };
               
               if (labelMap[key]) {
@@ -1298,23 +1452,23 @@ const AssetList: React.FC = () => {
                   {isPhoneView(String(filters.assetType)) ? (
                     // Phone-specific headers
                     <>
-                      <SortableHeader columnKey="assignedToAadId" label="User" />
-                      <SortableHeader columnKey="assetType" label="Type" className="hidden sm:table-cell" />
+                      <SortableHeader columnKey="assignedToAadId" sortKey="assignedToName" label="User" />
+                      {isColumnVisible('assetType') && <SortableHeader columnKey="assetType" label="Type" className="hidden sm:table-cell" />}
                       <SortableHeader columnKey="make" label="Make/Model" />
-                      <SortableHeader columnKey="storage" label="Capacity" className="hidden md:table-cell" sortable={false} />
-                      <SortableHeader columnKey="phoneNumber" label="Phone #" className="hidden lg:table-cell" sortable={false} />
-                      <SortableHeader columnKey="locationId" label="Location" className="hidden xl:table-cell" />
-                      <SortableHeader columnKey="status" label="Status" />
+                      {isColumnVisible('storage') && <SortableHeader columnKey="storage" label="Capacity" className="hidden md:table-cell" sortable={false} />}
+                      {isColumnVisible('phoneNumber') && <SortableHeader columnKey="phoneNumber" label="Phone #" className="hidden lg:table-cell" sortable={false} />}
+                      {isColumnVisible('locationId') && <SortableHeader columnKey="locationId" label="Location" className="hidden xl:table-cell" />}
+                      {isColumnVisible('status') && <SortableHeader columnKey="status" label="Status" />}
                     </>
                   ) : (
                     // Default headers
                     <>
                       <SortableHeader columnKey="assetTag" label="Asset" />
-                      <SortableHeader columnKey="assetType" label="Type" className="hidden sm:table-cell" />
+                      {isColumnVisible('assetType') && <SortableHeader columnKey="assetType" label="Type" className="hidden sm:table-cell" />}
                       <SortableHeader columnKey="make" label="Make/Model" />
                       
                       {/* Adaptive Specification Columns */}
-                      {shouldShowSpecColumns(String(filters.assetType)) && 
+                      {shouldShowSpecColumns(String(filters.assetType)) && isColumnVisible('specs') && 
                         getAssetSpecColumns(String(filters.assetType)).map((column) => (
                           <SortableHeader 
                             key={column.key} 
@@ -1326,9 +1480,9 @@ const AssetList: React.FC = () => {
                         ))
                       }
                       
-                      <SortableHeader columnKey="status" label="Status" />
-                      <SortableHeader columnKey="assignedToAadId" label="Assigned To" className="hidden lg:table-cell" />
-                      <SortableHeader columnKey="locationId" label="Location" className="hidden xl:table-cell" />
+                      {isColumnVisible('status') && <SortableHeader columnKey="status" label="Status" />}
+                      {isColumnVisible('assignedToAadId') && <SortableHeader columnKey="assignedToAadId" sortKey="assignedToName" label="Assigned To" className="hidden lg:table-cell" />}
+                      {isColumnVisible('locationId') && <SortableHeader columnKey="locationId" label="Location" className="hidden xl:table-cell" />}
                     </>
                   )}
                 </tr>
@@ -1471,38 +1625,40 @@ const AssetList: React.FC = () => {
                         </td>
 
                         {/* Type Column with Source Badge */}
-                        <td className={`hidden sm:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('assetType')}>
-                          <div className="flex items-center justify-center gap-2">
-                            {/* Source Badge */}
-                            <SourceBadge source={(asset.source as AssetSource) || AssetSource.MANUAL} size="overlay" />
-                            
-                            {/* Type Icon */}
-                            <Tooltip.Provider>
-                              <Tooltip.Root>
-                                <Tooltip.Trigger asChild>
-                                  <div className={`flex items-center justify-center rounded-xl bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-700 dark:to-slate-800 border border-slate-200 dark:border-slate-600 shadow-sm ${viewDensity === 'compact' ? 'w-8 h-8' : 'w-10 h-10'}`}>
-                                    {(() => {
-                                      const IconComponent = ASSET_TYPES[asset.assetType as keyof typeof ASSET_TYPES]?.icon || Monitor;
-                                      const iconColors = {
-                                        LAPTOP: 'text-blue-600 dark:text-blue-400',
-                                        DESKTOP: 'text-purple-600 dark:text-purple-400', 
-                                        TABLET: 'text-green-600 dark:text-green-400',
-                                        PHONE: 'text-orange-600 dark:text-orange-400',
-                                        SERVER: 'text-red-600 dark:text-red-400',
-                                        OTHER: 'text-slate-600 dark:text-slate-400'
-                                      };
-                                      const colorClass = iconColors[asset.assetType as keyof typeof iconColors] || iconColors.OTHER;
-                                      return <IconComponent className={`${viewDensity === 'compact' ? 'w-4 h-4' : 'w-5 h-5'} ${colorClass}`} />;
-                                    })()}
-                                  </div>
-                                </Tooltip.Trigger>
-                                <Tooltip.Content side="top" className="px-2 py-1 text-xs bg-slate-900 text-white rounded shadow-lg">
-                                  {ASSET_TYPES[asset.assetType as keyof typeof ASSET_TYPES]?.label || asset.assetType}
-                                </Tooltip.Content>
-                              </Tooltip.Root>
-                            </Tooltip.Provider>
-                          </div>
-                        </td>
+                        {isColumnVisible('assetType') && (
+                          <td className={`hidden sm:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('assetType')}>
+                            <div className="flex items-center justify-center gap-2">
+                              {/* Source Badge */}
+                              <SourceBadge source={(asset.source as AssetSource) || AssetSource.MANUAL} size="overlay" />
+                              
+                              {/* Type Icon */}
+                              <Tooltip.Provider>
+                                <Tooltip.Root>
+                                  <Tooltip.Trigger asChild>
+                                    <div className={`flex items-center justify-center rounded-xl bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-700 dark:to-slate-800 border border-slate-200 dark:border-slate-600 shadow-sm ${viewDensity === 'compact' ? 'w-8 h-8' : 'w-10 h-10'}`}>
+                                      {(() => {
+                                        const IconComponent = ASSET_TYPES[asset.assetType as keyof typeof ASSET_TYPES]?.icon || Monitor;
+                                        const iconColors = {
+                                          LAPTOP: 'text-blue-600 dark:text-blue-400',
+                                          DESKTOP: 'text-purple-600 dark:text-purple-400', 
+                                          TABLET: 'text-green-600 dark:text-green-400',
+                                          PHONE: 'text-orange-600 dark:text-orange-400',
+                                          SERVER: 'text-red-600 dark:text-red-400',
+                                          OTHER: 'text-slate-600 dark:text-slate-400'
+                                        };
+                                        const colorClass = iconColors[asset.assetType as keyof typeof iconColors] || iconColors.OTHER;
+                                        return <IconComponent className={`${viewDensity === 'compact' ? 'w-4 h-4' : 'w-5 h-5'} ${colorClass}`} />;
+                                      })()}
+                                    </div>
+                                  </Tooltip.Trigger>
+                                  <Tooltip.Content side="top" className="px-2 py-1 text-xs bg-slate-900 text-white rounded shadow-lg">
+                                    {ASSET_TYPES[asset.assetType as keyof typeof ASSET_TYPES]?.label || asset.assetType}
+                                  </Tooltip.Content>
+                                </Tooltip.Root>
+                              </Tooltip.Provider>
+                            </div>
+                          </td>
+                        )}
 
                         {/* Make/Model Column */}
                         <td className={`px-4 whitespace-nowrap relative pr-12 ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('make')}>
@@ -1598,70 +1754,80 @@ const AssetList: React.FC = () => {
                         </td>
 
                         {/* Capacity Column */}
-                        <td className={`hidden md:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('storage')}>
-                          <div className="text-sm text-slate-900 dark:text-slate-100">
-                            {(() => {
-                              const specs = parseSpecifications(asset.specifications);
-                              return specs.storage || (
-                                <span className="text-slate-400 dark:text-slate-500">—</span>
-                              );
-                            })()}
-                          </div>
-                        </td>
+                        {isColumnVisible('storage') && (
+                          <td className={`hidden md:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('storage')}>
+                            <div className="text-sm text-slate-900 dark:text-slate-100">
+                              {(() => {
+                                const specs = parseSpecifications(asset.specifications);
+                                return specs.storage || (
+                                  <span className="text-slate-400 dark:text-slate-500">—</span>
+                                );
+                              })()}
+                            </div>
+                          </td>
+                        )}
 
                         {/* Phone Number Column */}
-                        <td className={`hidden lg:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('phoneNumber')}>
-                          <div className="text-sm text-slate-900 dark:text-slate-100 font-mono">
-                            {(() => {
-                              const specs = parseSpecifications(asset.specifications);
-                              const phoneNumber = specs.phoneNumber;
-                              const formatted = formatPhoneNumber(phoneNumber);
-                              return formatted || (
-                                <span className="text-slate-400 dark:text-slate-500">—</span>
-                              );
-                            })()}
-                          </div>
-                        </td>
+                        {isColumnVisible('phoneNumber') && (
+                          <td className={`hidden lg:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('phoneNumber')}>
+                            <div className="text-sm text-slate-900 dark:text-slate-100 font-mono">
+                              {(() => {
+                                const specs = parseSpecifications(asset.specifications);
+                                const phoneNumber = specs.phoneNumber;
+                                const formatted = formatPhoneNumber(phoneNumber);
+                                return formatted || (
+                                  <span className="text-slate-400 dark:text-slate-500">—</span>
+                                );
+                              })()}
+                            </div>
+                          </td>
+                        )}
 
                         {/* Location Column */}
-                        <td className={`hidden xl:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('locationId')}>
-                          {asset.location ? (
-                            <div className="flex items-center gap-2">
-                              <MapPin className={`text-slate-400 flex-shrink-0 ${viewDensity === 'compact' ? 'w-3 h-3' : 'w-4 h-4'}`} />
-                              <span className="text-slate-900 dark:text-slate-100 truncate">
-                                {asset.location.city}, {asset.location.province}
-                              </span>
-                            </div>
-                          ) : (
-                            <span className="text-slate-400 dark:text-slate-500">—</span>
-                          )}
-                        </td>
+                        {isColumnVisible('locationId') && (
+                          <td className={`hidden xl:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('locationId')}>
+                            {asset.location ? (
+                              <div className="flex items-center gap-2">
+                                <MapPin className={`text-slate-400 flex-shrink-0 ${viewDensity === 'compact' ? 'w-3 h-3' : 'w-4 h-4'}`} />
+                                <span className="text-slate-900 dark:text-slate-100 truncate">
+                                  {asset.location.city}, {asset.location.province}
+                                </span>
+                              </div>
+                            ) : (
+                              <span className="text-slate-400 dark:text-slate-500">—</span>
+                            )}
+                          </td>
+                        )}
 
                         {/* Minimized Status Column */}
-                        <td className={`px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('status')}>
-                          <div className="flex items-center justify-center">
-                            <Tooltip.Provider>
-                              <Tooltip.Root>
-                                <Tooltip.Trigger asChild>
-                                  <div className={`rounded-full ${viewDensity === 'compact' ? 'w-3 h-3' : 'w-4 h-4'} ${
-                                    asset.status === 'AVAILABLE' 
-                                      ? 'bg-green-500'
-                                      : asset.status === 'ASSIGNED'
-                                      ? 'bg-blue-500'
-                                      : asset.status === 'SPARE'
-                                      ? 'bg-orange-500'
-                                      : asset.status === 'MAINTENANCE'
-                                      ? 'bg-yellow-500'
-                                      : 'bg-red-500'
-                                  }`} />
-                                </Tooltip.Trigger>
-                                <Tooltip.Content side="top" className="px-2 py-1 text-xs bg-slate-900 text-white rounded shadow-lg">
-                                  {STATUS_CONFIG[asset.status as keyof typeof STATUS_CONFIG]?.label || asset.status}
-                                </Tooltip.Content>
-                              </Tooltip.Root>
-                            </Tooltip.Provider>
-                          </div>
-                        </td>
+                        {isColumnVisible('status') && (
+                          <td className={`px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('status')}>
+                            <div className="flex items-center justify-center">
+                              <Tooltip.Provider>
+                                <Tooltip.Root>
+                                  <Tooltip.Trigger asChild>
+                                    <div className={`rounded-full ${viewDensity === 'compact' ? 'w-3 h-3' : 'w-4 h-4'} ${
+                                      asset.status === 'AVAILABLE' 
+                                        ? 'bg-green-500'
+                                        : asset.status === 'ASSIGNED'
+                                        ? 'bg-blue-500'
+                                        : asset.status === 'SPARE'
+                                        ? 'bg-orange-500'
+                                        : asset.status === 'MAINTENANCE'
+                                        ? 'bg-yellow-500'
+                                        : asset.status === 'RECOVER'
+                                        ? 'bg-purple-500'
+                                        : 'bg-red-500'
+                                    }`} />
+                                  </Tooltip.Trigger>
+                                  <Tooltip.Content side="top" className="px-2 py-1 text-xs bg-slate-900 text-white rounded shadow-lg">
+                                    {STATUS_CONFIG[asset.status as keyof typeof STATUS_CONFIG]?.label || asset.status}
+                                  </Tooltip.Content>
+                                </Tooltip.Root>
+                              </Tooltip.Provider>
+                            </div>
+                          </td>
+                        )}
                       </>
                     ) : (
                       // Default layout
@@ -1765,32 +1931,34 @@ const AssetList: React.FC = () => {
                             </DropdownMenu.Portal>
                           </DropdownMenu.Root>
                         </td>
-                        <td className={`hidden sm:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('assetType')}>
-                          <Tooltip.Provider>
-                            <Tooltip.Root>
-                              <Tooltip.Trigger asChild>
-                                <div className={`flex items-center justify-center rounded-xl bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-700 dark:to-slate-800 border border-slate-200 dark:border-slate-600 shadow-sm ${viewDensity === 'compact' ? 'w-8 h-8' : 'w-10 h-10'}`}>
-                                  {(() => {
-                                    const IconComponent = ASSET_TYPES[asset.assetType as keyof typeof ASSET_TYPES]?.icon || Monitor;
-                                    const iconColors = {
-                                      LAPTOP: 'text-blue-600 dark:text-blue-400',
-                                      DESKTOP: 'text-purple-600 dark:text-purple-400', 
-                                      TABLET: 'text-green-600 dark:text-green-400',
-                                      PHONE: 'text-orange-600 dark:text-orange-400',
-                                      SERVER: 'text-red-600 dark:text-red-400',
-                                      OTHER: 'text-slate-600 dark:text-slate-400'
-                                    };
-                                    const colorClass = iconColors[asset.assetType as keyof typeof iconColors] || iconColors.OTHER;
-                                    return <IconComponent className={`${viewDensity === 'compact' ? 'w-4 h-4' : 'w-5 h-5'} ${colorClass}`} />;
-                                  })()}
-                                </div>
-                              </Tooltip.Trigger>
-                              <Tooltip.Content side="top" className="px-2 py-1 text-xs bg-slate-900 text-white rounded shadow-lg">
-                                {ASSET_TYPES[asset.assetType as keyof typeof ASSET_TYPES]?.label || asset.assetType}
-                              </Tooltip.Content>
-                            </Tooltip.Root>
-                          </Tooltip.Provider>
-                        </td>
+                        {isColumnVisible('assetType') && (
+                          <td className={`hidden sm:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('assetType')}>
+                            <Tooltip.Provider>
+                              <Tooltip.Root>
+                                <Tooltip.Trigger asChild>
+                                  <div className={`flex items-center justify-center rounded-xl bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-700 dark:to-slate-800 border border-slate-200 dark:border-slate-600 shadow-sm ${viewDensity === 'compact' ? 'w-8 h-8' : 'w-10 h-10'}`}>
+                                    {(() => {
+                                      const IconComponent = ASSET_TYPES[asset.assetType as keyof typeof ASSET_TYPES]?.icon || Monitor;
+                                      const iconColors = {
+                                        LAPTOP: 'text-blue-600 dark:text-blue-400',
+                                        DESKTOP: 'text-purple-600 dark:text-purple-400', 
+                                        TABLET: 'text-green-600 dark:text-green-400',
+                                        PHONE: 'text-orange-600 dark:text-orange-400',
+                                        SERVER: 'text-red-600 dark:text-red-400',
+                                        OTHER: 'text-slate-600 dark:text-slate-400'
+                                      };
+                                      const colorClass = iconColors[asset.assetType as keyof typeof iconColors] || iconColors.OTHER;
+                                      return <IconComponent className={`${viewDensity === 'compact' ? 'w-4 h-4' : 'w-5 h-5'} ${colorClass}`} />;
+                                    })()}
+                                  </div>
+                                </Tooltip.Trigger>
+                                <Tooltip.Content side="top" className="px-2 py-1 text-xs bg-slate-900 text-white rounded shadow-lg">
+                                  {ASSET_TYPES[asset.assetType as keyof typeof ASSET_TYPES]?.label || asset.assetType}
+                                </Tooltip.Content>
+                              </Tooltip.Root>
+                            </Tooltip.Provider>
+                          </td>
+                        )}
                         <td className={`px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('make')}>
                           <div className="min-w-0">
                             <div 
@@ -1828,7 +1996,7 @@ const AssetList: React.FC = () => {
                         </td>
                         
                         {/* Adaptive Specification Cells */}
-                        {shouldShowSpecColumns(String(filters.assetType)) && 
+                        {shouldShowSpecColumns(String(filters.assetType)) && isColumnVisible('specs') && 
                           getAssetSpecColumns(String(filters.assetType)).map((column) => {
                             const specs = parseSpecifications(asset.specifications);
                             const value = specs[column.key];
@@ -1848,164 +2016,174 @@ const AssetList: React.FC = () => {
                           })
                         }
                         
-                        <td className={`px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('status')}>
-                          <div className="flex items-center justify-center">
-                            <span className={`inline-flex items-center gap-1.5 rounded-full font-medium shadow-sm ${
-                              viewDensity === 'compact' ? 'px-2 py-1 text-xs' : 'px-2.5 py-1.5 text-xs'
-                            } ${
-                              asset.status === 'AVAILABLE' 
-                                ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border border-green-200 dark:border-green-700'
-                                : asset.status === 'ASSIGNED'
-                                ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-700'
-                                : asset.status === 'SPARE'
-                                ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border border-orange-200 dark:border-orange-700'
-                                : asset.status === 'MAINTENANCE'
-                                ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 border border-yellow-200 dark:border-yellow-700'
-                                : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-700'
-                            }`}>
-                              <div className={`rounded-full ${viewDensity === 'compact' ? 'w-1.5 h-1.5' : 'w-2 h-2'} ${
+                        {isColumnVisible('status') && (
+                          <td className={`px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('status')}>
+                            <div className="flex items-center justify-center">
+                              <span className={`inline-flex items-center gap-1.5 rounded-full font-medium shadow-sm ${
+                                viewDensity === 'compact' ? 'px-2 py-1 text-xs' : 'px-2.5 py-1.5 text-xs'
+                              } ${
                                 asset.status === 'AVAILABLE' 
-                                  ? 'bg-green-500'
+                                  ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border border-green-200 dark:border-green-700'
                                   : asset.status === 'ASSIGNED'
-                                  ? 'bg-blue-500'
+                                  ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-700'
                                   : asset.status === 'SPARE'
-                                  ? 'bg-orange-500'
+                                  ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border border-orange-200 dark:border-orange-700'
                                   : asset.status === 'MAINTENANCE'
-                                  ? 'bg-yellow-500'
-                                  : 'bg-red-500'
-                              }`} />
-                              <span className="hidden sm:inline">
-                                {viewDensity === 'compact' 
-                                  ? STATUS_CONFIG[asset.status as keyof typeof STATUS_CONFIG]?.short || asset.status
-                                  : STATUS_CONFIG[asset.status as keyof typeof STATUS_CONFIG]?.label || asset.status
-                                }
+                                  ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 border border-yellow-200 dark:border-yellow-700'
+                                  : asset.status === 'RECOVER'
+                                  ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 border border-purple-200 dark:border-purple-700'
+                                  : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-700'
+                              }`}>
+                                <div className={`rounded-full ${viewDensity === 'compact' ? 'w-1.5 h-1.5' : 'w-2 h-2'} ${
+                                  asset.status === 'AVAILABLE' 
+                                    ? 'bg-green-500'
+                                    : asset.status === 'ASSIGNED'
+                                    ? 'bg-blue-500'
+                                    : asset.status === 'SPARE'
+                                    ? 'bg-orange-500'
+                                    : asset.status === 'MAINTENANCE'
+                                    ? 'bg-yellow-500'
+                                    : asset.status === 'RECOVER'
+                                    ? 'bg-purple-500'
+                                    : 'bg-red-500'
+                                }`} />
+                                <span className="hidden sm:inline">
+                                  {viewDensity === 'compact' 
+                                    ? STATUS_CONFIG[asset.status as keyof typeof STATUS_CONFIG]?.short || asset.status
+                                    : STATUS_CONFIG[asset.status as keyof typeof STATUS_CONFIG]?.label || asset.status
+                                  }
+                                </span>
                               </span>
-                            </span>
-                          </div>
-                        </td>
-                        <td className={`hidden lg:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('assignedToAadId')}>
-                          {asset.assignedToStaff ? (
-                            <Tooltip.Provider>
-                              <Tooltip.Root>
-                                <Tooltip.Trigger asChild>
-                                  <div 
-                                    className="flex items-center gap-2 group cursor-pointer"
-                                    style={{ maxWidth: columnWidths['assignedToAadId'] ? `${columnWidths['assignedToAadId'] - 32}px` : '140px' }}
-                                    onClick={() => asset.assignedToStaff && handleUserClick(asset.assignedToStaff.id)}
-                                  >
-                                    <div className="relative">
-                              <ProfilePicture 
-                                azureAdId={asset.assignedToStaff.id} 
-                                displayName={asset.assignedToStaff.displayName} 
-                                size="xs" 
-                              />
-                                      <div className="absolute -inset-0.5 bg-gradient-to-r from-brand-500 to-brand-600 rounded-full opacity-0 group-hover:opacity-20 transition-opacity duration-200" />
+                            </div>
+                          </td>
+                        )}
+                        {isColumnVisible('assignedToAadId') && (
+                          <td className={`hidden lg:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('assignedToAadId')}>
+                            {asset.assignedToStaff ? (
+                              <Tooltip.Provider>
+                                <Tooltip.Root>
+                                  <Tooltip.Trigger asChild>
+                                    <div 
+                                      className="flex items-center gap-2 group cursor-pointer"
+                                      style={{ maxWidth: columnWidths['assignedToAadId'] ? `${columnWidths['assignedToAadId'] - 32}px` : '140px' }}
+                                      onClick={() => asset.assignedToStaff && handleUserClick(asset.assignedToStaff.id)}
+                                    >
+                                      <div className="relative">
+                                <ProfilePicture 
+                                  azureAdId={asset.assignedToStaff.id} 
+                                  displayName={asset.assignedToStaff.displayName} 
+                                  size="xs" 
+                                />
+                                        <div className="absolute -inset-0.5 bg-gradient-to-r from-brand-500 to-brand-600 rounded-full opacity-0 group-hover:opacity-20 transition-opacity duration-200" />
+                                      </div>
+                                <div className="min-w-0 flex-1">
+                                        <div className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">
+                                          {asset.assignedToStaff.displayName.split(' ').slice(0, 2).join(' ')}
+                                </div>
+                                        {asset.assignedToStaff.jobTitle && (
+                                          <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                                            {asset.assignedToStaff.jobTitle.length > 20 ? 
+                                              `${asset.assignedToStaff.jobTitle.substring(0, 20)}...` : 
+                                              asset.assignedToStaff.jobTitle
+                                            }
+                              </div>
+                                        )}
+                                      </div>
                                     </div>
-                              <div className="min-w-0 flex-1">
-                                      <div className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">
-                                        {asset.assignedToStaff.displayName.split(' ').slice(0, 2).join(' ')}
+                                  </Tooltip.Trigger>
+                                  <Tooltip.Content side="top" className="px-3 py-2 text-sm bg-slate-900 text-white rounded-lg shadow-lg max-w-xs">
+                                    <div className="font-semibold">{asset.assignedToStaff.displayName}</div>
+                                    {asset.assignedToStaff.jobTitle && (
+                                      <div className="text-slate-300 text-xs mt-1">{asset.assignedToStaff.jobTitle}</div>
+                                    )}
+                                    {asset.assignedToStaff.department && (
+                                      <div className="text-slate-300 text-xs">{asset.assignedToStaff.department}</div>
+                                    )}
+                                    {asset.assignedToStaff.mail && (
+                                      <div className="text-slate-300 text-xs mt-1">{asset.assignedToStaff.mail}</div>
+                                    )}
+                                  </Tooltip.Content>
+                                </Tooltip.Root>
+                              </Tooltip.Provider>
+                            ) : asset.assignedTo ? (
+                              <Tooltip.Provider>
+                                <Tooltip.Root>
+                                  <Tooltip.Trigger asChild>
+                                    <div 
+                                      className="flex items-center gap-2 group cursor-pointer"
+                                      style={{ maxWidth: columnWidths['assignedToAadId'] ? `${columnWidths['assignedToAadId'] - 32}px` : '140px' }}
+                                      onClick={() => asset.assignedTo && handleUserClick(asset.assignedTo.id)}
+                                    >
+                                      <div className="relative">
+                                <ProfilePicture 
+                                  displayName={asset.assignedTo.displayName} 
+                                  size="xs" 
+                                />
+                                        <div className="absolute -inset-0.5 bg-gradient-to-r from-emerald-500 to-emerald-600 rounded-full opacity-0 group-hover:opacity-20 transition-opacity duration-200" />
+                                      </div>
+                                <div className="min-w-0 flex-1">
+                                        <div className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">
+                                          {asset.assignedTo.displayName.split(' ').slice(0, 2).join(' ')}
+                                </div>
+                                        <div className="text-xs text-emerald-600 dark:text-emerald-400 font-medium">IT Tech</div>
                               </div>
-                                      {asset.assignedToStaff.jobTitle && (
-                                        <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
-                                          {asset.assignedToStaff.jobTitle.length > 20 ? 
-                                            `${asset.assignedToStaff.jobTitle.substring(0, 20)}...` : 
-                                            asset.assignedToStaff.jobTitle
-                                          }
-                            </div>
-                                      )}
                                     </div>
-                                  </div>
-                                </Tooltip.Trigger>
-                                <Tooltip.Content side="top" className="px-3 py-2 text-sm bg-slate-900 text-white rounded-lg shadow-lg max-w-xs">
-                                  <div className="font-semibold">{asset.assignedToStaff.displayName}</div>
-                                  {asset.assignedToStaff.jobTitle && (
-                                    <div className="text-slate-300 text-xs mt-1">{asset.assignedToStaff.jobTitle}</div>
-                                  )}
-                                  {asset.assignedToStaff.department && (
-                                    <div className="text-slate-300 text-xs">{asset.assignedToStaff.department}</div>
-                                  )}
-                                  {asset.assignedToStaff.mail && (
-                                    <div className="text-slate-300 text-xs mt-1">{asset.assignedToStaff.mail}</div>
-                                  )}
-                                </Tooltip.Content>
-                              </Tooltip.Root>
-                            </Tooltip.Provider>
-                          ) : asset.assignedTo ? (
-                            <Tooltip.Provider>
-                              <Tooltip.Root>
-                                <Tooltip.Trigger asChild>
-                                  <div 
-                                    className="flex items-center gap-2 group cursor-pointer"
-                                    style={{ maxWidth: columnWidths['assignedToAadId'] ? `${columnWidths['assignedToAadId'] - 32}px` : '140px' }}
-                                    onClick={() => asset.assignedTo && handleUserClick(asset.assignedTo.id)}
-                                  >
-                                    <div className="relative">
-                              <ProfilePicture 
-                                displayName={asset.assignedTo.displayName} 
-                                size="xs" 
-                              />
-                                      <div className="absolute -inset-0.5 bg-gradient-to-r from-emerald-500 to-emerald-600 rounded-full opacity-0 group-hover:opacity-20 transition-opacity duration-200" />
+                                  </Tooltip.Trigger>
+                                  <Tooltip.Content side="top" className="px-3 py-2 text-sm bg-slate-900 text-white rounded-lg shadow-lg">
+                                    <div className="font-semibold">{asset.assignedTo.displayName}</div>
+                                    <div className="text-emerald-300 text-xs mt-1">IT Technician</div>
+                                    {asset.assignedTo.email && (
+                                      <div className="text-slate-300 text-xs mt-1">{asset.assignedTo.email}</div>
+                                    )}
+                                  </Tooltip.Content>
+                                </Tooltip.Root>
+                              </Tooltip.Provider>
+                            ) : asset.assignedToAadId ? (
+                              <Tooltip.Provider>
+                                <Tooltip.Root>
+                                  <Tooltip.Trigger asChild>
+                                    <div 
+                                      className="flex items-center gap-2 group cursor-pointer"
+                                      style={{ maxWidth: columnWidths['assignedToAadId'] ? `${columnWidths['assignedToAadId'] - 32}px` : '140px' }}
+                                    >
+                                      <div className="w-6 h-6 bg-gradient-to-br from-slate-200 to-slate-300 dark:from-slate-600 dark:to-slate-700 rounded-full flex items-center justify-center">
+                                        <span className="text-xs font-medium text-slate-600 dark:text-slate-300">?</span>
+                              </div>
+                                      <span className="text-sm text-slate-600 dark:text-slate-400 truncate font-mono">
+                                        {asset.assignedToAadId.substring(0, 8)}...
+                                      </span>
                                     </div>
-                              <div className="min-w-0 flex-1">
-                                      <div className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">
-                                        {asset.assignedTo.displayName.split(' ').slice(0, 2).join(' ')}
+                                  </Tooltip.Trigger>
+                                  <Tooltip.Content side="top" className="px-3 py-2 text-sm bg-slate-900 text-white rounded-lg shadow-lg">
+                                    <div className="font-semibold">Azure AD User</div>
+                                    <div className="text-slate-300 text-xs mt-1 font-mono">{asset.assignedToAadId}</div>
+                                  </Tooltip.Content>
+                                </Tooltip.Root>
+                              </Tooltip.Provider>
+                            ) : (
+                              <div className="flex items-center gap-2">
+                                <div className="w-6 h-6 bg-gradient-to-br from-slate-100 to-slate-200 dark:from-slate-700 dark:to-slate-800 rounded-full flex items-center justify-center border-2 border-dashed border-slate-300 dark:border-slate-600">
+                                  <span className="text-xs text-slate-400">—</span>
+                                </div>
+                                <span className="text-slate-500 dark:text-slate-400 text-sm">Unassigned</span>
                               </div>
-                                      <div className="text-xs text-emerald-600 dark:text-emerald-400 font-medium">IT Tech</div>
-                            </div>
-                                  </div>
-                                </Tooltip.Trigger>
-                                <Tooltip.Content side="top" className="px-3 py-2 text-sm bg-slate-900 text-white rounded-lg shadow-lg">
-                                  <div className="font-semibold">{asset.assignedTo.displayName}</div>
-                                  <div className="text-emerald-300 text-xs mt-1">IT Technician</div>
-                                  {asset.assignedTo.email && (
-                                    <div className="text-slate-300 text-xs mt-1">{asset.assignedTo.email}</div>
-                                  )}
-                                </Tooltip.Content>
-                              </Tooltip.Root>
-                            </Tooltip.Provider>
-                          ) : asset.assignedToAadId ? (
-                            <Tooltip.Provider>
-                              <Tooltip.Root>
-                                <Tooltip.Trigger asChild>
-                                  <div 
-                                    className="flex items-center gap-2 group cursor-pointer"
-                                    style={{ maxWidth: columnWidths['assignedToAadId'] ? `${columnWidths['assignedToAadId'] - 32}px` : '140px' }}
-                                  >
-                                    <div className="w-6 h-6 bg-gradient-to-br from-slate-200 to-slate-300 dark:from-slate-600 dark:to-slate-700 rounded-full flex items-center justify-center">
-                                      <span className="text-xs font-medium text-slate-600 dark:text-slate-300">?</span>
-                            </div>
-                                    <span className="text-sm text-slate-600 dark:text-slate-400 truncate font-mono">
-                                      {asset.assignedToAadId.substring(0, 8)}...
-                                    </span>
-                                  </div>
-                                </Tooltip.Trigger>
-                                <Tooltip.Content side="top" className="px-3 py-2 text-sm bg-slate-900 text-white rounded-lg shadow-lg">
-                                  <div className="font-semibold">Azure AD User</div>
-                                  <div className="text-slate-300 text-xs mt-1 font-mono">{asset.assignedToAadId}</div>
-                                </Tooltip.Content>
-                              </Tooltip.Root>
-                            </Tooltip.Provider>
-                          ) : (
-                            <div className="flex items-center gap-2">
-                              <div className="w-6 h-6 bg-gradient-to-br from-slate-100 to-slate-200 dark:from-slate-700 dark:to-slate-800 rounded-full flex items-center justify-center border-2 border-dashed border-slate-300 dark:border-slate-600">
-                                <span className="text-xs text-slate-400">—</span>
+                            )}
+                          </td>
+                        )}
+                        {isColumnVisible('locationId') && (
+                          <td className={`hidden xl:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('locationId')}>
+                            {asset.location ? (
+                              <div className="flex items-center gap-2">
+                                <MapPin className={`text-slate-400 flex-shrink-0 ${viewDensity === 'compact' ? 'w-3 h-3' : 'w-4 h-4'}`} />
+                                <span className="text-slate-900 dark:text-slate-100 truncate">
+                                  {asset.location.city}, {asset.location.province}
+                                </span>
                               </div>
-                              <span className="text-slate-500 dark:text-slate-400 text-sm">Unassigned</span>
-                            </div>
-                          )}
-                        </td>
-                        <td className={`hidden xl:table-cell px-4 whitespace-nowrap ${viewDensity === 'compact' ? 'py-2' : 'py-3'}`} style={getColumnStyle('locationId')}>
-                          {asset.location ? (
-                            <div className="flex items-center gap-2">
-                              <MapPin className={`text-slate-400 flex-shrink-0 ${viewDensity === 'compact' ? 'w-3 h-3' : 'w-4 h-4'}`} />
-                              <span className="text-slate-900 dark:text-slate-100 truncate">
-                                {asset.location.city}, {asset.location.province}
-                              </span>
-                            </div>
-                          ) : (
-                            <span className="text-slate-400 dark:text-slate-500">—</span>
-                          )}
-                        </td>
+                            ) : (
+                              <span className="text-slate-400 dark:text-slate-500">—</span>
+                            )}
+                          </td>
+                        )}
                       </>
                     )}
                   </tr>
@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import StepIndicator from '../components/StepIndicator';
 import { 
-  IMPORT_SOURCES, 
+  getImportSources, 
   getImportSource, 
   type UploadCategory,
   type UploadSource,
@@ -12,8 +12,9 @@ import {
 import { applyImportFilter, getFilterKey, getFilterDescription } from '../utils/importFilters';
 import { useAssetFields } from '../hooks/useAssetFields';
 import { useCustomFields } from '../hooks/useCustomFields';
+import { useImportSourceDefinitions } from '../hooks/useImportSourceDefinitions';
 import { useQueryClient } from '@tanstack/react-query';
-import { useImportAssets, useImportProgress, type ImportProgress } from '../hooks/useImportAssets';
+import { useCancelImport, useImportAssets, useImportProgress, type ImportProgress } from '../hooks/useImportAssets';
 import StepSelectCategory from '../components/import-wizard/steps/StepSelectCategory';
 import StepSelectSource from '../components/import-wizard/steps/StepSelectSource';
 import StepMapping from '../components/import-wizard/steps/StepMapping';
@@ -109,13 +110,14 @@ const BulkUpload: React.FC = () => {
   // --- MUTATION HOOK ---
   // The import mutation logic now lives in the parent component
   const importMutation = useImportAssets();
+  const cancelImportMutation = useCancelImport();
 
   // Fetch asset fields and custom fields for dynamic mapping options
   const { data: assetFields = [] } = useAssetFields();
   const { data: customFields = [] } = useCustomFields();
   
   // Progress tracking hook
-  const { progress: realTimeProgress } = useImportProgress(importSessionId);
+  const { progress: realTimeProgress, events: importEvents } = useImportProgress(importSessionId);
 
   // Timer for import progress
   useEffect(() => {
@@ -142,7 +144,9 @@ const BulkUpload: React.FC = () => {
     { id: 5, name: 'Results', description: 'View import results' }
   ];
 
-  const uploadSources = IMPORT_SOURCES;
+  // Admin-defined sources are merged in once loaded
+  useImportSourceDefinitions();
+  const uploadSources = getImportSources();
 
   // Auto-progress from step 1 when category is selected
   const handleCategorySelection = (category: UploadCategory) => {
@@ -652,6 +656,7 @@ const BulkUpload: React.FC = () => {
             <StepProgress
               isLoading={importMutation.isLoading || (realTimeProgress ? (realTimeProgress.processed < realTimeProgress.total) : false)}
               progress={realTimeProgress}
+              events={importEvents}
               elapsedTime={elapsedTime}
               totalToImport={getFilteredItemsToImport().length}
               formatElapsed={formatElapsedTime}
@@ -660,6 +665,8 @@ const BulkUpload: React.FC = () => {
               onImportMore={resetWizard}
               invoiceDocumentId={extractedDocumentId}
               isAdmin={currentUser?.role === 'ADMIN'}
+              onCancel={importSessionId ? () => cancelImportMutation.mutate(importSessionId) : undefined}
+              isCancelling={cancelImportMutation.isLoading || !!realTimeProgress?.cancelRequested}
             />
                     </motion.div>
         )}
@@ -12,6 +12,16 @@ interface CustomFieldFormData {
   fieldType: CustomField['fieldType'];
   isRequired: boolean;
   options?: string;
+  assetTypes: string[];
+  groupName: string;
+  displayOrder: string;
+  defaultValue: string;
+  pattern: string;
+  minLength: string;
+  maxLength: string;
+  minValue: string;
+  maxValue: string;
+  isUnique: boolean;
 }
 
 const FIELD_TYPE_OPTIONS = [
@@ -23,12 +33,24 @@ const FIELD_TYPE_OPTIONS = [
   { value: 'BOOLEAN', label: 'Yes/No' },
 ] as const;
 
+const ASSET_TYPE_OPTIONS = [
+  { value: 'LAPTOP', label: 'Laptop' },
+  { value: 'DESKTOP', label: 'Desktop' },
+  { value: 'TABLET', label: 'Tablet' },
+  { value: 'PHONE', label: 'Phone' },
+  { value: 'SERVER', label: 'Server' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+const numberOrNull = (value: string) => (value === '' || value == null ? null : Number(value));
+
 const CustomFields: React.FC = () => {
   const [customFields, setCustomFields] = useState<CustomField[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingField, setEditingField] = useState<CustomField | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
 
   // Get current user
   const currentUser = useStore(state => state.currentUser);
@@ -44,6 +66,7 @@ const CustomFields: React.FC = () => {
 
   const fieldType = watch('fieldType');
   const isSelectType = fieldType === 'SINGLE_SELECT' || fieldType === 'MULTI_SELECT';
+  const canBeUnique = fieldType !== 'BOOLEAN' && fieldType !== 'MULTI_SELECT';
 
   useEffect(() => {
     loadCustomFields();
@@ -77,12 +100,31 @@ const CustomFields: React.FC = () => {
 
   const handleOpenModal = (field?: CustomField) => {
     setEditingField(field || null);
+    setFormError(null);
     if (field) {
+      let defaultValue = field.defaultValue ?? '';
+      if (field.fieldType === 'MULTI_SELECT' && defaultValue) {
+        try {
+          defaultValue = JSON.parse(defaultValue).join(', ');
+        } catch {
+          // Leave as stored
+        }
+      }
       reset({
         name: field.name,
         fieldType: field.fieldType,
         isRequired: field.isRequired,
         options: field.options?.join('\n') || '',
+        assetTypes: field.assetTypes ?? [],
+        groupName: field.groupName ?? '',
+        displayOrder: String(field.displayOrder ?? 0),
+        defaultValue,
+        pattern: field.pattern ?? '',
+        minLength: field.minLength != null ? String(field.minLength) : '',
+        maxLength: field.maxLength != null ? String(field.maxLength) : '',
+        minValue: field.minValue != null ? String(field.minValue) : '',
+        maxValue: field.maxValue != null ? String(field.maxValue) : '',
+        isUnique: field.isUnique ?? false,
       });
     } else {
       reset({
@@ -90,6 +132,16 @@ const CustomFields: React.FC = () => {
         fieldType: 'STRING',
         isRequired: false,
         options: '',
+        assetTypes: [],
+        groupName: '',
+        displayOrder: '0',
+        defaultValue: '',
+        pattern: '',
+        minLength: '',
+        maxLength: '',
+        minValue: '',
+        maxValue: '',
+        isUnique: false,
       });
     }
     setIsModalOpen(true);
@@ -103,6 +155,8 @@ const CustomFields: React.FC = () => {
 
   const onSubmit = async (data: CustomFieldFormData) => {
     try {
+      const isString = data.fieldType === 'STRING';
+      const isNumber = data.fieldType === 'NUMBER';
       const payload = {
         name: data.name,
         fieldType: data.fieldType,
@@ -110,6 +164,18 @@ const CustomFields: React.FC = () => {
         options: isSelectType && data.options 
           ? data.options.split('\n').filter(opt => opt.trim()).map(opt => opt.trim())
           : undefined,
+        assetTypes: Array.isArray(data.assetTypes) ? data.assetTypes : [],
+        groupName: data.groupName.trim() || null,
+        displayOrder: Number(data.displayOrder) || 0,
+        // Multi-select defaults are entered comma-separated; the server stores them as a list
+        defaultValue: data.defaultValue.trim() || null,
+        // Rules that do not apply to the chosen type are cleared
+        pattern: isString ? data.pattern || null : null,
+        minLength: isString ? numberOrNull(data.minLength) : null,
+        maxLength: isString ? numberOrNull(data.maxLength) : null,
+        minValue: isNumber ? numberOrNull(data.minValue) : null,
+        maxValue: isNumber ? numberOrNull(data.maxValue) : null,
+        isUnique: canBeUnique && data.isUnique,
       };
 
       if (editingField) {
@@ -120,9 +186,9 @@ const CustomFields: React.FC = () => {
 
       await loadCustomFields();
       handleCloseModal();
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error saving custom field:', err);
-      setError('Failed to save custom field');
+      setFormError(err?.response?.data?.error || 'Failed to save custom field');
     }
   };
 
@@ -177,6 +243,9 @@ const CustomFields: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
                   Type
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                  Applies To
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
                   Required
                 </th>
@@ -198,11 +267,24 @@ const CustomFields: React.FC = () => {
                     <div className="font-medium text-slate-900 dark:text-slate-100">
                       {field.name}
                     </div>
+                    {field.groupName && (
+                      <div className="text-xs text-slate-500 dark:text-slate-400">{field.groupName}</div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 dark:bg-slate-700 text-slate-800 dark:text-slate-200">
                       {getFieldTypeLabel(field.fieldType)}
                     </span>
+                    {field.isUnique && (
+                      <span className="ml-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-400">
+                        Unique
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">
+                    {field.assetTypes?.length
+                      ? field.assetTypes.map((type: string) => ASSET_TYPE_OPTIONS.find(o => o.value === type)?.label || type).join(', ')
+                      : 'All types'}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
@@ -266,7 +348,7 @@ const CustomFields: React.FC = () => {
       <Dialog.Root open={isModalOpen} onOpenChange={setIsModalOpen}>
         <Dialog.Portal>
           <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" />
-          <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-white/20 dark:border-slate-700/50 w-full max-w-md z-50">
+          <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-white/20 dark:border-slate-700/50 w-full max-w-lg max-h-[90vh] overflow-y-auto z-50">
             <div className="p-6">
               <div className="flex items-center justify-between mb-4">
                 <Dialog.Title className="text-lg font-semibold text-slate-900 dark:text-slate-100">
@@ -324,6 +406,128 @@ const CustomFields: React.FC = () => {
                   </div>
                 )}
 
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Applies to asset types
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {ASSET_TYPE_OPTIONS.map((option) => (
+                      <label key={option.value} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                        <input
+                          {...register('assetTypes')}
+                          type="checkbox"
+                          value={option.value}
+                          className="w-4 h-4 text-brand-600 border-slate-300 rounded focus:ring-brand-500"
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Leave all unticked to show the field on every asset type.</p>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                      Group
+                    </label>
+                    <input
+                      {...register('groupName')}
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                      placeholder="e.g., Finance"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                      Order
+                    </label>
+                    <input
+                      {...register('displayOrder')}
+                      type="number"
+                      step="1"
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Default value
+                  </label>
+                  <input
+                    {...register('defaultValue')}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                    placeholder={fieldType === 'BOOLEAN' ? 'true or false' : fieldType === 'DATE' ? 'YYYY-MM-DD' : fieldType === 'MULTI_SELECT' ? 'Option 1, Option 2' : 'Filled in on new assets'}
+                  />
+                </div>
+
+                {fieldType === 'STRING' && (
+                  <div className="space-y-3">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                        Format (regular expression)
+                      </label>
+                      <input
+                        {...register('pattern')}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent font-mono"
+                        placeholder="e.g., CC-\d{4}"
+                      />
+                      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">The whole value must match.</p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                          Min length
+                        </label>
+                        <input
+                          {...register('minLength')}
+                          type="number"
+                          min="0"
+                          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                          Max length
+                        </label>
+                        <input
+                          {...register('maxLength')}
+                          type="number"
+                          min="0"
+                          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {fieldType === 'NUMBER' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                        Minimum
+                      </label>
+                      <input
+                        {...register('minValue')}
+                        type="number"
+                        step="any"
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                        Maximum
+                      </label>
+                      <input
+                        {...register('maxValue')}
+                        type="number"
+                        step="any"
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex items-center">
                   <input
                     {...register('isRequired')}
@@ -335,6 +539,23 @@ const CustomFields: React.FC = () => {
                   </label>
                 </div>
 
+                {canBeUnique && (
+                  <div className="flex items-center">
+                    <input
+                      {...register('isUnique')}
+                      type="checkbox"
+                      className="w-4 h-4 text-brand-600 border-slate-300 rounded focus:ring-brand-500"
+                    />
+                    <label className="ml-2 text-sm text-slate-700 dark:text-slate-300">
+                      Unique across assets
+                    </label>
+                  </div>
+                )}
+
+                {formError && (
+                  <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+                )}
+
                 <div className="flex gap-3 pt-4">
                   <button
                     type="submit"
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FileText } from 'lucide-react';
+import { reportsApi } from '../services/api';
+import ReportExportButtons from '../components/ReportExportButtons';
+
+const ASSET_TYPES = ['LAPTOP', 'DESKTOP', 'TABLET', 'PHONE', 'SERVER', 'OTHER'];
+const ASSET_STATUSES = ['AVAILABLE', 'ASSIGNED', 'SPARE', 'MAINTENANCE', 'RECOVER', 'RETIRED', 'DISPOSED'];
+
+const GROUP_BY_OPTIONS: Record<string, { value: string; label: string }[]> = {
+  composition: [
+    { value: 'make', label: 'Make' },
+    { value: 'model', label: 'Model' },
+    { value: 'ram', label: 'RAM' },
+  ],
+  spend: [
+    { value: 'vendor', label: 'Vendor' },
+    { value: 'month', label: 'Month' },
+  ],
+};
+
+const selectClass =
+  'px-3 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100';
+
+const CustomReport: React.FC = () => {
+  const [reportKey, setReportKey] = useState('aging');
+  const [groupBy, setGroupBy] = useState('');
+  const [assetType, setAssetType] = useState('');
+  const [status, setStatus] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const { data: reports = [] } = useQuery({
+    queryKey: ['reports'],
+    queryFn: reportsApi.list,
+  });
+
+  const params = {
+    groupBy: groupBy || undefined,
+    assetType: assetType || undefined,
+    status: status || undefined,
+    from: reportKey === 'spend' ? from || undefined : undefined,
+    to: reportKey === 'spend' ? to || undefined : undefined,
+  };
+
+  const { data: table, isLoading } = useQuery({
+    queryKey: ['report', reportKey, params],
+    queryFn: () => reportsApi.run(reportKey, params),
+  });
+
+  const groupByOptions = GROUP_BY_OPTIONS[reportKey];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+          <FileText className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Custom Reports</h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Pick a report, narrow it down and export the result</p>
+        </div>
+      </div>
+
+      <div className="card p-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600 dark:text-slate-400">
+            Report
+            <select
+              value={reportKey}
+              onChange={(e) => {
+                setReportKey(e.target.value);
+                setGroupBy('');
+              }}
+              className={selectClass}
+            >
+              {reports.map((r) => (
+                <option key={r.key} value={r.key}>{r.title}</option>
+              ))}
+            </select>
+          </label>
+          {groupByOptions && (
+            <label className="flex flex-col gap-1 text-xs font-medium text-slate-600 dark:text-slate-400">
+              Group by
+              <select value={groupBy} onChange={(e) => setGroupBy(e.target.value)} className={selectClass}>
+                {groupByOptions.map((o) => (
+                  <option key={o.value} value={o.value === groupByOptions[0].value ? '' : o.value}>{o.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600 dark:text-slate-400">
+            Asset type
+            <select value={assetType} onChange={(e) => setAssetType(e.target.value)} className={selectClass}>
+              <option value="">All</option>
+              {ASSET_TYPES.map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-slate-600 dark:text-slate-400">
+            Status
+            <select value={status} onChange={(e) => setStatus(e.target.value)} className={selectClass}>
+              <option value="">All</option>
+              {ASSET_STATUSES.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </label>
+          {reportKey === 'spend' && (
+            <>
+              <label className="flex flex-col gap-1 text-xs font-medium text-slate-600 dark:text-slate-400">
+                Purchased from
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={selectClass} />
+              </label>
+              <label className="flex flex-col gap-1 text-xs font-medium text-slate-600 dark:text-slate-400">
+                Purchased to
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={selectClass} />
+              </label>
+            </>
+          )}
+          <div className="ml-auto">
+            <ReportExportButtons reportKey={reportKey} params={params} />
+          </div>
+        </div>
+      </div>
+
+      <div className="card overflow-hidden">
+        <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+          <thead className="bg-slate-50 dark:bg-slate-800">
+            <tr>
+              {table?.columns.map((c) => (
+                <th key={c.key} className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                  {c.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {isLoading ? (
+              <tr>
+                <td className="px-4 py-8 text-center text-sm text-slate-500">Loading...</td>
+              </tr>
+            ) : table && table.rows.length > 0 ? (
+              table.rows.map((row, i) => (
+                <tr key={i}>
+                  {table.columns.map((c) => (
+                    <td key={c.key} className="px-4 py-2 text-sm text-slate-900 dark:text-slate-100">
+                      {row[c.key]}
+                    </td>
+                  ))}
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={table?.columns.length || 1} className="px-4 py-8 text-center text-sm text-slate-500">
+                  No data
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CustomReport;
@@ -0,0 +1,363 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  BriefcaseIcon,
+  PlusIcon,
+  EyeIcon,
+  EyeSlashIcon,
+  PencilIcon,
+  MagnifyingGlassIcon,
+  ArrowsPointingInIcon,
+} from '@heroicons/react/24/outline';
+import { departmentsApi, type Department, type DepartmentSummary } from '../services/api';
+import MergeRecordsModal from '../components/MergeRecordsModal';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+const formatBreakdown = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([key, count]) => `${key} ${count}`)
+    .join(' · ');
+
+// Create / Edit Department Modal Component
+const DepartmentFormModal: React.FC<{
+  department?: Department | null;
+  onClose: () => void;
+  onSave: (data: { name: string; description: string }) => void;
+  isLoading: boolean;
+  error?: string | null;
+}> = ({ department, onClose, onSave, isLoading, error }) => {
+  const [name, setName] = useState(department?.name || '');
+  const [description, setDescription] = useState(department?.description || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) {
+      onSave({ name: name.trim(), description: description.trim() });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+        <h3 className="text-lg font-medium mb-4">{department ? 'Edit Department' : 'Add Department'}</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              disabled={isLoading}
+            >
+              {isLoading ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const Departments: React.FC = () => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [editingDepartment, setEditingDepartment] = useState<Department | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data: departments = [], isLoading } = useQuery({
+    queryKey: ['departments', { searchTerm, showInactive }],
+    queryFn: () => departmentsApi.getAll({ search: searchTerm || undefined, isActive: showInactive ? 'all' : 'true' }),
+  });
+
+  const { data: summaries = [] } = useQuery({
+    queryKey: ['department-summary'],
+    queryFn: departmentsApi.getSummary,
+  });
+
+  const summaryById = new Map<string, DepartmentSummary>(summaries.map((s) => [s.departmentId, s]));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['departments'] });
+    queryClient.invalidateQueries({ queryKey: ['department-summary'] });
+  };
+  const onFormError = (error: any) => setFormError(error.response?.data?.error || 'Failed to save department');
+
+  const createMutation = useMutation({
+    mutationFn: departmentsApi.create,
+    onSuccess: () => {
+      invalidate();
+      setShowAddModal(false);
+    },
+    onError: onFormError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: any }) => departmentsApi.update(id, data),
+    onSuccess: () => {
+      invalidate();
+      setEditingDepartment(null);
+    },
+    onError: onFormError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ targetId, sourceIds }: { targetId: string; sourceIds: string[] }) => departmentsApi.merge(targetId, sourceIds),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['assets'] });
+      setShowMergeModal(false);
+    },
+    onError: (error: any) => {
+      alert(error.response?.data?.error || 'Failed to merge departments');
+    },
+  });
+
+  const visibleSummaries = departments.map((d) => summaryById.get(d.id)).filter(Boolean) as DepartmentSummary[];
+  const totalAssets = visibleSummaries.reduce((sum, s) => sum + s.assetCount, 0);
+  const totalCost = visibleSummaries.reduce((sum, s) => sum + s.totalCost, 0);
+  const totalBookValue = visibleSummaries.reduce((sum, s) => sum + s.bookValue, 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <BriefcaseIcon className="h-6 w-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Departments</h1>
+            <p className="text-sm text-gray-600">
+              What each department holds and what it is worth
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowMergeModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <ArrowsPointingInIcon className="h-4 w-4 mr-2" />
+            Merge Departments
+          </button>
+          <button
+            onClick={() => {
+              setFormError(null);
+              setShowAddModal(true);
+            }}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add Department
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="relative md:col-span-3">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search departments..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">Show inactive</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <div className="text-sm font-medium text-gray-500">Departments</div>
+          <div className="text-2xl font-bold text-gray-900">{departments.length}</div>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <div className="text-sm font-medium text-gray-500">Assets Held</div>
+          <div className="text-2xl font-bold text-blue-600">{totalAssets}</div>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <div className="text-sm font-medium text-gray-500">Purchase Cost</div>
+          <div className="text-2xl font-bold text-gray-900">{formatCurrency(totalCost)}</div>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <div className="text-sm font-medium text-gray-500">Book Value</div>
+          <div className="text-2xl font-bold text-green-600">{formatCurrency(totalBookValue)}</div>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Department</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assets</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Book Value</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
+                    <div className="animate-spin h-6 w-6 border-2 border-blue-600 border-t-transparent rounded-full mx-auto mb-2"></div>
+                    Loading departments...
+                  </td>
+                </tr>
+              ) : departments.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
+                    No departments found.
+                  </td>
+                </tr>
+              ) : (
+                departments.map((department) => {
+                  const summary = summaryById.get(department.id);
+                  return (
+                    <tr key={department.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{department.name}</div>
+                        {department.description && <div className="text-xs text-gray-500">{department.description}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{summary?.assetCount ?? department._count?.assets ?? 0}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-xs text-gray-600">{summary ? formatBreakdown(summary.byAssetType) || '—' : '—'}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-xs text-gray-600">{summary ? formatBreakdown(summary.byStatus) || '—' : '—'}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{formatCurrency(summary?.totalCost || 0)}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{formatCurrency(summary?.bookValue || 0)}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          department.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {department.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex items-center justify-end space-x-2">
+                          <button
+                            onClick={() => {
+                              setFormError(null);
+                              setEditingDepartment(department);
+                            }}
+                            className="text-blue-600 hover:text-blue-900"
+                            title="Edit department"
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => updateMutation.mutate({ id: department.id, data: { isActive: !department.isActive } })}
+                            className={department.isActive ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}
+                            title={department.isActive ? 'Deactivate' : 'Activate'}
+                          >
+                            {department.isActive ? <EyeSlashIcon className="h-4 w-4" /> : <EyeIcon className="h-4 w-4" />}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showAddModal && (
+        <DepartmentFormModal
+          onClose={() => setShowAddModal(false)}
+          onSave={(data) => createMutation.mutate(data)}
+          isLoading={createMutation.isPending}
+          error={formError}
+        />
+      )}
+
+      {editingDepartment && (
+        <DepartmentFormModal
+          department={editingDepartment}
+          onClose={() => setEditingDepartment(null)}
+          onSave={(data) => updateMutation.mutate({ id: editingDepartment.id, data })}
+          isLoading={updateMutation.isPending}
+          error={formError}
+        />
+      )}
+
+      {showMergeModal && (
+        <MergeRecordsModal
+          title="Merge Departments"
+          description="Assets from the selected departments are moved to the target and the merged departments are deactivated."
+          records={departments.map((d) => ({ id: d.id, name: d.name, assetCount: d._count?.assets || 0 }))}
+          onClose={() => setShowMergeModal(false)}
+          onMerge={(targetId, sourceIds) => mergeMutation.mutate({ targetId, sourceIds })}
+          isLoading={mergeMutation.isPending}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Departments;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { api } from '../services/api';
+
+interface FieldChange {
+	field: string;
+	label: string;
+	from: string | null;
+	to: string | null;
+}
+
+interface ChangedAsset {
+	id: string;
+	assetId: string;
+	assetTag: string;
+	operation: string;
+	changes: FieldChange[];
+}
+
+interface RunChangesResponse {
+	run: {
+		id: string;
+		sourceSystem: string;
+		isFullSnapshot: boolean;
+		startedAt: string;
+		finishedAt?: string | null;
+		rolledBackAt?: string | null;
+	};
+	fields: Array<{ field: string; label: string; count: number }>;
+	items: ChangedAsset[];
+}
+
+const operationStyles: Record<string, string> = {
+	UPDATE: 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300',
+	REACTIVATE: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-300',
+	RETIRE: 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300',
+};
+
+const ImportRunChanges: React.FC = () => {
+	const { runId = '' } = useParams();
+	const [field, setField] = React.useState<string>('');
+	const [search, setSearch] = React.useState<string>('');
+
+	const { data, isLoading, error } = useQuery<RunChangesResponse>({
+		queryKey: ['import-run-changes', runId, field, search],
+		queryFn: async () => {
+			const params: Record<string, string> = {};
+			if (field) params.field = field;
+			if (search.trim()) params.search = search.trim();
+			const res = await api.get(`/import/runs/${runId}/changes`, { params });
+			return res.data;
+		},
+		enabled: !!runId,
+		keepPreviousData: true,
+		staleTime: 30_000,
+	});
+
+	const run = data?.run;
+	const items = data?.items || [];
+
+	return (
+		<div className="space-y-4">
+			<div className="flex items-end justify-between">
+				<div>
+					<Link to="/reports/import-runs" className="inline-flex items-center gap-1 text-sm text-brand-600 hover:underline">
+						<ArrowLeft className="w-3 h-3" /> Import Runs
+					</Link>
+					<h1 className="text-xl font-semibold text-slate-900 dark:text-slate-100">What changed in this run</h1>
+					<p className="text-sm text-slate-600 dark:text-slate-400">
+						{run
+							? `${run.sourceSystem} · ${run.isFullSnapshot ? 'Full' : 'Partial'} snapshot · ${new Date(run.startedAt).toLocaleString()}${run.rolledBackAt ? ` · rolled back ${new Date(run.rolledBackAt).toLocaleString()}` : ''}`
+							: 'Field-level changes recorded for each asset'}
+					</p>
+				</div>
+				<div className="flex items-center gap-2">
+					<input
+						value={search}
+						onChange={(e) => setSearch(e.target.value)}
+						placeholder="Filter by asset tag"
+						className="px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-sm"
+					/>
+					<select
+						value={field}
+						onChange={(e) => setField(e.target.value)}
+						className="px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-sm"
+					>
+						<option value="">All fields</option>
+						{(data?.fields || []).map((f) => (
+							<option key={f.field} value={f.field}>{f.label} ({f.count})</option>
+						))}
+					</select>
+				</div>
+			</div>
+
+			<div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+				<table className="min-w-full text-sm">
+					<thead className="bg-slate-50 dark:bg-slate-700/30 text-slate-700 dark:text-slate-200">
+						<tr>
+							<th className="text-left px-4 py-2">Asset Tag</th>
+							<th className="text-left px-4 py-2">Operation</th>
+							<th className="text-left px-4 py-2">Field</th>
+							<th className="text-left px-4 py-2">Old → New</th>
+						</tr>
+					</thead>
+					<tbody>
+						{isLoading ? (
+							<tr><td className="px-4 py-6" colSpan={4}>Loading…</td></tr>
+						) : error ? (
+							<tr><td className="px-4 py-6 text-red-600" colSpan={4}>Failed to load run changes</td></tr>
+						) : items.length === 0 ? (
+							<tr><td className="px-4 py-6 text-slate-500" colSpan={4}>No field changes recorded for this run</td></tr>
+						) : items.map((item) => item.changes.map((change, idx) => (
+							<tr key={`${item.id}-${change.field}`} className={idx === 0 ? 'border-t border-slate-100 dark:border-slate-700/50' : ''}>
+								{idx === 0 && (
+									<>
+										<td className="px-4 py-2 align-top" rowSpan={item.changes.length}>
+											<a className="text-brand-600 hover:underline" href={`/assets?search=${encodeURIComponent(item.assetTag)}`}>{item.assetTag}</a>
+										</td>
+										<td className="px-4 py-2 align-top" rowSpan={item.changes.length}>
+											<span className={`px-2 py-0.5 rounded text-xs ${operationStyles[item.operation] || 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-200'}`}>
+												{item.operation}
+											</span>
+										</td>
+									</>
+								)}
+								<td className="px-4 py-2 text-slate-700 dark:text-slate-300">{change.label}</td>
+								<td className="px-4 py-2">
+									<span className="inline-flex items-center gap-2 flex-wrap">
+										<span className="text-red-700 dark:text-red-300 line-through break-all">{change.from ?? '—'}</span>
+										<ArrowRight className="w-3 h-3 text-slate-400 flex-shrink-0" />
+										<span className="text-green-700 dark:text-green-300 break-all">{change.to ?? '—'}</span>
+									</span>
+								</td>
+							</tr>
+						)))}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	);
+};
+
+export default ImportRunChanges;
@@ -1,6 +1,9 @@
 import React from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Undo2 } from 'lucide-react';
 import { api } from '../services/api';
+import { useStore } from '../store';
 
 interface ImportRun {
 	id: string;
@@ -9,10 +12,27 @@ interface ImportRun {
 	startedAt: string;
 	finishedAt?: string;
 	stats?: any;
+	journalEntries: number;
+	changedAssets: number;
+	rolledBackAt?: string | null;
+	rolledBackByName?: string | null;
+}
+
+interface RollbackResult {
+	runId: string;
+	assetsRestored: number;
+	assetsDeleted: number;
+	linksReverted: number;
+	skipped: number;
+	drifted: Array<{ assetId: string; assetTag: string; reason: string }>;
 }
 
 const ImportRuns: React.FC = () => {
 	const [source, setSource] = React.useState<string>('');
+	const [message, setMessage] = React.useState<{ type: 'success' | 'error'; text: string } | null>(null);
+	const queryClient = useQueryClient();
+	const { currentUser } = useStore();
+	const isAdmin = currentUser?.role === 'ADMIN';
 	const { data, isLoading, error, refetch, isFetching } = useQuery<{ runs: ImportRun[] }>({
 		queryKey: ['import-runs', source],
 		queryFn: async () => {
@@ -22,6 +42,38 @@ const ImportRuns: React.FC = () => {
 		staleTime: 30_000,
 	});
 
+	const rollbackMutation = useMutation({
+		mutationFn: async (runId: string) => {
+			const res = await api.post<RollbackResult>(`/import/runs/${runId}/rollback`);
+			return res.data;
+		},
+		onSuccess: (result) => {
+			setMessage({
+				type: 'success',
+				text:
+					`Rolled back: ${result.assetsRestored} restored, ${result.assetsDeleted} deleted, ${result.linksReverted} presence links reverted${result.skipped ? `, ${result.skipped} skipped (no longer exist)` : ''}` +
+					(result.drifted.length
+						? `. Kept ${result.drifted.length} asset(s) changed since the import: ${result.drifted.map((d) => `${d.assetTag} (${d.reason})`).join('; ')}`
+						: ''),
+			});
+			queryClient.invalidateQueries({ queryKey: ['import-runs'] });
+			queryClient.invalidateQueries({ queryKey: ['assets'] });
+		},
+		onError: (err: any) => setMessage({ type: 'error', text: err.response?.data?.error || 'Failed to roll back import run' }),
+	});
+
+	const handleRollback = (run: ImportRun) => {
+		const confirmed = window.confirm(
+			`Roll back the ${run.sourceSystem} import from ${new Date(run.startedAt).toLocaleString()}?\n\n` +
+			'Assets it created will be deleted, and assets it updated, reactivated or retired will be restored to their earlier state.\n\n' +
+			'Assets edited since the import, and created assets that now have custody history, attachments or tickets, are kept and listed.'
+		);
+		if (confirmed) {
+			setMessage(null);
+			rollbackMutation.mutate(run.id);
+		}
+	};
+
 	return (
 		<div className="space-y-4">
 			<div className="flex items-end justify-between">
@@ -40,6 +92,10 @@ const ImportRuns: React.FC = () => {
 						<option value="NINJAONE_SERVERS">NINJAONE_SERVERS</option>
 						<option value="TELUS">TELUS</option>
 						<option value="ROGERS">ROGERS</option>
+						<option value="BELL">BELL</option>
+						<option value="VERIZON">VERIZON</option>
+						<option value="EXCETEL">EXCETEL</option>
+						<option value="INTUNE">INTUNE</option>
 					</select>
 					<button
 						onClick={() => refetch()}
@@ -51,6 +107,18 @@ const ImportRuns: React.FC = () => {
 				</div>
 			</div>
 
+			{message && (
+				<div
+					className={`px-4 py-2 rounded text-sm ${
+						message.type === 'success'
+							? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+							: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+					}`}
+				>
+					{message.text}
+				</div>
+			)}
+
 			<div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
 				<table className="min-w-full text-sm">
 					<thead className="bg-slate-50 dark:bg-slate-700/30 text-slate-700 dark:text-slate-200">
@@ -63,14 +131,16 @@ const ImportRuns: React.FC = () => {
 							<th className="text-left px-4 py-2">Updated</th>
 							<th className="text-left px-4 py-2">Retired</th>
 							<th className="text-left px-4 py-2">Reactivated</th>
+							<th className="text-left px-4 py-2">Changes</th>
 							<th className="text-left px-4 py-2">Missing Report</th>
+							<th className="text-left px-4 py-2">Rollback</th>
 						</tr>
 					</thead>
 					<tbody>
 						{isLoading ? (
-							<tr><td className="px-4 py-6" colSpan={9}>Loading…</td></tr>
+							<tr><td className="px-4 py-6" colSpan={11}>Loading…</td></tr>
 						) : error ? (
-							<tr><td className="px-4 py-6 text-red-600" colSpan={9}>Failed to load import runs</td></tr>
+							<tr><td className="px-4 py-6 text-red-600" colSpan={11}>Failed to load import runs</td></tr>
 						) : (data?.runs || []).map((run) => {
 							const stats = run.stats || {};
 							return (
@@ -83,9 +153,34 @@ const ImportRuns: React.FC = () => {
 									<td className="px-4 py-2">{stats.updated ?? '-'}</td>
 									<td className="px-4 py-2">{stats.retired ?? '-'}</td>
 									<td className="px-4 py-2">{stats.reactivated ?? '-'}</td>
+									<td className="px-4 py-2">
+										{run.changedAssets > 0 ? (
+											<Link className="text-brand-600 hover:underline" to={`/reports/import-runs/${run.id}`}>
+												{run.changedAssets} asset{run.changedAssets === 1 ? '' : 's'}
+											</Link>
+										) : '-'}
+									</td>
 									<td className="px-4 py-2">
 										<a className="text-brand-600 hover:underline" href={`/reports/missing?source=${encodeURIComponent(run.sourceSystem)}`}>View</a>
 									</td>
+									<td className="px-4 py-2">
+										{run.rolledBackAt ? (
+											<span className="text-xs text-slate-500 dark:text-slate-400" title={run.rolledBackByName ? `by ${run.rolledBackByName}` : undefined}>
+												Rolled back {new Date(run.rolledBackAt).toLocaleString()}
+											</span>
+										) : isAdmin && run.finishedAt && run.journalEntries > 0 ? (
+											<button
+												onClick={() => handleRollback(run)}
+												disabled={rollbackMutation.isPending}
+												className="inline-flex items-center gap-1 px-2 py-1 text-xs border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 rounded hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+											>
+												<Undo2 className="w-3 h-3" />
+												{rollbackMutation.isPending && rollbackMutation.variables === run.id ? 'Rolling back…' : 'Roll back run'}
+											</button>
+										) : (
+											'-'
+										)}
+									</td>
 								</tr>
 							);
 						})}
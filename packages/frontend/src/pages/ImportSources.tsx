@@ -0,0 +1,558 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+import { Plus, Edit2, Trash2, X } from 'lucide-react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { DIRECT_ASSET_FIELDS, type ImportSourceCategory } from '@ats/shared-transformations';
+import {
+  importSourcesApi,
+  type ImportSourceInput,
+  type ImportSourceRecord,
+} from '../services/api';
+
+interface FieldRowFormData {
+  headers: string; // comma-separated aliases
+  targetField: string;
+  targetType: 'direct' | 'specifications' | 'custom';
+  processors: string[];
+  required: boolean;
+}
+
+interface SourceFormData {
+  name: string;
+  key: string;
+  description: string;
+  category: ImportSourceCategory;
+  sourceSystem: string;
+  headerKeywords: string; // comma-separated
+  presenceTracking: boolean;
+  isActive: boolean;
+  directDefaults: string; // one key=value per line
+  specificationDefaults: string;
+  fields: FieldRowFormData[];
+}
+
+const CATEGORY_OPTIONS: { value: ImportSourceCategory; label: string }[] = [
+  { value: 'endpoints', label: 'Endpoints' },
+  { value: 'servers', label: 'Servers' },
+  { value: 'phones', label: 'Phones' },
+];
+
+const EMPTY_FIELD: FieldRowFormData = {
+  headers: '',
+  targetField: 'serialNumber',
+  targetType: 'direct',
+  processors: ['trim'],
+  required: false,
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent';
+
+const splitList = (value: string) => value.split(',').map((part) => part.trim()).filter(Boolean);
+
+const parseDefaults = (value: string): Record<string, string> => {
+  const result: Record<string, string> = {};
+  value.split('\n').forEach((line) => {
+    const idx = line.indexOf('=');
+    if (idx <= 0) return;
+    const key = line.slice(0, idx).trim();
+    if (key) result[key] = line.slice(idx + 1).trim();
+  });
+  return result;
+};
+
+const formatDefaults = (defaults?: Record<string, string>) =>
+  Object.entries(defaults ?? {}).map(([key, value]) => `${key}=${value}`).join('\n');
+
+const ImportSources: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSource, setEditingSource] = useState<ImportSourceRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<SourceFormData>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'fields' });
+
+  const { data: sources = [], isLoading } = useQuery({
+    queryKey: ['importSources', 'all'],
+    queryFn: () => importSourcesApi.getAll({ includeInactive: true }),
+  });
+
+  const { data: processors = [] } = useQuery({
+    queryKey: ['importSources', 'processors'],
+    queryFn: importSourcesApi.getProcessors,
+    staleTime: Infinity,
+  });
+
+  // Also refreshes the active list the import wizard registers
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['importSources'] });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => importSourcesApi.delete(id),
+    onSuccess: refresh,
+    onError: () => setError('Failed to delete import source'),
+  });
+
+  const handleDelete = (source: ImportSourceRecord) => {
+    const confirmed = window.confirm(
+      `Delete the import source "${source.name}"?\nAssets already imported keep their ${source.sourceSystem} source label.`
+    );
+    if (confirmed) deleteMutation.mutate(source.id);
+  };
+
+  const handleOpenModal = (source?: ImportSourceRecord) => {
+    setEditingSource(source || null);
+    reset({
+      name: source?.name ?? '',
+      key: source?.key ?? '',
+      description: source?.description ?? '',
+      category: source?.category ?? 'phones',
+      sourceSystem: source?.sourceSystem ?? '',
+      headerKeywords: source?.headerKeywords.join(', ') ?? '',
+      presenceTracking: source?.presenceTracking ?? false,
+      isActive: source?.isActive ?? true,
+      directDefaults: formatDefaults(source?.defaults?.directFields),
+      specificationDefaults: formatDefaults(source?.defaults?.specifications),
+      fields: source?.fields.map((field) => ({
+        headers: field.headers.join(', '),
+        targetField: field.targetField,
+        targetType: field.targetType,
+        processors: field.processors ?? [],
+        required: Boolean(field.required),
+      })) ?? [{ ...EMPTY_FIELD, required: true }],
+    });
+    setError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingSource(null);
+    reset();
+  };
+
+  const onSubmit = async (data: SourceFormData) => {
+    const payload: ImportSourceInput = {
+      key: data.key.trim().toLowerCase(),
+      name: data.name.trim(),
+      description: data.description.trim() || undefined,
+      category: data.category,
+      sourceSystem: data.sourceSystem.trim().toUpperCase(),
+      headerKeywords: splitList(data.headerKeywords),
+      presenceTracking: data.presenceTracking,
+      isActive: data.isActive,
+      fields: data.fields.map((field) => ({
+        headers: splitList(field.headers),
+        targetField: field.targetField.trim(),
+        targetType: field.targetType,
+        processors: field.processors,
+        required: field.required || undefined,
+      })),
+      defaults: {
+        directFields: parseDefaults(data.directDefaults),
+        specifications: parseDefaults(data.specificationDefaults),
+      },
+    };
+
+    try {
+      if (editingSource) {
+        await importSourcesApi.update(editingSource.id, payload);
+      } else {
+        await importSourcesApi.create(payload);
+      }
+      setError(null);
+      refresh();
+      handleCloseModal();
+    } catch (err: any) {
+      console.error('Error saving import source:', err);
+      const details: string[] | undefined = err?.response?.data?.details;
+      setError(details?.length ? details.join('; ') : err?.response?.data?.error || 'Failed to save import source');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+            Import Sources
+          </h1>
+          <p className="text-slate-600 dark:text-slate-400 mt-1">
+            Describe carrier and vendor exports so they can be previewed and imported without code changes
+          </p>
+        </div>
+        <button
+          onClick={() => handleOpenModal()}
+          className="flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Source
+        </button>
+      </div>
+
+      {error && !isModalOpen && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {/* Sources Table */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-glass border border-white/20 dark:border-slate-700/50 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 dark:bg-slate-700/50">
+              <tr>
+                {['Name', 'Key', 'Category', 'Source System', 'Fields', 'Presence', 'Status'].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {sources.map((source) => (
+                <tr key={source.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30">
+                  <td className="px-6 py-4 whitespace-nowrap font-medium text-slate-900 dark:text-slate-100">
+                    {source.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap font-mono text-sm text-slate-600 dark:text-slate-300">
+                    {source.key}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 dark:bg-slate-700 text-slate-800 dark:text-slate-200">
+                      {CATEGORY_OPTIONS.find((option) => option.value === source.category)?.label || source.category}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap font-mono text-sm text-slate-600 dark:text-slate-300">
+                    {source.sourceSystem}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600 dark:text-slate-300">
+                    {source.fields.length}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600 dark:text-slate-300">
+                    {source.presenceTracking ? 'Tracked' : 'Off'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      source.isActive
+                        ? 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-400'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-400'
+                    }`}>
+                      {source.isActive ? 'Active' : 'Disabled'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => handleOpenModal(source)}
+                      className="text-brand-600 hover:text-brand-900 dark:text-brand-400 dark:hover:text-brand-300 mr-3"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(source)}
+                      className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {sources.length === 0 && (
+          <div className="text-center py-12">
+            <div className="text-slate-400 dark:text-slate-500">
+              No import sources defined yet.
+            </div>
+            <button
+              onClick={() => handleOpenModal()}
+              className="mt-2 text-brand-600 hover:text-brand-700 dark:text-brand-400"
+            >
+              Define your first source
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Add/Edit Modal */}
+      <Dialog.Root open={isModalOpen} onOpenChange={(open) => (open ? setIsModalOpen(true) : handleCloseModal())}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" />
+          <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-white/20 dark:border-slate-700/50 w-full max-w-4xl max-h-[90vh] overflow-y-auto z-50">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <Dialog.Title className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+                  {editingSource ? 'Edit Import Source' : 'Add Import Source'}
+                </Dialog.Title>
+                <Dialog.Close asChild>
+                  <button className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300">
+                    <X className="w-5 h-5" />
+                  </button>
+                </Dialog.Close>
+              </div>
+
+              {error && (
+                <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+                  <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                      Name
+                    </label>
+                    <input
+                      {...register('name', { required: 'Name is required' })}
+                      className={inputClass}
+                      placeholder="e.g., Freedom Mobile (Canada)"
+                    />
+                    {errors.name && <p className="text-red-500 text-sm mt-1">{errors.name.message}</p>}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                      Key
+                    </label>
+                    <input
+                      {...register('key', {
+                        required: 'Key is required',
+                        pattern: { value: /^[a-z0-9][a-z0-9-]*$/, message: 'Lower-case letters, digits and dashes' },
+                      })}
+                      className={`${inputClass} font-mono`}
+                      placeholder="e.g., freedom"
+                    />
+                    {errors.key && <p className="text-red-500 text-sm mt-1">{errors.key.message}</p>}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                      Category
+                    </label>
+                    <select {...register('category')} className={inputClass}>
+                      {CATEGORY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                      Source System
+                    </label>
+                    <input
+                      {...register('sourceSystem', {
+                        required: 'Source system is required',
+                        pattern: { value: /^[A-Za-z0-9_]+$/, message: 'Letters, digits and underscores' },
+                      })}
+                      className={`${inputClass} font-mono`}
+                      placeholder="e.g., FREEDOM"
+                    />
+                    {errors.sourceSystem && <p className="text-red-500 text-sm mt-1">{errors.sourceSystem.message}</p>}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Description
+                  </label>
+                  <input {...register('description')} className={inputClass} />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Header row keywords
+                  </label>
+                  <input
+                    {...register('headerKeywords')}
+                    className={inputClass}
+                    placeholder="e.g., Wireless Number, IMEI"
+                  />
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    Comma-separated header cells used to find the header row when a spreadsheet starts with a preamble
+                  </p>
+                </div>
+
+                {/* Field mappings */}
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                      Field mappings
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => append({ ...EMPTY_FIELD })}
+                      className="flex items-center gap-1 text-sm text-brand-600 hover:text-brand-700 dark:text-brand-400"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add field
+                    </button>
+                  </div>
+                  <datalist id="import-source-direct-targets">
+                    {DIRECT_ASSET_FIELDS.map((target) => (
+                      <option key={target} value={target} />
+                    ))}
+                  </datalist>
+                  <div className="space-y-3">
+                    {fields.map((field, index) => (
+                      <div
+                        key={field.id}
+                        className="grid grid-cols-12 gap-2 items-start p-3 border border-slate-200 dark:border-slate-700 rounded-lg"
+                      >
+                        <div className="col-span-12 md:col-span-4">
+                          <input
+                            {...register(`fields.${index}.headers` as const, { required: true })}
+                            className={inputClass}
+                            placeholder="Header aliases, comma-separated"
+                          />
+                        </div>
+                        <div className="col-span-6 md:col-span-3">
+                          <input
+                            {...register(`fields.${index}.targetField` as const, { required: true })}
+                            className={`${inputClass} font-mono`}
+                            list="import-source-direct-targets"
+                            placeholder="Target field"
+                          />
+                        </div>
+                        <div className="col-span-6 md:col-span-2">
+                          <select {...register(`fields.${index}.targetType` as const)} className={inputClass}>
+                            <option value="direct">Asset</option>
+                            <option value="specifications">Specification</option>
+                            <option value="custom">Custom field</option>
+                          </select>
+                        </div>
+                        <div className="col-span-10 md:col-span-2">
+                          <select
+                            {...register(`fields.${index}.processors` as const)}
+                            multiple
+                            className={`${inputClass} h-20 text-xs`}
+                            title="Processors run in list order"
+                          >
+                            {processors.map((processor) => (
+                              <option key={processor.name} value={processor.name} title={processor.description}>
+                                {processor.label}
+                              </option>
+                            ))}
+                          </select>
+                          <label className="flex items-center gap-1 mt-1 text-xs text-slate-600 dark:text-slate-400">
+                            <input
+                              {...register(`fields.${index}.required` as const)}
+                              type="checkbox"
+                              className="w-3 h-3 text-brand-600 border-slate-300 rounded focus:ring-brand-500"
+                            />
+                            Required
+                          </label>
+                        </div>
+                        <div className="col-span-2 md:col-span-1 flex justify-end">
+                          <button
+                            type="button"
+                            onClick={() => remove(index)}
+                            disabled={fields.length === 1}
+                            className="p-2 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-30"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                      Asset defaults
+                    </label>
+                    <textarea
+                      {...register('directDefaults')}
+                      rows={3}
+                      className={`${inputClass} font-mono text-sm`}
+                      placeholder={'assetType=PHONE\ncondition=GOOD'}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                      Specification defaults
+                    </label>
+                    <textarea
+                      {...register('specificationDefaults')}
+                      rows={3}
+                      className={`${inputClass} font-mono text-sm`}
+                      placeholder="carrier=Freedom"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    {...register('presenceTracking')}
+                    type="checkbox"
+                    className="w-4 h-4 text-brand-600 border-slate-300 rounded focus:ring-brand-500"
+                  />
+                  <label className="ml-2 text-sm text-slate-700 dark:text-slate-300">
+                    Presence tracking (full-snapshot imports retire assets missing from the file)
+                  </label>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    {...register('isActive')}
+                    type="checkbox"
+                    className="w-4 h-4 text-brand-600 border-slate-300 rounded focus:ring-brand-500"
+                  />
+                  <label className="ml-2 text-sm text-slate-700 dark:text-slate-300">
+                    Active (shown in the import wizard)
+                  </label>
+                </div>
+
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="flex-1 px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isSubmitting ? 'Saving...' : editingSource ? 'Update' : 'Create'}
+                  </button>
+                  <Dialog.Close asChild>
+                    <button
+                      type="button"
+                      className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </Dialog.Close>
+                </div>
+              </form>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </div>
+  );
+};
+
+export default ImportSources;
@@ -0,0 +1,431 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Plus, Edit2, Trash2, X, RefreshCw } from 'lucide-react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { useForm } from 'react-hook-form';
+import {
+  lifecycleApi,
+  type AlertSeverity,
+  type LifecyclePolicy,
+  type LifecyclePolicyInput,
+  type LifecyclePolicyKind,
+} from '../services/api';
+
+interface PolicyFormData {
+  name: string;
+  kind: LifecyclePolicyKind;
+  assetType: string;
+  refreshAgeMonths: string;
+  leadTimeDays: string;
+  severity: AlertSeverity;
+  isActive: boolean;
+}
+
+const KIND_OPTIONS: { value: LifecyclePolicyKind; label: string; description: string }[] = [
+  { value: 'REFRESH_AGE', label: 'Refresh age', description: 'Alert once an asset is older than the refresh cycle' },
+  { value: 'WARRANTY_EXPIRY', label: 'Warranty expiry', description: 'Alert ahead of the warranty end date' },
+  {
+    value: 'CONTRACT_END',
+    label: 'Contract end',
+    description: 'Alert ahead of the contract end date in the asset specifications (phones)',
+  },
+];
+
+const ASSET_TYPE_OPTIONS = ['LAPTOP', 'DESKTOP', 'TABLET', 'PHONE', 'SERVER', 'OTHER'];
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  INFO: 'bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-400',
+  WARNING: 'bg-amber-100 dark:bg-amber-900/20 text-amber-800 dark:text-amber-400',
+  CRITICAL: 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-400',
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-brand-500 focus:border-transparent';
+
+const describeRule = (policy: LifecyclePolicy) => {
+  if (policy.kind === 'REFRESH_AGE') return `${policy.refreshAgeMonths} months after purchase`;
+  const days = policy.leadTimeDays ?? 0;
+  const subject = policy.kind === 'WARRANTY_EXPIRY' ? 'warranty end' : 'contract end';
+  return days > 0 ? `${days} days before ${subject}` : `On ${subject}`;
+};
+
+const LifecyclePolicies: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<LifecyclePolicy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<PolicyFormData>();
+
+  const kind = watch('kind');
+
+  const { data: policies = [], isLoading } = useQuery({
+    queryKey: ['lifecycle-policies'],
+    queryFn: lifecycleApi.getPolicies,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['lifecycle-policies'] });
+    queryClient.invalidateQueries({ queryKey: ['lifecycle-alerts'] });
+  };
+
+  const evaluateMutation = useMutation({
+    mutationFn: lifecycleApi.evaluate,
+    onSuccess: (summary) => {
+      setNotice(
+        `Evaluated ${summary.policies} policies: ${summary.created} new, ${summary.reopened} reopened, ${summary.resolved} resolved`
+      );
+      refresh();
+    },
+    onError: () => setError('Failed to evaluate lifecycle policies'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => lifecycleApi.deletePolicy(id),
+    onSuccess: refresh,
+    onError: () => setError('Failed to delete lifecycle policy'),
+  });
+
+  const handleDelete = (policy: LifecyclePolicy) => {
+    const confirmed = window.confirm(`Delete the lifecycle policy "${policy.name}"?\nAll of its alerts will be removed.`);
+    if (confirmed) deleteMutation.mutate(policy.id);
+  };
+
+  const handleOpenModal = (policy?: LifecyclePolicy) => {
+    setEditingPolicy(policy || null);
+    reset({
+      name: policy?.name ?? '',
+      kind: policy?.kind ?? 'WARRANTY_EXPIRY',
+      assetType: policy?.assetType ?? '',
+      refreshAgeMonths: policy?.refreshAgeMonths != null ? String(policy.refreshAgeMonths) : '48',
+      leadTimeDays: policy?.leadTimeDays != null ? String(policy.leadTimeDays) : '30',
+      severity: policy?.severity ?? 'WARNING',
+      isActive: policy?.isActive ?? true,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingPolicy(null);
+    reset();
+  };
+
+  const onSubmit = async (data: PolicyFormData) => {
+    const payload: LifecyclePolicyInput = {
+      name: data.name,
+      kind: data.kind,
+      assetType: data.assetType || null,
+      refreshAgeMonths: data.kind === 'REFRESH_AGE' ? Number(data.refreshAgeMonths) : null,
+      leadTimeDays: data.kind === 'REFRESH_AGE' ? null : Number(data.leadTimeDays || 0),
+      severity: data.severity,
+      isActive: data.isActive,
+    };
+
+    try {
+      if (editingPolicy) {
+        await lifecycleApi.updatePolicy(editingPolicy.id, payload);
+      } else {
+        await lifecycleApi.createPolicy(payload);
+      }
+      setError(null);
+      refresh();
+      handleCloseModal();
+    } catch (err: any) {
+      console.error('Error saving lifecycle policy:', err);
+      setError(err?.response?.data?.error || 'Failed to save lifecycle policy');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+            Lifecycle Policies
+          </h1>
+          <p className="text-slate-600 dark:text-slate-400 mt-1">
+            Raise alerts for assets due for refresh, or nearing warranty and contract end dates
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => evaluateMutation.mutate()}
+            disabled={evaluateMutation.isPending}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 ${evaluateMutation.isPending ? 'animate-spin' : ''}`} />
+            Evaluate now
+          </button>
+          <button
+            onClick={() => handleOpenModal()}
+            className="flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Policy
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+          <p className="text-green-700 dark:text-green-400">{notice}</p>
+        </div>
+      )}
+
+      {/* Policies Table */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-glass border border-white/20 dark:border-slate-700/50 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 dark:bg-slate-700/50">
+              <tr>
+                {['Name', 'Kind', 'Asset Type', 'Rule', 'Severity', 'Status', 'Open Alerts'].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {policies.map((policy) => (
+                <tr key={policy.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30">
+                  <td className="px-6 py-4 whitespace-nowrap font-medium text-slate-900 dark:text-slate-100">
+                    {policy.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 dark:bg-slate-700 text-slate-800 dark:text-slate-200">
+                      {KIND_OPTIONS.find((option) => option.value === policy.kind)?.label || policy.kind}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600 dark:text-slate-300">
+                    {policy.assetType || 'All types'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600 dark:text-slate-300">
+                    {describeRule(policy)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[policy.severity]}`}>
+                      {policy.severity}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                      policy.isActive
+                        ? 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-400'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-400'
+                    }`}>
+                      {policy.isActive ? 'Active' : 'Paused'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600 dark:text-slate-300">
+                    {policy.openAlerts}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => handleOpenModal(policy)}
+                      className="text-brand-600 hover:text-brand-900 dark:text-brand-400 dark:hover:text-brand-300 mr-3"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(policy)}
+                      className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {policies.length === 0 && (
+          <div className="text-center py-12">
+            <div className="text-slate-400 dark:text-slate-500">
+              No lifecycle policies defined yet.
+            </div>
+            <button
+              onClick={() => handleOpenModal()}
+              className="mt-2 text-brand-600 hover:text-brand-700 dark:text-brand-400"
+            >
+              Create your first policy
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Add/Edit Modal */}
+      <Dialog.Root open={isModalOpen} onOpenChange={(open) => (open ? setIsModalOpen(true) : handleCloseModal())}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" />
+          <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-white/20 dark:border-slate-700/50 w-full max-w-md z-50">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <Dialog.Title className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+                  {editingPolicy ? 'Edit Lifecycle Policy' : 'Add Lifecycle Policy'}
+                </Dialog.Title>
+                <Dialog.Close asChild>
+                  <button className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300">
+                    <X className="w-5 h-5" />
+                  </button>
+                </Dialog.Close>
+              </div>
+
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Policy Name
+                  </label>
+                  <input
+                    {...register('name', { required: 'Policy name is required' })}
+                    className={inputClass}
+                    placeholder="e.g., Laptop 4-year refresh"
+                  />
+                  {errors.name && (
+                    <p className="text-red-500 text-sm mt-1">{errors.name.message}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Kind
+                  </label>
+                  <select {...register('kind')} className={inputClass}>
+                    {KIND_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    {KIND_OPTIONS.find((option) => option.value === kind)?.description}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Asset Type
+                  </label>
+                  <select {...register('assetType')} className={inputClass}>
+                    <option value="">All types</option>
+                    {ASSET_TYPE_OPTIONS.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {kind === 'REFRESH_AGE' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                      Refresh after (months)
+                    </label>
+                    <input
+                      {...register('refreshAgeMonths', {
+                        required: 'Refresh age is required',
+                        min: { value: 1, message: 'Must be at least 1 month' },
+                      })}
+                      type="number"
+                      min={1}
+                      className={inputClass}
+                    />
+                    {errors.refreshAgeMonths && (
+                      <p className="text-red-500 text-sm mt-1">{errors.refreshAgeMonths.message}</p>
+                    )}
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                      Lead time (days before end date)
+                    </label>
+                    <input
+                      {...register('leadTimeDays', { min: { value: 0, message: 'Cannot be negative' } })}
+                      type="number"
+                      min={0}
+                      className={inputClass}
+                    />
+                    {errors.leadTimeDays && (
+                      <p className="text-red-500 text-sm mt-1">{errors.leadTimeDays.message}</p>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Severity
+                  </label>
+                  <select {...register('severity')} className={inputClass}>
+                    <option value="INFO">Info</option>
+                    <option value="WARNING">Warning</option>
+                    <option value="CRITICAL">Critical</option>
+                  </select>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    {...register('isActive')}
+                    type="checkbox"
+                    className="w-4 h-4 text-brand-600 border-slate-300 rounded focus:ring-brand-500"
+                  />
+                  <label className="ml-2 text-sm text-slate-700 dark:text-slate-300">
+                    Active (paused policies resolve their open alerts)
+                  </label>
+                </div>
+
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="flex-1 px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isSubmitting ? 'Saving...' : editingPolicy ? 'Update' : 'Create'}
+                  </button>
+                  <Dialog.Close asChild>
+                    <button
+                      type="button"
+                      className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </Dialog.Close>
+                </div>
+              </form>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </div>
+  );
+};
+
+export default LifecyclePolicies;
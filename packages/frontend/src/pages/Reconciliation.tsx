@@ -0,0 +1,281 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { EyeOff, Eye, RotateCcw } from 'lucide-react';
+import { api } from '../services/api';
+import { useStore } from '../store';
+import { useStaffMember } from '../hooks/useStaffSearch';
+
+type ReconciliationKind = 'MISSING_FROM_INTUNE' | 'MISSING_FROM_NINJAONE' | 'RETIRED_ON_CARRIER_BILL' | 'FIELD_CONFLICT';
+
+interface ReconciliationItem {
+	kind: ReconciliationKind;
+	fingerprint: string;
+	asset: {
+		id: string;
+		assetTag: string;
+		serialNumber: string | null;
+		assetType: string;
+		status: string;
+		source: string;
+		make: string;
+		model: string;
+		assignedToAadId: string | null;
+	};
+	sources: Array<{ sourceSystem: string; isPresent: boolean; lastSeenAt: string }>;
+	conflicts?: Array<{ field: 'make' | 'model' | 'assignedToAadId'; values: Array<{ sourceSystem: string; value: string }> }>;
+	ignoreId?: string;
+}
+
+interface ReconciliationReport {
+	generatedAt: string;
+	counts: Record<ReconciliationKind, number>;
+	ignoredCount: number;
+	items: ReconciliationItem[];
+}
+
+const KIND_LABELS: Record<ReconciliationKind, string> = {
+	MISSING_FROM_INTUNE: 'In NinjaOne, not Intune',
+	MISSING_FROM_NINJAONE: 'In Intune, not NinjaOne',
+	RETIRED_ON_CARRIER_BILL: 'Retired but on carrier bill',
+	FIELD_CONFLICT: 'Conflicting details',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+	make: 'Make',
+	model: 'Model',
+	assignedToAadId: 'Assignee',
+};
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Assignee values are Azure AD ids; show the staff member's name when it resolves
+const ConflictValue: React.FC<{ field: string; value: string }> = ({ field, value }) => {
+	const isAadId = field === 'assignedToAadId' && GUID_PATTERN.test(value);
+	const { data: staff } = useStaffMember(isAadId ? value : null);
+	return <span title={value}>{isAadId && staff?.displayName ? staff.displayName : value}</span>;
+};
+
+const Reconciliation: React.FC = () => {
+	const [kind, setKind] = React.useState<ReconciliationKind | ''>('');
+	const [includeIgnored, setIncludeIgnored] = React.useState(false);
+	const [message, setMessage] = React.useState<{ type: 'success' | 'error'; text: string } | null>(null);
+	const queryClient = useQueryClient();
+	const { currentUser } = useStore();
+	const canEdit = currentUser?.role === 'ADMIN' || currentUser?.role === 'WRITE';
+
+	const { data, isLoading, error, refetch, isFetching } = useQuery<ReconciliationReport>({
+		queryKey: ['reconciliation', includeIgnored],
+		queryFn: async () => {
+			const res = await api.get('/reconciliation', { params: includeIgnored ? { includeIgnored: 'true' } : {} });
+			return res.data;
+		},
+		staleTime: 30_000,
+	});
+
+	const onActionError = (fallback: string) => (err: any) =>
+		setMessage({ type: 'error', text: err.response?.data?.error || fallback });
+
+	const fixMutation = useMutation({
+		mutationFn: async (body: { assetId: string; kind: ReconciliationKind; field?: string; sourceSystem?: string }) => {
+			const res = await api.post<{ id: string; assetTag: string }>('/reconciliation/fix', body);
+			return res.data;
+		},
+		onSuccess: (asset) => {
+			setMessage({ type: 'success', text: `Updated ${asset.assetTag}` });
+			queryClient.invalidateQueries({ queryKey: ['reconciliation'] });
+			queryClient.invalidateQueries({ queryKey: ['assets'] });
+		},
+		onError: onActionError('Failed to fix asset'),
+	});
+
+	const ignoreMutation = useMutation({
+		mutationFn: async (body: { assetId: string; kind: ReconciliationKind; fingerprint: string; note?: string }) => {
+			await api.post('/reconciliation/ignore', body);
+		},
+		onSuccess: () => queryClient.invalidateQueries({ queryKey: ['reconciliation'] }),
+		onError: onActionError('Failed to ignore discrepancy'),
+	});
+
+	const unignoreMutation = useMutation({
+		mutationFn: async (ignoreId: string) => {
+			await api.delete(`/reconciliation/ignore/${ignoreId}`);
+		},
+		onSuccess: () => queryClient.invalidateQueries({ queryKey: ['reconciliation'] }),
+		onError: onActionError('Failed to restore discrepancy'),
+	});
+
+	const handleIgnore = (item: ReconciliationItem) => {
+		const note = window.prompt(`Ignore "${KIND_LABELS[item.kind]}" for ${item.asset.assetTag}? Optional note:`, '');
+		if (note === null) return;
+		setMessage(null);
+		ignoreMutation.mutate({ assetId: item.asset.id, kind: item.kind, fingerprint: item.fingerprint, note: note || undefined });
+	};
+
+	const handleFix = (body: { assetId: string; kind: ReconciliationKind; field?: string; sourceSystem?: string }) => {
+		setMessage(null);
+		fixMutation.mutate(body);
+	};
+
+	const items = (data?.items || []).filter((item) => !kind || item.kind === kind);
+	const busy = fixMutation.isPending || ignoreMutation.isPending || unignoreMutation.isPending;
+
+	return (
+		<div className="space-y-4">
+			<div className="flex items-end justify-between">
+				<div>
+					<h1 className="text-xl font-semibold text-slate-900 dark:text-slate-100">Source Reconciliation</h1>
+					<p className="text-sm text-slate-600 dark:text-slate-400">
+						Discrepancies between NinjaOne, Intune and carrier bills
+						{data ? ` · ${data.ignoredCount} ignored · generated ${new Date(data.generatedAt).toLocaleString()}` : ''}
+					</p>
+				</div>
+				<div className="flex items-center gap-2">
+					<label className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-400">
+						<input type="checkbox" checked={includeIgnored} onChange={(e) => setIncludeIgnored(e.target.checked)} />
+						Show ignored
+					</label>
+					<button onClick={() => refetch()} disabled={isFetching} className="px-3 py-1 bg-brand-600 text-white rounded text-sm disabled:opacity-50">Refresh</button>
+				</div>
+			</div>
+
+			<div className="flex flex-wrap gap-2">
+				<button
+					onClick={() => setKind('')}
+					className={`px-3 py-1 rounded-full text-sm border ${kind === '' ? 'bg-brand-600 text-white border-brand-600' : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300'}`}
+				>
+					All ({data ? Object.values(data.counts).reduce((sum, n) => sum + n, 0) : 0})
+				</button>
+				{(Object.keys(KIND_LABELS) as ReconciliationKind[]).map((k) => (
+					<button
+						key={k}
+						onClick={() => setKind(k)}
+						className={`px-3 py-1 rounded-full text-sm border ${kind === k ? 'bg-brand-600 text-white border-brand-600' : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300'}`}
+					>
+						{KIND_LABELS[k]} ({data?.counts[k] ?? 0})
+					</button>
+				))}
+			</div>
+
+			{message && (
+				<div
+					className={`px-4 py-2 rounded text-sm ${
+						message.type === 'success'
+							? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+							: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+					}`}
+				>
+					{message.text}
+				</div>
+			)}
+
+			<div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+				<table className="min-w-full text-sm">
+					<thead className="bg-slate-50 dark:bg-slate-700/30 text-slate-700 dark:text-slate-200">
+						<tr>
+							<th className="text-left px-4 py-2">Discrepancy</th>
+							<th className="text-left px-4 py-2">Asset Tag</th>
+							<th className="text-left px-4 py-2">Status</th>
+							<th className="text-left px-4 py-2">Serial</th>
+							<th className="text-left px-4 py-2">Sources</th>
+							<th className="text-left px-4 py-2">Details</th>
+							<th className="text-left px-4 py-2">Actions</th>
+						</tr>
+					</thead>
+					<tbody>
+						{isLoading ? (
+							<tr><td className="px-4 py-6" colSpan={7}>Loading…</td></tr>
+						) : error ? (
+							<tr><td className="px-4 py-6 text-red-600" colSpan={7}>Failed to load reconciliation report</td></tr>
+						) : items.length === 0 ? (
+							<tr><td className="px-4 py-6 text-slate-500" colSpan={7}>No discrepancies found</td></tr>
+						) : items.map((item) => (
+							<tr key={`${item.kind}:${item.asset.id}`} className={`border-t border-slate-100 dark:border-slate-700/50 align-top ${item.ignoreId ? 'opacity-60' : ''}`}>
+								<td className="px-4 py-2">{KIND_LABELS[item.kind]}</td>
+								<td className="px-4 py-2">
+									<a className="text-brand-600 hover:underline" href={`/assets?search=${encodeURIComponent(item.asset.assetTag)}`}>{item.asset.assetTag}</a>
+								</td>
+								<td className="px-4 py-2">{item.asset.status}</td>
+								<td className="px-4 py-2">{item.asset.serialNumber || '-'}</td>
+								<td className="px-4 py-2">
+									<div className="flex flex-wrap gap-1">
+										{item.sources.map((s) => (
+											<span
+												key={s.sourceSystem}
+												title={`Last seen ${new Date(s.lastSeenAt).toLocaleString()}`}
+												className={`px-1.5 py-0.5 rounded text-xs ${s.isPresent ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' : 'bg-slate-100 dark:bg-slate-700 text-slate-500 line-through'}`}
+											>
+												{s.sourceSystem}
+											</span>
+										))}
+									</div>
+								</td>
+								<td className="px-4 py-2">
+									{item.conflicts ? (
+										<div className="space-y-1">
+											{item.conflicts.map((conflict) => (
+												<div key={conflict.field}>
+													<span className="font-medium">{FIELD_LABELS[conflict.field]}:</span>
+													{conflict.values.map((v) => (
+														<span key={v.sourceSystem} className="ml-2 inline-flex items-center gap-1">
+															<span className="text-slate-500">{v.sourceSystem}</span>
+															<ConflictValue field={conflict.field} value={v.value} />
+															{canEdit && !item.ignoreId && (
+																<button
+																	onClick={() => handleFix({ assetId: item.asset.id, kind: item.kind, field: conflict.field, sourceSystem: v.sourceSystem })}
+																	disabled={busy}
+																	className="px-1.5 text-xs border border-brand-300 dark:border-brand-700 text-brand-700 dark:text-brand-300 rounded hover:bg-brand-50 dark:hover:bg-brand-900/20 disabled:opacity-50"
+																>
+																	Use
+																</button>
+															)}
+														</span>
+													))}
+												</div>
+											))}
+										</div>
+									) : item.kind === 'RETIRED_ON_CARRIER_BILL' ? (
+										<span className="text-slate-600 dark:text-slate-400">Still billed; reactivate if the phone is in use</span>
+									) : (
+										<span className="text-slate-600 dark:text-slate-400">Enrol or remove the device in the source system</span>
+									)}
+								</td>
+								<td className="px-4 py-2 whitespace-nowrap">
+									{!canEdit ? '-' : item.ignoreId ? (
+										<button
+											onClick={() => unignoreMutation.mutate(item.ignoreId!)}
+											disabled={busy}
+											className="inline-flex items-center gap-1 px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+										>
+											<Eye className="w-3 h-3" /> Un-ignore
+										</button>
+									) : (
+										<div className="flex items-center gap-2">
+											{item.kind === 'RETIRED_ON_CARRIER_BILL' && (
+												<button
+													onClick={() => handleFix({ assetId: item.asset.id, kind: item.kind })}
+													disabled={busy}
+													className="inline-flex items-center gap-1 px-2 py-1 text-xs border border-green-300 dark:border-green-700 text-green-700 dark:text-green-300 rounded hover:bg-green-50 dark:hover:bg-green-900/20 disabled:opacity-50"
+												>
+													<RotateCcw className="w-3 h-3" /> Reactivate
+												</button>
+											)}
+											<button
+												onClick={() => handleIgnore(item)}
+												disabled={busy}
+												className="inline-flex items-center gap-1 px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+											>
+												<EyeOff className="w-3 h-3" /> Ignore
+											</button>
+										</div>
+									)}
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	);
+};
+
+export default Reconciliation;
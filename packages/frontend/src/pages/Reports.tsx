@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  PieChart as RePieChart,
+  Pie,
+  Cell,
+  ResponsiveContainer,
+  BarChart,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Bar,
+  Legend,
+  LineChart,
+  Line,
+} from 'recharts';
+import { BarChart3 } from 'lucide-react';
+import { reportsApi, type ReportTable } from '../services/api';
+import ReportExportButtons from '../components/ReportExportButtons';
+
+const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#84cc16', '#64748b'];
+
+// How many categories to chart before the rest are only available via export
+const MAX_CHART_ROWS = 12;
+
+type ChartKind = 'bar' | 'pie' | 'line';
+
+interface ReportChartConfig {
+  reportKey: string;
+  chart: ChartKind;
+  labelKey: string;
+  valueKey: string;
+  groupByOptions?: { value: string; label: string; labelKey: string }[];
+}
+
+const REPORT_CHARTS: ReportChartConfig[] = [
+  { reportKey: 'aging', chart: 'bar', labelKey: 'bucket', valueKey: 'count' },
+  { reportKey: 'warranty', chart: 'bar', labelKey: 'bucket', valueKey: 'count' },
+  {
+    reportKey: 'composition',
+    chart: 'pie',
+    labelKey: 'make',
+    valueKey: 'count',
+    groupByOptions: [
+      { value: 'make', label: 'Make', labelKey: 'make' },
+      { value: 'model', label: 'Model', labelKey: 'model' },
+      { value: 'ram', label: 'RAM', labelKey: 'ram' },
+    ],
+  },
+  { reportKey: 'locations', chart: 'bar', labelKey: 'location', valueKey: 'count' },
+  { reportKey: 'departments', chart: 'bar', labelKey: 'department', valueKey: 'count' },
+  {
+    reportKey: 'spend',
+    chart: 'bar',
+    labelKey: 'vendor',
+    valueKey: 'spend',
+    groupByOptions: [
+      { value: 'vendor', label: 'Vendor', labelKey: 'vendor' },
+      { value: 'month', label: 'Month', labelKey: 'month' },
+    ],
+  },
+];
+
+const ReportChart: React.FC<{ table: ReportTable; chart: ChartKind; labelKey: string; valueKey: string }> = ({
+  table,
+  chart,
+  labelKey,
+  valueKey,
+}) => {
+  const data = (chart === 'line' ? table.rows : table.rows.slice(0, MAX_CHART_ROWS)).map((row) => ({
+    name: String(row[labelKey] ?? ''),
+    value: Number(row[valueKey] ?? 0),
+  }));
+
+  if (data.length === 0) {
+    return <div className="h-full flex items-center justify-center text-sm text-slate-500">No data</div>;
+  }
+
+  if (chart === 'pie') {
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <RePieChart>
+          <Pie data={data} dataKey="value" nameKey="name" innerRadius={50} outerRadius={80} paddingAngle={2}>
+            {data.map((_, index) => (
+              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip />
+          <Legend />
+        </RePieChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  if (chart === 'line') {
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="name" />
+          <YAxis />
+          <Tooltip />
+          <Line type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={2} />
+        </LineChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="name" interval={0} angle={-20} textAnchor="end" height={60} tick={{ fontSize: 11 }} />
+        <YAxis allowDecimals={false} />
+        <Tooltip />
+        <Bar dataKey="value" fill="#3b82f6" radius={[6, 6, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
+
+const ReportChartCard: React.FC<{ config: ReportChartConfig }> = ({ config }) => {
+  const [groupBy, setGroupBy] = useState(config.groupByOptions?.[0].value);
+  const params = groupBy ? { groupBy } : undefined;
+
+  const { data: table, isLoading, error } = useQuery({
+    queryKey: ['report', config.reportKey, params],
+    queryFn: () => reportsApi.run(config.reportKey, params),
+  });
+
+  const option = config.groupByOptions?.find((o) => o.value === groupBy);
+  const labelKey = option?.labelKey || config.labelKey;
+  const chart: ChartKind = config.reportKey === 'spend' && groupBy === 'month' ? 'line' : config.chart;
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{table?.title || config.reportKey}</h2>
+        <div className="flex items-center gap-2">
+          {config.groupByOptions && (
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value)}
+              className="text-xs px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200"
+            >
+              {config.groupByOptions.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          )}
+          <ReportExportButtons reportKey={config.reportKey} params={params} />
+        </div>
+      </div>
+      <div className="h-64">
+        {isLoading ? (
+          <div className="h-full flex items-center justify-center">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-brand-600"></div>
+          </div>
+        ) : error || !table ? (
+          <div className="h-full flex items-center justify-center text-sm text-red-600">Failed to load report</div>
+        ) : (
+          <ReportChart table={table} chart={chart} labelKey={labelKey} valueKey={config.valueKey} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const Reports: React.FC = () => (
+  <div className="p-6 space-y-6">
+    <div className="flex items-center gap-3">
+      <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+        <BarChart3 className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+      </div>
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Reports & Analytics</h1>
+        <p className="text-sm text-slate-600 dark:text-slate-400">Fleet age, warranty exposure, composition and spend</p>
+      </div>
+    </div>
+
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {REPORT_CHARTS.map((config) => (
+        <ReportChartCard key={config.reportKey} config={config} />
+      ))}
+    </div>
+  </div>
+);
+
+export default Reports;
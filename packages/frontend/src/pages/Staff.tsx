@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import {
   Search,
@@ -27,11 +27,14 @@ import {
   ExternalLink,
   Calendar,
   Shield,
+  History,
 } from 'lucide-react';
 import * as Dialog from '@radix-ui/react-dialog';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import * as Select from '@radix-ui/react-select';
-import { usersApi, staffApi } from '../services/api';
+import { usersApi, staffApi, custodyApi } from '../services/api';
+import { CustodyTimeline } from '../components/CustodyPanel';
+import LeaversPanel from '../components/LeaversPanel';
 import { useStore } from '../store';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useDebounce } from '../hooks/useDebounce';
@@ -199,11 +202,31 @@ const Staff: React.FC = () => {
   const { preloadPhotos } = usePhotoBatch();
 
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
+  const selectedStaffAadId = selectedStaff?.azureAdId || selectedStaff?.id;
+
+  const { data: custodyHistory = [], isLoading: custodyLoading } = useQuery({
+    queryKey: ['custody', 'staff', selectedStaffAadId],
+    queryFn: () => custodyApi.getByStaff(selectedStaffAadId as string),
+    enabled: detailsDialogOpen && !!selectedStaffAadId,
+  });
 
   useEffect(() => {
     setPage(1);
   }, [debouncedSearchQuery, departmentFilter, userTypeFilter]);
 
+  const queryClient = useQueryClient();
+  const { data: directoryStatus } = useQuery({
+    queryKey: ['staff-directory-status'],
+    queryFn: staffApi.getDirectoryStatus,
+  });
+  const directorySyncMutation = useMutation({
+    mutationFn: () => staffApi.syncDirectory(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['staff-directory-status'] });
+      queryClient.invalidateQueries({ queryKey: ['staff-with-assets'] });
+    },
+  });
+
   const { data: staffData, isLoading, isFetching, error, refetch } = useQuery({
     queryKey: ['staff-with-assets', { search: debouncedSearchQuery, page, limit, department: departmentFilter, userType: userTypeFilter }],
     queryFn: () => usersApi.getStaffWithAssets({ 
@@ -352,16 +375,37 @@ const Staff: React.FC = () => {
             </p>
           </div>
         </div>
-        <button
-          onClick={() => refetch()}
-          disabled={isLoading}
-          className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
-        >
-          <RefreshCw className={clsx("w-4 h-4", isLoading && "animate-spin")} />
-          Refresh
-        </button>
+        <div className="flex items-center gap-3">
+          <span
+            className={clsx('text-xs', directoryStatus?.lastError ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400')}
+            title={directoryStatus?.lastError || undefined}
+          >
+            {directoryStatus?.lastSyncedAt
+              ? `Directory synced ${new Date(directoryStatus.lastSyncedAt).toLocaleString()} (${directoryStatus.entries} staff)`
+              : 'Directory not synced yet'}
+            {directoryStatus?.lastError && ' · last sync failed'}
+          </span>
+          <button
+            onClick={() => directorySyncMutation.mutate()}
+            disabled={directorySyncMutation.isPending}
+            className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+          >
+            <Users className={clsx("w-4 h-4", directorySyncMutation.isPending && "animate-pulse")} />
+            Sync directory
+          </button>
+          <button
+            onClick={() => refetch()}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+          >
+            <RefreshCw className={clsx("w-4 h-4", isLoading && "animate-spin")} />
+            Refresh
+          </button>
+        </div>
       </div>
 
+      <LeaversPanel />
+
       <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-4">
         <div className="flex flex-col sm:flex-row gap-4">
           <div className="flex-1 relative">
@@ -929,6 +973,17 @@ const Staff: React.FC = () => {
                   </div>
                 </div>
 
+                <div className="space-y-4 mt-6">
+                  <h4 className="text-lg font-semibold text-slate-900 dark:text-slate-100 flex items-center gap-2"><History className="w-5 h-5" />Custody History</h4>
+                  {custodyLoading ? (
+                    <div className="text-sm text-slate-500 dark:text-slate-400">Loading custody history...</div>
+                  ) : custodyHistory.length > 0 ? (
+                    <CustodyTimeline records={custodyHistory} showAsset />
+                  ) : (
+                    <div className="text-sm text-slate-500 dark:text-slate-400">No assets have been checked out to this person.</div>
+                  )}
+                </div>
+
                 <div className="flex justify-end gap-3 pt-6 border-t border-slate-200 dark:border-slate-700">
                   <Dialog.Close asChild><button className="px-4 py-2 text-slate-600 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300">Close</button></Dialog.Close>
                   <button onClick={() => { setDetailsDialogOpen(false); handleViewAssets(selectedStaff.id); }} className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2"><Package className="w-4 h-4" />View Assets</button>
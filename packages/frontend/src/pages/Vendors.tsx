@@ -0,0 +1,408 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  BuildingStorefrontIcon,
+  PlusIcon,
+  EyeIcon,
+  EyeSlashIcon,
+  PencilIcon,
+  MagnifyingGlassIcon,
+  ArrowsPointingInIcon,
+} from '@heroicons/react/24/outline';
+import { vendorsApi, type Vendor, type VendorStats } from '../services/api';
+import { useStore } from '../store';
+import MergeRecordsModal from '../components/MergeRecordsModal';
+
+type VendorFormData = {
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  website: string;
+  address: string;
+  notes: string;
+};
+
+const VENDOR_FORM_FIELDS: { key: keyof VendorFormData; label: string; type?: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'contactName', label: 'Contact Name' },
+  { key: 'email', label: 'Email', type: 'email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'website', label: 'Website' },
+  { key: 'address', label: 'Address' },
+];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+// Create / Edit Vendor Modal Component
+const VendorFormModal: React.FC<{
+  vendor?: Vendor | null;
+  onClose: () => void;
+  onSave: (data: VendorFormData) => void;
+  isLoading: boolean;
+  error?: string | null;
+}> = ({ vendor, onClose, onSave, isLoading, error }) => {
+  const [form, setForm] = useState<VendorFormData>({
+    name: vendor?.name || '',
+    contactName: vendor?.contactName || '',
+    email: vendor?.email || '',
+    phone: vendor?.phone || '',
+    website: vendor?.website || '',
+    address: vendor?.address || '',
+    notes: vendor?.notes || '',
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.name.trim()) {
+      onSave({ ...form, name: form.name.trim() });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4">
+        <h3 className="text-lg font-medium mb-4">{vendor ? 'Edit Vendor' : 'Add Vendor'}</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {VENDOR_FORM_FIELDS.map(({ key, label, type }) => (
+              <div key={key} className={key === 'address' ? 'md:col-span-2' : undefined}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input
+                  type={type || 'text'}
+                  value={form[key]}
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required={key === 'name'}
+                />
+              </div>
+            ))}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={3}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              disabled={isLoading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+              disabled={isLoading}
+            >
+              {isLoading ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const Vendors: React.FC = () => {
+  const { currentUser } = useStore();
+  const canWrite = currentUser?.role === 'WRITE' || currentUser?.role === 'ADMIN';
+  const isAdmin = currentUser?.role === 'ADMIN';
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const queryClient = useQueryClient();
+
+  const { data: vendors = [], isLoading } = useQuery({
+    queryKey: ['vendors', { searchTerm, showInactive }],
+    queryFn: () => vendorsApi.getAll({ search: searchTerm || undefined, isActive: showInactive ? 'all' : 'true' }),
+  });
+
+  const { data: statsData } = useQuery({
+    queryKey: ['vendor-stats'],
+    queryFn: vendorsApi.getStats,
+  });
+
+  const statsByVendor = new Map<string, VendorStats>((statsData?.vendors || []).map((s) => [s.vendorId, s]));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['vendors'] });
+    queryClient.invalidateQueries({ queryKey: ['vendor-stats'] });
+  };
+  const onFormError = (error: any) => setFormError(error.response?.data?.error || 'Failed to save vendor');
+
+  const createMutation = useMutation({
+    mutationFn: vendorsApi.create,
+    onSuccess: () => {
+      invalidate();
+      setShowAddModal(false);
+    },
+    onError: onFormError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: any }) => vendorsApi.update(id, data),
+    onSuccess: () => {
+      invalidate();
+      setEditingVendor(null);
+    },
+    onError: onFormError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ targetId, sourceIds }: { targetId: string; sourceIds: string[] }) => vendorsApi.merge(targetId, sourceIds),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['assets'] });
+      setShowMergeModal(false);
+    },
+    onError: (error: any) => {
+      alert(error.response?.data?.error || 'Failed to merge vendors');
+    },
+  });
+
+  const totals = vendors.reduce(
+    (acc, v) => {
+      const stats = statsByVendor.get(v.id);
+      acc.spend += stats?.totalSpend || 0;
+      acc.expiringSoon += stats?.warranty.expiringSoon || 0;
+      acc.expired += stats?.warranty.expired || 0;
+      return acc;
+    },
+    { spend: 0, expiringSoon: 0, expired: 0 }
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <BuildingStorefrontIcon className="h-6 w-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Vendors</h1>
+            <p className="text-sm text-gray-600">
+              Manage suppliers, spend and warranty coverage
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          {isAdmin && (
+            <button
+              onClick={() => setShowMergeModal(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <ArrowsPointingInIcon className="h-4 w-4 mr-2" />
+              Merge Vendors
+            </button>
+          )}
+          {canWrite && (
+            <button
+              onClick={() => {
+                setFormError(null);
+                setShowAddModal(true);
+              }}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <PlusIcon className="h-4 w-4 mr-2" />
+              Add Vendor
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="relative md:col-span-3">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by name, contact or email..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">Show inactive</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <div className="text-sm font-medium text-gray-500">Vendors</div>
+          <div className="text-2xl font-bold text-gray-900">{vendors.length}</div>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <div className="text-sm font-medium text-gray-500">Total Spend</div>
+          <div className="text-2xl font-bold text-green-600">{formatCurrency(totals.spend)}</div>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <div className="text-sm font-medium text-gray-500">
+            Warranties Expiring ({statsData?.expiringWithinDays ?? 90} days)
+          </div>
+          <div className="text-2xl font-bold text-amber-600">{totals.expiringSoon}</div>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+          <div className="text-sm font-medium text-gray-500">Warranties Expired</div>
+          <div className="text-2xl font-bold text-red-600">{totals.expired}</div>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vendor</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assets</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Spend</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Warranty</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                    <div className="animate-spin h-6 w-6 border-2 border-blue-600 border-t-transparent rounded-full mx-auto mb-2"></div>
+                    Loading vendors...
+                  </td>
+                </tr>
+              ) : vendors.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                    No vendors found.
+                  </td>
+                </tr>
+              ) : (
+                vendors.map((vendor) => {
+                  const stats = statsByVendor.get(vendor.id);
+                  return (
+                    <tr key={vendor.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{vendor.name}</div>
+                        {vendor.website && <div className="text-xs text-gray-500">{vendor.website}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{vendor.contactName || '—'}</div>
+                        <div className="text-xs text-gray-500">{vendor.email || vendor.phone || ''}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{vendor._count?.assets || 0}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{formatCurrency(stats?.totalSpend || 0)}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {stats ? (
+                          <div className="flex items-center space-x-2 text-xs">
+                            <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800" title="Active">{stats.warranty.active}</span>
+                            <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800" title="Expiring soon">{stats.warranty.expiringSoon}</span>
+                            <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800" title="Expired">{stats.warranty.expired}</span>
+                            <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700" title="No warranty date">{stats.warranty.unknown}</span>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-400">—</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          vendor.isActive !== false ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {vendor.isActive !== false ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {canWrite && (
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              onClick={() => {
+                                setFormError(null);
+                                setEditingVendor(vendor);
+                              }}
+                              className="text-blue-600 hover:text-blue-900"
+                              title="Edit vendor"
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => updateMutation.mutate({ id: vendor.id, data: { isActive: vendor.isActive === false } })}
+                              className={vendor.isActive !== false ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}
+                              title={vendor.isActive !== false ? 'Deactivate' : 'Activate'}
+                            >
+                              {vendor.isActive !== false ? <EyeSlashIcon className="h-4 w-4" /> : <EyeIcon className="h-4 w-4" />}
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showAddModal && (
+        <VendorFormModal
+          onClose={() => setShowAddModal(false)}
+          onSave={(data) => createMutation.mutate(data)}
+          isLoading={createMutation.isPending}
+          error={formError}
+        />
+      )}
+
+      {editingVendor && (
+        <VendorFormModal
+          vendor={editingVendor}
+          onClose={() => setEditingVendor(null)}
+          onSave={(data) => updateMutation.mutate({ id: editingVendor.id, data })}
+          isLoading={updateMutation.isPending}
+          error={formError}
+        />
+      )}
+
+      {showMergeModal && (
+        <MergeRecordsModal
+          title="Merge Vendors"
+          description="Assets from the selected duplicates are moved to the target vendor and the duplicates are deactivated."
+          records={vendors.map((v) => ({ id: v.id, name: v.name, assetCount: v._count?.assets || 0 }))}
+          onClose={() => setShowMergeModal(false)}
+          onMerge={(targetId, sourceIds) => mergeMutation.mutate({ targetId, sourceIds })}
+          isLoading={mergeMutation.isPending}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Vendors;
@@ -46,7 +46,7 @@ const SOURCE_FIELDS = [
   { 
     value: 'status', 
     label: 'Status', 
-    description: 'AVAILABLE, ASSIGNED, SPARE, MAINTENANCE, RETIRED, DISPOSED',
+    description: 'AVAILABLE, ASSIGNED, SPARE, MAINTENANCE, RECOVER, RETIRED, DISPOSED',
     category: 'basic',
     examples: ['AVAILABLE', 'ASSIGNED', 'SPARE'],
     operators: ['=', '!=', 'includes']
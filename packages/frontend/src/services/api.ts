@@ -2,6 +2,12 @@ import axios from 'axios';
 import { PublicClientApplication } from '@azure/msal-browser';
 import { acquireTokenSafely, getIsAuthenticating } from '../auth/msal';
 import type { CustomField, Activity } from '@ats/shared';
+import type {
+  HeaderLayoutComparison,
+  ImportSourceDefinition,
+  MappingTemplateColumn,
+  MappingTemplateDefault,
+} from '@ats/shared-transformations';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || import.meta.env.VITE_API_URL || 'http://localhost:4000/api';
 
@@ -198,6 +204,17 @@ export interface Department {
   };
 }
 
+export interface DepartmentSummary {
+  departmentId: string;
+  name: string;
+  isActive: boolean;
+  assetCount: number;
+  byAssetType: Record<string, number>;
+  byStatus: Record<string, number>;
+  totalCost: number;
+  bookValue: number;
+}
+
 export interface Location {
   id: string;
   city: string;
@@ -219,11 +236,26 @@ export interface Vendor {
   email?: string;
   phone?: string;
   website?: string;
+  address?: string;
+  notes?: string;
+  isActive?: boolean;
   _count?: {
     assets: number;
   };
 }
 
+export interface VendorStats {
+  vendorId: string;
+  assetCount: number;
+  totalSpend: number;
+  warranty: {
+    expired: number;
+    expiringSoon: number;
+    active: number;
+    unknown: number;
+  };
+}
+
 export interface StaffMember {
   id: string;
   displayName: string;
@@ -263,6 +295,274 @@ export interface WorkloadCategoryRule {
   updatedAt: string;
 }
 
+export interface AssetAttachment {
+  id: string;
+  assetId: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  description?: string | null;
+  hasThumbnail: boolean;
+  uploadedBy: string;
+  uploadedByName?: string | null;
+  uploadedAt: string;
+}
+
+export interface AssetTicket {
+  id: string;
+  assetId: string;
+  ticketNumber: string;
+  ticketSystem: string;
+  title?: string | null;
+  description?: string | null;
+  status?: string | null;
+  priority?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AssetTicketInput = Partial<
+  Pick<AssetTicket, 'ticketNumber' | 'ticketSystem' | 'title' | 'description' | 'status' | 'priority'>
+>;
+
+export interface AssetCustodyRecord {
+  id: string;
+  assetId: string;
+  holderUserId?: string | null;
+  holderUser?: { id: string; displayName: string; email: string } | null;
+  holderAadId?: string | null;
+  holderName?: string | null;
+  checkedOutAt: string;
+  checkedInAt?: string | null;
+  conditionOut: string;
+  conditionIn?: string | null;
+  checkedOutBy: { id: string; displayName: string; email: string };
+  checkedInBy?: { id: string; displayName: string; email: string } | null;
+  checkOutNotes?: string | null;
+  checkInNotes?: string | null;
+  asset?: Pick<Asset, 'id' | 'assetTag' | 'assetType' | 'make' | 'model' | 'serialNumber' | 'status'>;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  assetId?: string | null;
+  asset?: { id: string; assetTag: string } | null;
+  userId: string;
+  user?: { id: string; displayName: string; email: string };
+  details?: string | null;
+  parsedChanges?: unknown;
+  createdAt: string;
+}
+
+export interface ReportTable {
+  key: string;
+  title: string;
+  columns: { key: string; label: string }[];
+  rows: Record<string, string | number>[];
+}
+
+export interface ReportMeta {
+  key: string;
+  title: string;
+  description: string;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  entity: string;
+  ownerId: string;
+  owner?: { id: string; displayName: string };
+  filters: Record<string, string>;
+  sortBy?: string | null;
+  sortOrder?: 'asc' | 'desc' | null;
+  columns?: Record<string, boolean> | null;
+  density?: 'compact' | 'comfortable' | null;
+  isShared: boolean;
+  isPinned: boolean;
+  isDefault: boolean;
+  isOwner: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SavedViewInput = Partial<
+  Pick<SavedView, 'name' | 'entity' | 'filters' | 'sortBy' | 'sortOrder' | 'columns' | 'density' | 'isShared' | 'isPinned' | 'isDefault'>
+>;
+
+export interface ReportScheduleRun {
+  id: string;
+  scheduleId: string;
+  schedule?: { id: string; name: string };
+  trigger: 'SCHEDULED' | 'MANUAL';
+  status: 'RUNNING' | 'SUCCESS' | 'FAILED';
+  rowCount?: number | null;
+  error?: string | null;
+  startedAt: string;
+  finishedAt?: string | null;
+}
+
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  cronExpression: string;
+  timezone?: string | null;
+  sourceType: 'REPORT' | 'SAVED_VIEW';
+  reportKey?: string | null;
+  reportParams: Record<string, string>;
+  savedViewId?: string | null;
+  savedView?: { id: string; name: string } | null;
+  deliveryType: 'EMAIL' | 'WEBHOOK';
+  recipients?: string | null;
+  webhookUrl?: string | null;
+  isActive: boolean;
+  lastRunAt?: string | null;
+  lastStatus?: 'SUCCESS' | 'FAILED' | null;
+  nextRunAt?: string | null;
+  createdBy?: { id: string; displayName: string };
+  lastRun: ReportScheduleRun | null;
+}
+
+export type ReportScheduleInput = Partial<
+  Pick<
+    ReportSchedule,
+    | 'name'
+    | 'cronExpression'
+    | 'timezone'
+    | 'sourceType'
+    | 'reportKey'
+    | 'reportParams'
+    | 'savedViewId'
+    | 'deliveryType'
+    | 'recipients'
+    | 'webhookUrl'
+    | 'isActive'
+  >
+>;
+
+export type LifecyclePolicyKind = 'REFRESH_AGE' | 'WARRANTY_EXPIRY' | 'CONTRACT_END';
+export type AlertSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
+
+export interface LifecyclePolicy {
+  id: string;
+  name: string;
+  kind: LifecyclePolicyKind;
+  assetType: string | null;
+  refreshAgeMonths: number | null;
+  leadTimeDays: number | null;
+  severity: AlertSeverity;
+  isActive: boolean;
+  openAlerts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LifecyclePolicyInput = Partial<
+  Pick<LifecyclePolicy, 'name' | 'kind' | 'assetType' | 'refreshAgeMonths' | 'leadTimeDays' | 'severity' | 'isActive'>
+>;
+
+export interface ImportSourceRecord extends ImportSourceDefinition {
+  id: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ImportSourceInput = ImportSourceDefinition & { isActive?: boolean };
+
+export interface ImportProcessorInfo {
+  name: string;
+  label: string;
+  description: string;
+}
+
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  ownerId: string;
+  sourceKey: string;
+  category: string;
+  version: number;
+  headerFingerprint: string;
+  headers: string[];
+  columns: MappingTemplateColumn[];
+  defaults: MappingTemplateDefault[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MappingTemplateInput = Pick<MappingTemplate, 'name' | 'sourceKey' | 'category' | 'headers' | 'columns' | 'defaults'>;
+
+export interface MappingTemplateSuggestion {
+  template: MappingTemplate;
+  layout: HeaderLayoutComparison;
+}
+
+export interface LifecycleAlert {
+  id: string;
+  policyId: string;
+  assetId: string;
+  kind: LifecyclePolicyKind;
+  severity: AlertSeverity;
+  message: string;
+  dueDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+  acknowledgedAt?: string | null;
+  policy?: { id: string; name: string };
+  asset?: { id: string; assetTag: string; assetType: string; make: string; model: string };
+}
+
+export interface LifecycleEvaluationSummary {
+  policies: number;
+  created: number;
+  reopened: number;
+  resolved: number;
+}
+
+export interface LeaverReportEntry {
+  aadId: string;
+  displayName: string | null;
+  mail: string | null;
+  status: 'DISABLED' | 'DELETED' | 'MOVED';
+  department: string | null;
+  officeLocation: string | null;
+  previousDepartment: string | null;
+  previousOfficeLocation: string | null;
+  statusChangedAt: string;
+  assets: Array<{ id: string; assetTag: string; assetType: string; make: string; model: string; serialNumber: string | null; status: string }>;
+}
+
+export interface LeaverReport {
+  lastCheckedAt: string | null;
+  entries: LeaverReportEntry[];
+}
+
+export interface LeaverCheckSummary {
+  checked: number;
+  leavers: number;
+  movers: number;
+  returned: number;
+}
+
+export interface StaffDirectoryStatus {
+  provider: 'graph' | 'csv';
+  lastSyncedAt: string | null;
+  lastFullSyncAt: string | null;
+  lastError: string | null;
+  entries: number;
+  removed: number;
+}
+
+export interface StaffDirectoryFacets {
+  departments: string[];
+  offices: string[];
+}
+
 export interface AssetFieldMeta {
   key: string;
   label: string;
@@ -304,6 +604,9 @@ export const departmentsApi = {
   getAll: (params?: any) => api.get<Department[]>('/departments', { params }).then(res => res.data),
   create: (data: any) => api.post<Department>('/departments', data).then(res => res.data),
   update: (id: string, data: any) => api.put<Department>(`/departments/${id}`, data).then(res => res.data),
+  getSummary: () => api.get<DepartmentSummary[]>('/departments/summary').then(res => res.data),
+  merge: (targetId: string, sourceIds: string[]) =>
+    api.post<{ targetId: string; mergedDepartmentIds: string[]; assetsReassigned: number }>('/departments/merge', { targetId, sourceIds }).then(res => res.data),
 };
 
 export const locationsApi = {
@@ -322,6 +625,9 @@ export const vendorsApi = {
   getById: (id: string) => api.get<Vendor>(`/vendors/${id}`).then(res => res.data),
   create: (data: any) => api.post<Vendor>('/vendors', data).then(res => res.data),
   update: (id: string, data: any) => api.put<Vendor>(`/vendors/${id}`, data).then(res => res.data),
+  getStats: () => api.get<{ expiringWithinDays: number; vendors: VendorStats[] }>('/vendors/stats').then(res => res.data),
+  merge: (targetId: string, sourceIds: string[]) =>
+    api.post<{ targetId: string; mergedVendorIds: string[]; assetsReassigned: number }>('/vendors/merge', { targetId, sourceIds }).then(res => res.data),
 };
 
 export const customFieldsApi = {
@@ -334,6 +640,44 @@ export const customFieldsApi = {
 export const activitiesApi = {
   getByEntity: (entityType: string, entityId: string) => 
     api.get<Activity[]>(`/activities/${entityType}/${entityId}`).then(res => res.data),
+  getAll: (params?: any) => api.get<PaginatedResponse<AuditLogEntry>>('/activities', { params }).then(res => res.data),
+  getFilters: () =>
+    api.get<{ actions: string[]; entityTypes: string[]; users: { id: string; displayName: string; email: string }[] }>('/activities/filters').then(res => res.data),
+};
+
+export const custodyApi = {
+  getByAsset: (assetId: string) => api.get<AssetCustodyRecord[]>(`/custody/asset/${assetId}`).then(res => res.data),
+  getByStaff: (aadId: string) => api.get<AssetCustodyRecord[]>(`/custody/staff/${aadId}`).then(res => res.data),
+  checkOut: (assetId: string, data: { assignedToAadId?: string; assignedToId?: string; condition?: string; notes?: string }) =>
+    api.post<AssetCustodyRecord>(`/custody/asset/${assetId}/check-out`, data).then(res => res.data),
+  checkIn: (assetId: string, data: { condition?: string; notes?: string }) =>
+    api.post<AssetCustodyRecord>(`/custody/asset/${assetId}/check-in`, data).then(res => res.data),
+};
+
+export const attachmentsApi = {
+  getByAsset: (assetId: string) => api.get<AssetAttachment[]>(`/attachments/asset/${assetId}`).then(res => res.data),
+  upload: (assetId: string, files: File[], description?: string) => {
+    const form = new FormData();
+    files.forEach((file) => form.append('files', file));
+    if (description) form.append('description', description);
+    // Override the JSON default so axios sends the form as-is and the browser sets the boundary
+    return api
+      .post<AssetAttachment[]>(`/attachments/asset/${assetId}`, form, { headers: { 'Content-Type': 'multipart/form-data' } })
+      .then(res => res.data);
+  },
+  download: (id: string) =>
+    api.get(`/attachments/${id}/download`, { responseType: 'blob' }).then(res => res.data as Blob),
+  getThumbnail: (id: string) =>
+    api.get(`/attachments/${id}/thumbnail`, { responseType: 'blob' }).then(res => res.data as Blob),
+  delete: (id: string) => api.delete(`/attachments/${id}`),
+};
+
+export const ticketsApi = {
+  getByAsset: (assetId: string) => api.get<AssetTicket[]>(`/tickets/asset/${assetId}`).then(res => res.data),
+  create: (assetId: string, data: AssetTicketInput) =>
+    api.post<AssetTicket>(`/tickets/asset/${assetId}`, data).then(res => res.data),
+  update: (id: string, data: AssetTicketInput) => api.put<AssetTicket>(`/tickets/${id}`, data).then(res => res.data),
+  delete: (id: string) => api.delete(`/tickets/${id}`),
 };
 
 export const staffApi = {
@@ -344,6 +688,15 @@ export const staffApi = {
   getProfilePhoto: (aadId: string) => api.get(`/staff/${aadId}/photo`, { responseType: 'blob' }).then(res => res.data),
   getProfilePhotoMetadata: (aadId: string) => api.get(`/staff/${aadId}/photo/metadata`).then(res => res.data),
   clearPhotoCache: () => api.post('/staff/clear-photo-cache').then(res => res.data),
+  getLeavers: () => api.get<LeaverReport>('/staff/leavers').then(res => res.data),
+  checkLeavers: () => api.post<LeaverCheckSummary>('/staff/leavers/check').then(res => res.data),
+  recoverLeaverAssets: (target: { aadIds?: string[]; assetIds?: string[] }) =>
+    api.post<{ recovered: number; assetTags: string[] }>('/staff/leavers/recover', target).then(res => res.data),
+  markMoveReviewed: (aadId: string) => api.post(`/staff/leavers/${aadId}/reviewed`).then(res => res.data),
+  getDirectoryStatus: () => api.get<StaffDirectoryStatus>('/staff/directory/status').then(res => res.data),
+  getDirectoryFacets: () => api.get<StaffDirectoryFacets>('/staff/directory/facets').then(res => res.data),
+  syncDirectory: (full = false) =>
+    api.post<{ full: boolean; upserted: number; removed: number }>('/staff/directory/sync', { full }).then(res => res.data),
 };
 
 export const categoriesApi = {
@@ -364,6 +717,73 @@ export const workloadRulesApi = {
     api.get<{ fields: string[]; operators: string[] }>('/workload-categories/rules/fields').then(res => res.data),
 };
 
+export const reportsApi = {
+  list: () => api.get<ReportMeta[]>('/reports').then(res => res.data),
+  run: (key: string, params?: Record<string, string | undefined>) =>
+    api.get<ReportTable>(`/reports/${key}`, { params }).then(res => res.data),
+  export: (key: string, format: 'csv' | 'excel', params?: Record<string, string | undefined>) =>
+    api.get(`/reports/${key}`, { params: { ...params, format }, responseType: 'blob' }).then(res => res.data as Blob),
+};
+
+export const savedViewsApi = {
+  getAll: (entity = 'assets') => api.get<SavedView[]>('/saved-views', { params: { entity } }).then(res => res.data),
+  getById: (id: string) => api.get<SavedView>(`/saved-views/${id}`).then(res => res.data),
+  create: (data: SavedViewInput) => api.post<SavedView>('/saved-views', data).then(res => res.data),
+  update: (id: string, data: SavedViewInput) => api.put<SavedView>(`/saved-views/${id}`, data).then(res => res.data),
+  delete: (id: string) => api.delete(`/saved-views/${id}`),
+};
+
+export const reportSchedulesApi = {
+  getAll: () => api.get<ReportSchedule[]>('/report-schedules').then(res => res.data),
+  getRuns: (id: string, limit?: number) =>
+    api.get<ReportScheduleRun[]>(`/report-schedules/${id}/runs`, { params: { limit } }).then(res => res.data),
+  getRecentRuns: (params?: { status?: string; limit?: number }) =>
+    api.get<ReportScheduleRun[]>('/report-schedules/runs', { params }).then(res => res.data),
+  create: (data: ReportScheduleInput) => api.post<ReportSchedule>('/report-schedules', data).then(res => res.data),
+  update: (id: string, data: ReportScheduleInput) =>
+    api.put<ReportSchedule>(`/report-schedules/${id}`, data).then(res => res.data),
+  delete: (id: string) => api.delete(`/report-schedules/${id}`),
+  runNow: (id: string) => api.post<ReportScheduleRun>(`/report-schedules/${id}/run`).then(res => res.data),
+};
+
+export const lifecycleApi = {
+  getPolicies: () => api.get<LifecyclePolicy[]>('/lifecycle/policies').then(res => res.data),
+  createPolicy: (data: LifecyclePolicyInput) =>
+    api.post<LifecyclePolicy>('/lifecycle/policies', data).then(res => res.data),
+  updatePolicy: (id: string, data: LifecyclePolicyInput) =>
+    api.put<LifecyclePolicy>(`/lifecycle/policies/${id}`, data).then(res => res.data),
+  deletePolicy: (id: string) => api.delete(`/lifecycle/policies/${id}`),
+  evaluate: () => api.post<LifecycleEvaluationSummary>('/lifecycle/evaluate').then(res => res.data),
+  getAlerts: (params?: { status?: 'unacknowledged' | 'all'; limit?: number }) =>
+    api.get<LifecycleAlert[]>('/lifecycle/alerts', { params }).then(res => res.data),
+  getAlertCount: () => api.get<{ unacknowledged: number }>('/lifecycle/alerts/count').then(res => res.data),
+  acknowledge: (id: string) => api.post(`/lifecycle/alerts/${id}/acknowledge`),
+  acknowledgeAll: () => api.post<{ acknowledged: number }>('/lifecycle/alerts/acknowledge-all').then(res => res.data),
+};
+
+export const importSourcesApi = {
+  getAll: (params?: { includeInactive?: boolean }) =>
+    api.get<ImportSourceRecord[]>('/import-sources', { params }).then(res => res.data),
+  getProcessors: () => api.get<ImportProcessorInfo[]>('/import-sources/processors').then(res => res.data),
+  create: (data: ImportSourceInput) => api.post<ImportSourceRecord>('/import-sources', data).then(res => res.data),
+  update: (id: string, data: Partial<ImportSourceInput>) =>
+    api.put<ImportSourceRecord>(`/import-sources/${id}`, data).then(res => res.data),
+  delete: (id: string) => api.delete(`/import-sources/${id}`),
+};
+
+export const mappingTemplatesApi = {
+  getAll: (sourceKey?: string) =>
+    api.get<MappingTemplate[]>('/mapping-templates', { params: { sourceKey } }).then(res => res.data),
+  suggest: (headers: string[], sourceKey?: string) =>
+    api
+      .post<{ fingerprint: string; suggestions: MappingTemplateSuggestion[] }>('/mapping-templates/suggest', { headers, sourceKey })
+      .then(res => res.data),
+  create: (data: MappingTemplateInput) => api.post<MappingTemplate>('/mapping-templates', data).then(res => res.data),
+  update: (id: string, data: Partial<MappingTemplateInput>) =>
+    api.put<MappingTemplate>(`/mapping-templates/${id}`, data).then(res => res.data),
+  delete: (id: string) => api.delete(`/mapping-templates/${id}`),
+};
+
 export const assetFieldsApi = {
   getAll: () => api.get<AssetFieldMeta[]>('/assets/fields').then(res => res.data),
 }; 
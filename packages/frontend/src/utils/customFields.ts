@@ -0,0 +1,47 @@
+import type { CustomField } from '@ats/shared';
+
+export interface CustomFieldGroup {
+  name: string | null;
+  fields: CustomField[];
+}
+
+/**
+ * Whether a custom field is shown for an asset type. Fields without asset types apply to all.
+ */
+export function appliesToAssetType(field: CustomField, assetType?: string): boolean {
+  return !field.assetTypes || field.assetTypes.length === 0 || !assetType || field.assetTypes.includes(assetType);
+}
+
+/**
+ * Split fields (already in display order from the API) under their group headings.
+ * Ungrouped fields come first; groups follow in the order their first field appears.
+ */
+export function groupCustomFields(fields: CustomField[]): CustomFieldGroup[] {
+  const groups: CustomFieldGroup[] = [{ name: null, fields: [] }];
+  for (const field of fields) {
+    const name = field.groupName || null;
+    let group = groups.find((g) => g.name === name);
+    if (!group) {
+      group = { name, fields: [] };
+      groups.push(group);
+    }
+    group.fields.push(field);
+  }
+  return groups.filter((g) => g.fields.length > 0);
+}
+
+/**
+ * Short description of a field's validation rules, for hints under inputs.
+ */
+export function describeCustomFieldRules(field: CustomField): string {
+  const rules: string[] = [];
+  if (field.minLength != null && field.maxLength != null) rules.push(`${field.minLength}–${field.maxLength} characters`);
+  else if (field.minLength != null) rules.push(`at least ${field.minLength} characters`);
+  else if (field.maxLength != null) rules.push(`up to ${field.maxLength} characters`);
+  if (field.minValue != null && field.maxValue != null) rules.push(`${field.minValue}–${field.maxValue}`);
+  else if (field.minValue != null) rules.push(`≥ ${field.minValue}`);
+  else if (field.maxValue != null) rules.push(`≤ ${field.maxValue}`);
+  if (field.pattern) rules.push('must match the required format');
+  if (field.isUnique) rules.push('unique');
+  return rules.join(' · ');
+}
@@ -1,6 +1,10 @@
-import { FileSpreadsheet, FileText, Zap, Shield, Cloud, Building2 } from 'lucide-react';
+import { FileSpreadsheet, FileText, Zap, Shield, Cloud, Building2, Settings2 } from 'lucide-react';
 import { ColumnMapping } from './ninjaMapping';
-import { getImportMappings } from '@ats/shared-transformations';
+import {
+  getImportMappings,
+  setImportSourceDefinitions,
+  type ImportSourceDefinition,
+} from '@ats/shared-transformations';
 
 export type UploadCategory = 'endpoints' | 'servers' | 'phones';
 export type UploadSource =
@@ -13,7 +17,8 @@ export type UploadSource =
   | 'rogers'
   | 'bell'
   | 'verizon'
-  | 'excetel';
+  | 'excetel'
+  | (string & {}); // admin-defined sources (ImportSourceDefinition keys)
 
 export interface ImportSourceConfig {
   id: UploadSource;
@@ -31,6 +36,8 @@ export interface ImportSourceConfig {
   requiredOverrides?: string[];
   // NEW: name of filter to apply (key in IMPORT_FILTERS) – null or undefined = no filter
   filterKey?: string | null;
+  // Offer saved per-user mapping templates, processors and default values in the mapper
+  mappingTemplates?: boolean;
   // New extensibility properties
   category: UploadCategory;
   getMappings?: () => ColumnMapping[] | Promise<ColumnMapping[]>;
@@ -294,86 +301,9 @@ const OLD_TELUS_MAPPINGS = [
     },
 ];
 
-// Future Intune mappings (placeholder)
+// Intune mappings (from shared transformation modules)
 export const getIntuneMappings = (): ColumnMapping[] => {
-  return [
-    {
-      ninjaColumn: 'Device name',
-      targetField: 'assetTag',
-      targetType: 'direct',
-      description: 'Device Name as Asset Tag',
-      required: true
-    },
-    {
-      ninjaColumn: 'Device type',
-      targetField: 'assetType',
-      targetType: 'direct',
-      processor: (value: string) => {
-        const typeMap: Record<string, string> = {
-          'desktop': 'DESKTOP',
-          'laptop': 'LAPTOP',
-          'tablet': 'TABLET',
-          'phone': 'PHONE'
-        };
-        return typeMap[value.toLowerCase()] || 'OTHER';
-      },
-      description: 'Asset Type from Intune',
-      required: true
-    },
-    {
-      ninjaColumn: 'Manufacturer',
-      targetField: 'make',
-      targetType: 'direct',
-      description: 'Manufacturer',
-      required: true
-    },
-    {
-      ninjaColumn: 'Model',
-      targetField: 'model',
-      targetType: 'direct',
-      description: 'Model',
-      required: true
-    },
-    {
-      ninjaColumn: 'Serial number',
-      targetField: 'serialNumber',
-      targetType: 'direct',
-      description: 'Serial Number'
-    },
-    {
-      ninjaColumn: 'Primary user UPN',
-      targetField: 'assignedToAadId',
-      targetType: 'direct',
-      processor: (value: string) => {
-        // Extract username from UPN for Intune
-        return value ? value.split('@')[0] : null;
-      },
-      description: 'Primary User from Intune'
-    },
-    {
-      ninjaColumn: 'OS',
-      targetField: 'operatingSystem',
-      targetType: 'direct',
-      description: 'Operating System'
-    },
-    {
-      ninjaColumn: 'OS version',
-      targetField: 'osVersion',
-      targetType: 'specifications',
-      description: 'OS Version'
-    },
-    {
-      ninjaColumn: 'Last check-in',
-      targetField: 'lastCheckIn',
-      targetType: 'specifications',
-      processor: (value: string) => {
-        if (!value) return null;
-        const date = new Date(value);
-        return isNaN(date.getTime()) ? null : date.toISOString();
-      },
-      description: 'Last Check-in Date'
-    }
-  ];
+  return getImportMappings('intune');
 };
 
 // Import source registry
@@ -413,16 +343,16 @@ export const IMPORT_SOURCES: Record<UploadCategory, ImportSourceConfig[]> = {
       iconColor: 'text-blue-600 dark:text-blue-400',
       iconBg: 'bg-blue-100 dark:bg-blue-900/30',
       acceptedFormats: ['CSV', 'XLSX'],
-      sampleFile: '/samples/intune-export.csv',
-      enabled: false,
-      comingSoon: true,
+      sampleFile: null,
+      enabled: true,
       category: 'endpoints',
       features: [
         'Device compliance status',
         'Azure AD integration',
         'Mobile device management',
-        'App deployment status'
+        'Last check-in tracking'
       ],
+      requiredOverrides: ['make', 'assetType'], // Asset type is derived from the OS and model, make defaults to Unknown
       getMappings: () => getIntuneMappings(),
       customProcessing: {
         userResolution: true,
@@ -465,16 +395,16 @@ export const IMPORT_SOURCES: Record<UploadCategory, ImportSourceConfig[]> = {
       iconBg: 'bg-orange-100 dark:bg-orange-900/30',
       acceptedFormats: ['CSV', 'XLSX'],
       sampleFile: null,
-      enabled: false,
-      comingSoon: true,
+      enabled: true,
       category: 'endpoints',
       features: [
         'Custom column mapping',
-        'Flexible data formats',
+        'Saved mapping templates',
         'Data validation',
         'Preview before import'
       ],
       getMappings: () => [], // Dynamic mapping in UI
+      mappingTemplates: true,
       customProcessing: {
         userResolution: false,
         locationResolution: false,
@@ -611,11 +541,16 @@ export const IMPORT_SOURCES: Record<UploadCategory, ImportSourceConfig[]> = {
       iconBg: 'bg-sky-100 dark:bg-sky-900/30',
       acceptedFormats: ['CSV', 'XLSX'],
       sampleFile: null,
-      enabled: false,
-      comingSoon: true,
+      enabled: true,
       category: 'phones',
-      features: [],
-      getMappings: () => [],
+      features: ['User assignments', 'Device details', 'Plan information', 'Contract tracking', 'Device balance'],
+      getMappings: () => getImportMappings('bell'),
+      requiredOverrides: ['assetTag', 'make', 'assetType'], // Phones don't need BGC asset tags, explicit make, or assetType (all auto-set in backend)
+      customProcessing: {
+        userResolution: true,
+        locationResolution: false,
+        conflictDetection: true,
+      },
     },
     {
       id: 'verizon',
@@ -626,11 +561,16 @@ export const IMPORT_SOURCES: Record<UploadCategory, ImportSourceConfig[]> = {
       iconBg: 'bg-rose-100 dark:bg-rose-900/30',
       acceptedFormats: ['CSV', 'XLSX'],
       sampleFile: null,
-      enabled: false,
-      comingSoon: true,
+      enabled: true,
       category: 'phones',
-      features: [],
-      getMappings: () => [],
+      features: ['User assignments', 'Device details', 'Plan information', 'Upgrade eligibility', 'Cost centers'],
+      getMappings: () => getImportMappings('verizon'),
+      requiredOverrides: ['assetTag', 'make', 'assetType'], // Phones don't need BGC asset tags, explicit make, or assetType (all auto-set in backend)
+      customProcessing: {
+        userResolution: true,
+        locationResolution: false,
+        conflictDetection: true,
+      },
     },
     {
       id: 'excetel',
@@ -641,22 +581,78 @@ export const IMPORT_SOURCES: Record<UploadCategory, ImportSourceConfig[]> = {
       iconBg: 'bg-indigo-100 dark:bg-indigo-900/30',
       acceptedFormats: ['CSV', 'XLSX'],
       sampleFile: null,
-      enabled: false,
-      comingSoon: true,
+      enabled: true,
       category: 'phones',
-      features: [],
-      getMappings: () => [],
+      features: ['User assignments', 'Device details', 'Plan information', 'Contract tracking'],
+      getMappings: () => getImportMappings('excetel'),
+      requiredOverrides: ['assetTag', 'make', 'assetType'], // Phones don't need BGC asset tags, explicit make, or assetType (all auto-set in backend)
+      customProcessing: {
+        userResolution: true,
+        locationResolution: false,
+        conflictDetection: true,
+      },
     },
   ]
 };
 
+// Card for an admin-defined source; mappings and transforms come from the shared registry
+export const definitionToSourceConfig = (definition: ImportSourceDefinition): ImportSourceConfig => ({
+  id: definition.key,
+  title: definition.name,
+  description: definition.description || `Import from ${definition.name}`,
+  icon: Settings2,
+  iconColor: 'text-teal-600 dark:text-teal-400',
+  iconBg: 'bg-teal-100 dark:bg-teal-900/30',
+  acceptedFormats: ['CSV', 'XLSX'],
+  sampleFile: null,
+  enabled: true,
+  category: definition.category,
+  features: [
+    `${definition.fields.length} mapped field${definition.fields.length === 1 ? '' : 's'}`,
+    ...(definition.presenceTracking ? ['Presence tracking'] : []),
+  ],
+  getMappings: () => getImportMappings(definition.key),
+  // Admin-defined sources set assetType/make through defaults, and rarely carry asset tags
+  requiredOverrides: ['assetTag', 'make', 'assetType'],
+  customProcessing: {
+    userResolution: definition.fields.some((f) => f.targetField === 'assignedToAadId'),
+    locationResolution: definition.fields.some((f) => f.targetField === 'locationId'),
+    conflictDetection: true,
+  },
+});
+
+let definedSources: ImportSourceConfig[] = [];
+
+/**
+ * Register admin-defined sources with the shared registry (used by preview and transforms)
+ * and with the wizard. A definition replaces the placeholder card with the same id.
+ */
+export const applyImportSourceDefinitions = (definitions: ImportSourceDefinition[]) => {
+  setImportSourceDefinitions(definitions);
+  definedSources = definitions.map(definitionToSourceConfig);
+};
+
+// Built-in sources merged with the admin-defined ones
+export const getImportSources = (): Record<UploadCategory, ImportSourceConfig[]> => {
+  const merged = {} as Record<UploadCategory, ImportSourceConfig[]>;
+  (Object.keys(IMPORT_SOURCES) as UploadCategory[]).forEach((category) => {
+    const defined = definedSources.filter((source) => source.category === category);
+    const builtIn = IMPORT_SOURCES[category].map(
+      (source) => defined.find((d) => d.id === source.id) ?? source
+    );
+    const extra = defined.filter((d) => !IMPORT_SOURCES[category].some((source) => source.id === d.id));
+    merged[category] = [...builtIn, ...extra];
+  });
+  return merged;
+};
+
 // Helper functions for the import system
 export const getImportSource = (category: UploadCategory, sourceId: UploadSource): ImportSourceConfig | undefined => {
-  return IMPORT_SOURCES[category]?.find(source => source.id === sourceId);
+  return getImportSources()[category]?.find(source => source.id === sourceId);
 };
 
 export const getAvailableSources = (category: UploadCategory): ImportSourceConfig[] => {
-  return IMPORT_SOURCES[category] || [];
+  return getImportSources()[category] || [];
 };
 
 export const getEnabledSources = (category: UploadCategory): ImportSourceConfig[] => {
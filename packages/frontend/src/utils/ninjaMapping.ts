@@ -5,6 +5,10 @@ export interface ColumnMapping {
   targetField: string;
   targetType: 'direct' | 'specifications' | 'custom' | 'ignore';
   processor?: (value: string) => any;
+  // Named processor (IMPORT_PROCESSORS) chosen in a mapping template; sent to the backend
+  processorName?: string;
+  // Used when the cell is empty; an empty ninjaColumn makes the mapping a constant
+  defaultValue?: string;
   description: string;
   required?: boolean;
 }
@@ -0,0 +1,174 @@
+/**
+ * Bell Phone Import Transformation Module
+ *
+ * Contains all transformation logic specific to Bell Mobility phone imports.
+ * This module handles the complete transformation pipeline for the Bell business
+ * subscriber/device billing export.
+ */
+
+import {
+  parseDeviceName,
+  applyColumnMappings,
+  type ColumnMapping,
+  type TransformationResult
+} from '../importTransformations';
+import {
+  finalizeCarrierPhoneResult,
+  cleanCarrierPhoneNumber,
+  parseCarrierDate,
+  parseCarrierAmount
+} from './carrierPhoneUtils';
+
+// ============================================================================
+// BELL PHONE COLUMN MAPPINGS
+// ============================================================================
+
+export const BELL_PHONE_MAPPINGS: ColumnMapping[] = [
+  {
+    ninjaColumn: 'User Name',
+    targetField: 'assignedToAadId',
+    targetType: 'direct',
+    description: 'Subscriber name (attempt Azure AD resolution)',
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'Mobile Number',
+    targetField: 'phoneNumber',
+    targetType: 'specifications',
+    description: 'Phone number',
+    processor: (value: string) => cleanCarrierPhoneNumber(value, '1', 10),
+  },
+  {
+    ninjaColumn: 'Rate Plan',
+    targetField: 'planType',
+    targetType: 'specifications',
+    description: 'Plan type',
+  },
+  {
+    ninjaColumn: 'Rate Plan Price',
+    targetField: 'monthlyCost',
+    targetType: 'specifications',
+    description: 'Monthly plan cost',
+    processor: (value: string) => parseCarrierAmount(value),
+  },
+  {
+    ninjaColumn: 'Device Model',
+    targetField: 'model',
+    targetType: 'direct',
+    description: 'Device model (make will be auto-extracted)',
+    processor: (value: string) => parseDeviceName(value).model,
+    required: true,
+  },
+  {
+    ninjaColumn: 'Device Model',
+    targetField: 'make',
+    targetType: 'direct',
+    description: 'Device manufacturer (auto-extracted from device model)',
+    processor: (value: string) => parseDeviceName(value).make,
+  },
+  {
+    ninjaColumn: 'Device Model',
+    targetField: 'storage',
+    targetType: 'specifications',
+    description: 'Storage capacity extracted from device model',
+    processor: (value: string) => parseDeviceName(value).storage,
+  },
+  {
+    ninjaColumn: 'IMEI',
+    targetField: 'imei',
+    targetType: 'specifications',
+    description: 'IMEI number',
+    required: true,
+  },
+  {
+    ninjaColumn: 'IMEI',
+    targetField: 'serialNumber',
+    targetType: 'direct',
+    description: 'IMEI as serial number (fallback)',
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'SIM Number',
+    targetField: 'simCard',
+    targetType: 'specifications',
+    description: 'SIM card number',
+  },
+  {
+    ninjaColumn: 'Contract Start Date',
+    targetField: 'contractStartDate',
+    targetType: 'specifications',
+    description: 'Contract start date',
+    processor: (value: string) => parseCarrierDate(value),
+  },
+  {
+    ninjaColumn: 'Contract End Date',
+    targetField: 'contractEndDate',
+    targetType: 'specifications',
+    description: 'Contract end date',
+    processor: (value: string) => parseCarrierDate(value),
+  },
+  {
+    ninjaColumn: 'Device Balance',
+    targetField: 'deviceBalance',
+    targetType: 'specifications',
+    description: 'Remaining device balance owed to Bell',
+    processor: (value: string) => parseCarrierAmount(value),
+  },
+  // Use Account Number column as a trigger to set assetType → PHONE
+  {
+    ninjaColumn: 'Account Number',
+    targetField: 'assetType',
+    targetType: 'direct',
+    required: true,
+    description: 'Set assetType to PHONE',
+    processor: () => 'PHONE',
+  },
+  // Ignore columns not needed
+  {
+    ninjaColumn: 'Subscriber Status',
+    targetField: '',
+    targetType: 'ignore',
+    description: 'Subscriber status (ignored)',
+  },
+];
+
+// ============================================================================
+// BELL PHONE TRANSFORMATION ENGINE
+// ============================================================================
+
+/**
+ * Transform a single row of Bell phone data
+ */
+export function transformBellPhoneRow(row: Record<string, string>): TransformationResult {
+  const result = applyColumnMappings(row, BELL_PHONE_MAPPINGS);
+
+  return finalizeCarrierPhoneResult(result, {
+    source: 'BELL',
+    carrier: 'Bell',
+    deviceDescription: row['Device Model'],
+  });
+}
+
+/**
+ * Get column mapping for a specific Bell column
+ */
+export function getBellMapping(columnName: string): ColumnMapping | undefined {
+  return BELL_PHONE_MAPPINGS.find(mapping => mapping.ninjaColumn === columnName);
+}
+
+/**
+ * Validate required fields for Bell phone import
+ */
+export function validateBellPhoneData(data: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  if (!data.model || data.model.trim() === '') {
+    errors.push('Device model is required');
+  }
+
+  if (!data.imei || data.imei.trim() === '') {
+    errors.push('IMEI is required');
+  }
+
+  return errors;
+}
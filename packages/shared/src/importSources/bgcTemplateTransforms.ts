@@ -149,6 +149,8 @@ export const BGC_TEMPLATE_MAPPINGS: ColumnMapping[] = [
         'spare': 'SPARE',
         'maintenance': 'MAINTENANCE',
         'repair': 'MAINTENANCE',
+        'recover': 'RECOVER',
+        'to recover': 'RECOVER',
         'retired': 'RETIRED',
         'disposed': 'DISPOSED',
       };
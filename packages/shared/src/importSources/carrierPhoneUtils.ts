@@ -0,0 +1,155 @@
+/**
+ * Carrier Phone Import Utilities
+ *
+ * Post-processing shared by the carrier billing/device export transformers
+ * (Bell, Verizon, Excetel). Each carrier module maps its own columns and then
+ * hands the result here to apply the common phone asset rules.
+ */
+
+import {
+  toISO,
+  handleIMEIFallback,
+  cleanPhoneNumber,
+  type TransformationResult
+} from '../importTransformations';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CarrierPhoneOptions {
+  // Canonical source label stored on the asset (e.g. 'BELL')
+  source: string;
+  // Carrier name stored in specifications.carrier (e.g. 'Bell')
+  carrier: string;
+  // Raw device description, kept for phone field display
+  deviceDescription?: string;
+}
+
+// ============================================================================
+// POST-PROCESSING
+// ============================================================================
+
+/**
+ * Apply the phone asset rules every carrier import shares:
+ * asset type, source and carrier, asset tag, IMEI fallback, status and lookup notes
+ */
+export function finalizeCarrierPhoneResult(
+  result: TransformationResult,
+  options: CarrierPhoneOptions
+): TransformationResult {
+  result.directFields.assetType = 'PHONE';
+  result.directFields.condition = result.directFields.condition || 'GOOD';
+  result.directFields.source = options.source;
+  result.specifications.carrier = result.specifications.carrier || options.carrier;
+
+  result.directFields.assetTag = generateCarrierPhoneAssetTag(result.directFields.assignedToAadId);
+
+  // Carriers report the IMEI only; it doubles as the serial number
+  const imeiResult = handleIMEIFallback(
+    result.directFields.serialNumber,
+    result.specifications.imei as string
+  );
+  if (imeiResult.serialNumber) {
+    result.directFields.serialNumber = imeiResult.serialNumber;
+  }
+  if (imeiResult.imei) {
+    result.specifications.imei = imeiResult.imei;
+  }
+
+  result.directFields.status = result.directFields.assignedToAadId ? 'ASSIGNED' : 'AVAILABLE';
+
+  if (options.deviceDescription) {
+    result.specifications.operatingSystem = options.deviceDescription;
+  }
+
+  if (result.directFields.assignedToAadId) {
+    result.processingNotes.push(`Username "${result.directFields.assignedToAadId}" requires Azure AD lookup`);
+  }
+
+  return result;
+}
+
+/**
+ * Phone asset tag from the subscriber ("PH-First Last" or "PH-username"),
+ * or a generated one for spare devices
+ */
+export function generateCarrierPhoneAssetTag(assignedUser?: string | null): string {
+  const user = assignedUser?.trim();
+  if (user) {
+    const nameParts = user.split(/\s+/);
+    if (nameParts.length >= 2) {
+      return `PH-${nameParts[0]} ${nameParts[nameParts.length - 1]}`;
+    }
+    return `PH-${user}`;
+  }
+
+  const timestamp = Date.now().toString().slice(-6);
+  const randomSuffix = Math.random().toString(36).substr(2, 3).toUpperCase();
+  return `PH-${timestamp}-${randomSuffix}`;
+}
+
+// ============================================================================
+// FIELD HELPERS
+// ============================================================================
+
+/**
+ * Digits-only phone number with a leading country code removed
+ * (e.g. "+1 (555) 123-4567" -> "5551234567" for countryCode '1')
+ */
+export function cleanCarrierPhoneNumber(value: string, countryCode: string, nationalLength: number): string | null {
+  const digits = cleanPhoneNumber(value?.trim() ?? '');
+  if (!digits) return null;
+  if (digits.length === countryCode.length + nationalLength && digits.startsWith(countryCode)) {
+    return digits.slice(countryCode.length);
+  }
+  return digits;
+}
+
+/**
+ * Parse a billing export date to ISO. Handles ISO and US-style strings, Excel serials,
+ * compact YYYYMMDD and, when dayFirst is set, DD/MM/YYYY.
+ */
+export function parseCarrierDate(value: string, dayFirst = false): string | null {
+  if (!value) return null;
+  const clean = value.trim();
+  if (!clean) return null;
+
+  // Excel serial day number (spreadsheet cells formatted as dates)
+  if (/^\d{5}$/.test(clean)) {
+    return toISO(clean);
+  }
+
+  const compactMatch = clean.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compactMatch) {
+    return toUTCDate(+compactMatch[1], +compactMatch[2], +compactMatch[3]);
+  }
+
+  const slashMatch = clean.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})$/);
+  if (slashMatch) {
+    const [first, second] = [+slashMatch[1], +slashMatch[2]];
+    return dayFirst
+      ? toUTCDate(+slashMatch[3], second, first)
+      : toUTCDate(+slashMatch[3], first, second);
+  }
+
+  const date = new Date(clean);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function toUTCDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString();
+}
+
+/**
+ * Parse a currency amount such as "$1,234.50" or "AUD 45.00"
+ */
+export function parseCarrierAmount(value: string): number | null {
+  if (!value) return null;
+  const clean = value.replace(/[^\d.\-]/g, '');
+  if (!clean) return null;
+  const amount = parseFloat(clean);
+  return isNaN(amount) ? null : amount;
+}
@@ -0,0 +1,340 @@
+/**
+ * Declarative Import Sources
+ *
+ * Lets admins describe a CSV/Excel source as data (header aliases, target fields, named
+ * processors, header-row keywords, presence tracking) instead of writing a transform module.
+ * Definitions are stored by the backend and registered at runtime in the transformation
+ * registry, so the frontend preview and the backend import run the same rules.
+ */
+
+import {
+  toISO,
+  simplifyRam,
+  aggregateVolumes,
+  parseDeviceName,
+  normalizeBGCAssetTag,
+  cleanPhoneNumber,
+  type ColumnMapping,
+  type TransformationResult
+} from '../importTransformations';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ImportSourceCategory = 'endpoints' | 'servers' | 'phones';
+
+export interface DeclarativeFieldMapping {
+  // Header aliases, matched case- and whitespace-insensitively; the first one present wins
+  headers: string[];
+  // Asset column, specifications key, or `cf_<customFieldId>`
+  targetField: string;
+  targetType: 'direct' | 'specifications' | 'custom';
+  // Names from IMPORT_PROCESSORS, applied in order
+  processors?: string[];
+  required?: boolean;
+  description?: string;
+}
+
+export interface ImportSourceDefinition {
+  // Registry key, also the id the upload wizard sends (e.g. 'freedom')
+  key: string;
+  name: string;
+  description?: string;
+  category: ImportSourceCategory;
+  // Canonical label stored on assets and presence links (e.g. 'FREEDOM')
+  sourceSystem: string;
+  // Cells that identify the header row when an export starts with a preamble
+  headerKeywords: string[];
+  // Whether full snapshots of this source record presence and retire missing assets
+  presenceTracking: boolean;
+  fields: DeclarativeFieldMapping[];
+  // Values applied to every row unless a mapped column provides one
+  defaults?: {
+    directFields?: Record<string, string>;
+    specifications?: Record<string, string>;
+  };
+}
+
+export interface ImportProcessor {
+  label: string;
+  description: string;
+  apply: (value: any) => any;
+}
+
+// ============================================================================
+// PROCESSOR LIBRARY
+// ============================================================================
+
+const asText = (value: any): string => (value === null || value === undefined ? '' : String(value));
+
+export const IMPORT_PROCESSORS: Record<string, ImportProcessor> = {
+  trim: {
+    label: 'Trim',
+    description: 'Remove surrounding whitespace; empty values become null',
+    apply: (value) => asText(value).trim() || null,
+  },
+  uppercase: {
+    label: 'Uppercase',
+    description: 'Convert to upper case',
+    apply: (value) => (value == null ? value : asText(value).toUpperCase()),
+  },
+  lowercase: {
+    label: 'Lowercase',
+    description: 'Convert to lower case',
+    apply: (value) => (value == null ? value : asText(value).toLowerCase()),
+  },
+  digitsOnly: {
+    label: 'Digits only',
+    description: 'Strip everything but digits (phone numbers, IMEIs)',
+    apply: (value) => (value == null ? value : cleanPhoneNumber(asText(value))),
+  },
+  toISO: {
+    label: 'Date → ISO',
+    description: 'Parse a date or Excel serial number into an ISO timestamp',
+    apply: (value) => toISO(asText(value)),
+  },
+  toNumber: {
+    label: 'Number',
+    description: 'Parse a number, ignoring currency symbols and thousands separators',
+    apply: (value) => {
+      const parsed = parseFloat(asText(value).replace(/[^0-9.\-]/g, ''));
+      return isNaN(parsed) ? null : parsed;
+    },
+  },
+  simplifyRam: {
+    label: 'Simplify RAM',
+    description: 'Round a GiB value to the nearest common memory size',
+    apply: (value) => simplifyRam(asText(value)),
+  },
+  aggregateVolumes: {
+    label: 'Aggregate volumes',
+    description: 'Sum NinjaOne-style volume lists into one storage size',
+    apply: (value) => aggregateVolumes(asText(value)),
+  },
+  'parseDeviceName.make': {
+    label: 'Device name → make',
+    description: 'Manufacturer parsed from a carrier device name',
+    apply: (value) => parseDeviceName(asText(value)).make,
+  },
+  'parseDeviceName.model': {
+    label: 'Device name → model',
+    description: 'Model parsed from a carrier device name',
+    apply: (value) => parseDeviceName(asText(value)).model,
+  },
+  'parseDeviceName.storage': {
+    label: 'Device name → storage',
+    description: 'Storage size parsed from a carrier device name',
+    apply: (value) => parseDeviceName(asText(value)).storage ?? null,
+  },
+  normalizeBGCAssetTag: {
+    label: 'BGC asset tag',
+    description: 'Add the BGC prefix to numeric asset tags',
+    apply: (value) => (value == null ? value : normalizeBGCAssetTag(asText(value))),
+  },
+};
+
+export function getImportProcessorNames(): string[] {
+  return Object.keys(IMPORT_PROCESSORS);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const KEY_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const SOURCE_SYSTEM_PATTERN = /^[A-Z0-9_]+$/;
+const CATEGORIES: ImportSourceCategory[] = ['endpoints', 'servers', 'phones'];
+const TARGET_TYPES: DeclarativeFieldMapping['targetType'][] = ['direct', 'specifications', 'custom'];
+
+// Asset columns an import may write directly; anything else belongs in specifications
+export const DIRECT_ASSET_FIELDS = [
+  'assetTag', 'assetType', 'status', 'condition', 'make', 'model', 'serialNumber',
+  'assignedToId', 'assignedToAadId', 'departmentId', 'locationId', 'purchaseDate',
+  'purchasePrice', 'vendorId', 'warrantyStartDate', 'warrantyEndDate', 'warrantyNotes', 'notes'
+];
+
+/**
+ * Check a definition before it is stored or registered. Returns human-readable problems;
+ * an empty list means the definition is usable.
+ */
+export function validateImportSourceDefinition(definition: Partial<ImportSourceDefinition>): string[] {
+  const errors: string[] = [];
+  if (!definition.key || !KEY_PATTERN.test(definition.key)) {
+    errors.push('Key must be lower-case letters, digits and dashes');
+  }
+  if (!definition.name?.trim()) errors.push('Name is required');
+  if (!definition.category || !CATEGORIES.includes(definition.category)) {
+    errors.push(`Category must be one of ${CATEGORIES.join(', ')}`);
+  }
+  if (!definition.sourceSystem || !SOURCE_SYSTEM_PATTERN.test(definition.sourceSystem)) {
+    errors.push('Source system must be upper-case letters, digits and underscores');
+  }
+  if (!Array.isArray(definition.headerKeywords)) {
+    errors.push('Header keywords must be a list');
+  }
+  if (!Array.isArray(definition.fields) || definition.fields.length === 0) {
+    errors.push('At least one field mapping is required');
+    return errors;
+  }
+
+  definition.fields.forEach((field, idx) => {
+    const label = `Field ${idx + 1}`;
+    if (!Array.isArray(field.headers) || field.headers.filter((h) => h?.trim()).length === 0) {
+      errors.push(`${label}: at least one header is required`);
+    }
+    if (!field.targetField?.trim()) errors.push(`${label}: target field is required`);
+    if (!TARGET_TYPES.includes(field.targetType)) {
+      errors.push(`${label}: target type must be one of ${TARGET_TYPES.join(', ')}`);
+    }
+    if (field.targetType === 'direct' && field.targetField?.trim() && !DIRECT_ASSET_FIELDS.includes(field.targetField)) {
+      errors.push(`${label}: "${field.targetField}" is not an asset field; map it to specifications instead`);
+    }
+    for (const name of field.processors ?? []) {
+      if (!IMPORT_PROCESSORS[name]) errors.push(`${label}: unknown processor "${name}"`);
+    }
+  });
+  for (const key of Object.keys(definition.defaults?.directFields ?? {})) {
+    if (!DIRECT_ASSET_FIELDS.includes(key)) errors.push(`Default "${key}" is not an asset field`);
+  }
+  return errors;
+}
+
+// ============================================================================
+// TRANSFORMATION ENGINE
+// ============================================================================
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+function findHeader(row: Record<string, string>, aliases: string[]): string | undefined {
+  const wanted = aliases.map(normalizeHeader);
+  const keys = Object.keys(row);
+  for (const alias of wanted) {
+    const match = keys.find((k) => normalizeHeader(k) === alias);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+function applyProcessors(value: any, names: string[] = []): any {
+  return names.reduce((current, name) => IMPORT_PROCESSORS[name].apply(current), value);
+}
+
+/**
+ * Column mappings for the wizard's mapping step and preview. The first header alias is shown
+ * as the source column; processors are chained into a single function.
+ */
+export function getDeclarativeMappings(definition: ImportSourceDefinition): ColumnMapping[] {
+  return definition.fields.map((field) => ({
+    ninjaColumn: field.headers[0],
+    targetField: field.targetType === 'custom' && !field.targetField.startsWith('cf_')
+      ? `cf_${field.targetField}`
+      : field.targetField,
+    targetType: field.targetType,
+    description: field.description || `${field.headers.join(' / ')} → ${field.targetField}`,
+    required: field.required,
+    processor: field.processors?.length ? (value: string) => applyProcessors(value, field.processors) : undefined,
+  }));
+}
+
+/**
+ * Transform one row with a declarative definition
+ */
+export function transformDeclarativeRow(
+  definition: ImportSourceDefinition,
+  row: Record<string, string>
+): TransformationResult {
+  const result: TransformationResult = {
+    directFields: {},
+    specifications: {},
+    customFields: {},
+    processingNotes: [],
+    validationErrors: []
+  };
+
+  for (const field of definition.fields) {
+    const header = findHeader(row, field.headers);
+    const raw = header ? row[header] : undefined;
+
+    if ((raw === undefined || String(raw).trim() === '') && field.required) {
+      result.validationErrors.push(`Required field ${field.targetField} is missing`);
+      continue;
+    }
+    if (raw === undefined) continue;
+
+    let value: any;
+    try {
+      value = applyProcessors(raw, field.processors);
+    } catch (error) {
+      result.processingNotes.push(`Failed to process ${header}: ${String(error)}`);
+      continue;
+    }
+    // A later alias mapped to the same target never overwrites a value already found
+    if (value === null || value === undefined || value === '') continue;
+
+    if (field.targetType === 'custom' || field.targetField.startsWith('cf_')) {
+      const customFieldId = field.targetField.replace(/^cf_/, '');
+      result.customFields[customFieldId] ??= value;
+    } else if (field.targetType === 'direct') {
+      result.directFields[field.targetField] ??= value;
+    } else {
+      result.specifications[field.targetField] ??= value;
+    }
+  }
+
+  for (const [key, value] of Object.entries(definition.defaults?.directFields ?? {})) {
+    result.directFields[key] ??= value;
+  }
+  for (const [key, value] of Object.entries(definition.defaults?.specifications ?? {})) {
+    result.specifications[key] ??= value;
+  }
+
+  // Same rule the built-in sources use when the export carries no status column
+  if (!result.directFields.status) {
+    result.directFields.status = result.directFields.assignedToAadId ? 'ASSIGNED' : 'AVAILABLE';
+  }
+
+  return result;
+}
+
+/**
+ * Check the required headers of a definition against a parsed file
+ */
+export function validateDeclarativeData(definition: ImportSourceDefinition, data: any): string[] {
+  const errors: string[] = [];
+  const row: Record<string, string> = Array.isArray(data) ? data[0] ?? {} : data ?? {};
+  for (const field of definition.fields) {
+    if (field.required && !findHeader(row, field.headers)) {
+      errors.push(`Missing required column: ${field.headers.join(' or ')}`);
+    }
+  }
+  return errors;
+}
+
+// ============================================================================
+// HEADER ROW DETECTION
+// ============================================================================
+
+// Header cells of the built-in sources whose exports start with a preamble (Telus, Rogers)
+export const BUILT_IN_HEADER_KEYWORDS = [
+  'Subscriber Name', 'Phone Number', 'Device Name',
+  'Account Number', 'Subscriber Number', 'Usernames', 'Device Description',
+  'Mobile Number', 'Wireless Number', 'Service Number', 'Handset',
+  'Primary user UPN'
+];
+
+/**
+ * Index of the first row containing any of the keywords (compared case-insensitively), or 0
+ */
+export function detectHeaderRowIndex(rows: unknown[][], keywords: string[]): number {
+  const wanted = new Set(keywords.map(normalizeHeader).filter(Boolean));
+  if (wanted.size === 0) return 0;
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    if (!Array.isArray(row)) continue;
+    if (row.some((cell) => cell != null && wanted.has(normalizeHeader(String(cell))))) {
+      return i;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,187 @@
+/**
+ * Excetel Phone Import Transformation Module
+ *
+ * Contains all transformation logic specific to Excetel Business phone imports.
+ * This module handles the complete transformation pipeline for the Excetel service
+ * export, which uses Australian number and date formats (DD/MM/YYYY).
+ */
+
+import {
+  parseDeviceName,
+  applyColumnMappings,
+  cleanPhoneNumber,
+  type ColumnMapping,
+  type TransformationResult
+} from '../importTransformations';
+import {
+  finalizeCarrierPhoneResult,
+  parseCarrierDate,
+  parseCarrierAmount
+} from './carrierPhoneUtils';
+
+// ============================================================================
+// EXCETEL PHONE COLUMN MAPPINGS
+// ============================================================================
+
+export const EXCETEL_PHONE_MAPPINGS: ColumnMapping[] = [
+  {
+    ninjaColumn: 'End User',
+    targetField: 'assignedToAadId',
+    targetType: 'direct',
+    description: 'End user (attempt Azure AD resolution)',
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'Service Number',
+    targetField: 'phoneNumber',
+    targetType: 'specifications',
+    description: 'Mobile service number',
+    processor: (value: string) => normalizeExcetelServiceNumber(value),
+  },
+  {
+    ninjaColumn: 'Plan',
+    targetField: 'planType',
+    targetType: 'specifications',
+    description: 'Plan type',
+  },
+  {
+    ninjaColumn: 'Plan Cost (inc GST)',
+    targetField: 'monthlyCost',
+    targetType: 'specifications',
+    description: 'Monthly plan cost including GST',
+    processor: (value: string) => parseCarrierAmount(value),
+  },
+  {
+    ninjaColumn: 'Handset',
+    targetField: 'model',
+    targetType: 'direct',
+    description: 'Device model (make will be auto-extracted)',
+    processor: (value: string) => parseDeviceName(value).model,
+    required: true,
+  },
+  {
+    ninjaColumn: 'Handset',
+    targetField: 'make',
+    targetType: 'direct',
+    description: 'Device manufacturer (auto-extracted from handset)',
+    processor: (value: string) => parseDeviceName(value).make,
+  },
+  {
+    ninjaColumn: 'Handset',
+    targetField: 'storage',
+    targetType: 'specifications',
+    description: 'Storage capacity extracted from handset',
+    processor: (value: string) => parseDeviceName(value).storage,
+  },
+  {
+    ninjaColumn: 'IMEI',
+    targetField: 'imei',
+    targetType: 'specifications',
+    description: 'IMEI number',
+    required: true,
+  },
+  {
+    ninjaColumn: 'IMEI',
+    targetField: 'serialNumber',
+    targetType: 'direct',
+    description: 'IMEI as serial number (fallback)',
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'SIM Serial',
+    targetField: 'simCard',
+    targetType: 'specifications',
+    description: 'SIM card number',
+  },
+  {
+    ninjaColumn: 'Contract Start',
+    targetField: 'contractStartDate',
+    targetType: 'specifications',
+    description: 'Contract start date (DD/MM/YYYY)',
+    processor: (value: string) => parseCarrierDate(value, true),
+  },
+  {
+    ninjaColumn: 'Contract End',
+    targetField: 'contractEndDate',
+    targetType: 'specifications',
+    description: 'Contract end date (DD/MM/YYYY)',
+    processor: (value: string) => parseCarrierDate(value, true),
+  },
+  // Use Customer Number column as a trigger to set assetType → PHONE
+  {
+    ninjaColumn: 'Customer Number',
+    targetField: 'assetType',
+    targetType: 'direct',
+    required: true,
+    description: 'Set assetType to PHONE',
+    processor: () => 'PHONE',
+  },
+  // Ignore columns not needed
+  {
+    ninjaColumn: 'Service Status',
+    targetField: '',
+    targetType: 'ignore',
+    description: 'Service status (ignored)',
+  },
+];
+
+// ============================================================================
+// EXCETEL PHONE TRANSFORMATION ENGINE
+// ============================================================================
+
+/**
+ * Transform a single row of Excetel phone data
+ */
+export function transformExcetelPhoneRow(row: Record<string, string>): TransformationResult {
+  const result = applyColumnMappings(row, EXCETEL_PHONE_MAPPINGS);
+
+  return finalizeCarrierPhoneResult(result, {
+    source: 'EXCETEL',
+    carrier: 'Excetel',
+    deviceDescription: row['Handset'],
+  });
+}
+
+/**
+ * Get column mapping for a specific Excetel column
+ */
+export function getExcetelMapping(columnName: string): ColumnMapping | undefined {
+  return EXCETEL_PHONE_MAPPINGS.find(mapping => mapping.ninjaColumn === columnName);
+}
+
+/**
+ * Validate required fields for Excetel phone import
+ */
+export function validateExcetelPhoneData(data: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  if (!data.model || data.model.trim() === '') {
+    errors.push('Device model is required');
+  }
+
+  if (!data.imei || data.imei.trim() === '') {
+    errors.push('IMEI is required');
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// EXCETEL PHONE SPECIFIC UTILITIES
+// ============================================================================
+
+/**
+ * Australian mobile number in national format
+ * (e.g. "+61 412 345 678" and "0412 345 678" both -> "0412345678")
+ */
+export function normalizeExcetelServiceNumber(value: string): string | null {
+  const digits = cleanPhoneNumber(value?.trim() ?? '');
+  if (!digits) return null;
+  if (digits.length === 11 && digits.startsWith('61')) {
+    return `0${digits.slice(2)}`;
+  }
+  if (digits.length === 9 && digits.startsWith('4')) {
+    return `0${digits}`;
+  }
+  return digits;
+}
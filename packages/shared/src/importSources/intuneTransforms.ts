@@ -0,0 +1,296 @@
+/**
+ * Microsoft Intune Import Transformation Module
+ *
+ * Contains all transformation logic specific to the Intune "All devices" export.
+ * Intune is tracked for presence alongside NinjaOne: rows for devices another source
+ * already owns only contribute the Intune-specific fields listed in
+ * INTUNE_SPECIFICATION_FIELDS (see the backend import processor).
+ */
+
+import {
+  roundToCommonStorageSize,
+  applyColumnMappings,
+  type ColumnMapping,
+  type TransformationResult
+} from '../importTransformations';
+
+// ============================================================================
+// INTUNE SPECIFICATION FIELDS
+// ============================================================================
+
+// Specifications Intune is the authority for; always refreshed from the latest Intune export
+export const INTUNE_SPECIFICATION_FIELDS = [
+  'complianceState',
+  'lastCheckIn',
+  'enrollmentDate',
+  'intuneDeviceId',
+  'aadDeviceId',
+  'ownership',
+  'encrypted',
+];
+
+// ============================================================================
+// INTUNE COLUMN MAPPINGS
+// ============================================================================
+
+export const INTUNE_MAPPINGS: ColumnMapping[] = [
+  {
+    ninjaColumn: 'Device name',
+    targetField: 'assetTag',
+    targetType: 'direct',
+    description: 'Device name as asset tag',
+    required: true,
+    processor: (value: string) => normalizeIntuneDeviceName(value),
+  },
+  {
+    ninjaColumn: 'Serial number',
+    targetField: 'serialNumber',
+    targetType: 'direct',
+    description: 'Serial Number',
+    required: true,
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'Manufacturer',
+    targetField: 'make',
+    targetType: 'direct',
+    description: 'Manufacturer',
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'Model',
+    targetField: 'model',
+    targetType: 'direct',
+    description: 'Model',
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'Primary user UPN',
+    targetField: 'assignedToAadId',
+    targetType: 'direct',
+    description: 'Primary user UPN (resolved to an Azure AD user)',
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'OS',
+    targetField: 'operatingSystem',
+    targetType: 'specifications',
+    description: 'Operating System',
+  },
+  {
+    ninjaColumn: 'OS version',
+    targetField: 'osVersion',
+    targetType: 'specifications',
+    description: 'Operating System Version',
+  },
+  {
+    ninjaColumn: 'Compliance',
+    targetField: 'complianceState',
+    targetType: 'specifications',
+    description: 'Intune compliance state',
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'Last check-in',
+    targetField: 'lastCheckIn',
+    targetType: 'specifications',
+    description: 'Last Intune check-in',
+    processor: (value: string) => parseIntuneDate(value),
+  },
+  {
+    ninjaColumn: 'Enrollment date',
+    targetField: 'enrollmentDate',
+    targetType: 'specifications',
+    description: 'Intune enrollment date',
+    processor: (value: string) => parseIntuneDate(value),
+  },
+  {
+    ninjaColumn: 'Device ID',
+    targetField: 'intuneDeviceId',
+    targetType: 'specifications',
+    description: 'Intune device ID',
+  },
+  {
+    ninjaColumn: 'Azure AD Device ID',
+    targetField: 'aadDeviceId',
+    targetType: 'specifications',
+    description: 'Azure AD device ID',
+  },
+  {
+    ninjaColumn: 'Ownership',
+    targetField: 'ownership',
+    targetType: 'specifications',
+    description: 'Corporate or personal ownership',
+  },
+  {
+    ninjaColumn: 'Encrypted',
+    targetField: 'encrypted',
+    targetType: 'specifications',
+    description: 'Storage encrypted',
+    processor: (value: string) => {
+      if (!value) return null;
+      return ['true', 'yes'].includes(value.trim().toLowerCase());
+    },
+  },
+  {
+    ninjaColumn: 'Total storage',
+    targetField: 'storage',
+    targetType: 'specifications',
+    description: 'Storage (rounded to common size)',
+    processor: (value: string) => parseIntuneStorage(value),
+  },
+  {
+    ninjaColumn: 'IMEI',
+    targetField: 'imei',
+    targetType: 'specifications',
+    description: 'IMEI number (mobile devices)',
+    processor: (value: string) => value?.replace(/\s+/g, '') || null,
+  },
+  {
+    ninjaColumn: 'Phone number',
+    targetField: 'phoneNumber',
+    targetType: 'specifications',
+    description: 'Phone number (mobile devices)',
+    processor: (value: string) => value?.replace(/[^\d]+/g, '') || null,
+  },
+  {
+    ninjaColumn: 'Subscriber carrier',
+    targetField: 'carrier',
+    targetType: 'specifications',
+    description: 'Carrier (mobile devices)',
+    processor: (value: string) => value?.trim() || null,
+  },
+];
+
+// ============================================================================
+// INTUNE TRANSFORMATION ENGINE
+// ============================================================================
+
+/**
+ * Transform a single row of Intune device data
+ */
+export function transformIntuneRow(row: Record<string, string>): TransformationResult {
+  const result = applyColumnMappings(row, INTUNE_MAPPINGS);
+
+  // Intune has no device type column; derive it from the platform and model
+  result.directFields.assetType = intuneAssetType(row['OS'], row['Model']);
+
+  // Set default values
+  result.directFields.condition = result.directFields.condition || 'GOOD';
+  result.directFields.make = result.directFields.make || 'Unknown';
+  result.directFields.model = result.directFields.model || 'Unknown';
+  result.directFields.source = 'INTUNE';
+
+  // Determine status based on assignment
+  if (result.directFields.assignedToAadId) {
+    result.directFields.status = 'ASSIGNED';
+    result.processingNotes.push(`User "${result.directFields.assignedToAadId}" requires Azure AD lookup`);
+  } else {
+    result.directFields.status = 'AVAILABLE';
+  }
+
+  if (result.specifications.complianceState && !isCompliant(result.specifications.complianceState)) {
+    result.processingNotes.push(`Device is not compliant (${result.specifications.complianceState})`);
+  }
+
+  return result;
+}
+
+/**
+ * Get column mapping for a specific Intune column
+ */
+export function getIntuneMapping(columnName: string): ColumnMapping | undefined {
+  return INTUNE_MAPPINGS.find(mapping => mapping.ninjaColumn === columnName);
+}
+
+/**
+ * Validate required fields for Intune import
+ */
+export function validateIntuneData(data: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  if (!data.assetTag || data.assetTag.trim() === '') {
+    errors.push('Device name is required');
+  }
+
+  if (!data.serialNumber || data.serialNumber.trim() === '') {
+    errors.push('Serial Number is required');
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// INTUNE SPECIFIC UTILITIES
+// ============================================================================
+
+/**
+ * Same rule as the NinjaOne Display Name so both sources agree on the tag
+ */
+export function normalizeIntuneDeviceName(value: string): string {
+  const trimmed = value?.trim() ?? '';
+  if (/^\d+$/.test(trimmed)) {
+    return `BGC${trimmed.padStart(6, '0')}`;
+  }
+  return trimmed.toUpperCase();
+}
+
+const DESKTOP_MODEL_PATTERN = /OPTIPLEX|THINKCENTRE|ELITEDESK|PRODESK|PRECISION \d{4} TOWER|TOWER|DESKTOP|IMAC|MAC MINI|MAC PRO|MAC STUDIO|\bAIO\b|ALL-IN-ONE/;
+
+/**
+ * Asset type from the Intune OS and model
+ */
+export function intuneAssetType(os?: string, model?: string): string {
+  const platform = (os || '').trim().toUpperCase();
+  const upperModel = (model || '').trim().toUpperCase();
+
+  if (platform.startsWith('IOS') || platform.startsWith('IPADOS')) {
+    return upperModel.startsWith('IPAD') ? 'TABLET' : 'PHONE';
+  }
+  if (platform.startsWith('ANDROID')) {
+    return /\bTAB\b|TABLET/.test(upperModel) ? 'TABLET' : 'PHONE';
+  }
+  if (upperModel.includes('VIRTUAL MACHINE')) {
+    return 'OTHER';
+  }
+  return DESKTOP_MODEL_PATTERN.test(upperModel) ? 'DESKTOP' : 'LAPTOP';
+}
+
+/**
+ * Intune exports UTC timestamps such as "2025-07-15 14:32:10.0000000"
+ */
+export function parseIntuneDate(value: string): string | null {
+  if (!value) return null;
+  const clean = value.trim();
+  if (!clean) return null;
+
+  const match = clean.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})(\.\d+)?Z?$/);
+  if (match) {
+    const millis = match[3] ? match[3].slice(0, 4).padEnd(4, '0') : '.000';
+    const date = new Date(`${match[1]}T${match[2]}${millis}Z`);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  const date = new Date(clean);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Intune reports total storage in MB ("243879") or with a unit ("238.2 GB")
+ */
+export function parseIntuneStorage(value: string): string | null {
+  if (!value) return null;
+  const match = value.trim().match(/^([\d.,]+)\s*(MB|GB|TB)?$/i);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1].replace(/,/g, ''));
+  if (isNaN(amount) || amount <= 0) return null;
+
+  const unit = (match[2] || 'MB').toUpperCase();
+  const gib = unit === 'TB' ? amount * 1024 : unit === 'GB' ? amount : amount / 1024;
+  return roundToCommonStorageSize(gib);
+}
+
+export function isCompliant(complianceState: string): boolean {
+  return complianceState.trim().toLowerCase() === 'compliant';
+}
@@ -0,0 +1,97 @@
+/**
+ * Column Mapping Templates
+ *
+ * Saved header → field mappings for recurring spreadsheets imported through the custom
+ * Excel source. A template remembers the header layout it was built for, so an incoming file
+ * can be matched by fingerprint and a changed layout is reported instead of mis-mapped.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MappingTemplateColumn {
+  header: string;
+  targetField: string;
+  targetType: 'direct' | 'specifications' | 'custom';
+  // Name from IMPORT_PROCESSORS
+  processor?: string;
+  // Used when the cell is empty
+  defaultValue?: string;
+}
+
+// A value applied to every row for a field no column provides
+export interface MappingTemplateDefault {
+  targetField: string;
+  targetType: 'direct' | 'specifications' | 'custom';
+  value: string;
+}
+
+export interface HeaderLayoutComparison {
+  // Same header set (ignoring order, case and surrounding whitespace)
+  matches: boolean;
+  // Jaccard similarity of the two header sets, 0..1
+  overlap: number;
+  // Template headers absent from the incoming file
+  missing: string[];
+  // Incoming headers the template does not know
+  added: string[];
+}
+
+// ============================================================================
+// FINGERPRINTING
+// ============================================================================
+
+export const normalizeTemplateHeader = (header: string): string =>
+  String(header ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const headerSet = (headers: string[]): string[] =>
+  Array.from(new Set(headers.map(normalizeTemplateHeader).filter(Boolean))).sort();
+
+/**
+ * Order-independent fingerprint of a header row (FNV-1a over the sorted, normalised set).
+ * Runs identically in the browser and on the server.
+ */
+export function fingerprintHeaders(headers: string[]): string {
+  const set = headerSet(headers);
+  const input = set.join('\n');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${set.length}-${hash.toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Compare the layout a template was saved for with the headers of an incoming file
+ */
+export function compareHeaderLayouts(templateHeaders: string[], incomingHeaders: string[]): HeaderLayoutComparison {
+  const known = new Map(templateHeaders.map((h) => [normalizeTemplateHeader(h), h]));
+  const incoming = new Map(incomingHeaders.map((h) => [normalizeTemplateHeader(h), h]));
+  known.delete('');
+  incoming.delete('');
+
+  const missing = Array.from(known.entries()).filter(([key]) => !incoming.has(key)).map(([, h]) => h);
+  const added = Array.from(incoming.entries()).filter(([key]) => !known.has(key)).map(([, h]) => h);
+  const shared = known.size - missing.length;
+  const union = known.size + added.length;
+
+  return {
+    matches: missing.length === 0 && added.length === 0,
+    overlap: union === 0 ? 0 : shared / union,
+    missing,
+    added,
+  };
+}
+
+/**
+ * Template column for an incoming header, matched the same way as the fingerprint
+ */
+export function findTemplateColumn(
+  columns: MappingTemplateColumn[],
+  header: string
+): MappingTemplateColumn | undefined {
+  const wanted = normalizeTemplateHeader(header);
+  return columns.find((column) => normalizeTemplateHeader(column.header) === wanted);
+}
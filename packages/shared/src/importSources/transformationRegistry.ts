@@ -8,14 +8,29 @@
 import { transformNinjaOneRow, transformNinjaOneServerRow, NINJA_ONE_MAPPINGS, NINJA_ONE_SERVER_MAPPINGS, validateNinjaOneData } from './ninjaOneTransforms';
 import { transformTelusPhoneRow, TELUS_PHONE_MAPPINGS, validateTelusPhoneData } from './telusTransforms';
 import { transformRogersPhoneRow, ROGERS_PHONE_MAPPINGS, validateRogersPhoneData } from './rogersTransforms';
+import { transformBellPhoneRow, BELL_PHONE_MAPPINGS, validateBellPhoneData } from './bellTransforms';
+import { transformVerizonPhoneRow, VERIZON_PHONE_MAPPINGS, validateVerizonPhoneData } from './verizonTransforms';
+import { transformExcetelPhoneRow, EXCETEL_PHONE_MAPPINGS, validateExcetelPhoneData } from './excetelTransforms';
+import { transformIntuneRow, INTUNE_MAPPINGS, validateIntuneData } from './intuneTransforms';
 import { transformBGCTemplateRow, BGC_TEMPLATE_MAPPINGS, validateBGCTemplateData } from './bgcTemplateTransforms';
+import {
+  BUILT_IN_HEADER_KEYWORDS,
+  getDeclarativeMappings,
+  transformDeclarativeRow,
+  validateDeclarativeData,
+  validateImportSourceDefinition,
+  type ImportSourceDefinition
+} from './declarativeSources';
 import type { ColumnMapping, TransformationResult } from '../importTransformations';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export type ImportSourceType = 'telus' | 'rogers' | 'ninjaone' | 'ninjaone-servers' | 'bgc-template';
+export type ImportSourceType = 'telus' | 'rogers' | 'bell' | 'verizon' | 'excetel' | 'ninjaone' | 'ninjaone-servers' | 'intune' | 'bgc-template';
+
+// Built-in source or the key of a registered declarative definition
+export type ImportSourceKey = ImportSourceType | (string & {});
 
 export interface ImportSourceTransformer {
   transformRow: (row: Record<string, string>) => TransformationResult;
@@ -44,6 +59,30 @@ export const IMPORT_TRANSFORMATION_REGISTRY: Record<ImportSourceType, ImportSour
       return { isValid: errors.length === 0, errors };
     },
   },
+  'bell': {
+    transformRow: transformBellPhoneRow,
+    getMappings: () => BELL_PHONE_MAPPINGS,
+    validateData: (data: any) => {
+      const errors = validateBellPhoneData(data);
+      return { isValid: errors.length === 0, errors };
+    },
+  },
+  'verizon': {
+    transformRow: transformVerizonPhoneRow,
+    getMappings: () => VERIZON_PHONE_MAPPINGS,
+    validateData: (data: any) => {
+      const errors = validateVerizonPhoneData(data);
+      return { isValid: errors.length === 0, errors };
+    },
+  },
+  'excetel': {
+    transformRow: transformExcetelPhoneRow,
+    getMappings: () => EXCETEL_PHONE_MAPPINGS,
+    validateData: (data: any) => {
+      const errors = validateExcetelPhoneData(data);
+      return { isValid: errors.length === 0, errors };
+    },
+  },
   'ninjaone': {
     transformRow: transformNinjaOneRow,
     getMappings: () => NINJA_ONE_MAPPINGS,
@@ -60,6 +99,14 @@ export const IMPORT_TRANSFORMATION_REGISTRY: Record<ImportSourceType, ImportSour
       return { isValid: errors.length === 0, errors };
     },
   },
+  'intune': {
+    transformRow: transformIntuneRow,
+    getMappings: () => INTUNE_MAPPINGS,
+    validateData: (data: any) => {
+      const errors = validateIntuneData(data);
+      return { isValid: errors.length === 0, errors };
+    },
+  },
   'bgc-template': {
     transformRow: transformBGCTemplateRow,
     getMappings: () => BGC_TEMPLATE_MAPPINGS,
@@ -70,6 +117,75 @@ export const IMPORT_TRANSFORMATION_REGISTRY: Record<ImportSourceType, ImportSour
   },
 };
 
+// ============================================================================
+// DECLARATIVE SOURCES (registered at runtime)
+// ============================================================================
+
+const declarativeSources = new Map<string, { definition: ImportSourceDefinition; transformer: ImportSourceTransformer }>();
+
+function createDeclarativeTransformer(definition: ImportSourceDefinition): ImportSourceTransformer {
+  const mappings = getDeclarativeMappings(definition);
+  return {
+    transformRow: (row) => transformDeclarativeRow(definition, row),
+    getMappings: () => mappings,
+    validateData: (data: any) => {
+      const errors = validateDeclarativeData(definition, data);
+      return { isValid: errors.length === 0, errors };
+    },
+  };
+}
+
+/**
+ * Register a declarative source definition, replacing any earlier one with the same key.
+ * Built-in sources cannot be overridden.
+ */
+export function registerImportSourceDefinition(definition: ImportSourceDefinition): void {
+  if (definition.key in IMPORT_TRANSFORMATION_REGISTRY) {
+    throw new Error(`Cannot override built-in import source: ${definition.key}`);
+  }
+  const errors = validateImportSourceDefinition(definition);
+  if (errors.length > 0) {
+    throw new Error(`Invalid import source definition "${definition.key}": ${errors.join('; ')}`);
+  }
+  declarativeSources.set(definition.key, { definition, transformer: createDeclarativeTransformer(definition) });
+}
+
+/**
+ * Replace every registered declarative source with the given set (used when reloading from storage)
+ */
+export function setImportSourceDefinitions(definitions: ImportSourceDefinition[]): void {
+  declarativeSources.clear();
+  for (const definition of definitions) {
+    registerImportSourceDefinition(definition);
+  }
+}
+
+export function getImportSourceDefinitions(): ImportSourceDefinition[] {
+  return Array.from(declarativeSources.values()).map((entry) => entry.definition);
+}
+
+export function getImportSourceDefinition(key: string): ImportSourceDefinition | undefined {
+  return declarativeSources.get(key)?.definition;
+}
+
+/**
+ * Find the declarative source whose canonical source system label matches (e.g. 'FREEDOM')
+ */
+export function findImportSourceDefinitionBySystem(sourceSystem: string): ImportSourceDefinition | undefined {
+  return getImportSourceDefinitions().find((d) => d.sourceSystem === sourceSystem);
+}
+
+/**
+ * Header-row keywords of the built-in sources plus every registered definition
+ */
+export function getImportHeaderKeywords(): string[] {
+  const keywords = new Set(BUILT_IN_HEADER_KEYWORDS);
+  for (const definition of getImportSourceDefinitions()) {
+    definition.headerKeywords.forEach((k) => keywords.add(k));
+  }
+  return Array.from(keywords);
+}
+
 // ============================================================================
 // UNIFIED API FUNCTIONS
 // ============================================================================
@@ -77,8 +193,9 @@ export const IMPORT_TRANSFORMATION_REGISTRY: Record<ImportSourceType, ImportSour
 /**
  * Get the transformer for a specific import source
  */
-export function getImportTransformer(sourceType: ImportSourceType): ImportSourceTransformer {
-  const transformer = IMPORT_TRANSFORMATION_REGISTRY[sourceType];
+export function getImportTransformer(sourceType: ImportSourceKey): ImportSourceTransformer {
+  const transformer =
+    IMPORT_TRANSFORMATION_REGISTRY[sourceType as ImportSourceType] ?? declarativeSources.get(sourceType)?.transformer;
   if (!transformer) {
     throw new Error(`Unsupported import source: ${sourceType}`);
   }
@@ -88,7 +205,7 @@ export function getImportTransformer(sourceType: ImportSourceType): ImportSource
 /**
  * Transform a single row using the appropriate source transformer
  */
-export function transformImportRow(sourceType: ImportSourceType, row: Record<string, string>): TransformationResult {
+export function transformImportRow(sourceType: ImportSourceKey, row: Record<string, string>): TransformationResult {
   const transformer = getImportTransformer(sourceType);
   return transformer.transformRow(row);
 }
@@ -96,7 +213,7 @@ export function transformImportRow(sourceType: ImportSourceType, row: Record<str
 /**
  * Get column mappings for a specific import source
  */
-export function getImportMappings(sourceType: ImportSourceType): ColumnMapping[] {
+export function getImportMappings(sourceType: ImportSourceKey): ColumnMapping[] {
   const transformer = getImportTransformer(sourceType);
   return transformer.getMappings();
 }
@@ -104,7 +221,7 @@ export function getImportMappings(sourceType: ImportSourceType): ColumnMapping[]
 /**
  * Validate data for a specific import source
  */
-export function validateImportData(sourceType: ImportSourceType, data: any): { isValid: boolean; errors: string[] } {
+export function validateImportData(sourceType: ImportSourceKey, data: any): { isValid: boolean; errors: string[] } {
   const transformer = getImportTransformer(sourceType);
   return transformer.validateData(data);
 }
@@ -112,20 +229,20 @@ export function validateImportData(sourceType: ImportSourceType, data: any): { i
 /**
  * Transform multiple rows (batch processing)
  */
-export function transformImportData(sourceType: ImportSourceType, rows: Record<string, string>[]): TransformationResult[] {
+export function transformImportData(sourceType: ImportSourceKey, rows: Record<string, string>[]): TransformationResult[] {
   return rows.map(row => transformImportRow(sourceType, row));
 }
 
 /**
  * Get all supported import sources
  */
-export function getSupportedImportSources(): ImportSourceType[] {
-  return Object.keys(IMPORT_TRANSFORMATION_REGISTRY) as ImportSourceType[];
+export function getSupportedImportSources(): ImportSourceKey[] {
+  return [...(Object.keys(IMPORT_TRANSFORMATION_REGISTRY) as ImportSourceType[]), ...declarativeSources.keys()];
 }
 
 /**
  * Check if an import source is supported
  */
-export function isImportSourceSupported(sourceType: string): sourceType is ImportSourceType {
-  return sourceType in IMPORT_TRANSFORMATION_REGISTRY;
+export function isImportSourceSupported(sourceType: string): sourceType is ImportSourceKey {
+  return sourceType in IMPORT_TRANSFORMATION_REGISTRY || declarativeSources.has(sourceType);
 } 
\ No newline at end of file
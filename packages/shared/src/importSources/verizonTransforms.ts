@@ -0,0 +1,200 @@
+/**
+ * Verizon Phone Import Transformation Module
+ *
+ * Contains all transformation logic specific to Verizon Business phone imports.
+ * This module handles the complete transformation pipeline for the Verizon
+ * "Wireless Number Summary" device export.
+ */
+
+import {
+  parseDeviceName,
+  applyColumnMappings,
+  type ColumnMapping,
+  type TransformationResult
+} from '../importTransformations';
+import {
+  finalizeCarrierPhoneResult,
+  cleanCarrierPhoneNumber,
+  parseCarrierDate,
+  parseCarrierAmount
+} from './carrierPhoneUtils';
+
+// ============================================================================
+// VERIZON PHONE COLUMN MAPPINGS
+// ============================================================================
+
+export const VERIZON_PHONE_MAPPINGS: ColumnMapping[] = [
+  {
+    ninjaColumn: 'User Name',
+    targetField: 'assignedToAadId',
+    targetType: 'direct',
+    description: 'User name (attempt Azure AD resolution)',
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'Wireless Number',
+    targetField: 'phoneNumber',
+    targetType: 'specifications',
+    description: 'Phone number',
+    processor: (value: string) => cleanCarrierPhoneNumber(value, '1', 10),
+  },
+  {
+    ninjaColumn: 'Price Plan Description',
+    targetField: 'planType',
+    targetType: 'specifications',
+    description: 'Plan type',
+  },
+  {
+    ninjaColumn: 'Monthly Access Charge',
+    targetField: 'monthlyCost',
+    targetType: 'specifications',
+    description: 'Monthly plan cost',
+    processor: (value: string) => parseCarrierAmount(value),
+  },
+  {
+    ninjaColumn: 'Device Manufacturer',
+    targetField: 'make',
+    targetType: 'direct',
+    description: 'Device manufacturer',
+    processor: (value: string) => normalizeVerizonManufacturer(value),
+  },
+  {
+    ninjaColumn: 'Device Model',
+    targetField: 'model',
+    targetType: 'direct',
+    description: 'Device model',
+    processor: (value: string) => parseDeviceName(value).model,
+    required: true,
+  },
+  {
+    ninjaColumn: 'Device Model',
+    targetField: 'storage',
+    targetType: 'specifications',
+    description: 'Storage capacity extracted from device model',
+    processor: (value: string) => parseDeviceName(value).storage,
+  },
+  {
+    ninjaColumn: 'Device ID',
+    targetField: 'imei',
+    targetType: 'specifications',
+    description: 'IMEI/MEID number',
+    required: true,
+  },
+  {
+    ninjaColumn: 'Device ID',
+    targetField: 'serialNumber',
+    targetType: 'direct',
+    description: 'IMEI as serial number (fallback)',
+    processor: (value: string) => value?.trim() || null,
+  },
+  {
+    ninjaColumn: 'SIM ID',
+    targetField: 'simCard',
+    targetType: 'specifications',
+    description: 'SIM card number (ICCID)',
+  },
+  {
+    ninjaColumn: 'Contract End Date',
+    targetField: 'contractEndDate',
+    targetType: 'specifications',
+    description: 'Contract end date',
+    processor: (value: string) => parseCarrierDate(value),
+  },
+  {
+    ninjaColumn: 'Upgrade Eligibility Date',
+    targetField: 'upgradeEligibleDate',
+    targetType: 'specifications',
+    description: 'Date the line becomes eligible for a device upgrade',
+    processor: (value: string) => parseCarrierDate(value),
+  },
+  {
+    ninjaColumn: 'Cost Center',
+    targetField: 'costCenter',
+    targetType: 'specifications',
+    description: 'Billing cost center',
+    processor: (value: string) => value?.trim() || null,
+  },
+  // Use Account Number column as a trigger to set assetType → PHONE
+  {
+    ninjaColumn: 'Account Number',
+    targetField: 'assetType',
+    targetType: 'direct',
+    required: true,
+    description: 'Set assetType to PHONE',
+    processor: () => 'PHONE',
+  },
+  // Ignore columns not needed
+  {
+    ninjaColumn: 'Line Status',
+    targetField: '',
+    targetType: 'ignore',
+    description: 'Line status (ignored)',
+  },
+];
+
+// ============================================================================
+// VERIZON PHONE TRANSFORMATION ENGINE
+// ============================================================================
+
+/**
+ * Transform a single row of Verizon phone data
+ */
+export function transformVerizonPhoneRow(row: Record<string, string>): TransformationResult {
+  const result = applyColumnMappings(row, VERIZON_PHONE_MAPPINGS);
+
+  // The manufacturer column is sometimes blank; fall back to the model text
+  if (!result.directFields.make) {
+    result.directFields.make = parseDeviceName(row['Device Model']).make;
+  }
+
+  return finalizeCarrierPhoneResult(result, {
+    source: 'VERIZON',
+    carrier: 'Verizon',
+    deviceDescription: row['Device Model'],
+  });
+}
+
+/**
+ * Get column mapping for a specific Verizon column
+ */
+export function getVerizonMapping(columnName: string): ColumnMapping | undefined {
+  return VERIZON_PHONE_MAPPINGS.find(mapping => mapping.ninjaColumn === columnName);
+}
+
+/**
+ * Validate required fields for Verizon phone import
+ */
+export function validateVerizonPhoneData(data: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  if (!data.model || data.model.trim() === '') {
+    errors.push('Device model is required');
+  }
+
+  if (!data.imei || data.imei.trim() === '') {
+    errors.push('IMEI is required');
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// VERIZON PHONE SPECIFIC UTILITIES
+// ============================================================================
+
+/**
+ * Verizon reports manufacturers in upper case ("APPLE", "SAMSUNG ELECTRONICS")
+ */
+export function normalizeVerizonManufacturer(value: string): string | null {
+  const clean = value?.trim();
+  if (!clean) return null;
+
+  const upper = clean.toUpperCase();
+  if (upper.startsWith('APPLE')) return 'Apple';
+  if (upper.startsWith('SAMSUNG')) return 'Samsung';
+  if (upper.startsWith('GOOGLE')) return 'Google';
+  if (upper.startsWith('MOTOROLA')) return 'Motorola';
+  if (upper.startsWith('SONIM')) return 'Sonim';
+
+  return clean.charAt(0).toUpperCase() + clean.slice(1).toLowerCase();
+}
@@ -20,6 +20,16 @@ export {
   filterNinjaOneServers
 } from './importSources/ninjaOneTransforms';
 
+export {
+  transformIntuneRow,
+  getIntuneMapping,
+  validateIntuneData,
+  INTUNE_MAPPINGS,
+  INTUNE_SPECIFICATION_FIELDS,
+  intuneAssetType,
+  isCompliant as isIntuneCompliant
+} from './importSources/intuneTransforms';
+
 export { 
   transformTelusPhoneRow, 
   getTelusMapping, 
@@ -45,9 +55,41 @@ export {
   parseRogersDeviceName
 } from './importSources/rogersTransforms';
 
+export {
+  transformBellPhoneRow,
+  getBellMapping,
+  validateBellPhoneData,
+  BELL_PHONE_MAPPINGS
+} from './importSources/bellTransforms';
+
+export {
+  transformVerizonPhoneRow,
+  getVerizonMapping,
+  validateVerizonPhoneData,
+  VERIZON_PHONE_MAPPINGS,
+  normalizeVerizonManufacturer
+} from './importSources/verizonTransforms';
+
+export {
+  transformExcetelPhoneRow,
+  getExcetelMapping,
+  validateExcetelPhoneData,
+  EXCETEL_PHONE_MAPPINGS,
+  normalizeExcetelServiceNumber
+} from './importSources/excetelTransforms';
+
+// Post-processing and field helpers shared by the carrier transformers
+export * from './importSources/carrierPhoneUtils';
+
 // Main transformation registry (primary API)
 export * from './importSources/transformationRegistry';
 
+// Admin-defined sources and the named processor library they use
+export * from './importSources/declarativeSources';
+
+// Saved column mapping templates for custom spreadsheets
+export * from './importSources/mappingTemplates';
+
 // Re-export key types for convenience
 export type {
   ColumnMapping,
@@ -56,5 +98,6 @@ export type {
 
 export type {
   ImportSourceType,
+  ImportSourceKey,
   ImportSourceTransformer
 } from './importSources/transformationRegistry'; 
\ No newline at end of file
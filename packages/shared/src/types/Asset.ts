@@ -12,6 +12,7 @@ export enum AssetStatus {
   ASSIGNED = 'ASSIGNED',
   SPARE = 'SPARE',
   MAINTENANCE = 'MAINTENANCE',
+  RECOVER = 'RECOVER',
   RETIRED = 'RETIRED',
   DISPOSED = 'DISPOSED'
 }
@@ -32,6 +33,9 @@ export enum AssetSource {
   API = 'API',
   TELUS = 'TELUS',
   ROGERS = 'ROGERS',
+  BELL = 'BELL',
+  VERIZON = 'VERIZON',
+  EXCETEL = 'EXCETEL',
   INVOICE = 'INVOICE'
 }
 
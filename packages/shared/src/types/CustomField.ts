@@ -5,6 +5,18 @@ export interface CustomField {
   isRequired: boolean;
   isActive: boolean;
   options?: string[];
+  // Validation; pattern and lengths apply to STRING, min/max to NUMBER
+  pattern?: string | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+  minLength?: number | null;
+  maxLength?: number | null;
+  isUnique?: boolean;
+  // Asset types the field applies to; null or empty means every type
+  assetTypes?: string[] | null;
+  defaultValue?: string | null;
+  displayOrder?: number;
+  groupName?: string | null;
   createdAt: string;
   updatedAt: string;
 } 
\ No newline at end of file
@@ -0,0 +1,274 @@
+/**
+ * Golden Master Tests - Bell, Verizon and Excetel Phone Imports
+ *
+ * Same approach as the Telus suite (goldenMaster.test.ts): each case's transformed output
+ * is stored under tests/golden-masters and every run must reproduce it.
+ *
+ * Masters are only written when missing. To re-baseline after an intended change, delete
+ * the affected <case id>.json files and run this suite again.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { transformBellPhoneRow } from '../src/importSources/bellTransforms';
+import { transformVerizonPhoneRow } from '../src/importSources/verizonTransforms';
+import { transformExcetelPhoneRow } from '../src/importSources/excetelTransforms';
+import type { TransformationResult } from '../src/importTransformations';
+
+// ============================================================================
+// GOLDEN MASTER DATA TYPES
+// ============================================================================
+
+interface AssetImportResult {
+  assetTag?: string;
+  serialNumber?: string;
+  model?: string;
+  make?: string;
+  assetType?: string;
+  condition?: string;
+  status?: string;
+  source?: string;
+  assignedToAadId?: string;
+  specifications: Record<string, any>;
+  metadata?: {
+    processedAt: string;
+    version: string;
+    source: 'refactored';
+  };
+}
+
+interface CarrierGoldenMasterCase {
+  id: string;
+  description: string;
+  inputData: Record<string, string>;
+  ignoreFields: string[];
+}
+
+interface CarrierSuite {
+  carrier: string;
+  transform: (row: Record<string, string>) => TransformationResult;
+  cases: CarrierGoldenMasterCase[];
+}
+
+const GOLDEN_MASTER_DIR = path.join(__dirname, 'golden-masters');
+
+function toAssetImportResult(result: TransformationResult): AssetImportResult {
+  return {
+    assetTag: result.directFields.assetTag,
+    serialNumber: result.directFields.serialNumber,
+    model: result.directFields.model,
+    make: result.directFields.make,
+    assetType: result.directFields.assetType,
+    condition: result.directFields.condition,
+    status: result.directFields.status,
+    source: result.directFields.source,
+    assignedToAadId: result.directFields.assignedToAadId,
+    specifications: result.specifications,
+    metadata: {
+      processedAt: new Date().toISOString(),
+      version: '1.0.0',
+      source: 'refactored'
+    }
+  };
+}
+
+// Drop ignored fields and round-trip through JSON so undefined values compare like the stored file
+function normalize(result: AssetImportResult, ignoreFields: string[]): Record<string, any> {
+  const copy: Record<string, any> = JSON.parse(JSON.stringify(result));
+  ignoreFields.forEach((field) => delete copy[field]);
+  return copy;
+}
+
+// ============================================================================
+// GOLDEN MASTER TEST CASES
+// ============================================================================
+
+const CARRIER_SUITES: CarrierSuite[] = [
+  {
+    carrier: 'Bell',
+    transform: transformBellPhoneRow,
+    cases: [
+      {
+        id: 'bell-iphone-15',
+        description: 'iPhone 15 with assigned user and device balance',
+        inputData: {
+          'Account Number': '512345678',
+          'Mobile Number': '+1 (416) 555-0142',
+          'User Name': 'Alice Martin',
+          'Device Model': 'IPHONE 15 128GB BLACK',
+          'IMEI': '356789104512345',
+          'SIM Number': '89302610203040506070',
+          'Rate Plan': 'Business Unlimited 100',
+          'Rate Plan Price': '$65.00',
+          'Contract Start Date': '2024-02-01',
+          'Contract End Date': '2026-02-01',
+          'Device Balance': '$412.50',
+          'Subscriber Status': 'Active'
+        },
+        ignoreFields: ['metadata']
+      },
+      {
+        id: 'bell-samsung-s23-compact-dates',
+        description: 'Samsung Galaxy S23 with compact contract dates',
+        inputData: {
+          'Account Number': '512345678',
+          'Mobile Number': '416.555.0199',
+          'User Name': 'jchen',
+          'Device Model': 'SAMSUNG GALAXY S23 256GB GREEN',
+          'IMEI': '351234567890123',
+          'SIM Number': '',
+          'Rate Plan': 'Business Share 20GB',
+          'Rate Plan Price': '45',
+          'Contract Start Date': '20230715',
+          'Contract End Date': '20250715',
+          'Device Balance': '$0.00',
+          'Subscriber Status': 'Active'
+        },
+        ignoreFields: ['metadata']
+      },
+      {
+        id: 'bell-unassigned-phone',
+        description: 'Unassigned spare phone',
+        inputData: {
+          'Account Number': '512345678',
+          'Mobile Number': '(416) 555-0100',
+          'User Name': '',
+          'Device Model': 'PIXEL 7 128GB OBSIDIAN',
+          'IMEI': '359876543210987',
+          'Rate Plan': 'Data Only',
+          'Contract End Date': '',
+          'Subscriber Status': 'Suspended'
+        },
+        ignoreFields: ['metadata', 'assetTag'] // Asset tag is random for unassigned phones
+      }
+    ]
+  },
+  {
+    carrier: 'Verizon',
+    transform: transformVerizonPhoneRow,
+    cases: [
+      {
+        id: 'verizon-iphone-14-pro',
+        description: 'iPhone 14 Pro with manufacturer column and upgrade date',
+        inputData: {
+          'Account Number': '842001234-00001',
+          'Wireless Number': '212-555-0187',
+          'User Name': 'Maria Lopez',
+          'Device Manufacturer': 'APPLE',
+          'Device Model': 'IPHONE 14 PRO 256GB SPACE BLACK',
+          'Device ID': '353912110123456',
+          'SIM ID': '89148000007123456789',
+          'Price Plan Description': 'Business Unlimited Pro',
+          'Monthly Access Charge': '$45.00',
+          'Contract End Date': '09/30/2025',
+          'Upgrade Eligibility Date': '03/31/2025',
+          'Cost Center': 'NY-SALES',
+          'Line Status': 'Active'
+        },
+        ignoreFields: ['metadata']
+      },
+      {
+        id: 'verizon-missing-manufacturer',
+        description: 'Samsung device with blank manufacturer and country code on the number',
+        inputData: {
+          'Account Number': '842001234-00001',
+          'Wireless Number': '+1 646 555 0133',
+          'User Name': 'dpatel',
+          'Device Manufacturer': '',
+          'Device Model': 'SAMSUNG GALAXY S24 128GB',
+          'Device ID': '350123456789012',
+          'SIM ID': '89148000007123450000',
+          'Price Plan Description': 'Business Unlimited Start',
+          'Monthly Access Charge': '30',
+          'Contract End Date': '',
+          'Upgrade Eligibility Date': '',
+          'Cost Center': '',
+          'Line Status': 'Active'
+        },
+        ignoreFields: ['metadata']
+      }
+    ]
+  },
+  {
+    carrier: 'Excetel',
+    transform: transformExcetelPhoneRow,
+    cases: [
+      {
+        id: 'excetel-iphone-13',
+        description: 'iPhone 13 with Australian dates and international number',
+        inputData: {
+          'Customer Number': 'EXC-10042',
+          'Service Number': '+61 412 345 678',
+          'End User': 'Liam Nguyen',
+          'Handset': 'IPHONE 13 128GB MIDNIGHT',
+          'IMEI': '352345678901234',
+          'SIM Serial': '8961020000123456789',
+          'Plan': 'Business Mobile 40GB',
+          'Plan Cost (inc GST)': 'AUD 35.00',
+          'Contract Start': '15/03/2024',
+          'Contract End': '14/03/2026',
+          'Service Status': 'Active'
+        },
+        ignoreFields: ['metadata']
+      },
+      {
+        id: 'excetel-unassigned-phone',
+        description: 'Unassigned phone in national number format',
+        inputData: {
+          'Customer Number': 'EXC-10042',
+          'Service Number': '0412 987 654',
+          'End User': '',
+          'Handset': 'SAMSUNG GALAXY A54 128GB',
+          'IMEI': '354567890123456',
+          'SIM Serial': '8961020000987654321',
+          'Plan': 'Business Mobile 10GB',
+          'Plan Cost (inc GST)': '$20.00',
+          'Contract Start': '01/07/2024',
+          'Contract End': '30/06/2025',
+          'Service Status': 'Active'
+        },
+        ignoreFields: ['metadata', 'assetTag']
+      }
+    ]
+  }
+];
+
+// ============================================================================
+// GOLDEN MASTER TEST SUITE
+// ============================================================================
+
+describe.each(CARRIER_SUITES)('Golden Master Tests - $carrier Phone Import', ({ transform, cases }) => {
+
+  beforeAll(() => {
+    if (!fs.existsSync(GOLDEN_MASTER_DIR)) {
+      fs.mkdirSync(GOLDEN_MASTER_DIR, { recursive: true });
+    }
+
+    // Establish masters for new cases only; existing files are the standard
+    cases.forEach((testCase) => {
+      const filePath = path.join(GOLDEN_MASTER_DIR, `${testCase.id}.json`);
+      if (!fs.existsSync(filePath)) {
+        const result = toAssetImportResult(transform(testCase.inputData));
+        fs.writeFileSync(filePath, JSON.stringify(result, null, 2) + '\n');
+        console.log(`✅ Generated golden master for ${testCase.id}`);
+      }
+    });
+  });
+
+  test.each(cases)('should match golden master: $description', (testCase) => {
+    const goldenMasterPath = path.join(GOLDEN_MASTER_DIR, `${testCase.id}.json`);
+    const goldenMaster = JSON.parse(fs.readFileSync(goldenMasterPath, 'utf8')) as AssetImportResult;
+    const current = toAssetImportResult(transform(testCase.inputData));
+
+    expect(normalize(current, testCase.ignoreFields)).toEqual(normalize(goldenMaster, testCase.ignoreFields));
+  });
+
+  test.each(cases)('should produce a PHONE asset: $description', (testCase) => {
+    const result = transform(testCase.inputData);
+
+    expect(result.directFields.assetType).toBe('PHONE');
+    expect(result.directFields.assetTag).toMatch(/^PH-/);
+    expect(result.directFields.serialNumber).toBe(testCase.inputData['IMEI'] ?? testCase.inputData['Device ID']);
+    expect(result.validationErrors).toEqual([]);
+  });
+});
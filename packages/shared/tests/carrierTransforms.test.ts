@@ -0,0 +1,83 @@
+/**
+ * Bell, Verizon and Excetel Phone Transformation Tests
+ */
+
+import {
+  cleanCarrierPhoneNumber,
+  generateCarrierPhoneAssetTag,
+  parseCarrierAmount,
+  parseCarrierDate
+} from '../src/importSources/carrierPhoneUtils';
+import { transformBellPhoneRow, validateBellPhoneData } from '../src/importSources/bellTransforms';
+import { normalizeVerizonManufacturer, transformVerizonPhoneRow } from '../src/importSources/verizonTransforms';
+import { normalizeExcetelServiceNumber, transformExcetelPhoneRow } from '../src/importSources/excetelTransforms';
+import { getImportMappings, isImportSourceSupported } from '../src/importSources/transformationRegistry';
+
+describe('Carrier Phone Transformations', () => {
+
+  describe('carrier field helpers', () => {
+    it('should strip punctuation and the country code from phone numbers', () => {
+      expect(cleanCarrierPhoneNumber('+1 (416) 555-0142', '1', 10)).toBe('4165550142');
+      expect(cleanCarrierPhoneNumber('416.555.0142', '1', 10)).toBe('4165550142');
+      expect(cleanCarrierPhoneNumber('', '1', 10)).toBeNull();
+      expect(normalizeExcetelServiceNumber('+61 412 345 678')).toBe('0412345678');
+      expect(normalizeExcetelServiceNumber('412345678')).toBe('0412345678');
+    });
+
+    it('should parse billing dates in each carrier format', () => {
+      expect(parseCarrierDate('2025-07-15')).toBe('2025-07-15T00:00:00.000Z');
+      expect(parseCarrierDate('20250715')).toBe('2025-07-15T00:00:00.000Z');
+      expect(parseCarrierDate('07/15/2025')).toBe('2025-07-15T00:00:00.000Z');
+      expect(parseCarrierDate('15/07/2025', true)).toBe('2025-07-15T00:00:00.000Z');
+      expect(parseCarrierDate('45853')).toBe('2025-07-15T00:00:00.000Z');
+      expect(parseCarrierDate('31/02/2025', true)).toBeNull();
+      expect(parseCarrierDate('not a date')).toBeNull();
+    });
+
+    it('should parse currency amounts', () => {
+      expect(parseCarrierAmount('$1,234.50')).toBe(1234.5);
+      expect(parseCarrierAmount('AUD 35.00')).toBe(35);
+      expect(parseCarrierAmount('')).toBeNull();
+    });
+
+    it('should build asset tags from the subscriber name', () => {
+      expect(generateCarrierPhoneAssetTag('Mary Jane Watson')).toBe('PH-Mary Watson');
+      expect(generateCarrierPhoneAssetTag('jchen')).toBe('PH-jchen');
+      expect(generateCarrierPhoneAssetTag(null)).toMatch(/^PH-\d{6}-[A-Z0-9]{1,3}$/);
+    });
+  });
+
+  describe('IMEI fallback', () => {
+    it('should use the IMEI as the serial number', () => {
+      const result = transformBellPhoneRow({ 'Account Number': '1', 'Device Model': 'IPHONE 15 128GB', 'IMEI': ' 356789104512345 ' });
+      expect(result.directFields.serialNumber).toBe('356789104512345');
+      expect(result.specifications.imei).toBe(' 356789104512345 ');
+    });
+
+    it('should report a missing IMEI', () => {
+      const result = transformExcetelPhoneRow({ 'Customer Number': '1', 'Handset': 'IPHONE 13 128GB' });
+      expect(result.validationErrors).toContain('Required field imei is missing');
+      expect(validateBellPhoneData({ model: 'iPhone 15' })).toContain('IMEI is required');
+    });
+  });
+
+  describe('Verizon manufacturer', () => {
+    it('should normalise upper-case manufacturers and fall back to the model text', () => {
+      expect(normalizeVerizonManufacturer('SAMSUNG ELECTRONICS')).toBe('Samsung');
+      expect(normalizeVerizonManufacturer('KYOCERA')).toBe('Kyocera');
+
+      const result = transformVerizonPhoneRow({ 'Account Number': '1', 'Device Model': 'IPHONE 14 128GB', 'Device ID': '353912110123456' });
+      expect(result.directFields.make).toBe('Apple');
+      expect(result.specifications.carrier).toBe('Verizon');
+    });
+  });
+
+  describe('registry', () => {
+    it('should register all three carriers', () => {
+      ['bell', 'verizon', 'excetel'].forEach((source) => {
+        expect(isImportSourceSupported(source)).toBe(true);
+        expect(getImportMappings(source).length).toBeGreaterThan(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Declarative Import Source Tests
+ */
+
+import {
+  detectHeaderRowIndex,
+  transformDeclarativeRow,
+  validateImportSourceDefinition,
+  type ImportSourceDefinition
+} from '../src/importSources/declarativeSources';
+import {
+  getImportHeaderKeywords,
+  getImportMappings,
+  isImportSourceSupported,
+  registerImportSourceDefinition,
+  setImportSourceDefinitions,
+  transformImportRow
+} from '../src/importSources/transformationRegistry';
+
+const freedomDefinition: ImportSourceDefinition = {
+  key: 'freedom',
+  name: 'Freedom Mobile',
+  category: 'phones',
+  sourceSystem: 'FREEDOM',
+  headerKeywords: ['Wireless Number'],
+  presenceTracking: true,
+  fields: [
+    { headers: ['Wireless Number', 'Mobile Number'], targetField: 'phoneNumber', targetType: 'specifications', processors: ['digitsOnly'] },
+    { headers: ['User Name'], targetField: 'assignedToAadId', targetType: 'direct', processors: ['trim'] },
+    { headers: ['Device'], targetField: 'make', targetType: 'direct', processors: ['parseDeviceName.make'] },
+    { headers: ['Device'], targetField: 'model', targetType: 'direct', processors: ['parseDeviceName.model'] },
+    { headers: ['IMEI'], targetField: 'serialNumber', targetType: 'direct', processors: ['trim'], required: true },
+    { headers: ['Activation Date'], targetField: 'activationDate', targetType: 'specifications', processors: ['toISO'] }
+  ],
+  defaults: {
+    directFields: { assetType: 'PHONE', condition: 'GOOD' },
+    specifications: { carrier: 'Freedom' }
+  }
+};
+
+describe('Declarative Import Sources', () => {
+  afterEach(() => {
+    setImportSourceDefinitions([]);
+  });
+
+  describe('validateImportSourceDefinition', () => {
+    it('should accept a complete definition', () => {
+      expect(validateImportSourceDefinition(freedomDefinition)).toEqual([]);
+    });
+
+    it('should reject unknown processors and empty headers', () => {
+      const errors = validateImportSourceDefinition({
+        ...freedomDefinition,
+        fields: [{ headers: [' '], targetField: 'make', targetType: 'direct', processors: ['shout'] }]
+      });
+      expect(errors).toContain('Field 1: at least one header is required');
+      expect(errors).toContain('Field 1: unknown processor "shout"');
+    });
+
+    it('should reject direct targets and defaults that are not asset columns', () => {
+      const errors = validateImportSourceDefinition({
+        ...freedomDefinition,
+        fields: [{ headers: ['Serial'], targetField: 'serialnumber', targetType: 'direct' }],
+        defaults: { directFields: { phoneNumber: '0' } }
+      });
+      expect(errors).toEqual([
+        'Field 1: "serialnumber" is not an asset field; map it to specifications instead',
+        'Default "phoneNumber" is not an asset field'
+      ]);
+    });
+  });
+
+  describe('transformDeclarativeRow', () => {
+    it('should apply aliases, processors and defaults', () => {
+      const result = transformDeclarativeRow(freedomDefinition, {
+        ' mobile number ': '(204) 555-0101',
+        'User Name': ' jdoe ',
+        'Device': 'APPLE IPHONE 13 128GB',
+        'IMEI': '356789012345678',
+        'Activation Date': '2023-05-01'
+      });
+
+      expect(result.specifications.phoneNumber).toBe('2045550101');
+      expect(result.directFields.assignedToAadId).toBe('jdoe');
+      expect(result.directFields.serialNumber).toBe('356789012345678');
+      expect(result.directFields.assetType).toBe('PHONE');
+      expect(result.directFields.status).toBe('ASSIGNED');
+      expect(result.specifications.carrier).toBe('Freedom');
+      expect(result.specifications.activationDate).toBe('2023-05-01T00:00:00.000Z');
+      expect(result.validationErrors).toEqual([]);
+    });
+
+    it('should report missing required fields', () => {
+      const result = transformDeclarativeRow(freedomDefinition, { 'Wireless Number': '2045550101' });
+      expect(result.validationErrors).toContain('Required field serialNumber is missing');
+      expect(result.directFields.status).toBe('AVAILABLE');
+    });
+  });
+
+  describe('registry integration', () => {
+    it('should make registered definitions available through the registry', () => {
+      registerImportSourceDefinition(freedomDefinition);
+
+      expect(isImportSourceSupported('freedom')).toBe(true);
+      expect(getImportMappings('freedom').map((m) => m.ninjaColumn)).toContain('Wireless Number');
+      expect(transformImportRow('freedom', { IMEI: '1234' }).directFields.serialNumber).toBe('1234');
+      expect(getImportHeaderKeywords()).toContain('Wireless Number');
+    });
+
+    it('should not allow built-in sources to be overridden', () => {
+      expect(() => registerImportSourceDefinition({ ...freedomDefinition, key: 'telus' })).toThrow(
+        'Cannot override built-in import source: telus'
+      );
+    });
+  });
+
+  describe('detectHeaderRowIndex', () => {
+    it('should skip a preamble before the header row', () => {
+      const rows = [['Freedom Mobile report'], [], ['wireless number', 'IMEI'], ['2045550101', '1234']];
+      expect(detectHeaderRowIndex(rows, ['Wireless Number'])).toBe(2);
+      expect(detectHeaderRowIndex(rows, ['Not There'])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Microsoft Intune Import Transformation Tests
+ */
+
+import {
+  transformIntuneRow,
+  validateIntuneData,
+  intuneAssetType,
+  parseIntuneDate,
+  parseIntuneStorage,
+  INTUNE_MAPPINGS,
+  INTUNE_SPECIFICATION_FIELDS
+} from '../src/importSources/intuneTransforms';
+import { isImportSourceSupported, transformImportRow } from '../src/importSources/transformationRegistry';
+
+describe('Intune Transformations', () => {
+
+  describe('transformIntuneRow', () => {
+    it('should transform a complete Intune device row', () => {
+      const row = {
+        'Device ID': '5d2c1f9e-8a3b-4c6d-9e0f-1a2b3c4d5e6f',
+        'Device name': '4315',
+        'Enrollment date': '2024-01-10 16:05:42.0000000',
+        'Last check-in': '2025-07-15 14:32:10.1234567',
+        'Azure AD Device ID': 'a1b2c3d4-e5f6-47a8-b9c0-d1e2f3a4b5c6',
+        'OS version': '10.0.22631.3880',
+        'Serial number': 'PF3XK9Z1',
+        'Manufacturer': 'LENOVO',
+        'Model': 'ThinkPad T14 Gen 4',
+        'Total storage': '487755',
+        'Primary user UPN': ' jdoe@bgcengineering.ca ',
+        'Compliance': 'Noncompliant',
+        'Ownership': 'Corporate',
+        'Encrypted': 'True',
+        'OS': 'Windows'
+      };
+
+      const result = transformIntuneRow(row);
+
+      expect(result.directFields.assetTag).toBe('BGC004315');
+      expect(result.directFields.serialNumber).toBe('PF3XK9Z1');
+      expect(result.directFields.make).toBe('LENOVO');
+      expect(result.directFields.model).toBe('ThinkPad T14 Gen 4');
+      expect(result.directFields.assetType).toBe('LAPTOP');
+      expect(result.directFields.source).toBe('INTUNE');
+      expect(result.directFields.assignedToAadId).toBe('jdoe@bgcengineering.ca');
+      expect(result.directFields.status).toBe('ASSIGNED');
+
+      expect(result.specifications.complianceState).toBe('Noncompliant');
+      expect(result.specifications.operatingSystem).toBe('Windows');
+      expect(result.specifications.osVersion).toBe('10.0.22631.3880');
+      expect(result.specifications.lastCheckIn).toBe('2025-07-15T14:32:10.123Z');
+      expect(result.specifications.enrollmentDate).toBe('2024-01-10T16:05:42.000Z');
+      expect(result.specifications.intuneDeviceId).toBe('5d2c1f9e-8a3b-4c6d-9e0f-1a2b3c4d5e6f');
+      expect(result.specifications.storage).toBe('512 GB');
+      expect(result.specifications.encrypted).toBe(true);
+      expect(result.processingNotes).toContain('Device is not compliant (Noncompliant)');
+    });
+
+    it('should leave unassigned devices available', () => {
+      const result = transformIntuneRow({ 'Device name': 'LAB-KIOSK-01', 'Serial number': 'ABC123', 'OS': 'Windows', 'Model': 'OptiPlex 7010' });
+      expect(result.directFields.status).toBe('AVAILABLE');
+      expect(result.directFields.assetType).toBe('DESKTOP');
+      expect(result.directFields.make).toBe('Unknown');
+    });
+
+    it('should require device name and serial number', () => {
+      const result = transformIntuneRow({ 'OS': 'Windows' });
+      expect(result.validationErrors).toEqual([
+        'Required field assetTag is missing',
+        'Required field serialNumber is missing'
+      ]);
+      expect(validateIntuneData({ assetTag: 'BGC004315' })).toEqual(['Serial Number is required']);
+    });
+  });
+
+  describe('utilities', () => {
+    it('should derive asset type from platform and model', () => {
+      expect(intuneAssetType('iOS/iPadOS', 'iPhone 14')).toBe('PHONE');
+      expect(intuneAssetType('iOS/iPadOS', 'iPad Air (5th generation)')).toBe('TABLET');
+      expect(intuneAssetType('Android', 'Galaxy Tab S8')).toBe('TABLET');
+      expect(intuneAssetType('Android', 'Pixel 7')).toBe('PHONE');
+      expect(intuneAssetType('macOS', 'MacBook Pro (14-inch, 2023)')).toBe('LAPTOP');
+      expect(intuneAssetType('macOS', 'Mac mini (2023)')).toBe('DESKTOP');
+      expect(intuneAssetType('Windows', 'Virtual Machine')).toBe('OTHER');
+    });
+
+    it('should parse Intune dates and storage', () => {
+      expect(parseIntuneDate('2025-07-15 14:32:10')).toBe('2025-07-15T14:32:10.000Z');
+      expect(parseIntuneDate('')).toBeNull();
+      expect(parseIntuneStorage('238.2 GB')).toBe('256 GB');
+      expect(parseIntuneStorage('122104')).toBe('128 GB');
+      expect(parseIntuneStorage('n/a')).toBeNull();
+    });
+
+    it('should only list mapped fields as Intune-owned specifications', () => {
+      const mappedSpecs = INTUNE_MAPPINGS.filter(m => m.targetType === 'specifications').map(m => m.targetField);
+      INTUNE_SPECIFICATION_FIELDS.forEach(field => expect(mappedSpecs).toContain(field));
+    });
+  });
+
+  describe('registry', () => {
+    it('should be available through the transformation registry', () => {
+      expect(isImportSourceSupported('intune')).toBe(true);
+      const result = transformImportRow('intune', { 'Device name': 'bgc4400', 'Serial number': 'X1', 'OS': 'Windows' });
+      expect(result.directFields.assetTag).toBe('BGC4400');
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Column Mapping Template Tests
+ */
+
+import {
+  compareHeaderLayouts,
+  findTemplateColumn,
+  fingerprintHeaders
+} from '../src/importSources/mappingTemplates';
+
+describe('Column Mapping Templates', () => {
+  describe('fingerprintHeaders', () => {
+    it('should ignore order, case and whitespace', () => {
+      expect(fingerprintHeaders(['Serial No', 'Model', ' Cost '])).toBe(
+        fingerprintHeaders(['cost', 'serial  no', 'MODEL'])
+      );
+    });
+
+    it('should change when a header is added or renamed', () => {
+      const base = fingerprintHeaders(['Serial No', 'Model']);
+      expect(fingerprintHeaders(['Serial No', 'Model', 'Cost'])).not.toBe(base);
+      expect(fingerprintHeaders(['Serial Number', 'Model'])).not.toBe(base);
+    });
+  });
+
+  describe('compareHeaderLayouts', () => {
+    it('should report missing and added headers', () => {
+      const result = compareHeaderLayouts(['Serial No', 'Model', 'Cost'], ['serial no', 'Model', 'Unit Price']);
+      expect(result.matches).toBe(false);
+      expect(result.missing).toEqual(['Cost']);
+      expect(result.added).toEqual(['Unit Price']);
+      expect(result.overlap).toBeCloseTo(2 / 4);
+    });
+
+    it('should match an identical layout', () => {
+      const result = compareHeaderLayouts(['A', 'B'], ['b', 'a']);
+      expect(result).toEqual({ matches: true, overlap: 1, missing: [], added: [] });
+    });
+  });
+
+  describe('findTemplateColumn', () => {
+    it('should match headers case-insensitively', () => {
+      const columns = [{ header: 'Serial No', targetField: 'serialNumber', targetType: 'direct' as const }];
+      expect(findTemplateColumn(columns, ' serial no')?.targetField).toBe('serialNumber');
+      expect(findTemplateColumn(columns, 'Model')).toBeUndefined();
+    });
+  });
+});